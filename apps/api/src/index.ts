@@ -20,7 +20,11 @@ import respondentGroupsRoutes from './routes/respondentGroups';
 import azureUsersRoutes from './routes/azureUsers';
 import jobsRoutes from './routes/jobs';
 import emailValidationRoutes from './routes/emailValidation';
+import workspaceRoutes from './routes/workspaces';
+import webhookRoutes from './routes/webhooks';
+import apiTokenRoutes from './routes/apiTokens';
 import { seedTemplates } from './utils/seedTemplates';
+import { buildOpenApiSpec } from './utils/openApiSpec';
 import { log, morganMiddleware } from './logger';
 
 // Load env (only needed locally, Heroku ignores .env)
@@ -106,6 +110,11 @@ app.get('/api/test', (_req, res) => {
   res.json({ message: 'Test endpoint working', timestamp: new Date().toISOString() });
 });
 
+// --- OpenAPI specification of the REST API ---
+app.get('/api/openapi.json', (req, res) => {
+  res.json(buildOpenApiSpec(`${req.protocol}://${req.get('host')}`));
+});
+
 // --- Attach Socket.io to app ---
 app.set('io', io);
 
@@ -122,6 +131,9 @@ app.use('/api/respondent-groups', respondentGroupsRoutes);
 app.use('/api/azure-users', azureUsersRoutes);
 app.use('/api/jobs', jobsRoutes);
 app.use('/api/email-validation', emailValidationRoutes);
+app.use('/api/workspaces', workspaceRoutes);
+app.use('/api/webhooks', webhookRoutes);
+app.use('/api/tokens', apiTokenRoutes);
 
 // --- Socket.io handlers ---
 io.on('connection', (socket) => {
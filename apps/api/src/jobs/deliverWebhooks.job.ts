@@ -0,0 +1,161 @@
+import http from 'http';
+import https from 'https';
+import { WebhookRepository } from '../repository/webhook.repository';
+import { WebhookDeliveryRepository } from '../repository/webhookDelivery.repository';
+import { IWebhookDelivery } from '../models/WebhookDelivery';
+import { WEBHOOK_HEADERS, WEBHOOK_TEST_EVENT } from '../shared/webhookEvents';
+import { buildSignatureHeader } from '../utils/webhookSignature';
+import { mayBePublicHost, publicLookup } from '../utils/publicAddress';
+import log from '../logger';
+
+// Wait before each retry; a delivery is given up after the last one
+const RETRY_DELAYS_MS = [60_000, 5 * 60_000, 30 * 60_000, 2 * 60 * 60_000, 12 * 60 * 60_000];
+const MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+const REQUEST_TIMEOUT_MS = 10_000;
+// An attempt still marked as delivering after this is treated as crashed and retried
+const LEASE_MS = 60_000;
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+
+/**
+ * POSTs to a webhook endpoint over a connection made only to a public address: the host is
+ * resolved by publicLookup as the socket connects, so no second lookup can be rebound to an
+ * internal one. Redirects are never followed; the 3xx answer is returned like any other.
+ */
+const postToPublicUrl = (
+  url: string,
+  headers: Record<string, string>,
+  body: string
+): Promise<{ status: number; body: string }> => {
+  const target = new URL(url);
+  if (!mayBePublicHost(target.hostname)) {
+    return Promise.reject(new Error(`${target.hostname} is not a public host`));
+  }
+  const client = target.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = client.request(target, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+      lookup: publicLookup,
+      timeout: REQUEST_TIMEOUT_MS,
+    }, (response) => {
+      let text = '';
+      response.setEncoding('utf8');
+      response.on('data', (chunk: string) => {
+        if (text.length < MAX_RESPONSE_BODY_LENGTH) text += chunk;
+      });
+      response.on('end', () => resolve({ status: response.statusCode ?? 0, body: text.slice(0, MAX_RESPONSE_BODY_LENGTH) }));
+      response.on('error', reject);
+    });
+    request.on('timeout', () => {
+      const error = new Error('Request timed out');
+      error.name = 'TimeoutError';
+      request.destroy(error);
+    });
+    request.on('error', reject);
+    request.end(body);
+  });
+};
+
+/**
+ * Job to deliver queued webhook events
+ *
+ * Features:
+ * - Claims due deliveries one at a time, so several workers can run side by side
+ * - Signs each request body with the webhook secret (see WEBHOOK_HEADERS.signature)
+ * - Only connects to hosts that resolve to public addresses, and never follows redirects
+ * - Treats any 2xx answer as success; anything else is retried with backoff
+ * - Records status, response and timing of the last attempt for the delivery log
+ */
+export class DeliverWebhooksJob {
+  private readonly webhookRepo = new WebhookRepository();
+  private readonly deliveryRepo = new WebhookDeliveryRepository();
+
+  /**
+   * Delivers up to `maxDeliveries` due events and returns how many were attempted
+   */
+  async execute(maxDeliveries = 20): Promise<number> {
+    let attempted = 0;
+    while (attempted < maxDeliveries) {
+      const now = new Date();
+      const delivery = await this.deliveryRepo.claimNextDue(now, new Date(now.getTime() + LEASE_MS));
+      if (!delivery) break;
+      attempted++;
+      await this.deliver(delivery);
+    }
+    return attempted;
+  }
+
+  private async deliver(delivery: IWebhookDelivery): Promise<void> {
+    const deliveryId = String(delivery._id);
+    const webhook = await this.webhookRepo.findWithSecret(String(delivery.webhook));
+    if (!webhook || (!webhook.active && delivery.event !== WEBHOOK_TEST_EVENT)) {
+      await this.deliveryRepo.update(deliveryId, {
+        status: 'failed',
+        error: webhook ? 'Webhook is disabled' : 'Webhook was deleted',
+      });
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const startedAt = Date.now();
+    try {
+      const response = await postToPublicUrl(webhook.url, {
+        'Content-Type': 'application/json',
+        'User-Agent': 'SurveyAppBuilder-Webhooks/1.0',
+        [WEBHOOK_HEADERS.event]: delivery.event,
+        [WEBHOOK_HEADERS.delivery]: deliveryId,
+        [WEBHOOK_HEADERS.signature]: buildSignatureHeader(webhook.secret, body),
+      }, body);
+      const responseBody = response.body;
+      const durationMs = Date.now() - startedAt;
+
+      if (response.status >= 200 && response.status < 300) {
+        await this.deliveryRepo.update(deliveryId, {
+          status: 'succeeded',
+          responseStatus: response.status,
+          responseBody,
+          error: undefined,
+          durationMs,
+          deliveredAt: new Date(),
+        });
+        log.debug('Webhook delivered', 'deliverWebhook', { deliveryId, event: delivery.event, status: response.status });
+        return;
+      }
+      // A redirect could point anywhere, including our own network, so it counts as a failure
+      const error = response.status >= 300 && response.status < 400
+        ? `HTTP ${response.status}: redirects are not followed`
+        : `HTTP ${response.status}`;
+      await this.scheduleRetry(delivery, { responseStatus: response.status, responseBody, durationMs, error });
+    } catch (error: any) {
+      const message = error?.name === 'TimeoutError' ? `Timed out after ${REQUEST_TIMEOUT_MS / 1000}s` : error?.message || String(error);
+      await this.scheduleRetry(delivery, { durationMs: Date.now() - startedAt, error: message });
+    }
+  }
+
+  private async scheduleRetry(delivery: IWebhookDelivery, outcome: Partial<IWebhookDelivery>): Promise<void> {
+    const deliveryId = String(delivery._id);
+    if (delivery.attempts >= MAX_ATTEMPTS) {
+      await this.deliveryRepo.update(deliveryId, { ...outcome, status: 'failed' });
+      log.warn('Webhook delivery failed permanently', 'deliverWebhook', {
+        deliveryId,
+        event: delivery.event,
+        attempts: delivery.attempts,
+        error: outcome.error,
+      });
+      return;
+    }
+    const delay = RETRY_DELAYS_MS[delivery.attempts - 1];
+    await this.deliveryRepo.update(deliveryId, {
+      ...outcome,
+      status: 'pending',
+      nextAttemptAt: new Date(Date.now() + delay),
+    });
+    log.info('Webhook delivery will be retried', 'deliverWebhook', {
+      deliveryId,
+      event: delivery.event,
+      attempts: delivery.attempts,
+      retryInMs: delay,
+      error: outcome.error,
+    });
+  }
+}
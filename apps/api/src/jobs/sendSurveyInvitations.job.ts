@@ -3,6 +3,7 @@ import { SurveyRespondents } from '../models/SurveyRespondents';
 import { Survey } from '../models/Survey';
 import { Respondent } from '../models/Respondent';
 import { SurveyRespondentsRepository } from '../repository/surveyRespondents.repository';
+import { WebhookService } from '../services/webhook.service';
 import { generateSurveyToken, sendSurveyInvite } from '../utils/email';
 import log from '../logger';
 
@@ -30,6 +31,7 @@ interface InvitationResult {
  */
 export class SendSurveyInvitationsJob {
   private readonly repo = new SurveyRespondentsRepository();
+  private readonly webhookService = new WebhookService();
   private batchSize = 10; // Process in batches to avoid overwhelming email service
   private onlySurveyId?: string;
 
@@ -319,6 +321,11 @@ export class SendSurveyInvitationsJob {
 
       // Update invitation status to 'failed'
       await this.updateInvitationStatus(surveyId, respondentId, 'failed');
+      await this.webhookService.dispatch('invitation.failed', surveyId, {
+        respondentId,
+        email: respondentEmail,
+        error: error.message,
+      });
 
       return {
         surveyId,
@@ -2,10 +2,64 @@ import { Request, Response, NextFunction } from 'express';
 import { verifyAccessToken } from '../utils/auth';
 import { User } from '../models/User';
 import log from '../logger';
+import { SurveyRole } from '../shared/surveyAccess';
+import { WorkspaceRole } from '../models/Workspace';
+import { WorkspaceService } from '../services/workspace.service';
+import { ApiTokenService, isApiToken } from '../services/apiToken.service';
+import { ApiTokenScope } from '../shared/apiTokenScopes';
+import { requiredApiTokenScope } from '../utils/apiTokenAccess';
+
+const workspaceService = new WorkspaceService();
+const apiTokenService = new ApiTokenService();
 
 export interface AuthRequest extends Request {
   user?: any;
   survey?: any;
+  // Set by requireSurveyPermission
+  surveyRole?: SurveyRole;
+  // Active workspace of the signed-in user; set by requireAuth
+  workspaceId?: string;
+  workspaceRole?: WorkspaceRole;
+  // Set when the request is authenticated with a personal API token instead of a session
+  apiToken?: { id: string; scopes: ApiTokenScope[] };
+}
+
+const attachWorkspace = async (req: AuthRequest, user: any): Promise<void> => {
+  const { workspaceId, role } = await workspaceService.resolveActiveWorkspace(user);
+  req.workspaceId = workspaceId;
+  req.workspaceRole = role;
+}
+
+const getBearerToken = (req: Request): string | undefined => {
+  const authHeader = req.headers.authorization;
+  return authHeader?.startsWith('Bearer ')
+    ? authHeader.substring('Bearer '.length)
+    : undefined;
+}
+
+// Personal API tokens carry their own workspace and may only call endpoints their scopes cover
+const authenticateApiToken = async (req: AuthRequest, res: Response, token: string): Promise<boolean> => {
+  const identity = await apiTokenService.authenticate(token);
+  // Matched on the route pattern, so a path that merely looks like another endpoint gets no scope
+  const requiredScope = req.route ? requiredApiTokenScope(req.method, req.baseUrl + req.route.path) : null;
+  if (!requiredScope) {
+    res.status(403).json({ error: 'This endpoint cannot be used with an API token' });
+    return false;
+  }
+  if (!identity.scopes.includes(requiredScope)) {
+    res.status(403).json({ error: `API token is missing the ${requiredScope} scope` });
+    return false;
+  }
+  const user = await User.findById(identity.userId).select('-passwordHash');
+  if (!user) {
+    res.status(401).json({ error: 'User not found' });
+    return false;
+  }
+  req.user = user;
+  req.workspaceId = identity.workspaceId;
+  req.workspaceRole = identity.workspaceRole;
+  req.apiToken = { id: identity.tokenId, scopes: identity.scopes };
+  return true;
 }
 
 // Middleware to check SSO session (for SSO authentication)
@@ -35,6 +89,14 @@ export const requireAuth = async (
   next: NextFunction
 ): Promise<void> => {
   try {
+    const bearer = getBearerToken(req);
+    if (isApiToken(bearer)) {
+      if (await authenticateApiToken(req, res, bearer)) {
+        next();
+      }
+      return;
+    }
+
     // Check for SSO session first
     if (req.session?.user) {
       // For SSO users, find or create a User record in database
@@ -83,14 +145,11 @@ export const requireAuth = async (
       }
 
       req.user = user;
+      await attachWorkspace(req, user);
       return next();
     }
 
     // Fall back to JWT authentication
-    const authHeader = req.headers.authorization;
-    const bearer = authHeader?.startsWith('Bearer ')
-      ? authHeader.substring('Bearer '.length)
-      : undefined;
     const token = req.cookies.accessToken || bearer;
 
     if (!token) {
@@ -111,6 +170,7 @@ export const requireAuth = async (
     }
 
     req.user = user;
+    await attachWorkspace(req, user);
     next();
   } catch (error) {
     res.status(401).json({ error: error instanceof Error ? error.message : 'Unauthorized' });
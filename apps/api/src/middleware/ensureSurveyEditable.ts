@@ -22,18 +22,11 @@ export const ensureSurveyEditable = async (
       return;
     }
 
-    // Check if survey is locked and user is the creator
-    if (survey.locked && survey.createdBy?.toString() === req.user?._id?.toString()) {
-      // Allow status updates (publish/unpublish) even for locked surveys
-      const updateData = req.body;
-      if (updateData.status !== undefined) {
-        // Store survey in request for route handlers
-        req.survey = survey;
-        next();
-        return;
-      }
-      
-      res.status(403).json({ error: 'Survey locked after first publish' });
+    // Published surveys stay editable: the service stages content edits as a new draft version.
+    // Deleting is still refused once respondents may have seen the survey, whoever asks; who may
+    // delete at all is up to requireSurveyPermission('manage') on the route.
+    if (survey.locked && req.method === 'DELETE') {
+      res.status(403).json({ error: 'Published surveys cannot be deleted' });
       return;
     }
 
@@ -0,0 +1,55 @@
+import { Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { Survey } from '../models/Survey';
+import { AuthRequest } from './auth';
+import { SurveyPermission, hasSurveyPermission } from '../shared/surveyAccess';
+import { getSurveyRole } from '../utils/surveyAccess';
+import log from '../logger';
+
+// Resolves the caller's role on the survey in `:surveyId` (or `:id`) and rejects requests it does
+// not allow. Surveys the caller has no role on, or that belong to another workspace than the
+// active one, answer 404 so their existence is not revealed.
+export const requireSurveyPermission = (permission: SurveyPermission) => async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const surveyId = req.params.surveyId ?? req.params.id;
+  const userId = req.user?._id?.toString();
+  try {
+    if (!surveyId || !mongoose.Types.ObjectId.isValid(surveyId)) {
+      res.status(400).json({ error: 'Invalid survey ID format' });
+      return;
+    }
+
+    const survey = await Survey.findById(surveyId).select('createdBy collaborators workspace');
+    const role = getSurveyRole(survey, userId);
+    // A survey without a workspace matches none, so it is not reachable from every workspace
+    const otherWorkspace = String(survey?.workspace) !== req.workspaceId;
+    if (!role || otherWorkspace) {
+      res.status(404).json({ error: 'Survey not found' });
+      return;
+    }
+
+    if (!hasSurveyPermission(role, permission)) {
+      log.warn('Survey action not allowed for role', 'requireSurveyPermission', {
+        surveyId,
+        userId,
+        role,
+        permission,
+      });
+      res.status(403).json({ error: `Your ${role} role on this survey does not allow this action` });
+      return;
+    }
+
+    req.surveyRole = role;
+    next();
+  } catch (error) {
+    log.error('Failed to check survey permission', 'requireSurveyPermission', {
+      surveyId,
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({ error: 'Failed to check survey access' });
+  }
+};
@@ -2,10 +2,12 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { Survey } from '../models/Survey';
 import { SurveyRespondentsService } from '../services/surveyRespondents.service';
+import { RespondentIdentity, respondentFilter, hashRespondent } from '../utils/respondentIdentity';
 import log from '../logger';
 
 export interface RespondentRequest extends Request {
   respondentEmail?: string;
+  respondent?: RespondentIdentity;
 }
 
 const surveyRespondentsService = new SurveyRespondentsService();
@@ -31,8 +33,18 @@ export const validateRespondent = async (
       throw new Error('JWT_SECRET not configured');
     }
 
-    // Verify token
-    const decoded = jwt.verify(token, jwtSecret) as { surveyId: string; email: string };
+    // Verify token: invitation tokens carry an email, anonymous-link tokens a session id
+    const decoded = jwt.verify(token, jwtSecret) as {
+      surveyId: string;
+      email?: string;
+      sessionId?: string;
+      deviceId?: string;
+    };
+    if (!decoded.email && !decoded.sessionId) {
+      log.warn('Token has no respondent identity', 'validateRespondent', { surveyId: decoded.surveyId });
+      res.status(401).json({ error: 'Invalid or expired token' });
+      return;
+    }
     
     // Check if this token is for the correct survey
     if (decoded.surveyId !== req.params.surveyId) {
@@ -54,24 +66,41 @@ export const validateRespondent = async (
       return;
     }
 
-    const allowedEmails = await surveyRespondentsService.getAllRespondentEmails(decoded.surveyId);
-    const emailLower = decoded.email.toLowerCase();
+    const respondent: RespondentIdentity = decoded.sessionId
+      ? { anonymousSessionId: decoded.sessionId, deviceId: decoded.deviceId }
+      : { email: decoded.email!.toLowerCase() };
+    const respondentHash = hashRespondent(respondent);
 
-    if (!allowedEmails.includes(emailLower)) {
-      log.info('Email not in authorized list, but token is valid - allowing access', 'validateRespondent', {
-        surveyId: decoded.surveyId,
-        email: decoded.email,
-      });
+    if (respondent.anonymousSessionId) {
+      if (survey.collectionMode !== 'anonymous') {
+        log.warn('Anonymous token used while anonymous link is disabled', 'validateRespondent', {
+          surveyId: decoded.surveyId,
+          respondentHash,
+        });
+        res.status(403).json({ error: 'Anonymous responses are not enabled for this survey' });
+        return;
+      }
+    } else {
+      const allowedEmails = await surveyRespondentsService.getAllRespondentEmails(decoded.surveyId);
+      if (!allowedEmails.includes(respondent.email!)) {
+        log.info('Email not in authorized list, but token is valid - allowing access', 'validateRespondent', {
+          surveyId: decoded.surveyId,
+          email: decoded.email,
+        });
+      }
     }
 
     // Block if respondent has already completed the survey
     try {
       const { Response } = await import('../models/Response');
-      const existing = await Response.findOne({ survey: decoded.surveyId, respondentEmail: decoded.email }).select('status');
-      if (existing?.status === 'Completed') {
+      const existing = await Response.findOne({ survey: decoded.surveyId, ...respondentFilter(respondent) }).select('status');
+      const deviceCompleted = !existing && respondent.deviceId && survey.onePerDevice
+        ? await Response.exists({ survey: decoded.surveyId, deviceId: respondent.deviceId, status: 'Completed' })
+        : null;
+      if (existing?.status === 'Completed' || deviceCompleted) {
         log.warn('Respondent already completed survey - blocking access', 'validateRespondent', {
           surveyId: decoded.surveyId,
-          email: decoded.email,
+          respondentHash,
         });
         res.status(409).json({ error: 'You have already answered this survey' });
         return;
@@ -79,18 +108,19 @@ export const validateRespondent = async (
     } catch (e) {
       log.warn('Check for existing completed response failed', 'validateRespondent', {
         surveyId: decoded.surveyId,
-        email: decoded.email,
+        respondentHash,
         error: (e as any)?.message,
       });
     }
 
     log.debug('Respondent validated successfully', 'validateRespondent', {
       surveyId: decoded.surveyId,
-      email: decoded.email,
+      respondentHash,
     });
 
-    // Add email to request for use in route handlers
-    req.respondentEmail = decoded.email;
+    // Add respondent to request for use in route handlers
+    req.respondent = respondent;
+    req.respondentEmail = respondent.email;
     next();
   } catch (error) {
     if (error instanceof jwt.JsonWebTokenError) {
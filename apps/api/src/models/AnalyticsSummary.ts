@@ -0,0 +1,49 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ISurvey } from './Survey';
+import { StatsKind } from '../utils/answerStats';
+
+// Stored form of a question's stats; value and word keys are escaped for use as field names.
+// Open-ended (numbers, words) questions keep only their answer count, see AnalyticsSummaryService.
+export interface IStoredQuestionStats {
+  kind: StatsKind;
+  responses: number;
+  values?: Record<string, number>;
+  words?: Record<string, number>;
+}
+
+// Answer counts of a survey's completed responses, incremented on every submission
+export interface IAnalyticsSummary extends Document {
+  survey: ISurvey['_id'];
+  responseCount: number;
+  versions: Record<string, number>;
+  // Keyed by escaped question id
+  questions: Record<string, IStoredQuestionStats>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AnalyticsSummarySchema: Schema = new Schema({
+  survey: {
+    type: Schema.Types.ObjectId,
+    ref: 'Survey',
+    required: true,
+    unique: true,
+  },
+  responseCount: {
+    type: Number,
+    default: 0,
+  },
+  versions: {
+    type: Schema.Types.Mixed,
+    default: {},
+  },
+  questions: {
+    type: Schema.Types.Mixed,
+    default: {},
+  },
+}, {
+  timestamps: true,
+  minimize: false,
+});
+
+export const AnalyticsSummary = mongoose.model<IAnalyticsSummary>('AnalyticsSummary', AnalyticsSummarySchema);
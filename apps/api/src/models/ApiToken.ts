@@ -0,0 +1,65 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IUser } from './User';
+import { IWorkspace } from './Workspace';
+import { API_TOKEN_SCOPES, ApiTokenScope } from '../shared/apiTokenScopes';
+
+// Personal access token for scripts and integrations; acts as its owner within one workspace
+export interface IApiToken extends Document {
+  user: IUser['_id'];
+  workspace: IWorkspace['_id'];
+  name: string;
+  // SHA-256 of the token; the token itself is only shown once, when it is created
+  tokenHash: string;
+  // First characters of the token, so users can recognise it in the list
+  tokenPreview: string;
+  scopes: ApiTokenScope[];
+  expiresAt?: Date | null;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ApiTokenSchema: Schema = new Schema({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true,
+  },
+  workspace: {
+    type: Schema.Types.ObjectId,
+    ref: 'Workspace',
+    required: true,
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100,
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true,
+    select: false,
+  },
+  tokenPreview: {
+    type: String,
+    required: true,
+  },
+  scopes: {
+    type: [{ type: String, enum: API_TOKEN_SCOPES }],
+    default: [],
+  },
+  expiresAt: {
+    type: Date,
+    default: null,
+  },
+  lastUsedAt: Date,
+  revokedAt: Date,
+}, {
+  timestamps: true,
+});
+
+export const ApiToken = mongoose.model<IApiToken>('ApiToken', ApiTokenSchema);
@@ -9,8 +9,13 @@ export enum QuestionType {
   RATING_STAR = 'ratingStar',
   RATING_SMILEY = 'ratingSmiley',
   RATING_NUMBER = 'ratingNumber',
+  NPS = 'nps',
+  MATRIX = 'matrix',
+  RANKING = 'ranking',
+  CONSTANT_SUM = 'constantSum',
   TEXT_SHORT = 'textShort',
   TEXT_LONG = 'textLong',
+  NUMBER = 'number',
   DATE_PICKER = 'datePicker',
   FILE_UPLOAD = 'fileUpload',
   EMAIL = 'email'
@@ -36,10 +41,27 @@ export interface IQuestion extends Document {
     scaleMin?: number;
     scaleMax?: number;
     scaleStep?: number;
+    // Also the anchor labels of NPS questions
     scaleLabels?: { min?: string; max?: string };
     
     // Rating settings
     maxRating?: number;
+
+    // Matrix settings; the columns of the scale are the question's options
+    rows?: Array<{ id: string; text: string }>;
+    multiSelect?: boolean;
+
+    // Ranking settings; only the first rankTopN options are ranked when set
+    rankTopN?: number;
+
+    // Constant-sum settings; the amounts given to the options must add up to sumTotal
+    sumTotal?: number;
+
+    // Number input settings
+    minValue?: number;
+    maxValue?: number;
+    decimals?: number;
+    unit?: string;
     
     // Text settings
     placeholder?: string;
@@ -55,6 +77,11 @@ export interface IQuestion extends Document {
     dateFormat?: string;
     minDate?: string;
     maxDate?: string;
+
+    // Quiz settings (choice, dropdown and number questions); see shared/quiz
+    correctAnswer?: string | string[] | number;
+    points?: number;
+    explanation?: string;
     
 
 
@@ -1,5 +1,6 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import { IUser } from './User';
+import { IWorkspace } from './Workspace';
 
 export interface IRespondent extends Document {
   azureId?: string;
@@ -10,6 +11,7 @@ export interface IRespondent extends Document {
   accountEnabled?: boolean;
   employeeId?: string;
   createdBy: IUser['_id'];
+  workspace: IWorkspace['_id'];
   isArchived: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -58,6 +60,10 @@ const RespondentSchema: Schema = new Schema({
     ref: 'User',
     required: true,
   },
+  workspace: {
+    type: Schema.Types.ObjectId,
+    ref: 'Workspace',
+  },
   isArchived: {
     type: Boolean,
     default: false,
@@ -68,8 +74,8 @@ const RespondentSchema: Schema = new Schema({
 
 // Compound unique indexes
 // azureId index is sparse to allow null values for manually created profiles
-RespondentSchema.index({ createdBy: 1, azureId: 1 }, { unique: true, sparse: true });
-RespondentSchema.index({ createdBy: 1, mail: 1 }, { unique: true });
+RespondentSchema.index({ workspace: 1, azureId: 1 }, { unique: true, sparse: true });
+RespondentSchema.index({ workspace: 1, mail: 1 }, { unique: true });
 
 export const Respondent = mongoose.model<IRespondent>('Respondent', RespondentSchema);
 
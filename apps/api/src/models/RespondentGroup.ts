@@ -1,12 +1,14 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import { IUser } from './User';
 import { IRespondent } from './Respondent';
+import { IWorkspace } from './Workspace';
 
 export interface IRespondentGroup extends Document {
   name: string;
   description?: string;
   members: IRespondent['_id'][];
   createdBy: IUser['_id'];
+  workspace: IWorkspace['_id'];
   isArchived: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -33,6 +35,10 @@ const RespondentGroupSchema: Schema = new Schema({
     ref: 'User',
     required: true,
   },
+  workspace: {
+    type: Schema.Types.ObjectId,
+    ref: 'Workspace',
+  },
   isArchived: {
     type: Boolean,
     default: false,
@@ -42,7 +48,7 @@ const RespondentGroupSchema: Schema = new Schema({
 });
 
 // Compound unique index
-RespondentGroupSchema.index({ createdBy: 1, name: 1 }, { unique: true });
+RespondentGroupSchema.index({ workspace: 1, name: 1 }, { unique: true });
 
 export const RespondentGroup = mongoose.model<IRespondentGroup>('RespondentGroup', RespondentGroupSchema);
 
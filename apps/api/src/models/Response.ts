@@ -1,14 +1,24 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import { ISurvey } from './Survey';
+import { QuizScore } from '../shared/quiz';
+import { HiddenFieldValues } from '../shared/hiddenFields';
+import { ComputedValues } from '../shared/computedVariables';
 
 export interface IResponse extends Document {
   survey: ISurvey['_id'];
   surveySlug: string;
   respondentEmail?: string;
+  // Set instead of respondentEmail for responses collected through the anonymous link
+  anonymousSessionId?: string;
+  deviceId?: string;
+  // Survey version the answers were given against (see SurveyVersion)
+  surveyVersion?: number;
   responses: Array<{
     questionId: string;
     value: any;
     pageIndex: number;
+    // Loop item the answer was given for; only set on questions inside a loop
+    iteration?: string;
   }>;
   completedAt?: Date;
   ipAddress?: string;
@@ -21,6 +31,12 @@ export interface IResponse extends Document {
     pagesVisited?: number[];
     lastPageIndex?: number;
   };
+  // Set on submission when the survey is a quiz
+  quiz?: QuizScore;
+  // Hidden field values by field name, captured from the survey link or the invitation
+  hiddenFields?: HiddenFieldValues;
+  // Computed variables by name, evaluated on submission
+  computed?: ComputedValues;
 }
 
 const ResponseSchema: Schema = new Schema({
@@ -34,11 +50,21 @@ const ResponseSchema: Schema = new Schema({
     trim: true,
     lowercase: true,
   },
+  anonymousSessionId: {
+    type: String,
+  },
+  deviceId: {
+    type: String,
+  },
   surveySlug: {
     type: String,
     required: true,
     index: true,
   },
+  surveyVersion: {
+    type: Number,
+    min: 1,
+  },
   responses: [{
     questionId: {
       type: String,
@@ -52,6 +78,9 @@ const ResponseSchema: Schema = new Schema({
       type: Number,
       required: true,
     },
+    iteration: {
+      type: String,
+    },
   }],
   completedAt: {
     type: Date,
@@ -89,6 +118,31 @@ const ResponseSchema: Schema = new Schema({
       required: true,
     },
   },
+  quiz: {
+    type: {
+      _id: false,
+      score: Number,
+      maxScore: Number,
+      percent: Number,
+      passed: Boolean,
+      questions: [{
+        _id: false,
+        questionId: String,
+        correct: Boolean,
+        earned: Number,
+        points: Number,
+      }],
+    },
+    default: undefined,
+  },
+  hiddenFields: {
+    type: Schema.Types.Mixed,
+    default: undefined,
+  },
+  computed: {
+    type: Schema.Types.Mixed,
+    default: undefined,
+  },
 }, {
   timestamps: true,
 });
@@ -96,7 +150,16 @@ const ResponseSchema: Schema = new Schema({
 // Index for efficient querying
 ResponseSchema.index({ survey: 1, createdAt: -1 });
 ResponseSchema.index({ surveySlug: 1, status: 1 });
-ResponseSchema.index({ survey: 1, respondentEmail: 1 }, { unique: true, sparse: true });
+// Partial rather than sparse: a sparse compound index still indexes (and collides on) responses without an email
+ResponseSchema.index(
+  { survey: 1, respondentEmail: 1 },
+  { unique: true, partialFilterExpression: { respondentEmail: { $type: 'string' } } }
+);
+ResponseSchema.index(
+  { survey: 1, anonymousSessionId: 1 },
+  { unique: true, partialFilterExpression: { anonymousSessionId: { $type: 'string' } } }
+);
+ResponseSchema.index({ survey: 1, deviceId: 1, status: 1 });
 
 export const Response = mongoose.model<IResponse>('Response', ResponseSchema);
 
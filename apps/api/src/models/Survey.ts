@@ -1,17 +1,44 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import { IUser } from './User';
+import { IWorkspace } from './Workspace';
+import {
+  BranchingRule,
+  BRANCHING_ACTION_TYPES,
+  CONDITION_OPERATORS,
+  RULE_LOGICALS,
+} from '../shared/ruleEngine';
+import { SURVEY_SHARE_ROLES, SurveyShareRole } from '../shared/surveyAccess';
+import { QUIZ_DEFAULT_PASS_PERCENT, QuizSettings } from '../shared/quiz';
+import { HiddenFieldDefinition, MAX_HIDDEN_FIELD_VALUE_LENGTH } from '../shared/hiddenFields';
+import { ComputedVariableDefinition } from '../shared/computedVariables';
+import { MAX_EXPRESSION_LENGTH } from '../shared/expression';
+import { LoopSettings } from '../shared/loops';
 
-export interface IBranchingRule {
-  questionId: string;
-  condition: {
-    operator: 'equals' | 'contains' | 'greater_than' | 'less_than';
-    value: any;
-  };
-  logical?: 'AND' | 'OR';
-  action: {
-    type: 'skip_to_page' | 'end_survey';
-    targetPageIndex?: number;
-  };
+export type IBranchingRule = BranchingRule;
+
+// invite: respondents need an email-bound token; anonymous: anyone with the /s/:slug link may respond
+export const SURVEY_COLLECTION_MODES = ['invite', 'anonymous'] as const;
+export type SurveyCollectionMode = typeof SURVEY_COLLECTION_MODES[number];
+
+export interface ISurveyCollaborator {
+  user: IUser['_id'];
+  role: SurveyShareRole;
+  addedBy?: IUser['_id'];
+  addedAt: Date;
+}
+
+// Content edits made after a survey is first published; applied as the next version on publish
+export interface ISurveyDraft {
+  title?: string;
+  description?: string;
+  theme?: string;
+  backgroundColor?: string;
+  textColor?: string;
+  pages?: ISurvey['pages'];
+  quiz?: QuizSettings;
+  hiddenFields?: HiddenFieldDefinition[];
+  computedVariables?: ComputedVariableDefinition[];
+  updatedAt: Date;
 }
 
 export interface ISurvey extends Document {
@@ -23,14 +50,24 @@ export interface ISurvey extends Document {
   textColor?: string;
   status: 'draft' | 'published' | 'closed' |'live' | 'archived';
   locked: boolean;
+  version: number;
+  draft?: ISurveyDraft | null;
   startDate?: Date;  
   endDate?: Date;  
   closeDate?: Date;
+  collectionMode: SurveyCollectionMode;
+  onePerDevice: boolean;
+  quiz?: QuizSettings;
+  hiddenFields: HiddenFieldDefinition[];
+  computedVariables: ComputedVariableDefinition[];
   pages: Array<{
     questions: Array<any>;
     branching?: Array<IBranchingRule>;
+    loop?: LoopSettings;
   }>;
   createdBy: IUser['_id'];
+  workspace: IWorkspace['_id'];
+  collaborators: ISurveyCollaborator[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -78,6 +115,39 @@ const SurveySchema: Schema = new Schema({
   closeDate: {
     type: Date,
   },
+  collectionMode: {
+    type: String,
+    enum: SURVEY_COLLECTION_MODES,
+    default: 'invite',
+  },
+  // Anonymous mode only: allow a single completed response per browser
+  onePerDevice: {
+    type: Boolean,
+    default: false,
+  },
+  // Correct answers and points live on the questions; these settings apply to the whole quiz
+  quiz: {
+    enabled: { type: Boolean, default: false },
+    passPercent: { type: Number, min: 0, max: 100, default: QUIZ_DEFAULT_PASS_PERCENT },
+    passMessage: { type: String, trim: true, maxlength: 1000 },
+    failMessage: { type: String, trim: true, maxlength: 1000 },
+    showScore: { type: Boolean, default: true },
+    showFeedback: { type: Boolean, default: false },
+  },
+  // Filled from the survey link's query parameters or the respondent's invitation; see shared/hiddenFields
+  hiddenFields: [{
+    _id: false,
+    name: { type: String, required: true, trim: true },
+    label: { type: String, trim: true, maxlength: 200 },
+    defaultValue: { type: String, maxlength: MAX_HIDDEN_FIELD_VALUE_LENGTH },
+  }],
+  // Formulas over the answers, evaluated in order; see shared/computedVariables
+  computedVariables: [{
+    _id: false,
+    name: { type: String, required: true, trim: true },
+    label: { type: String, trim: true, maxlength: 200 },
+    expression: { type: String, required: true, maxlength: MAX_EXPRESSION_LENGTH },
+  }],
   pages: [{
     questions: [{
       type: Schema.Types.Mixed,
@@ -85,26 +155,39 @@ const SurveySchema: Schema = new Schema({
     backgroundColor: {
       type: String,
     },
+    // Repeats this page and the ones after it per loop item; validated by validateLoops before saving
+    loop: {
+      type: Schema.Types.Mixed,
+      default: undefined,
+    },
     branching: [{
       questionId: String,
+      rowId: String,
       condition: {
         operator: {
           type: String,
-          enum: ['equals', 'contains', 'greater_than', 'less_than'],
+          enum: CONDITION_OPERATORS,
         },
         value: Schema.Types.Mixed,
       },
+      // Nested AND/OR groups; validated by validateSurveyRules before saving
+      rules: {
+        type: [Schema.Types.Mixed],
+        default: undefined,
+      },
       logical: {
         type: String,
-        enum: ['AND', 'OR'],
+        enum: RULE_LOGICALS,
         default: 'OR',
       },
       action: {
         type: {
           type: String,
-          enum: ['skip_to_page', 'end_survey'],
+          enum: BRANCHING_ACTION_TYPES,
         },
         targetPageIndex: Number,
+        targetQuestionId: String,
+        message: String,
       },
     }],
   }],
@@ -113,12 +196,52 @@ const SurveySchema: Schema = new Schema({
     ref: 'User',
     required: true,
   },
+  // Surveys that predate workspaces get one from `npm run migrate:workspaces`, which must run first
+  workspace: {
+    type: Schema.Types.ObjectId,
+    ref: 'Workspace',
+    required: true,
+    index: true,
+  },
+  collaborators: [{
+    _id: false,
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    role: {
+      type: String,
+      enum: SURVEY_SHARE_ROLES,
+      required: true,
+    },
+    addedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    addedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  }],
   locked: {
     type: Boolean,
     default: false,
   },
+  // Published content version; bumped each time a draft is published
+  version: {
+    type: Number,
+    default: 1,
+    min: 1,
+  },
+  draft: {
+    type: Schema.Types.Mixed,
+    default: null,
+  },
 }, {
   timestamps: true,
 });
 
+SurveySchema.index({ 'collaborators.user': 1 });
+
 export const Survey = mongoose.model<ISurvey>('Survey', SurveySchema);
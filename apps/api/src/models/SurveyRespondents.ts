@@ -2,11 +2,14 @@ import mongoose, { Schema, Document } from 'mongoose';
 import { ISurvey } from './Survey';
 import { IRespondent } from './Respondent';
 import { IRespondentGroup } from './RespondentGroup';
+import { HiddenFieldValues } from '../shared/hiddenFields';
 
 export interface IInvitation {
   respondentId: IRespondent['_id'];
   sentAt?: Date;
   status: 'pending' | 'sent' | 'failed';
+  // This respondent's hidden field values; they win over the survey link's query parameters
+  hiddenFields?: HiddenFieldValues;
 }
 
 export interface ISurveyRespondents extends Document {
@@ -33,6 +36,10 @@ const InvitationSchema: Schema = new Schema({
     enum: ['pending', 'sent', 'failed'],
     default: 'pending',
   },
+  hiddenFields: {
+    type: Schema.Types.Mixed,
+    default: undefined,
+  },
 }, { _id: false });
 
 const SurveyRespondentsSchema: Schema = new Schema({
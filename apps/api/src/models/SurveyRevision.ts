@@ -0,0 +1,90 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ISurvey } from './Survey';
+import { IUser } from './User';
+
+// Snapshot of a survey's editable content after a save in the builder
+export interface ISurveyRevision extends Document {
+  survey: ISurvey['_id'];
+  revision: number;
+  // Version the edit applies to: the live version, or the draft of the next one for published surveys
+  surveyVersion: number;
+  title: string;
+  description?: string;
+  theme?: string;
+  backgroundColor?: string;
+  textColor?: string;
+  pages: ISurvey['pages'];
+  quiz?: ISurvey['quiz'];
+  hiddenFields?: ISurvey['hiddenFields'];
+  computedVariables?: ISurvey['computedVariables'];
+  changes: string[];
+  restoredFrom?: number;
+  createdBy?: IUser['_id'];
+  createdAt: Date;
+}
+
+const SurveyRevisionSchema: Schema = new Schema({
+  survey: {
+    type: Schema.Types.ObjectId,
+    ref: 'Survey',
+    required: true,
+  },
+  revision: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+  surveyVersion: {
+    type: Number,
+    default: 1,
+  },
+  title: {
+    type: String,
+    required: true,
+  },
+  description: {
+    type: String,
+  },
+  theme: {
+    type: String,
+  },
+  backgroundColor: {
+    type: String,
+  },
+  textColor: {
+    type: String,
+  },
+  pages: {
+    type: [Schema.Types.Mixed],
+    default: [],
+  },
+  quiz: {
+    type: Schema.Types.Mixed,
+  },
+  // Unset on older revisions, so restoring one keeps the current hidden fields and computed variables
+  hiddenFields: {
+    type: [Schema.Types.Mixed],
+    default: undefined,
+  },
+  computedVariables: {
+    type: [Schema.Types.Mixed],
+    default: undefined,
+  },
+  changes: {
+    type: [String],
+    default: [],
+  },
+  restoredFrom: {
+    type: Number,
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+});
+
+SurveyRevisionSchema.index({ survey: 1, revision: -1 }, { unique: true });
+
+export const SurveyRevision = mongoose.model<ISurveyRevision>('SurveyRevision', SurveyRevisionSchema);
@@ -0,0 +1,77 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ISurvey } from './Survey';
+import { IUser } from './User';
+
+// Immutable snapshot of a survey's content as published to respondents
+export interface ISurveyVersion extends Document {
+  survey: ISurvey['_id'];
+  version: number;
+  title: string;
+  description?: string;
+  theme?: string;
+  backgroundColor?: string;
+  textColor?: string;
+  pages: ISurvey['pages'];
+  quiz?: ISurvey['quiz'];
+  hiddenFields?: ISurvey['hiddenFields'];
+  computedVariables?: ISurvey['computedVariables'];
+  publishedBy?: IUser['_id'];
+  publishedAt: Date;
+}
+
+const SurveyVersionSchema: Schema = new Schema({
+  survey: {
+    type: Schema.Types.ObjectId,
+    ref: 'Survey',
+    required: true,
+  },
+  version: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+  title: {
+    type: String,
+    required: true,
+  },
+  description: {
+    type: String,
+  },
+  theme: {
+    type: String,
+  },
+  backgroundColor: {
+    type: String,
+  },
+  textColor: {
+    type: String,
+  },
+  pages: {
+    type: [Schema.Types.Mixed],
+    default: [],
+  },
+  quiz: {
+    type: Schema.Types.Mixed,
+  },
+  // Left unset on snapshots taken before hidden fields and computed variables were versioned
+  hiddenFields: {
+    type: [Schema.Types.Mixed],
+    default: undefined,
+  },
+  computedVariables: {
+    type: [Schema.Types.Mixed],
+    default: undefined,
+  },
+  publishedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  publishedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+SurveyVersionSchema.index({ survey: 1, version: 1 }, { unique: true });
+
+export const SurveyVersion = mongoose.model<ISurveyVersion>('SurveyVersion', SurveyVersionSchema);
@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { IWorkspace } from './Workspace';
 
 export interface ITemplate extends Document {
   id: string;
@@ -12,6 +13,8 @@ export interface ITemplate extends Document {
     branching?: Array<any>;
   }>;
   createdBy?: Schema.Types.ObjectId | null;
+  // Null for the built-in sample templates shared by every workspace
+  workspace?: IWorkspace['_id'] | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -57,6 +60,12 @@ const TemplateSchema: Schema = new Schema({
     ref: 'User',
     default: null,
   },
+  workspace: {
+    type: Schema.Types.ObjectId,
+    ref: 'Workspace',
+    default: null,
+    index: true,
+  },
 }, {
   timestamps: true,
 });
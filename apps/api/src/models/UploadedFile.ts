@@ -0,0 +1,63 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ISurvey } from './Survey';
+
+export interface IUploadedFile extends Document {
+  survey: ISurvey['_id'];
+  questionId: string;
+  respondentEmail?: string;
+  anonymousSessionId?: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  storageDriver: string;
+  storageKey: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const UploadedFileSchema: Schema = new Schema({
+  survey: {
+    type: Schema.Types.ObjectId,
+    ref: 'Survey',
+    required: true,
+  },
+  questionId: {
+    type: String,
+    required: true,
+  },
+  respondentEmail: {
+    type: String,
+    trim: true,
+    lowercase: true,
+  },
+  anonymousSessionId: {
+    type: String,
+  },
+  originalName: {
+    type: String,
+    required: true,
+  },
+  mimeType: {
+    type: String,
+    default: 'application/octet-stream',
+  },
+  size: {
+    type: Number,
+    required: true,
+  },
+  storageDriver: {
+    type: String,
+    required: true,
+  },
+  storageKey: {
+    type: String,
+    required: true,
+  },
+}, {
+  timestamps: true,
+});
+
+UploadedFileSchema.index({ survey: 1, respondentEmail: 1, questionId: 1 });
+UploadedFileSchema.index({ survey: 1, anonymousSessionId: 1, questionId: 1 });
+
+export const UploadedFile = mongoose.model<IUploadedFile>('UploadedFile', UploadedFileSchema);
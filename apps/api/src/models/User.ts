@@ -7,6 +7,7 @@ export interface IUser extends Document {
   name?: string;
   oid?: string; // Azure AD Object ID for SSO users
   ssoAuth?: boolean; // Flag to indicate SSO authentication
+  activeWorkspace?: mongoose.Types.ObjectId | null; // Workspace the dashboard is currently scoped to
   createdAt: Date;
 }
 
@@ -39,6 +40,11 @@ const UserSchema: Schema = new Schema({
     type: Boolean,
     default: false,
   },
+  activeWorkspace: {
+    type: Schema.Types.ObjectId,
+    ref: 'Workspace',
+    default: null,
+  },
   createdAt: {
     type: Date,
     default: Date.now,
@@ -0,0 +1,69 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IWorkspace } from './Workspace';
+import { ISurvey } from './Survey';
+import { IUser } from './User';
+import { WEBHOOK_EVENTS, WebhookEvent } from '../shared/webhookEvents';
+
+// Endpoint that receives signed POST requests for the subscribed events
+export interface IWebhook extends Document {
+  workspace: IWorkspace['_id'];
+  // Null for workspace-wide webhooks that fire for every survey of the workspace
+  survey?: ISurvey['_id'] | null;
+  url: string;
+  description?: string;
+  events: WebhookEvent[];
+  // HMAC key; only returned when the webhook is created or its secret is rotated
+  secret: string;
+  active: boolean;
+  createdBy: IUser['_id'];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WebhookSchema: Schema = new Schema({
+  workspace: {
+    type: Schema.Types.ObjectId,
+    ref: 'Workspace',
+    required: true,
+  },
+  survey: {
+    type: Schema.Types.ObjectId,
+    ref: 'Survey',
+    default: null,
+  },
+  url: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 2048,
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 200,
+  },
+  events: {
+    type: [{ type: String, enum: WEBHOOK_EVENTS }],
+    default: [],
+  },
+  secret: {
+    type: String,
+    required: true,
+    select: false,
+  },
+  active: {
+    type: Boolean,
+    default: true,
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+}, {
+  timestamps: true,
+});
+
+WebhookSchema.index({ workspace: 1, survey: 1, active: 1 });
+
+export const Webhook = mongoose.model<IWebhook>('Webhook', WebhookSchema);
@@ -0,0 +1,70 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IWebhook } from './Webhook';
+
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'delivering', 'succeeded', 'failed'] as const;
+export type WebhookDeliveryStatus = typeof WEBHOOK_DELIVERY_STATUSES[number];
+
+// Delivery log entries are kept for 30 days
+const DELIVERY_RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+// One event sent to one webhook, including its retries
+export interface IWebhookDelivery extends Document {
+  webhook: IWebhook['_id'];
+  event: string;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  // When the worker should next try; while delivering, when a stuck attempt may be retried
+  nextAttemptAt: Date;
+  lastAttemptAt?: Date;
+  responseStatus?: number;
+  responseBody?: string;
+  error?: string;
+  durationMs?: number;
+  deliveredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WebhookDeliverySchema: Schema = new Schema({
+  webhook: {
+    type: Schema.Types.ObjectId,
+    ref: 'Webhook',
+    required: true,
+  },
+  event: {
+    type: String,
+    required: true,
+  },
+  payload: {
+    type: Schema.Types.Mixed,
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: WEBHOOK_DELIVERY_STATUSES,
+    default: 'pending',
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+  },
+  nextAttemptAt: {
+    type: Date,
+    default: Date.now,
+  },
+  lastAttemptAt: Date,
+  responseStatus: Number,
+  responseBody: String,
+  error: String,
+  durationMs: Number,
+  deliveredAt: Date,
+}, {
+  timestamps: true,
+});
+
+WebhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+WebhookDeliverySchema.index({ webhook: 1, createdAt: -1 });
+WebhookDeliverySchema.index({ createdAt: 1 }, { expireAfterSeconds: DELIVERY_RETENTION_SECONDS });
+
+export const WebhookDelivery = mongoose.model<IWebhookDelivery>('WebhookDelivery', WebhookDeliverySchema);
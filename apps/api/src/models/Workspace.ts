@@ -0,0 +1,64 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IUser } from './User';
+
+// admin: manages the workspace and its members; member: works with the workspace's data
+export const WORKSPACE_ROLES = ['admin', 'member'] as const;
+export type WorkspaceRole = typeof WORKSPACE_ROLES[number];
+
+export interface IWorkspaceMember {
+  user: IUser['_id'];
+  role: WorkspaceRole;
+  addedAt: Date;
+}
+
+// Tenant that owns surveys, templates, respondents and respondent groups
+export interface IWorkspace extends Document {
+  name: string;
+  // Created automatically for a user; it cannot be left or deleted by its creator
+  personal: boolean;
+  members: IWorkspaceMember[];
+  createdBy: IUser['_id'];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WorkspaceSchema: Schema = new Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100,
+  },
+  personal: {
+    type: Boolean,
+    default: false,
+  },
+  members: [{
+    _id: false,
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    role: {
+      type: String,
+      enum: WORKSPACE_ROLES,
+      default: 'member',
+    },
+    addedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  }],
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+}, {
+  timestamps: true,
+});
+
+WorkspaceSchema.index({ 'members.user': 1 });
+
+export const Workspace = mongoose.model<IWorkspace>('Workspace', WorkspaceSchema);
@@ -0,0 +1,78 @@
+import { AnalyticsSummary, IStoredQuestionStats } from '../models/AnalyticsSummary';
+import { AnswerStats, emptyAnswerStats } from '../utils/answerStats';
+
+// Field names may not contain dots or start with "$"; answers and question ids can
+const escapeKey = (key: string) => encodeURIComponent(key).replace(/\./g, '%2E');
+const unescapeKey = (key: string) => decodeURIComponent(key);
+
+const toRecord = <K>(map: Map<K, number>): Record<string, number> => {
+  const record: Record<string, number> = {};
+  map.forEach((count, key) => {
+    record[escapeKey(String(key))] = count;
+  });
+  return record;
+};
+
+const toMap = (record: Record<string, number> | undefined): Map<string, number> =>
+  new Map(Object.entries(record ?? {}).map(([key, count]) => [unescapeKey(key), count]));
+
+export class AnalyticsSummaryRepository {
+  async findBySurvey(surveyId: string): Promise<AnswerStats | null> {
+    const summary = await AnalyticsSummary.findOne({ survey: surveyId }).lean();
+    if (!summary) return null;
+
+    const stats = emptyAnswerStats();
+    stats.responseCount = summary.responseCount;
+    for (const [version, count] of Object.entries(summary.versions ?? {})) {
+      stats.versions.set(Number(version), count);
+    }
+    for (const [questionId, entry] of Object.entries(summary.questions ?? {})) {
+      stats.questions.set(unescapeKey(questionId), {
+        kind: entry.kind,
+        responses: entry.responses ?? 0,
+        values: toMap(entry.values),
+        words: toMap(entry.words),
+      });
+    }
+    return stats;
+  }
+
+  async replace(surveyId: string, stats: AnswerStats) {
+    const questions: Record<string, IStoredQuestionStats> = {};
+    stats.questions.forEach((entry, questionId) => {
+      questions[escapeKey(questionId)] = {
+        kind: entry.kind,
+        responses: entry.responses,
+        values: toRecord(entry.values),
+        words: toRecord(entry.words),
+      };
+    });
+    return AnalyticsSummary.updateOne(
+      { survey: surveyId },
+      { $set: { responseCount: stats.responseCount, versions: toRecord(stats.versions), questions } },
+      { upsert: true }
+    );
+  }
+
+  // Adds `stats` to the stored counts atomically, creating the summary if needed
+  async increment(surveyId: string, stats: AnswerStats) {
+    const inc: Record<string, number> = { responseCount: stats.responseCount };
+    const set: Record<string, string> = {};
+    stats.versions.forEach((count, version) => {
+      inc[`versions.${version}`] = count;
+    });
+    stats.questions.forEach((entry, questionId) => {
+      const path = `questions.${escapeKey(questionId)}`;
+      set[`${path}.kind`] = entry.kind;
+      inc[`${path}.responses`] = entry.responses;
+      entry.values.forEach((count, value) => {
+        inc[`${path}.values.${escapeKey(value)}`] = count;
+      });
+      entry.words.forEach((count, word) => {
+        inc[`${path}.words.${escapeKey(word)}`] = count;
+      });
+    });
+    const update = Object.keys(set).length > 0 ? { $inc: inc, $set: set } : { $inc: inc };
+    return AnalyticsSummary.updateOne({ survey: surveyId }, update, { upsert: true });
+  }
+}
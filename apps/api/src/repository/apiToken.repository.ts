@@ -0,0 +1,29 @@
+import { ApiToken, IApiToken } from '../models/ApiToken';
+
+export class ApiTokenRepository {
+  async create(data: Partial<IApiToken>) {
+    return ApiToken.create(data);
+  }
+
+  async findAllForUser(userId: string) {
+    return ApiToken.find({ user: userId })
+      .populate('workspace', 'name')
+      .sort({ createdAt: -1 });
+  }
+
+  async findForUser(tokenId: string, userId: string) {
+    return ApiToken.findOne({ _id: tokenId, user: userId });
+  }
+
+  async findByHash(tokenHash: string) {
+    return ApiToken.findOne({ tokenHash });
+  }
+
+  async revoke(tokenId: string) {
+    return ApiToken.findByIdAndUpdate(tokenId, { $set: { revokedAt: new Date() } }, { new: true });
+  }
+
+  async touch(tokenId: string, at: Date) {
+    return ApiToken.updateOne({ _id: tokenId }, { $set: { lastUsedAt: at } });
+  }
+}
@@ -14,6 +14,10 @@ export class AuthRepository {
     return user.save();
   }
 
+  async setActiveWorkspace(userId: string, workspaceId: string | null) {
+    return User.updateOne({ _id: userId }, { $set: { activeWorkspace: workspaceId } });
+  }
+
   async save(user: IUser): Promise<IUser> {
     return user.save();
   }
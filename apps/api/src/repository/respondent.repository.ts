@@ -3,7 +3,7 @@ import mongoose from 'mongoose';
 
 export class RespondentRepository {
   async list(
-    createdBy: string,
+    workspaceId: string,
     skip = 0,
     limit = 10,
     filters?: {
@@ -13,7 +13,7 @@ export class RespondentRepository {
     }
   ) {
     const query: any = {
-      createdBy: new mongoose.Types.ObjectId(createdBy),
+      workspace: new mongoose.Types.ObjectId(workspaceId),
       isArchived: filters?.isArchived ?? false,
     };
 
@@ -36,7 +36,7 @@ export class RespondentRepository {
   }
 
   async count(
-    createdBy: string,
+    workspaceId: string,
     filters?: {
       search?: string;
       gender?: 'male' | 'female' | 'other';
@@ -44,7 +44,7 @@ export class RespondentRepository {
     }
   ) {
     const query: any = {
-      createdBy: new mongoose.Types.ObjectId(createdBy),
+      workspace: new mongoose.Types.ObjectId(workspaceId),
       isArchived: filters?.isArchived ?? false,
     };
 
@@ -67,17 +67,17 @@ export class RespondentRepository {
     return Respondent.findById(respondentId);
   }
 
-  async getByIdAndCreator(respondentId: string, createdBy: string) {
+  async getByIdInWorkspace(respondentId: string, workspaceId: string) {
     return Respondent.findOne({
       _id: respondentId,
-      createdBy: new mongoose.Types.ObjectId(createdBy),
+      workspace: new mongoose.Types.ObjectId(workspaceId),
     });
   }
 
   async create(respondentData: Partial<IRespondent>) {
     // Check if a respondent with the same mail exists (even if archived)
     const existing = await Respondent.findOne({
-      createdBy: respondentData.createdBy,
+      workspace: respondentData.workspace,
       mail: respondentData.mail,
     });
 
@@ -119,10 +119,11 @@ export class RespondentRepository {
   }
 
   /**
-   * Upsert multiple Azure profiles by (createdBy, azureId)
+   * Upsert multiple Azure profiles by (workspace, azureId)
    * If a profile already exists, it will be updated; otherwise, it will be created
    */
   async upsertManyAzure(
+    workspaceId: string,
     createdBy: string,
     profiles: Array<{
       azureId: string;
@@ -137,7 +138,7 @@ export class RespondentRepository {
     const operations = profiles.map((profile) => ({
       updateOne: {
         filter: {
-          createdBy: new mongoose.Types.ObjectId(createdBy),
+          workspace: new mongoose.Types.ObjectId(workspaceId),
           azureId: profile.azureId,
         },
         update: {
@@ -150,6 +151,7 @@ export class RespondentRepository {
             employeeId: profile.employeeId,
           },
           $setOnInsert: {
+            workspace: new mongoose.Types.ObjectId(workspaceId),
             createdBy: new mongoose.Types.ObjectId(createdBy),
             isArchived: false,
           },
@@ -161,16 +163,23 @@ export class RespondentRepository {
     return Respondent.bulkWrite(operations);
   }
 
-  async findByAzureIds(createdBy: string, azureIds: string[]) {
+  async findByAzureIds(workspaceId: string, azureIds: string[]) {
     return Respondent.find({
-      createdBy: new mongoose.Types.ObjectId(createdBy),
+      workspace: new mongoose.Types.ObjectId(workspaceId),
       azureId: { $in: azureIds },
     });
   }
 
-  async findByMails(createdBy: string, mails: string[]) {
+  async countInWorkspace(workspaceId: string, respondentIds: string[]) {
+    return Respondent.countDocuments({
+      _id: { $in: respondentIds.map((id) => new mongoose.Types.ObjectId(id)) },
+      workspace: new mongoose.Types.ObjectId(workspaceId),
+    });
+  }
+
+  async findByMails(workspaceId: string, mails: string[]) {
     return Respondent.find({
-      createdBy: new mongoose.Types.ObjectId(createdBy),
+      workspace: new mongoose.Types.ObjectId(workspaceId),
       mail: { $in: mails },
     });
   }
@@ -3,7 +3,7 @@ import mongoose from 'mongoose';
 
 export class RespondentGroupRepository {
   async list(
-    createdBy: string,
+    workspaceId: string,
     skip = 0,
     limit = 10,
     filters?: {
@@ -12,7 +12,7 @@ export class RespondentGroupRepository {
     }
   ) {
     const query: any = {
-      createdBy: new mongoose.Types.ObjectId(createdBy),
+      workspace: new mongoose.Types.ObjectId(workspaceId),
       isArchived: filters?.isArchived ?? false,
     };
 
@@ -31,14 +31,14 @@ export class RespondentGroupRepository {
   }
 
   async count(
-    createdBy: string,
+    workspaceId: string,
     filters?: {
       search?: string;
       isArchived?: boolean;
     }
   ) {
     const query: any = {
-      createdBy: new mongoose.Types.ObjectId(createdBy),
+      workspace: new mongoose.Types.ObjectId(workspaceId),
       isArchived: filters?.isArchived ?? false,
     };
 
@@ -56,17 +56,17 @@ export class RespondentGroupRepository {
     return RespondentGroup.findById(groupId).populate('members', 'name mail gender');
   }
 
-  async getByIdAndCreator(groupId: string, createdBy: string) {
+  async getByIdInWorkspace(groupId: string, workspaceId: string) {
     return RespondentGroup.findOne({
       _id: groupId,
-      createdBy: new mongoose.Types.ObjectId(createdBy),
+      workspace: new mongoose.Types.ObjectId(workspaceId),
     }).populate('members', 'name mail gender');
   }
 
   async create(groupData: Partial<IRespondentGroup>) {
     // Check if a group with the same name exists (even if archived)
     const existing = await RespondentGroup.findOne({
-      createdBy: groupData.createdBy,
+      workspace: groupData.workspace,
       name: groupData.name,
     });
 
@@ -134,7 +134,7 @@ export class RespondentGroupRepository {
     ).populate('members', 'name mail gender');
   }
 
-  async duplicate(groupId: string, createdBy: string, newName: string) {
+  async duplicate(groupId: string, workspaceId: string, createdBy: string, newName: string) {
     const originalGroup = await this.getById(groupId);
     if (!originalGroup) {
       return null;
@@ -144,6 +144,7 @@ export class RespondentGroupRepository {
       name: newName,
       description: originalGroup.description,
       members: originalGroup.members,
+      workspace: new mongoose.Types.ObjectId(workspaceId),
       createdBy: new mongoose.Types.ObjectId(createdBy),
       isArchived: false,
     });
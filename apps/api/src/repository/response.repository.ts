@@ -1,19 +1,84 @@
+import mongoose from 'mongoose';
 import { Response, IResponse } from '../models/Response';
+import { RespondentIdentity, respondentFilter } from '../utils/respondentIdentity';
+import { ResponseFilters, buildResponseMatch } from '../utils/responseFilters';
+import { AggregatedAnswerStats, StatsKind, buildAnswerStatsPipeline } from '../utils/answerStats';
+import { NpsDayCounts, buildNpsTrendPipeline } from '../utils/npsTrend';
+import { QuizStatsFacet, buildQuizStatsPipeline } from '../utils/quizStats';
+import { HiddenFieldValueCount, buildHiddenFieldStatsPipeline } from '../utils/hiddenFieldStats';
+import { ComputedValueCount, buildComputedStatsPipeline } from '../utils/computedStats';
+
+// Fields recorded when a response document is first created
+const insertFields = (respondent: RespondentIdentity) => ({
+  startedAt: new Date(),
+  ...(respondent.deviceId ? { deviceId: respondent.deviceId } : {}),
+});
 
 export class ResponseRepository {
   async findBySurvey(surveyId: string) {
-    return Response.find({ survey: surveyId }).select('respondentEmail status startedAt metadata responses');
+    return Response.find({ survey: surveyId }).select('respondentEmail anonymousSessionId status startedAt metadata responses');
+  }
+
+  // Responses matching the shared analytics/export filters, oldest first
+  async findFiltered(surveyId: string, filters: ResponseFilters, respondentEmails?: string[]) {
+    return Response.find(buildResponseMatch(surveyId, filters, respondentEmails))
+      .select('respondentEmail anonymousSessionId status surveyVersion startedAt submittedAt metadata responses hiddenFields computed')
+      .sort({ startedAt: 1 });
+  }
+
+  // Answer counts of the matching responses, see buildAnswerStatsPipeline
+  async aggregateAnswerStats(match: Record<string, unknown>, kinds: Map<string, StatsKind>) {
+    const [result] = await Response.aggregate<AggregatedAnswerStats>(buildAnswerStatsPipeline(match, kinds));
+    return result;
+  }
+
+  async aggregateNpsByDay(match: Record<string, unknown>, questionIds: string[]) {
+    return Response.aggregate<NpsDayCounts>(buildNpsTrendPipeline(match, questionIds));
+  }
+
+  // Quiz scores of the matching responses, see buildQuizStatsPipeline
+  async aggregateQuizStats(match: Record<string, unknown>) {
+    const [result] = await Response.aggregate<QuizStatsFacet>(buildQuizStatsPipeline(match));
+    return result;
+  }
+
+  async aggregateHiddenFieldValues(match: Record<string, unknown>, names: string[]) {
+    return Response.aggregate<HiddenFieldValueCount>(buildHiddenFieldStatsPipeline(match, names));
   }
 
-  async findOneBySurveyAndEmail(surveyId: string, email: string) {
-    return Response.findOne({ survey: surveyId, respondentEmail: email })
-      .select('respondentEmail status startedAt submittedAt metadata responses');
+  async aggregateComputedValues(match: Record<string, unknown>, names: string[]) {
+    return Response.aggregate<ComputedValueCount>(buildComputedStatsPipeline(match, names));
+  }
+
+  async findOneBySurveyAndRespondent(surveyId: string, respondent: RespondentIdentity) {
+    return Response.findOne({ survey: surveyId, ...respondentFilter(respondent) })
+      .select('respondentEmail anonymousSessionId status startedAt submittedAt metadata responses hiddenFields');
+  }
+
+  // Only the version the respondent's response started on
+  async findSurveyVersionByRespondent(surveyId: string, respondent: RespondentIdentity) {
+    return Response.findOne({ survey: surveyId, ...respondentFilter(respondent) }).select('surveyVersion');
+  }
+
+  async existsCompletedForDevice(surveyId: string, deviceId: string) {
+    return Response.exists({ survey: surveyId, deviceId, status: 'Completed' });
   }
 
   async countBySurvey(surveyId: string) {
     return Response.countDocuments({ survey: surveyId });
   }
 
+  async countCompletedBySurvey(surveyId: string) {
+    return Response.countDocuments({ survey: surveyId, status: 'Completed' });
+  }
+
+  async countBySurveyVersion(surveyId: string) {
+    return Response.aggregate<{ _id: number | null; count: number }>([
+      { $match: { survey: new mongoose.Types.ObjectId(surveyId) } },
+      { $group: { _id: '$surveyVersion', count: { $sum: 1 } } },
+    ]);
+  }
+
   async findRecentBySurveys(surveyIds: string[], limit = 50) {
     return Response.find({ survey: { $in: surveyIds } })
       .populate('survey', 'title status')
@@ -25,14 +90,16 @@ export class ResponseRepository {
     return Response.deleteMany({ survey: filter.surveyId });
   }
 
-  async upsertAutoSave(surveyId: string, email: string, payload: {
+  async upsertAutoSave(surveyId: string, respondent: RespondentIdentity, payload: {
     responses: IResponse['responses'];
     metadata: IResponse['metadata'];
     status: 'InProgress';
     updatedAt: Date;
+    surveyVersion: number;
+    hiddenFields?: IResponse['hiddenFields'];
   }) {
     return Response.findOneAndUpdate(
-      { survey: surveyId, respondentEmail: email },
+      { survey: surveyId, ...respondentFilter(respondent) },
       {
         $set: {
           responses: payload.responses,
@@ -41,19 +108,25 @@ export class ResponseRepository {
           'metadata.pagesVisited': payload.metadata.pagesVisited,
           status: payload.status,
           updatedAt: payload.updatedAt,
+          surveyVersion: payload.surveyVersion,
+          ...(payload.hiddenFields && { hiddenFields: payload.hiddenFields }),
         },
-        $setOnInsert: { startedAt: new Date() },
+        $setOnInsert: insertFields(respondent),
       },
       { new: true, upsert: true }
     );
   }
 
-  async submitFinal(surveyId: string, email: string, payload: {
+  async submitFinal(surveyId: string, respondent: RespondentIdentity, payload: {
     responses: IResponse['responses'];
     metadata: IResponse['metadata'];
+    surveyVersion: number;
+    quiz?: IResponse['quiz'];
+    hiddenFields?: IResponse['hiddenFields'];
+    computed?: IResponse['computed'];
   }) {
     return Response.findOneAndUpdate(
-      { survey: surveyId, respondentEmail: email },
+      { survey: surveyId, ...respondentFilter(respondent) },
       {
         $set: {
           responses: payload.responses,
@@ -62,8 +135,12 @@ export class ResponseRepository {
           'metadata.pagesVisited': payload.metadata.pagesVisited,
           status: 'Completed',
           submittedAt: new Date(),
+          surveyVersion: payload.surveyVersion,
+          ...(payload.quiz && { quiz: payload.quiz }),
+          ...(payload.hiddenFields && { hiddenFields: payload.hiddenFields }),
+          ...(payload.computed && { computed: payload.computed }),
         },
-        $setOnInsert: { startedAt: new Date() },
+        $setOnInsert: insertFields(respondent),
       },
       { new: true, upsert: true }
     );
@@ -1,15 +1,56 @@
 // repository/survey.repository.ts
+import mongoose from 'mongoose';
 import { Survey } from '../models/Survey';
 import { Response } from '../models/Response';
-import mongoose from 'mongoose';
+import { SurveyPermission } from '../shared/surveyAccess';
+import { surveyAccessFilter } from '../utils/surveyAccess';
 
 export class SurveyRepository {
   async findById(surveyId: string) {
     return Survey.findById(surveyId);
   }
 
-  async findByIdAndCreator(surveyId: string, userId: string) {
-    return Survey.findOne({ _id: surveyId, createdBy: userId });
+  // Surveys the user owns, or that were shared with them in a role granting `permission`
+  async findByIdForUser(surveyId: string, userId: string, permission: SurveyPermission = 'view') {
+    return Survey.findOne({ _id: surveyId, ...surveyAccessFilter(userId, permission) });
+  }
+
+  async findIdsForUser(userId: string, workspaceId: string, permission: SurveyPermission = 'view') {
+    return Survey.find({
+      workspace: new mongoose.Types.ObjectId(workspaceId),
+      ...surveyAccessFilter(userId, permission),
+    }).distinct('_id');
+  }
+
+  async findWithCollaborators(surveyId: string) {
+    return Survey.findById(surveyId)
+      .select('createdBy collaborators')
+      .populate('createdBy', 'name email')
+      .populate('collaborators.user', 'name email');
+  }
+
+  async addCollaborator(surveyId: string, collaborator: { user: string; role: string; addedBy: string }) {
+    return Survey.findOneAndUpdate(
+      { _id: surveyId, 'collaborators.user': { $ne: collaborator.user } },
+      { $push: { collaborators: { ...collaborator, addedAt: new Date() } } },
+      { new: true }
+    );
+  }
+
+  async updateCollaboratorRole(surveyId: string, userId: string, role: string) {
+    return Survey.findOneAndUpdate(
+      { _id: surveyId, 'collaborators.user': userId },
+      { $set: { 'collaborators.$.role': role } },
+      { new: true }
+    );
+  }
+
+  async removeCollaborator(surveyId: string, userId: string) {
+    return Survey.findOneAndUpdate(
+      { _id: surveyId, 'collaborators.user': userId },
+      { $pull: { collaborators: { user: userId } } },
+      { new: true }
+    );
   }
 
   async findBySlug(slug: string) {
@@ -27,8 +68,10 @@ export class SurveyRepository {
     return Survey.findByIdAndDelete(surveyId);
   }
 
-  async findAllByCreator(
+  // Surveys of the workspace owned by or shared with the user
+  async findAllForUser(
     userId: string, 
+    workspaceId: string,
     skip = 0, 
     limit = 10, 
     filters?: { 
@@ -41,8 +84,9 @@ export class SurveyRepository {
       sortOrder?: 'asc' | 'desc';
     }
   ) {
-    const matchStage: any = { 
-      createdBy: new mongoose.Types.ObjectId(userId)
+    const matchStage: any = {
+      workspace: new mongoose.Types.ObjectId(workspaceId),
+      $and: [surveyAccessFilter(userId)],
     };
     
     // Status filter (draft, published, live, closed, archived)
@@ -55,11 +99,11 @@ export class SurveyRepository {
     
     // Search filter (title OR description OR status)
     if (filters?.search) {
-      matchStage.$or = [
+      matchStage.$and.push({ $or: [
         { title: { $regex: filters.search, $options: 'i' } },
         { description: { $regex: filters.search, $options: 'i' } },
         { status: { $regex: filters.search, $options: 'i' } }
-      ];
+      ] });
     }
     
     // Date range filters
@@ -128,8 +172,9 @@ export class SurveyRepository {
     return { [sortField]: order };
   }
 
-  async countByCreator(
+  async countForUser(
     userId: string, 
+    workspaceId: string,
     filters?: { 
       status?: string; 
       search?: string; 
@@ -138,8 +183,9 @@ export class SurveyRepository {
       dateField?: string; 
     }
   ) {
-    const query: any = { 
-      createdBy: userId
+    const query: any = {
+      workspace: new mongoose.Types.ObjectId(workspaceId),
+      $and: [surveyAccessFilter(userId)],
     };
     
     // Status filter (draft, published, live, closed, archived)
@@ -151,11 +197,11 @@ export class SurveyRepository {
     }
     
     if (filters?.search) {
-      query.$or = [
+      query.$and.push({ $or: [
         { title: { $regex: filters.search, $options: 'i' } },
         { description: { $regex: filters.search, $options: 'i' } },
         { status: { $regex: filters.search, $options: 'i' } }
-      ];
+      ] });
     }
     
     if (filters?.dateFrom && filters?.dateField) {
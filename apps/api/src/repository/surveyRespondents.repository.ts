@@ -163,6 +163,21 @@ export class SurveyRespondentsRepository {
     );
   }
 
+  async updateInvitationHiddenFields(surveyId: string, respondentId: string, hiddenFields: IInvitation['hiddenFields']) {
+    return SurveyRespondents.findOneAndUpdate(
+      {
+        surveyId,
+        'invitations.respondentId': respondentId,
+      },
+      {
+        $set: {
+          'invitations.$.hiddenFields': hiddenFields,
+        },
+      },
+      { new: true }
+    );
+  }
+
   async getInvitations(surveyId: string) {
     const surveyRespondents = await SurveyRespondents.findOne({ surveyId })
       .select('invitations')
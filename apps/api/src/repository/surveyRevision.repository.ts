@@ -0,0 +1,32 @@
+import { SurveyRevision, ISurveyRevision } from '../models/SurveyRevision';
+
+export class SurveyRevisionRepository {
+  async create(data: Partial<ISurveyRevision>) {
+    return SurveyRevision.create(data);
+  }
+
+  async findLatest(surveyId: string) {
+    return SurveyRevision.findOne({ survey: surveyId }).sort({ revision: -1 });
+  }
+
+  async findOne(surveyId: string, revision: number) {
+    return SurveyRevision.findOne({ survey: surveyId, revision }).populate('createdBy', 'name email');
+  }
+
+  async findBySurvey(surveyId: string, skip = 0, limit = 20) {
+    return SurveyRevision.find({ survey: surveyId })
+      .select('-pages')
+      .populate('createdBy', 'name email')
+      .sort({ revision: -1 })
+      .skip(skip)
+      .limit(limit);
+  }
+
+  async countBySurvey(surveyId: string) {
+    return SurveyRevision.countDocuments({ survey: surveyId });
+  }
+
+  async deleteBySurvey(surveyId: string) {
+    return SurveyRevision.deleteMany({ survey: surveyId });
+  }
+}
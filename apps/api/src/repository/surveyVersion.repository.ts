@@ -0,0 +1,23 @@
+import { SurveyVersion, ISurveyVersion } from '../models/SurveyVersion';
+
+export class SurveyVersionRepository {
+  async create(data: Partial<ISurveyVersion>) {
+    return SurveyVersion.create(data);
+  }
+
+  async exists(surveyId: string, version: number) {
+    return SurveyVersion.exists({ survey: surveyId, version });
+  }
+
+  async findBySurvey(surveyId: string) {
+    return SurveyVersion.find({ survey: surveyId }).sort({ version: -1 });
+  }
+
+  async findOne(surveyId: string, version: number) {
+    return SurveyVersion.findOne({ survey: surveyId, version });
+  }
+
+  async deleteBySurvey(surveyId: string) {
+    return SurveyVersion.deleteMany({ survey: surveyId });
+  }
+}
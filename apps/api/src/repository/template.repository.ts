@@ -2,12 +2,13 @@ import mongoose from 'mongoose';
 import { Template, ITemplate } from '../models/Template';
 
 export class TemplateRepository {
-  async findAllForUser(userId?: string) {
+  // Built-in sample templates plus the ones imported into the workspace
+  async findAllForWorkspace(workspaceId?: string) {
     const filter: Record<string, unknown> = {};
-    if (userId) {
+    if (workspaceId) {
       filter.$or = [
         { createdBy: null },
-        { createdBy: new mongoose.Types.ObjectId(userId) },
+        { workspace: new mongoose.Types.ObjectId(workspaceId) },
       ];
     } else {
       filter.createdBy = null;
@@ -18,12 +19,12 @@ export class TemplateRepository {
       .sort({ category: 1, title: 1 });
   }
 
-  async findByPublicId(id: string, userId?: string) {
+  async findByPublicId(id: string, workspaceId?: string) {
     const filter: Record<string, unknown> = { id };
-    if (userId) {
+    if (workspaceId) {
       filter.$or = [
         { createdBy: null },
-        { createdBy: new mongoose.Types.ObjectId(userId) },
+        { workspace: new mongoose.Types.ObjectId(workspaceId) },
       ];
     } else {
       filter.createdBy = null;
@@ -55,19 +56,25 @@ export class TemplateRepository {
   async updateTemplateForUser(
     id: string,
     userId: string,
+    workspaceId: string,
     updates: Partial<Pick<ITemplate, 'category' | 'estimatedTime'>>,
   ) {
     return Template.findOneAndUpdate(
-      { id, createdBy: new mongoose.Types.ObjectId(userId) },
+      {
+        id,
+        createdBy: new mongoose.Types.ObjectId(userId),
+        workspace: new mongoose.Types.ObjectId(workspaceId),
+      },
       { $set: updates },
       { new: true },
     );
   }
 
-  async deleteTemplateForUser(id: string, userId: string) {
+  async deleteTemplateForUser(id: string, userId: string, workspaceId: string) {
     return Template.findOneAndDelete({
       id,
       createdBy: new mongoose.Types.ObjectId(userId),
+      workspace: new mongoose.Types.ObjectId(workspaceId),
     });
   }
 }
@@ -0,0 +1,36 @@
+import { UploadedFile, IUploadedFile } from '../models/UploadedFile';
+import { RespondentIdentity, respondentFilter } from '../utils/respondentIdentity';
+
+export class UploadedFileRepository {
+  async create(data: Partial<IUploadedFile>) {
+    return UploadedFile.create(data);
+  }
+
+  async findById(fileId: string) {
+    return UploadedFile.findById(fileId);
+  }
+
+  async findByIdAndSurvey(fileId: string, surveyId: string) {
+    return UploadedFile.findOne({ _id: fileId, survey: surveyId });
+  }
+
+  async findByRespondent(surveyId: string, respondent: RespondentIdentity, fileIds: string[]) {
+    return UploadedFile.find({ _id: { $in: fileIds }, survey: surveyId, ...respondentFilter(respondent) });
+  }
+
+  async countByRespondentQuestion(surveyId: string, respondent: RespondentIdentity, questionId: string) {
+    return UploadedFile.countDocuments({ survey: surveyId, ...respondentFilter(respondent), questionId });
+  }
+
+  async findBySurvey(surveyId: string) {
+    return UploadedFile.find({ survey: surveyId });
+  }
+
+  async deleteById(fileId: string) {
+    return UploadedFile.findByIdAndDelete(fileId);
+  }
+
+  async deleteBySurvey(surveyId: string) {
+    return UploadedFile.deleteMany({ survey: surveyId });
+  }
+}
@@ -0,0 +1,51 @@
+import mongoose from 'mongoose';
+import { Webhook, IWebhook } from '../models/Webhook';
+
+export class WebhookRepository {
+  async create(data: Partial<IWebhook>) {
+    return Webhook.create(data);
+  }
+
+  async findInWorkspace(webhookId: string, workspaceId: string) {
+    return Webhook.findOne({ _id: webhookId, workspace: workspaceId });
+  }
+
+  async findWithSecret(webhookId: string) {
+    return Webhook.findById(webhookId).select('+secret');
+  }
+
+  // Without `surveyId`, every webhook of the workspace; with it, only that survey's
+  async findAllInWorkspace(workspaceId: string, surveyId?: string) {
+    const filter: Record<string, unknown> = { workspace: new mongoose.Types.ObjectId(workspaceId) };
+    if (surveyId) {
+      filter.survey = new mongoose.Types.ObjectId(surveyId);
+    }
+    return Webhook.find(filter).populate('survey', 'title').sort({ createdAt: -1 });
+  }
+
+  // Active webhooks subscribed to `event` for the survey: its own and the workspace-wide ones
+  async findSubscribed(workspaceId: string, surveyId: string, event: string) {
+    return Webhook.find({
+      workspace: workspaceId,
+      active: true,
+      events: event,
+      survey: { $in: [null, new mongoose.Types.ObjectId(surveyId)] },
+    }).select('_id');
+  }
+
+  async update(webhookId: string, updates: Partial<Pick<IWebhook, 'url' | 'description' | 'events' | 'active' | 'secret'>>) {
+    return Webhook.findByIdAndUpdate(webhookId, { $set: updates }, { new: true });
+  }
+
+  async findBySurvey(surveyId: string) {
+    return Webhook.find({ survey: surveyId }).select('_id');
+  }
+
+  async deleteById(webhookId: string) {
+    return Webhook.findByIdAndDelete(webhookId);
+  }
+
+  async deleteBySurvey(surveyId: string) {
+    return Webhook.deleteMany({ survey: surveyId });
+  }
+}
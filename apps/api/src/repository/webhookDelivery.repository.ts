@@ -0,0 +1,40 @@
+import { WebhookDelivery, IWebhookDelivery } from '../models/WebhookDelivery';
+
+export class WebhookDeliveryRepository {
+  async createMany(deliveries: Array<Partial<IWebhookDelivery>>) {
+    return WebhookDelivery.insertMany(deliveries);
+  }
+
+  async findByWebhook(webhookId: string, skip = 0, limit = 20) {
+    return WebhookDelivery.find({ webhook: webhookId })
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit);
+  }
+
+  async countByWebhook(webhookId: string) {
+    return WebhookDelivery.countDocuments({ webhook: webhookId });
+  }
+
+  // Atomically takes the next due delivery, leasing it until `leaseUntil` so a crashed worker's
+  // attempt is picked up again afterwards
+  async claimNextDue(now: Date, leaseUntil: Date) {
+    return WebhookDelivery.findOneAndUpdate(
+      { status: { $in: ['pending', 'delivering'] }, nextAttemptAt: { $lte: now } },
+      { $set: { status: 'delivering', nextAttemptAt: leaseUntil, lastAttemptAt: now }, $inc: { attempts: 1 } },
+      { new: true, sort: { nextAttemptAt: 1 } }
+    );
+  }
+
+  async update(deliveryId: string, updates: Partial<IWebhookDelivery>) {
+    return WebhookDelivery.findByIdAndUpdate(deliveryId, { $set: updates }, { new: true });
+  }
+
+  async deleteByWebhook(webhookId: string) {
+    return WebhookDelivery.deleteMany({ webhook: webhookId });
+  }
+
+  async deleteByWebhooks(webhookIds: string[]) {
+    return WebhookDelivery.deleteMany({ webhook: { $in: webhookIds } });
+  }
+}
@@ -0,0 +1,55 @@
+import { Workspace, IWorkspace, WorkspaceRole } from '../models/Workspace';
+
+export class WorkspaceRepository {
+  async create(data: Partial<IWorkspace>) {
+    return Workspace.create(data);
+  }
+
+  async findById(workspaceId: string) {
+    return Workspace.findById(workspaceId);
+  }
+
+  async findForMember(workspaceId: string, userId: string) {
+    return Workspace.findOne({ _id: workspaceId, 'members.user': userId });
+  }
+
+  async findAllForMember(userId: string) {
+    return Workspace.find({ 'members.user': userId }).sort({ personal: -1, name: 1 });
+  }
+
+  async findPersonal(userId: string) {
+    return Workspace.findOne({ createdBy: userId, personal: true });
+  }
+
+  async findWithMembers(workspaceId: string) {
+    return Workspace.findById(workspaceId).populate('members.user', 'name email');
+  }
+
+  async rename(workspaceId: string, name: string) {
+    return Workspace.findByIdAndUpdate(workspaceId, { $set: { name } }, { new: true });
+  }
+
+  async addMember(workspaceId: string, userId: string, role: WorkspaceRole) {
+    return Workspace.findOneAndUpdate(
+      { _id: workspaceId, 'members.user': { $ne: userId } },
+      { $push: { members: { user: userId, role, addedAt: new Date() } } },
+      { new: true }
+    );
+  }
+
+  async updateMemberRole(workspaceId: string, userId: string, role: WorkspaceRole) {
+    return Workspace.findOneAndUpdate(
+      { _id: workspaceId, 'members.user': userId },
+      { $set: { 'members.$.role': role } },
+      { new: true }
+    );
+  }
+
+  async removeMember(workspaceId: string, userId: string) {
+    return Workspace.findOneAndUpdate(
+      { _id: workspaceId, 'members.user': userId },
+      { $pull: { members: { user: userId } } },
+      { new: true }
+    );
+  }
+}
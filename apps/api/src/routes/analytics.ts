@@ -1,12 +1,15 @@
 import express from 'express';
 import { AnalyticsService } from '../services/analytics.service';
 import { requireAuth, AuthRequest } from '../middleware/auth';
+import { requireSurveyPermission } from '../middleware/requireSurveyPermission';
 import log from '../logger';  // ✅ Import logger
 
 const router = express.Router();
 const service = new AnalyticsService();
 
-router.get('/:surveyId', requireAuth, async (req: AuthRequest, res) => {
+// GET /api/analytics/:surveyId?status=&from=&to=&dateField=&groupId=&answer= - Per-question analytics,
+// optionally restricted to a segment of responses
+router.get('/:surveyId', requireAuth, requireSurveyPermission('results'), async (req: AuthRequest, res) => {
   try {
     const { surveyId } = req.params;
     const userId = req.user._id;
@@ -16,7 +19,7 @@ router.get('/:surveyId', requireAuth, async (req: AuthRequest, res) => {
       userId: userId.toString() 
     });
 
-    const analytics = await service.getSurveyAnalytics(surveyId, userId);
+    const analytics = await service.getSurveyAnalytics(surveyId, userId, req.query);
 
     if (!analytics) {
       log.warn('Survey not found or unauthorized', 'GET_ANALYTICS', { 
@@ -35,6 +38,45 @@ router.get('/:surveyId', requireAuth, async (req: AuthRequest, res) => {
       error: error instanceof Error ? error.message : String(error),
       stack: error instanceof Error ? error.stack : undefined
     });
+    if (error instanceof Error && error.message.startsWith('Validation:')) {
+      return res.status(400).json({ error: error.message.replace('Validation: ', '') });
+    }
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// GET /api/analytics/:surveyId/cross-tab?row=&column= - Contingency table and chi-square test of two questions;
+// accepts the same response filters as the analytics endpoint
+router.get('/:surveyId/cross-tab', requireAuth, requireSurveyPermission('results'), async (req: AuthRequest, res) => {
+  try {
+    const { surveyId } = req.params;
+    const userId = req.user._id.toString();
+
+    log.info('Fetching cross-tabulation', 'GET_CROSS_TAB', {
+      surveyId,
+      userId,
+      row: req.query.row,
+      column: req.query.column
+    });
+
+    const crossTab = await service.getCrossTab(surveyId, userId, req.query.row, req.query.column, req.query);
+    if (!crossTab) {
+      return res.status(404).json({ error: 'Survey not found or you do not have permission to view this survey' });
+    }
+    res.json(crossTab);
+  } catch (error) {
+    log.error('Failed to fetch cross-tabulation', 'GET_CROSS_TAB', {
+      surveyId: req.params.surveyId,
+      userId: req.user?._id.toString(),
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    if (error instanceof Error && error.message.startsWith('Validation:')) {
+      return res.status(400).json({ error: error.message.replace('Validation: ', '') });
+    }
+    if (error instanceof Error && error.message === 'Question not found') {
+      return res.status(404).json({ error: error.message });
+    }
     res.status(500).json({ error: 'Server error' });
   }
 });
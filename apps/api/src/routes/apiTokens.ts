@@ -0,0 +1,72 @@
+import express, { Response } from 'express';
+import { requireAuth, AuthRequest } from '../middleware/auth';
+import { ApiTokenService } from '../services/apiToken.service';
+import log from '../logger';
+
+const router = express.Router();
+const service = new ApiTokenService();
+
+const sendTokenError = (res: Response, error: unknown, fallback: string) => {
+  if (error instanceof Error) {
+    if (error.message.startsWith('Validation:')) {
+      return res.status(400).json({ error: error.message.replace('Validation: ', '') });
+    }
+    if (error.message === 'Token not found') {
+      return res.status(404).json({ error: error.message });
+    }
+  }
+  return res.status(500).json({ error: fallback });
+};
+
+// GET /api/tokens - The signed-in user's personal API tokens, including revoked and expired ones
+router.get('/', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const tokens = await service.listTokens(req.user._id.toString());
+    res.json({ tokens });
+  } catch (error) {
+    log.error('Failed to fetch API tokens', 'GET_API_TOKENS', {
+      userId: req.user?._id.toString(),
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    sendTokenError(res, error, 'Failed to fetch API tokens');
+  }
+});
+
+// POST /api/tokens - Create a token for the active workspace; the token is only returned here
+router.post('/', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    log.info('Creating API token', 'CREATE_API_TOKEN', {
+      scopes: req.body?.scopes,
+      userId: req.user._id.toString()
+    });
+
+    const token = await service.createToken(req.user._id.toString(), req.workspaceId!, req.body);
+    res.status(201).json(token);
+  } catch (error) {
+    log.error('Failed to create API token', 'CREATE_API_TOKEN', {
+      userId: req.user?._id.toString(),
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    sendTokenError(res, error, 'Failed to create API token');
+  }
+});
+
+// DELETE /api/tokens/:tokenId - Revoke a token; it stops working immediately
+router.delete('/:tokenId', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    await service.revokeToken(req.user._id.toString(), req.params.tokenId);
+    res.status(204).send();
+  } catch (error) {
+    log.error('Failed to revoke API token', 'REVOKE_API_TOKEN', {
+      tokenId: req.params.tokenId,
+      userId: req.user?._id.toString(),
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    sendTokenError(res, error, 'Failed to revoke API token');
+  }
+});
+
+export default router;
@@ -1,6 +1,7 @@
 import express from 'express';
 import { SendSurveyInvitationsJob } from '../jobs/sendSurveyInvitations.job';
 import { requireAuth, AuthRequest } from '../middleware/auth';
+import { requireSurveyPermission } from '../middleware/requireSurveyPermission';
 import log from '../logger';
 import { Job } from '../models/Job';
 
@@ -115,7 +116,7 @@ router.get('/pending-invitations/count', requireAuth, async (req: AuthRequest, r
 export default router;
 
 // New endpoints for background job enqueueing and status
-router.post('/surveys/:id/invitations/jobs', requireAuth, async (req: AuthRequest, res) => {
+router.post('/surveys/:id/invitations/jobs', requireAuth, requireSurveyPermission('edit'), async (req: AuthRequest, res) => {
   try {
     const { id: surveyId } = req.params;
     const job = await Job.create({
@@ -30,7 +30,7 @@ router.get('/', requireAuth, async (req: AuthRequest, res) => {
     });
 
     const result = await service.list(
-      req.user._id.toString(),
+      req.workspaceId!,
       page,
       limit,
       filters
@@ -56,7 +56,7 @@ router.get('/:id', requireAuth, async (req: AuthRequest, res) => {
       groupId: id,
     });
 
-    const group = await service.getById(id, req.user._id.toString());
+    const group = await service.getById(id, req.workspaceId!);
 
     res.json(group);
   } catch (error: any) {
@@ -84,7 +84,7 @@ router.post('/', requireAuth, async (req: AuthRequest, res) => {
       name,
     });
 
-    const group = await service.create(req.user._id.toString(), {
+    const group = await service.create(req.workspaceId!, req.user._id.toString(), {
       name,
       description,
       members,
@@ -102,7 +102,11 @@ router.post('/', requireAuth, async (req: AuthRequest, res) => {
       error: error.message,
     });
     
-    if (error.message.includes('required') || error.message.includes('already exists')) {
+    if (
+      error.message.includes('required') ||
+      error.message.includes('already exists') ||
+      error.message.includes('not found in this workspace')
+    ) {
       res.status(400).json({ error: error.message });
     } else {
       res.status(500).json({ error: error.message || 'Failed to create group' });
@@ -123,7 +127,7 @@ router.patch('/:id', requireAuth, async (req: AuthRequest, res) => {
 
     const group = await service.update(
       id,
-      req.user._id.toString(),
+      req.workspaceId!,
       updateData
     );
 
@@ -158,7 +162,7 @@ router.delete('/:id', requireAuth, async (req: AuthRequest, res) => {
       groupId: id,
     });
 
-    await service.softDelete(id, req.user._id.toString());
+    await service.softDelete(id, req.workspaceId!);
 
     log.info('Group soft deleted successfully', 'DELETE_GROUP', {
       userId: req.user._id.toString(),
@@ -199,7 +203,7 @@ router.post('/:id/members', requireAuth, async (req: AuthRequest, res) => {
 
     const group = await service.addMembers(
       id,
-      req.user._id.toString(),
+      req.workspaceId!,
       memberIds
     );
 
@@ -244,7 +248,7 @@ router.delete('/:id/members', requireAuth, async (req: AuthRequest, res) => {
 
     const group = await service.removeMembers(
       id,
-      req.user._id.toString(),
+      req.workspaceId!,
       memberIds
     );
 
@@ -285,6 +289,7 @@ router.post('/:id/duplicate', requireAuth, async (req: AuthRequest, res) => {
 
     const group = await service.duplicate(
       id,
+      req.workspaceId!,
       req.user._id.toString(),
       newName
     );
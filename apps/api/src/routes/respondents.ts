@@ -34,7 +34,7 @@ router.get('/', requireAuth, async (req: AuthRequest, res) => {
     });
 
     const result = await service.list(
-      req.user._id.toString(),
+      req.workspaceId!,
       page,
       limit,
       filters
@@ -60,7 +60,7 @@ router.get('/:id', requireAuth, async (req: AuthRequest, res) => {
       respondentId: id,
     });
 
-    const respondent = await service.getById(id, req.user._id.toString());
+    const respondent = await service.getById(id, req.workspaceId!);
 
     res.json(respondent);
   } catch (error: any) {
@@ -88,7 +88,7 @@ router.post('/', requireAuth, async (req: AuthRequest, res) => {
       mail,
     });
 
-    const respondent = await service.create(req.user._id.toString(), {
+    const respondent = await service.create(req.workspaceId!, req.user._id.toString(), {
       azureId,
       name,
       mail,
@@ -131,7 +131,7 @@ router.patch('/:id', requireAuth, async (req: AuthRequest, res) => {
 
     const respondent = await service.update(
       id,
-      req.user._id.toString(),
+      req.workspaceId!,
       updateData
     );
 
@@ -166,7 +166,7 @@ router.delete('/:id', requireAuth, async (req: AuthRequest, res) => {
       respondentId: id,
     });
 
-    await service.softDelete(id, req.user._id.toString());
+    await service.softDelete(id, req.workspaceId!);
 
     log.info('Respondent soft deleted successfully', 'DELETE_RESPONDENT', {
       userId: req.user._id.toString(),
@@ -204,6 +204,7 @@ router.post('/import/azure', requireAuth, async (req: AuthRequest, res) => {
     });
 
     const result = await service.upsertManyAzure(
+      req.workspaceId!,
       req.user._id.toString(),
       profiles
     );
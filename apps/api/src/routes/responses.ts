@@ -2,6 +2,10 @@ import express from 'express';
 import { ResponseService } from '../services/response.service';
 import { validateRespondent, RespondentRequest } from '../middleware/validateRespondent';
 import { requireAuth, AuthRequest } from '../middleware/auth';
+import { requireSurveyPermission } from '../middleware/requireSurveyPermission';
+import { AnswerValidationError } from '../utils/answerValidation';
+import { FileUploadService, MAX_UPLOAD_BYTES } from '../services/fileUpload.service';
+import { ResponseExportService } from '../services/responseExport.service';
 import log from '../logger';  
 
 const router = express.Router();
@@ -14,7 +18,7 @@ router.get('/', requireAuth, async (req: AuthRequest, res) => {
     });
     
     const service = new ResponseService();
-    const overview = await service.getOverviewForCreator(req.user!._id.toString());
+    const overview = await service.getOverviewForCreator(req.user!._id.toString(), req.workspaceId!);
     res.json(overview);
   } catch (error) {
     log.error('Failed to fetch responses', 'GET_RESPONSES', { 
@@ -30,16 +34,17 @@ router.get('/', requireAuth, async (req: AuthRequest, res) => {
 router.put('/:surveyId/auto-save', validateRespondent, async (req: RespondentRequest, res) => {
   try {
     const { surveyId } = req.params;
-    const email = req.respondentEmail!;
+    const respondent = req.respondent!;
     
     log.info('Auto-saving response', 'AUTO_SAVE', { 
       surveyId, 
-      email,
+      email: respondent.email,
+      anonymous: Boolean(respondent.anonymousSessionId),
       dataSize: JSON.stringify(req.body).length 
     });
     
     const service = new ResponseService();
-    const result = await service.autoSave(surveyId, email, req.body);
+    const result = await service.autoSave(surveyId, respondent, req.body);
     
     log.httpResponse(req, res, result, 'AUTO_SAVE');
     res.json(result);
@@ -50,6 +55,9 @@ router.put('/:surveyId/auto-save', validateRespondent, async (req: RespondentReq
       error: error instanceof Error ? error.message : String(error),
       stack: error instanceof Error ? error.stack : undefined
     });
+    if (error instanceof AnswerValidationError) {
+      return res.status(400).json({ error: error.message, details: error.issues });
+    }
     res.status(500).json({ error: 'Failed to save progress' });
   }
 });
@@ -58,16 +66,17 @@ router.put('/:surveyId/auto-save', validateRespondent, async (req: RespondentReq
 router.post('/:surveyId/submit', validateRespondent, async (req: RespondentRequest, res) => {
   try {
     const { surveyId } = req.params;
-    const email = req.respondentEmail!;
+    const respondent = req.respondent!;
     
     log.info('Submitting survey response', 'SUBMIT_RESPONSE', { 
       surveyId, 
-      email,
+      email: respondent.email,
+      anonymous: Boolean(respondent.anonymousSessionId),
       dataSize: JSON.stringify(req.body).length 
     });
     
     const service = new ResponseService();
-    const responseDoc = await service.submit(surveyId, email, req.body);
+    const { responseDoc, quiz } = await service.submit(surveyId, respondent, req.body);
 
     // Emit socket event for real-time updates
     const io = req.app.get('io');
@@ -85,7 +94,7 @@ router.post('/:surveyId/submit', validateRespondent, async (req: RespondentReque
     }
     
     log.httpResponse(req, res, { message: 'Survey submitted successfully' }, 'SUBMIT_RESPONSE');
-    res.json({ message: 'Survey submitted successfully' });
+    res.json({ message: 'Survey submitted successfully', ...(quiz && { quiz }) });
   } catch (error) {
     log.error('Survey submission failed', 'SUBMIT_RESPONSE', { 
       surveyId: req.params.surveyId,
@@ -93,12 +102,153 @@ router.post('/:surveyId/submit', validateRespondent, async (req: RespondentReque
       error: error instanceof Error ? error.message : String(error),
       stack: error instanceof Error ? error.stack : undefined
     });
+    if (error instanceof AnswerValidationError) {
+      return res.status(400).json({ error: error.message, details: error.issues });
+    }
     res.status(500).json({ error: 'Failed to submit survey' });
   }
 });
 
+// POST /api/responses/:surveyId/files?questionId=... - Upload a file for a fileUpload question.
+// The request body is the raw file; its name is sent URI-encoded in the X-File-Name header.
+router.post(
+  '/:surveyId/files',
+  validateRespondent,
+  express.raw({ type: () => true, limit: MAX_UPLOAD_BYTES }),
+  async (req: RespondentRequest, res) => {
+    try {
+      const { surveyId } = req.params;
+      const questionId = typeof req.query.questionId === 'string' ? req.query.questionId : '';
+      if (!questionId) {
+        return res.status(400).json({ error: 'questionId is required' });
+      }
+      if (!Buffer.isBuffer(req.body)) {
+        return res.status(400).json({ error: 'File content is required' });
+      }
+
+      const rawName = req.get('x-file-name') || 'file';
+      let fileName = rawName;
+      try {
+        fileName = decodeURIComponent(rawName);
+      } catch {
+        // Keep the raw header when it is not URI-encoded
+      }
+
+      log.info('Uploading response file', 'UPLOAD_RESPONSE_FILE', {
+        surveyId,
+        questionId,
+        size: req.body.length,
+      });
+
+      const service = new FileUploadService();
+      const file = await service.upload(surveyId, req.respondent!, {
+        questionId,
+        fileName,
+        mimeType: req.get('content-type') || 'application/octet-stream',
+        data: req.body,
+      });
+      res.status(201).json(file);
+    } catch (error) {
+      log.error('File upload failed', 'UPLOAD_RESPONSE_FILE', {
+        surveyId: req.params.surveyId,
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined
+      });
+      if (error instanceof Error && error.message.startsWith('Validation:')) {
+        return res.status(400).json({ error: error.message.replace('Validation: ', '') });
+      }
+      if (error instanceof Error && error.message === 'Survey not found') {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error instanceof Error && error.message === 'Survey is not available for responses') {
+        return res.status(403).json({ error: error.message });
+      }
+      res.status(500).json({ error: 'Failed to upload file' });
+    }
+  }
+);
+
+// DELETE /api/responses/:surveyId/files/:fileId - Respondent removes one of their uploads
+router.delete('/:surveyId/files/:fileId', validateRespondent, async (req: RespondentRequest, res) => {
+  try {
+    const { surveyId, fileId } = req.params;
+    const service = new FileUploadService();
+    await service.remove(surveyId, req.respondent!, fileId);
+    res.status(204).send();
+  } catch (error) {
+    log.error('Failed to remove uploaded file', 'DELETE_RESPONSE_FILE', {
+      surveyId: req.params.surveyId,
+      fileId: req.params.fileId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    if (error instanceof Error && error.message === 'File not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to remove file' });
+  }
+});
+
+// GET /api/responses/:surveyId/files/:fileId - Download an uploaded file (survey creator only)
+router.get('/:surveyId/files/:fileId', requireAuth, requireSurveyPermission('results'), async (req: AuthRequest, res) => {
+  try {
+    const { surveyId, fileId } = req.params;
+    const service = new FileUploadService();
+    const { file, data } = await service.getFileForCreator(req.user!._id.toString(), surveyId, fileId);
+
+    log.info('Downloading response file', 'DOWNLOAD_RESPONSE_FILE', {
+      userId: req.user!._id.toString(),
+      surveyId,
+      fileId,
+    });
+
+    res.setHeader('Content-Type', file.mimeType || 'application/octet-stream');
+    res.setHeader('Content-Length', String(data.length));
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(file.originalName)}`);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.send(data);
+  } catch (error) {
+    log.error('Failed to download uploaded file', 'DOWNLOAD_RESPONSE_FILE', {
+      userId: req.user?._id.toString(),
+      surveyId: req.params.surveyId,
+      fileId: req.params.fileId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    if (error instanceof Error && (error.message === 'Survey not found' || error.message === 'File not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to download file' });
+  }
+});
+
+// GET /api/responses/:surveyId/export?format=csv|xlsx|coded&status=&from=&to=&dateField= - Raw responses as a spreadsheet,
+// or (coded) a zip with numerically coded data, a codebook and SPSS/R scripts
+router.get('/:surveyId/export', requireAuth, requireSurveyPermission('export'), async (req: AuthRequest, res) => {
+  try {
+    const service = new ResponseExportService();
+    const file = await service.exportResponses(req.user!._id.toString(), req.params.surveyId, req.query);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(file.filename)}`);
+    res.send(file.data);
+  } catch (error) {
+    log.error('Failed to export responses', 'EXPORT_RESPONSES', {
+      userId: req.user?._id.toString(),
+      surveyId: req.params.surveyId,
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    if (error instanceof Error && error.message.startsWith('Validation:')) {
+      return res.status(400).json({ error: error.message.replace('Validation: ', '') });
+    }
+    if (error instanceof Error && error.message === 'Survey not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to export responses' });
+  }
+});
+
 // GET /api/responses/:surveyId/by-email?email=... - Fetch a single respondent response for creators
-router.get('/:surveyId/by-email', requireAuth, async (req: AuthRequest, res) => {
+router.get('/:surveyId/by-email', requireAuth, requireSurveyPermission('results'), async (req: AuthRequest, res) => {
   try {
     const { surveyId } = req.params;
     const email = (req.query.email as string)?.toLowerCase().trim();
@@ -2,6 +2,8 @@ import express from 'express';
 import { SurveyRespondentsService } from '../services/surveyRespondents.service';
 import { SurveyService } from '../services/survey.service';
 import { requireAuth, AuthRequest } from '../middleware/auth';
+import { requireSurveyPermission } from '../middleware/requireSurveyPermission';
+import { getHiddenFields } from '../shared/hiddenFields';
 import log from '../logger';
 
 const router = express.Router();
@@ -9,11 +11,11 @@ const service = new SurveyRespondentsService();
 const surveyService = new SurveyService();
 
 // GET /api/surveys/:id/respondents - Get respondents for a survey
-router.get('/:id/respondents', requireAuth, async (req: AuthRequest, res) => {
+router.get('/:id/respondents', requireAuth, requireSurveyPermission('view'), async (req: AuthRequest, res) => {
   try {
     const { id: surveyId } = req.params;
 
-    // Verify survey ownership
+    // Verify survey access
     await surveyService.getSurveyById(req.user._id.toString(), surveyId);
 
     log.info('Fetching survey respondents', 'GET_SURVEY_RESPONDENTS', {
@@ -57,13 +59,13 @@ router.get('/:id/respondents', requireAuth, async (req: AuthRequest, res) => {
 });
 
 // PATCH /api/surveys/:id/respondents - Merge respondents and groups
-router.patch('/:id/respondents', requireAuth, async (req: AuthRequest, res) => {
+router.patch('/:id/respondents', requireAuth, requireSurveyPermission('edit'), async (req: AuthRequest, res) => {
   try {
     const { id: surveyId } = req.params;
     const { respondentIds = [], groupIds = [] } = req.body;
 
-    // Verify survey ownership
-    await surveyService.getSurveyById(req.user._id.toString(), surveyId);
+    // Verify survey access
+    await surveyService.getSurveyById(req.user._id.toString(), surveyId, 'edit');
 
     // Extract IDs from objects if needed
     const extractedRespondentIds = respondentIds.map((id: any) => 
@@ -91,7 +93,8 @@ router.patch('/:id/respondents', requireAuth, async (req: AuthRequest, res) => {
     const result = await service.mergeRecipients(
       surveyId,
       extractedRespondentIds,
-      extractedGroupIds
+      extractedGroupIds,
+      req.workspaceId
     );
 
     log.info('Survey respondents merged successfully', 'PATCH_SURVEY_RESPONDENTS', {
@@ -119,11 +122,11 @@ router.patch('/:id/respondents', requireAuth, async (req: AuthRequest, res) => {
 });
 
 // GET /api/surveys/:id/respondents/invitations - Get invitations for a survey
-router.get('/:id/respondents/invitations', requireAuth, async (req: AuthRequest, res) => {
+router.get('/:id/respondents/invitations', requireAuth, requireSurveyPermission('view'), async (req: AuthRequest, res) => {
   try {
     const { id: surveyId } = req.params;
 
-    // Verify survey ownership
+    // Verify survey access
     await surveyService.getSurveyById(req.user._id.toString(), surveyId);
 
     log.info('Fetching survey invitations', 'GET_SURVEY_INVITATIONS', {
@@ -155,13 +158,52 @@ router.get('/:id/respondents/invitations', requireAuth, async (req: AuthRequest,
   }
 });
 
+// PUT /api/surveys/:id/respondents/invitations/:respondentId/hidden-fields - Set one respondent's hidden field values
+router.put('/:id/respondents/invitations/:respondentId/hidden-fields', requireAuth, requireSurveyPermission('edit'), async (req: AuthRequest, res) => {
+  try {
+    const { id: surveyId, respondentId } = req.params;
+
+    // Verify survey access
+    const survey = await surveyService.getSurveyById(req.user._id.toString(), surveyId, 'edit');
+
+    log.info('Updating invitation hidden fields', 'UPDATE_INVITATION_HIDDEN_FIELDS', {
+      userId: req.user._id.toString(),
+      surveyId,
+      respondentId,
+    });
+
+    const hiddenFields = await service.setInvitationHiddenFields(
+      surveyId,
+      respondentId,
+      getHiddenFields(survey),
+      req.body?.values
+    );
+    res.json({ respondentId, hiddenFields });
+  } catch (error: any) {
+    log.error('Error updating invitation hidden fields', 'UPDATE_INVITATION_HIDDEN_FIELDS', {
+      userId: req.user?._id?.toString(),
+      surveyId: req.params.id,
+      respondentId: req.params.respondentId,
+      error: error.message,
+    });
+
+    if (error.message.startsWith('Validation:')) {
+      res.status(400).json({ error: error.message.replace('Validation: ', '') });
+    } else if (error.message.includes('not found') || error.message.includes('no permission')) {
+      res.status(404).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: error.message || 'Failed to update hidden fields' });
+    }
+  }
+});
+
 // POST /api/surveys/:id/respondents/send-invitations - Trigger sending pending invitations
-router.post('/:id/respondents/send-invitations', requireAuth, async (req: AuthRequest, res) => {
+router.post('/:id/respondents/send-invitations', requireAuth, requireSurveyPermission('edit'), async (req: AuthRequest, res) => {
   try {
     const { id: surveyId } = req.params;
 
-    // Verify survey ownership
-    await surveyService.getSurveyById(req.user._id.toString(), surveyId);
+    // Verify survey access
+    await surveyService.getSurveyById(req.user._id.toString(), surveyId, 'edit');
 
     const concurrency = Number.parseInt((req.query.concurrency as string) || '5', 10);
     log.info('Triggering send invitations', 'SEND_INVITATIONS', {
@@ -183,11 +225,11 @@ router.post('/:id/respondents/send-invitations', requireAuth, async (req: AuthRe
 });
 
 // GET /api/surveys/:id/respondents/count - Get respondent counts
-router.get('/:id/respondents/count', requireAuth, async (req: AuthRequest, res) => {
+router.get('/:id/respondents/count', requireAuth, requireSurveyPermission('view'), async (req: AuthRequest, res) => {
   try {
     const { id: surveyId } = req.params;
 
-    // Verify survey ownership
+    // Verify survey access
     await surveyService.getSurveyById(req.user._id.toString(), surveyId);
 
     log.info('Counting survey respondents', 'COUNT_SURVEY_RESPONDENTS', {
@@ -3,16 +3,30 @@ dotenv.config();
 import express from 'express';
 import jwt from 'jsonwebtoken';
 import { SurveyService } from '../services/survey.service';
+import { SurveyRevisionService } from '../services/surveyRevision.service';
+import { SurveySharingService } from '../services/surveySharing.service';
 import { requireAuth, AuthRequest } from '../middleware/auth';
 import { ensureSurveyEditable } from '../middleware/ensureSurveyEditable';
+import { requireSurveyPermission } from '../middleware/requireSurveyPermission';
+import { respondentFilter } from '../utils/respondentIdentity';
+import { getSurveyRole } from '../utils/surveyAccess';
+import { stripQuizAnswers } from '../shared/quiz';
+import { RespondentProfile } from '../shared/piping';
+import { HiddenFieldValues, getHiddenFields } from '../shared/hiddenFields';
+import { getComputedVariables } from '../shared/computedVariables';
 import log from '../logger';  
 
 const router = express.Router();
 const service = new SurveyService();
+const revisionService = new SurveyRevisionService();
+const sharingService = new SurveySharingService();
 const defaultSurveyLimit = 10;
 const maxSurveyLimit = 100;
 const defaultRespondentProgressLimit = 20;
 const maxRespondentProgressLimit = 200;
+// Long-lived browser id used to enforce one response per device in anonymous-link mode
+const DEVICE_COOKIE = 'survey_device_id';
+const DEVICE_COOKIE_MAX_AGE = 365 * 24 * 60 * 60 * 1000;
 
 // GET /api/surveys - Get all surveys for the authenticated user
 router.get('/', requireAuth, async (req: AuthRequest, res) => {
@@ -63,6 +77,7 @@ router.get('/', requireAuth, async (req: AuthRequest, res) => {
 
     const { surveysWithResponses, totalSurveys } = await service.getAllSurveys(
       req.user._id.toString(), 
+      req.workspaceId!,
       page, 
       limit,
       Object.keys(filters).length > 0 ? filters : undefined
@@ -86,7 +101,8 @@ router.get('/', requireAuth, async (req: AuthRequest, res) => {
       responseCount: survey.responseCount,
       backgroundColor: survey.backgroundColor,
       textColor: survey.textColor,
-      locked: survey.locked
+      locked: survey.locked,
+      role: getSurveyRole(survey, req.user._id.toString())
     }));
 
     res.json({
@@ -119,7 +135,7 @@ router.post('/', requireAuth, async (req: AuthRequest, res) => {
       title: req.body.title 
     });
 
-    const survey = await service.createSurvey(req.user._id.toString(), req.body);
+    const survey = await service.createSurvey(req.user._id.toString(), req.workspaceId!, req.body);
     
     log.info('Survey created successfully', 'CREATE_SURVEY', { 
       surveyId: String(survey._id),
@@ -139,7 +155,12 @@ router.post('/', requireAuth, async (req: AuthRequest, res) => {
       pages: survey.pages,
       theme: survey.theme,
       backgroundColor: survey.backgroundColor,
-      textColor: survey.textColor
+      textColor: survey.textColor,
+      collectionMode: survey.collectionMode,
+      onePerDevice: survey.onePerDevice,
+      quiz: survey.quiz,
+      hiddenFields: getHiddenFields(survey),
+      computedVariables: getComputedVariables(survey)
     });
   } catch (error) {
     log.error('Failed to create survey', 'CREATE_SURVEY', { 
@@ -148,12 +169,15 @@ router.post('/', requireAuth, async (req: AuthRequest, res) => {
       error: error instanceof Error ? error.message : String(error),
       stack: error instanceof Error ? error.stack : undefined
     });
+    if (error instanceof Error && error.message.startsWith('Validation:')) {
+      return res.status(400).json({ error: error.message.replace('Validation: ', '') });
+    }
     res.status(500).json({ error: 'Failed to create survey' });
   }
 });
 
 // GET /api/surveys/:surveyId - Get survey by ID (for creators)
-router.get('/:surveyId', requireAuth, async (req: AuthRequest, res) => {
+router.get('/:surveyId', requireAuth, requireSurveyPermission('view'), async (req: AuthRequest, res) => {
   try {
     const { surveyId } = req.params;
     
@@ -179,6 +203,15 @@ router.get('/:surveyId', requireAuth, async (req: AuthRequest, res) => {
       theme: survey.theme,
       backgroundColor: survey.backgroundColor,
       textColor: survey.textColor,
+      collectionMode: survey.collectionMode,
+      onePerDevice: survey.onePerDevice,
+      quiz: survey.quiz,
+      hiddenFields: getHiddenFields(survey),
+      computedVariables: getComputedVariables(survey),
+      locked: survey.locked,
+      version: survey.version,
+      draft: survey.draft,
+      role: req.surveyRole,
     });
   } catch (error) {
     log.error('Failed to fetch survey', 'GET_SURVEY', { 
@@ -208,8 +241,14 @@ router.get('/by-slug/:slug', async (req, res) => {
       theme: survey.theme,
       backgroundColor: survey.backgroundColor,
       textColor: survey.textColor,
-      pages: survey.pages,
-      status: survey.status
+      // Respondents must not be able to read a quiz's answers
+      pages: stripQuizAnswers(survey.toObject().pages),
+      status: survey.status,
+      version: survey.version,
+      collectionMode: survey.collectionMode,
+      onePerDevice: survey.onePerDevice,
+      hiddenFields: getHiddenFields(survey),
+      computedVariables: getComputedVariables(survey)
     });
   } catch (error) {
     log.error('Failed to fetch survey by slug', 'GET_SURVEY_BY_SLUG', { 
@@ -238,8 +277,11 @@ router.get('/by-id/:id', async (req, res) => {
       theme: survey.theme,
       backgroundColor: survey.backgroundColor,
       textColor: survey.textColor,
-      pages: survey.pages,
-      status: survey.status
+      pages: stripQuizAnswers(survey.toObject().pages),
+      status: survey.status,
+      version: survey.version,
+      hiddenFields: getHiddenFields(survey),
+      computedVariables: getComputedVariables(survey)
     });
   } catch (error) {
     log.error('Failed to fetch survey by ID', 'GET_SURVEY_BY_ID', { 
@@ -258,6 +300,12 @@ router.get('/public/:slug', async (req, res) => {
     
     log.info('Public survey access', 'GET_PUBLIC_SURVEY', { slug });
     const survey = await service.getPublicSurvey(slug);
+    // Respondents who already started keep seeing the version they started on
+    let respondentSurvey: any = survey;
+    // Invited respondents get their own profile for piping into question text
+    let profile: RespondentProfile | undefined;
+    // Values already captured for this respondent, and their invitation's, which the link cannot override
+    let hiddenFieldValues: HiddenFieldValues | undefined;
     
     // If token is provided, check if respondent has already completed the survey
     const token = req.headers.authorization?.split(' ')[1];
@@ -265,13 +313,14 @@ router.get('/public/:slug', async (req, res) => {
       try {
         const jwtSecret = process.env.JWT_SECRET;
         if (jwtSecret) {
-          const decoded = jwt.verify(token, jwtSecret) as { surveyId: string; email: string };
+          const decoded = jwt.verify(token, jwtSecret) as { surveyId: string; email?: string; sessionId?: string };
           
           // Check if this token is for the correct survey
           const surveyId = (survey as any)._id?.toString();
-          if (decoded.surveyId === surveyId) {
+          if (decoded.surveyId === surveyId && (decoded.email || decoded.sessionId)) {
             const { Response } = await import('../models/Response');
-            const existing = await Response.findOne({ survey: decoded.surveyId, respondentEmail: decoded.email }).select('status');
+            const respondent = decoded.sessionId ? { anonymousSessionId: decoded.sessionId } : { email: decoded.email };
+            const existing = await Response.findOne({ survey: decoded.surveyId, ...respondentFilter(respondent) }).select('status hiddenFields surveyVersion');
             if (existing?.status === 'Completed') {
               log.warn('Respondent already completed survey - denying access', 'GET_PUBLIC_SURVEY', {
                 slug,
@@ -279,6 +328,16 @@ router.get('/public/:slug', async (req, res) => {
               });
               return res.status(409).json({ error: 'You have already completed this survey' });
             }
+            respondentSurvey = await service.getSurveyAtVersion(survey, existing?.surveyVersion);
+            if (decoded.email) {
+              profile = await service.getRespondentProfile(survey, decoded.email);
+            }
+            if (getHiddenFields(respondentSurvey).length > 0) {
+              const invitationValues = decoded.email
+                ? await service.getInvitationHiddenFields(survey, decoded.email)
+                : undefined;
+              hiddenFieldValues = { ...existing?.hiddenFields, ...invitationValues };
+            }
           }
         }
       } catch (e) {
@@ -292,14 +351,19 @@ router.get('/public/:slug', async (req, res) => {
     
     res.json({
       id: survey._id,
-      title: survey.title,
-      description: survey.description,
+      title: respondentSurvey.title,
+      description: respondentSurvey.description,
       slug: survey.slug,
-      theme: survey.theme,
-      backgroundColor: survey.backgroundColor,
-      textColor: survey.textColor,
-      pages: survey.pages,
-      status: survey.status
+      theme: respondentSurvey.theme,
+      backgroundColor: respondentSurvey.backgroundColor,
+      textColor: respondentSurvey.textColor,
+      pages: stripQuizAnswers((respondentSurvey.toObject?.() ?? respondentSurvey).pages),
+      status: survey.status,
+      version: respondentSurvey.version,
+      hiddenFields: getHiddenFields(respondentSurvey),
+      computedVariables: getComputedVariables(respondentSurvey),
+      ...(profile && { respondent: profile }),
+      ...(hiddenFieldValues && { hiddenFieldValues })
     });
   } catch (error) {
     log.error('Failed to fetch public survey', 'GET_PUBLIC_SURVEY', { 
@@ -347,8 +411,38 @@ router.post('/:surveyId/generate-token', async (req, res) => {
   }
 });
 
+// POST /api/surveys/:surveyId/anonymous-session - Start an anonymous-link response session
+router.post('/:surveyId/anonymous-session', async (req, res) => {
+  try {
+    const { surveyId } = req.params;
+    const session = await service.startAnonymousSession(surveyId, req.cookies?.[DEVICE_COOKIE]);
+
+    res.cookie(DEVICE_COOKIE, session.deviceId, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: process.env.NODE_ENV === 'production' ? 'none' : 'lax',
+      maxAge: DEVICE_COOKIE_MAX_AGE,
+    });
+    res.status(201).json({ token: session.token, sessionId: session.sessionId });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to start anonymous session';
+    const statusCode =
+      errorMessage.includes('not found') ? 404 :
+      errorMessage.includes('already answered') ? 409 :
+      errorMessage.includes('not enabled') || errorMessage.includes('not available') || errorMessage.includes('closed') ? 403 :
+      500;
+
+    log.error('Failed to start anonymous session', 'ANONYMOUS_SESSION', {
+      surveyId: req.params.surveyId,
+      error: errorMessage,
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    res.status(statusCode).json({ error: statusCode === 500 ? 'Failed to start anonymous session' : errorMessage });
+  }
+});
+
 // GET /api/surveys/:surveyId/respondents
-router.get('/:surveyId/respondents', requireAuth, async (req: AuthRequest, res) => {
+router.get('/:surveyId/respondents', requireAuth, requireSurveyPermission('view'), async (req: AuthRequest, res) => {
   try {
     const { surveyId } = req.params;
     
@@ -371,7 +465,7 @@ router.get('/:surveyId/respondents', requireAuth, async (req: AuthRequest, res)
 });
 
 // POST /api/surveys/:surveyId/respondents - Add respondent (without sending email)
-router.post('/:surveyId/respondents', requireAuth, async (req: AuthRequest, res) => {
+router.post('/:surveyId/respondents', requireAuth, requireSurveyPermission('edit'), async (req: AuthRequest, res) => {
   try {
     const { surveyId } = req.params;
     const { email } = req.body;
@@ -397,7 +491,7 @@ router.post('/:surveyId/respondents', requireAuth, async (req: AuthRequest, res)
 });
 
 // DELETE /api/surveys/:surveyId/respondents/:email - Remove respondent
-router.delete('/:surveyId/respondents/:email', requireAuth, async (req: AuthRequest, res) => {
+router.delete('/:surveyId/respondents/:email', requireAuth, requireSurveyPermission('edit'), async (req: AuthRequest, res) => {
   try {
     const { surveyId, email } = req.params;
     
@@ -422,7 +516,7 @@ router.delete('/:surveyId/respondents/:email', requireAuth, async (req: AuthRequ
 });
 
 // POST /api/surveys/:surveyId/respondents/send-invitations - Send emails to all respondents
-router.post('/:surveyId/respondents/send-invitations', requireAuth, async (req: AuthRequest, res) => {
+router.post('/:surveyId/respondents/send-invitations', requireAuth, requireSurveyPermission('edit'), async (req: AuthRequest, res) => {
   try {
     const { surveyId } = req.params;
     
@@ -457,8 +551,8 @@ router.post('/:surveyId/respondents/send-invitations', requireAuth, async (req:
   }
 });
 
-// GET /api/surveys/:surveyId/respondent-progress
-router.get('/:surveyId/respondent-progress', requireAuth, async (req: AuthRequest, res) => {
+// GET /api/surveys/:surveyId/respondent-progress - Accepts the response filters of /api/analytics/:surveyId
+router.get('/:surveyId/respondent-progress', requireAuth, requireSurveyPermission('results'), async (req: AuthRequest, res) => {
   try {
     const { surveyId } = req.params;
     const page = Number.parseInt(req.query.page as string) || 1;
@@ -474,7 +568,7 @@ router.get('/:surveyId/respondent-progress', requireAuth, async (req: AuthReques
       userId: req.user._id.toString()
     });
 
-    const result = await service.getRespondentProgress(req.user._id.toString(), surveyId, page, limit);
+    const result = await service.getRespondentProgress(req.user._id.toString(), surveyId, page, limit, req.query);
     res.json(result);
   } catch (error) {
     log.error('Failed to fetch respondent progress', 'GET_RESPONDENT_PROGRESS', { 
@@ -483,12 +577,15 @@ router.get('/:surveyId/respondent-progress', requireAuth, async (req: AuthReques
       error: error instanceof Error ? error.message : String(error),
       stack: error instanceof Error ? error.stack : undefined
     });
+    if (error instanceof Error && error.message.startsWith('Validation:')) {
+      return res.status(400).json({ error: error.message.replace('Validation: ', '') });
+    }
     res.status(500).json({ error: 'Failed to fetch respondent progress' });
   }
 });
 
 // PUT /api/surveys/:surveyId - Update survey
-router.put('/:surveyId', requireAuth, ensureSurveyEditable, async (req: AuthRequest, res) => {
+router.put('/:surveyId', requireAuth, requireSurveyPermission('edit'), ensureSurveyEditable, async (req: AuthRequest, res) => {
   try {
     const { surveyId } = req.params;
     
@@ -519,8 +616,16 @@ router.put('/:surveyId', requireAuth, ensureSurveyEditable, async (req: AuthRequ
         theme: survey.theme,
         backgroundColor: survey.backgroundColor,
         textColor: survey.textColor,
+        collectionMode: survey.collectionMode,
+        onePerDevice: survey.onePerDevice,
+        quiz: survey.quiz,
+        hiddenFields: getHiddenFields(survey),
+        computedVariables: getComputedVariables(survey),
         pages: survey.pages,
-        locked: survey.locked
+        locked: survey.locked,
+        version: survey.version,
+        draft: survey.draft,
+        role: req.surveyRole
       }
     });
   } catch (error) {
@@ -530,12 +635,346 @@ router.put('/:surveyId', requireAuth, ensureSurveyEditable, async (req: AuthRequ
       error: error instanceof Error ? error.message : String(error),
       stack: error instanceof Error ? error.stack : undefined
     });
+    if (error instanceof Error && error.message.startsWith('Validation:')) {
+      return res.status(400).json({ error: error.message.replace('Validation: ', '') });
+    }
     res.status(500).json({ error: 'Failed to update survey' });
   }
 });
 
+// Shape returned by the draft/version endpoints so the builder can refresh its state
+const toVersionedSurveyJson = (survey: any) => ({
+  id: survey._id,
+  title: survey.title,
+  description: survey.description,
+  slug: survey.slug,
+  status: survey.status,
+  theme: survey.theme,
+  backgroundColor: survey.backgroundColor,
+  textColor: survey.textColor,
+  pages: survey.pages,
+  locked: survey.locked,
+  version: survey.version,
+  draft: survey.draft,
+});
+
+// GET /api/surveys/:surveyId/versions - List published versions
+router.get('/:surveyId/versions', requireAuth, requireSurveyPermission('view'), async (req: AuthRequest, res) => {
+  try {
+    const { surveyId } = req.params;
+    const result = await service.getVersions(req.user._id.toString(), surveyId);
+    res.json(result);
+  } catch (error) {
+    log.error('Failed to fetch survey versions', 'GET_SURVEY_VERSIONS', {
+      surveyId: req.params.surveyId,
+      userId: req.user?._id.toString(),
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    if (error instanceof Error && error.message === 'Survey not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to fetch survey versions' });
+  }
+});
+
+// POST /api/surveys/:surveyId/versions - Publish the draft as the next version
+router.post('/:surveyId/versions', requireAuth, requireSurveyPermission('edit'), async (req: AuthRequest, res) => {
+  try {
+    const { surveyId } = req.params;
+
+    log.info('Publishing survey draft', 'PUBLISH_SURVEY_DRAFT', {
+      surveyId,
+      userId: req.user._id.toString()
+    });
+
+    const survey = await service.publishDraft(req.user._id.toString(), surveyId);
+    res.status(201).json({
+      message: `Version ${survey.version} published`,
+      survey: toVersionedSurveyJson(survey)
+    });
+  } catch (error) {
+    log.error('Failed to publish survey draft', 'PUBLISH_SURVEY_DRAFT', {
+      surveyId: req.params.surveyId,
+      userId: req.user?._id.toString(),
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    if (error instanceof Error) {
+      if (error.message.startsWith('Validation:')) {
+        return res.status(400).json({ error: error.message.replace('Validation: ', '') });
+      }
+      if (error.message.startsWith('Cannot go live')) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error.message === 'Survey not found') {
+        return res.status(404).json({ error: error.message });
+      }
+    }
+    res.status(500).json({ error: 'Failed to publish survey draft' });
+  }
+});
+
+// DELETE /api/surveys/:surveyId/draft - Discard unpublished changes
+router.delete('/:surveyId/draft', requireAuth, requireSurveyPermission('edit'), async (req: AuthRequest, res) => {
+  try {
+    const { surveyId } = req.params;
+    const survey = await service.discardDraft(req.user._id.toString(), surveyId);
+    res.json({
+      message: 'Draft discarded',
+      survey: toVersionedSurveyJson(survey)
+    });
+  } catch (error) {
+    log.error('Failed to discard survey draft', 'DISCARD_SURVEY_DRAFT', {
+      surveyId: req.params.surveyId,
+      userId: req.user?._id.toString(),
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    if (error instanceof Error && error.message === 'Survey not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to discard survey draft' });
+  }
+});
+
+// GET /api/surveys/:surveyId/revisions - Revision history of the survey content
+router.get('/:surveyId/revisions', requireAuth, requireSurveyPermission('view'), async (req: AuthRequest, res) => {
+  try {
+    const { surveyId } = req.params;
+    const page = Number.parseInt(req.query.page as string) || 1;
+    const limit = Number.parseInt(req.query.limit as string) || 20;
+    const result = await revisionService.getRevisions(req.user._id.toString(), surveyId, page, limit);
+    res.json(result);
+  } catch (error) {
+    log.error('Failed to fetch survey revisions', 'GET_SURVEY_REVISIONS', {
+      surveyId: req.params.surveyId,
+      userId: req.user?._id.toString(),
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    if (error instanceof Error && error.message === 'Survey not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to fetch survey revisions' });
+  }
+});
+
+// GET /api/surveys/:surveyId/revisions/diff?from=&to= - Structural diff between two revisions
+router.get('/:surveyId/revisions/diff', requireAuth, requireSurveyPermission('view'), async (req: AuthRequest, res) => {
+  try {
+    const { surveyId } = req.params;
+    const to = Number.parseInt(req.query.to as string);
+    const from = req.query.from === undefined ? undefined : Number.parseInt(req.query.from as string);
+    if (Number.isNaN(to) || (from !== undefined && Number.isNaN(from))) {
+      return res.status(400).json({ error: 'Revision numbers must be integers' });
+    }
+    const result = await revisionService.diffRevisions(req.user._id.toString(), surveyId, to, from);
+    res.json(result);
+  } catch (error) {
+    log.error('Failed to diff survey revisions', 'DIFF_SURVEY_REVISIONS', {
+      surveyId: req.params.surveyId,
+      userId: req.user?._id.toString(),
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    if (error instanceof Error && (error.message === 'Survey not found' || error.message === 'Revision not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to compare survey revisions' });
+  }
+});
+
+// GET /api/surveys/:surveyId/revisions/:revision - Full content of one revision
+router.get('/:surveyId/revisions/:revision', requireAuth, requireSurveyPermission('view'), async (req: AuthRequest, res) => {
+  try {
+    const { surveyId } = req.params;
+    const revision = await revisionService.getRevision(
+      req.user._id.toString(),
+      surveyId,
+      Number.parseInt(req.params.revision)
+    );
+    res.json(revision);
+  } catch (error) {
+    log.error('Failed to fetch survey revision', 'GET_SURVEY_REVISION', {
+      surveyId: req.params.surveyId,
+      revision: req.params.revision,
+      userId: req.user?._id.toString(),
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    if (error instanceof Error && (error.message === 'Survey not found' || error.message === 'Revision not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to fetch survey revision' });
+  }
+});
+
+// POST /api/surveys/:surveyId/revisions/:revision/restore - Restore a previous revision
+router.post('/:surveyId/revisions/:revision/restore', requireAuth, requireSurveyPermission('edit'), async (req: AuthRequest, res) => {
+  try {
+    const { surveyId } = req.params;
+
+    log.info('Restoring survey revision', 'RESTORE_SURVEY_REVISION', {
+      surveyId,
+      revision: req.params.revision,
+      userId: req.user._id.toString()
+    });
+
+    const survey = await service.restoreRevision(
+      req.user._id.toString(),
+      surveyId,
+      Number.parseInt(req.params.revision)
+    );
+    res.json({
+      message: `Revision ${req.params.revision} restored`,
+      survey: toVersionedSurveyJson(survey)
+    });
+  } catch (error) {
+    log.error('Failed to restore survey revision', 'RESTORE_SURVEY_REVISION', {
+      surveyId: req.params.surveyId,
+      revision: req.params.revision,
+      userId: req.user?._id.toString(),
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    if (error instanceof Error) {
+      if (error.message.startsWith('Validation:')) {
+        return res.status(400).json({ error: error.message.replace('Validation: ', '') });
+      }
+      if (error.message === 'Survey not found' || error.message === 'Revision not found') {
+        return res.status(404).json({ error: error.message });
+      }
+    }
+    res.status(500).json({ error: 'Failed to restore survey revision' });
+  }
+});
+
+// GET /api/surveys/:surveyId/collaborators - Owner and collaborators of a survey
+router.get('/:surveyId/collaborators', requireAuth, requireSurveyPermission('view'), async (req: AuthRequest, res) => {
+  try {
+    const result = await sharingService.getCollaborators(req.user._id.toString(), req.params.surveyId);
+    res.json(result);
+  } catch (error) {
+    log.error('Failed to fetch survey collaborators', 'GET_SURVEY_COLLABORATORS', {
+      surveyId: req.params.surveyId,
+      userId: req.user?._id.toString(),
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    if (error instanceof Error && error.message === 'Survey not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to fetch survey collaborators' });
+  }
+});
+
+// POST /api/surveys/:surveyId/collaborators - Share a survey with a user by email
+router.post('/:surveyId/collaborators', requireAuth, requireSurveyPermission('manage'), async (req: AuthRequest, res) => {
+  try {
+    const { surveyId } = req.params;
+
+    log.info('Sharing survey', 'SHARE_SURVEY', {
+      surveyId,
+      role: req.body?.role,
+      userId: req.user._id.toString()
+    });
+
+    const result = await sharingService.shareSurvey(
+      req.user._id.toString(),
+      surveyId,
+      req.body?.email,
+      req.body?.role
+    );
+    res.status(201).json(result);
+  } catch (error) {
+    log.error('Failed to share survey', 'SHARE_SURVEY', {
+      surveyId: req.params.surveyId,
+      userId: req.user?._id.toString(),
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    if (error instanceof Error) {
+      if (error.message.startsWith('Validation:')) {
+        return res.status(400).json({ error: error.message.replace('Validation: ', '') });
+      }
+      if (error.message === 'Survey not found') {
+        return res.status(404).json({ error: error.message });
+      }
+    }
+    res.status(500).json({ error: 'Failed to share survey' });
+  }
+});
+
+// PATCH /api/surveys/:surveyId/collaborators/:userId - Change a collaborator's role
+router.patch('/:surveyId/collaborators/:userId', requireAuth, requireSurveyPermission('manage'), async (req: AuthRequest, res) => {
+  try {
+    const { surveyId, userId: collaboratorId } = req.params;
+
+    log.info('Updating collaborator role', 'UPDATE_SURVEY_COLLABORATOR', {
+      surveyId,
+      collaboratorId,
+      role: req.body?.role,
+      userId: req.user._id.toString()
+    });
+
+    const result = await sharingService.updateCollaboratorRole(
+      req.user._id.toString(),
+      surveyId,
+      collaboratorId,
+      req.body?.role
+    );
+    res.json(result);
+  } catch (error) {
+    log.error('Failed to update collaborator role', 'UPDATE_SURVEY_COLLABORATOR', {
+      surveyId: req.params.surveyId,
+      collaboratorId: req.params.userId,
+      userId: req.user?._id.toString(),
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    if (error instanceof Error) {
+      if (error.message.startsWith('Validation:')) {
+        return res.status(400).json({ error: error.message.replace('Validation: ', '') });
+      }
+      if (error.message === 'Survey not found' || error.message === 'Collaborator not found') {
+        return res.status(404).json({ error: error.message });
+      }
+    }
+    res.status(500).json({ error: 'Failed to update collaborator role' });
+  }
+});
+
+// DELETE /api/surveys/:surveyId/collaborators/:userId - Stop sharing a survey with a user
+router.delete('/:surveyId/collaborators/:userId', requireAuth, requireSurveyPermission('manage'), async (req: AuthRequest, res) => {
+  try {
+    const { surveyId, userId: collaboratorId } = req.params;
+
+    log.info('Removing collaborator', 'REMOVE_SURVEY_COLLABORATOR', {
+      surveyId,
+      collaboratorId,
+      userId: req.user._id.toString()
+    });
+
+    const result = await sharingService.removeCollaborator(req.user._id.toString(), surveyId, collaboratorId);
+    res.json(result);
+  } catch (error) {
+    log.error('Failed to remove collaborator', 'REMOVE_SURVEY_COLLABORATOR', {
+      surveyId: req.params.surveyId,
+      collaboratorId: req.params.userId,
+      userId: req.user?._id.toString(),
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    if (error instanceof Error && (error.message === 'Survey not found' || error.message === 'Collaborator not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to remove collaborator' });
+  }
+});
+
 // DELETE /api/surveys/:surveyId - Delete survey
-router.delete('/:surveyId', requireAuth, ensureSurveyEditable, async (req: AuthRequest, res) => {
+router.delete('/:surveyId', requireAuth, requireSurveyPermission('manage'), ensureSurveyEditable, async (req: AuthRequest, res) => {
   try {
     const { surveyId } = req.params;
     if (!req.user?._id) {
@@ -575,7 +1014,7 @@ router.delete('/:surveyId', requireAuth, ensureSurveyEditable, async (req: AuthR
 });
 
 // POST /api/surveys/:surveyId/duplicate - Duplicate survey
-router.post('/:surveyId/duplicate', requireAuth, async (req: AuthRequest, res) => {
+router.post('/:surveyId/duplicate', requireAuth, requireSurveyPermission('edit'), async (req: AuthRequest, res) => {
   try {
     const { surveyId } = req.params;
     
@@ -618,7 +1057,7 @@ router.post('/:surveyId/duplicate', requireAuth, async (req: AuthRequest, res) =
 });
 
 // POST /api/surveys/:surveyId/export - Export survey as JSON
-router.post('/:surveyId/export', requireAuth, async (req: AuthRequest, res) => {
+router.post('/:surveyId/export', requireAuth, requireSurveyPermission('view'), async (req: AuthRequest, res) => {
   try {
     const { surveyId } = req.params;
     
@@ -659,7 +1098,7 @@ router.post('/import', requireAuth, async (req: AuthRequest, res) => {
     });
 
     const { surveyData } = req.body;
-    const importedSurvey = await service.importSurvey(req.user._id.toString(), surveyData);
+    const importedSurvey = await service.importSurvey(req.user._id.toString(), req.workspaceId!, surveyData);
     
     log.info('Survey imported successfully', 'IMPORT_SURVEY', { 
       surveyId: String(importedSurvey._id),
@@ -687,6 +1126,9 @@ router.post('/import', requireAuth, async (req: AuthRequest, res) => {
       error: error instanceof Error ? error.message : String(error),
       stack: error instanceof Error ? error.stack : undefined
     });
+    if (error instanceof Error && error.message.startsWith('Validation:')) {
+      return res.status(400).json({ error: error.message.replace('Validation: ', '') });
+    }
     res.status(500).json({ error: 'Failed to import survey' });
   }
 });
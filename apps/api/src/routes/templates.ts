@@ -14,7 +14,7 @@ router.get('/', requireAuth, async (req: AuthRequest, res) => {
       userId: req.user._id.toString(),
     });
 
-    const templates = await service.listTemplates(req.user._id.toString());
+    const templates = await service.listTemplates(req.workspaceId);
 
     log.info('Templates fetched successfully', 'GET_TEMPLATES', { 
       count: templates.length,
@@ -39,7 +39,7 @@ router.get('/:id', requireAuth, async (req: AuthRequest, res) => {
     
     log.info('Fetching template details', 'GET_TEMPLATE', { templateId, userId });
     
-    const template = await service.getTemplate(templateId, userId);
+    const template = await service.getTemplate(templateId, req.workspaceId);
 
     res.json(template);
   } catch (error) {
@@ -63,7 +63,7 @@ router.post('/:id/instantiate', requireAuth, async (req: AuthRequest, res) => {
       userId 
     });
     
-    const newSurvey = await service.instantiateTemplate(userId, templateId);
+    const newSurvey = await service.instantiateTemplate(userId, req.workspaceId!, templateId);
     
     log.info('Template instantiated successfully', 'INSTANTIATE_TEMPLATE', { 
       templateId,
@@ -96,14 +96,14 @@ router.post('/:id/instantiate', requireAuth, async (req: AuthRequest, res) => {
   }
 });
 
-// POST /api/templates/import - Import a template for the current user
+// POST /api/templates/import - Import a template into the active workspace
 router.post('/import', requireAuth, async (req: AuthRequest, res) => {
   try {
     const userId = req.user._id.toString();
 
     log.info('Importing template', 'IMPORT_TEMPLATE', { userId });
 
-    const template = await service.importTemplate(userId, req.body);
+    const template = await service.importTemplate(userId, req.workspaceId!, req.body);
 
     res.status(201).json(template);
   } catch (error) {
@@ -127,7 +127,7 @@ router.patch('/:id', requireAuth, async (req: AuthRequest, res) => {
 
     log.info('Updating template', 'PATCH_TEMPLATE', { templateId: id, userId });
 
-    const updated = await service.updateTemplate(userId, id, {
+    const updated = await service.updateTemplate(userId, req.workspaceId!, id, {
       category,
       estimatedTime,
     });
@@ -154,7 +154,7 @@ router.delete('/:id', requireAuth, async (req: AuthRequest, res) => {
 
     log.info('Deleting template', 'DELETE_TEMPLATE', { templateId: id, userId });
 
-    await service.deleteTemplate(userId, id);
+    await service.deleteTemplate(userId, req.workspaceId!, id);
 
     res.status(204).send();
   } catch (error) {
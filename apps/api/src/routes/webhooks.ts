@@ -0,0 +1,148 @@
+import express, { Response } from 'express';
+import { requireAuth, AuthRequest } from '../middleware/auth';
+import { WebhookService, WebhookActor } from '../services/webhook.service';
+import log from '../logger';
+
+const router = express.Router();
+const service = new WebhookService();
+
+const actorFor = (req: AuthRequest): WebhookActor => ({
+  userId: req.user._id.toString(),
+  workspaceId: req.workspaceId!,
+  workspaceRole: req.workspaceRole,
+});
+
+const sendWebhookError = (res: Response, error: unknown, fallback: string) => {
+  if (error instanceof Error) {
+    if (error.message.startsWith('Validation:')) {
+      return res.status(400).json({ error: error.message.replace('Validation: ', '') });
+    }
+    if (error.message.startsWith('Forbidden:')) {
+      return res.status(403).json({ error: error.message.replace('Forbidden: ', '') });
+    }
+    if (error.message === 'Webhook not found' || error.message === 'Survey not found') {
+      return res.status(404).json({ error: error.message });
+    }
+  }
+  return res.status(500).json({ error: fallback });
+};
+
+// GET /api/webhooks?surveyId= - Webhooks of a survey, or of the whole workspace (admins only)
+router.get('/', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const surveyId = typeof req.query.surveyId === 'string' ? req.query.surveyId : undefined;
+    const webhooks = await service.listWebhooks(actorFor(req), surveyId);
+    res.json({ webhooks });
+  } catch (error) {
+    log.error('Failed to fetch webhooks', 'GET_WEBHOOKS', {
+      userId: req.user?._id.toString(),
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    sendWebhookError(res, error, 'Failed to fetch webhooks');
+  }
+});
+
+// POST /api/webhooks - Create a webhook; the signing secret is only returned here and on rotation
+router.post('/', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    log.info('Creating webhook', 'CREATE_WEBHOOK', {
+      surveyId: req.body?.surveyId,
+      userId: req.user._id.toString()
+    });
+
+    const webhook = await service.createWebhook(actorFor(req), req.body);
+    res.status(201).json(webhook);
+  } catch (error) {
+    log.error('Failed to create webhook', 'CREATE_WEBHOOK', {
+      userId: req.user?._id.toString(),
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    sendWebhookError(res, error, 'Failed to create webhook');
+  }
+});
+
+// PATCH /api/webhooks/:webhookId - Update URL, description, events or active flag
+router.patch('/:webhookId', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const webhook = await service.updateWebhook(actorFor(req), req.params.webhookId, req.body);
+    res.json(webhook);
+  } catch (error) {
+    log.error('Failed to update webhook', 'UPDATE_WEBHOOK', {
+      webhookId: req.params.webhookId,
+      userId: req.user?._id.toString(),
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    sendWebhookError(res, error, 'Failed to update webhook');
+  }
+});
+
+// DELETE /api/webhooks/:webhookId - Delete a webhook and its delivery log
+router.delete('/:webhookId', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    await service.deleteWebhook(actorFor(req), req.params.webhookId);
+    res.status(204).send();
+  } catch (error) {
+    log.error('Failed to delete webhook', 'DELETE_WEBHOOK', {
+      webhookId: req.params.webhookId,
+      userId: req.user?._id.toString(),
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    sendWebhookError(res, error, 'Failed to delete webhook');
+  }
+});
+
+// POST /api/webhooks/:webhookId/rotate-secret - Replace the signing secret
+router.post('/:webhookId/rotate-secret', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const result = await service.rotateSecret(actorFor(req), req.params.webhookId);
+    res.json(result);
+  } catch (error) {
+    log.error('Failed to rotate webhook secret', 'ROTATE_WEBHOOK_SECRET', {
+      webhookId: req.params.webhookId,
+      userId: req.user?._id.toString(),
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    sendWebhookError(res, error, 'Failed to rotate webhook secret');
+  }
+});
+
+// POST /api/webhooks/:webhookId/test - Queue a test event for the webhook
+router.post('/:webhookId/test', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const result = await service.sendTestEvent(actorFor(req), req.params.webhookId);
+    res.status(202).json(result);
+  } catch (error) {
+    log.error('Failed to send webhook test event', 'TEST_WEBHOOK', {
+      webhookId: req.params.webhookId,
+      userId: req.user?._id.toString(),
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    sendWebhookError(res, error, 'Failed to send test event');
+  }
+});
+
+// GET /api/webhooks/:webhookId/deliveries - Delivery log, newest first
+router.get('/:webhookId/deliveries', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const page = Math.max(1, Number.parseInt(req.query.page as string) || 1);
+    const limit = Number.parseInt(req.query.limit as string) || 20;
+    const result = await service.getDeliveries(actorFor(req), req.params.webhookId, page, limit);
+    res.json(result);
+  } catch (error) {
+    log.error('Failed to fetch webhook deliveries', 'GET_WEBHOOK_DELIVERIES', {
+      webhookId: req.params.webhookId,
+      userId: req.user?._id.toString(),
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    sendWebhookError(res, error, 'Failed to fetch webhook deliveries');
+  }
+});
+
+export default router;
@@ -0,0 +1,181 @@
+import express, { Response } from 'express';
+import { requireAuth, AuthRequest } from '../middleware/auth';
+import { WorkspaceService } from '../services/workspace.service';
+import log from '../logger';
+
+const router = express.Router();
+const service = new WorkspaceService();
+
+const sendWorkspaceError = (res: Response, error: unknown, fallback: string) => {
+  if (error instanceof Error) {
+    if (error.message.startsWith('Validation:')) {
+      return res.status(400).json({ error: error.message.replace('Validation: ', '') });
+    }
+    if (error.message.startsWith('Forbidden:')) {
+      return res.status(403).json({ error: error.message.replace('Forbidden: ', '') });
+    }
+    if (error.message === 'Workspace not found' || error.message === 'Member not found') {
+      return res.status(404).json({ error: error.message });
+    }
+  }
+  return res.status(500).json({ error: fallback });
+};
+
+// GET /api/workspaces - Workspaces the user belongs to, with the active one flagged
+router.get('/', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const workspaces = await service.listWorkspaces(req.user._id.toString(), req.workspaceId);
+    res.json({ workspaces, activeWorkspaceId: req.workspaceId });
+  } catch (error) {
+    log.error('Failed to fetch workspaces', 'GET_WORKSPACES', {
+      userId: req.user?._id.toString(),
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    sendWorkspaceError(res, error, 'Failed to fetch workspaces');
+  }
+});
+
+// POST /api/workspaces - Create a workspace and switch to it
+router.post('/', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    log.info('Creating workspace', 'CREATE_WORKSPACE', { userId: req.user._id.toString() });
+
+    const workspace = await service.createWorkspace(req.user, req.body?.name);
+    res.status(201).json({ id: String(workspace._id), name: workspace.name, personal: workspace.personal });
+  } catch (error) {
+    log.error('Failed to create workspace', 'CREATE_WORKSPACE', {
+      userId: req.user?._id.toString(),
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    sendWorkspaceError(res, error, 'Failed to create workspace');
+  }
+});
+
+// POST /api/workspaces/:workspaceId/activate - Switch the active workspace
+router.post('/:workspaceId/activate', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    await service.switchWorkspace(req.user._id.toString(), req.params.workspaceId);
+    res.json({ activeWorkspaceId: req.params.workspaceId });
+  } catch (error) {
+    log.error('Failed to switch workspace', 'ACTIVATE_WORKSPACE', {
+      workspaceId: req.params.workspaceId,
+      userId: req.user?._id.toString(),
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    sendWorkspaceError(res, error, 'Failed to switch workspace');
+  }
+});
+
+// PATCH /api/workspaces/:workspaceId - Rename a workspace (admins only)
+router.patch('/:workspaceId', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const workspace = await service.renameWorkspace(
+      req.user._id.toString(),
+      req.params.workspaceId,
+      req.body?.name
+    );
+    res.json({ id: req.params.workspaceId, name: workspace?.name });
+  } catch (error) {
+    log.error('Failed to rename workspace', 'RENAME_WORKSPACE', {
+      workspaceId: req.params.workspaceId,
+      userId: req.user?._id.toString(),
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    sendWorkspaceError(res, error, 'Failed to rename workspace');
+  }
+});
+
+// GET /api/workspaces/:workspaceId/members - Members of a workspace
+router.get('/:workspaceId/members', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const result = await service.getMembers(req.user._id.toString(), req.params.workspaceId);
+    res.json(result);
+  } catch (error) {
+    log.error('Failed to fetch workspace members', 'GET_WORKSPACE_MEMBERS', {
+      workspaceId: req.params.workspaceId,
+      userId: req.user?._id.toString(),
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    sendWorkspaceError(res, error, 'Failed to fetch workspace members');
+  }
+});
+
+// POST /api/workspaces/:workspaceId/members - Add a member by email (admins only)
+router.post('/:workspaceId/members', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    log.info('Adding workspace member', 'ADD_WORKSPACE_MEMBER', {
+      workspaceId: req.params.workspaceId,
+      role: req.body?.role,
+      userId: req.user._id.toString()
+    });
+
+    const result = await service.addMember(
+      req.user._id.toString(),
+      req.params.workspaceId,
+      req.body?.email,
+      req.body?.role
+    );
+    res.status(201).json(result);
+  } catch (error) {
+    log.error('Failed to add workspace member', 'ADD_WORKSPACE_MEMBER', {
+      workspaceId: req.params.workspaceId,
+      userId: req.user?._id.toString(),
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    sendWorkspaceError(res, error, 'Failed to add workspace member');
+  }
+});
+
+// PATCH /api/workspaces/:workspaceId/members/:userId - Change a member's role (admins only)
+router.patch('/:workspaceId/members/:userId', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const result = await service.updateMemberRole(
+      req.user._id.toString(),
+      req.params.workspaceId,
+      req.params.userId,
+      req.body?.role
+    );
+    res.json(result);
+  } catch (error) {
+    log.error('Failed to update workspace member', 'UPDATE_WORKSPACE_MEMBER', {
+      workspaceId: req.params.workspaceId,
+      memberId: req.params.userId,
+      userId: req.user?._id.toString(),
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    sendWorkspaceError(res, error, 'Failed to update workspace member');
+  }
+});
+
+// DELETE /api/workspaces/:workspaceId/members/:userId - Remove a member, or leave the workspace
+router.delete('/:workspaceId/members/:userId', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const result = await service.removeMember(
+      req.user._id.toString(),
+      req.params.workspaceId,
+      req.params.userId
+    );
+    if (!result) {
+      return res.status(204).send();
+    }
+    res.json(result);
+  } catch (error) {
+    log.error('Failed to remove workspace member', 'REMOVE_WORKSPACE_MEMBER', {
+      workspaceId: req.params.workspaceId,
+      memberId: req.params.userId,
+      userId: req.user?._id.toString(),
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    sendWorkspaceError(res, error, 'Failed to remove workspace member');
+  }
+});
+
+export default router;
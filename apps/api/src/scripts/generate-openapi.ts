@@ -0,0 +1,10 @@
+import { writeFileSync } from 'fs';
+import path from 'path';
+import { buildOpenApiSpec } from '../utils/openApiSpec';
+
+// Usage: npm run openapi:generate [-- <output file> [<server url>]]
+const outputFile = path.resolve(process.argv[2] ?? 'openapi.json');
+const serverUrl = process.argv[3];
+
+writeFileSync(outputFile, `${JSON.stringify(buildOpenApiSpec(serverUrl), null, 2)}\n`);
+console.log(`OpenAPI specification written to ${outputFile}`);
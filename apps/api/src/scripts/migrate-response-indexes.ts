@@ -0,0 +1,25 @@
+import { config } from 'dotenv';
+import { migrateResponseIndexes } from '../utils/migrateResponseIndexes';
+import mongoose from 'mongoose';
+
+// Load environment variables
+config();
+
+async function runMigration() {
+  try {
+    const mongoUri = process.env.MONGODB_URI;
+    await mongoose.connect(mongoUri!);
+    console.log('Connected to MongoDB');
+
+    const result = await migrateResponseIndexes();
+    console.log(`Migration completed. Legacy index ${result.droppedLegacyIndex ? 'dropped' : 'not present'}.`);
+
+    await mongoose.connection.close();
+    process.exit(0);
+  } catch (error) {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  }
+}
+
+runMigration();
@@ -1,5 +1,5 @@
 import { config } from 'dotenv';
-import { migrateSurveyLock } from '../utils/migrateSurveyLock';
+import { migrateSurveyVersions } from '../utils/migrateSurveyVersions';
 import mongoose from 'mongoose';
 
 // Load environment variables
@@ -11,8 +11,8 @@ async function runMigration() {
     await mongoose.connect(mongoUri!);
     console.log('Connected to MongoDB');
     
-    const result = await migrateSurveyLock();
-    console.log(`Migration completed. Updated ${result.migratedCount} surveys.`);
+    const result = await migrateSurveyVersions();
+    console.log(`Migration completed. Updated ${result.migratedCount} surveys, created ${result.snapshotCount} version snapshots, tagged ${result.responseCount} responses.`);
     
     await mongoose.connection.close();
     process.exit(0);
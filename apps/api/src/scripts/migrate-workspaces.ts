@@ -0,0 +1,25 @@
+import { config } from 'dotenv';
+import { migrateWorkspaces } from '../utils/migrateWorkspaces';
+import mongoose from 'mongoose';
+
+// Load environment variables
+config();
+
+async function runMigration() {
+  try {
+    const mongoUri = process.env.MONGODB_URI;
+    await mongoose.connect(mongoUri!);
+    console.log('Connected to MongoDB');
+    
+    const result = await migrateWorkspaces();
+    console.log(`Migration completed. Prepared workspaces for ${result.userCount} users, moved ${result.adoptedCount} documents, dropped ${result.droppedIndexes} legacy indexes.`);
+    
+    await mongoose.connection.close();
+    process.exit(0);
+  } catch (error) {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  }
+}
+
+runMigration();
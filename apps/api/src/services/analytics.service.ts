@@ -1,44 +1,180 @@
 import { Survey } from '../models/Survey';
-import { Response as SurveyResponse } from '../models/Response';
+import { SurveyVersion } from '../models/SurveyVersion';
+import { surveyAccessFilter } from '../utils/surveyAccess';
+import { buildQuestionCatalog, VersionedQuestion } from '../utils/questionCatalog';
+import { getChoiceOptions } from '../utils/responseTable';
+import { SMILEY_LABELS } from '../shared/smileyScale';
+import { buildCrossTab, CROSS_TAB_QUESTION_TYPES } from '../utils/crossTab';
+import { parseResponseFilters, hasResponseFilters, ResponseFilterQuery } from '../utils/responseFilters';
+import { ResponseFilterService } from './responseFilter.service';
+import { AnalyticsSummaryService } from './analyticsSummary.service';
+import { AnswerStats, QuestionStats, StatsKind, getStatsKind, parseCellKey } from '../utils/answerStats';
+import { ResponseRepository } from '../repository/response.repository';
+import { NpsTrend, buildNpsTrends } from '../utils/npsTrend';
+import { QuestionType } from '../models/Question';
+import { NPS_MIN, NPS_MAX, getNpsCategory, summarizeNps } from '../shared/nps';
+import { getMatrixColumns, getMatrixRows, isMatrixMultiSelect } from '../shared/matrix';
+import { getBordaPoints, getRankingLength } from '../shared/ranking';
+import { getConstantSumTotal, getNumberSettings } from '../shared/numeric';
+import { summarizeNumbers } from '../utils/statistics';
+import { QuizAnalytics, summarizeQuizStats } from '../utils/quizStats';
+import { getQuizSettings } from '../shared/quiz';
+import { HiddenFieldAnalytics, summarizeHiddenFieldStats } from '../utils/hiddenFieldStats';
+import { getHiddenFields } from '../shared/hiddenFields';
+import { ComputedVariableAnalytics, summarizeComputedStats } from '../utils/computedStats';
+import { getComputedVariables } from '../shared/computedVariables';
+import { LoopItem, getLoopItemsByQuestion, loopAnswerKey, parseLoopAnswerKey } from '../shared/loops';
 
 export class AnalyticsService {
-  async getSurveyAnalytics(surveyId: string, userId: string) {
-    const survey = await Survey.findOne({ _id: surveyId, createdBy: userId });
+  private readonly filterService = new ResponseFilterService();
+  private readonly summaryService = new AnalyticsSummaryService();
+  private readonly responseRepo = new ResponseRepository();
+
+  // `query` carries the shared response filters (status, dates, group, answers)
+  async getSurveyAnalytics(surveyId: string, userId: string, query: ResponseFilterQuery = {}) {
+    const filters = parseResponseFilters(query);
+    const survey = await Survey.findOne({ _id: surveyId, ...surveyAccessFilter(userId, 'results') });
     if (!survey) return null;
 
-    const responses = await SurveyResponse.find({ survey: survey._id });
+    const snapshots = await SurveyVersion.find({ survey: survey._id }).sort({ version: -1 });
+    const catalog = buildQuestionCatalog(survey, snapshots);
+    const kinds = new Map<string, StatsKind>(catalog.map(({ question }) => [question.id, getStatsKind(question.type)]));
 
-    if (responses.length === 0) {
-      return { surveyId, totalResponses: 0, questions: [] };
-    }
+    // Unfiltered results come from the cached summary; segments are aggregated on demand
+    const filtered = hasResponseFilters(filters);
+    const match = await this.filterService.buildMatch(survey, filters);
+    const stats = filtered
+      ? await this.summaryService.aggregate(match, kinds)
+      : await this.summaryService.getSurveyStats(surveyId, kinds);
 
-    const questionAnalytics = this.buildQuestionAnalytics(survey, responses);
+    if (stats.responseCount === 0) {
+      return { surveyId, filtered, totalResponses: 0, versions: [], questions: [] };
+    }
 
-    return { surveyId, totalResponses: responses.length, questions: questionAnalytics };
+    return {
+      surveyId,
+      filtered,
+      totalResponses: stats.responseCount,
+      versions: this.countResponsesByVersion(stats),
+      questions: this.buildQuestionAnalytics(catalog, stats, await this.getNpsTrends(catalog, match), getLoopItemsByQuestion(survey.pages)),
+      quiz: await this.getQuizAnalytics(survey, catalog, match),
+      hiddenFields: await this.getHiddenFieldAnalytics(survey, match),
+      computed: await this.getComputedAnalytics(survey, match)
+    };
   }
 
-  private buildQuestionAnalytics(survey: any, responses: any[]): any[] {
-    const analytics: any[] = [];
+  // Contingency table of two choice, rating or smiley questions; null when the survey is not accessible
+  async getCrossTab(surveyId: string, userId: string, rowQuestionId: unknown, columnQuestionId: unknown, query: ResponseFilterQuery = {}) {
+    if (typeof rowQuestionId !== 'string' || !rowQuestionId || typeof columnQuestionId !== 'string' || !columnQuestionId) {
+      throw new Error('Validation: row and column question ids are required');
+    }
+    if (rowQuestionId === columnQuestionId) {
+      throw new Error('Validation: Pick two different questions');
+    }
+    const filters = parseResponseFilters(query);
+
+    const survey = await Survey.findOne({ _id: surveyId, ...surveyAccessFilter(userId, 'results') });
+    if (!survey) return null;
 
-    for (const page of survey.pages) {
-      for (const question of page.questions) {
-        const questionResponses = this.getQuestionResponses(responses, question.id);
-        const analyticsData = this.analyzeQuestion(question, questionResponses);
-        analytics.push(analyticsData);
+    const snapshots = await SurveyVersion.find({ survey: survey._id }).sort({ version: -1 });
+    const catalog = buildQuestionCatalog(survey, snapshots);
+    const [rowQuestion, columnQuestion] = [rowQuestionId, columnQuestionId].map(id => {
+      const entry = catalog.find(({ question }) => question.id === id);
+      if (!entry) {
+        throw new Error('Question not found');
+      }
+      if (!CROSS_TAB_QUESTION_TYPES.includes(entry.question.type)) {
+        throw new Error('Validation: Cross-tabulation needs choice, rating or smiley questions');
       }
+      return entry.question;
+    });
+
+    const responses = await this.filterService.findResponses(survey, filters);
+    return { surveyId, filtered: hasResponseFilters(filters), ...buildCrossTab(rowQuestion, columnQuestion, responses) };
+  }
+
+  // NPS over time is dated, so unlike the other analytics it is always aggregated from the responses
+  private async getNpsTrends(catalog: VersionedQuestion[], match: Record<string, unknown>): Promise<Map<string, NpsTrend>> {
+    const npsQuestionIds = catalog.filter(({ question }) => question.type === QuestionType.NPS).map(({ question }) => question.id);
+    if (npsQuestionIds.length === 0) return new Map();
+    return buildNpsTrends(await this.responseRepo.aggregateNpsByDay(match, npsQuestionIds));
+  }
+
+  // Score distribution and per-question difficulty; always aggregated from the scored responses
+  private async getQuizAnalytics(survey: any, catalog: VersionedQuestion[], match: Record<string, unknown>): Promise<QuizAnalytics | null> {
+    if (!getQuizSettings(survey).enabled) return null;
+    return summarizeQuizStats(await this.responseRepo.aggregateQuizStats(match), catalog);
+  }
+
+  // Value counts per hidden field, in definition order
+  private async getHiddenFieldAnalytics(survey: any, match: Record<string, unknown>): Promise<HiddenFieldAnalytics[]> {
+    const fields = getHiddenFields(survey);
+    if (fields.length === 0) return [];
+    const rows = await this.responseRepo.aggregateHiddenFieldValues(match, fields.map(field => field.name));
+    return summarizeHiddenFieldStats(fields, rows);
+  }
+
+  // Distribution of each computed variable as stored on the responses, in definition order
+  private async getComputedAnalytics(survey: any, match: Record<string, unknown>): Promise<ComputedVariableAnalytics[]> {
+    const variables = getComputedVariables(survey);
+    if (variables.length === 0) return [];
+    const rows = await this.responseRepo.aggregateComputedValues(match, variables.map(variable => variable.name));
+    return summarizeComputedStats(variables, rows);
+  }
+
+  private buildQuestionAnalytics(
+    catalog: VersionedQuestion[],
+    stats: AnswerStats,
+    npsTrends: Map<string, NpsTrend>,
+    loopItems: Map<string, LoopItem[]>
+  ): any[] {
+    const iterations = this.getIterationsByQuestion(stats);
+    return catalog.map(({ question, versions, retired }) => ({
+      ...this.analyzeQuestion(question, stats.questions.get(question.id), npsTrends.get(question.id)),
+      versions: [...versions].sort((a, b) => a - b),
+      retired,
+      ...(iterations.has(question.id) && {
+        loopItems: this.analyzeLoopItems(question, stats, iterations.get(question.id)!, loopItems.get(question.id) ?? [])
+      })
+    }));
+  }
+
+  // Loop item ids answered per question, from the per-item stats keys
+  private getIterationsByQuestion(stats: AnswerStats): Map<string, string[]> {
+    const iterations = new Map<string, string[]>();
+    for (const key of stats.questions.keys()) {
+      const { questionId, iteration } = parseLoopAnswerKey(key);
+      if (iteration === undefined) continue;
+      iterations.set(questionId, [...(iterations.get(questionId) ?? []), iteration]);
     }
+    return iterations;
+  }
 
-    return analytics;
+  // The question analysed once per loop item, in the loop's item order; items no longer in the
+  // loop come last and are labelled with their id
+  private analyzeLoopItems(question: any, stats: AnswerStats, iterations: string[], items: LoopItem[]): any[] {
+    const order = (id: string) => {
+      const index = items.findIndex(item => item.id === id);
+      return index === -1 ? items.length : index;
+    };
+    return [...iterations]
+      .sort((a, b) => order(a) - order(b))
+      .map(itemId => ({
+        itemId,
+        label: items.find(item => item.id === itemId)?.text ?? itemId,
+        ...this.analyzeQuestion(question, stats.questions.get(loopAnswerKey(question.id, itemId)))
+      }));
   }
 
-  private getQuestionResponses(responses: any[], questionId: string): any[] {
-    return responses
-      .map(r => r.responses.find((resp: any) => resp.questionId === questionId))
-      .filter((resp): resp is NonNullable<typeof resp> => resp !== undefined);
+  // Responses saved before versioning existed were answered against version 1
+  private countResponsesByVersion(stats: AnswerStats): Array<{ version: number; responses: number }> {
+    return Array.from(stats.versions.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([version, count]) => ({ version, responses: count }));
   }
 
-  private analyzeQuestion(question: any, questionResponses: any[]): any {
-    if (questionResponses.length === 0) {
+  private analyzeQuestion(question: any, questionStats: QuestionStats | undefined, npsTrend?: NpsTrend): any {
+    if (!questionStats || questionStats.responses === 0) {
       return {
         questionId: question.id,
         type: question.type,
@@ -48,69 +184,66 @@ export class AnalyticsService {
       };
     }
 
-    const analytics = this.calculateAnalytics(question, questionResponses);
+    const analytics = question.type === QuestionType.NPS
+      ? this.analyzeNps(questionStats, npsTrend)
+      : this.calculateAnalytics(question, questionStats);
 
     return {
       questionId: question.id,
       type: question.type,
       title: question.title,
-      totalResponses: questionResponses.length,
+      totalResponses: questionStats.responses,
       analytics
     };
   }
 
-  private calculateAnalytics(question: any, questionResponses: any[]): any {
+  private calculateAnalytics(question: any, questionStats: QuestionStats): any {
     const choiceTypes = ['singleChoice', 'multiChoice', 'dropdown'];
-    const numericTypes = ['slider', 'ratingStar', 'ratingNumber'];
+    const numericTypes = ['slider', 'ratingStar', 'ratingNumber', 'number'];
     const textTypes = ['textShort', 'textLong'];
 
     // Handle smiley rating specially
     if (question.type === 'ratingSmiley') {
-      return this.analyzeSmileyRating(questionResponses);
+      return this.analyzeSmileyRating(questionStats);
     }
 
     if (choiceTypes.includes(question.type)) {
-      return this.analyzeChoiceQuestion(question, questionResponses);
+      return this.analyzeChoiceQuestion(question, questionStats);
     }
 
     if (numericTypes.includes(question.type)) {
-      return this.analyzeNumericQuestion(questionResponses);
+      return this.analyzeNumericQuestion(questionStats, getNumberSettings(question).unit);
     }
 
     if (textTypes.includes(question.type)) {
-      return this.analyzeTextQuestion(questionResponses);
+      return this.analyzeTextQuestion(questionStats);
+    }
+
+    if (question.type === QuestionType.MATRIX) {
+      return this.analyzeMatrixQuestion(question, questionStats);
     }
 
-    return { type: 'basic', responseCount: questionResponses.length };
+    if (question.type === QuestionType.RANKING) {
+      return this.analyzeRankingQuestion(question, questionStats);
+    }
+
+    if (question.type === QuestionType.CONSTANT_SUM) {
+      return this.analyzeConstantSumQuestion(question, questionStats);
+    }
+
+    return { type: 'basic', responseCount: questionStats.responses };
   }
 
-  // Smiley rating label mapping
   private getSmileyLabel(value: string): string {
-    const smileyMap: Record<string, string> = {
-      'very_sad': 'Very Sad',
-      'sad': 'Sad',
-      'neutral': 'Neutral',
-      'happy': 'Happy',
-      'very_happy': 'Very Happy'
-    };
-    return smileyMap[value] || value;
+    return SMILEY_LABELS[value] || value;
   }
 
-  private analyzeSmileyRating(questionResponses: any[]): any {
-    const counts: Record<string, number> = {};
-
-    for (const resp of questionResponses) {
-      if (resp.value) {
-        // Smiley ratings store string values like "very_sad", "sad", etc.
-        const value = typeof resp.value === 'string' ? resp.value : resp.value.toString();
-        counts[value] = (counts[value] || 0) + 1;
-      }
-    }
-
-    // Convert to distribution with labels
+  private analyzeSmileyRating(questionStats: QuestionStats): any {
+    // Smiley ratings store string values like "very_sad", "sad", etc.
     const distribution: Record<string, number> = {};
-    Object.entries(counts).forEach(([key, value]) => {
-      distribution[this.getSmileyLabel(key)] = value;
+    questionStats.values.forEach((count, value) => {
+      const label = this.getSmileyLabel(value);
+      distribution[label] = (distribution[label] || 0) + count;
     });
 
     return {
@@ -119,7 +252,7 @@ export class AnalyticsService {
     };
   }
 
-  private analyzeChoiceQuestion(question: any, questionResponses: any[]): any {
+  private analyzeChoiceQuestion(question: any, questionStats: QuestionStats): any {
     const counts: Record<string, number> = {};
 
     // Get option labels from question
@@ -135,95 +268,184 @@ export class AnalyticsService {
       });
     }
 
-    for (const resp of questionResponses) {
-      if (Array.isArray(resp.value)) {
-        for (const val of resp.value) {
-          const label = optionMap[val] || val;
-          counts[label] = (counts[label] || 0) + 1;
-        }
-      } else if (resp.value) {
-        const label = optionMap[resp.value] || resp.value;
-        counts[label] = (counts[label] || 0) + 1;
-      }
-    }
+    questionStats.values.forEach((count, value) => {
+      const label = optionMap[value] || value;
+      counts[label] = (counts[label] || 0) + count;
+    });
 
     return { type: 'choice', counts };
   }
 
-  private analyzeNumericQuestion(questionResponses: any[]): any {
-    const values = questionResponses
-      .map(r => Number(r.value))
-      .filter(v => !Number.isNaN(v));
+  // `unit` is only set for number questions, whose answers are shown with it
+  private analyzeNumericQuestion(questionStats: QuestionStats, unit = ''): any {
+    const values = Array.from(questionStats.values.entries())
+      .map(([value, count]): [number, number] => [Number(value), count])
+      .filter(([v]) => !Number.isNaN(v));
 
-    if (values.length === 0) {
+    const summary = summarizeNumbers(values);
+    if (!summary) {
       return {};
     }
 
-    const sum = values.reduce((a, b) => a + b, 0);
-    const avg = sum / values.length;
-    const min = Math.min(...values);
-    const max = Math.max(...values);
-    const distribution = this.buildDistribution(values);
+    const distribution: Record<string, number> = {};
+    for (const [v, count] of values) {
+      const key = v.toString();
+      distribution[key] = (distribution[key] || 0) + count;
+    }
 
     return {
       type: 'numeric',
-      avg: Math.round(avg * 100) / 100,
-      min,
-      max,
-      distribution
+      avg: summary.mean,
+      median: summary.median,
+      min: summary.min,
+      max: summary.max,
+      percentiles: summary.percentiles,
+      distribution,
+      ...(unit ? { unit } : {})
     };
   }
 
-  private buildDistribution(values: number[]): Record<string, number> {
+  private analyzeNps(questionStats: QuestionStats, trend?: NpsTrend): any {
+    const counts = { promoter: 0, passive: 0, detractor: 0 };
     const distribution: Record<string, number> = {};
-
-    for (const v of values) {
-      const key = v.toString();
-      distribution[key] = (distribution[key] || 0) + 1;
+    for (let score = NPS_MIN; score <= NPS_MAX; score++) {
+      distribution[String(score)] = 0;
     }
+    questionStats.values.forEach((count, value) => {
+      const score = Number(value);
+      if (!Number.isInteger(score) || score < NPS_MIN || score > NPS_MAX) return;
+      distribution[String(score)] += count;
+      counts[getNpsCategory(score)] += count;
+    });
 
-    return distribution;
+    return {
+      type: 'nps',
+      ...summarizeNps(counts.promoter, counts.passive, counts.detractor),
+      distribution,
+      trend: trend ?? { interval: 'day', points: [] }
+    };
   }
 
-  private analyzeTextQuestion(questionResponses: any[]): any {
-    const words = this.extractWords(questionResponses);
-    const wordCounts = this.countWords(words);
-    const topWords = this.getTopWords(wordCounts, 30);
+  // Per-row counts in column order; `average` places single-select answers on the 1..n column scale
+  private analyzeMatrixQuestion(question: any, questionStats: QuestionStats): any {
+    const columns = getMatrixColumns(question);
+    const columnIndex = new Map(columns.map((column, i) => [column.id, i]));
+    const rows = getMatrixRows(question).map(row => ({
+      rowId: row.id,
+      label: row.text || row.id,
+      counts: columns.map(() => 0),
+      total: 0,
+      average: null as number | null
+    }));
+    const rowIndex = new Map(rows.map((row, i) => [row.rowId, i]));
+
+    // Cells of rows or columns removed from the question are left out
+    questionStats.values.forEach((count, key) => {
+      const [rowId, columnId] = parseCellKey(key);
+      const r = rowIndex.get(rowId);
+      const c = columnIndex.get(columnId);
+      if (r === undefined || c === undefined) return;
+      rows[r].counts[c] += count;
+      rows[r].total += count;
+    });
 
-    return { type: 'text', topWords };
+    const multiSelect = isMatrixMultiSelect(question);
+    if (!multiSelect) {
+      for (const row of rows) {
+        if (row.total === 0) continue;
+        const sum = row.counts.reduce((acc, count, i) => acc + count * (i + 1), 0);
+        row.average = Math.round((sum / row.total) * 100) / 100;
+      }
+    }
+
+    return {
+      type: 'matrix',
+      multiSelect,
+      columns: columns.map(column => column.text || column.id),
+      rows
+    };
   }
 
-  private extractWords(questionResponses: any[]): string[] {
-    const stopWords = new Set([
-      'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by',
-      'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had', 'do', 'does', 'did',
-      'will', 'would', 'could', 'should', 'may', 'might', 'must', 'can', 'cannot',
-      'this', 'that', 'these', 'those', 'i', 'you', 'he', 'she', 'it', 'we', 'they',
-      'me', 'him', 'her', 'us', 'them', 'my', 'your', 'his', 'her', 'its', 'our', 'their'
-    ]);
+  // Per option: how often it got each position, its average rank among the answers that ranked it,
+  // its share of first choices and its Borda score. Options are listed best first by Borda score.
+  private analyzeRankingQuestion(question: any, questionStats: QuestionStats): any {
+    const rankedPositions = getRankingLength(question);
+    const options = getChoiceOptions(question).map(([optionId, label]) => ({
+      optionId,
+      label: label || optionId,
+      positions: Array.from({ length: rankedPositions }, () => 0),
+      rankedCount: 0,
+      averageRank: null as number | null,
+      firstChoices: 0,
+      firstChoiceShare: 0,
+      bordaScore: 0
+    }));
+    const optionIndex = new Map(options.map((option, i) => [option.optionId, i]));
+
+    // Positions beyond the current rankTopN (answers given before it was lowered) are left out
+    questionStats.values.forEach((count, key) => {
+      const [optionId, position] = parseCellKey(key);
+      const o = optionIndex.get(optionId);
+      const p = Number(position);
+      if (o === undefined || !Number.isInteger(p) || p < 0 || p >= rankedPositions) return;
+      options[o].positions[p] += count;
+    });
 
-    return questionResponses
-      .map(r => r.value?.toString() || '')
-      .join(' ')
-      .toLowerCase()
-      .replace(/[^\w\s]/g, '')
-      .split(/\s+/)
-      .filter(word => word.length > 1 && !stopWords.has(word));
+    for (const option of options) {
+      option.rankedCount = option.positions.reduce((sum, count) => sum + count, 0);
+      option.firstChoices = option.positions[0] ?? 0;
+      option.firstChoiceShare = Math.round((option.firstChoices / questionStats.responses) * 1000) / 10;
+      option.bordaScore = option.positions.reduce((sum, count, p) => sum + count * getBordaPoints(p, rankedPositions), 0);
+      if (option.rankedCount > 0) {
+        const rankSum = option.positions.reduce((sum, count, p) => sum + count * (p + 1), 0);
+        option.averageRank = Math.round((rankSum / option.rankedCount) * 100) / 100;
+      }
+    }
+    options.sort((a, b) => b.bordaScore - a.bordaScore);
+
+    return { type: 'ranking', rankedPositions, options };
   }
 
-  private countWords(words: string[]): Record<string, number> {
-    const wordCounts: Record<string, number> = {};
+  // Per option: the mean, median and percentiles of the amounts it was given, and its share of
+  // everything allocated. An option left out of an answer was given nothing, so it counts as 0.
+  private analyzeConstantSumQuestion(question: any, questionStats: QuestionStats): any {
+    const amounts = new Map<string, Array<[number, number]>>();
+    questionStats.values.forEach((count, key) => {
+      const [optionId, amount] = parseCellKey(key);
+      const value = Number(amount);
+      if (amount === '' || Number.isNaN(value)) return;
+      amounts.set(optionId, [...(amounts.get(optionId) ?? []), [value, count]]);
+    });
 
-    for (const word of words) {
-      wordCounts[word] = (wordCounts[word] || 0) + 1;
-    }
+    const total = getConstantSumTotal(question);
+    const options = getChoiceOptions(question).map(([optionId, label]) => {
+      const given = amounts.get(optionId) ?? [];
+      const answered = given.reduce((sum, [, count]) => sum + count, 0);
+      const summary = summarizeNumbers([...given, [0, Math.max(0, questionStats.responses - answered)]]);
+      return {
+        optionId,
+        label: label || optionId,
+        mean: summary?.mean ?? 0,
+        median: summary?.median ?? 0,
+        min: summary?.min ?? 0,
+        max: summary?.max ?? 0,
+        percentiles: summary?.percentiles ?? { p10: 0, p25: 0, p75: 0, p90: 0 },
+        share: summary ? Math.round((summary.mean / total) * 1000) / 10 : 0
+      };
+    });
 
-    return wordCounts;
+    return { type: 'constantSum', total, options };
+  }
+
+  private analyzeTextQuestion(questionStats: QuestionStats): any {
+    const topWords = this.getTopWords(questionStats.words, 30);
+
+    return { type: 'text', topWords };
   }
 
-  private getTopWords(wordCounts: Record<string, number>, limit: number): Array<{ word: string; count: number }> {
-    return Object.entries(wordCounts)
-      .sort(([, a], [, b]) => b - a)
+  private getTopWords(wordCounts: Map<string, number>, limit: number): Array<{ word: string; count: number }> {
+    return Array.from(wordCounts.entries())
+      .sort(([wordA, a], [wordB, b]) => b - a || wordA.localeCompare(wordB))
       .slice(0, limit)
       .map(([word, count]) => ({ word, count }));
   }
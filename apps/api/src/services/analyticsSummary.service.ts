@@ -0,0 +1,112 @@
+import mongoose from 'mongoose';
+import { AnalyticsSummaryRepository } from '../repository/analyticsSummary.repository';
+import { ResponseRepository } from '../repository/response.repository';
+import {
+  AnswerStats,
+  StatsKind,
+  getStatsKind,
+  isOpenEndedKind,
+  statsForResponse,
+  fromAggregation,
+  mergeAnswerStats,
+  withoutOpenEndedCounts,
+  onlyDistributions,
+  emptyAnswerStats,
+} from '../utils/answerStats';
+import { parseLoopAnswerKey } from '../shared/loops';
+import log from '../logger';
+
+// Stats kind of every question on the survey's current pages
+export const getSurveyStatsKinds = (survey: any): Map<string, StatsKind> =>
+  new Map(
+    (survey.pages || []).flatMap((page: any) =>
+      (page.questions || []).map((question: any): [string, StatsKind] => [question.id, getStatsKind(question.type)])
+    )
+  );
+
+/**
+ * Answer counts for analytics. Completed responses never change, so their counts
+ * are kept in a per-survey summary that each submission increments; responses
+ * still in progress are aggregated on every read. Typed numbers and words of
+ * open-ended questions would add a key per distinct answer to the summary, so
+ * only their answer counts are kept and the rest is aggregated on read too.
+ */
+export class AnalyticsSummaryService {
+  private readonly repo = new AnalyticsSummaryRepository();
+  private readonly responseRepo = new ResponseRepository();
+
+  // A failed update only leaves the summary behind; the next read notices and rebuilds it
+  async recordSubmission(survey: any, response: any) {
+    try {
+      const stats = statsForResponse(response.responses || [], response.surveyVersion, getSurveyStatsKinds(survey));
+      await this.repo.increment(String(survey._id), withoutOpenEndedCounts(stats));
+    } catch (error) {
+      log.warn('Failed to update analytics summary', 'recordSubmission', {
+        surveyId: String(survey._id),
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  async aggregate(match: Record<string, unknown>, kinds: Map<string, StatsKind>): Promise<AnswerStats> {
+    return fromAggregation(await this.responseRepo.aggregateAnswerStats(match, kinds), kinds);
+  }
+
+  // Stats of every response of the survey, whatever its status
+  async getSurveyStats(surveyId: string, kinds: Map<string, StatsKind>): Promise<AnswerStats> {
+    const survey = new mongoose.Types.ObjectId(surveyId);
+    const openEndedKinds = new Map(Array.from(kinds).filter(([, kind]) => isOpenEndedKind(kind)));
+    const [completed, completedOpenEnded, unfinished] = await Promise.all([
+      this.getCompletedStats(surveyId, kinds),
+      openEndedKinds.size > 0
+        ? this.aggregate({ survey, status: 'Completed' }, openEndedKinds)
+        : Promise.resolve(emptyAnswerStats()),
+      this.aggregate({ survey, status: { $ne: 'Completed' } }, kinds),
+    ]);
+    return mergeAnswerStats(mergeAnswerStats(completed, onlyDistributions(completedOpenEnded)), unfinished);
+  }
+
+  private async getCompletedStats(surveyId: string, kinds: Map<string, StatsKind>): Promise<AnswerStats> {
+    const [summary, completedCount] = await Promise.all([
+      this.repo.findBySurvey(surveyId),
+      this.responseRepo.countCompletedBySurvey(surveyId),
+    ]);
+    if (
+      summary &&
+      summary.responseCount === completedCount &&
+      this.matchesKinds(summary, kinds) &&
+      !this.hasOpenEndedCounts(summary)
+    ) {
+      return summary;
+    }
+
+    // Missing for responses submitted before summaries existed, or out of step after a failed update
+    log.info('Rebuilding analytics summary', 'getCompletedStats', {
+      surveyId,
+      summaryCount: summary?.responseCount ?? null,
+      completedCount
+    });
+    const stats = withoutOpenEndedCounts(
+      await this.aggregate({ survey: new mongoose.Types.ObjectId(surveyId), status: 'Completed' }, kinds)
+    );
+    await this.repo.replace(surveyId, stats);
+    return stats;
+  }
+
+  // A question whose type changed since its answers were counted has to be counted again
+  private matchesKinds(summary: AnswerStats, kinds: Map<string, StatsKind>): boolean {
+    for (const [key, entry] of summary.questions) {
+      const kind = kinds.get(parseLoopAnswerKey(key).questionId);
+      if (kind && kind !== entry.kind) return false;
+    }
+    return true;
+  }
+
+  // Summaries written before open-ended counts moved out of them are rebuilt once to drop those keys
+  private hasOpenEndedCounts(summary: AnswerStats): boolean {
+    for (const entry of summary.questions.values()) {
+      if (isOpenEndedKind(entry.kind) && (entry.values.size > 0 || entry.words.size > 0)) return true;
+    }
+    return false;
+  }
+}
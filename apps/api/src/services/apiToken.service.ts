@@ -0,0 +1,146 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { ApiTokenRepository } from '../repository/apiToken.repository';
+import { WorkspaceService } from './workspace.service';
+import { IApiToken } from '../models/ApiToken';
+import { WorkspaceRole } from '../models/Workspace';
+import {
+  API_TOKEN_EXPIRY_DAYS,
+  API_TOKEN_PREFIX,
+  API_TOKEN_SCOPES,
+  ApiTokenScope,
+} from '../shared/apiTokenScopes';
+import log from '../logger';
+
+const MAX_TOKENS_PER_USER = 50;
+// lastUsedAt is only written once per interval, not on every request
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+export interface ApiTokenIdentity {
+  tokenId: string;
+  userId: string;
+  workspaceId: string;
+  workspaceRole: WorkspaceRole;
+  scopes: ApiTokenScope[];
+}
+
+export const hashApiToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+export const isApiToken = (token: string | undefined): token is string =>
+  !!token && token.startsWith(API_TOKEN_PREFIX);
+
+const validateName = (name: unknown): string => {
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+  if (!trimmed) {
+    throw new Error('Validation: Token name is required');
+  }
+  if (trimmed.length > 100) {
+    throw new Error('Validation: Token name must be 100 characters or fewer');
+  }
+  return trimmed;
+};
+
+const validateScopes = (scopes: unknown): ApiTokenScope[] => {
+  if (!Array.isArray(scopes) || scopes.length === 0) {
+    throw new Error('Validation: Select at least one scope');
+  }
+  const unknown = scopes.filter(scope => !API_TOKEN_SCOPES.includes(scope));
+  if (unknown.length > 0) {
+    throw new Error(`Validation: Unknown scopes: ${unknown.join(', ')}`);
+  }
+  return [...new Set(scopes as ApiTokenScope[])];
+};
+
+const validateExpiry = (expiresInDays: unknown): Date | null => {
+  const days = expiresInDays ?? null;
+  if (!API_TOKEN_EXPIRY_DAYS.includes(days as any)) {
+    throw new Error(`Validation: Expiry must be one of ${API_TOKEN_EXPIRY_DAYS.map(d => d ?? 'never').join(', ')} days`);
+  }
+  return days === null ? null : new Date(Date.now() + (days as number) * 24 * 60 * 60 * 1000);
+};
+
+const toSummary = (token: IApiToken) => {
+  const workspace = token.workspace as any;
+  return {
+    id: String(token._id),
+    name: token.name,
+    tokenPreview: token.tokenPreview,
+    scopes: token.scopes,
+    workspace: { id: String(workspace?._id ?? workspace), name: workspace?.name },
+    expiresAt: token.expiresAt ?? null,
+    lastUsedAt: token.lastUsedAt,
+    revokedAt: token.revokedAt,
+    createdAt: token.createdAt,
+  };
+};
+
+export class ApiTokenService {
+  private readonly repo = new ApiTokenRepository();
+  private readonly workspaceService = new WorkspaceService();
+
+  async listTokens(userId: string) {
+    const tokens = await this.repo.findAllForUser(userId);
+    return tokens.map(toSummary);
+  }
+
+  // The token acts in the workspace that was active when it was created
+  async createToken(userId: string, workspaceId: string, data: any) {
+    const name = validateName(data?.name);
+    const scopes = validateScopes(data?.scopes);
+    const expiresAt = validateExpiry(data?.expiresInDays);
+    const existing = await this.repo.findAllForUser(userId);
+    if (existing.filter(token => !token.revokedAt).length >= MAX_TOKENS_PER_USER) {
+      throw new Error(`Validation: You can have at most ${MAX_TOKENS_PER_USER} active tokens`);
+    }
+
+    const token = `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+    const created = await this.repo.create({
+      user: userId,
+      workspace: workspaceId,
+      name,
+      tokenHash: hashApiToken(token),
+      tokenPreview: token.slice(0, API_TOKEN_PREFIX.length + 4),
+      scopes,
+      expiresAt,
+    });
+    log.info('API token created', 'createApiToken', { userId, workspaceId, tokenId: String(created._id), scopes });
+    await created.populate('workspace', 'name');
+    return { ...toSummary(created), token };
+  }
+
+  async revokeToken(userId: string, tokenId: string) {
+    const token = mongoose.Types.ObjectId.isValid(tokenId) ? await this.repo.findForUser(tokenId, userId) : null;
+    if (!token) {
+      throw new Error('Token not found');
+    }
+    if (!token.revokedAt) {
+      await this.repo.revoke(tokenId);
+      log.info('API token revoked', 'revokeApiToken', { userId, tokenId });
+    }
+  }
+
+  // Resolves a bearer token to its owner, workspace and scopes, or throws why it cannot be used
+  async authenticate(rawToken: string): Promise<ApiTokenIdentity> {
+    const token = await this.repo.findByHash(hashApiToken(rawToken));
+    if (!token || token.revokedAt) {
+      throw new Error('Invalid API token');
+    }
+    if (token.expiresAt && token.expiresAt <= new Date()) {
+      throw new Error('API token has expired');
+    }
+    const userId = String(token.user);
+    const workspaceId = String(token.workspace);
+    const workspaceRole = await this.workspaceService.getMemberRole(workspaceId, userId);
+    if (!workspaceRole) {
+      log.warn('API token used after leaving its workspace', 'authenticateApiToken', { userId, workspaceId });
+      throw new Error('API token is no longer valid for its workspace');
+    }
+
+    const now = new Date();
+    if (!token.lastUsedAt || now.getTime() - token.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      await this.repo.touch(String(token._id), now);
+    }
+    return { tokenId: String(token._id), userId, workspaceId, workspaceRole, scopes: token.scopes };
+  }
+}
@@ -0,0 +1,189 @@
+import path from 'node:path';
+import mongoose from 'mongoose';
+import { SurveyRepository } from '../repository/survey.repository';
+import { UploadedFileRepository } from '../repository/uploadedFile.repository';
+import { ResponseRepository } from '../repository/response.repository';
+import { SurveyService } from './survey.service';
+import { QuestionType } from '../models/Question';
+import { getFileStorage } from '../utils/fileStorage';
+import { scanFile } from '../utils/virusScan';
+import { RespondentIdentity, respondentFilter } from '../utils/respondentIdentity';
+import log from '../logger';
+
+// How a fileUpload answer references an uploaded file
+export interface UploadedFileRef {
+  fileId: string;
+  name: string;
+  size: number;
+  mimeType: string;
+}
+
+export interface FileUploadInput {
+  questionId: string;
+  fileName: string;
+  mimeType: string;
+  data: Buffer;
+}
+
+// Defaults and upper bound mirror the fileUpload settings in question.service
+const DEFAULT_MAX_FILE_SIZE = 10 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 1;
+export const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+const sanitizeFileName = (fileName: string): string => {
+  // Drop any client-side path and control characters
+  const name = path.basename(fileName.replace(/\\/g, '/')).replace(/[\x00-\x1f\x7f]/g, '').trim();
+  return name.slice(0, 255) || 'file';
+};
+
+// Accepts extensions (".pdf"), wildcard mime types ("image/*") and exact mime types
+const isFileTypeAllowed = (allowedFileTypes: unknown, fileName: string, mimeType: string): boolean => {
+  if (!Array.isArray(allowedFileTypes) || allowedFileTypes.length === 0) return true;
+  const extension = path.extname(fileName).toLowerCase();
+  const mime = mimeType.toLowerCase();
+  return allowedFileTypes.some(entry => {
+    const allowed = String(entry).trim().toLowerCase();
+    if (allowed === '*' || allowed === '*/*') return true;
+    if (allowed.startsWith('.')) return allowed === extension;
+    if (allowed.endsWith('/*')) return mime.startsWith(allowed.slice(0, -1));
+    return allowed === mime;
+  });
+};
+
+const findQuestion = (survey: any, questionId: string): any =>
+  (survey.pages || []).flatMap((page: any) => page.questions || []).find((q: any) => q?.id === questionId);
+
+export class FileUploadService {
+  private readonly surveyRepo = new SurveyRepository();
+  private readonly fileRepo = new UploadedFileRepository();
+  private readonly responseRepo = new ResponseRepository();
+  // Created on first use, as SurveyService holds a FileUploadService of its own
+  private surveyService?: SurveyService;
+
+  async upload(surveyId: string, respondent: RespondentIdentity, input: FileUploadInput): Promise<UploadedFileRef> {
+    const current = await this.surveyRepo.findById(surveyId);
+    if (!current) {
+      throw new Error('Survey not found');
+    }
+    if (current.status !== 'published' && current.status !== 'live') {
+      log.warn('Survey not available for uploads', 'uploadFile', { surveyId, surveyStatus: current.status });
+      throw new Error('Survey is not available for responses');
+    }
+
+    // The question as asked in the version the respondent's response started on
+    this.surveyService ??= new SurveyService();
+    const response = await this.responseRepo.findSurveyVersionByRespondent(surveyId, respondent);
+    const survey = await this.surveyService.getSurveyAtVersion(current, response?.surveyVersion ?? current.version);
+    const question = findQuestion(survey, input.questionId);
+    if (question?.type !== QuestionType.FILE_UPLOAD) {
+      throw new Error('Validation: Question does not accept file uploads');
+    }
+
+    const fileName = sanitizeFileName(input.fileName);
+    const mimeType = input.mimeType || 'application/octet-stream';
+    const settings = question.settings || {};
+    const maxFileSize = Math.min(Number(settings.maxFileSize) || DEFAULT_MAX_FILE_SIZE, MAX_UPLOAD_BYTES);
+    const maxFiles = Number(settings.maxFiles) || DEFAULT_MAX_FILES;
+
+    if (input.data.length === 0) {
+      throw new Error('Validation: File is empty');
+    }
+    if (input.data.length > maxFileSize) {
+      throw new Error(`Validation: File exceeds the maximum size of ${Math.round(maxFileSize / (1024 * 1024))}MB`);
+    }
+    if (!isFileTypeAllowed(settings.allowedFileTypes, fileName, mimeType)) {
+      throw new Error('Validation: File type is not allowed for this question');
+    }
+    const existing = await this.fileRepo.countByRespondentQuestion(surveyId, respondent, input.questionId);
+    if (existing >= maxFiles) {
+      throw new Error(`Validation: At most ${maxFiles} file(s) can be uploaded`);
+    }
+
+    const scan = await scanFile({ name: fileName, mimeType, data: input.data });
+    if (!scan.clean) {
+      log.warn('Uploaded file rejected by virus scan', 'uploadFile', {
+        surveyId,
+        questionId: input.questionId,
+        reason: scan.reason,
+      });
+      throw new Error('Validation: File was rejected by the virus scan');
+    }
+
+    const fileId = new mongoose.Types.ObjectId();
+    const storage = getFileStorage();
+    const storageKey = `${surveyId}/${fileId.toString()}`;
+    await storage.save(storageKey, input.data);
+
+    try {
+      await this.fileRepo.create({
+        _id: fileId,
+        survey: surveyId,
+        questionId: input.questionId,
+        ...respondentFilter(respondent),
+        originalName: fileName,
+        mimeType,
+        size: input.data.length,
+        storageDriver: storage.driver,
+        storageKey,
+      });
+    } catch (error) {
+      // Don't leave orphaned files behind when the metadata could not be saved
+      await storage.remove(storageKey).catch(() => undefined);
+      throw error;
+    }
+
+    log.info('File uploaded', 'uploadFile', {
+      surveyId,
+      questionId: input.questionId,
+      fileId: fileId.toString(),
+      size: input.data.length,
+    });
+    return { fileId: fileId.toString(), name: fileName, size: input.data.length, mimeType };
+  }
+
+  async remove(surveyId: string, respondent: RespondentIdentity, fileId: string): Promise<void> {
+    if (!mongoose.Types.ObjectId.isValid(fileId)) {
+      throw new Error('File not found');
+    }
+    const [file] = await this.fileRepo.findByRespondent(surveyId, respondent, [fileId]);
+    if (!file) {
+      throw new Error('File not found');
+    }
+    await getFileStorage(file.storageDriver).remove(file.storageKey);
+    await this.fileRepo.deleteById(fileId);
+    log.info('Uploaded file removed', 'removeFile', { surveyId, fileId });
+  }
+
+  // Download for the survey's owner and collaborators with access to results
+  async getFileForCreator(userId: string, surveyId: string, fileId: string) {
+    const survey = await this.surveyRepo.findByIdForUser(surveyId, userId, 'results');
+    if (!survey) {
+      throw new Error('Survey not found');
+    }
+    if (!mongoose.Types.ObjectId.isValid(fileId)) {
+      throw new Error('File not found');
+    }
+    const file = await this.fileRepo.findByIdAndSurvey(fileId, surveyId);
+    if (!file) {
+      throw new Error('File not found');
+    }
+    const data = await getFileStorage(file.storageDriver).read(file.storageKey);
+    return { file, data };
+  }
+
+  // Returns the ids among `fileIds` that this respondent did not upload to the survey
+  async findUnknownFileIds(surveyId: string, respondent: RespondentIdentity, fileIds: string[]): Promise<string[]> {
+    const validIds = fileIds.filter(id => mongoose.Types.ObjectId.isValid(id));
+    const files = validIds.length > 0 ? await this.fileRepo.findByRespondent(surveyId, respondent, validIds) : [];
+    const known = new Set(files.map(f => String(f._id)));
+    return fileIds.filter(id => !known.has(id));
+  }
+
+  async deleteSurveyFiles(surveyId: string): Promise<void> {
+    const files = await this.fileRepo.findBySurvey(surveyId);
+    await Promise.all(
+      files.map(file => getFileStorage(file.storageDriver).remove(file.storageKey).catch(() => undefined))
+    );
+    await this.fileRepo.deleteBySurvey(surveyId);
+  }
+}
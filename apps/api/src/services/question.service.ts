@@ -77,6 +77,47 @@ export class QuestionService {
         category: 'rating',
         schema: { settings: { maxRating: { type: 'number', default: 10, min: 5, max: 20 } } },
       },
+      {
+        type: QuestionType.NPS,
+        name: 'Net Promoter Score',
+        description: 'How likely respondents are to recommend you, from 0 to 10',
+        icon: '0-10',
+        category: 'rating',
+        schema: { settings: { scaleLabels: { min: { type: 'string' }, max: { type: 'string' } } } },
+      },
+      {
+        type: QuestionType.MATRIX,
+        name: 'Matrix / Likert',
+        description: 'Rate several statements on the same scale',
+        icon: '▦',
+        category: 'scale',
+        schema: {
+          options: { required: true, minItems: 2 },
+          settings: { rows: { type: 'array', required: true, minItems: 1 }, multiSelect: { type: 'boolean', default: false } },
+        },
+      },
+      {
+        type: QuestionType.RANKING,
+        name: 'Ranking',
+        description: 'Put options in order of preference',
+        icon: '1-2-3',
+        category: 'choice',
+        schema: {
+          options: { required: true, minItems: 2 },
+          settings: { rankTopN: { type: 'number', min: 1 } },
+        },
+      },
+      {
+        type: QuestionType.CONSTANT_SUM,
+        name: 'Constant Sum',
+        description: 'Split a fixed total, such as 100 points, across options',
+        icon: '∑',
+        category: 'choice',
+        schema: {
+          options: { required: true, minItems: 2 },
+          settings: { sumTotal: { type: 'number', default: 100, min: 1 } },
+        },
+      },
       {
         type: QuestionType.TEXT_SHORT,
         name: 'Short Text',
@@ -93,6 +134,21 @@ export class QuestionService {
         category: 'text',
         schema: { settings: { placeholder: { type: 'string' }, maxLength: { type: 'number', max: 5000 }, minLength: { type: 'number', min: 0 } } },
       },
+      {
+        type: QuestionType.NUMBER,
+        name: 'Number',
+        description: 'Enter a number, such as a headcount or budget',
+        icon: '123',
+        category: 'input',
+        schema: {
+          settings: {
+            minValue: { type: 'number' },
+            maxValue: { type: 'number' },
+            decimals: { type: 'number', default: 0, min: 0, max: 10 },
+            unit: { type: 'string' },
+          },
+        },
+      },
       {
         type: QuestionType.DATE_PICKER,
         name: 'Date Picker',
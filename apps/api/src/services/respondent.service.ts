@@ -1,5 +1,6 @@
 import { RespondentRepository } from '../repository/respondent.repository';
 import { IRespondent } from '../models/Respondent';
+import { RespondentProfile } from '../shared/piping';
 import log from '../logger';
 
 export class RespondentService {
@@ -10,7 +11,7 @@ export class RespondentService {
    * Enforces ownership - only returns respondents created by current user
    */
   async list(
-    createdBy: string,
+    workspaceId: string,
     page = 1,
     limit = 20,
     filters?: {
@@ -19,15 +20,15 @@ export class RespondentService {
       isArchived?: boolean;
     }
   ) {
-    log.info('Listing respondents', 'list', { createdBy, page, limit, filters });
+    log.info('Listing respondents', 'list', { workspaceId, page, limit, filters });
     const safeLimit = Math.max(1, Math.min(limit, 100));
     const skip = (page - 1) * safeLimit;
 
-    const respondents = await this.repo.list(createdBy, skip, safeLimit, filters);
-    const total = await this.repo.count(createdBy, filters);
+    const respondents = await this.repo.list(workspaceId, skip, safeLimit, filters);
+    const total = await this.repo.count(workspaceId, filters);
 
     log.info('Respondents retrieved', 'list', {
-      createdBy,
+      workspaceId,
       count: respondents.length,
       total,
     });
@@ -48,14 +49,14 @@ export class RespondentService {
   /**
    * Get respondent by ID with ownership check
    */
-  async getById(respondentId: string, createdBy: string) {
-    log.debug('Fetching respondent by ID', 'getById', { respondentId, createdBy });
-    const respondent = await this.repo.getByIdAndCreator(respondentId, createdBy);
+  async getById(respondentId: string, workspaceId: string) {
+    log.debug('Fetching respondent by ID', 'getById', { respondentId, workspaceId });
+    const respondent = await this.repo.getByIdInWorkspace(respondentId, workspaceId);
 
     if (!respondent) {
       log.warn('Respondent not found or no permission', 'getById', {
         respondentId,
-        createdBy,
+        workspaceId,
       });
       throw new Error('Respondent not found or no permission');
     }
@@ -67,6 +68,7 @@ export class RespondentService {
    * Create new respondent
    */
   async create(
+    workspaceId: string,
     createdBy: string,
     data: {
       azureId?: string;
@@ -78,26 +80,26 @@ export class RespondentService {
       employeeId?: string;
     }
   ) {
-    log.info('Creating respondent', 'create', { createdBy, mail: data.mail });
+    log.info('Creating respondent', 'create', { workspaceId, mail: data.mail });
 
     // Validate required fields
     if (!data.name || !data.mail) {
-      log.warn('Validation failed: Missing required fields', 'create', { createdBy });
+      log.warn('Validation failed: Missing required fields', 'create', { workspaceId });
       throw new Error('Name and mail are required');
     }
 
     // Check for existing respondent with same email
-    const existingByMail = await this.repo.findByMails(createdBy, [data.mail]);
+    const existingByMail = await this.repo.findByMails(workspaceId, [data.mail]);
     if (existingByMail.length > 0 && !existingByMail[0].isArchived) {
-      log.warn('Duplicate email detected', 'create', { createdBy, mail: data.mail });
+      log.warn('Duplicate email detected', 'create', { workspaceId, mail: data.mail });
       throw new Error(`A profile with email "${data.mail}" already exists. Please use a different email or edit the existing profile.`);
     }
 
     // Check for existing respondent with same azureId (if provided)
     if (data.azureId && data.azureId.trim() !== '') {
-      const existingByAzureId = await this.repo.findByAzureIds(createdBy, [data.azureId]);
+      const existingByAzureId = await this.repo.findByAzureIds(workspaceId, [data.azureId]);
       if (existingByAzureId.length > 0 && !existingByAzureId[0].isArchived) {
-        log.warn('Duplicate azureId detected', 'create', { createdBy, azureId: data.azureId });
+        log.warn('Duplicate azureId detected', 'create', { workspaceId, azureId: data.azureId });
         throw new Error(`A profile with Azure ID "${data.azureId}" already exists.`);
       }
     }
@@ -107,6 +109,7 @@ export class RespondentService {
       const normalizedData = {
         ...data,
         azureId: data.azureId && data.azureId.trim() !== '' ? data.azureId : undefined,
+        workspace: workspaceId,
         createdBy,
         isArchived: false,
       };
@@ -118,7 +121,7 @@ export class RespondentService {
       }
 
       log.info('Respondent created successfully', 'create', {
-        createdBy,
+        workspaceId,
         respondentId: respondent._id,
       });
 
@@ -128,13 +131,13 @@ export class RespondentService {
         // MongoDB duplicate key error - determine which field caused it
         const keyPattern = error.keyPattern || {};
         if (keyPattern.mail) {
-          log.warn('Duplicate email detected (MongoDB index)', 'create', { createdBy, mail: data.mail });
+          log.warn('Duplicate email detected (MongoDB index)', 'create', { workspaceId, mail: data.mail });
           throw new Error(`A profile with email "${data.mail}" already exists. Please use a different email or edit the existing profile.`);
         } else if (keyPattern.azureId) {
-          log.warn('Duplicate azureId detected (MongoDB index)', 'create', { createdBy, azureId: data.azureId });
+          log.warn('Duplicate azureId detected (MongoDB index)', 'create', { workspaceId, azureId: data.azureId });
           throw new Error(`A profile with Azure ID "${data.azureId}" already exists.`);
         } else {
-          log.warn('Duplicate respondent detected (MongoDB index)', 'create', { createdBy, error: error.message });
+          log.warn('Duplicate respondent detected (MongoDB index)', 'create', { workspaceId, error: error.message });
           throw new Error('A profile with these details already exists.');
         }
       }
@@ -151,24 +154,25 @@ export class RespondentService {
    */
   async update(
     respondentId: string,
-    createdBy: string,
+    workspaceId: string,
     updateData: Partial<IRespondent>
   ) {
-    log.info('Updating respondent', 'update', { respondentId, createdBy });
+    log.info('Updating respondent', 'update', { respondentId, workspaceId });
 
     // Check ownership
-    const existing = await this.getById(respondentId, createdBy);
+    const existing = await this.getById(respondentId, workspaceId);
 
-    // Prevent updating createdBy and isArchived through this method
+    // Prevent updating createdBy, workspace and isArchived through this method
     const safeUpdates = { ...updateData };
     delete safeUpdates.createdBy;
+    delete safeUpdates.workspace;
     delete safeUpdates.isArchived;
 
     const updated = await this.repo.update(respondentId, safeUpdates);
 
     log.info('Respondent updated successfully', 'update', {
       respondentId,
-      createdBy,
+      workspaceId,
     });
 
     return updated;
@@ -178,17 +182,17 @@ export class RespondentService {
    * Soft delete respondent (sets isArchived=true)
    * Enforces ownership check
    */
-  async softDelete(respondentId: string, createdBy: string) {
-    log.info('Soft deleting respondent', 'softDelete', { respondentId, createdBy });
+  async softDelete(respondentId: string, workspaceId: string) {
+    log.info('Soft deleting respondent', 'softDelete', { respondentId, workspaceId });
 
     // Check ownership
-    await this.getById(respondentId, createdBy);
+    await this.getById(respondentId, workspaceId);
 
     const deleted = await this.repo.softDelete(respondentId);
 
     log.info('Respondent soft deleted successfully', 'softDelete', {
       respondentId,
-      createdBy,
+      workspaceId,
     });
 
     return deleted;
@@ -198,17 +202,17 @@ export class RespondentService {
    * Hard delete respondent (permanent)
    * Enforces ownership check
    */
-  async hardDelete(respondentId: string, createdBy: string) {
-    log.info('Hard deleting respondent', 'hardDelete', { respondentId, createdBy });
+  async hardDelete(respondentId: string, workspaceId: string) {
+    log.info('Hard deleting respondent', 'hardDelete', { respondentId, workspaceId });
 
     // Check ownership
-    await this.getById(respondentId, createdBy);
+    await this.getById(respondentId, workspaceId);
 
     await this.repo.hardDelete(respondentId);
 
     log.info('Respondent hard deleted successfully', 'hardDelete', {
       respondentId,
-      createdBy,
+      workspaceId,
     });
 
     return { message: 'Respondent deleted permanently' };
@@ -218,6 +222,7 @@ export class RespondentService {
    * Upsert multiple Azure profiles
    */
   async upsertManyAzure(
+    workspaceId: string,
     createdBy: string,
     profiles: Array<{
       azureId: string;
@@ -230,7 +235,7 @@ export class RespondentService {
     }>
   ) {
     log.info('Upserting Azure profiles', 'upsertManyAzure', {
-      createdBy,
+      workspaceId,
       count: profiles.length,
     });
 
@@ -238,10 +243,10 @@ export class RespondentService {
       throw new Error('No profiles provided');
     }
 
-    const result = await this.repo.upsertManyAzure(createdBy, profiles);
+    const result = await this.repo.upsertManyAzure(workspaceId, createdBy, profiles);
 
     log.info('Azure profiles upserted successfully', 'upsertManyAzure', {
-      createdBy,
+      workspaceId,
       upsertedCount: result.upsertedCount,
       modifiedCount: result.modifiedCount,
     });
@@ -256,23 +261,38 @@ export class RespondentService {
   /**
    * Find respondents by Azure IDs
    */
-  async findByAzureIds(createdBy: string, azureIds: string[]) {
+  async findByAzureIds(workspaceId: string, azureIds: string[]) {
     log.debug('Finding respondents by Azure IDs', 'findByAzureIds', {
-      createdBy,
+      workspaceId,
       count: azureIds.length,
     });
-    return this.repo.findByAzureIds(createdBy, azureIds);
+    return this.repo.findByAzureIds(workspaceId, azureIds);
   }
 
   /**
    * Find respondents by email addresses
    */
-  async findByMails(createdBy: string, mails: string[]) {
+  async findByMails(workspaceId: string, mails: string[]) {
     log.debug('Finding respondents by mails', 'findByMails', {
-      createdBy,
+      workspaceId,
       count: mails.length,
     });
-    return this.repo.findByMails(createdBy, mails);
+    return this.repo.findByMails(workspaceId, mails);
+  }
+
+  /**
+   * Profile fields survey text can pipe in for a respondent; just the email
+   * when they are not in the workspace's respondent directory
+   */
+  async getPipingProfile(workspaceId: string | undefined, email: string): Promise<RespondentProfile> {
+    const profile: RespondentProfile = { email };
+    if (!workspaceId) return profile;
+    const [respondent] = await this.repo.findByMails(workspaceId, [email.toLowerCase()]);
+    if (respondent) {
+      profile.name = respondent.name;
+      if (respondent.employeeId) profile.employeeId = respondent.employeeId;
+    }
+    return profile;
   }
 }
 
@@ -1,16 +1,19 @@
+import mongoose from 'mongoose';
 import { RespondentGroupRepository } from '../repository/respondentGroup.repository';
+import { RespondentRepository } from '../repository/respondent.repository';
 import { IRespondentGroup } from '../models/RespondentGroup';
 import log from '../logger';
 
 export class RespondentGroupService {
   private readonly repo = new RespondentGroupRepository();
+  private readonly respondentRepo = new RespondentRepository();
 
   /**
    * List groups with pagination (defaults: page=1, limit=20)
    * Enforces ownership - only returns groups created by current user
    */
   async list(
-    createdBy: string,
+    workspaceId: string,
     page = 1,
     limit = 20,
     filters?: {
@@ -18,15 +21,15 @@ export class RespondentGroupService {
       isArchived?: boolean;
     }
   ) {
-    log.info('Listing respondent groups', 'list', { createdBy, page, limit, filters });
+    log.info('Listing respondent groups', 'list', { workspaceId, page, limit, filters });
     const safeLimit = Math.max(1, Math.min(limit, 100));
     const skip = (page - 1) * safeLimit;
 
-    const groups = await this.repo.list(createdBy, skip, safeLimit, filters);
-    const total = await this.repo.count(createdBy, filters);
+    const groups = await this.repo.list(workspaceId, skip, safeLimit, filters);
+    const total = await this.repo.count(workspaceId, filters);
 
     log.info('Groups retrieved', 'list', {
-      createdBy,
+      workspaceId,
       count: groups.length,
       total,
     });
@@ -47,14 +50,14 @@ export class RespondentGroupService {
   /**
    * Get group by ID with ownership check
    */
-  async getById(groupId: string, createdBy: string) {
-    log.debug('Fetching group by ID', 'getById', { groupId, createdBy });
-    const group = await this.repo.getByIdAndCreator(groupId, createdBy);
+  async getById(groupId: string, workspaceId: string) {
+    log.debug('Fetching group by ID', 'getById', { groupId, workspaceId });
+    const group = await this.repo.getByIdInWorkspace(groupId, workspaceId);
 
     if (!group) {
       log.warn('Group not found or no permission', 'getById', {
         groupId,
-        createdBy,
+        workspaceId,
       });
       throw new Error('Group not found or no permission');
     }
@@ -66,6 +69,7 @@ export class RespondentGroupService {
    * Create new group
    */
   async create(
+    workspaceId: string,
     createdBy: string,
     data: {
       name: string;
@@ -73,19 +77,22 @@ export class RespondentGroupService {
       members?: string[];
     }
   ) {
-    log.info('Creating respondent group', 'create', { createdBy, name: data.name });
+    log.info('Creating respondent group', 'create', { workspaceId, name: data.name });
 
     // Validate required fields
     if (!data.name || data.name.trim() === '') {
-      log.warn('Validation failed: Name is required', 'create', { createdBy });
+      log.warn('Validation failed: Name is required', 'create', { workspaceId });
       throw new Error('Group name is required');
     }
 
+    await this.assertMembersInWorkspace(workspaceId, data.members || []);
+
     try {
       const group = await this.repo.create({
         name: data.name,
         description: data.description,
         members: data.members || [],
+        workspace: workspaceId,
         createdBy,
         isArchived: false,
       });
@@ -95,7 +102,7 @@ export class RespondentGroupService {
       }
 
       log.info('Group created successfully', 'create', {
-        createdBy,
+        workspaceId,
         groupId: group._id,
       });
 
@@ -103,7 +110,7 @@ export class RespondentGroupService {
     } catch (error: any) {
       if (error.code === 11000) {
         log.warn('Duplicate group name detected', 'create', {
-          createdBy,
+          workspaceId,
           error: error.message,
         });
         throw new Error('Group with this name already exists');
@@ -117,24 +124,29 @@ export class RespondentGroupService {
    */
   async update(
     groupId: string,
-    createdBy: string,
+    workspaceId: string,
     updateData: Partial<IRespondentGroup>
   ) {
-    log.info('Updating group', 'update', { groupId, createdBy });
+    log.info('Updating group', 'update', { groupId, workspaceId });
 
     // Check ownership
-    await this.getById(groupId, createdBy);
+    await this.getById(groupId, workspaceId);
 
-    // Prevent updating createdBy and isArchived through this method
+    // Prevent updating createdBy, workspace and isArchived through this method
     const safeUpdates = { ...updateData };
     delete safeUpdates.createdBy;
+    delete safeUpdates.workspace;
     delete safeUpdates.isArchived;
 
+    if (Array.isArray(safeUpdates.members)) {
+      await this.assertMembersInWorkspace(workspaceId, safeUpdates.members.map(String));
+    }
+
     const updated = await this.repo.update(groupId, safeUpdates);
 
     log.info('Group updated successfully', 'update', {
       groupId,
-      createdBy,
+      workspaceId,
     });
 
     return updated;
@@ -144,17 +156,17 @@ export class RespondentGroupService {
    * Soft delete group (sets isArchived=true)
    * Enforces ownership check
    */
-  async softDelete(groupId: string, createdBy: string) {
-    log.info('Soft deleting group', 'softDelete', { groupId, createdBy });
+  async softDelete(groupId: string, workspaceId: string) {
+    log.info('Soft deleting group', 'softDelete', { groupId, workspaceId });
 
     // Check ownership
-    await this.getById(groupId, createdBy);
+    await this.getById(groupId, workspaceId);
 
     const deleted = await this.repo.softDelete(groupId);
 
     log.info('Group soft deleted successfully', 'softDelete', {
       groupId,
-      createdBy,
+      workspaceId,
     });
 
     return deleted;
@@ -164,17 +176,17 @@ export class RespondentGroupService {
    * Hard delete group (permanent)
    * Enforces ownership check
    */
-  async hardDelete(groupId: string, createdBy: string) {
-    log.info('Hard deleting group', 'hardDelete', { groupId, createdBy });
+  async hardDelete(groupId: string, workspaceId: string) {
+    log.info('Hard deleting group', 'hardDelete', { groupId, workspaceId });
 
     // Check ownership
-    await this.getById(groupId, createdBy);
+    await this.getById(groupId, workspaceId);
 
     await this.repo.hardDelete(groupId);
 
     log.info('Group hard deleted successfully', 'hardDelete', {
       groupId,
-      createdBy,
+      workspaceId,
     });
 
     return { message: 'Group deleted permanently' };
@@ -183,25 +195,27 @@ export class RespondentGroupService {
   /**
    * Add members to group
    */
-  async addMembers(groupId: string, createdBy: string, memberIds: string[]) {
+  async addMembers(groupId: string, workspaceId: string, memberIds: string[]) {
     log.info('Adding members to group', 'addMembers', {
       groupId,
-      createdBy,
+      workspaceId,
       count: memberIds.length,
     });
 
     // Check ownership
-    await this.getById(groupId, createdBy);
+    await this.getById(groupId, workspaceId);
 
     if (!memberIds || memberIds.length === 0) {
       throw new Error('No member IDs provided');
     }
 
+    await this.assertMembersInWorkspace(workspaceId, memberIds);
+
     const updated = await this.repo.addMembers(groupId, memberIds);
 
     log.info('Members added successfully', 'addMembers', {
       groupId,
-      createdBy,
+      workspaceId,
     });
 
     return updated;
@@ -210,15 +224,15 @@ export class RespondentGroupService {
   /**
    * Remove members from group
    */
-  async removeMembers(groupId: string, createdBy: string, memberIds: string[]) {
+  async removeMembers(groupId: string, workspaceId: string, memberIds: string[]) {
     log.info('Removing members from group', 'removeMembers', {
       groupId,
-      createdBy,
+      workspaceId,
       count: memberIds.length,
     });
 
     // Check ownership
-    await this.getById(groupId, createdBy);
+    await this.getById(groupId, workspaceId);
 
     if (!memberIds || memberIds.length === 0) {
       throw new Error('No member IDs provided');
@@ -228,7 +242,7 @@ export class RespondentGroupService {
 
     log.info('Members removed successfully', 'removeMembers', {
       groupId,
-      createdBy,
+      workspaceId,
     });
 
     return updated;
@@ -237,15 +251,15 @@ export class RespondentGroupService {
   /**
    * Duplicate group
    */
-  async duplicate(groupId: string, createdBy: string, newName?: string) {
-    log.info('Duplicating group', 'duplicate', { groupId, createdBy, newName });
+  async duplicate(groupId: string, workspaceId: string, createdBy: string, newName?: string) {
+    log.info('Duplicating group', 'duplicate', { groupId, workspaceId, newName });
 
     // Check ownership
-    const originalGroup = await this.getById(groupId, createdBy);
+    const originalGroup = await this.getById(groupId, workspaceId);
 
     const duplicateName = newName || `${originalGroup.name} (Copy)`;
 
-    const duplicated = await this.repo.duplicate(groupId, createdBy, duplicateName);
+    const duplicated = await this.repo.duplicate(groupId, workspaceId, createdBy, duplicateName);
 
     if (!duplicated) {
       throw new Error('Failed to duplicate group');
@@ -253,11 +267,31 @@ export class RespondentGroupService {
 
     log.info('Group duplicated successfully', 'duplicate', {
       groupId,
-      createdBy,
+      workspaceId,
       newGroupId: duplicated._id,
     });
 
     return duplicated;
   }
-}
 
+  /**
+   * Groups may only contain respondents of their own workspace
+   */
+  private async assertMembersInWorkspace(workspaceId: string, memberIds: string[]) {
+    const uniqueIds = [...new Set(memberIds.map(String))];
+    if (uniqueIds.length === 0) {
+      return;
+    }
+    const found = uniqueIds.every((id) => mongoose.Types.ObjectId.isValid(id))
+      ? await this.respondentRepo.countInWorkspace(workspaceId, uniqueIds)
+      : 0;
+    if (found !== uniqueIds.length) {
+      log.warn('Group members outside workspace', 'assertMembersInWorkspace', {
+        workspaceId,
+        requested: uniqueIds.length,
+        found,
+      });
+      throw new Error('Some members were not found in this workspace');
+    }
+  }
+}
@@ -1,15 +1,49 @@
 import { ResponseRepository } from '../repository/response.repository';
 import { SurveyRepository } from '../repository/survey.repository';
+import { FileUploadService } from './fileUpload.service';
+import { WebhookService } from './webhook.service';
+import { AnalyticsSummaryService } from './analyticsSummary.service';
+import { RespondentService } from './respondent.service';
+import { SurveyRespondentsService } from './surveyRespondents.service';
+import { SurveyService } from './survey.service';
+import {
+  validateAnswers,
+  pruneHiddenAnswers,
+  getReferencedFiles,
+  toAnswerMap,
+  AnswerValidationError,
+  SubmittedAnswer,
+} from '../utils/answerValidation';
+import { QuizOutcome, QuizScore, QuizSettings, buildQuizOutcome, getQuizSettings, scoreQuiz } from '../shared/quiz';
+import { buildPipingContext, pipeText } from '../shared/piping';
+import {
+  HiddenFieldValues,
+  getHiddenFields,
+  resolveHiddenFieldValues,
+  withHiddenFieldAnswers,
+} from '../shared/hiddenFields';
+import { ComputedValues, evaluateComputedVariables, getComputedVariables } from '../shared/computedVariables';
+import {
+  RespondentIdentity,
+  respondentFilter,
+  hashRespondent,
+  parseRespondentKey,
+} from '../utils/respondentIdentity';
 import log from '../logger';
-import crypto from 'crypto';
 
 export class ResponseService {
   private readonly repo = new ResponseRepository();
   private readonly surveyRepo = new SurveyRepository();
+  private readonly fileUploadService = new FileUploadService();
+  private readonly webhookService = new WebhookService();
+  private readonly analyticsSummaryService = new AnalyticsSummaryService();
+  private readonly respondentService = new RespondentService();
+  private readonly surveyRespondentsService = new SurveyRespondentsService();
+  private readonly surveyService = new SurveyService();
 
-  async getOverviewForCreator(userId: string) {
-    log.info('Fetching response overview for creator', 'getOverviewForCreator', { userId });
-    const surveysIdOnly = await (await import('../models/Survey')).Survey.find({ createdBy: userId }).distinct('_id');
+  async getOverviewForCreator(userId: string, workspaceId: string) {
+    log.info('Fetching response overview for creator', 'getOverviewForCreator', { userId, workspaceId });
+    const surveysIdOnly = await this.surveyRepo.findIdsForUser(userId, workspaceId, 'results');
     const surveyIds = surveysIdOnly as any;
     if (!surveyIds || (Array.isArray(surveyIds) && surveyIds.length === 0)) {
       log.info('No surveys found for user', 'getOverviewForCreator', { userId });
@@ -36,8 +70,8 @@ export class ResponseService {
     };
   }
 
-  async autoSave(surveyId: string, email: string, body: any) {
-    const emailHash = crypto.createHash('sha256').update(email).digest('hex').substring(0, 12);
+  async autoSave(surveyId: string, respondent: RespondentIdentity, body: any) {
+    const emailHash = hashRespondent(respondent);
     log.info('Auto-saving response progress', 'autoSave', { surveyId, emailHash, status: body.status });
     const { responses, metadata, status, updatedAt } = body;
     if (!responses || !metadata || !status || !updatedAt) {
@@ -49,12 +83,25 @@ export class ResponseService {
       throw new Error('Invalid status for auto-save');
     }
     // Prevent any auto-save writes after final submission
-    const existing = await (await import('../models/Response')).Response.findOne({ survey: surveyId, respondentEmail: email }).select('status');
+    const existing = await (await import('../models/Response')).Response.findOne({ survey: surveyId, ...respondentFilter(respondent) }).select('status hiddenFields surveyVersion');
     if (existing?.status === 'Completed') {
       log.warn('Auto-save blocked: response already completed', 'autoSave', { surveyId, emailHash });
       throw new Error('Survey already submitted');
     }
-    await this.repo.upsertAutoSave(surveyId, email, { responses, metadata, status, updatedAt });
+    const current = await this.surveyRepo.findById(surveyId);
+    if (!current) {
+      log.warn('Survey not found for auto-save', 'autoSave', { surveyId, emailHash });
+      throw new Error('Survey not found');
+    }
+    // New responses start on the current version; one already in progress stays on the version it started on
+    const survey = await this.surveyService.getSurveyAtVersion(current, existing?.surveyVersion ?? current.version);
+    const hiddenFields = await this.resolveHiddenFields(survey, respondent, body.hiddenFields, existing?.hiddenFields);
+    const visibleResponses = pruneHiddenAnswers(survey, responses, hiddenFields);
+    await this.assertValidAnswers(survey, visibleResponses, false, { surveyId, respondent, emailHash, operation: 'autoSave', hiddenFields });
+    const saved = await this.repo.upsertAutoSave(surveyId, respondent, { responses: visibleResponses, metadata, status, updatedAt, surveyVersion: survey.version ?? 1, hiddenFields });
+    if (!existing) {
+      await this.emitStarted(surveyId, respondent, saved?._id, survey.version ?? 1);
+    }
     log.info('Response progress auto-saved successfully', 'autoSave', { 
       surveyId, 
       emailHash, 
@@ -63,33 +110,33 @@ export class ResponseService {
     return { message: 'Progress auto-saved' };
   }
 
-  async submit(surveyId: string, email: string, body: any) {
-    const emailHash = crypto.createHash('sha256').update(email).digest('hex').substring(0, 12);
+  async submit(surveyId: string, respondent: RespondentIdentity, body: any) {
+    const emailHash = hashRespondent(respondent);
     log.info('Submitting survey response', 'submit', { surveyId, emailHash });
     const { responses, metadata } = body;   
     if (!responses || !metadata) {
       log.warn('Submit validation failed: Missing required fields', 'submit', { surveyId, emailHash });
       throw new Error('Missing required fields');
     }
-    const survey = await this.surveyRepo.findById(surveyId);   
-    if (!survey) {
+    const current = await this.surveyRepo.findById(surveyId);   
+    if (!current) {
       log.warn('Survey not found for submission', 'submit', { surveyId, emailHash });
       throw new Error('Survey not found');
     }    
-    if (survey.status !== 'published' && survey.status !== 'live') {
+    if (current.status !== 'published' && current.status !== 'live') {
       log.warn('Survey not available for responses', 'submit', { 
         surveyId, 
         emailHash, 
-        surveyStatus: survey.status 
+        surveyStatus: current.status 
       });
       throw new Error('Survey is not available for responses');
     }    
     // Enforce endDate as source of truth for closure
-    if (survey.endDate && new Date(survey.endDate) <= new Date()) {
-      log.warn('Survey has closed (endDate reached)', 'submit', { surveyId, emailHash, endDate: survey.endDate });
+    if (current.endDate && new Date(current.endDate) <= new Date()) {
+      log.warn('Survey has closed (endDate reached)', 'submit', { surveyId, emailHash, endDate: current.endDate });
       throw new Error('Survey has closed');
     }
-    const existingResponse = await (await import('../models/Response')).Response.findOne({ survey: surveyId, respondentEmail: email });
+    const existingResponse = await (await import('../models/Response')).Response.findOne({ survey: surveyId, ...respondentFilter(respondent) });
     if (existingResponse?.status === 'Completed') {
       log.warn('Survey already submitted', 'submit', { 
         surveyId, 
@@ -98,21 +145,161 @@ export class ResponseService {
       });
       throw new Error('Survey already submitted');
     }
-    const responseDoc = await this.repo.submitFinal(surveyId, email, { responses, metadata });
+    if (respondent.anonymousSessionId) {
+      if (current.collectionMode !== 'anonymous') {
+        log.warn('Anonymous submission while anonymous link is disabled', 'submit', { surveyId, emailHash });
+        throw new Error('Anonymous responses are not enabled for this survey');
+      }
+      if (current.onePerDevice && respondent.deviceId && await this.repo.existsCompletedForDevice(surveyId, respondent.deviceId)) {
+        log.warn('Device already submitted a response', 'submit', { surveyId, emailHash });
+        throw new Error('Survey already submitted');
+      }
+    }
+    // Answers are checked and scored against the version the response started on, never one the client names
+    const survey = await this.surveyService.getSurveyAtVersion(current, existingResponse?.surveyVersion ?? current.version);
+    const hiddenFields = await this.resolveHiddenFields(survey, respondent, body.hiddenFields, existingResponse?.hiddenFields);
+    const visibleResponses = pruneHiddenAnswers(survey, responses, hiddenFields);
+    if (Array.isArray(responses) && visibleResponses.length !== responses.length) {
+      log.info('Ignoring answers to hidden questions', 'submit', {
+        surveyId,
+        emailHash,
+        ignoredCount: responses.length - visibleResponses.length,
+      });
+    }
+    await this.assertValidAnswers(survey, visibleResponses, true, { surveyId, respondent, emailHash, operation: 'submit', hiddenFields });
+    const answerMap = withHiddenFieldAnswers(toAnswerMap(visibleResponses), hiddenFields);
+    // Computed variables are always worked out here from the answers on the respondent's path
+    const computedVariables = getComputedVariables(survey);
+    const computed = computedVariables.length > 0 ? evaluateComputedVariables(computedVariables, answerMap) : undefined;
+    // Quizzes are scored against the published answers, never against anything the client sends
+    const quizSettings = getQuizSettings(survey);
+    const quizScore = quizSettings.enabled
+      ? scoreQuiz(survey.pages, answerMap, quizSettings.passPercent, computedVariables)
+      : undefined;
+    const responseDoc = await this.repo.submitFinal(surveyId, respondent, {
+      responses: visibleResponses,
+      metadata,
+      surveyVersion: survey.version ?? 1,
+      quiz: quizScore,
+      hiddenFields,
+      computed,
+    });
     log.info('Survey response submitted successfully', 'submit', { 
       surveyId, 
       emailHash, 
-      responseId: responseDoc._id 
+      responseId: responseDoc._id,
+      ...(quizScore && { quizPercent: quizScore.percent, quizPassed: quizScore.passed }),
     });
-    return responseDoc;
+    await this.analyticsSummaryService.recordSubmission(current, responseDoc);
+    // Submitting without any earlier auto-save starts and finishes the response at once
+    if (!existingResponse) {
+      await this.emitStarted(surveyId, respondent, responseDoc._id, survey.version ?? 1);
+    }
+    await this.webhookService.dispatch('response.submitted', surveyId, {
+      responseId: String(responseDoc._id),
+      respondentEmail: respondent.email ?? null,
+      surveyVersion: survey.version ?? 1,
+      submittedAt: responseDoc.submittedAt ?? new Date(),
+      answers: visibleResponses,
+      hiddenFields: hiddenFields ?? {},
+      computed: computed ?? {},
+    });
+    return {
+      responseDoc,
+      quiz: quizScore && await this.buildQuizOutcome(survey, respondent, visibleResponses, { hidden: hiddenFields, computed }, quizScore, quizSettings),
+    };
+  }
+
+  // Pass/fail messages and feedback titles can pipe in answers and the respondent's profile like any other survey text
+  private async buildQuizOutcome(
+    survey: any,
+    respondent: RespondentIdentity,
+    answers: SubmittedAnswer[],
+    values: { hidden?: HiddenFieldValues; computed?: ComputedValues },
+    score: QuizScore,
+    settings: QuizSettings
+  ): Promise<QuizOutcome> {
+    const outcome = buildQuizOutcome(survey.pages, score, settings);
+    const texts = [outcome.message, ...(outcome.feedback ?? []).map(item => item.title)];
+    if (!texts.some(text => text?.includes('{{'))) return outcome;
+
+    const profile = respondent.email
+      ? await this.respondentService.getPipingProfile(survey.workspace ? String(survey.workspace) : undefined, respondent.email)
+      : null;
+    const context = buildPipingContext(survey.pages, toAnswerMap(answers), { respondent: profile, ...values });
+    return {
+      ...outcome,
+      message: outcome.message && pipeText(outcome.message, context),
+      feedback: outcome.feedback?.map(item => ({ ...item, title: pipeText(item.title, context) })),
+    };
+  }
+
+  /**
+   * Hidden field values to store with a save: the values already stored, then what the
+   * client read from the survey link, then the invitation's, which the link cannot override.
+   * Undefined when the survey has no hidden fields.
+   */
+  private async resolveHiddenFields(
+    survey: any,
+    respondent: RespondentIdentity,
+    submitted: unknown,
+    stored: HiddenFieldValues | undefined
+  ): Promise<HiddenFieldValues | undefined> {
+    const fields = getHiddenFields(survey);
+    if (fields.length === 0) return undefined;
+    const invitation = respondent.email
+      ? await this.surveyRespondentsService.getInvitationHiddenFields(String(survey._id), respondent.email)
+      : undefined;
+    const fromLink = submitted && typeof submitted === 'object' && !Array.isArray(submitted)
+      ? (submitted as Record<string, unknown>)
+      : undefined;
+    return resolveHiddenFieldValues(fields, stored, fromLink, invitation);
+  }
+
+  private async emitStarted(surveyId: string, respondent: RespondentIdentity, responseId: unknown, surveyVersion: number) {
+    await this.webhookService.dispatch('response.started', surveyId, {
+      responseId: responseId ? String(responseId) : null,
+      respondentEmail: respondent.email ?? null,
+      surveyVersion,
+    });
+  }
+
+  private async assertValidAnswers(
+    survey: any,
+    responses: unknown,
+    requireComplete: boolean,
+    context: { surveyId: string; respondent: RespondentIdentity; emailHash: string; operation: string; hiddenFields?: HiddenFieldValues }
+  ) {
+    const issues = validateAnswers(survey, responses, { requireComplete, hiddenFields: context.hiddenFields });
+    if (issues.length === 0) {
+      // File answers must point at uploads made by this respondent for this survey
+      const files = getReferencedFiles(survey, responses as any[]);
+      const unknownIds = new Set(
+        await this.fileUploadService.findUnknownFileIds(context.surveyId, context.respondent, files.map(f => f.fileId))
+      );
+      for (const file of files) {
+        if (unknownIds.has(file.fileId)) {
+          issues.push({ questionId: file.questionId, message: 'Uploaded file not found' });
+        }
+      }
+    }
+    if (issues.length === 0) return;
+    log.warn('Answer validation failed', context.operation, {
+      surveyId: context.surveyId,
+      emailHash: context.emailHash,
+      issueCount: issues.length,
+      questionIds: issues.map(i => i.questionId),
+    });
+    throw new AnswerValidationError(issues);
   }
 
+  // `email` is a respondent key: an email, or an anonymous session key from the progress list
   async getBySurveyAndEmail(creatorUserId: string, surveyId: string, email: string) {
-    const survey = await this.surveyRepo.findByIdAndCreator(surveyId, creatorUserId);
+    const survey = await this.surveyRepo.findByIdForUser(surveyId, creatorUserId, 'results');
     if (!survey) {
       throw new Error('Survey not found or no permission');
     }
-    const responseDoc = await this.repo.findOneBySurveyAndEmail(surveyId, email);
+    const responseDoc = await this.repo.findOneBySurveyAndRespondent(surveyId, parseRespondentKey(email));
     if (!responseDoc) {
       return null;
     }
@@ -0,0 +1,112 @@
+import { SurveyRepository } from '../repository/survey.repository';
+import { SurveyVersionRepository } from '../repository/surveyVersion.repository';
+import { ResponseFilterService } from './responseFilter.service';
+import { parseResponseFilters, parseChoice, ResponseFilterQuery } from '../utils/responseFilters';
+import { buildQuestionCatalog, expandLoopIterations, VersionedQuestion } from '../utils/questionCatalog';
+import { buildResponseTable } from '../utils/responseTable';
+import { toCsv } from '../utils/csv';
+import { toXlsx } from '../utils/xlsx';
+import { createZip } from '../utils/zip';
+import { buildCodedDataset, buildCodebookTable } from '../utils/codebook';
+import { toSpssSyntax, toRScript } from '../utils/statsSyntax';
+import { HiddenFieldDefinition, getHiddenFields } from '../shared/hiddenFields';
+import { ComputedVariableDefinition, getComputedVariables } from '../shared/computedVariables';
+import log from '../logger';
+
+// coded: zip with numerically coded data, a codebook, SPSS syntax and an R script
+export const RESPONSE_EXPORT_FORMATS = ['csv', 'xlsx', 'coded'] as const;
+export type ResponseExportFormat = (typeof RESPONSE_EXPORT_FORMATS)[number];
+
+const CONTENT_TYPES: Record<ResponseExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  coded: 'application/zip',
+};
+
+const FILE_EXTENSIONS: Record<ResponseExportFormat, string> = {
+  csv: 'csv',
+  xlsx: 'xlsx',
+  coded: 'zip',
+};
+
+const CODED_DATA_FILE = 'data.csv';
+
+export interface ResponseExportQuery extends ResponseFilterQuery {
+  format?: unknown;
+}
+
+export interface ResponseExportFile {
+  filename: string;
+  contentType: string;
+  data: Buffer | string;
+  rowCount: number;
+}
+
+export class ResponseExportService {
+  private readonly filterService = new ResponseFilterService();
+  private readonly surveyRepo = new SurveyRepository();
+  private readonly versionRepo = new SurveyVersionRepository();
+
+  async exportResponses(userId: string, surveyId: string, query: ResponseExportQuery): Promise<ResponseExportFile> {
+    const format = parseChoice(query.format ?? 'csv', RESPONSE_EXPORT_FORMATS, 'format')!;
+    const filters = parseResponseFilters(query);
+
+    const survey = await this.surveyRepo.findByIdForUser(surveyId, userId, 'export');
+    if (!survey) {
+      throw new Error('Survey not found');
+    }
+
+    const [snapshots, responses] = await Promise.all([
+      this.versionRepo.findBySurvey(surveyId),
+      this.filterService.findResponses(survey, filters),
+    ]);
+    const catalog = expandLoopIterations(buildQuestionCatalog(survey, snapshots), survey, responses);
+
+    log.info('Exporting survey responses', 'EXPORT_RESPONSES', {
+      userId,
+      surveyId,
+      format,
+      status: filters.status ?? 'all',
+      groupId: filters.groupId,
+      answerFilters: filters.answers.length,
+      hiddenFieldFilters: filters.hiddenFields.length,
+      rows: responses.length,
+    });
+
+    const date = new Date().toISOString().slice(0, 10);
+    const suffix = format === 'coded' ? 'responses-coded' : 'responses';
+    return {
+      filename: `${survey.slug || surveyId}-${suffix}-${date}.${FILE_EXTENSIONS[format]}`,
+      contentType: CONTENT_TYPES[format],
+      data: this.render(
+        format,
+        survey.title || 'Responses',
+        catalog,
+        { hiddenFields: getHiddenFields(survey), computedVariables: getComputedVariables(survey) },
+        responses
+      ),
+      rowCount: responses.length,
+    };
+  }
+
+  private render(
+    format: ResponseExportFormat,
+    title: string,
+    catalog: VersionedQuestion[],
+    extras: { hiddenFields: HiddenFieldDefinition[]; computedVariables: ComputedVariableDefinition[] },
+    responses: any[]
+  ): Buffer | string {
+    if (format === 'coded') {
+      const dataset = buildCodedDataset(catalog, responses, extras.hiddenFields, extras.computedVariables);
+      const codebook = buildCodebookTable(dataset);
+      return createZip([
+        { name: CODED_DATA_FILE, data: Buffer.from(toCsv(dataset.variables.map(v => v.name), dataset.rows, { forSpreadsheets: false })) },
+        { name: 'codebook.csv', data: Buffer.from(toCsv(codebook.header, codebook.rows)) },
+        { name: 'survey.sps', data: Buffer.from(toSpssSyntax(dataset, CODED_DATA_FILE)) },
+        { name: 'survey.R', data: Buffer.from(toRScript(dataset, CODED_DATA_FILE)) },
+      ]);
+    }
+    const table = buildResponseTable(catalog, responses, extras.hiddenFields, extras.computedVariables);
+    return format === 'xlsx' ? toXlsx(title, table.header, table.rows) : toCsv(table.header, table.rows);
+  }
+}
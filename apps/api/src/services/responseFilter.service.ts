@@ -0,0 +1,35 @@
+import { ResponseRepository } from '../repository/response.repository';
+import { RespondentGroupRepository } from '../repository/respondentGroup.repository';
+import { ResponseFilters, buildResponseMatch } from '../utils/responseFilters';
+
+/**
+ * Applies the shared response filters for a survey. Group filters are
+ * resolved to member emails within the survey's workspace.
+ */
+export class ResponseFilterService {
+  private readonly responseRepo = new ResponseRepository();
+  private readonly groupRepo = new RespondentGroupRepository();
+
+  // Lowercased member emails of the filtered group, or undefined without a group filter
+  async resolveGroupEmails(survey: any, filters: ResponseFilters): Promise<string[] | undefined> {
+    if (!filters.groupId) return undefined;
+    const group = await this.groupRepo.getByIdInWorkspace(filters.groupId, String(survey.workspace));
+    if (!group) {
+      throw new Error('Validation: Respondent group not found');
+    }
+    return (group.members as any[])
+      .map(member => member?.mail)
+      .filter((mail): mail is string => typeof mail === 'string' && mail !== '')
+      .map(mail => mail.toLowerCase());
+  }
+
+  async buildMatch(survey: any, filters: ResponseFilters) {
+    const emails = await this.resolveGroupEmails(survey, filters);
+    return buildResponseMatch(String(survey._id), filters, emails);
+  }
+
+  async findResponses(survey: any, filters: ResponseFilters) {
+    const emails = await this.resolveGroupEmails(survey, filters);
+    return this.responseRepo.findFiltered(String(survey._id), filters, emails);
+  }
+}
@@ -2,13 +2,30 @@ import dotenv from 'dotenv';
 dotenv.config();
 import { SurveyRepository } from '../repository/survey.repository';
 import { ResponseRepository } from '../repository/response.repository';
+import { SurveyVersionRepository } from '../repository/surveyVersion.repository';
 import { SurveyRespondentsService } from './surveyRespondents.service';
+import { RespondentService } from './respondent.service';
+import { FileUploadService } from './fileUpload.service';
+import { SurveyRevisionService, getEditableContent } from './surveyRevision.service';
+import { WebhookService } from './webhook.service';
 import { generateUniqueSlug } from '../utils/slug';
 import { generateSurveyToken, sendSurveyInvite } from '../utils/email';
+import { generateAnonymousSurveyToken } from '../utils/auth';
+import { getRespondentKey } from '../utils/respondentIdentity';
+import { isRespondentVersion, withVersionContent } from '../utils/surveyVersionContent';
+import { parseResponseFilters, hasResponseFilters, ResponseFilterQuery } from '../utils/responseFilters';
+import { ResponseFilterService } from './responseFilter.service';
+import { SURVEY_COLLECTION_MODES } from '../models/Survey';
 import mongoose from 'mongoose';
 import validator from 'validator';
 import crypto from 'crypto';
 import log from '../logger'
+import { validateSurveyRules } from '../shared/ruleEngine';
+import { RespondentProfile, validatePiping } from '../shared/piping';
+import { HiddenFieldDefinition, HiddenFieldValues, validateHiddenFieldDefinitions } from '../shared/hiddenFields';
+import { ComputedVariableDefinition, validateComputedVariableDefinitions } from '../shared/computedVariables';
+import { LOOP_KEY_SEPARATOR, getLoopedQuestionIds, validateLoops } from '../shared/loops';
+import { SurveyPermission } from '../shared/surveyAccess';
 
 //Helper
 const validatePage = (page: any, index: number) => {
@@ -27,7 +44,125 @@ const validatePage = (page: any, index: number) => {
   }
 };
 
-function validateSurveyUpdate(updateData: any): void {
+// Rejects visibility/branching rules the renderer could not evaluate, instead of letting them be dropped
+const validatePageRules = (
+  pages: any[],
+  hiddenFields: HiddenFieldDefinition[] = [],
+  computedVariables: ComputedVariableDefinition[] = []
+) => {
+  // Answers inside loops are keyed by question id, the separator and the item id
+  const separatedId = pages
+    .flatMap(page => page?.questions ?? [])
+    .find(question => typeof question?.id === 'string' && question.id.includes(LOOP_KEY_SEPARATOR));
+  if (separatedId) {
+    throw new Error(`Validation: Question id ${separatedId.id} cannot contain "${LOOP_KEY_SEPARATOR}"`);
+  }
+  const [loopIssue] = validateLoops(pages);
+  if (loopIssue) {
+    throw new Error(`Validation: Invalid loop on page ${loopIssue.pageIndex + 1}: ${loopIssue.message}`);
+  }
+  const hiddenFieldNames = hiddenFields.map(field => field.name);
+  const computedVariableNames = computedVariables.map(variable => variable.name);
+  const [issue] = validateSurveyRules(pages, hiddenFieldNames, computedVariableNames);
+  if (issue) {
+    const location = issue.questionId ? `question ${issue.questionId}` : `page ${issue.pageIndex + 1} branching`;
+    throw new Error(`Validation: Invalid rule on ${location}: ${issue.message}`);
+  }
+  // Piped answers must already be known when the text is shown
+  const [pipingIssue] = validatePiping(pages, hiddenFieldNames, computedVariableNames);
+  if (pipingIssue) {
+    const location = pipingIssue.questionId ? `question ${pipingIssue.questionId}` : `page ${pipingIssue.pageIndex + 1} branching`;
+    throw new Error(`Validation: Invalid piping on ${location}: ${pipingIssue.message}`);
+  }
+};
+
+const validateCollectionSettings = (data: any) => {
+  if (data.collectionMode !== undefined && !SURVEY_COLLECTION_MODES.includes(data.collectionMode)) {
+    throw new Error(`Validation: Collection mode must be one of ${SURVEY_COLLECTION_MODES.join(', ')}`);
+  }
+  if (data.onePerDevice !== undefined && typeof data.onePerDevice !== 'boolean') {
+    throw new TypeError('Validation: onePerDevice must be a boolean');
+  }
+};
+
+const validateQuizSettings = (quiz: any) => {
+  if (quiz === undefined) return;
+  if (!quiz || typeof quiz !== 'object' || Array.isArray(quiz)) {
+    throw new TypeError('Validation: Quiz settings must be an object');
+  }
+  for (const flag of ['enabled', 'showScore', 'showFeedback']) {
+    if (quiz[flag] !== undefined && typeof quiz[flag] !== 'boolean') {
+      throw new TypeError(`Validation: quiz.${flag} must be a boolean`);
+    }
+  }
+  if (quiz.passPercent !== undefined) {
+    const passPercent = quiz.passPercent;
+    if (typeof passPercent !== 'number' || !Number.isFinite(passPercent) || passPercent < 0 || passPercent > 100) {
+      throw new Error('Validation: Pass mark must be a percentage between 0 and 100');
+    }
+  }
+  for (const field of ['passMessage', 'failMessage']) {
+    if (quiz[field] !== undefined && quiz[field] !== null && typeof quiz[field] !== 'string') {
+      throw new TypeError(`Validation: quiz.${field} must be a string`);
+    }
+  }
+};
+
+const validateHiddenFields = (hiddenFields: unknown) => {
+  if (hiddenFields === undefined) return;
+  const problem = validateHiddenFieldDefinitions(hiddenFields);
+  if (problem) {
+    throw new Error(`Validation: ${problem}`);
+  }
+};
+
+// Formulas may only use the survey's questions, hidden fields and the variables above them
+const validateComputedVariables = (computedVariables: unknown, pages: any[] = [], hiddenFields: HiddenFieldDefinition[] = []) => {
+  if (computedVariables === undefined) return;
+  const questionIds = pages.flatMap(page => (page?.questions ?? []).map((question: any) => String(question?.id)));
+  const problem = validateComputedVariableDefinitions(
+    computedVariables,
+    questionIds,
+    hiddenFields.map(field => field.name),
+    [...getLoopedQuestionIds(pages)]
+  );
+  if (problem) {
+    throw new Error(`Validation: ${problem}`);
+  }
+};
+
+// Content frozen once a survey is published; later edits are staged in survey.draft
+const VERSIONED_FIELDS = ['title', 'description', 'theme', 'backgroundColor', 'textColor', 'pages', 'quiz', 'hiddenFields', 'computedVariables'] as const;
+
+const pickVersionedFields = (source: any): Record<string, any> => {
+  const content: Record<string, any> = {};
+  for (const field of VERSIONED_FIELDS) {
+    if (source?.[field] !== undefined) {
+      content[field] = source[field];
+    }
+  }
+  return content;
+};
+
+// Saved content an update applies to: the staged draft once the survey has been published
+const getDraftedSurvey = (survey: any): any =>
+  survey.locked && survey.draft ? { ...survey.toObject(), ...pickVersionedFields(survey.draft) } : survey;
+
+// Compares survey content ignoring Mongo subdocument ids and the draft timestamp
+const isSameContent = (a: any, b: any): boolean => {
+  const normalize = (value: any) =>
+    JSON.stringify(pickVersionedFields(value), (key, v) => (key === '_id' ? undefined : v));
+  return normalize(a) === normalize(b);
+};
+
+// `current` is the saved survey, whose hidden fields, computed variables and pages apply when the update leaves them out
+function validateSurveyUpdate(updateData: any, current: any = {}): void {
+  validateCollectionSettings(updateData);
+  validateQuizSettings(updateData.quiz);
+  validateHiddenFields(updateData.hiddenFields);
+  const hiddenFields = updateData.hiddenFields ?? current.hiddenFields ?? [];
+  const computedVariables = updateData.computedVariables ?? current.computedVariables ?? [];
+
   if (updateData.title !== undefined) {
     if (
       !updateData.title ||
@@ -46,15 +181,30 @@ function validateSurveyUpdate(updateData: any): void {
       validatePage(page, i);
     }
   }
+  // Removing a question or hidden field must not leave a formula pointing at it
+  if (updateData.pages !== undefined || updateData.hiddenFields !== undefined || updateData.computedVariables !== undefined) {
+    validateComputedVariables(computedVariables, updateData.pages ?? current.pages, hiddenFields);
+  }
+  // Rules and piping may reference hidden fields and computed variables, so removing one re-checks the pages
+  if (updateData.pages !== undefined || updateData.hiddenFields !== undefined || updateData.computedVariables !== undefined) {
+    validatePageRules(updateData.pages ?? current.pages ?? [], hiddenFields, computedVariables);
+  }
 }
 
 export class SurveyService {
   private readonly repo = new SurveyRepository();
   private readonly responseRepo = new ResponseRepository();
+  private readonly versionRepo = new SurveyVersionRepository();
+  private readonly respondentService = new RespondentService();
   private readonly surveyRespondentsService = new SurveyRespondentsService();
+  private readonly fileUploadService = new FileUploadService();
+  private readonly revisionService = new SurveyRevisionService();
+  private readonly webhookService = new WebhookService();
+  private readonly responseFilterService = new ResponseFilterService();
   // 1. Get all surveys for authenticated user
   async getAllSurveys(
     userId: string, 
+    workspaceId: string,
     page = 1, 
     limit = 10, 
     filters?: { 
@@ -67,12 +217,13 @@ export class SurveyService {
       sortOrder?: 'asc' | 'desc';
     }
   ) {
-    log.info('Fetching all surveys for user', 'getAllSurveys', { userId, page, limit, filters });
+    log.info('Fetching all surveys for user', 'getAllSurveys', { userId, workspaceId, page, limit, filters });
     const safeLimit = Math.max(1, Math.min(limit, 100));
     const skip = (page - 1) * safeLimit;
     
-    const surveysWithResponses: any[] = await this.repo.findAllByCreator(
+    const surveysWithResponses: any[] = await this.repo.findAllForUser(
       userId,
+      workspaceId,
       skip,
       safeLimit,
       filters
@@ -85,7 +236,7 @@ export class SurveyService {
       } catch {}
     }
     
-    const totalSurveys = await this.repo.countByCreator(userId, filters);
+    const totalSurveys = await this.repo.countForUser(userId, workspaceId, filters);
     
     log.info('Successfully retrieved surveys', 'getAllSurveys', {
       userId,
@@ -98,8 +249,8 @@ export class SurveyService {
 
 
   // 2. Create new survey
-  async createSurvey(userId: string, data: any) {
-    log.info('Creating new survey', 'createSurvey', { userId, title: data.title });
+  async createSurvey(userId: string, workspaceId: string, data: any) {
+    log.info('Creating new survey', 'createSurvey', { userId, workspaceId, title: data.title });
     if (
       !data.title ||
       typeof data.title !== 'string' ||
@@ -108,6 +259,9 @@ export class SurveyService {
       log.warn('Survey validation failed: Missing or invalid title', 'createSurvey', { userId });
       throw new Error('Validation: Title is required');
     }
+    validateCollectionSettings(data);
+    validateQuizSettings(data.quiz);
+    validateHiddenFields(data.hiddenFields);
     if (data.pages !== undefined) {
       if (!Array.isArray(data.pages)) {
         log.warn('Survey validation failed: Pages must be array', 'createSurvey', { userId });
@@ -141,6 +295,18 @@ export class SurveyService {
           );
         }
       }
+      try {
+        validateComputedVariables(data.computedVariables, data.pages, data.hiddenFields);
+        validatePageRules(data.pages, data.hiddenFields, data.computedVariables);
+      } catch (error) {
+        log.warn('Survey validation failed: Invalid rules', 'createSurvey', {
+          userId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+    } else {
+      validateComputedVariables(data.computedVariables, [], data.hiddenFields);
     }
     const slug = await generateUniqueSlug(data.title);
     log.debug('Generated unique slug', 'createSurvey', { userId, slug });
@@ -149,19 +315,25 @@ export class SurveyService {
       slug,
       status: 'draft',
       createdBy: userId,
+      workspace: workspaceId,
     });
     log.info('Survey created successfully', 'createSurvey', { 
       userId, 
       surveyId: survey._id, 
       slug 
     });
+    await this.revisionService.record(String(survey._id), userId, { pages: [] }, getEditableContent(survey), {
+      surveyVersion: survey.version,
+      force: true,
+      note: 'Created survey',
+    });
     return survey;
   }
 
-  // 3. Get survey by ID (creator)
-  async getSurveyById(userId: string, surveyId: string) {
+  // 3. Get survey by ID (owner or collaborator)
+  async getSurveyById(userId: string, surveyId: string, permission: SurveyPermission = 'view') {
     log.debug('Fetching survey by ID', 'getSurveyById', { userId, surveyId });
-    const survey = await this.repo.findByIdAndCreator(surveyId, userId);
+    const survey = await this.repo.findByIdForUser(surveyId, userId, permission);
     if (!survey) {
       log.warn('Survey not found or user lacks permission', 'getSurveyById', { 
         userId, 
@@ -224,6 +396,34 @@ export class SurveyService {
     return survey;
   }
 
+  // The survey as of the version a respondent started on; the current survey for new respondents
+  async getSurveyAtVersion(survey: any, version: unknown) {
+    const currentVersion = survey.version ?? 1;
+    if (!isRespondentVersion(version, currentVersion) || version === currentVersion) {
+      return survey;
+    }
+    const snapshot = await this.versionRepo.findOne(String(survey._id), version);
+    if (!snapshot) {
+      log.warn('Survey version snapshot not found, using the current version', 'getSurveyAtVersion', {
+        surveyId: String(survey._id),
+        version,
+        currentVersion,
+      });
+      return survey;
+    }
+    return withVersionContent(survey, snapshot);
+  }
+
+  // Profile of an invited respondent, for piping into the survey's text
+  async getRespondentProfile(survey: any, email: string): Promise<RespondentProfile> {
+    return this.respondentService.getPipingProfile(survey.workspace ? String(survey.workspace) : undefined, email);
+  }
+
+  // Hidden field values set on an invited respondent's invitation
+  async getInvitationHiddenFields(survey: any, email: string): Promise<HiddenFieldValues | undefined> {
+    return this.surveyRespondentsService.getInvitationHiddenFields(String(survey._id), email.toLowerCase());
+  }
+
   // Helper: Apply immediate transitions on read
   private async ensureJustInTimeTransitions(survey: any, userId: string, surveyId: string): Promise<void> {
     const now = new Date();
@@ -252,7 +452,7 @@ export class SurveyService {
   // 7. Get allowed respondents
   async getRespondents(userId: string, surveyId: string) {
     log.debug('Fetching respondents', 'getRespondents', { userId, surveyId });
-    const survey = await this.repo.findByIdAndCreator(surveyId, userId);
+    const survey = await this.repo.findByIdForUser(surveyId, userId, 'view');
     if (!survey) {
       log.warn('Survey not found for fetching respondents', 'getRespondents', { 
         userId, 
@@ -278,7 +478,7 @@ export class SurveyService {
   async addRespondent(userId: string, surveyId: string, respondentId: string) {
     log.info('Adding respondent', 'addRespondent', { userId, surveyId, respondentId });
     
-    const survey = await this.repo.findByIdAndCreator(surveyId, userId);
+    const survey = await this.repo.findByIdForUser(surveyId, userId, 'edit');
     if (!survey) {
       log.warn('Survey not found for adding respondent', 'addRespondent', { 
         userId, 
@@ -302,7 +502,7 @@ export class SurveyService {
   // 9. Remove respondent
   async removeRespondent(userId: string, surveyId: string, respondentId: string) {
     log.info('Removing respondent', 'removeRespondent', { userId, surveyId, respondentId });
-    const survey = await this.repo.findByIdAndCreator(surveyId, userId);
+    const survey = await this.repo.findByIdForUser(surveyId, userId, 'edit');
     if (!survey) {
       log.warn('Survey not found for removing respondent', 'removeRespondent', { 
         userId, 
@@ -328,7 +528,7 @@ export class SurveyService {
   // 10. Send invitations
   async sendInvitations(userId: string, surveyId: string) {
     log.info('Sending invitations', 'sendInvitations', { userId, surveyId });
-    const survey = await this.repo.findByIdAndCreator(surveyId, userId);
+    const survey = await this.repo.findByIdForUser(surveyId, userId, 'edit');
     if (!survey) {
       log.warn('Survey not found for sending invitations', 'sendInvitations', { 
         userId, 
@@ -478,9 +678,11 @@ export class SurveyService {
       .filter((r) => r.status === 'fulfilled' && r.value.success)
       .map((r) => (r as PromiseFulfilledResult<any>).value.email);
     
-    const failedEmails = results
+    const failedResults = results
       .filter((r) => r.status === 'fulfilled' && !r.value.success)
-      .map((r) => (r as PromiseFulfilledResult<any>).value.email);
+      .map((r) => (r as PromiseFulfilledResult<any>).value);
+    const failedEmails = failedResults.map((r) => r.email);
+    const failedErrors = new Map<string, string>(failedResults.map((r) => [r.email, r.error]));
     
     // Map emails to respondent IDs for updating invitation statuses
     const { Respondent } = await import('../models/Respondent');
@@ -490,6 +692,7 @@ export class SurveyService {
     const emailsToLookup = [...successfulEmails, ...failedEmails].map(e => e.toLowerCase());
     if (emailsToLookup.length > 0) {
       const respondents = await Respondent.find({
+        workspace: survey.workspace,
         mail: { $in: emailsToLookup }
       }).select('_id mail');
       
@@ -529,6 +732,11 @@ export class SurveyService {
     for (const email of failedEmails) {
       const emailLower = email.toLowerCase();
       const respondentId = emailToRespondentId.get(emailLower);
+      await this.webhookService.dispatch('invitation.failed', surveyId, {
+        respondentId: respondentId ?? null,
+        email: emailLower,
+        error: failedErrors.get(email) ?? 'Unknown error',
+      });
       
       if (respondentId) {
         try {
@@ -568,15 +776,17 @@ export class SurveyService {
     userId: string,
     surveyId: string,
     page = 1,
-    limit = 20
+    limit = 20,
+    query: ResponseFilterQuery = {}
   ) {
+    const filters = parseResponseFilters(query);
     log.info('Fetching respondent progress', 'getRespondentProgress', { 
       userId, 
       surveyId, 
       page, 
       limit 
     });
-    const survey = await this.repo.findByIdAndCreator(surveyId, userId);
+    const survey = await this.repo.findByIdForUser(surveyId, userId, 'results');
     if (!survey) {
       log.warn('Survey not found for fetching progress', 'getRespondentProgress', { 
         userId, 
@@ -584,12 +794,22 @@ export class SurveyService {
       });
       throw new Error('Survey not found');
     }
-    const allResponses = await this.responseRepo.findBySurvey(surveyId);
+    const groupEmails = await this.responseFilterService.resolveGroupEmails(survey, filters);
+    const allResponses = hasResponseFilters(filters)
+      ? await this.responseRepo.findFiltered(surveyId, filters, groupEmails)
+      : await this.responseRepo.findBySurvey(surveyId);
+    // Anonymous-link responses are listed under their session key alongside identified respondents
     const responseMap = new Map(
-      allResponses.map((r) => [r.respondentEmail?.toLowerCase(), r])
+      allResponses.map((r) => [getRespondentKey(r), r])
     );
     
-    const authorizedEmails = await this.surveyRespondentsService.getAllRespondentEmails(surveyId);
+    // Respondents who have not started can only match a group filter; status, date and answer filters need a response
+    const listsNotStarted = !filters.status && !filters.from && !filters.to && filters.answers.length === 0;
+    const groupMembers = groupEmails && new Set(groupEmails);
+    const authorizedEmails = listsNotStarted
+      ? (await this.surveyRespondentsService.getAllRespondentEmails(surveyId))
+          .filter(email => !groupMembers || groupMembers.has(email.toLowerCase()))
+      : [];
     const responseEmails = Array.from(responseMap.keys());
     
     const allUniqueEmails = new Set([...authorizedEmails.map(e => e.toLowerCase()), ...responseEmails]);
@@ -687,19 +907,34 @@ export class SurveyService {
   }
 
   // 12. Update survey
-  async updateSurvey(userId: string, surveyId: string, updateData: any) {
+  async updateSurvey(userId: string, surveyId: string, updateData: any, options: { restoredFrom?: number } = {}) {
     log.info('Updating survey', 'updateSurvey', { 
       userId, 
       surveyId, 
       updateFields: Object.keys(updateData) 
     });
-    const survey = await this.repo.findByIdAndCreator(surveyId, userId);
+    const survey = await this.repo.findByIdForUser(surveyId, userId, 'edit');
     if (!survey) {
       log.warn('Survey not found for update', 'updateSurvey', { userId, surveyId });
       throw new Error('Survey not found');
     }
-    validateSurveyUpdate(updateData);
+    const before = getEditableContent(survey);
+    const updated = await this.applySurveyUpdate(survey, userId, surveyId, updateData);
+    // Every save of the survey content is kept as a revision in the builder history
+    await this.revisionService.record(surveyId, userId, before, getEditableContent(updated), {
+      surveyVersion: updated.draft ? updated.version + 1 : updated.version,
+      restoredFrom: options.restoredFrom,
+      note: options.restoredFrom ? `Restored revision ${options.restoredFrom}` : undefined,
+    });
+    return updated;
+  }
+
+  private async applySurveyUpdate(survey: any, userId: string, surveyId: string, updateData: any) {
+    validateSurveyUpdate(updateData, getDraftedSurvey(survey));
     const filteredUpdates = this.filterAllowedUpdates(updateData);
+    if (survey.locked) {
+      this.stageDraftChanges(survey, filteredUpdates, userId, surveyId);
+    }
     const originalStatus = survey.status;
     const newStatus = filteredUpdates.status;
     log.debug('Survey status transition', 'updateSurvey', { 
@@ -794,6 +1029,11 @@ export class SurveyService {
       'backgroundColor',
       'textColor',
       'pages',
+      'collectionMode',
+      'onePerDevice',
+      'quiz',
+      'hiddenFields',
+      'computedVariables',
     ]);
     const filteredUpdates: any = {};
     for (const k of Object.keys(updateData)) {
@@ -804,6 +1044,25 @@ export class SurveyService {
     return filteredUpdates;
   }
 
+  // Published content is immutable: content edits on a locked survey go into the draft version
+  private stageDraftChanges(survey: any, updates: any, userId: string, surveyId: string): void {
+    const changes = pickVersionedFields(updates);
+    for (const field of VERSIONED_FIELDS) {
+      delete updates[field];
+    }
+    if (Object.keys(changes).length === 0) {
+      return;
+    }
+    const draft = { ...pickVersionedFields(survey.toObject()), ...pickVersionedFields(survey.draft), ...changes };
+    survey.draft = isSameContent(draft, survey) ? null : { ...draft, updatedAt: new Date() };
+    log.info('Survey changes staged as draft version', 'updateSurvey', {
+      userId,
+      surveyId,
+      draftVersion: survey.version + 1,
+      fields: Object.keys(changes),
+    });
+  }
+
   // Extract method: Handle all status transitions
   private async handleStatusTransitions(
     survey: any, 
@@ -818,9 +1077,55 @@ export class SurveyService {
       this.handleDraftTransition(survey, userId, surveyId);
     } else if (newStatus === 'live' && originalStatus !== 'live') {
       await this.handleLiveTransition(survey, userId, surveyId);
+      await this.emitStatusWebhook(survey, originalStatus, newStatus);
       return; // Early return after live transition
     }
     await this.repo.updateSurvey(surveyId, survey);
+    if (survey.locked) {
+      await this.ensureVersionSnapshot(survey, userId);
+    }
+    await this.emitStatusWebhook(survey, originalStatus, newStatus);
+  }
+
+  // Going from draft to published or live counts as publishing; published -> live does not
+  private async emitStatusWebhook(survey: any, originalStatus: string, newStatus: string): Promise<void> {
+    const surveyId = survey._id.toString();
+    const wasOpen = originalStatus === 'published' || originalStatus === 'live';
+    if ((newStatus === 'published' || newStatus === 'live') && !wasOpen) {
+      await this.webhookService.dispatch('survey.published', surveyId, {
+        status: newStatus,
+        version: survey.version ?? 1,
+      });
+    } else if (newStatus === 'closed' && originalStatus !== 'closed') {
+      await this.webhookService.dispatch('survey.closed', surveyId, {
+        closedAt: new Date(survey.closeDate ?? Date.now()).toISOString(),
+      });
+    }
+  }
+
+  // Keeps an immutable copy of the published content for every version respondents can see
+  private async ensureVersionSnapshot(survey: any, userId: string): Promise<void> {
+    const surveyId = survey._id.toString();
+    const version = survey.version ?? 1;
+    if (await this.versionRepo.exists(surveyId, version)) {
+      return;
+    }
+    await this.versionRepo.create({
+      survey: survey._id,
+      version,
+      title: survey.title,
+      description: survey.description,
+      theme: survey.theme,
+      backgroundColor: survey.backgroundColor,
+      textColor: survey.textColor,
+      pages: survey.pages,
+      quiz: survey.quiz,
+      hiddenFields: survey.hiddenFields,
+      computedVariables: survey.computedVariables,
+      publishedBy: mongoose.Types.ObjectId.isValid(userId) ? userId : undefined,
+      publishedAt: new Date(),
+    });
+    log.info('Survey version snapshot created', 'updateSurvey', { userId, surveyId, version });
   }
 
   // Extract method: Handle publish transition
@@ -859,6 +1164,7 @@ export class SurveyService {
     });
 
     await this.repo.updateSurvey(surveyId, survey);
+    await this.ensureVersionSnapshot(survey, userId);
 
     log.info('Survey is now live - invitations must be sent manually', 'updateSurvey', {
       userId,
@@ -923,10 +1229,104 @@ export class SurveyService {
     });
   }
 
+  // Publish the staged draft as the next survey version
+  async publishDraft(userId: string, surveyId: string) {
+    log.info('Publishing survey draft version', 'publishDraft', { userId, surveyId });
+    const survey = await this.repo.findByIdForUser(surveyId, userId, 'edit');
+    if (!survey) {
+      log.warn('Survey not found for publishing draft', 'publishDraft', { userId, surveyId });
+      throw new Error('Survey not found');
+    }
+    if (!survey.locked || !survey.draft) {
+      throw new Error('Validation: There are no draft changes to publish');
+    }
+    const content = pickVersionedFields(survey.draft);
+    validateSurveyUpdate(content, survey);
+    if (survey.status === 'live') {
+      this.validateSurveyCanGoLive({ ...survey.toObject(), ...content }, userId, surveyId);
+    }
+
+    // Make sure the version being replaced is kept before overwriting its content
+    await this.ensureVersionSnapshot(survey, userId);
+    Object.assign(survey, content);
+    survey.version = (survey.version ?? 1) + 1;
+    survey.draft = null;
+    await this.repo.updateSurvey(surveyId, survey);
+    await this.ensureVersionSnapshot(survey, userId);
+
+    log.info('Survey draft published as new version', 'publishDraft', {
+      userId,
+      surveyId,
+      version: survey.version,
+    });
+    await this.webhookService.dispatch('survey.published', surveyId, {
+      status: survey.status,
+      version: survey.version,
+    });
+    return survey;
+  }
+
+  // Drop staged changes and keep editing from the published version
+  async discardDraft(userId: string, surveyId: string) {
+    log.info('Discarding survey draft version', 'discardDraft', { userId, surveyId });
+    const survey = await this.repo.findByIdForUser(surveyId, userId, 'edit');
+    if (!survey) {
+      log.warn('Survey not found for discarding draft', 'discardDraft', { userId, surveyId });
+      throw new Error('Survey not found');
+    }
+    const before = getEditableContent(survey);
+    survey.draft = null;
+    await this.repo.updateSurvey(surveyId, survey);
+    await this.revisionService.record(surveyId, userId, before, getEditableContent(survey), {
+      surveyVersion: survey.version,
+      note: 'Discarded draft changes',
+    });
+    return survey;
+  }
+
+  // Applies a previous revision's content like a regular save (published surveys get it as their draft)
+  async restoreRevision(userId: string, surveyId: string, revisionNumber: number) {
+    log.info('Restoring survey revision', 'restoreRevision', { userId, surveyId, revision: revisionNumber });
+    const revision = await this.revisionService.getRevision(userId, surveyId, revisionNumber);
+    return this.updateSurvey(userId, surveyId, pickVersionedFields(revision.toObject()), {
+      restoredFrom: revision.revision,
+    });
+  }
+
+  async getVersions(userId: string, surveyId: string) {
+    log.debug('Fetching survey versions', 'getVersions', { userId, surveyId });
+    const survey = await this.repo.findByIdForUser(surveyId, userId, 'view');
+    if (!survey) {
+      log.warn('Survey not found for fetching versions', 'getVersions', { userId, surveyId });
+      throw new Error('Survey not found');
+    }
+    const [versions, responseCounts] = await Promise.all([
+      this.versionRepo.findBySurvey(surveyId),
+      this.responseRepo.countBySurveyVersion(surveyId),
+    ]);
+    // Responses saved before versioning existed were answered against version 1
+    const countByVersion = new Map<number, number>();
+    for (const { _id, count } of responseCounts) {
+      const version = _id ?? 1;
+      countByVersion.set(version, (countByVersion.get(version) ?? 0) + count);
+    }
+    return {
+      currentVersion: survey.version ?? 1,
+      hasDraft: Boolean(survey.draft),
+      versions: versions.map(v => ({
+        version: v.version,
+        title: v.title,
+        publishedAt: v.publishedAt,
+        questionCount: (v.pages || []).reduce((sum: number, page: any) => sum + (page.questions?.length ?? 0), 0),
+        responseCount: countByVersion.get(v.version) ?? 0,
+      })),
+    };
+  }
+
   // 13. Delete survey
   async deleteSurvey(userId: string, surveyId: string) {
     log.info('Attempting to delete survey', 'deleteSurvey', { userId, surveyId });  
-    const survey = await this.repo.findByIdAndCreator(surveyId, userId);
+    const survey = await this.repo.findByIdForUser(surveyId, userId, 'manage');
     if (!survey) {
       log.warn('Survey not found for deletion', 'deleteSurvey', { userId, surveyId });
       throw new Error('Survey not found');
@@ -943,6 +1343,10 @@ export class SurveyService {
     
     // Delete associated survey respondents
     await this.surveyRespondentsService.deleteBySurveyId(surveyId);
+    await this.fileUploadService.deleteSurveyFiles(surveyId);
+    await this.versionRepo.deleteBySurvey(surveyId);
+    await this.revisionService.deleteBySurvey(surveyId);
+    await this.webhookService.deleteBySurvey(surveyId);
     
     await this.repo.deleteSurvey(surveyId);
     log.info('Survey deleted successfully', 'deleteSurvey', { userId, surveyId });   
@@ -952,7 +1356,7 @@ export class SurveyService {
   // 14. Duplicate survey
   async duplicateSurvey(userId: string, surveyId: string) {
     log.info('Duplicating survey', 'duplicateSurvey', { userId, surveyId });    
-    const survey = await this.repo.findByIdAndCreator(surveyId, userId);
+    const survey = await this.repo.findByIdForUser(surveyId, userId, 'edit');
     if (!survey) {
       log.warn('Survey not found for duplication', 'duplicateSurvey', { 
         userId, 
@@ -974,7 +1378,10 @@ export class SurveyService {
       slug,
       status: 'draft',
       createdBy: userId,
+      collaborators: [],
       locked: false,
+      version: 1,
+      draft: null,
       startDate: undefined,
       endDate: undefined,
       closeDate: undefined,
@@ -1079,7 +1486,7 @@ export class SurveyService {
   // 15. Export survey
   async exportSurvey(userId: string, surveyId: string) {
     log.info('Exporting survey', 'exportSurvey', { userId, surveyId });   
-    const survey = await this.repo.findByIdAndCreator(surveyId, userId);
+    const survey = await this.repo.findByIdForUser(surveyId, userId, 'view');
     if (!survey) {
       log.warn('Survey not found for export', 'exportSurvey', { userId, surveyId });
       throw new Error('Survey not found');
@@ -1099,13 +1506,16 @@ export class SurveyService {
         textColor: survey.textColor,
         theme: survey.theme,
         pages: survey.pages,
+        // Rules and piping in the pages can refer to these
+        hiddenFields: survey.hiddenFields ?? [],
+        computedVariables: survey.computedVariables ?? [],
       },
     };
   }
 
   // 16. Import survey
-  async importSurvey(userId: string, surveyData: any) {
-    log.info('Importing survey', 'importSurvey', { userId });   
+  async importSurvey(userId: string, workspaceId: string, surveyData: any) {
+    log.info('Importing survey', 'importSurvey', { userId, workspaceId });   
     const survey = surveyData?.survey || surveyData;
     if (!survey?.title) {
       log.warn('Invalid survey data format for import', 'importSurvey', { 
@@ -1134,6 +1544,9 @@ export class SurveyService {
       for (let i = 0; i < survey.pages.length; i++) {
         validatePage(survey.pages[i], i);
       }
+      validateHiddenFields(survey.hiddenFields);
+      validateComputedVariables(survey.computedVariables, survey.pages, survey.hiddenFields);
+      validatePageRules(survey.pages, survey.hiddenFields, survey.computedVariables);
     }
     // Generate a unique slug for the imported survey
     const slug = await generateUniqueSlug(`${survey.title} (Imported)`);
@@ -1147,9 +1560,12 @@ export class SurveyService {
       description: survey.description,
       theme: survey.theme,
       pages: survey.pages || [],
+      hiddenFields: survey.hiddenFields || [],
+      computedVariables: survey.computedVariables || [],
       slug,
       status: 'draft',
       createdBy: userId,
+      workspace: workspaceId,
       locked: false,
     });
     log.info('Survey imported successfully', 'importSurvey', { 
@@ -1206,6 +1622,53 @@ export class SurveyService {
     return token;
   }
 
+  // 17b. Start an anonymous-link session; `deviceId` identifies the browser across sessions
+  async startAnonymousSession(surveyId: string, deviceId?: string) {
+    log.info('Starting anonymous session', 'startAnonymousSession', { surveyId });
+
+    if (!mongoose.Types.ObjectId.isValid(surveyId)) {
+      throw new Error('Survey not found');
+    }
+    const survey = await this.repo.findById(surveyId);
+    if (!survey) {
+      log.warn('Survey not found for anonymous session', 'startAnonymousSession', { surveyId });
+      throw new Error('Survey not found');
+    }
+
+    if (survey.collectionMode !== 'anonymous') {
+      log.warn('Anonymous link disabled for survey', 'startAnonymousSession', { surveyId });
+      throw new Error('Anonymous responses are not enabled for this survey');
+    }
+
+    if (survey.status !== 'published' && survey.status !== 'live') {
+      log.warn('Survey not available for anonymous session', 'startAnonymousSession', {
+        surveyId,
+        status: survey.status
+      });
+      throw new Error('Survey is not available for responses');
+    }
+
+    if (survey.endDate && new Date() >= new Date(survey.endDate)) {
+      log.warn('Survey closed for anonymous session', 'startAnonymousSession', {
+        surveyId,
+        endDate: survey.endDate
+      });
+      throw new Error('This survey is closed');
+    }
+
+    const device = deviceId && /^[a-f0-9-]{36}$/i.test(deviceId) ? deviceId : crypto.randomUUID();
+    if (survey.onePerDevice && await this.responseRepo.existsCompletedForDevice(surveyId, device)) {
+      log.warn('Device already answered survey', 'startAnonymousSession', { surveyId });
+      throw new Error('You have already answered this survey');
+    }
+
+    const sessionId = crypto.randomUUID();
+    const token = generateAnonymousSurveyToken(surveyId, sessionId, device);
+
+    log.info('Anonymous session started', 'startAnonymousSession', { surveyId });
+    return { token, sessionId, deviceId: device };
+  }
+
   // 18. Static method to delete survey (used in user deletion)
   static async deleteSurvey(surveyId: string, userId: string): Promise<void> {
     log.info('Static deleteSurvey called', 'deleteSurvey', { surveyId, userId });
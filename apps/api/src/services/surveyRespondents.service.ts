@@ -1,12 +1,15 @@
 import { SurveyRespondentsRepository } from '../repository/surveyRespondents.repository';
 import { RespondentGroupRepository } from '../repository/respondentGroup.repository';
+import { WebhookService } from './webhook.service';
 import { IInvitation } from '../models/SurveyRespondents';
+import { HiddenFieldDefinition, HiddenFieldValues, resolveHiddenFieldValues } from '../shared/hiddenFields';
 import mongoose from 'mongoose';
 import log from '../logger';
 
 export class SurveyRespondentsService {
   private readonly repo = new SurveyRespondentsRepository();
   private readonly groupRepo = new RespondentGroupRepository();
+  private readonly webhookService = new WebhookService();
 
   /**
    * Get survey respondents by survey ID
@@ -41,11 +44,13 @@ export class SurveyRespondentsService {
   /**
    * Merge recipients: combines respondent IDs and group IDs
    * Deduplicates and updates invitations array with status=pending
+   * With `workspaceId`, respondents and groups of other workspaces are dropped
    */
   async mergeRecipients(
     surveyId: string,
     respondentIds: string[],
-    groupIds: string[]
+    groupIds: string[],
+    workspaceId?: string
   ) {
     log.info('Merging recipients for survey', 'mergeRecipients', {
       surveyId,
@@ -59,13 +64,36 @@ export class SurveyRespondentsService {
     }
 
     // Deduplicate and validate input IDs
-    const uniqueRespondentIds = [...new Set(respondentIds)].filter(id => 
+    let uniqueRespondentIds = [...new Set(respondentIds)].filter(id => 
       id && typeof id === 'string' && mongoose.Types.ObjectId.isValid(id)
     );
-    const uniqueGroupIds = [...new Set(groupIds)].filter(id => 
+    let uniqueGroupIds = [...new Set(groupIds)].filter(id => 
       id && typeof id === 'string' && mongoose.Types.ObjectId.isValid(id)
     );
 
+    if (workspaceId) {
+      const { Respondent } = await import('../models/Respondent');
+      const { RespondentGroup } = await import('../models/RespondentGroup');
+      const workspace = new mongoose.Types.ObjectId(workspaceId);
+      const [allowedRespondents, allowedGroups] = await Promise.all([
+        Respondent.find({ _id: { $in: uniqueRespondentIds }, workspace }).distinct('_id'),
+        RespondentGroup.find({ _id: { $in: uniqueGroupIds }, workspace }).distinct('_id'),
+      ]);
+      const respondentSet = new Set(allowedRespondents.map(String));
+      const groupSet = new Set(allowedGroups.map(String));
+      const skipped =
+        uniqueRespondentIds.length - respondentSet.size + uniqueGroupIds.length - groupSet.size;
+      if (skipped > 0) {
+        log.warn('Skipping recipients outside the survey workspace', 'mergeRecipients', {
+          surveyId,
+          workspaceId,
+          skipped,
+        });
+      }
+      uniqueRespondentIds = uniqueRespondentIds.filter(id => respondentSet.has(id));
+      uniqueGroupIds = uniqueGroupIds.filter(id => groupSet.has(id));
+    }
+
 
     // Get existing survey respondents or create new
     let surveyRespondents = await this.repo.getBySurveyIdIdsOnly(surveyId);
@@ -316,6 +344,53 @@ export class SurveyRespondentsService {
     return this.repo.getInvitations(surveyId);
   }
 
+  /**
+   * Hidden field values stored on the invitation of the respondent with this email
+   */
+  async getInvitationHiddenFields(surveyId: string, email: string): Promise<HiddenFieldValues | undefined> {
+    const invitations = await this.repo.getInvitations(surveyId);
+    const invitation = invitations.find((inv: any) =>
+      typeof inv.respondentId?.mail === 'string' && inv.respondentId.mail.toLowerCase().trim() === email
+    );
+    return invitation?.hiddenFields ?? undefined;
+  }
+
+  /**
+   * Set one invited respondent's hidden field values; values of fields the survey
+   * does not define are dropped and empty values are cleared
+   */
+  async setInvitationHiddenFields(
+    surveyId: string,
+    respondentId: string,
+    fields: HiddenFieldDefinition[],
+    values: unknown
+  ): Promise<HiddenFieldValues> {
+    if (!values || typeof values !== 'object' || Array.isArray(values)) {
+      throw new Error('Validation: Hidden field values must be an object');
+    }
+    if (!mongoose.Types.ObjectId.isValid(respondentId)) {
+      throw new Error('Validation: Invalid respondent ID');
+    }
+    // Defaults apply when the response is saved, not on the invitation
+    const hiddenFields = resolveHiddenFieldValues(
+      fields.map(({ name }) => ({ name })),
+      values as Record<string, unknown>
+    );
+
+    const updated = await this.repo.updateInvitationHiddenFields(surveyId, respondentId, hiddenFields);
+    if (!updated) {
+      throw new Error('Invitation not found');
+    }
+
+    log.info('Invitation hidden fields updated', 'setInvitationHiddenFields', {
+      surveyId,
+      respondentId,
+      fields: Object.keys(hiddenFields),
+    });
+
+    return hiddenFields;
+  }
+
   /**
    * Send pending invitations for a survey with limited concurrency
    */
@@ -407,6 +482,7 @@ export class SurveyRespondentsService {
     // Simple pool
     const pool: Promise<void>[] = [];
     const runTask = async (inv: any) => {
+      let email: string | null = null;
       try {
         const respondentId = typeof inv.respondentId === 'object' && inv.respondentId !== null
           ? (inv.respondentId as any)._id?.toString?.() || (inv.respondentId as any).toString()
@@ -414,6 +490,7 @@ export class SurveyRespondentsService {
         if (!respondentId) throw new Error('Invalid respondentId');
         const respondent = await Respondent.findById(respondentId).select('mail');
         if (!respondent?.mail) throw new Error('Respondent email missing');
+        email = String(respondent.mail);
 
         // Skip if respondent has already completed the survey
         const emailLower = String(respondent.mail).toLowerCase().trim();
@@ -447,13 +524,18 @@ export class SurveyRespondentsService {
         await this.updateInvitationStatus(surveyId, respondentId, 'sent');
         sent++;
       } catch (e) {
+        const respondentId = typeof inv.respondentId === 'object' && inv.respondentId !== null
+          ? (inv.respondentId as any)._id?.toString?.() || (inv.respondentId as any).toString()
+          : inv.respondentId?.toString() || '';
         try {
-          const respondentId = typeof inv.respondentId === 'object' && inv.respondentId !== null
-            ? (inv.respondentId as any)._id?.toString?.() || (inv.respondentId as any).toString()
-            : inv.respondentId?.toString() || '';
           if (respondentId) await this.updateInvitationStatus(surveyId, respondentId, 'failed');
         } catch {}
         failed++;
+        await this.webhookService.dispatch('invitation.failed', surveyId, {
+          respondentId: respondentId || null,
+          email,
+          error: e instanceof Error ? e.message : String(e),
+        });
       }
     };
 
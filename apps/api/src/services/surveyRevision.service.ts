@@ -0,0 +1,165 @@
+import mongoose from 'mongoose';
+import { SurveyRepository } from '../repository/survey.repository';
+import { SurveyRevisionRepository } from '../repository/surveyRevision.repository';
+import { ISurveyRevision } from '../models/SurveyRevision';
+import {
+  SurveyContent,
+  diffSurveyContent,
+  isEmptyDiff,
+  summarizeSurveyDiff,
+} from '../shared/surveyDiff';
+import log from '../logger';
+
+const DUPLICATE_KEY_ERROR = 11000;
+const MAX_RECORD_ATTEMPTS = 3;
+
+const toContent = (source: any): SurveyContent => ({
+  title: source?.title,
+  description: source?.description,
+  theme: source?.theme,
+  backgroundColor: source?.backgroundColor,
+  textColor: source?.textColor,
+  pages: source?.pages ?? [],
+  quiz: source?.quiz,
+  hiddenFields: source?.hiddenFields,
+  computedVariables: source?.computedVariables,
+});
+
+// Content the builder edits: the draft of the next version once a survey has been published
+export const getEditableContent = (survey: any): SurveyContent => {
+  const live = toContent(typeof survey?.toObject === 'function' ? survey.toObject() : survey);
+  if (!survey?.locked || !survey.draft) {
+    return live;
+  }
+  const draft: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(toContent(survey.draft))) {
+    if (value !== undefined) {
+      draft[field] = value;
+    }
+  }
+  return { ...live, ...draft };
+};
+
+export interface RecordRevisionOptions {
+  surveyVersion: number;
+  restoredFrom?: number;
+  // Recorded even when nothing changed, e.g. the initial revision of a new survey
+  force?: boolean;
+  note?: string;
+}
+
+export class SurveyRevisionService {
+  private readonly surveyRepo = new SurveyRepository();
+  private readonly repo = new SurveyRevisionRepository();
+
+  // Stores `after` as a new revision when it differs from `before`
+  async record(
+    surveyId: string,
+    userId: string,
+    before: SurveyContent,
+    after: SurveyContent,
+    options: RecordRevisionOptions
+  ) {
+    const diff = diffSurveyContent(before, after);
+    if (isEmptyDiff(diff) && !options.force) {
+      return null;
+    }
+    const changes = summarizeSurveyDiff(diff);
+    if (options.note) {
+      changes.unshift(options.note);
+    }
+
+    for (let attempt = 1; attempt <= MAX_RECORD_ATTEMPTS; attempt++) {
+      const latest = await this.repo.findLatest(surveyId);
+      try {
+        const revision = await this.repo.create({
+          survey: surveyId,
+          revision: (latest?.revision ?? 0) + 1,
+          surveyVersion: options.surveyVersion,
+          ...after,
+          title: after.title ?? '',
+          pages: (after.pages ?? []) as ISurveyRevision['pages'],
+          changes,
+          restoredFrom: options.restoredFrom,
+          createdBy: mongoose.Types.ObjectId.isValid(userId) ? userId : undefined,
+        });
+        log.debug('Survey revision recorded', 'recordRevision', {
+          surveyId,
+          userId,
+          revision: revision.revision,
+          changes: changes.length,
+        });
+        return revision;
+      } catch (error: any) {
+        // Another save took the same revision number; retry with the next one
+        if (error?.code !== DUPLICATE_KEY_ERROR || attempt === MAX_RECORD_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+    return null;
+  }
+
+  async getRevisions(userId: string, surveyId: string, page = 1, limit = 20) {
+    await this.assertCanView(userId, surveyId);
+    const safeLimit = Math.max(1, Math.min(limit, 100));
+    const [revisions, total] = await Promise.all([
+      this.repo.findBySurvey(surveyId, (page - 1) * safeLimit, safeLimit),
+      this.repo.countBySurvey(surveyId),
+    ]);
+    return {
+      revisions,
+      pagination: {
+        page,
+        limit: safeLimit,
+        total,
+        totalPages: Math.ceil(total / safeLimit),
+        hasNext: page * safeLimit < total,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  async getRevision(userId: string, surveyId: string, revisionNumber: number) {
+    await this.assertCanView(userId, surveyId);
+    return this.findRevision(surveyId, revisionNumber);
+  }
+
+  // Compares two revisions; without `from` the revision is compared with the one before it
+  async diffRevisions(userId: string, surveyId: string, toRevision: number, fromRevision?: number) {
+    await this.assertCanView(userId, surveyId);
+    const from = fromRevision ?? toRevision - 1;
+    const [before, after] = await Promise.all([
+      from > 0 ? this.findRevision(surveyId, from) : Promise.resolve(null),
+      this.findRevision(surveyId, toRevision),
+    ]);
+    return {
+      from: before ? before.revision : null,
+      to: after.revision,
+      diff: diffSurveyContent(before ? toContent(before) : { pages: [] }, toContent(after)),
+    };
+  }
+
+  async deleteBySurvey(surveyId: string) {
+    await this.repo.deleteBySurvey(surveyId);
+  }
+
+  private async findRevision(surveyId: string, revisionNumber: number) {
+    if (!Number.isInteger(revisionNumber) || revisionNumber < 1) {
+      throw new Error('Revision not found');
+    }
+    const revision = await this.repo.findOne(surveyId, revisionNumber);
+    if (!revision) {
+      throw new Error('Revision not found');
+    }
+    return revision;
+  }
+
+  private async assertCanView(userId: string, surveyId: string) {
+    const survey = await this.surveyRepo.findByIdForUser(surveyId, userId, 'view');
+    if (!survey) {
+      log.warn('Survey not found for revision history', 'surveyRevisions', { userId, surveyId });
+      throw new Error('Survey not found');
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import mongoose from 'mongoose';
+import validator from 'validator';
+import { SurveyRepository } from '../repository/survey.repository';
+import { AuthRepository } from '../repository/auth.repository';
+import { WorkspaceService } from './workspace.service';
+import { SURVEY_SHARE_ROLES, SurveyShareRole } from '../shared/surveyAccess';
+import { getSurveyRole } from '../utils/surveyAccess';
+import log from '../logger';
+
+const toPerson = (user: any) => ({
+  userId: String(user?._id ?? user ?? ''),
+  name: user?.name,
+  email: user?.email,
+});
+
+const validateRole = (role: unknown): SurveyShareRole => {
+  if (!SURVEY_SHARE_ROLES.includes(role as SurveyShareRole)) {
+    throw new Error(`Validation: Role must be one of ${SURVEY_SHARE_ROLES.join(', ')}`);
+  }
+  return role as SurveyShareRole;
+};
+
+export class SurveySharingService {
+  private readonly surveyRepo = new SurveyRepository();
+  private readonly userRepo = new AuthRepository();
+  private readonly workspaceService = new WorkspaceService();
+
+  // Owner and collaborators of a survey, visible to anyone with access to it
+  async getCollaborators(userId: string, surveyId: string) {
+    const survey = await this.surveyRepo.findWithCollaborators(surveyId);
+    const role = getSurveyRole(survey, userId);
+    if (!survey || !role) {
+      log.warn('Survey not found for collaborators', 'getCollaborators', { userId, surveyId });
+      throw new Error('Survey not found');
+    }
+    return {
+      role,
+      owner: toPerson(survey.createdBy),
+      collaborators: survey.collaborators.map((entry: any) => ({
+        ...toPerson(entry.user),
+        role: entry.role,
+        addedAt: entry.addedAt,
+      })),
+    };
+  }
+
+  // Shares the survey with an existing account, or changes its role when already shared
+  async shareSurvey(userId: string, surveyId: string, email: unknown, role: unknown) {
+    const shareRole = validateRole(role);
+    if (typeof email !== 'string' || !validator.isEmail(email.trim())) {
+      throw new Error('Validation: A valid email is required');
+    }
+    const survey = await this.findOwnedSurvey(userId, surveyId);
+
+    const normalizedEmail = email.trim().toLowerCase();
+    const user = await this.userRepo.findByEmail(normalizedEmail);
+    if (!user) {
+      throw new Error(`Validation: No account exists for ${normalizedEmail}; they need to sign in once before the survey can be shared`);
+    }
+    const collaboratorId = String(user._id);
+    if (collaboratorId === String(survey.createdBy)) {
+      throw new Error('Validation: The survey owner already has full access');
+    }
+    if (survey.workspace && !(await this.workspaceService.isMember(String(survey.workspace), collaboratorId))) {
+      throw new Error(`Validation: ${normalizedEmail} is not a member of this survey's workspace`);
+    }
+
+    const alreadyShared = survey.collaborators.some(entry => String(entry.user) === collaboratorId);
+    if (alreadyShared) {
+      await this.surveyRepo.updateCollaboratorRole(surveyId, collaboratorId, shareRole);
+    } else {
+      await this.surveyRepo.addCollaborator(surveyId, { user: collaboratorId, role: shareRole, addedBy: userId });
+    }
+    log.info('Survey shared', 'shareSurvey', { userId, surveyId, collaboratorId, role: shareRole, alreadyShared });
+    return this.getCollaborators(userId, surveyId);
+  }
+
+  async updateCollaboratorRole(userId: string, surveyId: string, collaboratorId: string, role: unknown) {
+    const shareRole = validateRole(role);
+    await this.findOwnedSurvey(userId, surveyId);
+    const updated = mongoose.Types.ObjectId.isValid(collaboratorId)
+      ? await this.surveyRepo.updateCollaboratorRole(surveyId, collaboratorId, shareRole)
+      : null;
+    if (!updated) {
+      throw new Error('Collaborator not found');
+    }
+    log.info('Collaborator role updated', 'updateCollaboratorRole', { userId, surveyId, collaboratorId, role: shareRole });
+    return this.getCollaborators(userId, surveyId);
+  }
+
+  async removeCollaborator(userId: string, surveyId: string, collaboratorId: string) {
+    await this.findOwnedSurvey(userId, surveyId);
+    const updated = mongoose.Types.ObjectId.isValid(collaboratorId)
+      ? await this.surveyRepo.removeCollaborator(surveyId, collaboratorId)
+      : null;
+    if (!updated) {
+      throw new Error('Collaborator not found');
+    }
+    log.info('Collaborator removed', 'removeCollaborator', { userId, surveyId, collaboratorId });
+    return this.getCollaborators(userId, surveyId);
+  }
+
+  private async findOwnedSurvey(userId: string, surveyId: string) {
+    const survey = await this.surveyRepo.findByIdForUser(surveyId, userId, 'manage');
+    if (!survey) {
+      log.warn('Survey not found for sharing', 'surveySharing', { userId, surveyId });
+      throw new Error('Survey not found');
+    }
+    return survey;
+  }
+}
@@ -3,31 +3,32 @@ import log from '../logger';
 import { TemplateRepository } from '../repository/template.repository';
 import { SurveyRepository } from '../repository/survey.repository';
 import { generateUniqueSlug } from '../utils/slug';
+import { LOOP_KEY_SEPARATOR } from '../shared/loops';
 
 export class TemplateService {
   private readonly repo = new TemplateRepository();
   private readonly surveyRepo = new SurveyRepository();
-  async listTemplates(userId?: string) {
-    log.debug('Fetching all templates', 'listTemplates', { userId: userId ?? 'public' });
-    const templates = await this.repo.findAllForUser(userId);
-    log.debug('Templates retrieved', 'listTemplates', { count: templates.length, userId: userId ?? 'public' });
+  async listTemplates(workspaceId?: string) {
+    log.debug('Fetching all templates', 'listTemplates', { workspaceId: workspaceId ?? 'public' });
+    const templates = await this.repo.findAllForWorkspace(workspaceId);
+    log.debug('Templates retrieved', 'listTemplates', { count: templates.length, workspaceId: workspaceId ?? 'public' });
     return templates;
   }
 
-  async getTemplate(id: string, userId?: string) {
-    log.debug('Fetching template by ID', 'getTemplate', { templateId: id, userId: userId ?? 'public' });
-    const template = await this.repo.findByPublicId(id, userId);
+  async getTemplate(id: string, workspaceId?: string) {
+    log.debug('Fetching template by ID', 'getTemplate', { templateId: id, workspaceId: workspaceId ?? 'public' });
+    const template = await this.repo.findByPublicId(id, workspaceId);
     if (!template) {
-      log.warn('Template not found', 'getTemplate', { templateId: id, userId: userId ?? 'public' });
+      log.warn('Template not found', 'getTemplate', { templateId: id, workspaceId: workspaceId ?? 'public' });
       throw new Error('Template not found');
     }
-    log.debug('Template retrieved', 'getTemplate', { templateId: id, title: template.title, userId: userId ?? 'public' });
+    log.debug('Template retrieved', 'getTemplate', { templateId: id, title: template.title, workspaceId: workspaceId ?? 'public' });
     return template;
   }
 
-  async instantiateTemplate(userId: string, id: string) {
-    log.info('Instantiating template to survey', 'instantiateTemplate', { userId, templateId: id });
-    const template = await this.getTemplate(id, userId);
+  async instantiateTemplate(userId: string, workspaceId: string, id: string) {
+    log.info('Instantiating template to survey', 'instantiateTemplate', { userId, workspaceId, templateId: id });
+    const template = await this.getTemplate(id, workspaceId);
     const slug = await generateUniqueSlug(template.title);   
     log.debug('Generated slug for template survey', 'instantiateTemplate', { userId, templateId: id, slug });
     const survey = await this.surveyRepo.createSurvey({
@@ -38,6 +39,7 @@ export class TemplateService {
       status: 'draft',
       pages: template.pages,
       createdBy: userId,
+      workspace: workspaceId,
     } as any);    
     log.info('Template instantiated successfully', 'instantiateTemplate', { 
       userId, 
@@ -59,8 +61,8 @@ export class TemplateService {
     return result;
   }
 
-  async importTemplate(userId: string, payload: any) {
-    log.info('Importing template', 'importTemplate', { userId });
+  async importTemplate(userId: string, workspaceId: string, payload: any) {
+    log.info('Importing template', 'importTemplate', { userId, workspaceId });
 
     const templateData = payload?.template ?? payload?.survey ?? payload;
 
@@ -93,6 +95,14 @@ export class TemplateService {
         : '3-5 minutes';
 
     const pages = Array.isArray(templateData.pages) ? templateData.pages : [];
+    // Surveys made from the template are not validated again, and loop answers are keyed `questionId#itemId`
+    const separatedId = pages
+      .flatMap((page: any) => (Array.isArray(page?.questions) ? page.questions : []))
+      .find((question: any) => typeof question?.id === 'string' && question.id.includes(LOOP_KEY_SEPARATOR));
+    if (separatedId) {
+      log.warn('Template import validation failed: invalid question id', 'importTemplate', { userId, questionId: separatedId.id });
+      throw new Error(`Template question id ${separatedId.id} cannot contain "${LOOP_KEY_SEPARATOR}"`);
+    }
 
     const publicId = new mongoose.Types.ObjectId().toString();
 
@@ -105,6 +115,7 @@ export class TemplateService {
       estimatedTime,
       pages,
       createdBy: new mongoose.Types.ObjectId(userId) as any,
+      workspace: new mongoose.Types.ObjectId(workspaceId) as any,
     });
 
     log.info('Template imported successfully', 'importTemplate', {
@@ -127,6 +138,7 @@ export class TemplateService {
 
   async updateTemplate(
     userId: string,
+    workspaceId: string,
     templateId: string,
     updates: { category?: string; estimatedTime?: string },
   ) {
@@ -157,7 +169,7 @@ export class TemplateService {
       throw new Error('No template fields provided for update');
     }
 
-    const updated = await this.repo.updateTemplateForUser(templateId, userId, updatePayload);
+    const updated = await this.repo.updateTemplateForUser(templateId, userId, workspaceId, updatePayload);
     if (!updated) {
       log.warn('Template not found or not owned by user', 'updateTemplate', { userId, templateId });
       throw new Error('Template not found or you do not have permission to edit it');
@@ -177,10 +189,10 @@ export class TemplateService {
     };
   }
 
-  async deleteTemplate(userId: string, templateId: string) {
-    log.info('Deleting template', 'deleteTemplate', { userId, templateId });
+  async deleteTemplate(userId: string, workspaceId: string, templateId: string) {
+    log.info('Deleting template', 'deleteTemplate', { userId, workspaceId, templateId });
 
-    const deleted = await this.repo.deleteTemplateForUser(templateId, userId);
+    const deleted = await this.repo.deleteTemplateForUser(templateId, userId, workspaceId);
     if (!deleted) {
       log.warn('Template not found or not owned by user', 'deleteTemplate', { userId, templateId });
       throw new Error('Template not found or you do not have permission to delete it');
@@ -0,0 +1,289 @@
+import mongoose from 'mongoose';
+import { WebhookRepository } from '../repository/webhook.repository';
+import { WebhookDeliveryRepository } from '../repository/webhookDelivery.repository';
+import { SurveyRepository } from '../repository/survey.repository';
+import { IWebhook } from '../models/Webhook';
+import { WorkspaceRole } from '../models/Workspace';
+import { WEBHOOK_EVENTS, WEBHOOK_TEST_EVENT, WebhookEvent } from '../shared/webhookEvents';
+import { generateWebhookSecret } from '../utils/webhookSignature';
+import { mayBePublicHost } from '../utils/publicAddress';
+import log from '../logger';
+
+// Who is acting, and in which workspace
+export interface WebhookActor {
+  userId: string;
+  workspaceId: string;
+  workspaceRole?: WorkspaceRole;
+}
+
+// Deliveries leave the server, so only public endpoints are accepted (and only HTTPS in production).
+// Names are resolved again before each delivery; here only local names and IP literals can be rejected
+const validateUrl = (url: unknown): string => {
+  const trimmed = typeof url === 'string' ? url.trim() : '';
+  let parsed: URL;
+  try {
+    parsed = new URL(trimmed);
+  } catch {
+    throw new Error('Validation: Enter a valid URL');
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    throw new Error('Validation: Webhook URLs must use http or https');
+  }
+  if (process.env.NODE_ENV === 'production' && parsed.protocol !== 'https:') {
+    throw new Error('Validation: Webhook URLs must use https');
+  }
+  if (!mayBePublicHost(parsed.hostname)) {
+    throw new Error('Validation: Webhook URLs must point to a public host');
+  }
+  if (trimmed.length > 2048) {
+    throw new Error('Validation: Webhook URL is too long');
+  }
+  return trimmed;
+};
+
+const validateEvents = (events: unknown): WebhookEvent[] => {
+  if (!Array.isArray(events) || events.length === 0) {
+    throw new Error('Validation: Select at least one event');
+  }
+  const unknown = events.filter(event => !WEBHOOK_EVENTS.includes(event));
+  if (unknown.length > 0) {
+    throw new Error(`Validation: Unknown events: ${unknown.join(', ')}`);
+  }
+  return [...new Set(events as WebhookEvent[])];
+};
+
+const validateDescription = (description: unknown): string | undefined => {
+  if (description === undefined || description === null) return undefined;
+  if (typeof description !== 'string' || description.length > 200) {
+    throw new Error('Validation: Description must be 200 characters or fewer');
+  }
+  return description.trim();
+};
+
+const toSummary = (webhook: IWebhook) => {
+  const survey = webhook.survey as any;
+  // A populated survey that no longer exists comes back as null; its id is still known
+  const surveyId = survey?._id ?? webhook.populated('survey') ?? survey;
+  return {
+    id: String(webhook._id),
+    url: webhook.url,
+    description: webhook.description,
+    events: webhook.events,
+    active: webhook.active,
+    survey: surveyId ? { id: String(surveyId), title: survey?.title } : null,
+    createdAt: webhook.createdAt,
+    updatedAt: webhook.updatedAt,
+  };
+};
+
+export class WebhookService {
+  private readonly repo = new WebhookRepository();
+  private readonly deliveryRepo = new WebhookDeliveryRepository();
+  private readonly surveyRepo = new SurveyRepository();
+
+  // Survey webhooks are managed by the survey owner; workspace-wide ones by workspace admins
+  async listWebhooks(actor: WebhookActor, surveyId?: string) {
+    if (surveyId) {
+      await this.assertCanManageSurvey(actor, surveyId);
+    } else {
+      this.assertWorkspaceAdmin(actor);
+    }
+    const webhooks = await this.repo.findAllInWorkspace(actor.workspaceId, surveyId);
+    return webhooks.map(toSummary);
+  }
+
+  async createWebhook(actor: WebhookActor, data: any) {
+    const surveyId = data?.surveyId ? String(data.surveyId) : undefined;
+    if (surveyId) {
+      await this.assertCanManageSurvey(actor, surveyId);
+    } else {
+      this.assertWorkspaceAdmin(actor);
+    }
+    const secret = generateWebhookSecret();
+    const webhook = await this.repo.create({
+      workspace: actor.workspaceId,
+      survey: surveyId ?? null,
+      url: validateUrl(data?.url),
+      description: validateDescription(data?.description),
+      events: validateEvents(data?.events),
+      secret,
+      active: data?.active !== false,
+      createdBy: actor.userId,
+    });
+    log.info('Webhook created', 'createWebhook', {
+      userId: actor.userId,
+      workspaceId: actor.workspaceId,
+      webhookId: String(webhook._id),
+      surveyId,
+    });
+    return { ...toSummary(webhook), secret };
+  }
+
+  async updateWebhook(actor: WebhookActor, webhookId: string, data: any) {
+    await this.findManageable(actor, webhookId);
+    const updates: Partial<Pick<IWebhook, 'url' | 'description' | 'events' | 'active'>> = {};
+    if (data?.url !== undefined) updates.url = validateUrl(data.url);
+    if (data?.description !== undefined) updates.description = validateDescription(data.description);
+    if (data?.events !== undefined) updates.events = validateEvents(data.events);
+    if (data?.active !== undefined) updates.active = Boolean(data.active);
+    if (Object.keys(updates).length === 0) {
+      throw new Error('Validation: No webhook fields provided for update');
+    }
+    const updated = await this.repo.update(webhookId, updates);
+    log.info('Webhook updated', 'updateWebhook', { userId: actor.userId, webhookId, fields: Object.keys(updates) });
+    return toSummary(updated!);
+  }
+
+  async deleteWebhook(actor: WebhookActor, webhookId: string) {
+    await this.findManageable(actor, webhookId);
+    await this.deliveryRepo.deleteByWebhook(webhookId);
+    await this.repo.deleteById(webhookId);
+    log.info('Webhook deleted', 'deleteWebhook', { userId: actor.userId, webhookId });
+  }
+
+  // Survey webhooks go with their survey, together with their queued and past deliveries
+  async deleteBySurvey(surveyId: string) {
+    const webhooks = await this.repo.findBySurvey(surveyId);
+    if (webhooks.length === 0) return;
+    const webhookIds = webhooks.map(webhook => String(webhook._id));
+    await this.deliveryRepo.deleteByWebhooks(webhookIds);
+    await this.repo.deleteBySurvey(surveyId);
+    log.info('Survey webhooks deleted', 'deleteWebhooksBySurvey', { surveyId, count: webhookIds.length });
+  }
+
+  async rotateSecret(actor: WebhookActor, webhookId: string) {
+    await this.findManageable(actor, webhookId);
+    const secret = generateWebhookSecret();
+    await this.repo.update(webhookId, { secret });
+    log.info('Webhook secret rotated', 'rotateSecret', { userId: actor.userId, webhookId });
+    return { secret };
+  }
+
+  async sendTestEvent(actor: WebhookActor, webhookId: string) {
+    const webhook = await this.findManageable(actor, webhookId);
+    const survey = webhook.survey ? await this.surveyRepo.findById(String(webhook.survey)) : null;
+    const [delivery] = await this.enqueue([String(webhook._id)], WEBHOOK_TEST_EVENT, actor.workspaceId, survey, {
+      message: 'This is a test event sent from the webhook settings.',
+    });
+    log.info('Webhook test event queued', 'sendTestEvent', { userId: actor.userId, webhookId });
+    return { deliveryId: String(delivery._id) };
+  }
+
+  async getDeliveries(actor: WebhookActor, webhookId: string, page = 1, limit = 20) {
+    await this.findManageable(actor, webhookId);
+    const safeLimit = Math.max(1, Math.min(limit, 100));
+    const [deliveries, total] = await Promise.all([
+      this.deliveryRepo.findByWebhook(webhookId, (page - 1) * safeLimit, safeLimit),
+      this.deliveryRepo.countByWebhook(webhookId),
+    ]);
+    return {
+      deliveries: deliveries.map(delivery => ({
+        id: String(delivery._id),
+        event: delivery.event,
+        status: delivery.status,
+        attempts: delivery.attempts,
+        responseStatus: delivery.responseStatus,
+        responseBody: delivery.responseBody,
+        error: delivery.error,
+        durationMs: delivery.durationMs,
+        nextAttemptAt: delivery.status === 'pending' ? delivery.nextAttemptAt : undefined,
+        deliveredAt: delivery.deliveredAt,
+        createdAt: delivery.createdAt,
+        payload: delivery.payload,
+      })),
+      pagination: {
+        page,
+        limit: safeLimit,
+        total,
+        totalPages: Math.ceil(total / safeLimit),
+        hasNext: page * safeLimit < total,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  // Queues `event` for every webhook subscribed to it. Never throws: a failing webhook setup must
+  // not break the action that raised the event.
+  async dispatch(event: WebhookEvent, surveyId: string, data: Record<string, unknown>) {
+    try {
+      const survey = await this.surveyRepo.findById(surveyId);
+      if (!survey?.workspace) {
+        return;
+      }
+      const workspaceId = String(survey.workspace);
+      const webhooks = await this.repo.findSubscribed(workspaceId, surveyId, event);
+      if (webhooks.length === 0) {
+        return;
+      }
+      await this.enqueue(webhooks.map(webhook => String(webhook._id)), event, workspaceId, survey, data);
+      log.debug('Webhook event queued', 'dispatchWebhook', { event, surveyId, webhookCount: webhooks.length });
+    } catch (error) {
+      log.error('Failed to queue webhook event', 'dispatchWebhook', {
+        event,
+        surveyId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async enqueue(webhookIds: string[], event: string, workspaceId: string, survey: any, data: Record<string, unknown>) {
+    const createdAt = new Date();
+    return this.deliveryRepo.createMany(webhookIds.map(webhookId => {
+      const _id = new mongoose.Types.ObjectId();
+      return {
+        _id,
+        webhook: webhookId,
+        event,
+        payload: {
+          id: String(_id),
+          event,
+          createdAt: createdAt.toISOString(),
+          workspaceId,
+          survey: survey ? { id: String(survey._id), title: survey.title, slug: survey.slug } : null,
+          data,
+        },
+        status: 'pending' as const,
+        nextAttemptAt: createdAt,
+      };
+    }));
+  }
+
+  private assertWorkspaceAdmin(actor: WebhookActor) {
+    if (actor.workspaceRole !== 'admin') {
+      log.warn('Workspace webhooks require admin', 'webhooks', { userId: actor.userId, workspaceId: actor.workspaceId });
+      throw new Error('Forbidden: Only workspace admins can manage workspace webhooks');
+    }
+  }
+
+  // `allowDeleted` lets admins clean up webhooks whose survey no longer exists
+  private async assertCanManageSurvey(actor: WebhookActor, surveyId: string, allowDeleted = false) {
+    if (actor.workspaceRole === 'admin' && mongoose.Types.ObjectId.isValid(surveyId)) {
+      const survey = await this.surveyRepo.findById(surveyId);
+      if (survey ? String(survey.workspace) === actor.workspaceId : allowDeleted) {
+        return;
+      }
+    }
+    const survey = mongoose.Types.ObjectId.isValid(surveyId)
+      ? await this.surveyRepo.findByIdForUser(surveyId, actor.userId, 'manage')
+      : null;
+    if (!survey || String(survey.workspace) !== actor.workspaceId) {
+      log.warn('Survey not found for webhooks', 'webhooks', { userId: actor.userId, surveyId });
+      throw new Error('Survey not found');
+    }
+  }
+
+  private async findManageable(actor: WebhookActor, webhookId: string) {
+    const webhook = mongoose.Types.ObjectId.isValid(webhookId)
+      ? await this.repo.findInWorkspace(webhookId, actor.workspaceId)
+      : null;
+    if (!webhook) {
+      throw new Error('Webhook not found');
+    }
+    if (webhook.survey) {
+      await this.assertCanManageSurvey(actor, String(webhook.survey), true);
+    } else {
+      this.assertWorkspaceAdmin(actor);
+    }
+    return webhook;
+  }
+}
@@ -0,0 +1,250 @@
+import mongoose from 'mongoose';
+import validator from 'validator';
+import { WorkspaceRepository } from '../repository/workspace.repository';
+import { AuthRepository } from '../repository/auth.repository';
+import { IWorkspace, WORKSPACE_ROLES, WorkspaceRole } from '../models/Workspace';
+import { Survey } from '../models/Survey';
+import { Template } from '../models/Template';
+import { Respondent } from '../models/Respondent';
+import { RespondentGroup } from '../models/RespondentGroup';
+import log from '../logger';
+
+export interface ActiveWorkspace {
+  workspaceId: string;
+  role: WorkspaceRole;
+}
+
+const memberRole = (workspace: IWorkspace, userId: string): WorkspaceRole | null =>
+  workspace.members.find(member => String((member.user as any)?._id ?? member.user) === userId)?.role ?? null;
+
+const validateRole = (role: unknown): WorkspaceRole => {
+  if (!WORKSPACE_ROLES.includes(role as WorkspaceRole)) {
+    throw new Error(`Validation: Role must be one of ${WORKSPACE_ROLES.join(', ')}`);
+  }
+  return role as WorkspaceRole;
+};
+
+const validateName = (name: unknown): string => {
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+  if (!trimmed) {
+    throw new Error('Validation: Workspace name is required');
+  }
+  if (trimmed.length > 100) {
+    throw new Error('Validation: Workspace name must be 100 characters or fewer');
+  }
+  return trimmed;
+};
+
+export class WorkspaceService {
+  private readonly repo = new WorkspaceRepository();
+  private readonly userRepo = new AuthRepository();
+
+  // Workspace the user's dashboard requests are scoped to. Falls back to another membership when
+  // the stored one is gone, and creates a personal workspace for users without any.
+  async resolveActiveWorkspace(user: any): Promise<ActiveWorkspace> {
+    const userId = String(user._id);
+    if (user.activeWorkspace) {
+      const active = await this.repo.findForMember(String(user.activeWorkspace), userId);
+      const role = active ? memberRole(active, userId) : null;
+      if (active && role) {
+        return { workspaceId: String(active._id), role };
+      }
+    }
+
+    const [fallback] = await this.repo.findAllForMember(userId);
+    const workspace = fallback ?? await this.ensurePersonalWorkspace(user);
+    await this.userRepo.setActiveWorkspace(userId, String(workspace._id));
+    return { workspaceId: String(workspace._id), role: memberRole(workspace, userId) ?? 'member' };
+  }
+
+  async ensurePersonalWorkspace(user: any) {
+    const userId = String(user._id);
+    const existing = await this.repo.findPersonal(userId);
+    if (existing) {
+      return existing;
+    }
+    const workspace = await this.repo.create({
+      name: `${user.name || user.email}'s workspace`,
+      personal: true,
+      members: [{ user: user._id, role: 'admin', addedAt: new Date() }],
+      createdBy: user._id,
+    });
+    const adopted = await this.adoptUnscopedData(userId, String(workspace._id));
+    log.info('Personal workspace created', 'ensurePersonalWorkspace', {
+      userId,
+      workspaceId: String(workspace._id),
+      adopted,
+    });
+    return workspace;
+  }
+
+  // Moves a user's surveys, templates, respondents and groups that predate workspaces into `workspaceId`
+  async adoptUnscopedData(userId: string, workspaceId: string) {
+    const owned = { createdBy: new mongoose.Types.ObjectId(userId), workspace: null };
+    const update = { $set: { workspace: new mongoose.Types.ObjectId(workspaceId) } };
+    const results = await Promise.all([
+      Survey.updateMany(owned, update),
+      Template.updateMany(owned, update),
+      Respondent.updateMany(owned, update),
+      RespondentGroup.updateMany(owned, update),
+    ]);
+    return results.reduce((sum, result) => sum + result.modifiedCount, 0);
+  }
+
+  async listWorkspaces(userId: string, activeWorkspaceId?: string) {
+    const workspaces = await this.repo.findAllForMember(userId);
+    return workspaces.map(workspace => ({
+      id: String(workspace._id),
+      name: workspace.name,
+      personal: workspace.personal,
+      role: memberRole(workspace, userId),
+      memberCount: workspace.members.length,
+      active: String(workspace._id) === activeWorkspaceId,
+    }));
+  }
+
+  async createWorkspace(user: any, name: unknown) {
+    const workspace = await this.repo.create({
+      name: validateName(name),
+      personal: false,
+      members: [{ user: user._id, role: 'admin', addedAt: new Date() }],
+      createdBy: user._id,
+    });
+    await this.userRepo.setActiveWorkspace(String(user._id), String(workspace._id));
+    log.info('Workspace created', 'createWorkspace', {
+      userId: String(user._id),
+      workspaceId: String(workspace._id),
+    });
+    return workspace;
+  }
+
+  async switchWorkspace(userId: string, workspaceId: string) {
+    await this.findMembership(userId, workspaceId);
+    await this.userRepo.setActiveWorkspace(userId, workspaceId);
+    log.info('Active workspace switched', 'switchWorkspace', { userId, workspaceId });
+  }
+
+  async renameWorkspace(userId: string, workspaceId: string, name: unknown) {
+    await this.findMembership(userId, workspaceId, 'admin');
+    const workspace = await this.repo.rename(workspaceId, validateName(name));
+    log.info('Workspace renamed', 'renameWorkspace', { userId, workspaceId });
+    return workspace;
+  }
+
+  async getMembers(userId: string, workspaceId: string) {
+    const { role } = await this.findMembership(userId, workspaceId);
+    const workspace = await this.repo.findWithMembers(workspaceId);
+    if (!workspace) {
+      throw new Error('Workspace not found');
+    }
+    return {
+      id: String(workspace._id),
+      name: workspace.name,
+      personal: workspace.personal,
+      role,
+      members: workspace.members.map((member: any) => ({
+        userId: String(member.user?._id ?? member.user),
+        name: member.user?.name,
+        email: member.user?.email,
+        role: member.role,
+        addedAt: member.addedAt,
+        isCreator: String(member.user?._id ?? member.user) === String(workspace.createdBy),
+      })),
+    };
+  }
+
+  async addMember(userId: string, workspaceId: string, email: unknown, role: unknown) {
+    const memberRoleValue = validateRole(role);
+    if (typeof email !== 'string' || !validator.isEmail(email.trim())) {
+      throw new Error('Validation: A valid email is required');
+    }
+    const { workspace } = await this.findMembership(userId, workspaceId, 'admin');
+    if (workspace.personal) {
+      throw new Error('Validation: Personal workspaces cannot have other members; create a shared workspace instead');
+    }
+
+    const normalizedEmail = email.trim().toLowerCase();
+    const user = await this.userRepo.findByEmail(normalizedEmail);
+    if (!user) {
+      throw new Error(`Validation: No account exists for ${normalizedEmail}; they need to sign in once before they can be added`);
+    }
+    const memberId = String(user._id);
+    if (memberRole(workspace, memberId)) {
+      throw new Error(`Validation: ${normalizedEmail} is already a member of this workspace`);
+    }
+
+    await this.repo.addMember(workspaceId, memberId, memberRoleValue);
+    log.info('Workspace member added', 'addMember', { userId, workspaceId, memberId, role: memberRoleValue });
+    return this.getMembers(userId, workspaceId);
+  }
+
+  async updateMemberRole(userId: string, workspaceId: string, memberId: string, role: unknown) {
+    const memberRoleValue = validateRole(role);
+    const { workspace } = await this.findMembership(userId, workspaceId, 'admin');
+    const current = mongoose.Types.ObjectId.isValid(memberId) ? memberRole(workspace, memberId) : null;
+    if (!current) {
+      throw new Error('Member not found');
+    }
+    if (current === 'admin' && memberRoleValue !== 'admin') {
+      this.assertAnotherAdmin(workspace, memberId);
+    }
+
+    await this.repo.updateMemberRole(workspaceId, memberId, memberRoleValue);
+    log.info('Workspace member role updated', 'updateMemberRole', { userId, workspaceId, memberId, role: memberRoleValue });
+    return this.getMembers(userId, workspaceId);
+  }
+
+  // Admins remove members; any member may remove themselves to leave the workspace
+  async removeMember(userId: string, workspaceId: string, memberId: string) {
+    const leaving = memberId === userId;
+    const { workspace } = await this.findMembership(userId, workspaceId, leaving ? undefined : 'admin');
+    const current = mongoose.Types.ObjectId.isValid(memberId) ? memberRole(workspace, memberId) : null;
+    if (!current) {
+      throw new Error('Member not found');
+    }
+    if (workspace.personal && String(workspace.createdBy) === memberId) {
+      throw new Error('Validation: The owner of a personal workspace cannot be removed');
+    }
+    if (current === 'admin') {
+      this.assertAnotherAdmin(workspace, memberId);
+    }
+
+    await this.repo.removeMember(workspaceId, memberId);
+    log.info('Workspace member removed', 'removeMember', { userId, workspaceId, memberId, leaving });
+    return leaving ? null : this.getMembers(userId, workspaceId);
+  }
+
+  async isMember(workspaceId: string, userId: string) {
+    return Boolean(await this.repo.findForMember(workspaceId, userId));
+  }
+
+  async getMemberRole(workspaceId: string, userId: string): Promise<WorkspaceRole | null> {
+    const workspace = await this.repo.findForMember(workspaceId, userId);
+    return workspace ? memberRole(workspace, userId) : null;
+  }
+
+  private assertAnotherAdmin(workspace: IWorkspace, memberId: string) {
+    const otherAdmins = workspace.members.filter(
+      member => member.role === 'admin' && String(member.user) !== memberId
+    );
+    if (otherAdmins.length === 0) {
+      throw new Error('Validation: A workspace needs at least one admin');
+    }
+  }
+
+  private async findMembership(userId: string, workspaceId: string, requiredRole?: WorkspaceRole) {
+    const workspace = mongoose.Types.ObjectId.isValid(workspaceId)
+      ? await this.repo.findForMember(workspaceId, userId)
+      : null;
+    const role = workspace ? memberRole(workspace, userId) : null;
+    if (!workspace || !role) {
+      log.warn('Workspace not found for user', 'findMembership', { userId, workspaceId });
+      throw new Error('Workspace not found');
+    }
+    if (requiredRole && role !== requiredRole) {
+      log.warn('Workspace action requires admin', 'findMembership', { userId, workspaceId, role });
+      throw new Error('Forbidden: Only workspace admins can do this');
+    }
+    return { workspace, role };
+  }
+}
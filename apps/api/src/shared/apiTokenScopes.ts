@@ -0,0 +1,25 @@
+// Scopes of personal API tokens, shared by the API (token checks in requireAuth) and the web app
+// (token settings, imported as `@shared/apiTokenScopes`).
+
+export const API_TOKEN_SCOPES = [
+  'surveys:read',
+  'surveys:write',
+  'responses:read',
+  'respondents:read',
+  'respondents:write',
+] as const;
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number];
+
+export const API_TOKEN_SCOPE_DESCRIPTIONS: Record<ApiTokenScope, string> = {
+  'surveys:read': 'List and read surveys, templates and their versions',
+  'surveys:write': 'Create, update, publish and delete surveys',
+  'responses:read': 'Read responses, analytics and who was invited to each survey',
+  'respondents:read': 'List and read respondents and groups',
+  'respondents:write': 'Manage respondents, groups, survey recipients and invitations',
+};
+
+// Every token starts with this, which lets requireAuth tell it apart from a session JWT
+export const API_TOKEN_PREFIX = 'sab_pat_';
+
+// Choices offered when creating a token; null means it never expires
+export const API_TOKEN_EXPIRY_DAYS = [7, 30, 90, 365, null] as const;
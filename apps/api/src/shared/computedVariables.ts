@@ -0,0 +1,155 @@
+// Computed variables: survey-level values worked out from the answers with a formula, such as
+// "engagement = mean({q1}, {q2}, {q3})". They are re-evaluated as the respondent moves through
+// the survey, can be used in rules and piping as `computed.<name>`, and are stored on submitted
+// responses. Shared by the API (validation, submissions) and the web renderer and builder.
+
+import { ExpressionError, collectReferences, evaluateExpression, parseExpression } from './expression';
+import type { ExpressionNode, ExpressionValue } from './expression';
+import { HIDDEN_FIELD_NAME_PATTERN, HIDDEN_FIELD_PREFIX } from './hiddenFields';
+import type { AnswerMap } from './ruleEngine';
+
+// Also the prefix of piping tokens (`{{computed.score}}`)
+export const COMPUTED_VARIABLE_PREFIX = 'computed.';
+export const MAX_COMPUTED_VARIABLES = 20;
+
+export interface ComputedVariableDefinition {
+  name: string;
+  label?: string;
+  expression: string;
+}
+
+// Values by variable name; variables without a value are left out
+export type ComputedValues = Record<string, Exclude<ExpressionValue, null>>;
+
+export const getComputedVariables = (
+  survey: { computedVariables?: ComputedVariableDefinition[] | null }
+): ComputedVariableDefinition[] =>
+  Array.isArray(survey.computedVariables)
+    ? survey.computedVariables.filter(variable => typeof variable?.name === 'string' && typeof variable.expression === 'string')
+    : [];
+
+export const getComputedVariableLabel = (variable: ComputedVariableDefinition): string =>
+  variable.label?.trim() || variable.name;
+
+// The id rules use in place of a question id
+export const computedVariableKey = (name: string): string => `${COMPUTED_VARIABLE_PREFIX}${name}`;
+
+export const isComputedVariableKey = (id: unknown): id is string =>
+  typeof id === 'string' && id.startsWith(COMPUTED_VARIABLE_PREFIX);
+
+// Parsed once per expression text; the renderer re-evaluates on every answer
+const parsedExpressions = new Map<string, ExpressionNode | null>();
+
+const parseCached = (expression: string): ExpressionNode | null => {
+  if (!parsedExpressions.has(expression)) {
+    let node: ExpressionNode | null = null;
+    try {
+      node = parseExpression(expression);
+    } catch {
+      // Invalid expressions are rejected on save; an old one simply has no value
+    }
+    parsedExpressions.set(expression, node);
+  }
+  return parsedExpressions.get(expression) ?? null;
+};
+
+/**
+ * Evaluates the variables in order against the answers (which may include `hidden.<name>`
+ * entries). A variable can use the variables defined before it.
+ */
+export const evaluateComputedVariables = (
+  variables: ComputedVariableDefinition[],
+  answers: AnswerMap
+): ComputedValues => {
+  const values: ComputedValues = {};
+  for (const variable of variables) {
+    const node = parseCached(variable.expression);
+    if (!node) continue;
+    const value = evaluateExpression(node, ref =>
+      isComputedVariableKey(ref) ? values[ref.slice(COMPUTED_VARIABLE_PREFIX.length)] : answers[ref]
+    );
+    if (value !== null) values[variable.name] = value;
+  }
+  return values;
+};
+
+// Answers plus `computed.<name>` entries, so rules can compare computed variables like answers
+export const withComputedValues = (answers: AnswerMap, variables: ComputedVariableDefinition[]): AnswerMap => {
+  if (variables.length === 0) return answers;
+  const merged: AnswerMap = { ...answers };
+  for (const [name, value] of Object.entries(evaluateComputedVariables(variables, answers))) {
+    merged[computedVariableKey(name)] = value;
+  }
+  return merged;
+};
+
+// Numbers are shown with at most two decimals when piped
+export const formatComputedValue = (value: ExpressionValue | undefined): string => {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'number') return String(Math.round(value * 100) / 100);
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return value;
+};
+
+// The first problem with an expression, or null when it is valid
+export const validateExpression = (expression: string): string | null => {
+  try {
+    parseExpression(expression);
+    return null;
+  } catch (error) {
+    return error instanceof ExpressionError ? error.message : 'Invalid expression';
+  }
+};
+
+/**
+ * Returns the first problem with the definitions, or null when they are valid. Expressions
+ * may refer to questions, hidden fields and variables defined above them, which rules out cycles.
+ * Questions inside loops have one answer per item and cannot be used.
+ */
+export const validateComputedVariableDefinitions = (
+  variables: unknown,
+  questionIds: string[],
+  hiddenFieldNames: string[] = [],
+  loopedQuestionIds: string[] = []
+): string | null => {
+  if (!Array.isArray(variables)) return 'Computed variables must be an array';
+  if (variables.length > MAX_COMPUTED_VARIABLES) return `At most ${MAX_COMPUTED_VARIABLES} computed variables are allowed`;
+  const known = new Set(questionIds);
+  const defined = new Set<string>();
+  for (const variable of variables) {
+    if (!variable || typeof variable !== 'object' || typeof variable.name !== 'string') return 'Computed variables need a name';
+    // Same naming rules as hidden fields: they end up in Mongo field names
+    if (!HIDDEN_FIELD_NAME_PATTERN.test(variable.name)) {
+      return `Computed variable name "${variable.name}" must start with a letter and contain only letters, digits and underscores`;
+    }
+    if (defined.has(variable.name)) return `Computed variable "${variable.name}" is defined twice`;
+    if (variable.label !== undefined && variable.label !== null && typeof variable.label !== 'string') {
+      return 'Computed variable label must be a string';
+    }
+    if (typeof variable.expression !== 'string') return `Computed variable "${variable.name}" needs an expression`;
+
+    let node: ExpressionNode;
+    try {
+      node = parseExpression(variable.expression);
+    } catch (error) {
+      return `Computed variable "${variable.name}": ${error instanceof ExpressionError ? error.message : 'invalid expression'}`;
+    }
+    for (const ref of collectReferences(node)) {
+      if (ref.startsWith(COMPUTED_VARIABLE_PREFIX)) {
+        if (!defined.has(ref.slice(COMPUTED_VARIABLE_PREFIX.length))) {
+          return `Computed variable "${variable.name}" can only use variables defined above it, not {${ref}}`;
+        }
+      } else if (ref.startsWith(HIDDEN_FIELD_PREFIX)) {
+        if (!hiddenFieldNames.includes(ref.slice(HIDDEN_FIELD_PREFIX.length))) {
+          return `Computed variable "${variable.name}" refers to an unknown hidden field {${ref}}`;
+        }
+      } else if (loopedQuestionIds.includes(ref)) {
+        return `Computed variable "${variable.name}" cannot use {${ref}}, which is asked once per loop item`;
+      } else if (!known.has(ref)) {
+        return `Computed variable "${variable.name}" refers to an unknown question {${ref}}`;
+      }
+    }
+    defined.add(variable.name);
+  }
+  return null;
+};
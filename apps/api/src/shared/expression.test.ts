@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ExpressionError,
+  MAX_EXPRESSION_LENGTH,
+  collectReferences,
+  evaluateExpression,
+  parseExpression,
+} from './expression';
+
+const evaluate = (text: string, answers: Record<string, unknown> = {}) =>
+  evaluateExpression(parseExpression(text), ref => answers[ref]);
+
+const parseError = (text: string): string => {
+  try {
+    parseExpression(text);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ExpressionError);
+    return (error as Error).message;
+  }
+  throw new Error(`Expected "${text}" not to parse`);
+};
+
+describe('parseExpression', () => {
+  it('follows operator precedence', () => {
+    expect(evaluate('1 + 2 * 3')).toBe(7);
+    expect(evaluate('(1 + 2) * 3')).toBe(9);
+    expect(evaluate('-2 * -3')).toBe(6);
+    expect(evaluate('1 < 2 and not 3 > 4')).toBe(true);
+    expect(evaluate('false or 1 = 1 and false')).toBe(false);
+  });
+
+  it('accepts the operator aliases', () => {
+    expect(evaluate("1 == 1 && 2 <> 3 || !true")).toBe(true);
+  });
+
+  it('lists references in the order they appear', () => {
+    expect(collectReferences(parseExpression('if({hidden.dept} = "HR", {q_1}, sum({q_2}, {computed.score}))'))).toEqual([
+      'hidden.dept',
+      'q_1',
+      'q_2',
+      'computed.score',
+    ]);
+  });
+
+  it('rejects incomplete and malformed expressions', () => {
+    expect(parseError('   ')).toBe('Expression is empty');
+    expect(parseError('1 +')).toBe('Expression ends too early');
+    expect(parseError('(1 + 2')).toBe('Expected ")"');
+    expect(parseError('1 2')).toBe('Unexpected "2"');
+    expect(parseError("'open")).toBe('Text is missing its closing quote');
+    expect(parseError('{q_1')).toBe('Reference is missing its closing "}"');
+    expect(parseError('{ }')).toBe('Empty reference "{}"');
+    expect(parseError('sum(1, 2')).toBe('Missing ")" after the arguments of sum()');
+  });
+
+  it('checks function names and argument counts', () => {
+    expect(parseError('median(1, 2)')).toBe('Unknown function "median"');
+    expect(parseError('if(true, 1)')).toBe('if() takes 3 arguments');
+    expect(parseError('count()')).toBe('count() takes 1 argument');
+    expect(parseError('round(1, 2, 3)')).toBe('round() takes 1 or 2 arguments');
+    expect(parseError('sum()')).toBe('sum() takes at least 1 arguments');
+  });
+});
+
+describe('hostile expressions', () => {
+  it('does not run JavaScript', () => {
+    expect(parseError('process.exit(1)')).toBe('Unexpected "."');
+    expect(parseError('eval("1")')).toBe('Unknown function "eval"');
+    expect(parseError('require("fs")')).toBe('Unknown function "require"');
+    expect(parseError('x => 1')).toBe('Unknown function "x"');
+    expect(parseError('globalThis')).toBe('Unknown function "globalthis"');
+    expect(parseError('[1, 2]')).toBe('Unexpected "["');
+    expect(parseError('`${1}`')).toBe('Unexpected "`"');
+    expect(parseError('a = 1; b')).toBe('Unexpected ";"');
+  });
+
+  it('does not treat inherited object properties as functions', () => {
+    expect(parseError('constructor(1)')).toBe('Unknown function "constructor"');
+    expect(parseError('__proto__(1)')).toBe('Unknown function "__proto__"');
+    expect(parseError('toString(1)')).toBe('Unknown function "tostring"');
+    expect(parseError('hasOwnProperty(1)')).toBe('Unknown function "hasownproperty"');
+  });
+
+  it('rejects expressions that are too long or nested too deeply', () => {
+    expect(parseError('1+'.repeat(MAX_EXPRESSION_LENGTH) + '1')).toBe(
+      `Expressions can be at most ${MAX_EXPRESSION_LENGTH} characters`
+    );
+    expect(parseError('('.repeat(50) + '1' + ')'.repeat(50))).toBe('Expression is nested too deeply');
+    expect(parseError('-'.repeat(50) + '1')).toBe('Expression is nested too deeply');
+    expect(parseError('not '.repeat(50) + 'true')).toBe('Expression is nested too deeply');
+    expect(parseError('abs('.repeat(50) + '1' + ')'.repeat(50))).toBe('Expression is nested too deeply');
+  });
+
+  it('treats references as data, never as code or property paths', () => {
+    const answers = Object.create(null) as Record<string, unknown>;
+    answers['q_1'] = '1 + 1';
+    expect(evaluate('{q_1}', answers)).toBe('1 + 1');
+    expect(evaluate('{q_1} * 2', answers)).toBeNull();
+    expect(evaluate('{constructor} + 1', answers)).toBeNull();
+    expect(evaluate('count({__proto__})', answers)).toBe(0);
+  });
+
+  it('gives no value for objects and lists smuggled in as answers', () => {
+    const answers = { q_obj: { valueOf: () => 42, toString: () => '42' }, q_list: [1, 2] };
+    expect(evaluate('{q_obj}', answers)).toBeNull();
+    expect(evaluate('{q_obj} + 1', answers)).toBeNull();
+    expect(evaluate('{q_list}', answers)).toBeNull();
+  });
+
+  it('does not produce infinities or NaN', () => {
+    expect(evaluate('1 / 0')).toBeNull();
+    expect(evaluate('1 % 0')).toBeNull();
+    expect(evaluate('{q} * 1', { q: Number.POSITIVE_INFINITY })).toBeNull();
+    expect(evaluate('{q} + 1', { q: 'NaN' })).toBeNull();
+    expect(evaluate(Array(40).fill('999999999').join(' * '))).toBeNull();
+    expect(evaluate('round(1.23456, 1000)')).toBe(1.23456);
+  });
+});
+
+describe('evaluateExpression', () => {
+  const answers = {
+    q_rating: 4,
+    q_text: '12',
+    q_smiley: 'very_happy',
+    q_multi: ['a', 'b', 'c'],
+    q_sum: { a: 30, b: 70 },
+    'hidden.dept': 'HR',
+  };
+
+  it('reads numbers from ratings, numeric text and smileys', () => {
+    expect(evaluate('{q_rating} + {q_text}', answers)).toBe(16);
+    expect(evaluate('{q_smiley} > 4', answers)).toBe(true);
+  });
+
+  it('gives no value for arithmetic on missing answers, and false for comparisons', () => {
+    expect(evaluate('{q_missing} + 1', answers)).toBeNull();
+    expect(evaluate('{q_missing} = 0', answers)).toBe(false);
+    expect(evaluate('{q_missing} != 0', answers)).toBe(false);
+    expect(evaluate('answered({q_missing})', answers)).toBe(false);
+  });
+
+  it('compares text trimmed and case-insensitively', () => {
+    expect(evaluate("{hidden.dept} = ' hr '", answers)).toBe(true);
+    expect(evaluate("{hidden.dept} > 'a'", answers)).toBe(false);
+  });
+
+  it('spreads lists and allocations in aggregate functions and skips missing values', () => {
+    expect(evaluate('sum({q_sum})', answers)).toBe(100);
+    expect(evaluate('mean({q_rating}, {q_missing}, 6)', answers)).toBe(5);
+    expect(evaluate('max({q_sum}, {q_rating})', answers)).toBe(70);
+    expect(evaluate('count({q_multi})', answers)).toBe(3);
+    expect(evaluate("selected({q_multi}, 'b')", answers)).toBe(true);
+    expect(evaluate('sum({q_missing})', answers)).toBeNull();
+  });
+
+  it('only evaluates the branch if() takes', () => {
+    const resolved: string[] = [];
+    const node = parseExpression("if({q_rating} > 3, 'high', {q_other})");
+    expect(evaluateExpression(node, ref => {
+      resolved.push(ref);
+      return (answers as Record<string, unknown>)[ref];
+    })).toBe('high');
+    expect(resolved).toEqual(['q_rating']);
+  });
+});
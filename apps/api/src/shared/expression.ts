@@ -0,0 +1,369 @@
+// A small formula language for computed variables, parsed and evaluated here without `eval`.
+// Shared by the API (validation, scoring submissions) and the web renderer and builder.
+//
+//   {q_123} * 2 + {q_456}           answers, hidden fields ({hidden.dept}) and earlier
+//   mean({q1}, {q2}, {q3})          computed variables ({computed.score}) go in braces
+//   if(count({q_789}) > 2 and {hidden.dept} = 'HR', 'high', 'low')
+//
+// Arithmetic on a missing answer gives no value and comparing one is false; sum, mean, min and
+// max skip missing values.
+
+import { SMILEY_SCORES } from './smileyScale';
+
+export const MAX_EXPRESSION_LENGTH = 1000;
+// Parentheses and function calls can nest this deep
+const MAX_EXPRESSION_DEPTH = 20;
+
+export type ExpressionValue = number | string | boolean | null;
+
+export type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '=' | '!=' | '<' | '<=' | '>' | '>=' | 'and' | 'or';
+
+export type ExpressionNode =
+  | { kind: 'literal'; value: ExpressionValue }
+  // The text between the braces: a question id, `hidden.<name>` or `computed.<name>`
+  | { kind: 'reference'; ref: string }
+  | { kind: 'unary'; operator: '-' | 'not'; operand: ExpressionNode }
+  | { kind: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'call'; name: string; args: ExpressionNode[] };
+
+export class ExpressionError extends Error {}
+
+// Allowed argument counts; `max` undefined means any number
+const FUNCTION_ARITY: Record<string, { min: number; max?: number }> = {
+  sum: { min: 1 },
+  mean: { min: 1 },
+  min: { min: 1 },
+  max: { min: 1 },
+  count: { min: 1, max: 1 },
+  answered: { min: 1, max: 1 },
+  selected: { min: 2, max: 2 },
+  if: { min: 3, max: 3 },
+  round: { min: 1, max: 2 },
+  abs: { min: 1, max: 1 },
+};
+
+export const EXPRESSION_FUNCTIONS = Object.keys(FUNCTION_ARITY);
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'reference'; value: string }
+  | { type: 'identifier'; value: string }
+  | { type: 'operator'; value: string }
+  | { type: 'end' };
+
+const OPERATOR_ALIASES: Record<string, string> = { '==': '=', '&&': 'and', '||': 'or', '!': 'not', '<>': '!=' };
+const OPERATORS = ['<=', '>=', '!=', '<>', '==', '&&', '||', '+', '-', '*', '/', '%', '=', '<', '>', '!', '(', ')', ','];
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[0-9.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)/.exec(text.slice(i));
+      if (!match) throw new ExpressionError(`Unexpected "${char}"`);
+      tokens.push({ type: 'number', value: Number(match[1]) });
+      i += match[1].length;
+    } else if (char === "'" || char === '"') {
+      const end = text.indexOf(char, i + 1);
+      if (end === -1) throw new ExpressionError('Text is missing its closing quote');
+      tokens.push({ type: 'string', value: text.slice(i + 1, end) });
+      i = end + 1;
+    } else if (char === '{') {
+      const end = text.indexOf('}', i + 1);
+      if (end === -1) throw new ExpressionError('Reference is missing its closing "}"');
+      const ref = text.slice(i + 1, end).trim();
+      if (!ref) throw new ExpressionError('Empty reference "{}"');
+      tokens.push({ type: 'reference', value: ref });
+      i = end + 1;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const [word] = /^[A-Za-z_][A-Za-z0-9_]*/.exec(text.slice(i))!;
+      tokens.push({ type: 'identifier', value: word.toLowerCase() });
+      i += word.length;
+    } else {
+      const operator = OPERATORS.find(op => text.startsWith(op, i));
+      if (!operator) throw new ExpressionError(`Unexpected "${char}"`);
+      tokens.push({ type: 'operator', value: OPERATOR_ALIASES[operator] ?? operator });
+      i += operator.length;
+    }
+  }
+  tokens.push({ type: 'end' });
+  return tokens;
+};
+
+/**
+ * Parses an expression into a tree, throwing an ExpressionError that describes the
+ * first problem. Precedence from loosest: or, and, not, comparisons, + -, * / %, unary minus.
+ */
+export const parseExpression = (text: string): ExpressionNode => {
+  if (typeof text !== 'string' || text.trim() === '') throw new ExpressionError('Expression is empty');
+  if (text.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError(`Expressions can be at most ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+  const tokens = tokenize(text);
+  let position = 0;
+  let depth = 0;
+
+  const peek = () => tokens[position];
+  const isOperator = (...values: string[]) => {
+    const token = peek();
+    return (token.type === 'operator' || token.type === 'identifier') && values.includes(token.value);
+  };
+  const next = () => tokens[position++];
+  const expect = (value: string) => {
+    if (!isOperator(value)) throw new ExpressionError(`Expected "${value}"`);
+    next();
+  };
+  const nested = <T>(parse: () => T): T => {
+    if (++depth > MAX_EXPRESSION_DEPTH) throw new ExpressionError('Expression is nested too deeply');
+    const result = parse();
+    depth--;
+    return result;
+  };
+
+  const binaryLevel = (operators: string[], parseOperand: () => ExpressionNode) => (): ExpressionNode => {
+    let left = parseOperand();
+    while (isOperator(...operators)) {
+      const operator = next() as { value: BinaryOperator };
+      left = { kind: 'binary', operator: operator.value, left, right: parseOperand() };
+    }
+    return left;
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = next();
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'reference':
+        return { kind: 'reference', ref: token.value };
+      case 'identifier': {
+        if (token.value === 'true' || token.value === 'false') return { kind: 'literal', value: token.value === 'true' };
+        // Own keys only: `constructor` or `__proto__` must not pass for a function
+        const arity = Object.prototype.hasOwnProperty.call(FUNCTION_ARITY, token.value) ? FUNCTION_ARITY[token.value] : undefined;
+        if (!arity) throw new ExpressionError(`Unknown function "${token.value}"`);
+        expect('(');
+        const args: ExpressionNode[] = [];
+        while (!isOperator(')')) {
+          if (peek().type === 'end') throw new ExpressionError(`Missing ")" after the arguments of ${token.value}()`);
+          if (args.length > 0) expect(',');
+          args.push(nested(parseOr));
+        }
+        expect(')');
+        if (args.length < arity.min || (arity.max !== undefined && args.length > arity.max)) {
+          const expected = arity.max === undefined ? `at least ${arity.min}` : arity.min === arity.max ? `${arity.min}` : `${arity.min} or ${arity.max}`;
+          throw new ExpressionError(`${token.value}() takes ${expected} argument${expected === '1' ? '' : 's'}`);
+        }
+        return { kind: 'call', name: token.value, args };
+      }
+      case 'operator':
+        if (token.value === '(') {
+          const inner = nested(parseOr);
+          expect(')');
+          return inner;
+        }
+        throw new ExpressionError(`Unexpected "${token.value}"`);
+      default:
+        throw new ExpressionError('Expression ends too early');
+    }
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    if (isOperator('-')) {
+      next();
+      return { kind: 'unary', operator: '-', operand: nested(parseUnary) };
+    }
+    return parsePrimary();
+  };
+  const parseMultiplicative = binaryLevel(['*', '/', '%'], parseUnary);
+  const parseAdditive = binaryLevel(['+', '-'], parseMultiplicative);
+  const parseComparison = (): ExpressionNode => {
+    const left = parseAdditive();
+    if (!isOperator('=', '!=', '<', '<=', '>', '>=')) return left;
+    const operator = next() as { value: BinaryOperator };
+    return { kind: 'binary', operator: operator.value, left, right: parseAdditive() };
+  };
+  const parseNot = (): ExpressionNode => {
+    if (isOperator('not')) {
+      next();
+      return { kind: 'unary', operator: 'not', operand: nested(parseNot) };
+    }
+    return parseComparison();
+  };
+  const parseAnd = binaryLevel(['and'], parseNot);
+  const parseOr: () => ExpressionNode = binaryLevel(['or'], parseAnd);
+
+  const tree = parseOr();
+  const rest = peek();
+  if (rest.type !== 'end') throw new ExpressionError(`Unexpected "${'value' in rest ? rest.value : ''}"`);
+  return tree;
+};
+
+// Every reference in the expression, in the order they appear
+export const collectReferences = (node: ExpressionNode): string[] => {
+  switch (node.kind) {
+    case 'reference':
+      return [node.ref];
+    case 'unary':
+      return collectReferences(node.operand);
+    case 'binary':
+      return [...collectReferences(node.left), ...collectReferences(node.right)];
+    case 'call':
+      return node.args.flatMap(collectReferences);
+    default:
+      return [];
+  }
+};
+
+// Answers as numbers: ratings and numeric text as is, smileys as their score, yes/no as 1/0
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string') {
+    if (SMILEY_SCORES[value] !== undefined) return SMILEY_SCORES[value];
+    const n = value.trim() === '' ? Number.NaN : Number(value);
+    return Number.isFinite(n) ? n : null;
+  }
+  return null;
+};
+
+const isMissing = (value: unknown): boolean =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+// Arguments of sum/mean/min/max, with lists and constant-sum allocations spread out
+const numbersOf = (values: unknown[]): number[] =>
+  values
+    .flatMap(value => {
+      if (Array.isArray(value)) return value;
+      if (value && typeof value === 'object') return Object.values(value);
+      return [value];
+    })
+    .map(toNumber)
+    .filter((n): n is number => n !== null);
+
+const isTruthy = (value: unknown): boolean => !isMissing(value) && value !== false && value !== 0;
+
+// Comparisons with a missing answer are false, whatever the operator; use answered() to test for one
+const compare = (operator: BinaryOperator, left: unknown, right: unknown): boolean => {
+  if (isMissing(left) || isMissing(right)) return false;
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (a !== null && b !== null) {
+    switch (operator) {
+      case '=': return a === b;
+      case '!=': return a !== b;
+      case '<': return a < b;
+      case '<=': return a <= b;
+      case '>': return a > b;
+      default: return a >= b;
+    }
+  }
+  // Text compares like rule conditions: trimmed and case-insensitive, equality only
+  const equal = String(left).trim().toLowerCase() === String(right).trim().toLowerCase();
+  if (operator === '=') return equal;
+  if (operator === '!=') return !equal;
+  return false;
+};
+
+const arithmetic = (operator: BinaryOperator, left: unknown, right: unknown): number | null => {
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (a === null || b === null) return null;
+  switch (operator) {
+    case '+': return a + b;
+    case '-': return a - b;
+    case '*': return a * b;
+    case '/': return b === 0 ? null : a / b;
+    default: return b === 0 ? null : a % b;
+  }
+};
+
+const callFunction = (name: string, args: unknown[]): ExpressionValue => {
+  switch (name) {
+    case 'sum': {
+      const numbers = numbersOf(args);
+      return numbers.length > 0 ? numbers.reduce((total, n) => total + n, 0) : null;
+    }
+    case 'mean': {
+      const numbers = numbersOf(args);
+      return numbers.length > 0 ? numbers.reduce((total, n) => total + n, 0) / numbers.length : null;
+    }
+    case 'min':
+    case 'max': {
+      const numbers = numbersOf(args);
+      if (numbers.length === 0) return null;
+      return name === 'min' ? Math.min(...numbers) : Math.max(...numbers);
+    }
+    case 'count': {
+      const [value] = args;
+      if (isMissing(value)) return 0;
+      if (Array.isArray(value)) return value.length;
+      return value && typeof value === 'object' ? Object.keys(value).length : 1;
+    }
+    case 'answered':
+      return !isMissing(args[0]);
+    case 'selected': {
+      const [value, option] = args;
+      const wanted = String(option);
+      return Array.isArray(value) ? value.map(String).includes(wanted) : !isMissing(value) && String(value) === wanted;
+    }
+    case 'round': {
+      const n = toNumber(args[0]);
+      const digits = args.length > 1 ? toNumber(args[1]) : 0;
+      if (n === null || digits === null) return null;
+      const factor = 10 ** Math.min(Math.max(Math.trunc(digits), 0), 10);
+      return Math.round(n * factor) / factor;
+    }
+    case 'abs': {
+      const n = toNumber(args[0]);
+      return n === null ? null : Math.abs(n);
+    }
+    default:
+      return null;
+  }
+};
+
+// Resolves references; objects and lists come back for answers such as multi-choice selections
+export type ReferenceResolver = (ref: string) => unknown;
+
+const evaluateNode = (node: ExpressionNode, resolve: ReferenceResolver): unknown => {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'reference':
+      return resolve(node.ref);
+    case 'unary': {
+      const operand = evaluateNode(node.operand, resolve);
+      if (node.operator === 'not') return !isTruthy(operand);
+      const n = toNumber(operand);
+      return n === null ? null : -n;
+    }
+    case 'binary': {
+      if (node.operator === 'and') return isTruthy(evaluateNode(node.left, resolve)) && isTruthy(evaluateNode(node.right, resolve));
+      if (node.operator === 'or') return isTruthy(evaluateNode(node.left, resolve)) || isTruthy(evaluateNode(node.right, resolve));
+      const left = evaluateNode(node.left, resolve);
+      const right = evaluateNode(node.right, resolve);
+      return ['+', '-', '*', '/', '%'].includes(node.operator)
+        ? arithmetic(node.operator, left, right)
+        : compare(node.operator, left, right);
+    }
+    case 'call':
+      // Only the chosen branch of if() is evaluated
+      if (node.name === 'if') {
+        return evaluateNode(isTruthy(evaluateNode(node.args[0], resolve)) ? node.args[1] : node.args[2], resolve);
+      }
+      return callFunction(node.name, node.args.map(arg => evaluateNode(arg, resolve)));
+  }
+};
+
+// Evaluates to a number, text, true/false or null; answers that are lists or objects give null
+export const evaluateExpression = (node: ExpressionNode, resolve: ReferenceResolver): ExpressionValue => {
+  const value = evaluateNode(node, resolve);
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' || typeof value === 'boolean') return value;
+  return null;
+};
@@ -0,0 +1,97 @@
+// Hidden fields: survey-level values the respondent is never asked for, such as a department or
+// ticket id. They are filled from query parameters on the survey link (`/s/:slug?department=HR`)
+// or from the respondent's invitation, which takes precedence. Rules and piping refer to them as
+// `hidden.<name>`. Shared by the API (sanitizing, rules, exports) and the web renderer and builder.
+
+import type { AnswerMap } from './ruleEngine';
+
+// Also the prefix of piping tokens (`{{hidden.department}}`)
+export const HIDDEN_FIELD_PREFIX = 'hidden.';
+
+// Names double as query parameters and Mongo field names, so no dots or `$`
+export const HIDDEN_FIELD_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]{0,39}$/;
+export const MAX_HIDDEN_FIELDS = 20;
+export const MAX_HIDDEN_FIELD_VALUE_LENGTH = 500;
+
+// Query parameters the survey link already uses for itself
+export const RESERVED_HIDDEN_FIELD_NAMES = ['token', 'preview'];
+
+export interface HiddenFieldDefinition {
+  name: string;
+  label?: string;
+  // Used when neither the link nor the invitation provides a value
+  defaultValue?: string;
+}
+
+export type HiddenFieldValues = Record<string, string>;
+
+export const getHiddenFields = (survey: { hiddenFields?: HiddenFieldDefinition[] | null }): HiddenFieldDefinition[] =>
+  Array.isArray(survey.hiddenFields) ? survey.hiddenFields.filter(field => typeof field?.name === 'string') : [];
+
+export const getHiddenFieldLabel = (field: HiddenFieldDefinition): string => field.label?.trim() || field.name;
+
+// The id rules use in place of a question id
+export const hiddenFieldKey = (name: string): string => `${HIDDEN_FIELD_PREFIX}${name}`;
+
+export const isHiddenFieldKey = (id: unknown): id is string =>
+  typeof id === 'string' && id.startsWith(HIDDEN_FIELD_PREFIX);
+
+const toHiddenValue = (value: unknown): string | undefined => {
+  const raw = Array.isArray(value) ? value[0] : value;
+  if (typeof raw !== 'string' && typeof raw !== 'number' && typeof raw !== 'boolean') return undefined;
+  const text = String(raw).trim().slice(0, MAX_HIDDEN_FIELD_VALUE_LENGTH);
+  return text === '' ? undefined : text;
+};
+
+/**
+ * Keeps the values of defined fields only, as trimmed strings, and fills in defaults.
+ * Later sources win, so pass the query string before the invitation.
+ */
+export const resolveHiddenFieldValues = (
+  fields: HiddenFieldDefinition[],
+  ...sources: Array<Record<string, unknown> | null | undefined>
+): HiddenFieldValues => {
+  const values: HiddenFieldValues = {};
+  for (const field of fields) {
+    let value = toHiddenValue(field.defaultValue);
+    for (const source of sources) {
+      if (!source || !Object.prototype.hasOwnProperty.call(source, field.name)) continue;
+      value = toHiddenValue(source[field.name]) ?? value;
+    }
+    if (value !== undefined) values[field.name] = value;
+  }
+  return values;
+};
+
+// Answers plus `hidden.<name>` entries, so rules can compare hidden fields like answers
+export const withHiddenFieldAnswers = (answers: AnswerMap, hidden?: HiddenFieldValues | null): AnswerMap => {
+  if (!hidden) return answers;
+  const merged: AnswerMap = { ...answers };
+  for (const [name, value] of Object.entries(hidden)) merged[hiddenFieldKey(name)] = value;
+  return merged;
+};
+
+// Returns the first problem with the definitions, or null when they are valid
+export const validateHiddenFieldDefinitions = (fields: unknown): string | null => {
+  if (!Array.isArray(fields)) return 'Hidden fields must be an array';
+  if (fields.length > MAX_HIDDEN_FIELDS) return `At most ${MAX_HIDDEN_FIELDS} hidden fields are allowed`;
+  const seen = new Set<string>();
+  for (const field of fields) {
+    if (!field || typeof field !== 'object' || typeof field.name !== 'string') return 'Hidden fields need a name';
+    if (!HIDDEN_FIELD_NAME_PATTERN.test(field.name)) {
+      return `Hidden field name "${field.name}" must start with a letter and contain only letters, digits and underscores`;
+    }
+    if (RESERVED_HIDDEN_FIELD_NAMES.includes(field.name)) return `"${field.name}" cannot be used as a hidden field name`;
+    if (seen.has(field.name)) return `Hidden field "${field.name}" is defined twice`;
+    seen.add(field.name);
+    for (const key of ['label', 'defaultValue'] as const) {
+      if (field[key] !== undefined && field[key] !== null && typeof field[key] !== 'string') {
+        return `Hidden field ${key} must be a string`;
+      }
+    }
+    if (typeof field.defaultValue === 'string' && field.defaultValue.length > MAX_HIDDEN_FIELD_VALUE_LENGTH) {
+      return `Hidden field default values can be at most ${MAX_HIDDEN_FIELD_VALUE_LENGTH} characters`;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,239 @@
+// Loop blocks: a page, or several consecutive pages, asked once per loop item. The items are the
+// options chosen in an earlier multi-choice question or a fixed list set on the loop. Settings
+// live on the block's first page (`page.loop`). Answers inside a loop are keyed by question and
+// item (`q_123#opt_1`) while the respondent goes, and stored with the item id as the answer's
+// `iteration`. `{{loop.item}}` pipes the current item's text.
+// Shared by the API (validation, submissions, analytics) and the web renderer and builder.
+
+import { getMatrixColumns } from './matrix';
+import type { AnswerMap } from './ruleEngine';
+
+// Also the prefix of piping tokens (`{{loop.item}}`)
+export const LOOP_PIPE_PREFIX = 'loop.';
+export const LOOP_ITEM_PIPE_FIELD = 'item';
+export const MAX_LOOP_ITEMS = 50;
+
+// Surveys with a question id containing it are rejected; the item id is everything after the first one
+export const LOOP_KEY_SEPARATOR = '#';
+const OTHER_OPTION_ID = 'other';
+
+export interface LoopItem {
+  id: string;
+  text: string;
+}
+
+export interface LoopSettings {
+  // Multi-choice question whose selected options are the items
+  sourceQuestionId?: string;
+  // Fixed items, used when there is no source question
+  items?: LoopItem[];
+  // Number of consecutive pages, starting with this one, that repeat per item
+  pageCount?: number;
+}
+
+export interface LoopBlock {
+  startPageIndex: number;
+  // Exclusive
+  endPageIndex: number;
+  loop: LoopSettings;
+}
+
+export interface LoopIssue {
+  pageIndex: number;
+  message: string;
+}
+
+interface LoopQuestion {
+  id: string;
+  type?: string;
+  options?: unknown;
+  settings?: Record<string, unknown> | null;
+}
+
+interface LoopPage {
+  questions?: LoopQuestion[];
+  loop?: LoopSettings | null;
+  branching?: Array<{ action?: { type?: string; targetPageIndex?: number; targetQuestionId?: string } | null } | null>;
+}
+
+// The key of an answer while the survey is filled in; plain question id outside loops
+export const loopAnswerKey = (questionId: string, iteration?: string): string =>
+  iteration === undefined ? questionId : `${questionId}${LOOP_KEY_SEPARATOR}${iteration}`;
+
+export const parseLoopAnswerKey = (key: string): { questionId: string; iteration?: string } => {
+  const index = key.indexOf(LOOP_KEY_SEPARATOR);
+  return index === -1
+    ? { questionId: key }
+    : { questionId: key.slice(0, index), iteration: key.slice(index + LOOP_KEY_SEPARATOR.length) };
+};
+
+const isLoopSettings = (loop: unknown): loop is LoopSettings => !!loop && typeof loop === 'object';
+
+export const getLoopPageCount = (loop: LoopSettings): number => Math.max(1, Math.floor(Number(loop.pageCount) || 1));
+
+// Blocks in page order; a loop set on a page inside another block is ignored
+export const getLoopBlocks = (pages: Array<Pick<LoopPage, 'loop'>>): LoopBlock[] => {
+  const blocks: LoopBlock[] = [];
+  for (let index = 0; index < pages.length; ) {
+    const loop = pages[index]?.loop;
+    if (!isLoopSettings(loop)) {
+      index++;
+      continue;
+    }
+    const endPageIndex = Math.min(pages.length, index + getLoopPageCount(loop));
+    blocks.push({ startPageIndex: index, endPageIndex, loop });
+    index = endPageIndex;
+  }
+  return blocks;
+};
+
+export const findLoopBlock = (blocks: LoopBlock[], pageIndex: number): LoopBlock | undefined =>
+  blocks.find(block => pageIndex >= block.startPageIndex && pageIndex < block.endPageIndex);
+
+export const getBlockQuestionIds = (pages: LoopPage[], block: LoopBlock): string[] =>
+  pages.slice(block.startPageIndex, block.endPageIndex).flatMap(page => (page.questions ?? []).map(question => question.id));
+
+// Ids of every question asked once per loop item
+export const getLoopedQuestionIds = (pages: LoopPage[]): Set<string> =>
+  new Set(getLoopBlocks(pages).flatMap(block => getBlockQuestionIds(pages, block)));
+
+const findQuestion = (pages: LoopPage[], questionId: string | undefined): LoopQuestion | undefined =>
+  questionId ? pages.flatMap(page => page.questions ?? []).find(question => question.id === questionId) : undefined;
+
+const toLoopItems = (items: unknown): LoopItem[] =>
+  (Array.isArray(items) ? items : []).filter(
+    (item): item is LoopItem => typeof item?.id === 'string' && item.id !== '' && typeof item.text === 'string'
+  );
+
+// Every item the loop can have: its fixed list or all options of the source question
+export const getAllLoopItems = (loop: LoopSettings, pages: LoopPage[]): LoopItem[] => {
+  if (!loop.sourceQuestionId) return toLoopItems(loop.items);
+  const source = findQuestion(pages, loop.sourceQuestionId);
+  if (!source) return [];
+  const options = getMatrixColumns(source);
+  return source.settings?.allowOther ? [...options, { id: OTHER_OPTION_ID, text: 'Other' }] : options;
+};
+
+// The items the respondent goes through, in option order for question-driven loops
+export const getLoopItems = (loop: LoopSettings, pages: LoopPage[], answers: AnswerMap): LoopItem[] => {
+  const items = getAllLoopItems(loop, pages);
+  if (!loop.sourceQuestionId) return items;
+  const selected = answers[loop.sourceQuestionId];
+  return Array.isArray(selected) ? items.filter(item => selected.includes(item.id)) : [];
+};
+
+// Labels of the items each looped question can be answered for, for analytics and exports
+export const getLoopItemsByQuestion = (pages: LoopPage[]): Map<string, LoopItem[]> => {
+  const byQuestion = new Map<string, LoopItem[]>();
+  for (const block of getLoopBlocks(pages)) {
+    const items = getAllLoopItems(block.loop, pages);
+    for (const questionId of getBlockQuestionIds(pages, block)) byQuestion.set(questionId, items);
+  }
+  return byQuestion;
+};
+
+// The answers with this iteration's answers to the block's questions under their plain ids,
+// so rules and piping inside the loop refer to the item being asked about
+export const withIterationAnswers = (answers: AnswerMap, questionIds: string[], iteration: string): AnswerMap => {
+  const view: AnswerMap = { ...answers };
+  for (const questionId of questionIds) {
+    const value = answers[loopAnswerKey(questionId, iteration)];
+    if (value === undefined) delete view[questionId];
+    else view[questionId] = value;
+  }
+  return view;
+};
+
+export interface LoopAnswer<T> {
+  questionId: string;
+  value: T;
+  pageIndex: number;
+  iteration?: string;
+}
+
+// Answers keyed by question or loop answer key, as the API stores them; only keys in `visibleKeys` are kept
+export const toStoredAnswers = <T>(pages: LoopPage[], answers: Record<string, T>, visibleKeys: Set<string>): LoopAnswer<T>[] => {
+  const pageOf = new Map<string, number>();
+  pages.forEach((page, pageIndex) => (page.questions ?? []).forEach(question => pageOf.set(question.id, pageIndex)));
+  return Object.entries(answers).flatMap(([key, value]) => {
+    const { questionId, iteration } = parseLoopAnswerKey(key);
+    const pageIndex = pageOf.get(questionId);
+    if (pageIndex === undefined || !visibleKeys.has(key)) return [];
+    return [{ questionId, value, pageIndex, ...(iteration !== undefined && { iteration }) }];
+  });
+};
+
+const validateLoopSettings = (pages: LoopPage[], pageIndex: number, loop: unknown): string | null => {
+  if (!isLoopSettings(loop)) return 'Loop settings must be an object';
+  const { pageCount, sourceQuestionId, items } = loop;
+  if (pageCount !== undefined && (!Number.isInteger(pageCount) || pageCount < 1)) {
+    return 'Loop page count must be a whole number of at least 1';
+  }
+  if (pageIndex + getLoopPageCount(loop) > pages.length) return 'Loop covers more pages than the survey has';
+
+  if (sourceQuestionId !== undefined) {
+    if (typeof sourceQuestionId !== 'string' || sourceQuestionId === '') return 'Loop source must be a question id';
+    const sourcePageIndex = pages.findIndex(page => (page.questions ?? []).some(question => question.id === sourceQuestionId));
+    if (sourcePageIndex === -1) return `Loop source question "${sourceQuestionId}" does not exist`;
+    if (sourcePageIndex >= pageIndex) return 'Loop source question must be on an earlier page';
+    if (findQuestion(pages, sourceQuestionId)?.type !== 'multiChoice') return 'Loops can only repeat for a multi-choice question';
+    if (getLoopedQuestionIds(pages).has(sourceQuestionId)) return 'Loop source question cannot be inside another loop';
+    return null;
+  }
+
+  if (!Array.isArray(items) || items.length === 0) return 'Loop needs a source question or at least one item';
+  if (items.length > MAX_LOOP_ITEMS) return `Loops can have at most ${MAX_LOOP_ITEMS} items`;
+  const ids = new Set<string>();
+  for (const item of items) {
+    if (typeof item?.id !== 'string' || item.id === '' || typeof item.text !== 'string' || !item.text.trim()) {
+      return 'Loop items need an id and text';
+    }
+    if (ids.has(item.id)) return `Loop item id "${item.id}" is used twice`;
+    ids.add(item.id);
+  }
+  return null;
+};
+
+/**
+ * Checks loop settings and how loops fit with the rest of the survey: sources come before
+ * their loop, loops do not overlap, pages in a loop have no branching rules of their own, and
+ * branching elsewhere only enters a loop at its first page.
+ */
+export const validateLoops = (pages: LoopPage[]): LoopIssue[] => {
+  const issues: LoopIssue[] = [];
+  let coveredUntil = 0;
+  pages.forEach((page, pageIndex) => {
+    if (page?.loop === undefined || page.loop === null) return;
+    if (pageIndex < coveredUntil) {
+      issues.push({ pageIndex, message: 'Loops cannot be nested or overlap' });
+      return;
+    }
+    const message = validateLoopSettings(pages, pageIndex, page.loop);
+    if (message) issues.push({ pageIndex, message });
+    else coveredUntil = pageIndex + getLoopPageCount(page.loop);
+  });
+
+  const blocks = getLoopBlocks(pages);
+  const loopedQuestionIds = getLoopedQuestionIds(pages);
+  pages.forEach((page, pageIndex) => {
+    const rules = (page?.branching ?? []).filter(rule => rule?.action?.type);
+    if (rules.length === 0) return;
+    if (findLoopBlock(blocks, pageIndex)) {
+      issues.push({ pageIndex, message: 'Pages in a loop cannot have branching rules' });
+      return;
+    }
+    for (const rule of rules) {
+      const { type, targetPageIndex, targetQuestionId } = rule?.action ?? {};
+      const target = type === 'skip_to_page' && typeof targetPageIndex === 'number' ? findLoopBlock(blocks, targetPageIndex) : undefined;
+      if (target && target.startPageIndex !== targetPageIndex) {
+        issues.push({ pageIndex, message: 'Branching can only skip to the first page of a loop' });
+        return;
+      }
+      if (type === 'skip_to_question' && targetQuestionId && loopedQuestionIds.has(targetQuestionId)) {
+        issues.push({ pageIndex, message: 'Branching cannot skip to a question inside a loop' });
+        return;
+      }
+    }
+  });
+  return issues;
+};
@@ -0,0 +1,57 @@
+// Matrix (Likert grid) questions: rows of statements, each answered on a shared scale of columns.
+// Columns are the question's options and rows live in settings.rows. An answer maps row ids to
+// the selected column id, or to a list of column ids when settings.multiSelect is on.
+// Shared by the API (validation, rules, analytics) and the web renderer and builder.
+
+export interface MatrixItem {
+  id: string;
+  text: string;
+}
+
+export type MatrixAnswer = Record<string, string | string[]>;
+
+export const MATRIX_DEFAULT_ROWS = ['Statement 1', 'Statement 2', 'Statement 3'];
+export const MATRIX_DEFAULT_COLUMNS = ['Strongly disagree', 'Disagree', 'Neutral', 'Agree', 'Strongly agree'];
+
+interface MatrixQuestionLike {
+  options?: unknown;
+  settings?: Record<string, unknown> | null;
+}
+
+const toItems = (items: unknown): MatrixItem[] =>
+  (Array.isArray(items) ? items : [])
+    .map((item: unknown): MatrixItem => {
+      if (typeof item === 'string') return { id: item, text: item };
+      const { id, text } = (item ?? {}) as { id?: unknown; text?: unknown };
+      return { id: String(id ?? ''), text: typeof text === 'string' ? text : '' };
+    })
+    .filter(item => item.id !== '');
+
+export const getMatrixRows = (question: MatrixQuestionLike): MatrixItem[] => toItems(question.settings?.rows);
+
+export const getMatrixColumns = (question: MatrixQuestionLike): MatrixItem[] => toItems(question.options);
+
+export const isMatrixMultiSelect = (question: MatrixQuestionLike): boolean => question.settings?.multiSelect === true;
+
+export const isMatrixAnswer = (value: unknown): value is MatrixAnswer =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// The column(s) picked for one row; undefined when the row was left blank
+export const getMatrixRowAnswer = (value: unknown, rowId: string): string | string[] | undefined => {
+  if (!isMatrixAnswer(value)) return undefined;
+  const answer = value[rowId];
+  if (answer === undefined || answer === null || answer === '' || (Array.isArray(answer) && answer.length === 0)) {
+    return undefined;
+  }
+  return answer;
+};
+
+// Required matrix questions need every row answered, not just one
+export const isMatrixComplete = (question: MatrixQuestionLike, value: unknown): boolean =>
+  getMatrixRows(question).every(row => getMatrixRowAnswer(value, row.id) !== undefined);
+
+// A new matrix question: three placeholder statements rated on a five-point agreement scale
+export const createDefaultMatrix = () => ({
+  options: MATRIX_DEFAULT_COLUMNS.map((text, i) => ({ id: `col_${i + 1}`, text })),
+  settings: { rows: MATRIX_DEFAULT_ROWS.map((text, i) => ({ id: `row_${i + 1}`, text })), multiSelect: false },
+});
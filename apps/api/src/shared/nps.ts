@@ -0,0 +1,39 @@
+// Net Promoter Score: the 0-10 likelihood-to-recommend scale and how answers are grouped.
+// Shared by the API (validation, analytics) and the web renderer and results.
+
+export const NPS_MIN = 0;
+export const NPS_MAX = 10;
+
+// 9-10 are promoters, 7-8 passives and 0-6 detractors
+export const NPS_PROMOTER_MIN = 9;
+export const NPS_PASSIVE_MIN = 7;
+
+export const NPS_DEFAULT_LABELS = { min: 'Not at all likely', max: 'Extremely likely' } as const;
+
+export type NpsCategory = 'promoter' | 'passive' | 'detractor';
+
+export const getNpsCategory = (score: number): NpsCategory => {
+  if (score >= NPS_PROMOTER_MIN) return 'promoter';
+  if (score >= NPS_PASSIVE_MIN) return 'passive';
+  return 'detractor';
+};
+
+export interface NpsBreakdown {
+  promoters: number;
+  passives: number;
+  detractors: number;
+  responses: number;
+  // Percentage of promoters minus percentage of detractors, from -100 to 100; null without answers
+  score: number | null;
+}
+
+export const summarizeNps = (promoters: number, passives: number, detractors: number): NpsBreakdown => {
+  const responses = promoters + passives + detractors;
+  return {
+    promoters,
+    passives,
+    detractors,
+    responses,
+    score: responses > 0 ? Math.round(((promoters - detractors) / responses) * 1000) / 10 : null,
+  };
+};
@@ -0,0 +1,67 @@
+// Numeric-entry questions. `number` answers are a single number, optionally bounded by
+// settings.minValue/maxValue, rounded to settings.decimals places and shown with settings.unit.
+// `constantSum` answers map option ids to non-negative amounts that add up to settings.sumTotal.
+// Shared by the API (validation, analytics) and the web renderer and builder.
+
+export type ConstantSumAnswer = Record<string, number>;
+
+export const CONSTANT_SUM_DEFAULT_TOTAL = 100;
+
+// Sums are compared with a tolerance so decimal amounts like 33.3 + 33.3 + 33.4 still add up
+const SUM_TOLERANCE = 1e-6;
+
+interface NumericQuestionLike {
+  settings?: Record<string, unknown> | null;
+}
+
+export interface NumberSettings {
+  min?: number;
+  max?: number;
+  decimals: number;
+  unit: string;
+}
+
+const finiteOrUndefined = (value: unknown): number | undefined => {
+  if (value === null || value === undefined || value === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+export const getNumberSettings = (question: NumericQuestionLike): NumberSettings => {
+  const decimals = Number(question.settings?.decimals);
+  const unit = question.settings?.unit;
+  return {
+    min: finiteOrUndefined(question.settings?.minValue),
+    max: finiteOrUndefined(question.settings?.maxValue),
+    decimals: Number.isInteger(decimals) && decimals > 0 ? Math.min(decimals, 10) : 0,
+    unit: typeof unit === 'string' ? unit.trim() : '',
+  };
+};
+
+// Decimal places written in a number, e.g. 2 for 1.25; exponent notation counts as its digits
+export const countDecimals = (value: number): number => {
+  const [mantissa, exponent] = String(value).toLowerCase().split('e');
+  const digits = (mantissa.split('.')[1] ?? '').length;
+  return Math.max(0, digits - Number(exponent ?? 0));
+};
+
+export const formatNumberAnswer = (value: number, settings: NumberSettings): string => {
+  const text = value.toFixed(settings.decimals);
+  return settings.unit ? `${text} ${settings.unit}` : text;
+};
+
+export const getConstantSumTotal = (question: NumericQuestionLike): number => {
+  const total = Number(question.settings?.sumTotal);
+  return Number.isFinite(total) && total > 0 ? total : CONSTANT_SUM_DEFAULT_TOTAL;
+};
+
+export const isConstantSumAnswer = (value: unknown): value is ConstantSumAnswer =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+export const sumConstantSumAnswer = (value: unknown): number =>
+  isConstantSumAnswer(value)
+    ? Object.values(value).reduce((sum, amount) => sum + (Number.isFinite(Number(amount)) ? Number(amount) : 0), 0)
+    : 0;
+
+export const isConstantSumComplete = (question: NumericQuestionLike, value: unknown): boolean =>
+  Math.abs(sumConstantSumAnswer(value) - getConstantSumTotal(question)) < SUM_TOLERANCE;
@@ -0,0 +1,262 @@
+// Answer piping: `{{token}}` placeholders in question titles, descriptions, option and row
+// text and branching messages are replaced with earlier answers while the respondent fills in
+// the survey. Tokens are a question id (`{{q_123}}`), a respondent profile field
+// (`{{Respondent.name}}`), a hidden field (`{{hidden.department}}`), a computed variable
+// (`{{computed.score}}`) or, on pages in a loop, the current loop item (`{{loop.item}}`);
+// `{{q_123|fallback}}` shows the fallback until there is a value. Option ids are shown as their text.
+// Shared by the API (validation, quiz messages) and the web renderer, preview and builder.
+
+import { SMILEY_LABELS } from './smileyScale';
+import { getMatrixColumns, getMatrixRows, isMatrixAnswer } from './matrix';
+import { formatNumberAnswer, getNumberSettings, isConstantSumAnswer } from './numeric';
+import { HIDDEN_FIELD_PREFIX } from './hiddenFields';
+import { COMPUTED_VARIABLE_PREFIX, formatComputedValue } from './computedVariables';
+import type { ComputedValues } from './computedVariables';
+import { LOOP_ITEM_PIPE_FIELD, LOOP_PIPE_PREFIX, findLoopBlock, getLoopBlocks } from './loops';
+import type { LoopSettings } from './loops';
+
+export const RESPONDENT_PIPE_FIELDS = ['name', 'email', 'employeeId'] as const;
+export type RespondentPipeField = (typeof RESPONDENT_PIPE_FIELDS)[number];
+export type RespondentProfile = Partial<Record<RespondentPipeField, string>>;
+
+const RESPONDENT_PREFIX = 'Respondent.';
+const OTHER_OPTION_ID = 'other';
+
+const PIPE_PATTERN = /\{\{([^{}]*)\}\}/g;
+
+export type PipeReference =
+  | { kind: 'question'; questionId: string }
+  | { kind: 'respondent'; field: string }
+  | { kind: 'hidden'; name: string }
+  | { kind: 'computed'; name: string }
+  | { kind: 'loop'; field: string };
+
+export interface PipingQuestion {
+  id: string;
+  type?: string;
+  title?: string;
+  description?: string;
+  options?: unknown;
+  settings?: Record<string, unknown> | null;
+}
+
+export interface PipingContext {
+  questions: Map<string, PipingQuestion>;
+  answers: Record<string, unknown>;
+  respondent?: RespondentProfile | null;
+  hidden?: Record<string, string>;
+  computed?: ComputedValues;
+  // Text of the loop item the page is shown for
+  loopItem?: string;
+}
+
+export interface PipingIssue {
+  pageIndex: number;
+  questionId?: string;
+  message: string;
+}
+
+interface PipingPage {
+  questions: PipingQuestion[];
+  branching?: Array<{ action?: { message?: string } | null }>;
+  loop?: LoopSettings | null;
+}
+
+export const parsePipeToken = (token: string): PipeReference => {
+  const name = token.trim();
+  if (name.startsWith(RESPONDENT_PREFIX)) return { kind: 'respondent', field: name.slice(RESPONDENT_PREFIX.length) };
+  if (name.startsWith(HIDDEN_FIELD_PREFIX)) return { kind: 'hidden', name: name.slice(HIDDEN_FIELD_PREFIX.length) };
+  if (name.startsWith(COMPUTED_VARIABLE_PREFIX)) return { kind: 'computed', name: name.slice(COMPUTED_VARIABLE_PREFIX.length) };
+  if (name.startsWith(LOOP_PIPE_PREFIX)) return { kind: 'loop', field: name.slice(LOOP_PIPE_PREFIX.length) };
+  return { kind: 'question', questionId: name };
+};
+
+// Every placeholder in the text, split into its reference and optional fallback
+export const findPipes = (text: unknown): Array<{ reference: PipeReference; fallback: string }> => {
+  if (typeof text !== 'string' || !text.includes('{{')) return [];
+  return Array.from(text.matchAll(PIPE_PATTERN), match => {
+    const [token, ...fallback] = match[1].split('|');
+    return { reference: parsePipeToken(token), fallback: fallback.join('|').trim() };
+  });
+};
+
+const optionTextOf = (question: PipingQuestion): Map<string, string> => {
+  const texts = new Map(getMatrixColumns(question).map(option => [option.id, option.text]));
+  if (question.settings?.allowOther) texts.set(OTHER_OPTION_ID, 'Other');
+  return texts;
+};
+
+// An answer as respondents read it: option ids become their text, lists are comma separated
+export const formatPipedAnswer = (question: PipingQuestion, value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  const optionText = optionTextOf(question);
+  const textOf = (id: unknown) => optionText.get(String(id)) ?? String(id);
+
+  switch (question.type) {
+    case 'singleChoice':
+    case 'dropdown':
+      return textOf(value);
+    case 'multiChoice':
+    case 'ranking':
+      return Array.isArray(value) ? value.map(textOf).join(', ') : textOf(value);
+    case 'ratingSmiley':
+      return SMILEY_LABELS[String(value)] ?? String(value);
+    case 'number':
+      return typeof value === 'number' ? formatNumberAnswer(value, getNumberSettings(question)) : String(value);
+    case 'constantSum':
+      return isConstantSumAnswer(value)
+        ? Object.entries(value).map(([optionId, amount]) => `${textOf(optionId)}: ${amount}`).join(', ')
+        : '';
+    case 'matrix': {
+      if (!isMatrixAnswer(value)) return '';
+      return getMatrixRows(question)
+        .filter(row => value[row.id] !== undefined)
+        .map(row => {
+          const cell = value[row.id];
+          return `${row.text}: ${(Array.isArray(cell) ? cell : [cell]).map(textOf).join(', ')}`;
+        })
+        .join('; ');
+    }
+    case 'fileUpload':
+      return (Array.isArray(value) ? value : [value])
+        .map(file => (file && typeof file === 'object' ? String((file as { name?: unknown }).name ?? '') : String(file)))
+        .filter(Boolean)
+        .join(', ');
+    default:
+      if (Array.isArray(value)) return value.map(String).join(', ');
+      return typeof value === 'object' ? '' : String(value);
+  }
+};
+
+const resolvePipe = (reference: PipeReference, context: PipingContext): string => {
+  switch (reference.kind) {
+    case 'respondent':
+      return context.respondent?.[reference.field as RespondentPipeField] ?? '';
+    case 'hidden':
+      return context.hidden?.[reference.name] ?? '';
+    case 'computed':
+      return formatComputedValue(context.computed?.[reference.name]);
+    case 'loop':
+      return context.loopItem ?? '';
+    default: {
+      const question = context.questions.get(reference.questionId);
+      return question ? formatPipedAnswer(question, context.answers[reference.questionId]) : '';
+    }
+  }
+};
+
+// Replaces each placeholder with its value, its fallback, or nothing
+export const pipeText = (text: string, context: PipingContext): string => {
+  if (!text.includes('{{')) return text;
+  return text.replace(PIPE_PATTERN, (_, inner: string) => {
+    const [token, ...fallback] = inner.split('|');
+    return resolvePipe(parsePipeToken(token), context) || fallback.join('|').trim();
+  });
+};
+
+const pipeOptional = (text: string | undefined, context: PipingContext): string | undefined =>
+  typeof text === 'string' ? pipeText(text, context) : text;
+
+export const buildPipingContext = (
+  pages: Array<{ questions?: PipingQuestion[] }>,
+  answers: Record<string, unknown>,
+  extras: Pick<PipingContext, 'respondent' | 'hidden' | 'computed' | 'loopItem'> = {}
+): PipingContext => ({
+  questions: new Map(pages.flatMap(page => page.questions ?? []).map(question => [question.id, question])),
+  answers,
+  ...extras,
+});
+
+const pipeItems = <T>(items: unknown, context: PipingContext): T =>
+  (Array.isArray(items)
+    ? items.map(item => (item && typeof item === 'object' && 'text' in item ? { ...item, text: pipeText(String(item.text ?? ''), context) } : item))
+    : items) as T;
+
+// A copy of the question with its title, description, option and matrix row text piped
+export const pipeQuestion = <T extends PipingQuestion>(question: T, context: PipingContext): T => ({
+  ...question,
+  title: pipeOptional(question.title, context),
+  description: pipeOptional(question.description, context),
+  options: pipeItems(question.options, context),
+  ...(Array.isArray(question.settings?.rows) && {
+    settings: { ...question.settings, rows: pipeItems(question.settings?.rows, context) },
+  }),
+});
+
+/**
+ * Checks that piped questions exist and come before the text that shows them (a question
+ * cannot show its own answer), and that respondent fields, hidden fields and computed variables
+ * are known. Branching messages may show any question up to the end of their page. Loop items
+ * and questions inside a loop can only be piped on that loop's pages.
+ */
+export const validatePiping = (
+  pages: PipingPage[],
+  hiddenFieldNames: string[] = [],
+  computedVariableNames: string[] = []
+): PipingIssue[] => {
+  const position = new Map<string, { pageIndex: number; index: number }>();
+  pages.forEach((page, pageIndex) =>
+    (page.questions ?? []).forEach((question, index) => position.set(question.id, { pageIndex, index }))
+  );
+  const loopBlocks = getLoopBlocks(pages);
+
+  const check = (text: unknown, pageIndex: number, questionId?: string): string | null => {
+    for (const { reference } of findPipes(text)) {
+      if (reference.kind === 'respondent') {
+        if (!(RESPONDENT_PIPE_FIELDS as readonly string[]).includes(reference.field)) {
+          return `Unknown respondent field "${reference.field}"`;
+        }
+        continue;
+      }
+      if (reference.kind === 'hidden') {
+        if (!reference.name) return 'Hidden field name is missing';
+        if (!hiddenFieldNames.includes(reference.name)) return `Unknown hidden field "${reference.name}"`;
+        continue;
+      }
+      if (reference.kind === 'computed') {
+        if (!computedVariableNames.includes(reference.name)) return `Unknown computed variable "${reference.name}"`;
+        continue;
+      }
+      if (reference.kind === 'loop') {
+        if (reference.field !== LOOP_ITEM_PIPE_FIELD) return `Unknown loop field "${reference.field}"`;
+        if (!findLoopBlock(loopBlocks, pageIndex)) return 'The loop item can only be piped on pages in a loop';
+        continue;
+      }
+      const target = position.get(reference.questionId);
+      if (!target) return `Piped question "${reference.questionId}" does not exist`;
+      const targetBlock = findLoopBlock(loopBlocks, target.pageIndex);
+      if (targetBlock && targetBlock !== findLoopBlock(loopBlocks, pageIndex)) {
+        return `Piped question "${reference.questionId}" is inside a loop and can only be piped within it`;
+      }
+      if (questionId === undefined) {
+        if (target.pageIndex > pageIndex) return 'Messages can only show answers from this page or earlier pages';
+        continue;
+      }
+      const own = position.get(questionId)!;
+      if (target.pageIndex > own.pageIndex || (target.pageIndex === own.pageIndex && target.index >= own.index)) {
+        return `Piped question "${reference.questionId}" must come before this question`;
+      }
+    }
+    return null;
+  };
+
+  const issues: PipingIssue[] = [];
+  pages.forEach((page, pageIndex) => {
+    for (const question of page.questions ?? []) {
+      const rows = Array.isArray(question.settings?.rows) ? question.settings.rows : [];
+      const texts = [question.title, question.description, ...[...(Array.isArray(question.options) ? question.options : []), ...rows].map(item => item?.text)];
+      for (const text of texts) {
+        const message = check(text, pageIndex, question.id);
+        if (message) {
+          issues.push({ pageIndex, questionId: question.id, message });
+          break;
+        }
+      }
+    }
+    for (const rule of page.branching ?? []) {
+      const message = check(rule.action?.message, pageIndex);
+      if (message) issues.push({ pageIndex, message });
+    }
+  });
+  return issues;
+};
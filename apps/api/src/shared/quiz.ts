@@ -0,0 +1,210 @@
+// Quiz mode: choice, dropdown and number questions can carry a correct answer
+// (settings.correctAnswer), a point value (settings.points, default 1) and an explanation
+// shown as feedback. Only scored questions on the respondent's visible path count.
+// Shared by the API (scoring, analytics) and the web builder and thank-you page.
+
+import { computeVisiblePath } from './ruleEngine';
+import type { ComputedVariableDefinition } from './computedVariables';
+import type { AnswerMap, RulePage } from './ruleEngine';
+
+export const QUIZ_QUESTION_TYPES = ['singleChoice', 'multiChoice', 'dropdown', 'number'] as const;
+
+export const QUIZ_DEFAULT_PASS_PERCENT = 50;
+
+// Number answers within this distance of the correct answer are accepted
+const NUMBER_TOLERANCE = 1e-9;
+
+export interface QuizSettings {
+  enabled: boolean;
+  // Share of the maximum score, 0-100, needed to pass
+  passPercent: number;
+  passMessage?: string;
+  failMessage?: string;
+  showScore: boolean;
+  // Show each question's result, correct answer and explanation after submitting
+  showFeedback: boolean;
+}
+
+export type QuizCorrectAnswer = string | string[] | number;
+
+interface QuizQuestionLike {
+  id: string;
+  type?: string;
+  title?: string;
+  options?: unknown;
+  settings?: Record<string, unknown> | null;
+}
+
+export interface QuizQuestionResult {
+  questionId: string;
+  correct: boolean;
+  earned: number;
+  points: number;
+}
+
+export interface QuizScore {
+  score: number;
+  maxScore: number;
+  // 0-100, rounded to one decimal place
+  percent: number;
+  passed: boolean;
+  questions: QuizQuestionResult[];
+}
+
+export interface QuizFeedback extends QuizQuestionResult {
+  title: string;
+  // Option texts, or the number, the respondent should have answered
+  correctAnswer: string[];
+  explanation?: string;
+}
+
+// What the respondent sees after submitting, limited by the survey's quiz settings
+export interface QuizOutcome {
+  passed: boolean;
+  message?: string;
+  score?: number;
+  maxScore?: number;
+  percent?: number;
+  feedback?: QuizFeedback[];
+}
+
+const isQuizQuestionType = (type: unknown): boolean =>
+  (QUIZ_QUESTION_TYPES as readonly unknown[]).includes(type);
+
+export const getQuizSettings = (survey: { quiz?: Partial<QuizSettings> | null }): QuizSettings => {
+  const quiz = survey.quiz ?? {};
+  const passPercent = Number(quiz.passPercent);
+  return {
+    enabled: quiz.enabled === true,
+    passPercent: Number.isFinite(passPercent) ? Math.min(Math.max(passPercent, 0), 100) : QUIZ_DEFAULT_PASS_PERCENT,
+    passMessage: quiz.passMessage || undefined,
+    failMessage: quiz.failMessage || undefined,
+    showScore: quiz.showScore !== false,
+    showFeedback: quiz.showFeedback === true,
+  };
+};
+
+// The correct answer in the shape the question type answers with, or undefined when none is set
+export const getCorrectAnswer = (question: QuizQuestionLike): QuizCorrectAnswer | undefined => {
+  const answer = question.settings?.correctAnswer;
+  switch (question.type) {
+    case 'singleChoice':
+    case 'dropdown':
+      return typeof answer === 'string' && answer !== '' ? answer : undefined;
+    case 'multiChoice':
+      return Array.isArray(answer) && answer.length > 0 && answer.every(id => typeof id === 'string')
+        ? answer
+        : undefined;
+    case 'number':
+      return typeof answer === 'number' && Number.isFinite(answer) ? answer : undefined;
+    default:
+      return undefined;
+  }
+};
+
+export const isScoredQuestion = (question: QuizQuestionLike): boolean =>
+  isQuizQuestionType(question.type) && getCorrectAnswer(question) !== undefined;
+
+export const getQuestionPoints = (question: QuizQuestionLike): number => {
+  const points = Number(question.settings?.points);
+  return Number.isFinite(points) && points >= 0 ? points : 1;
+};
+
+// Multiple-choice answers must select exactly the correct options
+export const isAnswerCorrect = (question: QuizQuestionLike, value: unknown): boolean => {
+  const correct = getCorrectAnswer(question);
+  if (correct === undefined) return false;
+  if (typeof correct === 'number') {
+    return typeof value === 'number' && Math.abs(value - correct) < NUMBER_TOLERANCE;
+  }
+  if (Array.isArray(correct)) {
+    if (!Array.isArray(value)) return false;
+    const selected = new Set(value);
+    return selected.size === correct.length && correct.every(id => selected.has(id));
+  }
+  return value === correct;
+};
+
+const roundPercent = (value: number): number => Math.round(value * 10) / 10;
+
+/**
+ * Scores the answers against the survey's correct answers. Questions the
+ * respondent never saw (hidden or skipped by branching) are left out of the
+ * maximum score rather than counted as wrong.
+ */
+export const scoreQuiz = (
+  pages: Array<RulePage & { questions: QuizQuestionLike[] }>,
+  answers: AnswerMap,
+  passPercent: number,
+  computedVariables: ComputedVariableDefinition[] = []
+): QuizScore => {
+  const { visibleQuestionIds } = computeVisiblePath(pages, answers, computedVariables);
+  const questions: QuizQuestionResult[] = [];
+  for (const page of pages) {
+    for (const question of page.questions || []) {
+      if (!visibleQuestionIds.has(question.id) || !isScoredQuestion(question)) continue;
+      const points = getQuestionPoints(question);
+      const correct = isAnswerCorrect(question, answers[question.id]);
+      questions.push({ questionId: question.id, correct, earned: correct ? points : 0, points });
+    }
+  }
+  const score = questions.reduce((sum, q) => sum + q.earned, 0);
+  const maxScore = questions.reduce((sum, q) => sum + q.points, 0);
+  const percent = maxScore > 0 ? roundPercent((score / maxScore) * 100) : 0;
+  return { score, maxScore, percent, passed: percent >= passPercent, questions };
+};
+
+const describeCorrectAnswer = (question: QuizQuestionLike): string[] => {
+  const correct = getCorrectAnswer(question);
+  if (correct === undefined) return [];
+  if (typeof correct === 'number') return [String(correct)];
+  const options = Array.isArray(question.options) ? question.options : [];
+  const textOf = (id: string) => {
+    const option = options.find(opt => opt?.id === id || opt === id);
+    return typeof option === 'string' ? option : option?.text ?? id;
+  };
+  return (Array.isArray(correct) ? correct : [correct]).map(textOf);
+};
+
+// Builds the respondent-facing result, hiding the score or feedback when the survey does not show them
+export const buildQuizOutcome = (
+  pages: Array<{ questions: QuizQuestionLike[] }>,
+  result: QuizScore,
+  settings: QuizSettings
+): QuizOutcome => {
+  const outcome: QuizOutcome = {
+    passed: result.passed,
+    message: result.passed ? settings.passMessage : settings.failMessage,
+  };
+  if (settings.showScore) {
+    outcome.score = result.score;
+    outcome.maxScore = result.maxScore;
+    outcome.percent = result.percent;
+  }
+  if (settings.showFeedback) {
+    const questions = new Map(pages.flatMap(page => page.questions || []).map(q => [q.id, q]));
+    outcome.feedback = result.questions.map(item => {
+      const question = questions.get(item.questionId);
+      const explanation = question?.settings?.explanation;
+      return {
+        ...item,
+        title: question?.title ?? '',
+        correctAnswer: question ? describeCorrectAnswer(question) : [],
+        explanation: typeof explanation === 'string' && explanation.trim() ? explanation : undefined,
+      };
+    });
+  }
+  return outcome;
+};
+
+// Copies the pages without correct answers and explanations, for respondents taking the quiz
+export const stripQuizAnswers = <T extends { questions?: unknown[] }>(pages: T[]): T[] =>
+  pages.map(page => ({
+    ...page,
+    questions: (page.questions || []).map(question => {
+      const q = question as QuizQuestionLike;
+      if (!q?.settings || !('correctAnswer' in q.settings || 'explanation' in q.settings)) return question;
+      const { correctAnswer: _correctAnswer, explanation: _explanation, ...settings } = q.settings;
+      return { ...q, settings };
+    }),
+  }));
@@ -0,0 +1,22 @@
+// Ranking questions: respondents order the question's options, optionally only their top N.
+// An answer is the list of ranked option ids, first choice first.
+// Shared by the API (validation, analytics) and the web renderer and builder.
+
+interface RankingQuestionLike {
+  options?: unknown;
+  settings?: Record<string, unknown> | null;
+}
+
+const countOptions = (question: RankingQuestionLike): number =>
+  Array.isArray(question.options) ? question.options.length : 0;
+
+// How many positions a respondent fills in: rankTopN when set, otherwise every option
+export const getRankingLength = (question: RankingQuestionLike): number => {
+  const optionCount = countOptions(question);
+  const topN = Number(question.settings?.rankTopN);
+  return Number.isInteger(topN) && topN > 0 ? Math.min(topN, optionCount) : optionCount;
+};
+
+// Borda count: with N ranked positions, first place earns N points and the last ranked place 1
+export const getBordaPoints = (position: number, rankedPositions: number): number =>
+  position >= 0 && position < rankedPositions ? rankedPositions - position : 0;
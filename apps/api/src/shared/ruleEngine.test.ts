@@ -0,0 +1,240 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_RULE_DEPTH,
+  computeVisiblePath,
+  evaluateCondition,
+  evaluateRules,
+  isQuestionVisible,
+  resolveBranching,
+  validateSurveyRules,
+  type RuleNode,
+  type RulePage,
+} from './ruleEngine';
+
+const rule = (questionId: string, operator: any, value: unknown, logical?: 'AND' | 'OR'): RuleNode => ({
+  questionId,
+  condition: { operator, value },
+  logical,
+});
+
+describe('evaluateCondition', () => {
+  it('compares text case-insensitively and numbers numerically', () => {
+    expect(evaluateCondition('equals', ' Yes ', 'yes')).toBe(true);
+    expect(evaluateCondition('equals', '5', 5)).toBe(true);
+    expect(evaluateCondition('not_equals', 'no', 'yes')).toBe(true);
+    expect(evaluateCondition('greater_than', 3, '4')).toBe(true);
+    expect(evaluateCondition('less_than', 3, 4)).toBe(false);
+  });
+
+  it('scores smiley answers for numeric comparisons', () => {
+    expect(evaluateCondition('greater_than', 3, 'very_happy')).toBe(true);
+    expect(evaluateCondition('less_than', 3, 'very_sad')).toBe(true);
+  });
+
+  it('matches selections and counts of multi-choice answers', () => {
+    expect(evaluateCondition('has_selected', 'b', ['a', 'b'])).toBe(true);
+    expect(evaluateCondition('contains', 'c', ['a', 'b'])).toBe(false);
+    expect(evaluateCondition('count_eq', 2, ['a', 'b'])).toBe(true);
+    expect(evaluateCondition('count_gt', 2, ['a', 'b'])).toBe(false);
+    expect(evaluateCondition('count_lt', 1, 'a')).toBe(true);
+  });
+
+  it('never matches numeric comparisons on values that are not numbers', () => {
+    expect(evaluateCondition('greater_than', 1, 'lots')).toBe(false);
+    expect(evaluateCondition('less_than', 'few', 1)).toBe(false);
+    expect(evaluateCondition('greater_than', 1, { $gt: 0 })).toBe(false);
+    expect(evaluateCondition('count_gt', 'many', ['a'])).toBe(false);
+  });
+
+  it('never matches an unknown operator', () => {
+    expect(evaluateCondition('matches' as any, 'x', 'x')).toBe(false);
+  });
+});
+
+describe('evaluateRules', () => {
+  const answers = { a: 'yes', b: 2, c: 'no' };
+
+  it('joins rules left to right with each rule\'s logical', () => {
+    expect(evaluateRules([rule('a', 'equals', 'yes', 'AND'), rule('b', 'equals', 3)], answers)).toBe(false);
+    expect(evaluateRules([rule('a', 'equals', 'yes', 'OR'), rule('b', 'equals', 3)], answers)).toBe(true);
+    // Without a logical, rules are joined with OR
+    expect(evaluateRules([rule('a', 'equals', 'no'), rule('b', 'equals', 2)], answers)).toBe(true);
+  });
+
+  it('evaluates groups before joining them to their siblings', () => {
+    const rules: RuleNode[] = [
+      rule('a', 'equals', 'no', 'OR'),
+      { rules: [rule('b', 'equals', 2, 'AND'), rule('c', 'equals', 'no')] },
+    ];
+    expect(evaluateRules(rules, answers)).toBe(true);
+  });
+
+  it('does not match conditions on unanswered questions', () => {
+    expect(evaluateRules([rule('missing', 'not_equals', 'yes')], answers)).toBe(false);
+    expect(evaluateRules([], answers)).toBe(false);
+  });
+});
+
+describe('isQuestionVisible', () => {
+  const question = { id: 'q2', visibilityRules: [rule('q1', 'equals', 'yes')] };
+
+  it('shows questions without rules', () => {
+    expect(isQuestionVisible({ id: 'q1' }, {})).toBe(true);
+  });
+
+  it('hides a question until one of its rules\' questions is answered', () => {
+    expect(isQuestionVisible(question, {})).toBe(false);
+    expect(isQuestionVisible(question, { q1: 'no' })).toBe(false);
+    expect(isQuestionVisible(question, { q1: 'yes' })).toBe(true);
+  });
+
+  it('reads rules kept in the question settings', () => {
+    const fromSettings = { id: 'q2', settings: { visibleWhen: [rule('q1', 'equals', 'yes')] } };
+    expect(isQuestionVisible(fromSettings, { q1: 'no' })).toBe(false);
+  });
+});
+
+describe('resolveBranching', () => {
+  const pages: RulePage[] = [
+    {
+      questions: [{ id: 'q1' }],
+      branching: [
+        { questionId: 'q1', condition: { operator: 'equals', value: 'hello' }, action: { type: 'show_message', message: 'Hi there' } },
+        { questionId: 'q1', condition: { operator: 'equals', value: 'skip' }, action: { type: 'skip_to_question', targetQuestionId: 'q4' } },
+        { questionId: 'q1', condition: { operator: 'equals', value: 'stop' }, action: { type: 'end_survey' } },
+      ],
+    },
+    { questions: [{ id: 'q2' }] },
+    {
+      questions: [{ id: 'q3' }, { id: 'q4' }],
+      branching: [{ questionId: 'q3', condition: { operator: 'equals', value: 'back' }, action: { type: 'skip_to_page', targetPageIndex: 0 } }],
+    },
+  ];
+
+  it('goes to the next page when no rule matches', () => {
+    expect(resolveBranching(pages, 0, { q1: 'other' })).toEqual({ nextPageIndex: 1, startQuestionId: undefined, messages: [] });
+  });
+
+  it('collects messages and follows the first navigation rule', () => {
+    expect(resolveBranching(pages, 0, { q1: 'hello' }).messages).toEqual(['Hi there']);
+    expect(resolveBranching(pages, 0, { q1: 'skip' })).toEqual({ nextPageIndex: 2, startQuestionId: 'q4', messages: [] });
+    expect(resolveBranching(pages, 0, { q1: 'stop' })).toEqual({ nextPageIndex: null, messages: [] });
+  });
+
+  it('ignores jumps back to earlier pages so a survey cannot loop', () => {
+    expect(resolveBranching(pages, 2, { q3: 'back' }).nextPageIndex).toBeNull();
+  });
+});
+
+describe('computeVisiblePath', () => {
+  const pages: RulePage[] = [
+    {
+      questions: [{ id: 'q1' }],
+      branching: [{ questionId: 'q1', condition: { operator: 'equals', value: 'skip' }, action: { type: 'skip_to_page', targetPageIndex: 2 } }],
+    },
+    { questions: [{ id: 'q2' }] },
+    { questions: [{ id: 'q3', visibilityRules: [rule('q2', 'equals', 'yes')] }, { id: 'q4' }] },
+  ];
+
+  it('skips pages that branching jumps over', () => {
+    const path = computeVisiblePath(pages, { q1: 'skip' });
+    expect(path.pageIndexes).toEqual([0, 2]);
+    expect([...path.visibleQuestionIds]).toEqual(['q1', 'q4']);
+  });
+
+  it('ignores answers to questions off the path', () => {
+    // q2 was skipped, so its answer cannot reveal q3
+    const path = computeVisiblePath(pages, { q1: 'skip', q2: 'yes' });
+    expect(path.visibleQuestionIds.has('q3')).toBe(false);
+  });
+
+  it('reports a survey ended by a rule', () => {
+    const ending: RulePage[] = [
+      { questions: [{ id: 'q1' }], branching: [{ questionId: 'q1', condition: { operator: 'equals', value: 'stop' }, action: { type: 'end_survey' } }] },
+      { questions: [{ id: 'q2' }] },
+    ];
+    expect(computeVisiblePath(ending, { q1: 'stop' })).toMatchObject({ pageIndexes: [0], endedEarly: true });
+    expect(computeVisiblePath(ending, { q1: 'go' })).toMatchObject({ pageIndexes: [0, 1], endedEarly: false });
+  });
+});
+
+describe('validateSurveyRules', () => {
+  const pageWith = (questions: RulePage['questions'], branching: RulePage['branching'] = []): RulePage => ({ questions, branching });
+
+  it('accepts rules on earlier questions', () => {
+    const pages = [
+      pageWith([{ id: 'q1' }, { id: 'q2', visibilityRules: [rule('q1', 'equals', 'yes')] }]),
+      pageWith([{ id: 'q3' }]),
+    ];
+    expect(validateSurveyRules(pages)).toEqual([]);
+  });
+
+  it('rejects rules on the question itself or later ones', () => {
+    const pages = [pageWith([
+      { id: 'q1', visibilityRules: [rule('q1', 'equals', 'yes')] },
+      { id: 'q2', visibilityRules: [rule('q3', 'equals', 'yes')] },
+      { id: 'q3' },
+    ])];
+    expect(validateSurveyRules(pages).map(issue => issue.questionId)).toEqual(['q1', 'q2']);
+  });
+
+  it('rejects malformed rules', () => {
+    const pages = [pageWith([
+      { id: 'q1' },
+      { id: 'q2', visibilityRules: [rule('q1', 'regex', '.*')] },
+      { id: 'q3', visibilityRules: [rule('q1', 'equals', '')] },
+      { id: 'q4', visibilityRules: [{ ...rule('q1', 'equals', 'x'), logical: 'XOR' as any }] },
+      { id: 'q5', visibilityRules: ['q1 == x' as any] },
+      { id: 'q6', visibilityRules: [{ rules: [] }] },
+    ])];
+    expect(validateSurveyRules(pages).map(issue => issue.message)).toEqual([
+      'Unknown condition operator: regex',
+      'Condition value is required',
+      'Unknown logical operator: XOR',
+      'Rule must be an object',
+      'Rule group must contain at least one condition',
+    ]);
+  });
+
+  it('rejects rule groups nested too deeply', () => {
+    let nested: RuleNode = rule('q1', 'equals', 'yes');
+    for (let depth = 0; depth < MAX_RULE_DEPTH; depth++) nested = { rules: [nested] };
+    const pages = [pageWith([{ id: 'q1' }, { id: 'q2', visibilityRules: [nested] }])];
+    expect(validateSurveyRules(pages)).toEqual([
+      { pageIndex: 0, questionId: 'q2', message: `Rule groups can be nested at most ${MAX_RULE_DEPTH} levels deep` },
+    ]);
+  });
+
+  it('rejects unknown hidden fields and computed variables', () => {
+    const pages = [pageWith([
+      { id: 'q1', visibilityRules: [rule('hidden.source', 'equals', 'ad')] },
+      { id: 'q2', visibilityRules: [rule('computed.total', 'greater_than', 3)] },
+    ])];
+    expect(validateSurveyRules(pages).map(issue => issue.message)).toEqual([
+      'Rule refers to an unknown hidden field: hidden.source',
+      'Rule refers to an unknown computed variable: computed.total',
+    ]);
+    expect(validateSurveyRules(pages, ['source'], ['total'])).toEqual([]);
+  });
+
+  it('rejects branching that goes backwards or nowhere', () => {
+    const when = { questionId: 'q2', condition: { operator: 'equals' as const, value: 'x' } };
+    const pages = [
+      pageWith([{ id: 'q1' }]),
+      pageWith([{ id: 'q2' }], [
+        { ...when, action: { type: 'skip_to_page', targetPageIndex: 0 } },
+        { ...when, action: { type: 'skip_to_question', targetQuestionId: 'q1' } },
+        { ...when, action: { type: 'show_message', message: '  ' } },
+        { ...when, action: { type: 'teleport' as any } },
+        { ...when },
+      ]),
+    ];
+    expect(validateSurveyRules(pages).map(issue => issue.message)).toEqual([
+      'skip_to_page must target a later page',
+      'skip_to_question must target a question on a later page',
+      'show_message requires a message',
+      'Unknown branching action: teleport',
+      'Branching rule must have an action',
+    ]);
+  });
+});
@@ -0,0 +1,533 @@
+// Rule engine shared by the API and the web app (imported there as `@shared/ruleEngine`).
+// Keep this module free of runtime dependencies so it compiles under both builds.
+
+import { SMILEY_SCORES } from './smileyScale';
+import { getMatrixRowAnswer } from './matrix';
+import { hiddenFieldKey, isHiddenFieldKey } from './hiddenFields';
+import {
+  computedVariableKey,
+  evaluateComputedVariables,
+  isComputedVariableKey,
+  type ComputedValues,
+  type ComputedVariableDefinition,
+} from './computedVariables';
+import {
+  findLoopBlock,
+  getBlockQuestionIds,
+  getLoopBlocks,
+  getLoopItems,
+  loopAnswerKey,
+  type LoopItem,
+  type LoopSettings,
+} from './loops';
+
+export const CONDITION_OPERATORS = [
+  'equals',
+  'not_equals',
+  'contains',
+  'not_contains',
+  'greater_than',
+  'less_than',
+  'count_eq',
+  'count_gt',
+  'count_lt',
+  'has_selected',
+] as const;
+
+export const RULE_LOGICALS = ['AND', 'OR'] as const;
+
+export const BRANCHING_ACTION_TYPES = ['skip_to_page', 'skip_to_question', 'end_survey', 'show_message'] as const;
+
+// Groups can nest, but keep them shallow enough for the builder to display
+export const MAX_RULE_DEPTH = 5;
+
+export type ConditionOperator = (typeof CONDITION_OPERATORS)[number];
+export type RuleLogical = (typeof RULE_LOGICALS)[number];
+export type BranchingActionType = (typeof BRANCHING_ACTION_TYPES)[number];
+
+export interface RuleCondition {
+  operator: ConditionOperator;
+  value: unknown;
+}
+
+// A single condition on an earlier answer. `logical` joins it to the next rule in its list.
+export interface VisibilityRule {
+  // A question id, `hidden.<name>` for a hidden field or `computed.<name>` for a computed variable
+  questionId: string;
+  // Matrix questions: the condition applies to this row's answer
+  rowId?: string;
+  condition: RuleCondition;
+  logical?: RuleLogical;
+}
+
+// A parenthesised list of rules, evaluated as a unit before joining its siblings
+export interface RuleGroup {
+  rules: RuleNode[];
+  logical?: RuleLogical;
+}
+
+export type RuleNode = VisibilityRule | RuleGroup;
+
+export interface BranchingAction {
+  type: BranchingActionType;
+  targetPageIndex?: number;
+  targetQuestionId?: string;
+  message?: string;
+}
+
+// Either a single condition (questionId + condition) or a group of rules, plus what to do when it matches
+export interface BranchingRule {
+  questionId?: string;
+  rowId?: string;
+  condition?: RuleCondition;
+  rules?: RuleNode[];
+  logical?: RuleLogical;
+  action?: BranchingAction;
+}
+
+export interface RuleQuestion {
+  id: string;
+  settings?: Record<string, unknown> | null;
+  visibilityRules?: RuleNode[];
+  visibleWhen?: RuleNode[];
+}
+
+export interface RulePage {
+  questions: RuleQuestion[];
+  branching?: BranchingRule[];
+  loop?: LoopSettings | null;
+}
+
+export type AnswerMap = Record<string, unknown>;
+
+export interface PathMessage {
+  // Page whose branching rule produced the message
+  pageIndex: number;
+  message: string;
+}
+
+// A page as the respondent sees it; pages in a loop are seen once per item
+export interface PathStep {
+  pageIndex: number;
+  loopItem?: LoopItem;
+}
+
+export interface VisiblePath {
+  // Page indexes the respondent sees, in order (pages without visible questions are skipped)
+  pageIndexes: number[];
+  steps: PathStep[];
+  // Question ids, or answer keys (see loopAnswerKey) for questions in loops
+  visibleQuestionIds: Set<string>;
+  messages: PathMessage[];
+  endedEarly: boolean;
+  // Computed variables from the answers on the path
+  computed: ComputedValues;
+}
+
+export interface BranchingOutcome {
+  nextPageIndex: number | null;
+  // Set by skip_to_question: questions before it on the target page are skipped
+  startQuestionId?: string;
+  messages: string[];
+}
+
+export interface RuleIssue {
+  pageIndex: number;
+  questionId?: string;
+  message: string;
+}
+
+const coerceNumeric = (val: unknown): number => {
+  if (typeof val === 'number') return val;
+  if (typeof val === 'string' && SMILEY_SCORES[val] !== undefined) return SMILEY_SCORES[val];
+  const n = Number(val);
+  return Number.isNaN(n) ? Number.NaN : n;
+};
+
+// Normalize strings for comparison (trim and lowercase)
+const normalizeString = (val: unknown): string => String(val).trim().toLowerCase();
+
+const equalsMatch = (a: unknown, b: unknown): boolean => normalizeString(a) === normalizeString(b);
+
+const compareNumeric = (responseValue: unknown, condValue: unknown, compare: (a: number, b: number) => boolean): boolean => {
+  const respNum = coerceNumeric(responseValue);
+  const condNum = coerceNumeric(condValue);
+  return !Number.isNaN(respNum) && !Number.isNaN(condNum) && compare(respNum, condNum);
+};
+
+const compareCount = (responseValue: unknown, condValue: unknown, compare: (a: number, b: number) => boolean): boolean => {
+  const count = Array.isArray(responseValue) ? responseValue.length : 0;
+  const condNum = coerceNumeric(condValue);
+  return !Number.isNaN(condNum) && compare(count, condNum);
+};
+
+const isEqual = (condValue: unknown, responseValue: unknown): boolean => {
+  // Handle arrays (multi-select)
+  if (Array.isArray(responseValue)) {
+    return responseValue.map(normalizeString).includes(normalizeString(condValue));
+  }
+  // Try numeric comparison first (for ratings)
+  const respNum = coerceNumeric(responseValue);
+  const condNum = coerceNumeric(condValue);
+  if (!Number.isNaN(respNum) && !Number.isNaN(condNum)) {
+    return respNum === condNum;
+  }
+  // String comparison (case-insensitive, trimmed)
+  return equalsMatch(responseValue, condValue);
+};
+
+const isContained = (condValue: unknown, responseValue: unknown): boolean => {
+  if (Array.isArray(responseValue)) {
+    return responseValue.some(v => equalsMatch(v, condValue));
+  }
+  return normalizeString(responseValue).includes(normalizeString(condValue));
+};
+
+export const evaluateCondition = (
+  operator: ConditionOperator,
+  condValue: unknown,
+  responseValue: unknown
+): boolean => {
+  switch (operator) {
+    case 'equals':
+      return isEqual(condValue, responseValue);
+    case 'not_equals':
+      return !isEqual(condValue, responseValue);
+    case 'contains':
+      return isContained(condValue, responseValue);
+    case 'not_contains':
+      return !isContained(condValue, responseValue);
+    case 'greater_than':
+      return compareNumeric(responseValue, condValue, (a, b) => a > b);
+    case 'less_than':
+      return compareNumeric(responseValue, condValue, (a, b) => a < b);
+    case 'has_selected':
+      if (Array.isArray(responseValue)) {
+        return responseValue.map(normalizeString).includes(normalizeString(condValue));
+      }
+      return equalsMatch(responseValue, condValue);
+    case 'count_eq':
+      return compareCount(responseValue, condValue, (a, b) => a === b);
+    case 'count_gt':
+      return compareCount(responseValue, condValue, (a, b) => a > b);
+    case 'count_lt':
+      return compareCount(responseValue, condValue, (a, b) => a < b);
+    default:
+      return false;
+  }
+};
+
+export const isRuleGroup = (node: RuleNode): node is RuleGroup =>
+  Array.isArray((node as RuleGroup | undefined)?.rules);
+
+// Visibility rules can live on the question itself or inside its settings
+export const getVisibilityRules = (question: RuleQuestion): RuleNode[] => {
+  const settings = question.settings || {};
+  const visibility = settings.visibility as { rules?: RuleNode[] } | undefined;
+  const fromSettings = (settings.visibleWhen || visibility?.rules) as RuleNode[] | undefined;
+  return question.visibilityRules || question.visibleWhen || fromSettings || [];
+};
+
+// Branching rules hold either one condition or a group of rules
+const getBranchingRules = (rule: BranchingRule): RuleNode[] => {
+  if (Array.isArray(rule.rules)) return rule.rules;
+  if (rule.questionId && rule.condition) {
+    return [{ questionId: rule.questionId, rowId: rule.rowId, condition: rule.condition }];
+  }
+  return [];
+};
+
+export const collectRuleQuestionIds = (rules: RuleNode[]): string[] =>
+  rules.flatMap(node => (isRuleGroup(node) ? collectRuleQuestionIds(node.rules) : [node.questionId]));
+
+const getRuleAnswer = (rule: VisibilityRule, answers: AnswerMap): unknown => {
+  const resp = answers[rule.questionId];
+  return rule.rowId ? getMatrixRowAnswer(resp, rule.rowId) : resp;
+};
+
+const evaluateNode = (node: RuleNode, answers: AnswerMap): boolean => {
+  if (isRuleGroup(node)) return evaluateRules(node.rules, answers);
+  const resp = getRuleAnswer(node, answers);
+  return resp !== undefined && evaluateCondition(node.condition.operator, node.condition.value, resp);
+};
+
+// Evaluates a list of rules left to right, joined by each rule's `logical`; groups are evaluated first
+export const evaluateRules = (rules: RuleNode[], answers: AnswerMap): boolean =>
+  rules.reduce((acc, rule, idx) => {
+    const conditionMet = evaluateNode(rule, answers);
+
+    if (idx === 0) return conditionMet;
+
+    const prevLogical = rules[idx - 1].logical ?? 'OR';
+    return prevLogical === 'AND' ? acc && conditionMet : acc || conditionMet;
+  }, false);
+
+export const isQuestionVisible = (question: RuleQuestion, answers: AnswerMap): boolean => {
+  const rules = getVisibilityRules(question);
+  if (rules.length === 0) return true;
+
+  // Hidden until at least one dependency has been answered
+  const anyDependencyAnswered = collectRuleQuestionIds(rules).some(id => answers[id] !== undefined);
+  if (!anyDependencyAnswered) return false;
+
+  return evaluateRules(rules, answers);
+};
+
+const findQuestionPageIndex = (pages: RulePage[], questionId: string | undefined): number =>
+  questionId ? pages.findIndex(page => (page.questions || []).some(q => q.id === questionId)) : -1;
+
+const isBranchingRuleMatched = (rule: BranchingRule, answers: AnswerMap): boolean => {
+  const rules = getBranchingRules(rule);
+  if (rules.length === 0) return false;
+  return collectRuleQuestionIds(rules).some(id => answers[id] !== undefined) && evaluateRules(rules, answers);
+};
+
+/**
+ * Applies the branching rules of `pageIndex`. Every matching show_message rule adds its
+ * message; the first matching navigation rule decides where to go. Only forward jumps are
+ * honoured so a survey can never loop. `nextPageIndex` is null when the survey ends.
+ */
+export const resolveBranching = (pages: RulePage[], pageIndex: number, answers: AnswerMap): BranchingOutcome => {
+  const matched = (pages[pageIndex]?.branching || []).filter(
+    rule => rule.action?.type && isBranchingRuleMatched(rule, answers)
+  );
+
+  const messages = matched
+    .filter(rule => rule.action?.type === 'show_message' && rule.action.message)
+    .map(rule => String(rule.action?.message));
+  const navigation = matched.find(rule => rule.action?.type !== 'show_message')?.action;
+
+  if (navigation?.type === 'end_survey') return { nextPageIndex: null, messages };
+
+  let nextPageIndex = pageIndex + 1;
+  let startQuestionId: string | undefined;
+  if (navigation?.type === 'skip_to_page') {
+    const target = navigation.targetPageIndex;
+    if (typeof target === 'number' && target > pageIndex) nextPageIndex = target;
+  } else if (navigation?.type === 'skip_to_question') {
+    const target = findQuestionPageIndex(pages, navigation.targetQuestionId);
+    if (target > pageIndex) {
+      nextPageIndex = target;
+      startQuestionId = navigation.targetQuestionId;
+    }
+  }
+
+  return {
+    nextPageIndex: nextPageIndex < pages.length ? nextPageIndex : null,
+    startQuestionId,
+    messages,
+  };
+};
+
+/**
+ * Walks the survey the way a respondent would and returns the pages and questions
+ * they are shown. Answers to questions off the path do not influence later rules,
+ * and computed variables are re-evaluated after each answer on the path. Loop blocks
+ * are walked once per item, with rules inside them seeing that item's answers.
+ */
+export const computeVisiblePath = (
+  pages: RulePage[],
+  answers: AnswerMap,
+  computedVariables: ComputedVariableDefinition[] = []
+): VisiblePath => {
+  // Hidden fields are known before the first page
+  const effectiveAnswers: AnswerMap = Object.fromEntries(
+    Object.entries(answers).filter(([id]) => isHiddenFieldKey(id))
+  );
+  let computed: ComputedValues = {};
+  const updateComputed = () => {
+    if (computedVariables.length === 0) return;
+    for (const name of Object.keys(computed)) delete effectiveAnswers[computedVariableKey(name)];
+    computed = evaluateComputedVariables(computedVariables, effectiveAnswers);
+    for (const [name, value] of Object.entries(computed)) effectiveAnswers[computedVariableKey(name)] = value;
+  };
+  updateComputed();
+  const loopBlocks = getLoopBlocks(pages);
+  const steps: PathStep[] = [];
+  const visibleQuestionIds = new Set<string>();
+  const messages: PathMessage[] = [];
+  let endedEarly = false;
+  let pageIndex: number | null = pages.length > 0 ? 0 : null;
+  let startQuestionId: string | undefined;
+
+  while (pageIndex !== null) {
+    const block = findLoopBlock(loopBlocks, pageIndex);
+    if (block) {
+      // Pages in a loop have no branching rules, so the walk carries on after the block
+      const questionIds = getBlockQuestionIds(pages, block);
+      for (const loopItem of getLoopItems(block.loop, pages, effectiveAnswers)) {
+        const iterationAnswers: AnswerMap = { ...effectiveAnswers };
+        for (const id of questionIds) delete iterationAnswers[id];
+        for (let index = block.startPageIndex; index < block.endPageIndex; index++) {
+          let pageHasVisibleQuestion = false;
+          for (const question of pages[index].questions || []) {
+            if (!isQuestionVisible(question, iterationAnswers)) continue;
+            pageHasVisibleQuestion = true;
+            const key = loopAnswerKey(question.id, loopItem.id);
+            visibleQuestionIds.add(key);
+            if (answers[key] !== undefined) iterationAnswers[question.id] = answers[key];
+          }
+          if (pageHasVisibleQuestion) steps.push({ pageIndex: index, loopItem });
+        }
+      }
+      pageIndex = block.endPageIndex < pages.length ? block.endPageIndex : null;
+      startQuestionId = undefined;
+      continue;
+    }
+
+    let pageHasVisibleQuestion = false;
+    let reachedStart = !startQuestionId;
+    for (const question of pages[pageIndex].questions || []) {
+      reachedStart = reachedStart || question.id === startQuestionId;
+      if (!reachedStart || !isQuestionVisible(question, effectiveAnswers)) continue;
+      pageHasVisibleQuestion = true;
+      visibleQuestionIds.add(question.id);
+      if (answers[question.id] !== undefined) {
+        effectiveAnswers[question.id] = answers[question.id];
+        updateComputed();
+      }
+    }
+    if (pageHasVisibleQuestion) steps.push({ pageIndex });
+
+    const outcome = resolveBranching(pages, pageIndex, effectiveAnswers);
+    const currentPageIndex = pageIndex;
+    messages.push(...outcome.messages.map(message => ({ pageIndex: currentPageIndex, message })));
+    if (outcome.nextPageIndex === null && pageIndex < pages.length - 1) endedEarly = true;
+    pageIndex = outcome.nextPageIndex;
+    startQuestionId = outcome.startQuestionId;
+  }
+
+  const pageIndexes = [...new Set(steps.map(step => step.pageIndex))];
+  return { pageIndexes, steps, visibleQuestionIds, messages, endedEarly, computed };
+};
+
+// The step showing the page for the loop item (no item outside loops), or -1 when it is off the path
+export const findPathStepIndex = (steps: PathStep[], pageIndex: number, iteration?: string): number =>
+  steps.findIndex(step => step.pageIndex === pageIndex && step.loopItem?.id === iteration);
+
+const isRuleLogical = (value: unknown): value is RuleLogical =>
+  RULE_LOGICALS.includes(value as RuleLogical);
+
+const isConditionOperator = (value: unknown): value is ConditionOperator =>
+  CONDITION_OPERATORS.includes(value as ConditionOperator);
+
+/**
+ * Checks a rule list for shape errors and references to questions that are not in
+ * `allowedQuestionIds` (rules may only depend on questions shown earlier).
+ * `closedLoopQuestionIds` are questions of loops that ended before the rule.
+ */
+const validateRuleNodes = (
+  rules: unknown,
+  allowedQuestionIds: Set<string>,
+  depth: number,
+  closedLoopQuestionIds: Set<string> = new Set()
+): string[] => {
+  if (!Array.isArray(rules) || rules.length === 0) return ['Rule group must contain at least one condition'];
+  if (depth > MAX_RULE_DEPTH) return [`Rule groups can be nested at most ${MAX_RULE_DEPTH} levels deep`];
+
+  return rules.flatMap((node: any): string[] => {
+    if (!node || typeof node !== 'object') return ['Rule must be an object'];
+    if (node.logical !== undefined && !isRuleLogical(node.logical)) {
+      return [`Unknown logical operator: ${String(node.logical)}`];
+    }
+    if (isRuleGroup(node)) return validateRuleNodes(node.rules, allowedQuestionIds, depth + 1, closedLoopQuestionIds);
+
+    if (isHiddenFieldKey(node.questionId) && !allowedQuestionIds.has(node.questionId)) {
+      return [`Rule refers to an unknown hidden field: ${node.questionId}`];
+    }
+    if (isComputedVariableKey(node.questionId) && !allowedQuestionIds.has(node.questionId)) {
+      return [`Rule refers to an unknown computed variable: ${node.questionId}`];
+    }
+    if (closedLoopQuestionIds.has(node.questionId)) {
+      return [`Rule refers to a question inside a loop, which can only be used within that loop: ${node.questionId}`];
+    }
+    if (typeof node.questionId !== 'string' || !allowedQuestionIds.has(node.questionId)) {
+      return [`Rule refers to a question that is not shown before it: ${String(node.questionId)}`];
+    }
+    if (node.rowId !== undefined && (typeof node.rowId !== 'string' || node.rowId === '')) {
+      return ['Rule row must be a row id'];
+    }
+    if (!isConditionOperator(node.condition?.operator)) {
+      return [`Unknown condition operator: ${String(node.condition?.operator)}`];
+    }
+    const value = node.condition.value;
+    if (value === undefined || value === null || value === '') return ['Condition value is required'];
+    return [];
+  });
+};
+
+const validateBranchingAction = (pages: RulePage[], pageIndex: number, action: any): string | null => {
+  if (!action || typeof action !== 'object') return 'Branching rule must have an action';
+  switch (action.type) {
+    case 'skip_to_page': {
+      const target = action.targetPageIndex;
+      if (!Number.isInteger(target) || target <= pageIndex || target >= pages.length) {
+        return 'skip_to_page must target a later page';
+      }
+      return null;
+    }
+    case 'skip_to_question':
+      if (findQuestionPageIndex(pages, action.targetQuestionId) <= pageIndex) {
+        return 'skip_to_question must target a question on a later page';
+      }
+      return null;
+    case 'show_message':
+      if (typeof action.message !== 'string' || action.message.trim() === '') {
+        return 'show_message requires a message';
+      }
+      return null;
+    case 'end_survey':
+      return null;
+    default:
+      return `Unknown branching action: ${String(action.type)}`;
+  }
+};
+
+/**
+ * Validates every visibility and branching rule in the survey. Rules may only depend on
+ * questions that come before them, which also rules out circular dependencies, and on the
+ * survey's hidden fields and computed variables (evaluated from the answers given so far).
+ */
+export const validateSurveyRules = (
+  pages: RulePage[],
+  hiddenFieldNames: string[] = [],
+  computedVariableNames: string[] = []
+): RuleIssue[] => {
+  const issues: RuleIssue[] = [];
+  const seenQuestionIds = new Set<string>([
+    ...hiddenFieldNames.map(hiddenFieldKey),
+    ...computedVariableNames.map(computedVariableKey),
+  ]);
+  const loopBlocks = getLoopBlocks(pages);
+  const closedLoopQuestionIds = new Set<string>();
+
+  pages.forEach((page, pageIndex) => {
+    for (const question of page?.questions || []) {
+      const rules = getVisibilityRules(question);
+      if (Array.isArray(rules) && rules.length > 0) {
+        for (const message of validateRuleNodes(rules, seenQuestionIds, 1, closedLoopQuestionIds)) {
+          issues.push({ pageIndex, questionId: question.id, message });
+        }
+      }
+      if (question?.id) seenQuestionIds.add(question.id);
+    }
+
+    for (const rule of page?.branching || []) {
+      const ruleIssues = validateRuleNodes(getBranchingRules(rule || {}), seenQuestionIds, 1, closedLoopQuestionIds);
+      const actionIssue = validateBranchingAction(pages, pageIndex, rule?.action);
+      if (actionIssue) ruleIssues.push(actionIssue);
+      issues.push(...ruleIssues.map(message => ({ pageIndex, message })));
+    }
+
+    // Answers inside a loop exist once per item, so later rules cannot compare them
+    const block = findLoopBlock(loopBlocks, pageIndex);
+    if (block && pageIndex === block.endPageIndex - 1) {
+      for (const questionId of getBlockQuestionIds(pages, block)) {
+        seenQuestionIds.delete(questionId);
+        closedLoopQuestionIds.add(questionId);
+      }
+    }
+  });
+
+  return issues;
+};
@@ -0,0 +1,18 @@
+// The five-point smiley rating scale: stored answer values, display labels and numeric scores.
+// Shared by the API (analytics, exports) and the rule engine's numeric comparisons.
+
+export const SMILEY_SCALE = [
+  { value: 'very_sad', label: 'Very Sad', score: 1 },
+  { value: 'sad', label: 'Sad', score: 2 },
+  { value: 'neutral', label: 'Neutral', score: 3 },
+  { value: 'happy', label: 'Happy', score: 4 },
+  { value: 'very_happy', label: 'Very Happy', score: 5 },
+] as const;
+
+export const SMILEY_LABELS: Record<string, string> = Object.fromEntries(
+  SMILEY_SCALE.map(({ value, label }) => [value, label])
+);
+
+export const SMILEY_SCORES: Record<string, number> = Object.fromEntries(
+  SMILEY_SCALE.map(({ value, score }) => [value, score])
+);
@@ -0,0 +1,32 @@
+// What each role on a shared survey may do, shared by the API (route and query checks) and the
+// web app (hiding actions the user cannot take, imported as `@shared/surveyAccess`).
+
+// Roles a survey can be shared with; its creator is always the owner
+export const SURVEY_SHARE_ROLES = ['editor', 'analyst', 'viewer'] as const;
+export type SurveyShareRole = typeof SURVEY_SHARE_ROLES[number];
+export type SurveyRole = 'owner' | SurveyShareRole;
+
+// view: open the survey read-only; edit: builder access; results: analytics and responses;
+// export: download survey and response data; manage: share, delete and other owner-only actions
+export type SurveyPermission = 'view' | 'edit' | 'results' | 'export' | 'manage';
+
+const ROLE_PERMISSIONS: Record<SurveyRole, readonly SurveyPermission[]> = {
+  owner: ['view', 'edit', 'results', 'export', 'manage'],
+  editor: ['view', 'edit', 'results'],
+  analyst: ['view', 'results', 'export'],
+  viewer: ['view', 'results'],
+};
+
+export const SURVEY_ROLE_LABELS: Record<SurveyRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  analyst: 'Analyst',
+  viewer: 'Viewer',
+};
+
+export const hasSurveyPermission = (role: SurveyRole | null | undefined, permission: SurveyPermission): boolean =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission);
+
+// Share roles granting a permission; the owner always has every permission
+export const shareRolesWithPermission = (permission: SurveyPermission): SurveyShareRole[] =>
+  SURVEY_SHARE_ROLES.filter(role => ROLE_PERMISSIONS[role].includes(permission));
@@ -0,0 +1,290 @@
+// Structural diff between two versions of a survey's content, shared by the API (revision
+// summaries, diff endpoint) and the web app (history panel, imported as `@shared/surveyDiff`).
+// Keep this module free of runtime dependencies so it compiles under both builds.
+
+import type { QuizSettings } from './quiz';
+import type { HiddenFieldDefinition } from './hiddenFields';
+import type { ComputedVariableDefinition } from './computedVariables';
+
+export interface SurveyContent {
+  title?: string;
+  description?: string;
+  theme?: string;
+  backgroundColor?: string;
+  textColor?: string;
+  pages?: Array<{ questions?: any[]; branching?: any[] }>;
+  quiz?: QuizSettings;
+  hiddenFields?: HiddenFieldDefinition[];
+  computedVariables?: ComputedVariableDefinition[];
+}
+
+export interface ValueChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface QuestionRef {
+  questionId: string;
+  title: string;
+  pageIndex: number;
+}
+
+export interface OptionChanges {
+  added: Array<{ id: string; text: string }>;
+  removed: Array<{ id: string; text: string }>;
+  edited: Array<{ id: string; from: string; to: string }>;
+  reordered: boolean;
+}
+
+export interface QuestionEdit extends QuestionRef {
+  changes: ValueChange[];
+  options?: OptionChanges;
+}
+
+export interface QuestionMove extends QuestionRef {
+  fromPageIndex: number;
+  fromPosition: number;
+  toPosition: number;
+}
+
+export interface BranchingChange {
+  pageIndex: number;
+  added: number;
+  removed: number;
+}
+
+export interface SurveyDiff {
+  fields: ValueChange[];
+  pageCount?: { from: number; to: number };
+  questions: {
+    added: QuestionRef[];
+    removed: QuestionRef[];
+    edited: QuestionEdit[];
+    moved: QuestionMove[];
+  };
+  branching: BranchingChange[];
+}
+
+const CONTENT_FIELDS = ['title', 'description', 'theme', 'backgroundColor', 'textColor', 'quiz', 'hiddenFields', 'computedVariables'] as const;
+const QUESTION_FIELDS = ['title', 'description', 'type', 'required'] as const;
+
+// Stable JSON for comparisons: ignores Mongo subdocument ids and object key order
+const canonical = (value: unknown): string =>
+  JSON.stringify(value, (key, v) => {
+    if (key === '_id') return undefined;
+    if (v && typeof v === 'object' && !Array.isArray(v)) {
+      return Object.keys(v)
+        .sort((a, b) => a.localeCompare(b))
+        .reduce<Record<string, unknown>>((acc, k) => {
+          acc[k] = v[k];
+          return acc;
+        }, {});
+    }
+    return v;
+  }) ?? '';
+
+const isSame = (a: unknown, b: unknown): boolean => canonical(a) === canonical(b);
+
+const normalizeOption = (option: any, index: number): { id: string; text: string } =>
+  typeof option === 'object' && option !== null
+    ? { id: String(option.id ?? index), text: String(option.text ?? option.label ?? option.value ?? '') }
+    : { id: String(option), text: String(option) };
+
+interface LocatedQuestion {
+  question: any;
+  pageIndex: number;
+  position: number;
+}
+
+const indexQuestions = (content: SurveyContent): Map<string, LocatedQuestion> => {
+  const located = new Map<string, LocatedQuestion>();
+  (content.pages || []).forEach((page, pageIndex) => {
+    (page?.questions || []).forEach((question, position) => {
+      if (question?.id) {
+        located.set(String(question.id), { question, pageIndex, position });
+      }
+    });
+  });
+  return located;
+};
+
+const toRef = ({ question, pageIndex }: LocatedQuestion): QuestionRef => ({
+  questionId: String(question.id),
+  title: String(question.title ?? ''),
+  pageIndex,
+});
+
+export const diffOptions = (before: any[] | undefined, after: any[] | undefined): OptionChanges | undefined => {
+  const from = (before || []).map(normalizeOption);
+  const to = (after || []).map(normalizeOption);
+  const fromById = new Map(from.map(o => [o.id, o]));
+  const toById = new Map(to.map(o => [o.id, o]));
+
+  const added = to.filter(o => !fromById.has(o.id));
+  const removed = from.filter(o => !toById.has(o.id));
+  const edited = to
+    .filter(o => fromById.has(o.id) && fromById.get(o.id)!.text !== o.text)
+    .map(o => ({ id: o.id, from: fromById.get(o.id)!.text, to: o.text }));
+  const keptFrom = from.filter(o => toById.has(o.id)).map(o => o.id);
+  const keptTo = to.filter(o => fromById.has(o.id)).map(o => o.id);
+  const reordered = keptFrom.join('\u0000') !== keptTo.join('\u0000');
+
+  if (added.length === 0 && removed.length === 0 && edited.length === 0 && !reordered) {
+    return undefined;
+  }
+  return { added, removed, edited, reordered };
+};
+
+const diffQuestion = (before: any, after: any): Pick<QuestionEdit, 'changes' | 'options'> => {
+  const changes: ValueChange[] = [];
+  for (const field of QUESTION_FIELDS) {
+    if (!isSame(before[field] ?? null, after[field] ?? null)) {
+      changes.push({ field, from: before[field], to: after[field] });
+    }
+  }
+  if (!isSame(before.settings ?? {}, after.settings ?? {})) {
+    changes.push({ field: 'settings', from: before.settings, to: after.settings });
+  }
+  return { changes, options: diffOptions(before.options, after.options) };
+};
+
+// Ids in `after` that are not part of the longest common subsequence with `before`, i.e. the
+// smallest set of questions that has to move to turn one order into the other
+const findMovedIds = (before: string[], after: string[]): Set<string> => {
+  const lengths = before.map(() => new Array<number>(after.length + 1).fill(0));
+  lengths.push(new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const stable = new Set<string>();
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      stable.add(after[j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return new Set(after.filter(id => !stable.has(id)));
+};
+
+// Branching rules have no ids, so they are compared as a multiset of canonical rules per page
+const diffBranching = (before: SurveyContent, after: SurveyContent): BranchingChange[] => {
+  const pageCount = Math.max(before.pages?.length ?? 0, after.pages?.length ?? 0);
+  const changes: BranchingChange[] = [];
+  for (let pageIndex = 0; pageIndex < pageCount; pageIndex++) {
+    const remaining = (before.pages?.[pageIndex]?.branching || []).map(canonical);
+    let added = 0;
+    for (const rule of (after.pages?.[pageIndex]?.branching || []).map(canonical)) {
+      const match = remaining.indexOf(rule);
+      if (match === -1) {
+        added++;
+      } else {
+        remaining.splice(match, 1);
+      }
+    }
+    if (added > 0 || remaining.length > 0) {
+      changes.push({ pageIndex, added, removed: remaining.length });
+    }
+  }
+  return changes;
+};
+
+export const diffSurveyContent = (before: SurveyContent, after: SurveyContent): SurveyDiff => {
+  const fields: ValueChange[] = CONTENT_FIELDS
+    .filter(field => !isSame(before[field] ?? null, after[field] ?? null))
+    .map(field => ({ field, from: before[field], to: after[field] }));
+
+  const fromPages = before.pages?.length ?? 0;
+  const toPages = after.pages?.length ?? 0;
+
+  const fromQuestions = indexQuestions(before);
+  const toQuestions = indexQuestions(after);
+  const questions: SurveyDiff['questions'] = { added: [], removed: [], edited: [], moved: [] };
+
+  // Questions kept on the same page only count as moved when their relative order changed
+  const movedIds = new Set<string>();
+  for (let pageIndex = 0; pageIndex < Math.max(fromPages, toPages); pageIndex++) {
+    const keptOnPage = (content: SurveyContent, other: Map<string, LocatedQuestion>) =>
+      (content.pages?.[pageIndex]?.questions || [])
+        .map(question => String(question?.id))
+        .filter(id => other.get(id)?.pageIndex === pageIndex);
+    for (const id of findMovedIds(keptOnPage(before, toQuestions), keptOnPage(after, fromQuestions))) {
+      movedIds.add(id);
+    }
+  }
+
+  for (const [id, located] of toQuestions) {
+    const previous = fromQuestions.get(id);
+    if (!previous) {
+      questions.added.push(toRef(located));
+      continue;
+    }
+    const { changes, options } = diffQuestion(previous.question, located.question);
+    if (changes.length > 0 || options) {
+      questions.edited.push({ ...toRef(located), changes, ...(options ? { options } : {}) });
+    }
+    if (previous.pageIndex !== located.pageIndex || movedIds.has(id)) {
+      questions.moved.push({
+        ...toRef(located),
+        fromPageIndex: previous.pageIndex,
+        fromPosition: previous.position,
+        toPosition: located.position,
+      });
+    }
+  }
+  for (const [id, located] of fromQuestions) {
+    if (!toQuestions.has(id)) {
+      questions.removed.push(toRef(located));
+    }
+  }
+
+  return {
+    fields,
+    ...(fromPages === toPages ? {} : { pageCount: { from: fromPages, to: toPages } }),
+    questions,
+    branching: diffBranching(before, after),
+  };
+};
+
+export const isEmptyDiff = (diff: SurveyDiff): boolean =>
+  diff.fields.length === 0 &&
+  !diff.pageCount &&
+  diff.questions.added.length === 0 &&
+  diff.questions.removed.length === 0 &&
+  diff.questions.edited.length === 0 &&
+  diff.questions.moved.length === 0 &&
+  diff.branching.length === 0;
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// One-line descriptions of a diff, used as the "what changed" summary of a revision
+export const summarizeSurveyDiff = (diff: SurveyDiff): string[] => {
+  const summary: string[] = [];
+  for (const change of diff.fields) {
+    summary.push(`Changed survey ${change.field}`);
+  }
+  if (diff.pageCount) {
+    summary.push(`Pages: ${diff.pageCount.from} → ${diff.pageCount.to}`);
+  }
+  const { added, removed, edited, moved } = diff.questions;
+  if (added.length > 0) summary.push(`Added ${plural(added.length, 'question')}`);
+  if (removed.length > 0) summary.push(`Removed ${plural(removed.length, 'question')}`);
+  if (edited.length > 0) summary.push(`Edited ${plural(edited.length, 'question')}`);
+  if (moved.length > 0) summary.push(`Moved ${plural(moved.length, 'question')}`);
+  const rulesAdded = diff.branching.reduce((sum, change) => sum + change.added, 0);
+  const rulesRemoved = diff.branching.reduce((sum, change) => sum + change.removed, 0);
+  if (rulesAdded > 0) summary.push(`Added ${plural(rulesAdded, 'branching rule')}`);
+  if (rulesRemoved > 0) summary.push(`Removed ${plural(rulesRemoved, 'branching rule')}`);
+  return summary;
+};
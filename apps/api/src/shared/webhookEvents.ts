@@ -0,0 +1,30 @@
+// Events outbound webhooks can subscribe to, shared by the API (dispatch and validation) and the
+// web app (webhook settings, imported as `@shared/webhookEvents`).
+
+export const WEBHOOK_EVENTS = [
+  'response.started',
+  'response.submitted',
+  'survey.published',
+  'survey.closed',
+  'invitation.failed',
+] as const;
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+// Sent by "Send test event"; endpoints receive it regardless of their subscriptions
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  'response.started': 'Response started',
+  'response.submitted': 'Response submitted',
+  'survey.published': 'Survey published',
+  'survey.closed': 'Survey closed',
+  'invitation.failed': 'Invitation failed',
+};
+
+// Request headers of every delivery. The signature header has the form `t=<unix seconds>,v1=<hex>`
+// where v1 is the HMAC-SHA256 of `<t>.<raw body>` keyed with the webhook's secret.
+export const WEBHOOK_HEADERS = {
+  event: 'X-Webhook-Event',
+  delivery: 'X-Webhook-Delivery',
+  signature: 'X-Webhook-Signature',
+} as const;
@@ -0,0 +1,299 @@
+// Answer counts per question, computed by aggregation or kept incrementally in AnalyticsSummary.
+// Answers inside a loop count towards their question and, per loop item, towards its loop
+// answer key (`q_123#opt_1`).
+
+import { isMatrixAnswer } from '../shared/matrix';
+import { LOOP_KEY_SEPARATOR, loopAnswerKey, parseLoopAnswerKey } from '../shared/loops';
+
+// How answers to a question type are counted: by chosen value, by typed number, by matrix cell
+// or constant-sum allocation, by ranked position, by word, or only by number of answers
+export type StatsKind = 'values' | 'numbers' | 'cells' | 'ranks' | 'words' | 'count';
+
+const VALUE_QUESTION_TYPES = [
+  'singleChoice', 'multiChoice', 'dropdown',
+  'ratingStar', 'ratingNumber', 'ratingSmiley', 'nps',
+];
+const NUMBER_QUESTION_TYPES = ['slider', 'number'];
+const CELL_QUESTION_TYPES = ['matrix', 'constantSum'];
+const TEXT_QUESTION_TYPES = ['textShort', 'textLong'];
+
+export const getStatsKind = (questionType: string): StatsKind => {
+  if (VALUE_QUESTION_TYPES.includes(questionType)) return 'values';
+  if (NUMBER_QUESTION_TYPES.includes(questionType)) return 'numbers';
+  if (CELL_QUESTION_TYPES.includes(questionType)) return 'cells';
+  if (questionType === 'ranking') return 'ranks';
+  if (TEXT_QUESTION_TYPES.includes(questionType)) return 'words';
+  return 'count';
+};
+
+// Typed numbers and words can be anything respondents enter, so their distinct keys have no bound
+export const isOpenEndedKind = (kind: StatsKind): boolean => kind === 'numbers' || kind === 'words';
+
+export interface QuestionStats {
+  kind: StatsKind;
+  // Number of answers, however many values or words each holds
+  responses: number;
+  // Values of choice, rating and number questions; matrix questions count each row/column pair, constant-sum questions each option/amount
+  // pair and ranking questions each option/position pair (0-based), keyed by cellKey
+  values: Map<string, number>;
+  words: Map<string, number>;
+}
+
+export interface AnswerStats {
+  responseCount: number;
+  // Keyed by survey version; responses saved before versioning count as version 1
+  versions: Map<number, number>;
+  questions: Map<string, QuestionStats>;
+}
+
+export const STOP_WORDS = [
+  'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by',
+  'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had', 'do', 'does', 'did',
+  'will', 'would', 'could', 'should', 'may', 'might', 'must', 'can', 'cannot',
+  'this', 'that', 'these', 'those', 'i', 'you', 'he', 'she', 'it', 'we', 'they',
+  'me', 'him', 'her', 'us', 'them', 'my', 'your', 'his', 'its', 'our', 'their'
+];
+const STOP_WORD_SET = new Set(STOP_WORDS);
+
+// Words may be joined by apostrophes or hyphens, which are dropped ("don't" counts as "dont").
+// The aggregation pipeline uses the same pattern so cached and live word counts agree.
+export const WORD_PATTERN = "\\w+(?:['\u2019-]\\w+)*";
+export const WORD_JOINERS = ["'", '\u2019', '-'];
+
+export const extractWords = (text: string): string[] =>
+  (text.toLowerCase().match(new RegExp(WORD_PATTERN, 'g')) || [])
+    .map(word => WORD_JOINERS.reduce((acc, joiner) => acc.split(joiner).join(''), word))
+    .filter(word => word.length > 1 && !STOP_WORD_SET.has(word));
+
+export const emptyAnswerStats = (): AnswerStats => ({ responseCount: 0, versions: new Map(), questions: new Map() });
+
+const emptyQuestionStats = (kind: StatsKind): QuestionStats => ({ kind, responses: 0, values: new Map(), words: new Map() });
+
+const addCount = <K>(map: Map<K, number>, key: K, count: number) => {
+  map.set(key, (map.get(key) ?? 0) + count);
+};
+
+export const getQuestionStats = (stats: AnswerStats, questionId: string, kind: StatsKind): QuestionStats => {
+  let entry = stats.questions.get(questionId);
+  if (!entry) {
+    entry = emptyQuestionStats(kind);
+    stats.questions.set(questionId, entry);
+  }
+  return entry;
+};
+
+// Adds `source` into `target`; used to combine the cached summary with live in-progress responses
+export const mergeAnswerStats = (target: AnswerStats, source: AnswerStats): AnswerStats => {
+  target.responseCount += source.responseCount;
+  source.versions.forEach((count, version) => addCount(target.versions, version, count));
+  source.questions.forEach((entry, questionId) => {
+    const merged = getQuestionStats(target, questionId, entry.kind);
+    merged.responses += entry.responses;
+    entry.values.forEach((count, value) => addCount(merged.values, value, count));
+    entry.words.forEach((count, word) => addCount(merged.words, word, count));
+  });
+  return target;
+};
+
+// `stats` without the value and word counts of open-ended questions, which are not cached
+export const withoutOpenEndedCounts = (stats: AnswerStats): AnswerStats => ({
+  ...stats,
+  questions: new Map(Array.from(stats.questions, ([key, entry]): [string, QuestionStats] => [
+    key,
+    isOpenEndedKind(entry.kind) ? { ...entry, values: new Map(), words: new Map() } : entry,
+  ])),
+});
+
+// Only the value and word counts of `stats`, to add to stats that already count the same responses
+export const onlyDistributions = (stats: AnswerStats): AnswerStats => ({
+  responseCount: 0,
+  versions: new Map(),
+  questions: new Map(Array.from(stats.questions, ([key, entry]): [string, QuestionStats] => [key, { ...entry, responses: 0 }])),
+});
+
+// Unit separator: row, column and option ids are free-form but never contain control characters
+const CELL_SEPARATOR = '\u001f';
+
+export const cellKey = (first: string, second: string): string => `${first}${CELL_SEPARATOR}${second}`;
+
+export const parseCellKey = (key: string): [string, string] => {
+  const index = key.indexOf(CELL_SEPARATOR);
+  return index === -1 ? [key, ''] : [key.slice(0, index), key.slice(index + CELL_SEPARATOR.length)];
+};
+
+// Value keys are what a stored answer turns into as a string, so "4" and 4 count together
+const valueKey = (value: unknown): string | null =>
+  value === null || value === undefined || value === '' ? null : String(value);
+
+// The keys an answer is counted under
+const statsKeysOf = (answer: { questionId: string; iteration?: string }): string[] =>
+  typeof answer.iteration === 'string'
+    ? [answer.questionId, loopAnswerKey(answer.questionId, answer.iteration)]
+    : [answer.questionId];
+
+const countAnswer = (entry: QuestionStats, value: unknown) => {
+  entry.responses += 1;
+  if (entry.kind === 'values' || entry.kind === 'numbers') {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      const key = valueKey(item);
+      if (key !== null) addCount(entry.values, key, 1);
+    }
+  } else if (entry.kind === 'cells' && isMatrixAnswer(value)) {
+    for (const [rowId, selected] of Object.entries(value)) {
+      for (const columnId of Array.isArray(selected) ? selected : [selected]) {
+        const key = typeof columnId === 'string' || typeof columnId === 'number' ? valueKey(columnId) : null;
+        if (key !== null) addCount(entry.values, cellKey(rowId, key), 1);
+      }
+    }
+  } else if (entry.kind === 'ranks' && Array.isArray(value)) {
+    value.forEach((optionId, position) => addCount(entry.values, cellKey(String(optionId), String(position)), 1));
+  } else if (entry.kind === 'words' && typeof value === 'string') {
+    for (const word of extractWords(value)) addCount(entry.words, word, 1);
+  }
+};
+
+// Stats of a single response, counted the same way as the aggregation pipeline
+export const statsForResponse = (
+  answers: Array<{ questionId: string; value: unknown; iteration?: string }>,
+  surveyVersion: number | undefined,
+  kinds: Map<string, StatsKind>
+): AnswerStats => {
+  const stats = emptyAnswerStats();
+  stats.responseCount = 1;
+  stats.versions.set(surveyVersion ?? 1, 1);
+  for (const answer of answers) {
+    for (const key of statsKeysOf(answer)) {
+      countAnswer(getQuestionStats(stats, key, kinds.get(answer.questionId) ?? 'count'), answer.value);
+    }
+  }
+  return stats;
+};
+
+export interface AggregatedAnswerStats {
+  total: Array<{ count: number }>;
+  versions: Array<{ _id: number; count: number }>;
+  answers: Array<{ _id: string; count: number }>;
+  values: Array<{ _id: { questionId: string; value: unknown }; count: number }>;
+  cells: Array<{ _id: { questionId: string; cell: string }; count: number }>;
+  ranks: Array<{ _id: { questionId: string; cell: string }; count: number }>;
+  words: Array<{ _id: { questionId: string; word: string }; count: number }>;
+}
+
+export const fromAggregation = (result: AggregatedAnswerStats | undefined, kinds: Map<string, StatsKind>): AnswerStats => {
+  const stats = emptyAnswerStats();
+  if (!result) return stats;
+  stats.responseCount = result.total[0]?.count ?? 0;
+  for (const { _id, count } of result.versions) addCount(stats.versions, _id, count);
+  for (const { _id, count } of result.answers) {
+    getQuestionStats(stats, _id, kinds.get(parseLoopAnswerKey(_id).questionId) ?? 'count').responses += count;
+  }
+  for (const { _id, count } of result.values) {
+    const key = valueKey(_id.value);
+    if (key !== null) addCount(getQuestionStats(stats, _id.questionId, 'values').values, key, count);
+  }
+  for (const { _id, count } of result.cells) {
+    addCount(getQuestionStats(stats, _id.questionId, 'cells').values, _id.cell, count);
+  }
+  for (const { _id, count } of result.ranks) {
+    addCount(getQuestionStats(stats, _id.questionId, 'ranks').values, _id.cell, count);
+  }
+  for (const { _id, count } of result.words) {
+    addCount(getQuestionStats(stats, _id.questionId, 'words').words, _id.word, count);
+  }
+  return stats;
+};
+
+const stripJoiners = (expression: unknown): unknown =>
+  WORD_JOINERS.reduce((input, find) => ({ $replaceAll: { input, find, replacement: '' } }), expression);
+
+// One document per answer and stats key (see statsKeysOf), with the key in `responses.statsKey`
+const unwindAnswers = [
+  { $unwind: '$responses' },
+  {
+    $set: {
+      'responses.statsKey': {
+        $cond: [
+          { $ifNull: ['$responses.iteration', false] },
+          ['$responses.questionId', { $concat: ['$responses.questionId', LOOP_KEY_SEPARATOR, '$responses.iteration'] }],
+          ['$responses.questionId'],
+        ],
+      },
+    },
+  },
+  { $unwind: '$responses.statsKey' },
+];
+
+/**
+ * Counts answers per question, values of choice, rating and number questions, row/column
+ * pairs of matrix questions, option amounts of constant-sum questions, option
+ * positions of ranking questions and words of text questions for the responses
+ * matching `match`, in a single pass. Answers inside loops are also counted per loop item.
+ */
+export const buildAnswerStatsPipeline = (match: Record<string, unknown>, kinds: Map<string, StatsKind>) => {
+  const idsOfKind = (kind: StatsKind) => Array.from(kinds.entries()).filter(([, k]) => k === kind).map(([id]) => id);
+  return [
+    { $match: match },
+    {
+      $facet: {
+        total: [{ $count: 'count' }],
+        versions: [{ $group: { _id: { $ifNull: ['$surveyVersion', 1] }, count: { $sum: 1 } } }],
+        answers: [
+          ...unwindAnswers,
+          { $group: { _id: '$responses.statsKey', count: { $sum: 1 } } },
+        ],
+        values: [
+          ...unwindAnswers,
+          { $match: { 'responses.questionId': { $in: [...idsOfKind('values'), ...idsOfKind('numbers')] } } },
+          // Multi-choice answers count once per selected option
+          { $unwind: '$responses.value' },
+          { $match: { 'responses.value': { $nin: [null, ''] } } },
+          { $group: { _id: { questionId: '$responses.statsKey', value: '$responses.value' }, count: { $sum: 1 } } },
+        ],
+        cells: [
+          ...unwindAnswers,
+          { $match: { 'responses.questionId': { $in: idsOfKind('cells') }, 'responses.value': { $type: 'object' } } },
+          { $project: { questionId: '$responses.statsKey', cell: { $objectToArray: '$responses.value' } } },
+          { $unwind: '$cell' },
+          // Multi-select rows count once per selected column
+          { $unwind: '$cell.v' },
+          // Matrix cells hold column ids, constant-sum cells the amount given to the option
+          { $match: { 'cell.v': { $type: ['string', 'number'], $ne: '' } } },
+          {
+            $group: {
+              _id: { questionId: '$questionId', cell: { $concat: ['$cell.k', CELL_SEPARATOR, { $toString: '$cell.v' }] } },
+              count: { $sum: 1 },
+            },
+          },
+        ],
+        ranks: [
+          ...unwindAnswers,
+          { $match: { 'responses.questionId': { $in: idsOfKind('ranks') }, 'responses.value': { $type: 'array' } } },
+          { $unwind: { path: '$responses.value', includeArrayIndex: 'position' } },
+          {
+            $group: {
+              _id: {
+                questionId: '$responses.statsKey',
+                cell: { $concat: [{ $toString: '$responses.value' }, CELL_SEPARATOR, { $toString: '$position' }] },
+              },
+              count: { $sum: 1 },
+            },
+          },
+        ],
+        words: [
+          ...unwindAnswers,
+          { $match: { 'responses.questionId': { $in: idsOfKind('words') }, 'responses.value': { $type: 'string' } } },
+          {
+            $project: {
+              questionId: '$responses.statsKey',
+              token: { $regexFindAll: { input: { $toLower: '$responses.value' }, regex: WORD_PATTERN } },
+            },
+          },
+          { $unwind: '$token' },
+          { $project: { questionId: 1, word: stripJoiners('$token.match') } },
+          { $match: { word: { $nin: STOP_WORDS }, $expr: { $gt: [{ $strLenCP: '$word' }, 1] } } },
+          { $group: { _id: { questionId: '$questionId', word: '$word' }, count: { $sum: 1 } } },
+        ],
+      },
+    },
+  ];
+};
@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import { validateAnswers, pruneHiddenAnswers, AnswerValidationIssue } from './answerValidation';
+
+const survey = {
+  pages: [
+    {
+      questions: [
+        {
+          id: 'q_color',
+          type: 'singleChoice',
+          required: true,
+          options: [{ id: 'red', text: 'Red' }, { id: 'blue', text: 'Blue' }],
+        },
+        {
+          id: 'q_why_red',
+          type: 'textShort',
+          required: true,
+          visibilityRules: [{ questionId: 'q_color', condition: { operator: 'equals', value: 'red' } }],
+        },
+        { id: 'q_rating', type: 'ratingStar', required: false, settings: { maxRating: 5 } },
+      ],
+      branching: [
+        {
+          questionId: 'q_color',
+          condition: { operator: 'equals', value: 'blue' },
+          action: { type: 'skip_to_page', targetPageIndex: 2 },
+        },
+      ],
+    },
+    {
+      questions: [{ id: 'q_email', type: 'email', required: true }],
+      branching: [],
+    },
+    {
+      questions: [{ id: 'q_count', type: 'number', required: true, settings: { min: 0, max: 10 } }],
+      branching: [],
+    },
+  ],
+};
+
+const messagesFor = (issues: AnswerValidationIssue[], questionId: string) =>
+  issues.filter(issue => issue.questionId === questionId).map(issue => issue.message);
+
+describe('validateAnswers', () => {
+  it('rejects responses that are not an array', () => {
+    expect(validateAnswers(survey, { q_color: 'red' }, { requireComplete: false })).toEqual([
+      { questionId: '', message: 'Responses must be an array' },
+    ]);
+  });
+
+  it('accepts a complete submission along the visible path', () => {
+    const answers = [
+      { questionId: 'q_color', value: 'red', pageIndex: 0 },
+      { questionId: 'q_why_red', value: 'It is warm', pageIndex: 0 },
+      { questionId: 'q_email', value: 'someone@example.com', pageIndex: 1 },
+      { questionId: 'q_count', value: 3, pageIndex: 2 },
+    ];
+    expect(validateAnswers(survey, answers, { requireComplete: true })).toEqual([]);
+  });
+
+  it('reports answers that do not fit their question', () => {
+    const answers = [
+      { questionId: 'q_color', value: 'green', pageIndex: 0 },
+      { questionId: 'q_rating', value: 6, pageIndex: 0 },
+      { questionId: 'q_email', value: 'not an email', pageIndex: 1 },
+      { questionId: 'q_count', value: Number.NaN, pageIndex: 2 },
+    ];
+    const issues = validateAnswers(survey, answers, { requireComplete: false });
+    expect(messagesFor(issues, 'q_color')).toEqual(['Selected option does not belong to this question']);
+    expect(messagesFor(issues, 'q_rating')).toEqual(['Rating must be between 1 and 5']);
+    expect(messagesFor(issues, 'q_email')).toEqual(['Answer must be a valid email address']);
+    expect(messagesFor(issues, 'q_count')).toEqual(['Answer must be a number']);
+  });
+
+  it('reports values of the wrong type instead of coercing them', () => {
+    const answers = [
+      { questionId: 'q_color', value: ['red'], pageIndex: 0 },
+      { questionId: 'q_count', value: '3', pageIndex: 2 },
+    ];
+    const issues = validateAnswers(survey, answers, { requireComplete: false });
+    expect(messagesFor(issues, 'q_color')).toEqual(['Answer must be a single option']);
+    expect(messagesFor(issues, 'q_count')).toEqual(['Answer must be a number']);
+  });
+
+  it('reports unknown questions, repeated answers and answers on the wrong page', () => {
+    const answers = [
+      { questionId: 'q_missing', value: 'x', pageIndex: 0 },
+      { questionId: 'q_color', value: 'red', pageIndex: 0 },
+      { questionId: 'q_color', value: 'blue', pageIndex: 0 },
+      { questionId: 'q_email', value: 'someone@example.com', pageIndex: 0 },
+      { questionId: { $ne: null }, value: 'x', pageIndex: 0 },
+    ];
+    const issues = validateAnswers(survey, answers, { requireComplete: false });
+    expect(messagesFor(issues, 'q_missing')).toEqual(['Question does not exist in this survey']);
+    expect(messagesFor(issues, 'q_color')).toEqual(['Question was answered more than once']);
+    expect(messagesFor(issues, 'q_email')).toEqual(['Answer page does not match the survey definition']);
+    expect(messagesFor(issues, '')).toEqual(['Question does not exist in this survey']);
+  });
+
+  it('reports skipped required questions on the visible path', () => {
+    const answers = [{ questionId: 'q_color', value: 'red', pageIndex: 0 }];
+    const issues = validateAnswers(survey, answers, { requireComplete: true });
+    expect(issues).toEqual([
+      { questionId: 'q_why_red', message: 'This question is required' },
+      { questionId: 'q_email', message: 'This question is required' },
+      { questionId: 'q_count', message: 'This question is required' },
+    ]);
+  });
+
+  it('treats blank answers to required questions as skipped', () => {
+    const answers = [
+      { questionId: 'q_color', value: 'red', pageIndex: 0 },
+      { questionId: 'q_why_red', value: '   ', pageIndex: 0 },
+      { questionId: 'q_email', value: 'someone@example.com', pageIndex: 1 },
+      { questionId: 'q_count', value: 1, pageIndex: 2 },
+    ];
+    expect(validateAnswers(survey, answers, { requireComplete: true })).toEqual([
+      { questionId: 'q_why_red', message: 'This question is required' },
+    ]);
+  });
+
+  it('does not require questions hidden by visibility or skipped by branching', () => {
+    const answers = [
+      { questionId: 'q_color', value: 'blue', pageIndex: 0 },
+      { questionId: 'q_count', value: 10, pageIndex: 2 },
+    ];
+    expect(validateAnswers(survey, answers, { requireComplete: true })).toEqual([]);
+  });
+
+  it('does not require anything when saving progress', () => {
+    expect(validateAnswers(survey, [], { requireComplete: false })).toEqual([]);
+  });
+
+  it('requires questions inside a loop once per item', () => {
+    const loopSurvey = {
+      pages: [
+        {
+          questions: [{ id: 'q_score', type: 'ratingNumber', required: true }],
+          branching: [],
+          loop: { items: [{ id: 'tea', text: 'Tea' }, { id: 'coffee', text: 'Coffee' }] },
+        },
+      ],
+    };
+    const answers = [
+      { questionId: 'q_score', value: 7, pageIndex: 0, iteration: 'tea' },
+      { questionId: 'q_score', value: 8, pageIndex: 0 },
+    ];
+    expect(validateAnswers(loopSurvey, answers, { requireComplete: true })).toEqual([
+      { questionId: 'q_score', message: 'Answers inside a loop need the loop item' },
+      { questionId: 'q_score', message: 'This question is required' },
+    ]);
+  });
+});
+
+describe('pruneHiddenAnswers', () => {
+  it('drops answers to questions the respondent could not have seen', () => {
+    const answers = [
+      { questionId: 'q_color', value: 'blue', pageIndex: 0 },
+      { questionId: 'q_why_red', value: 'sneaked in', pageIndex: 0 },
+      { questionId: 'q_email', value: 'someone@example.com', pageIndex: 1 },
+      { questionId: 'q_count', value: 2, pageIndex: 2 },
+    ];
+    expect(pruneHiddenAnswers(survey, answers).map(answer => answer.questionId)).toEqual(['q_color', 'q_count']);
+  });
+
+  it('keeps answers to unknown questions so validation can report them', () => {
+    const answers = [{ questionId: 'q_missing', value: 'x', pageIndex: 0 }];
+    expect(pruneHiddenAnswers(survey, answers)).toEqual(answers);
+  });
+});
@@ -0,0 +1,379 @@
+import { QuestionType } from '../models/Question';
+import { computeVisiblePath, AnswerMap } from '../shared/ruleEngine';
+import { HiddenFieldValues, withHiddenFieldAnswers } from '../shared/hiddenFields';
+import { getComputedVariables } from '../shared/computedVariables';
+import { getLoopedQuestionIds, loopAnswerKey, parseLoopAnswerKey } from '../shared/loops';
+import { NPS_MIN, NPS_MAX } from '../shared/nps';
+import { getMatrixColumns, getMatrixRows, isMatrixAnswer, isMatrixComplete, isMatrixMultiSelect } from '../shared/matrix';
+import { getRankingLength } from '../shared/ranking';
+import {
+  countDecimals,
+  getConstantSumTotal,
+  getNumberSettings,
+  isConstantSumAnswer,
+  isConstantSumComplete,
+  sumConstantSumAnswer,
+} from '../shared/numeric';
+
+export interface AnswerValidationIssue {
+  questionId: string;
+  message: string;
+}
+
+export interface SubmittedAnswer {
+  questionId: string;
+  value: any;
+  pageIndex: number;
+  // Loop item id, for questions inside a loop
+  iteration?: string;
+}
+
+/**
+ * Thrown when a submission does not match the survey definition.
+ * Carries one issue per offending question so routes can report them.
+ */
+export class AnswerValidationError extends Error {
+  readonly issues: AnswerValidationIssue[];
+
+  constructor(issues: AnswerValidationIssue[]) {
+    super('Some answers are invalid');
+    this.name = 'AnswerValidationError';
+    this.issues = issues;
+  }
+}
+
+const SMILEY_VALUES = new Set(['very_sad', 'sad', 'neutral', 'happy', 'very_happy']);
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const OTHER_OPTION_ID = 'other';
+const STEP_TOLERANCE = 1e-9;
+
+type QuestionLocation = { question: any; pageIndex: number };
+
+const isEmptyValue = (value: any): boolean =>
+  value === undefined ||
+  value === null ||
+  (typeof value === 'string' && value.trim() === '') ||
+  (Array.isArray(value) && value.length === 0) ||
+  // Matrix and constant-sum answers with nothing filled in
+  (isMatrixAnswer(value) && Object.keys(value).length === 0);
+
+const getOptionIds = (question: any): Set<string> => {
+  const ids = new Set<string>();
+  for (const opt of question.options || []) {
+    // Support both {id, text} and legacy string options
+    if (typeof opt === 'string') {
+      ids.add(opt);
+    } else if (opt?.id) {
+      ids.add(String(opt.id));
+    }
+  }
+  if (question.settings?.allowOther) {
+    ids.add(OTHER_OPTION_ID);
+  }
+  return ids;
+};
+
+const validateSingleChoice = (question: any, value: any): string | null => {
+  if (typeof value !== 'string') return 'Answer must be a single option';
+  if (!getOptionIds(question).has(value)) return 'Selected option does not belong to this question';
+  return null;
+};
+
+const validateMultiChoice = (question: any, value: any): string | null => {
+  if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) {
+    return 'Answer must be a list of options';
+  }
+  if (new Set(value).size !== value.length) return 'Options cannot be selected more than once';
+  const optionIds = getOptionIds(question);
+  if (value.some(v => !optionIds.has(v))) return 'Selected option does not belong to this question';
+  return null;
+};
+
+const validateRanking = (question: any, value: any): string | null => {
+  if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) return 'Answer must be a list of options in order';
+  if (new Set(value).size !== value.length) return 'Options cannot be ranked more than once';
+  const optionIds = getOptionIds(question);
+  if (value.some(v => !optionIds.has(v))) return 'Ranked option does not belong to this question';
+  const length = getRankingLength(question);
+  if (value.length !== length) return `Exactly ${length} options must be ranked`;
+  return null;
+};
+
+const validateSlider = (question: any, value: any): string | null => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return 'Answer must be a number';
+  // Defaults mirror SliderQuestion in the web app
+  const min = Number(question.settings?.scaleMin) || 0;
+  const max = Number(question.settings?.scaleMax) || 100;
+  const step = Number(question.settings?.scaleStep) || 1;
+  if (value < min || value > max) return `Answer must be between ${min} and ${max}`;
+  const steps = (value - min) / step;
+  if (Math.abs(steps - Math.round(steps)) > STEP_TOLERANCE) return `Answer must be in steps of ${step}`;
+  return null;
+};
+
+const validateMatrix = (question: any, value: any): string | null => {
+  if (!isMatrixAnswer(value)) return 'Answer must map rows to columns';
+  const rowIds = new Set(getMatrixRows(question).map(row => row.id));
+  const columnIds = new Set(getMatrixColumns(question).map(column => column.id));
+  const multiSelect = isMatrixMultiSelect(question);
+  for (const [rowId, selected] of Object.entries(value)) {
+    if (!rowIds.has(rowId)) return 'Answered row does not belong to this question';
+    if (multiSelect) {
+      if (!Array.isArray(selected) || selected.some(v => typeof v !== 'string')) return 'Each row must be answered with a list of columns';
+      if (new Set(selected).size !== selected.length) return 'Columns cannot be selected more than once in a row';
+      if (selected.some(v => !columnIds.has(v))) return 'Selected column does not belong to this question';
+    } else if (typeof selected !== 'string' || !columnIds.has(selected)) {
+      return 'Each row must be answered with a single column of this question';
+    }
+  }
+  return null;
+};
+
+const validateNumber = (question: any, value: any): string | null => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return 'Answer must be a number';
+  const { min, max, decimals } = getNumberSettings(question);
+  if (min !== undefined && value < min) return `Answer must be at least ${min}`;
+  if (max !== undefined && value > max) return `Answer must be at most ${max}`;
+  if (countDecimals(value) > decimals) {
+    return decimals === 0 ? 'Answer must be a whole number' : `Answer can have at most ${decimals} decimal place${decimals === 1 ? '' : 's'}`;
+  }
+  return null;
+};
+
+const validateConstantSum = (question: any, value: any): string | null => {
+  if (!isConstantSumAnswer(value)) return 'Answer must map options to amounts';
+  const optionIds = getOptionIds(question);
+  for (const [optionId, amount] of Object.entries(value)) {
+    if (!optionIds.has(optionId)) return 'Option does not belong to this question';
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) return 'Amounts must be zero or more';
+  }
+  if (!isConstantSumComplete(question, value)) {
+    return `Amounts must add up to ${getConstantSumTotal(question)} (currently ${Number(sumConstantSumAnswer(value).toFixed(6))})`;
+  }
+  return null;
+};
+
+const validateRating = (value: any, maxRating: number): string | null => {
+  if (typeof value !== 'number' || !Number.isInteger(value)) return 'Rating must be a whole number';
+  if (value < 1 || value > maxRating) return `Rating must be between 1 and ${maxRating}`;
+  return null;
+};
+
+// Rating scales are capped at 10 in the renderers, so cap them here as well
+export const getMaxRating = (question: any, fallback: number): number =>
+  Math.min(Math.max(Number(question.settings?.maxRating) || fallback, 1), 10);
+
+const validateText = (question: any, value: any): string | null => {
+  if (typeof value !== 'string') return 'Answer must be text';
+  const { minLength, maxLength } = question.settings || {};
+  const length = value.trim().length;
+  if (typeof minLength === 'number' && length < minLength) return `Answer must be at least ${minLength} characters`;
+  if (typeof maxLength === 'number' && value.length > maxLength) return `Answer must be at most ${maxLength} characters`;
+  return null;
+};
+
+const validateEmail = (value: any): string | null => {
+  if (typeof value !== 'string' || !EMAIL_REGEX.test(value.trim())) return 'Answer must be a valid email address';
+  return null;
+};
+
+const validateDate = (question: any, value: any): string | null => {
+  if (typeof value !== 'string' || Number.isNaN(new Date(value).getTime())) return 'Answer must be a valid date';
+  const { minDate, maxDate } = question.settings || {};
+  // Dates are ISO (YYYY-MM-DD) strings, so lexical comparison matches chronological order
+  if (minDate && value < minDate) return `Date must be on or after ${minDate}`;
+  if (maxDate && value > maxDate) return `Date must be on or before ${maxDate}`;
+  return null;
+};
+
+// File answers reference uploads made through /api/responses/:surveyId/files
+const isUploadedFileRef = (value: any): boolean =>
+  !!value && typeof value === 'object' && typeof value.fileId === 'string' && value.fileId.trim() !== '' &&
+  typeof value.name === 'string';
+
+const validateFileUpload = (question: any, value: any): string | null => {
+  const files = Array.isArray(value) ? value : [value];
+  if (files.some(f => !isUploadedFileRef(f))) return 'Answer must reference uploaded files';
+  if (new Set(files.map(f => f.fileId)).size !== files.length) return 'The same file cannot be attached twice';
+  const maxFiles = Number(question.settings?.maxFiles) || 1;
+  if (files.length > maxFiles) return `At most ${maxFiles} file(s) can be uploaded`;
+  return null;
+};
+
+const validateAnswerValue = (question: any, value: any): string | null => {
+  switch (question.type) {
+    case QuestionType.SINGLE_CHOICE:
+    case QuestionType.DROPDOWN:
+      return validateSingleChoice(question, value);
+    case QuestionType.MULTI_CHOICE:
+      return validateMultiChoice(question, value);
+    case QuestionType.SLIDER:
+      return validateSlider(question, value);
+    case QuestionType.RATING_STAR:
+      return validateRating(value, getMaxRating(question, 5));
+    case QuestionType.RATING_NUMBER:
+      return validateRating(value, getMaxRating(question, 10));
+    case QuestionType.NPS:
+      return Number.isInteger(value) && value >= NPS_MIN && value <= NPS_MAX
+        ? null
+        : `Answer must be a whole number from ${NPS_MIN} to ${NPS_MAX}`;
+    case QuestionType.MATRIX:
+      return validateMatrix(question, value);
+    case QuestionType.RANKING:
+      return validateRanking(question, value);
+    case QuestionType.CONSTANT_SUM:
+      return validateConstantSum(question, value);
+    case QuestionType.NUMBER:
+      return validateNumber(question, value);
+    case QuestionType.RATING_SMILEY:
+      return typeof value === 'string' && SMILEY_VALUES.has(value) ? null : 'Answer must be a valid smiley rating';
+    case QuestionType.TEXT_SHORT:
+    case QuestionType.TEXT_LONG:
+      return validateText(question, value);
+    case QuestionType.EMAIL:
+      return validateEmail(value);
+    case QuestionType.DATE_PICKER:
+      return validateDate(question, value);
+    case QuestionType.FILE_UPLOAD:
+      return validateFileUpload(question, value);
+    default:
+      return `Unsupported question type: ${question.type}`;
+  }
+};
+
+const indexQuestions = (survey: any): Map<string, QuestionLocation> => {
+  const questions = new Map<string, QuestionLocation>();
+  (survey.pages || []).forEach((page: any, pageIndex: number) => {
+    for (const question of page.questions || []) {
+      if (question?.id) questions.set(String(question.id), { question, pageIndex });
+    }
+  });
+  return questions;
+};
+
+// Answers inside loops are keyed by question and loop item, as the rule engine expects
+const answerKeyOf = (answer: SubmittedAnswer): string =>
+  loopAnswerKey(answer.questionId, typeof answer.iteration === 'string' ? answer.iteration : undefined);
+
+export const toAnswerMap = (answers: SubmittedAnswer[]): AnswerMap => {
+  const map: AnswerMap = {};
+  for (const answer of answers) {
+    if (typeof answer?.questionId === 'string' && !isEmptyValue(answer.value)) {
+      map[answerKeyOf(answer)] = answer.value;
+    }
+  }
+  return map;
+};
+
+const getVisibleQuestionIds = (survey: any, answers: SubmittedAnswer[], hiddenFields?: HiddenFieldValues): Set<string> =>
+  computeVisiblePath(
+    survey.pages || [],
+    withHiddenFieldAnswers(toAnswerMap(answers), hiddenFields),
+    getComputedVariables(survey)
+  ).visibleQuestionIds;
+
+/**
+ * Lists the uploaded file ids referenced by fileUpload answers, per question,
+ * so callers can check they belong to the respondent.
+ */
+export const getReferencedFiles = (
+  survey: any,
+  answers: SubmittedAnswer[]
+): Array<{ questionId: string; fileId: string }> => {
+  const questions = indexQuestions(survey);
+  const references: Array<{ questionId: string; fileId: string }> = [];
+  for (const answer of answers) {
+    const location = questions.get(answer?.questionId);
+    if (location?.question.type !== QuestionType.FILE_UPLOAD || isEmptyValue(answer.value)) continue;
+    const files = Array.isArray(answer.value) ? answer.value : [answer.value];
+    for (const file of files) {
+      if (isUploadedFileRef(file)) references.push({ questionId: answer.questionId, fileId: file.fileId });
+    }
+  }
+  return references;
+};
+
+/**
+ * Drops answers to questions the respondent could not have seen, given the
+ * survey's visibility and branching rules evaluated against the same answers
+ * and the response's hidden field values.
+ */
+export const pruneHiddenAnswers = <T extends SubmittedAnswer>(survey: any, answers: T[], hiddenFields?: HiddenFieldValues): T[] => {
+  if (!Array.isArray(answers)) return answers;
+  const visibleIds = getVisibleQuestionIds(survey, answers, hiddenFields);
+  const questionIds = new Set(indexQuestions(survey).keys());
+  // Unknown question ids are kept so validation can report them
+  return answers.filter(a => !questionIds.has(a?.questionId) || visibleIds.has(answerKeyOf(a)));
+};
+
+/**
+ * Validates submitted answers against the survey's page and question definitions.
+ * When `requireComplete` is set, required questions on the visible path must also
+ * be answered (used for final submission; auto-save only checks what was sent).
+ */
+export const validateAnswers = (
+  survey: any,
+  answers: unknown,
+  options: { requireComplete: boolean; hiddenFields?: HiddenFieldValues }
+): AnswerValidationIssue[] => {
+  if (!Array.isArray(answers)) {
+    return [{ questionId: '', message: 'Responses must be an array' }];
+  }
+
+  const questions = indexQuestions(survey);
+  const loopedQuestionIds = getLoopedQuestionIds(survey.pages || []);
+  const issues: AnswerValidationIssue[] = [];
+  // Keyed by answer key: questions inside a loop are answered once per item
+  const answered = new Map<string, any>();
+
+  for (const answer of answers as SubmittedAnswer[]) {
+    const questionId = typeof answer?.questionId === 'string' ? answer.questionId : '';
+    const location = questions.get(questionId);
+    if (!location) {
+      issues.push({ questionId, message: 'Question does not exist in this survey' });
+      continue;
+    }
+    if (loopedQuestionIds.has(questionId) !== (typeof answer.iteration === 'string' && answer.iteration !== '')) {
+      issues.push({
+        questionId,
+        message: loopedQuestionIds.has(questionId) ? 'Answers inside a loop need the loop item' : 'Only answers inside a loop have a loop item',
+      });
+      continue;
+    }
+    const key = answerKeyOf(answer);
+    if (answered.has(key)) {
+      issues.push({ questionId, message: 'Question was answered more than once' });
+      continue;
+    }
+    answered.set(key, answer.value);
+
+    if (answer.pageIndex !== location.pageIndex) {
+      issues.push({ questionId, message: 'Answer page does not match the survey definition' });
+      continue;
+    }
+    if (isEmptyValue(answer.value)) {
+      // Empty answers are dropped by the renderer; treat them as unanswered
+      answered.delete(key);
+      continue;
+    }
+    const message = validateAnswerValue(location.question, answer.value);
+    if (message) issues.push({ questionId, message });
+  }
+
+  if (options.requireComplete) {
+    // Only questions on the respondent's visible path can be required
+    const visibleIds = getVisibleQuestionIds(survey, answers as SubmittedAnswer[], options.hiddenFields);
+    for (const key of visibleIds) {
+      const { questionId } = parseLoopAnswerKey(key);
+      const question = questions.get(questionId)?.question;
+      if (!question?.required) continue;
+      if (!answered.has(key)) {
+        issues.push({ questionId, message: 'This question is required' });
+      } else if (question.type === QuestionType.MATRIX && !isMatrixComplete(question, answered.get(key))) {
+        issues.push({ questionId, message: 'Every row of this question must be answered' });
+      }
+    }
+  }
+
+  return issues;
+};
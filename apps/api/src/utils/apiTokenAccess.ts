@@ -0,0 +1,90 @@
+import { ApiTokenScope } from '../shared/apiTokenScopes';
+
+// Scope each endpoint needs, keyed by method and route as declared in the routers. Endpoints not
+// listed cannot be called with an API token at all (account, token, workspace, collaborator and
+// webhook management stay session-only).
+const ROUTE_SCOPES: Record<string, ApiTokenScope> = {
+  // Surveys and their versions
+  'GET /api/surveys': 'surveys:read',
+  'POST /api/surveys': 'surveys:write',
+  'POST /api/surveys/import': 'surveys:write',
+  'GET /api/surveys/:surveyId': 'surveys:read',
+  'PUT /api/surveys/:surveyId': 'surveys:write',
+  'DELETE /api/surveys/:surveyId': 'surveys:write',
+  'POST /api/surveys/:surveyId/duplicate': 'surveys:write',
+  // Read-only: returns the survey as JSON
+  'POST /api/surveys/:surveyId/export': 'surveys:read',
+  'GET /api/surveys/:surveyId/versions': 'surveys:read',
+  'POST /api/surveys/:surveyId/versions': 'surveys:write',
+  'DELETE /api/surveys/:surveyId/draft': 'surveys:write',
+  'GET /api/surveys/:surveyId/revisions': 'surveys:read',
+  'GET /api/surveys/:surveyId/revisions/diff': 'surveys:read',
+  'GET /api/surveys/:surveyId/revisions/:revision': 'surveys:read',
+  'POST /api/surveys/:surveyId/revisions/:revision/restore': 'surveys:write',
+
+  // Templates
+  'GET /api/templates': 'surveys:read',
+  'GET /api/templates/:id': 'surveys:read',
+  'POST /api/templates/:id/instantiate': 'surveys:write',
+  'POST /api/templates/import': 'surveys:write',
+  'POST /api/templates/ensure-samples': 'surveys:write',
+  'PATCH /api/templates/:id': 'surveys:write',
+  'DELETE /api/templates/:id': 'surveys:write',
+
+  // Survey recipients: who was invited and how far they got is respondent data
+  'GET /api/surveys/:surveyId/respondents': 'responses:read',
+  'GET /api/surveys/:surveyId/respondents/invitations': 'responses:read',
+  'GET /api/surveys/:surveyId/respondents/count': 'surveys:read',
+  'GET /api/surveys/:surveyId/respondent-progress': 'responses:read',
+  'POST /api/surveys/:surveyId/respondents': 'respondents:write',
+  'PATCH /api/surveys/:surveyId/respondents': 'respondents:write',
+  'DELETE /api/surveys/:surveyId/respondents/:email': 'respondents:write',
+  'PUT /api/surveys/:surveyId/respondents/invitations/:respondentId/hidden-fields': 'respondents:write',
+  'POST /api/surveys/:surveyId/respondents/send-invitations': 'respondents:write',
+  'POST /api/jobs/send-invitations': 'respondents:write',
+  'GET /api/jobs/pending-invitations/count': 'respondents:write',
+  'POST /api/jobs/surveys/:id/invitations/jobs': 'respondents:write',
+  'GET /api/jobs/jobs/:jobId/status': 'respondents:write',
+
+  // Responses and analytics
+  'GET /api/responses': 'responses:read',
+  'GET /api/responses/:surveyId/by-email': 'responses:read',
+  'GET /api/responses/:surveyId/export': 'responses:read',
+  'GET /api/responses/:surveyId/files/:fileId': 'responses:read',
+  'GET /api/analytics/:surveyId': 'responses:read',
+  'GET /api/analytics/:surveyId/cross-tab': 'responses:read',
+
+  // Respondents and groups
+  'GET /api/respondents': 'respondents:read',
+  'GET /api/respondents/:id': 'respondents:read',
+  'POST /api/respondents': 'respondents:write',
+  'POST /api/respondents/import/azure': 'respondents:write',
+  'PATCH /api/respondents/:id': 'respondents:write',
+  'DELETE /api/respondents/:id': 'respondents:write',
+  'GET /api/respondent-groups': 'respondents:read',
+  'GET /api/respondent-groups/:id': 'respondents:read',
+  'POST /api/respondent-groups': 'respondents:write',
+  'PATCH /api/respondent-groups/:id': 'respondents:write',
+  'DELETE /api/respondent-groups/:id': 'respondents:write',
+  'POST /api/respondent-groups/:id/members': 'respondents:write',
+  'DELETE /api/respondent-groups/:id/members': 'respondents:write',
+  'POST /api/respondent-groups/:id/duplicate': 'respondents:write',
+};
+
+// Parameter names differ between routers and docs (`:id` vs `:surveyId`), so only their position counts
+const routeKey = (method: string, route: string): string => {
+  const verb = method.toUpperCase() === 'HEAD' ? 'GET' : method.toUpperCase();
+  const path = route.length > 1 ? route.replace(/\/+$/, '') : route;
+  return `${verb} ${path.replace(/:\w+/g, ':')}`;
+};
+
+const SCOPE_BY_ROUTE = new Map(
+  Object.entries(ROUTE_SCOPES).map(([endpoint, scope]) => {
+    const [method, route] = endpoint.split(' ');
+    return [routeKey(method, route), scope];
+  })
+);
+
+// Scope an API token needs for a route (mount path plus route pattern), or null when tokens may not call it
+export const requiredApiTokenScope = (method: string, route: string): ApiTokenScope | null =>
+  SCOPE_BY_ROUTE.get(routeKey(method, route)) ?? null;
@@ -57,7 +57,16 @@ export const generateRespondentToken = (surveyId: string, email: string): string
   );
 };
 
+// Token for anonymous-link respondents: binds the browser's session (and device) to one survey
+export const generateAnonymousSurveyToken = (surveyId: string, sessionId: string, deviceId: string): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET is not defined');
+  }
 
-
-
-
+  return jwt.sign(
+    { surveyId, sessionId, deviceId },
+    secret,
+    { expiresIn: '7d' }
+  );
+};
@@ -0,0 +1,289 @@
+import { QuestionType } from '../models/Question';
+import { VersionedQuestion } from './questionCatalog';
+import { CellValue } from './csv';
+import { getChoiceOptions, findAnswerValue, toIso } from './responseTable';
+import { getRespondentKey } from './respondentIdentity';
+import { SMILEY_SCALE, SMILEY_SCORES } from '../shared/smileyScale';
+import { getMatrixColumns, getMatrixRowAnswer, getMatrixRows, isMatrixMultiSelect } from '../shared/matrix';
+import { getRankingLength } from '../shared/ranking';
+import { isConstantSumAnswer } from '../shared/numeric';
+import { HiddenFieldDefinition, getHiddenFieldLabel } from '../shared/hiddenFields';
+import { ComputedVariableDefinition, getComputedVariableLabel } from '../shared/computedVariables';
+
+export interface ValueLabel {
+  code: number;
+  label: string;
+}
+
+export interface CodebookVariable {
+  name: string;
+  label: string;
+  type: 'numeric' | 'string';
+  valueLabels: ValueLabel[];
+  // Ordinal scales become ordered factors in R
+  ordinal: boolean;
+  questionId?: string;
+  questionType?: string;
+}
+
+export interface CodedDataset {
+  variables: CodebookVariable[];
+  rows: CellValue[][];
+}
+
+interface CodedColumn {
+  variable: CodebookVariable;
+  value: (response: any) => CellValue;
+}
+
+const NUMERIC_TYPES = new Set<string>([
+  QuestionType.SLIDER, QuestionType.RATING_STAR, QuestionType.RATING_NUMBER, QuestionType.NPS, QuestionType.NUMBER,
+]);
+const STATUS_CODES: ValueLabel[] = [
+  { code: 1, label: 'Pending' },
+  { code: 2, label: 'In progress' },
+  { code: 3, label: 'Completed' },
+];
+const STATUS_VALUES = ['Pending', 'InProgress', 'Completed'];
+const SELECTED_LABELS: ValueLabel[] = [
+  { code: 0, label: 'Not selected' },
+  { code: 1, label: 'Selected' },
+];
+const MAX_NAME_LENGTH = 60;
+// Keywords SPSS does not accept as variable names
+const RESERVED_NAMES = new Set(['all', 'and', 'by', 'eq', 'ge', 'gt', 'le', 'lt', 'ne', 'not', 'or', 'to', 'with']);
+
+/**
+ * Hands out variable names valid in both SPSS and R: a letter first, then
+ * letters, digits and underscores. Names are unique ignoring case.
+ */
+class VariableNamer {
+  private readonly used = new Set<string>();
+
+  name(source: string): string {
+    let base = source.replace(/[^A-Za-z0-9_]+/g, '_').replace(/^_+|_+$/g, '') || 'v';
+    if (!/^[A-Za-z]/.test(base)) base = `q_${base}`;
+    if (RESERVED_NAMES.has(base.toLowerCase())) base = `${base}_v`;
+    base = base.slice(0, MAX_NAME_LENGTH);
+
+    let candidate = base;
+    for (let n = 2; this.used.has(candidate.toLowerCase()); n++) {
+      candidate = `${base.slice(0, MAX_NAME_LENGTH - String(n).length - 1)}_${n}`;
+    }
+    this.used.add(candidate.toLowerCase());
+    return candidate;
+  }
+}
+
+const variable = (
+  name: string,
+  label: string,
+  type: CodebookVariable['type'],
+  extra: Partial<CodebookVariable> = {}
+): CodebookVariable => ({ name, label, type, valueLabels: [], ordinal: false, ...extra });
+
+const metadataColumns = (namer: VariableNamer): CodedColumn[] => [
+  { variable: variable(namer.name('response_id'), 'Response ID', 'string'), value: (r) => String(r._id) },
+  { variable: variable(namer.name('respondent'), 'Respondent', 'string'), value: (r) => getRespondentKey(r) ?? null },
+  {
+    variable: variable(namer.name('status'), 'Response status', 'numeric', { valueLabels: STATUS_CODES }),
+    value: (r) => STATUS_VALUES.indexOf(r.status) + 1 || null,
+  },
+  { variable: variable(namer.name('survey_version'), 'Survey version', 'numeric'), value: (r) => r.surveyVersion ?? 1 },
+  { variable: variable(namer.name('started_at'), 'Started at (UTC)', 'string'), value: (r) => toIso(r.startedAt) },
+  { variable: variable(namer.name('submitted_at'), 'Submitted at (UTC)', 'string'), value: (r) => toIso(r.submittedAt) },
+  {
+    variable: variable(namer.name('time_spent'), 'Time spent (seconds)', 'numeric'),
+    value: (r) => r.metadata?.timeSpent ?? null,
+  },
+];
+
+// One string variable per hidden field, named after the field
+const hiddenFieldColumns = (namer: VariableNamer, fields: HiddenFieldDefinition[]): CodedColumn[] =>
+  fields.map(field => ({
+    variable: variable(namer.name(`hidden_${field.name}`), `Hidden field: ${getHiddenFieldLabel(field)}`, 'string'),
+    value: (r) => r.hiddenFields?.[field.name] ?? null,
+  }));
+
+// Computed variables are numeric when every exported value is a number or yes/no (coded 1/0)
+const computedColumns = (namer: VariableNamer, variables: ComputedVariableDefinition[], responses: any[]): CodedColumn[] =>
+  variables.map(computed => {
+    const valueOf = (r: any) => r.computed?.[computed.name] ?? null;
+    const numeric = responses.every(r => {
+      const value = valueOf(r);
+      return value === null || typeof value === 'number' || typeof value === 'boolean';
+    });
+    return {
+      variable: variable(namer.name(`computed_${computed.name}`), `Computed: ${getComputedVariableLabel(computed)}`, numeric ? 'numeric' : 'string'),
+      value: (r) => {
+        const value = valueOf(r);
+        if (typeof value === 'boolean') return numeric ? Number(value) : String(value);
+        return value === null ? null : numeric ? value : String(value);
+      },
+    };
+  });
+
+const toNumber = (value: any): CellValue => {
+  const n = Number(value);
+  return value === null || value === '' || Number.isNaN(n) ? null : n;
+};
+
+const toText = (question: any, value: any): CellValue => {
+  if (value === null || value === undefined || value === '') return null;
+  if (question.type === QuestionType.FILE_UPLOAD) {
+    return (Array.isArray(value) ? value : [value]).map((file: any) => file?.name ?? '').join('; ');
+  }
+  return Array.isArray(value) ? value.join('; ') : String(value);
+};
+
+const questionColumns = (namer: VariableNamer, { question }: VersionedQuestion): CodedColumn[] => {
+  const title = question.title || question.id;
+  const source = { questionId: question.id, questionType: question.type };
+  const answer = (response: any) => findAnswerValue(response, question.id);
+
+  switch (question.type) {
+    case QuestionType.SINGLE_CHOICE:
+    case QuestionType.DROPDOWN: {
+      // Options are coded 1..n in survey order; "Other" follows the last option
+      const options = getChoiceOptions(question);
+      const codes = new Map(options.map(([id], i) => [id, i + 1]));
+      return [{
+        variable: variable(namer.name(question.id), title, 'numeric', {
+          ...source,
+          valueLabels: options.map(([, text], i) => ({ code: i + 1, label: text })),
+        }),
+        value: (response) => codes.get(String(answer(response) ?? '')) ?? null,
+      }];
+    }
+    case QuestionType.MULTI_CHOICE: {
+      const base = namer.name(question.id);
+      return getChoiceOptions(question).map(([id, text], i) => ({
+        variable: variable(namer.name(`${base}_${id === 'other' ? 'other' : i + 1}`), `${title}: ${text}`, 'numeric', {
+          ...source,
+          valueLabels: SELECTED_LABELS,
+        }),
+        value: (response) => {
+          const selected = answer(response);
+          if (!Array.isArray(selected) || selected.length === 0) return null;
+          return selected.map(String).includes(id) ? 1 : 0;
+        },
+      }));
+    }
+    case QuestionType.MATRIX: {
+      // Single-select rows are coded 1..n along the scale; multi-select rows get a 0/1 flag per column
+      const base = namer.name(question.id);
+      const columns = getMatrixColumns(question);
+      const rowAnswer = (response: any, rowId: string) => getMatrixRowAnswer(answer(response), rowId);
+      return getMatrixRows(question).flatMap((row, r): CodedColumn[] => {
+        if (!isMatrixMultiSelect(question)) {
+          const codes = new Map(columns.map(({ id }, i) => [id, i + 1]));
+          return [{
+            variable: variable(namer.name(`${base}_r${r + 1}`), `${title}: ${row.text}`, 'numeric', {
+              ...source,
+              ordinal: true,
+              valueLabels: columns.map(({ text }, i) => ({ code: i + 1, label: text })),
+            }),
+            value: (response) => codes.get(String(rowAnswer(response, row.id) ?? '')) ?? null,
+          }];
+        }
+        return columns.map(({ id, text }, c) => ({
+          variable: variable(namer.name(`${base}_r${r + 1}_c${c + 1}`), `${title}: ${row.text}: ${text}`, 'numeric', {
+            ...source,
+            valueLabels: SELECTED_LABELS,
+          }),
+          value: (response) => {
+            const selected = rowAnswer(response, row.id);
+            if (!Array.isArray(selected)) return null;
+            return selected.includes(id) ? 1 : 0;
+          },
+        }));
+      });
+    }
+    case QuestionType.RANKING: {
+      // One variable per option holding the rank it was given; blank when it was not ranked
+      const base = namer.name(question.id);
+      const rankLabels = Array.from({ length: getRankingLength(question) }, (_, i) => ({ code: i + 1, label: `Rank ${i + 1}` }));
+      return getChoiceOptions(question).map(([id, text], i) => ({
+        variable: variable(namer.name(`${base}_${i + 1}`), `${title}: ${text}`, 'numeric', {
+          ...source,
+          ordinal: true,
+          valueLabels: rankLabels,
+        }),
+        value: (response) => {
+          const ranked = answer(response);
+          if (!Array.isArray(ranked)) return null;
+          const position = ranked.map(String).indexOf(id);
+          return position === -1 ? null : position + 1;
+        },
+      }));
+    }
+    case QuestionType.CONSTANT_SUM: {
+      // One variable per option holding the amount given to it
+      const base = namer.name(question.id);
+      return getChoiceOptions(question).map(([id, text], i) => ({
+        variable: variable(namer.name(`${base}_${i + 1}`), `${title}: ${text}`, 'numeric', source),
+        value: (response) => {
+          const amounts = answer(response);
+          if (!isConstantSumAnswer(amounts) || Object.keys(amounts).length === 0) return null;
+          return toNumber(amounts[id] ?? 0);
+        },
+      }));
+    }
+    case QuestionType.RATING_SMILEY:
+      return [{
+        variable: variable(namer.name(question.id), title, 'numeric', {
+          ...source,
+          ordinal: true,
+          valueLabels: SMILEY_SCALE.map(({ score, label }) => ({ code: score, label })),
+        }),
+        value: (response) => SMILEY_SCORES[answer(response)] ?? null,
+      }];
+    default:
+      if (NUMERIC_TYPES.has(question.type)) {
+        return [{ variable: variable(namer.name(question.id), title, 'numeric', source), value: (r) => toNumber(answer(r)) }];
+      }
+      return [{
+        variable: variable(namer.name(question.id), title, 'string', source),
+        value: (response) => toText(question, answer(response)),
+      }];
+  }
+};
+
+/**
+ * Numerically coded version of the response table for statistics packages:
+ * variable names derived from question ids, choice answers as option codes,
+ * smiley ratings on their 1-5 scale, multi-choice options as 0/1 flags,
+ * matrix rows as scale codes or per-column flags, ranked options as ranks and
+ * constant-sum options as the amounts given to them.
+ */
+export const buildCodedDataset = (
+  catalog: VersionedQuestion[],
+  responses: any[],
+  hiddenFields: HiddenFieldDefinition[] = [],
+  computedVariables: ComputedVariableDefinition[] = []
+): CodedDataset => {
+  const namer = new VariableNamer();
+  const columns = [
+    ...metadataColumns(namer),
+    ...hiddenFieldColumns(namer, hiddenFields),
+    ...computedColumns(namer, computedVariables, responses),
+    ...catalog.flatMap(entry => questionColumns(namer, entry)),
+  ];
+  return {
+    variables: columns.map(column => column.variable),
+    rows: responses.map(response => columns.map(column => column.value(response))),
+  };
+};
+
+// Human-readable codebook: one row per variable
+export const buildCodebookTable = (dataset: CodedDataset): { header: string[]; rows: CellValue[][] } => ({
+  header: ['Variable', 'Label', 'Type', 'Values', 'Question ID', 'Question type'],
+  rows: dataset.variables.map(v => [
+    v.name,
+    v.label,
+    v.type,
+    v.valueLabels.map(({ code, label }) => `${code} = ${label}`).join('; '),
+    v.questionId ?? null,
+    v.questionType ?? null,
+  ]),
+});
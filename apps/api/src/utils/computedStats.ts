@@ -0,0 +1,58 @@
+import { ComputedVariableDefinition, getComputedVariableLabel } from '../shared/computedVariables';
+import { NumericSummary, summarizeNumbers } from './statistics';
+
+// Non-numeric values beyond this many per variable are summed into `otherValues`
+const MAX_VALUES_PER_VARIABLE = 10;
+
+export interface ComputedValueCount {
+  _id: { name: string; value: number | string | boolean };
+  count: number;
+}
+
+export interface ComputedVariableAnalytics {
+  name: string;
+  label: string;
+  // Responses that have a value for the variable
+  responses: number;
+  // Set when every value is a number, e.g. an index averaged from several ratings
+  summary: NumericSummary | null;
+  values: Array<{ value: string; count: number }>;
+  otherValues: number;
+}
+
+/**
+ * Number of responses per value of each computed variable. Variables without a
+ * value are not stored, so those responses simply do not appear.
+ */
+export const buildComputedStatsPipeline = (match: Record<string, unknown>, names: string[]) => [
+  { $match: match },
+  { $project: { computed: { $objectToArray: { $ifNull: ['$computed', {}] } } } },
+  { $unwind: '$computed' },
+  { $match: { 'computed.k': { $in: names } } },
+  { $group: { _id: { name: '$computed.k', value: '$computed.v' }, count: { $sum: 1 } } },
+];
+
+const formatValue = (value: ComputedValueCount['_id']['value']): string =>
+  typeof value === 'boolean' ? (value ? 'Yes' : 'No') : String(value);
+
+export const summarizeComputedStats = (
+  variables: ComputedVariableDefinition[],
+  rows: ComputedValueCount[]
+): ComputedVariableAnalytics[] =>
+  variables.map(variable => {
+    const own = rows.filter(row => row._id.name === variable.name);
+    const numeric = own.length > 0 && own.every(row => typeof row._id.value === 'number');
+    const counts = numeric
+      ? []
+      : own
+          .map(row => ({ value: formatValue(row._id.value), count: row.count }))
+          .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+    return {
+      name: variable.name,
+      label: getComputedVariableLabel(variable),
+      responses: own.reduce((sum, row) => sum + row.count, 0),
+      summary: numeric ? summarizeNumbers(own.map(row => [row._id.value as number, row.count])) : null,
+      values: counts.slice(0, MAX_VALUES_PER_VARIABLE),
+      otherValues: counts.slice(MAX_VALUES_PER_VARIABLE).reduce((sum, row) => sum + row.count, 0),
+    };
+  });
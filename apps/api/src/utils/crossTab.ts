@@ -0,0 +1,127 @@
+import { QuestionType } from '../models/Question';
+import { getChoiceOptions, findAnswerValue } from './responseTable';
+import { getMaxRating } from './answerValidation';
+import { chiSquareTest, ChiSquareResult } from './statistics';
+import { SMILEY_SCALE } from '../shared/smileyScale';
+import { NPS_MIN, NPS_MAX } from '../shared/nps';
+
+export const CROSS_TAB_QUESTION_TYPES: string[] = [
+  QuestionType.SINGLE_CHOICE,
+  QuestionType.MULTI_CHOICE,
+  QuestionType.DROPDOWN,
+  QuestionType.RATING_STAR,
+  QuestionType.RATING_NUMBER,
+  QuestionType.RATING_SMILEY,
+  QuestionType.NPS,
+];
+
+const SIGNIFICANCE_LEVEL = 0.05;
+
+export interface CrossTabCategory {
+  key: string;
+  label: string;
+}
+
+export interface CrossTabAxis {
+  questionId: string;
+  title: string;
+  type: string;
+  categories: CrossTabCategory[];
+}
+
+export interface CrossTabResult {
+  row: CrossTabAxis;
+  column: CrossTabAxis;
+  // counts[i][j]: respondents answering row category i and column category j
+  counts: number[][];
+  rowTotals: number[];
+  columnTotals: number[];
+  // Respondents who answered both questions
+  total: number;
+  // Share of the row (or column) total, in percent with one decimal
+  rowPercentages: number[][];
+  columnPercentages: number[][];
+  // null when the test does not apply (multi-choice questions, or fewer than two non-empty rows or columns)
+  chiSquare: (ChiSquareResult & { significant: boolean; significanceLevel: number }) | null;
+}
+
+const categoriesFor = (question: any): CrossTabCategory[] => {
+  switch (question.type) {
+    case QuestionType.RATING_SMILEY:
+      return SMILEY_SCALE.map(({ value, label }) => ({ key: value, label }));
+    case QuestionType.RATING_STAR:
+    case QuestionType.RATING_NUMBER: {
+      const max = getMaxRating(question, question.type === QuestionType.RATING_STAR ? 5 : 10);
+      return Array.from({ length: max }, (_, i) => ({ key: String(i + 1), label: String(i + 1) }));
+    }
+    case QuestionType.NPS:
+      return Array.from({ length: NPS_MAX - NPS_MIN + 1 }, (_, i) => ({ key: String(NPS_MIN + i), label: String(NPS_MIN + i) }));
+    default:
+      return getChoiceOptions(question).map(([key, label]) => ({ key, label }));
+  }
+};
+
+// Category indexes an answer falls in; multi-choice answers can fall in several
+const categoryIndexes = (value: any, index: Map<string, number>): number[] => {
+  const keys = Array.isArray(value) ? value : [value];
+  return keys
+    .filter(key => key !== null && key !== undefined && key !== '')
+    .map(key => index.get(String(key)))
+    .filter((i): i is number => i !== undefined);
+};
+
+const percent = (count: number, total: number): number => (total > 0 ? Math.round((count / total) * 1000) / 10 : 0);
+
+/**
+ * Contingency table of two questions over the responses that answered both,
+ * with row and column percentages and Pearson's chi-square test.
+ */
+export const buildCrossTab = (rowQuestion: any, columnQuestion: any, responses: any[]): CrossTabResult => {
+  const axis = (question: any): CrossTabAxis => ({
+    questionId: question.id,
+    title: question.title,
+    type: question.type,
+    categories: categoriesFor(question),
+  });
+  const row = axis(rowQuestion);
+  const column = axis(columnQuestion);
+  const rowIndex = new Map(row.categories.map((c, i) => [c.key, i]));
+  const columnIndex = new Map(column.categories.map((c, i) => [c.key, i]));
+
+  const counts = row.categories.map(() => column.categories.map(() => 0));
+  let total = 0;
+  for (const response of responses) {
+    const rows = categoryIndexes(findAnswerValue(response, row.questionId), rowIndex);
+    const columns = categoryIndexes(findAnswerValue(response, column.questionId), columnIndex);
+    if (rows.length === 0 || columns.length === 0) continue;
+    total++;
+    for (const i of rows) {
+      for (const j of columns) {
+        counts[i][j]++;
+      }
+    }
+  }
+
+  const rowTotals = counts.map(cells => cells.reduce((sum, n) => sum + n, 0));
+  const columnTotals = column.categories.map((_, j) => counts.reduce((sum, cells) => sum + cells[j], 0));
+
+  // A respondent counted in several cells breaks the independence the test relies on
+  const multipleResponse = rowQuestion.type === QuestionType.MULTI_CHOICE || columnQuestion.type === QuestionType.MULTI_CHOICE;
+  const test = multipleResponse ? null : chiSquareTest(counts);
+
+  return {
+    row,
+    column,
+    counts,
+    rowTotals,
+    columnTotals,
+    total,
+    rowPercentages: counts.map((cells, i) => cells.map(n => percent(n, rowTotals[i]))),
+    columnPercentages: counts.map(cells => cells.map((n, j) => percent(n, columnTotals[j]))),
+    chiSquare: test && {
+      ...test,
+      significant: test.pValue < SIGNIFICANCE_LEVEL,
+      significanceLevel: SIGNIFICANCE_LEVEL,
+    },
+  };
+};
@@ -0,0 +1,25 @@
+export type CellValue = string | number | null | undefined;
+
+// Spreadsheet apps evaluate cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsvCell = (value: CellValue): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : '';
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+const escapeSpreadsheetCell = (value: CellValue): string =>
+  escapeCsvCell(typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : value);
+
+/**
+ * RFC 4180 CSV with CRLF line endings. By default the file is meant to be
+ * opened in a spreadsheet: it starts with a UTF-8 BOM so Excel detects the
+ * encoding, and text that would run as a formula is neutralised. Files read
+ * by statistics packages pass `forSpreadsheets: false` to keep values as-is.
+ */
+export const toCsv = (header: string[], rows: CellValue[][], { forSpreadsheets = true } = {}): string => {
+  const escape = forSpreadsheets ? escapeSpreadsheetCell : escapeCsvCell;
+  const lines = [header, ...rows].map(row => row.map(escape).join(','));
+  return `${forSpreadsheets ? '\uFEFF' : ''}${lines.join('\r\n')}\r\n`;
+};
@@ -0,0 +1,70 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+// Storage backend for uploaded files. Keys are opaque, slash-separated paths chosen by the caller.
+export interface FileStorage {
+  readonly driver: string;
+  save(key: string, data: Buffer): Promise<void>;
+  read(key: string): Promise<Buffer>;
+  remove(key: string): Promise<void>;
+}
+
+export class LocalDiskStorage implements FileStorage {
+  readonly driver = 'local';
+  private readonly rootDir: string;
+
+  constructor(rootDir = process.env.FILE_STORAGE_DIR || path.join(process.cwd(), 'uploads')) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  private resolveKey(key: string): string {
+    const fullPath = path.resolve(this.rootDir, key);
+    // Never let a key escape the storage directory
+    if (!fullPath.startsWith(this.rootDir + path.sep)) {
+      throw new Error('Invalid storage key');
+    }
+    return fullPath;
+  }
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const fullPath = this.resolveKey(key);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, data);
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolveKey(key));
+  }
+
+  async remove(key: string): Promise<void> {
+    await fs.rm(this.resolveKey(key), { force: true });
+  }
+}
+
+const storageFactories = new Map<string, () => FileStorage>([
+  ['local', () => new LocalDiskStorage()],
+]);
+const storageInstances = new Map<string, FileStorage>();
+
+/**
+ * Registers an additional storage backend (e.g. S3 or Azure Blob) selectable
+ * through FILE_STORAGE_DRIVER.
+ */
+export const registerFileStorage = (driver: string, factory: () => FileStorage): void => {
+  storageFactories.set(driver, factory);
+  storageInstances.delete(driver);
+};
+
+// Returns the backend for `driver`, defaulting to FILE_STORAGE_DRIVER (local disk when unset)
+export const getFileStorage = (driver = process.env.FILE_STORAGE_DRIVER || 'local'): FileStorage => {
+  let storage = storageInstances.get(driver);
+  if (!storage) {
+    const factory = storageFactories.get(driver);
+    if (!factory) {
+      throw new Error(`Unknown file storage driver: ${driver}`);
+    }
+    storage = factory();
+    storageInstances.set(driver, storage);
+  }
+  return storage;
+};
@@ -0,0 +1,49 @@
+import { HiddenFieldDefinition, getHiddenFieldLabel } from '../shared/hiddenFields';
+
+// Values beyond this many per field are summed into `otherValues`
+const MAX_VALUES_PER_FIELD = 10;
+
+export interface HiddenFieldValueCount {
+  _id: { name: string; value: string };
+  count: number;
+}
+
+export interface HiddenFieldAnalytics {
+  name: string;
+  label: string;
+  // Responses that carry a value for the field
+  responses: number;
+  values: Array<{ value: string; count: number }>;
+  otherValues: number;
+}
+
+/**
+ * Number of responses per value of each hidden field. Values are stored as
+ * strings, so responses that never had the field simply do not appear.
+ */
+export const buildHiddenFieldStatsPipeline = (match: Record<string, unknown>, names: string[]) => [
+  { $match: match },
+  { $project: { hidden: { $objectToArray: { $ifNull: ['$hiddenFields', {}] } } } },
+  { $unwind: '$hidden' },
+  { $match: { 'hidden.k': { $in: names } } },
+  { $group: { _id: { name: '$hidden.k', value: '$hidden.v' }, count: { $sum: 1 } } },
+];
+
+export const summarizeHiddenFieldStats = (
+  fields: HiddenFieldDefinition[],
+  rows: HiddenFieldValueCount[]
+): HiddenFieldAnalytics[] =>
+  fields.map(field => {
+    const counts = rows
+      .filter(row => row._id.name === field.name)
+      .map(row => ({ value: String(row._id.value), count: row.count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+    const values = counts.slice(0, MAX_VALUES_PER_FIELD);
+    return {
+      name: field.name,
+      label: getHiddenFieldLabel(field),
+      responses: counts.reduce((sum, row) => sum + row.count, 0),
+      values,
+      otherValues: counts.slice(MAX_VALUES_PER_FIELD).reduce((sum, row) => sum + row.count, 0),
+    };
+  });
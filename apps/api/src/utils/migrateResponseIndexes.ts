@@ -0,0 +1,29 @@
+import { Response } from '../models/Response';
+
+// The (survey, respondentEmail) index used to be sparse, which still indexes responses without an
+// email and so allowed only one anonymous-link response per survey. Rebuild it as a partial index.
+export async function migrateResponseIndexes() {
+  try {
+    console.log('Starting response index migration...');
+
+    const indexes = await Response.collection.indexes();
+    const legacy = indexes.find(
+      index => index.name === 'survey_1_respondentEmail_1' && !index.partialFilterExpression
+    );
+    if (legacy) {
+      await Response.collection.dropIndex('survey_1_respondentEmail_1');
+      console.log('Dropped legacy sparse index survey_1_respondentEmail_1');
+    }
+
+    await Response.syncIndexes();
+
+    console.log('Migration completed successfully');
+    return {
+      success: true,
+      droppedLegacyIndex: Boolean(legacy)
+    };
+  } catch (error) {
+    console.error('Migration failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,63 @@
+import { Survey } from '../models/Survey';
+import { SurveyVersion } from '../models/SurveyVersion';
+import { Response } from '../models/Response';
+
+// Surveys published before versioning existed become version 1: lock them, snapshot their
+// current content and attribute their existing responses to that version.
+export async function migrateSurveyVersions() {
+  try {
+    console.log('Starting survey version migration...');
+
+    const surveys = await Survey.find({
+      $or: [
+        { status: { $in: ['published', 'live', 'closed'] } },
+        { locked: true }
+      ]
+    });
+
+    console.log(`Found ${surveys.length} surveys to update`);
+
+    let snapshotCount = 0;
+    for (const survey of surveys) {
+      survey.locked = true;
+      survey.version = survey.version ?? 1;
+      await survey.save();
+
+      const exists = await SurveyVersion.exists({ survey: survey._id, version: survey.version });
+      if (!exists) {
+        await SurveyVersion.create({
+          survey: survey._id,
+          version: survey.version,
+          title: survey.title,
+          description: survey.description,
+          theme: survey.theme,
+          backgroundColor: survey.backgroundColor,
+          textColor: survey.textColor,
+          pages: survey.pages,
+          quiz: survey.quiz,
+          hiddenFields: survey.hiddenFields,
+          computedVariables: survey.computedVariables,
+          publishedBy: survey.createdBy,
+          publishedAt: survey.updatedAt,
+        });
+        snapshotCount++;
+      }
+    }
+
+    const responseResult = await Response.updateMany(
+      { surveyVersion: { $exists: false } },
+      { $set: { surveyVersion: 1 } }
+    );
+
+    console.log('Migration completed successfully');
+    return {
+      success: true,
+      migratedCount: surveys.length,
+      snapshotCount,
+      responseCount: responseResult.modifiedCount
+    };
+  } catch (error) {
+    console.error('Migration failed:', error);
+    throw error;
+  }
+}
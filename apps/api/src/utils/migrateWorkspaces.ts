@@ -0,0 +1,52 @@
+import mongoose from 'mongoose';
+import { User } from '../models/User';
+import { Respondent } from '../models/Respondent';
+import { RespondentGroup } from '../models/RespondentGroup';
+import { WorkspaceService } from '../services/workspace.service';
+
+// Per-user unique indexes replaced by per-workspace ones
+const LEGACY_INDEXES: Array<{ model: mongoose.Model<any>; name: string }> = [
+  { model: Respondent, name: 'createdBy_1_azureId_1' },
+  { model: Respondent, name: 'createdBy_1_mail_1' },
+  { model: RespondentGroup, name: 'createdBy_1_name_1' },
+];
+
+// Gives every existing user a personal workspace holding the data they created before workspaces
+// existed, and swaps the per-user unique indexes for per-workspace ones.
+export async function migrateWorkspaces() {
+  try {
+    console.log('Starting workspace migration...');
+
+    let droppedIndexes = 0;
+    for (const { model, name } of LEGACY_INDEXES) {
+      const indexes = await model.collection.indexes();
+      if (indexes.some(index => index.name === name)) {
+        await model.collection.dropIndex(name);
+        droppedIndexes++;
+        console.log(`Dropped legacy index ${model.modelName}.${name}`);
+      }
+    }
+
+    const service = new WorkspaceService();
+    const users = await User.find().select('_id name email');
+    let adoptedCount = 0;
+    for (const user of users) {
+      const workspace = await service.ensurePersonalWorkspace(user);
+      adoptedCount += await service.adoptUnscopedData(String(user._id), String(workspace._id));
+    }
+
+    await Respondent.syncIndexes();
+    await RespondentGroup.syncIndexes();
+
+    console.log('Migration completed successfully');
+    return {
+      success: true,
+      userCount: users.length,
+      adoptedCount,
+      droppedIndexes
+    };
+  } catch (error) {
+    console.error('Migration failed:', error);
+    throw error;
+  }
+}
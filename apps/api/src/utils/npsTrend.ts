@@ -0,0 +1,94 @@
+import { NPS_PASSIVE_MIN, NPS_PROMOTER_MIN, NpsBreakdown, summarizeNps } from '../shared/nps';
+
+export type NpsTrendInterval = 'day' | 'week' | 'month';
+
+export interface NpsTrend {
+  interval: NpsTrendInterval;
+  // Periods are labelled by their first day (YYYY-MM-DD), or YYYY-MM for months
+  points: Array<{ period: string } & NpsBreakdown>;
+}
+
+export interface NpsDayCounts {
+  _id: { questionId: string; day: string };
+  promoters: number;
+  passives: number;
+  detractors: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Longer ranges are grouped by week, then by month, to keep trends readable
+const MAX_DAILY_SPAN_DAYS = 31;
+const MAX_WEEKLY_SPAN_DAYS = 182;
+
+/**
+ * Promoters, passives and detractors per NPS question and day, dated by
+ * submission (or start, for responses still in progress), in UTC.
+ */
+export const buildNpsTrendPipeline = (match: Record<string, unknown>, questionIds: string[]) => {
+  const value = '$responses.value';
+  return [
+    { $match: match },
+    { $unwind: '$responses' },
+    { $match: { 'responses.questionId': { $in: questionIds }, 'responses.value': { $type: 'number' } } },
+    {
+      $group: {
+        _id: {
+          questionId: '$responses.questionId',
+          day: { $dateToString: { format: '%Y-%m-%d', date: { $ifNull: ['$submittedAt', '$startedAt'] } } },
+        },
+        promoters: { $sum: { $cond: [{ $gte: [value, NPS_PROMOTER_MIN] }, 1, 0] } },
+        passives: { $sum: { $cond: [{ $and: [{ $gte: [value, NPS_PASSIVE_MIN] }, { $lt: [value, NPS_PROMOTER_MIN] }] }, 1, 0] } },
+        detractors: { $sum: { $cond: [{ $lt: [value, NPS_PASSIVE_MIN] }, 1, 0] } },
+      },
+    },
+  ];
+};
+
+const periodOf = (day: string, interval: NpsTrendInterval): string => {
+  if (interval === 'day') return day;
+  if (interval === 'month') return day.slice(0, 7);
+  // Weeks start on Monday
+  const date = new Date(`${day}T00:00:00Z`);
+  const sinceMonday = (date.getUTCDay() + 6) % 7;
+  return new Date(date.getTime() - sinceMonday * DAY_MS).toISOString().slice(0, 10);
+};
+
+// Groups the daily counts of each question into day, week or month periods depending on the date range
+export const buildNpsTrends = (rows: NpsDayCounts[]): Map<string, NpsTrend> => {
+  const byQuestion = new Map<string, NpsDayCounts[]>();
+  for (const row of rows) {
+    if (!row._id.day) continue;
+    byQuestion.set(row._id.questionId, [...(byQuestion.get(row._id.questionId) ?? []), row]);
+  }
+
+  const trends = new Map<string, NpsTrend>();
+  byQuestion.forEach((days, questionId) => {
+    days.sort((a, b) => a._id.day.localeCompare(b._id.day));
+    const spanDays = (Date.parse(days[days.length - 1]._id.day) - Date.parse(days[0]._id.day)) / DAY_MS;
+    let interval: NpsTrendInterval = 'month';
+    if (spanDays <= MAX_DAILY_SPAN_DAYS) {
+      interval = 'day';
+    } else if (spanDays <= MAX_WEEKLY_SPAN_DAYS) {
+      interval = 'week';
+    }
+
+    const periods = new Map<string, { promoters: number; passives: number; detractors: number }>();
+    for (const { _id, promoters, passives, detractors } of days) {
+      const period = periodOf(_id.day, interval);
+      const totals = periods.get(period) ?? { promoters: 0, passives: 0, detractors: 0 };
+      totals.promoters += promoters;
+      totals.passives += passives;
+      totals.detractors += detractors;
+      periods.set(period, totals);
+    }
+
+    trends.set(questionId, {
+      interval,
+      points: Array.from(periods.entries()).map(([period, t]) => ({
+        period,
+        ...summarizeNps(t.promoters, t.passives, t.detractors),
+      })),
+    });
+  });
+  return trends;
+};
@@ -0,0 +1,365 @@
+import { API_TOKEN_SCOPES, API_TOKEN_SCOPE_DESCRIPTIONS, API_TOKEN_PREFIX } from '../shared/apiTokenScopes';
+import { requiredApiTokenScope } from './apiTokenAccess';
+
+// OpenAPI 3 description of the authenticated REST API. Each operation's required token scope is
+// derived from requiredApiTokenScope, so the document always matches what requireAuth enforces.
+// Served at GET /api/openapi.json; `npm run openapi:generate` writes it to a file.
+
+type Method = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+interface Operation {
+  method: Method;
+  // Express-style path, e.g. /api/surveys/:surveyId
+  path: string;
+  tag: string;
+  summary: string;
+  query?: Record<string, { type: 'string' | 'integer' | 'boolean'; description?: string; enum?: string[] }>;
+  body?: string;
+  // Schema name of the 200/201 body; omitted for 204 responses
+  returns?: string;
+  status?: 200 | 201 | 202 | 204;
+}
+
+const ref = (schema: string) => ({ $ref: `#/components/schemas/${schema}` });
+
+const pageQuery = {
+  page: { type: 'integer' as const, description: 'Page number, starting at 1' },
+  limit: { type: 'integer' as const, description: 'Items per page' },
+};
+
+// Shared response filters of analytics, the respondent progress list and exports
+const responseFilterQuery = {
+  status: { type: 'string' as const, enum: ['all', 'Pending', 'InProgress', 'Completed'] },
+  dateField: { type: 'string' as const, enum: ['submittedAt', 'startedAt'], description: 'Date the range applies to; defaults to submittedAt' },
+  from: { type: 'string' as const, description: 'ISO date, inclusive' },
+  to: { type: 'string' as const, description: 'ISO date, inclusive' },
+  groupId: { type: 'string' as const, description: 'Only respondents in this respondent group' },
+  answer: { type: 'string' as const, description: 'Repeatable `<questionId>:<value>[,<value>]`; only respondents who gave one of the values' },
+};
+
+const OPERATIONS: Operation[] = [
+  // Surveys
+  {
+    method: 'get', path: '/api/surveys', tag: 'Surveys', summary: 'List surveys of the workspace', returns: 'SurveyList',
+    query: {
+      ...pageQuery,
+      status: { type: 'string', enum: ['draft', 'published', 'live', 'closed', 'archived'] },
+      search: { type: 'string', description: 'Matches title and description' },
+      dateFrom: { type: 'string', description: 'ISO date' },
+      dateTo: { type: 'string', description: 'ISO date' },
+      dateField: { type: 'string', enum: ['createdAt', 'updatedAt'] },
+      sortBy: { type: 'string' },
+      sortOrder: { type: 'string', enum: ['asc', 'desc'] },
+    },
+  },
+  { method: 'post', path: '/api/surveys', tag: 'Surveys', summary: 'Create a survey', body: 'SurveyInput', returns: 'Survey', status: 201 },
+  { method: 'post', path: '/api/surveys/import', tag: 'Surveys', summary: 'Import a survey from its JSON export', body: 'SurveyInput', returns: 'Survey', status: 201 },
+  { method: 'get', path: '/api/surveys/:surveyId', tag: 'Surveys', summary: 'Get a survey', returns: 'Survey' },
+  { method: 'put', path: '/api/surveys/:surveyId', tag: 'Surveys', summary: 'Update a survey; published surveys stage the change as a draft version', body: 'SurveyInput', returns: 'SurveyUpdate' },
+  { method: 'delete', path: '/api/surveys/:surveyId', tag: 'Surveys', summary: 'Delete a draft survey', returns: 'Object' },
+  { method: 'post', path: '/api/surveys/:surveyId/duplicate', tag: 'Surveys', summary: 'Duplicate a survey', returns: 'Survey', status: 201 },
+  { method: 'post', path: '/api/surveys/:surveyId/export', tag: 'Surveys', summary: 'Export a survey as JSON', returns: 'Survey' },
+  { method: 'get', path: '/api/surveys/:surveyId/versions', tag: 'Survey versions', summary: 'List published versions', returns: 'Object' },
+  { method: 'post', path: '/api/surveys/:surveyId/versions', tag: 'Survey versions', summary: 'Publish the draft as the next version', returns: 'Object', status: 201 },
+  { method: 'delete', path: '/api/surveys/:surveyId/draft', tag: 'Survey versions', summary: 'Discard unpublished changes', returns: 'Survey' },
+  { method: 'get', path: '/api/surveys/:surveyId/revisions', tag: 'Survey versions', summary: 'Revision history of the survey content', returns: 'Object', query: pageQuery },
+  {
+    method: 'get', path: '/api/surveys/:surveyId/revisions/diff', tag: 'Survey versions', summary: 'Structural diff between two revisions', returns: 'Object',
+    query: { from: { type: 'integer' }, to: { type: 'integer' } },
+  },
+  { method: 'get', path: '/api/surveys/:surveyId/revisions/:revision', tag: 'Survey versions', summary: 'Full content of one revision', returns: 'Object' },
+  { method: 'post', path: '/api/surveys/:surveyId/revisions/:revision/restore', tag: 'Survey versions', summary: 'Restore a previous revision', returns: 'Survey' },
+  { method: 'get', path: '/api/templates', tag: 'Templates', summary: 'List built-in and workspace templates', returns: 'Object' },
+  { method: 'get', path: '/api/templates/:id', tag: 'Templates', summary: 'Get a template', returns: 'Object' },
+  { method: 'post', path: '/api/templates/:id/instantiate', tag: 'Templates', summary: 'Create a survey from a template', returns: 'Survey', status: 201 },
+  { method: 'post', path: '/api/templates/import', tag: 'Templates', summary: 'Import a template into the workspace', body: 'Object', returns: 'Object', status: 201 },
+  { method: 'patch', path: '/api/templates/:id', tag: 'Templates', summary: 'Update template metadata', body: 'Object', returns: 'Object' },
+  { method: 'delete', path: '/api/templates/:id', tag: 'Templates', summary: 'Delete a workspace template', status: 204 },
+
+  // Recipients and invitations
+  { method: 'get', path: '/api/surveys/:surveyId/respondents', tag: 'Survey recipients', summary: 'Respondents and groups invited to a survey', returns: 'Object' },
+  { method: 'patch', path: '/api/surveys/:surveyId/respondents', tag: 'Survey recipients', summary: 'Add respondents and groups to a survey', body: 'RecipientsInput', returns: 'Object' },
+  { method: 'get', path: '/api/surveys/:surveyId/respondents/invitations', tag: 'Survey recipients', summary: 'Invitation status per respondent', returns: 'Object' },
+  { method: 'get', path: '/api/surveys/:surveyId/respondents/count', tag: 'Survey recipients', summary: 'Number of recipients', returns: 'Object' },
+  { method: 'post', path: '/api/surveys/:surveyId/respondents/send-invitations', tag: 'Survey recipients', summary: 'Email the invitation to every pending recipient', returns: 'Object' },
+  { method: 'post', path: '/api/jobs/surveys/:id/invitations/jobs', tag: 'Survey recipients', summary: 'Queue invitations to be sent in the background', returns: 'Object', status: 202 },
+  { method: 'get', path: '/api/jobs/jobs/:jobId/status', tag: 'Survey recipients', summary: 'Progress of a background invitation job', returns: 'Object' },
+
+  // Responses
+  { method: 'get', path: '/api/responses', tag: 'Responses', summary: 'Recent responses and totals across the workspace', returns: 'ResponseOverview' },
+  {
+    method: 'get', path: '/api/responses/:surveyId/by-email', tag: 'Responses', summary: 'One respondent\'s response', returns: 'Response',
+    query: { email: { type: 'string', description: 'Respondent email' } },
+  },
+  {
+    method: 'get', path: '/api/responses/:surveyId/export', tag: 'Responses', summary: 'Download raw responses as CSV or Excel, or as coded data with a codebook and SPSS/R scripts', returns: 'Binary',
+    query: {
+      format: { type: 'string', enum: ['csv', 'xlsx', 'coded'], description: 'Defaults to csv; coded returns a zip archive' },
+      ...responseFilterQuery,
+    },
+  },
+  { method: 'get', path: '/api/responses/:surveyId/files/:fileId', tag: 'Responses', summary: 'Download a file uploaded by a respondent', returns: 'Binary' },
+  { method: 'get', path: '/api/surveys/:surveyId/respondent-progress', tag: 'Responses', summary: 'Completion status per respondent', returns: 'Object', query: { ...pageQuery, ...responseFilterQuery } },
+  { method: 'get', path: '/api/analytics/:surveyId', tag: 'Responses', summary: 'Per-question analytics of a survey', returns: 'Object', query: responseFilterQuery },
+  {
+    method: 'get', path: '/api/analytics/:surveyId/cross-tab', tag: 'Responses', summary: 'Cross-tabulation of two questions with a chi-square test', returns: 'Object',
+    query: { row: { type: 'string', description: 'Row question id' }, column: { type: 'string', description: 'Column question id' }, ...responseFilterQuery },
+  },
+
+  // Respondents
+  {
+    method: 'get', path: '/api/respondents', tag: 'Respondents', summary: 'List respondents of the workspace', returns: 'RespondentList',
+    query: {
+      ...pageQuery,
+      search: { type: 'string' },
+      gender: { type: 'string', enum: ['male', 'female', 'other'] },
+      isArchived: { type: 'boolean' },
+    },
+  },
+  { method: 'post', path: '/api/respondents', tag: 'Respondents', summary: 'Create a respondent', body: 'RespondentInput', returns: 'Respondent', status: 201 },
+  { method: 'get', path: '/api/respondents/:id', tag: 'Respondents', summary: 'Get a respondent', returns: 'Respondent' },
+  { method: 'patch', path: '/api/respondents/:id', tag: 'Respondents', summary: 'Update a respondent', body: 'RespondentInput', returns: 'Respondent' },
+  { method: 'delete', path: '/api/respondents/:id', tag: 'Respondents', summary: 'Archive a respondent', returns: 'Object' },
+  { method: 'get', path: '/api/respondent-groups', tag: 'Respondents', summary: 'List respondent groups', returns: 'Object', query: { ...pageQuery, search: { type: 'string' }, isArchived: { type: 'boolean' } } },
+  { method: 'post', path: '/api/respondent-groups', tag: 'Respondents', summary: 'Create a group', body: 'GroupInput', returns: 'Object', status: 201 },
+  { method: 'get', path: '/api/respondent-groups/:id', tag: 'Respondents', summary: 'Get a group', returns: 'Object' },
+  { method: 'patch', path: '/api/respondent-groups/:id', tag: 'Respondents', summary: 'Update a group', body: 'GroupInput', returns: 'Object' },
+  { method: 'delete', path: '/api/respondent-groups/:id', tag: 'Respondents', summary: 'Archive a group', returns: 'Object' },
+  { method: 'post', path: '/api/respondent-groups/:id/members', tag: 'Respondents', summary: 'Add members to a group', body: 'MembersInput', returns: 'Object' },
+  { method: 'delete', path: '/api/respondent-groups/:id/members', tag: 'Respondents', summary: 'Remove members from a group', body: 'MembersInput', returns: 'Object' },
+];
+
+const SCHEMAS: Record<string, object> = {
+  Object: { type: 'object', additionalProperties: true },
+  Binary: { type: 'string', format: 'binary' },
+  Error: { type: 'object', properties: { error: { type: 'string' } }, required: ['error'] },
+  Pagination: {
+    type: 'object',
+    properties: {
+      page: { type: 'integer' },
+      limit: { type: 'integer' },
+      total: { type: 'integer' },
+      totalPages: { type: 'integer' },
+      hasNext: { type: 'boolean' },
+      hasPrev: { type: 'boolean' },
+    },
+  },
+  Question: {
+    type: 'object',
+    additionalProperties: true,
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', description: 'See GET /api/questions/types' },
+      title: { type: 'string' },
+      required: { type: 'boolean' },
+      options: { type: 'array', items: { type: 'object', additionalProperties: true } },
+      settings: { type: 'object', additionalProperties: true },
+    },
+  },
+  Page: {
+    type: 'object',
+    properties: {
+      questions: { type: 'array', items: ref('Question') },
+      branching: { type: 'array', items: { type: 'object', additionalProperties: true } },
+      loop: {
+        type: 'object',
+        description: 'Repeats this page and the next `pageCount - 1` once per option chosen in `sourceQuestionId` or per fixed item',
+        properties: {
+          sourceQuestionId: { type: 'string' },
+          items: { type: 'array', items: { type: 'object', properties: { id: { type: 'string' }, text: { type: 'string' } } } },
+          pageCount: { type: 'integer', minimum: 1 },
+        },
+      },
+    },
+  },
+  SurveyInput: {
+    type: 'object',
+    properties: {
+      title: { type: 'string' },
+      description: { type: 'string' },
+      status: { type: 'string', enum: ['draft', 'published', 'live', 'closed', 'archived'] },
+      startDate: { type: 'string', format: 'date-time' },
+      endDate: { type: 'string', format: 'date-time' },
+      collectionMode: { type: 'string', enum: ['invite', 'anonymous'] },
+      pages: { type: 'array', items: ref('Page') },
+    },
+  },
+  Survey: {
+    allOf: [
+      ref('SurveyInput'),
+      {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          slug: { type: 'string' },
+          version: { type: 'integer' },
+          locked: { type: 'boolean' },
+          createdAt: { type: 'string', format: 'date-time' },
+          updatedAt: { type: 'string', format: 'date-time' },
+        },
+      },
+    ],
+  },
+  SurveyUpdate: {
+    type: 'object',
+    properties: { message: { type: 'string' }, survey: ref('Survey') },
+  },
+  SurveyList: {
+    type: 'object',
+    properties: { surveys: { type: 'array', items: ref('Survey') }, pagination: ref('Pagination') },
+  },
+  RecipientsInput: {
+    type: 'object',
+    properties: {
+      respondentIds: { type: 'array', items: { type: 'string' } },
+      groupIds: { type: 'array', items: { type: 'string' } },
+    },
+  },
+  Response: {
+    type: 'object',
+    properties: {
+      _id: { type: 'string' },
+      survey: { type: 'string' },
+      respondentEmail: { type: 'string', nullable: true },
+      status: { type: 'string', enum: ['InProgress', 'Completed'] },
+      surveyVersion: { type: 'integer' },
+      responses: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            questionId: { type: 'string' },
+            value: {},
+            iteration: { type: 'string', description: 'Loop item the answer was given for; only on questions inside a loop' },
+          },
+        },
+      },
+      submittedAt: { type: 'string', format: 'date-time' },
+    },
+  },
+  ResponseOverview: {
+    type: 'object',
+    properties: {
+      responses: { type: 'array', items: ref('Response') },
+      recentResponses: { type: 'array', items: ref('Response') },
+      totalResponses: { type: 'integer' },
+      completedResponses: { type: 'integer' },
+    },
+  },
+  RespondentInput: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      mail: { type: 'string', format: 'email' },
+      gender: { type: 'string', enum: ['male', 'female', 'other'] },
+      employeeId: { type: 'string' },
+      userPrincipalName: { type: 'string' },
+    },
+    additionalProperties: true,
+  },
+  Respondent: {
+    allOf: [ref('RespondentInput'), { type: 'object', properties: { _id: { type: 'string' }, isArchived: { type: 'boolean' } } }],
+  },
+  RespondentList: {
+    type: 'object',
+    properties: { respondents: { type: 'array', items: ref('Respondent') }, pagination: ref('Pagination') },
+    additionalProperties: true,
+  },
+  GroupInput: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      description: { type: 'string' },
+      members: { type: 'array', items: { type: 'string' } },
+    },
+  },
+  MembersInput: {
+    type: 'object',
+    properties: { memberIds: { type: 'array', items: { type: 'string' } } },
+  },
+};
+
+const toOpenApiPath = (path: string) => path.replace(/:(\w+)/g, '{$1}');
+
+const buildOperation = (operation: Operation) => {
+  const scope = requiredApiTokenScope(operation.method, operation.path);
+  const pathParams = [...operation.path.matchAll(/:(\w+)/g)].map(([, name]) => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: { type: 'string' },
+  }));
+  const queryParams = Object.entries(operation.query ?? {}).map(([name, { description, ...schema }]) => ({
+    name,
+    in: 'query',
+    required: false,
+    ...(description ? { description } : {}),
+    schema,
+  }));
+  const status = operation.status ?? 200;
+  const success = operation.returns
+    ? {
+      description: 'Success',
+      content: operation.returns === 'Binary'
+        ? { 'application/octet-stream': { schema: ref('Binary') } }
+        : { 'application/json': { schema: ref(operation.returns) } },
+    }
+    : { description: 'Success' };
+  const error = (description: string) => ({ description, content: { 'application/json': { schema: ref('Error') } } });
+
+  return {
+    tags: [operation.tag],
+    summary: operation.summary,
+    ...(scope ? { description: `API token scope: \`${scope}\`` } : {}),
+    security: [{ cookieAuth: [] }, { bearerAuth: scope ? [scope] : [] }],
+    parameters: [...pathParams, ...queryParams],
+    ...(operation.body
+      ? { requestBody: { required: true, content: { 'application/json': { schema: ref(operation.body) } } } }
+      : {}),
+    responses: {
+      [status]: success,
+      400: error('Invalid input'),
+      401: error('Missing, expired or revoked credentials'),
+      403: error('Insufficient survey role, workspace role or token scope'),
+      404: error('Not found in the active workspace'),
+    },
+  };
+};
+
+export const buildOpenApiSpec = (serverUrl?: string) => {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const operation of OPERATIONS) {
+    const path = toOpenApiPath(operation.path);
+    paths[path] = { ...paths[path], [operation.method]: buildOperation(operation) };
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Survey App Builder API',
+      version: '1.0.0',
+      description: [
+        'REST API of Survey App Builder.',
+        '',
+        `Scripts authenticate with a personal API token (created from "API tokens" in the dashboard header) sent as \`Authorization: Bearer ${API_TOKEN_PREFIX}...\`. `
+          + 'A token acts as its creator inside the workspace that was active when it was created, and only on endpoints its scopes cover. '
+          + 'Survey roles (owner, editor, analyst, viewer) still apply on top of the scopes.',
+        '',
+        'Errors are returned as `{ "error": "message" }`.',
+      ].join('\n'),
+    },
+    ...(serverUrl ? { servers: [{ url: serverUrl }] } : {}),
+    components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          description: `Personal API token. Scopes: ${API_TOKEN_SCOPES.map(scope => `\`${scope}\` (${API_TOKEN_SCOPE_DESCRIPTIONS[scope]})`).join('; ')}`,
+        },
+        cookieAuth: { type: 'apiKey', in: 'cookie', name: 'accessToken', description: 'Browser session of the web app' },
+      },
+      schemas: SCHEMAS,
+    },
+    paths,
+  };
+};
@@ -0,0 +1,80 @@
+import dns from 'dns';
+import net from 'net';
+
+// Loopback, private, link-local, shared, reserved and multicast ranges; requests to these
+// could reach services inside our own network. IPv4-mapped IPv6 addresses are matched too.
+const NON_PUBLIC_RANGES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+export const isPublicAddress = (address: string): boolean => {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !NON_PUBLIC_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+// URL hostnames keep IPv6 literals in brackets
+const stripBrackets = (hostname: string): string => hostname.replace(/^\[(.*)\]$/, '$1');
+
+const isLocalName = (hostname: string): boolean => {
+  const name = hostname.toLowerCase().replace(/\.$/, '');
+  return name === 'localhost' || name.endsWith('.localhost');
+};
+
+/**
+ * Checks what can be known without DNS: local names and non-public IP literals
+ * @returns false when the host certainly is not public
+ */
+export const mayBePublicHost = (hostname: string): boolean => {
+  const host = stripBrackets(hostname);
+  if (isLocalName(host)) return false;
+  return net.isIP(host) === 0 || isPublicAddress(host);
+};
+
+/**
+ * `lookup` for http(s).request and net.connect that fails unless every address the host resolves
+ * to is public. The check runs on the very lookup the connection uses, so a DNS answer that changes
+ * between a check and the request (DNS rebinding) cannot reach an internal address. Connections to
+ * IP literals skip lookup; check those with mayBePublicHost first.
+ */
+export const publicLookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error);
+      return;
+    }
+    const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+    if (blocked || addresses.length === 0) {
+      callback(new Error(`${hostname} resolves to non-public address ${blocked?.address ?? '(none)'}`));
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}) as net.LookupFunction;
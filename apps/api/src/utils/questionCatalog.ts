@@ -0,0 +1,96 @@
+import { getLoopItemsByQuestion, loopAnswerKey } from '../shared/loops';
+
+// A question as it appears across survey versions, keyed by question id
+export interface VersionedQuestion {
+  question: any;
+  versions: number[];
+  retired: boolean;
+}
+
+const mergeOptions = (current: any[] | undefined, previous: any[] | undefined): any[] | undefined => {
+  if (!Array.isArray(previous) || previous.length === 0) return current;
+  const merged = Array.isArray(current) ? [...current] : [];
+  const optionKey = (opt: any) => (typeof opt === 'object' && opt !== null ? opt.id : opt);
+  const known = new Set(merged.map(optionKey));
+  for (const opt of previous) {
+    if (!known.has(optionKey(opt))) {
+      merged.push(opt);
+      known.add(optionKey(opt));
+    }
+  }
+  return merged;
+};
+
+/**
+ * Current questions first, then questions only found in older versions. Answers are matched by
+ * question id, so a question keeps its results when it is edited or moved in a later version.
+ * Snapshots are expected newest first.
+ */
+export const buildQuestionCatalog = (survey: any, snapshots: any[]): VersionedQuestion[] => {
+  const catalog = new Map<string, VersionedQuestion>();
+  const currentVersion = survey.version ?? 1;
+
+  for (const page of survey.pages || []) {
+    for (const question of page.questions || []) {
+      catalog.set(question.id, { question, versions: [currentVersion], retired: false });
+    }
+  }
+
+  for (const snapshot of snapshots) {
+    for (const page of snapshot.pages || []) {
+      for (const question of page.questions || []) {
+        const entry = catalog.get(question.id);
+        if (!entry) {
+          catalog.set(question.id, { question, versions: [snapshot.version], retired: true });
+          continue;
+        }
+        if (!entry.versions.includes(snapshot.version)) {
+          entry.versions.push(snapshot.version);
+        }
+        // Keep labels for options that were removed in later versions
+        if (entry.question.type === question.type) {
+          entry.question = { ...entry.question, options: mergeOptions(entry.question.options, question.options) };
+        }
+      }
+    }
+  }
+
+  return Array.from(catalog.values());
+};
+
+/**
+ * Replaces each question asked in a loop with one entry per loop item, keyed by its loop answer
+ * key and titled with the item, so exports get a column per item. Items come from the current
+ * loop and from the responses (items since removed keep their column, labelled with their id).
+ */
+export const expandLoopIterations = (catalog: VersionedQuestion[], survey: any, responses: any[]): VersionedQuestion[] => {
+  const loopItems = getLoopItemsByQuestion(survey.pages || []);
+  const answered = new Map<string, Set<string | undefined>>();
+  for (const response of responses) {
+    for (const answer of response.responses || []) {
+      if (!answered.has(answer.questionId)) answered.set(answer.questionId, new Set());
+      answered.get(answer.questionId)!.add(answer.iteration ?? undefined);
+    }
+  }
+
+  return catalog.flatMap(entry => {
+    const { question } = entry;
+    const items = loopItems.get(question.id);
+    const iterations = answered.get(question.id) ?? new Set<string | undefined>();
+    const itemIds = [...(items ?? []).map(item => item.id), ...iterations].filter(
+      (id, index, ids): id is string => id !== undefined && ids.indexOf(id) === index
+    );
+    if (itemIds.length === 0) return [entry];
+
+    const perItem = itemIds.map(itemId => ({
+      ...entry,
+      question: {
+        ...question,
+        id: loopAnswerKey(question.id, itemId),
+        title: `${question.title || question.id} (${items?.find(item => item.id === itemId)?.text ?? itemId})`,
+      },
+    }));
+    // Answers given before the question was put in a loop
+    return !items || iterations.has(undefined) ? [entry, ...perItem] : perItem;
+  });
+};
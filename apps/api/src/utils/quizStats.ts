@@ -0,0 +1,85 @@
+import { NumericSummary, summarizeNumbers } from './statistics';
+import { VersionedQuestion } from './questionCatalog';
+
+// Scores are grouped into bands of this many percentage points; 100% joins the top band
+const SCORE_BAND_WIDTH = 10;
+
+export interface QuizStatsFacet {
+  overall: Array<{ responses: number; passed: number }>;
+  percents: Array<{ _id: number; count: number }>;
+  questions: Array<{ _id: string; attempts: number; correct: number }>;
+}
+
+export interface QuizAnalytics {
+  responses: number;
+  passed: number;
+  passRate: number;
+  // Summary of the percentage scores
+  summary: NumericSummary | null;
+  distribution: Array<{ label: string; min: number; max: number; count: number }>;
+  // Share of respondents shown each question who got it right; lower is harder
+  questions: Array<{ questionId: string; title: string; attempts: number; correct: number; percentCorrect: number }>;
+}
+
+/**
+ * Pass counts, score percentages and per-question correctness of scored
+ * responses. Only submissions scored while quiz mode was on carry `quiz`.
+ */
+export const buildQuizStatsPipeline = (match: Record<string, unknown>) => [
+  { $match: match },
+  { $match: { 'quiz.percent': { $type: 'number' } } },
+  {
+    $facet: {
+      overall: [
+        { $group: { _id: null, responses: { $sum: 1 }, passed: { $sum: { $cond: ['$quiz.passed', 1, 0] } } } },
+      ],
+      percents: [{ $group: { _id: '$quiz.percent', count: { $sum: 1 } } }],
+      questions: [
+        { $unwind: '$quiz.questions' },
+        {
+          $group: {
+            _id: '$quiz.questions.questionId',
+            attempts: { $sum: 1 },
+            correct: { $sum: { $cond: ['$quiz.questions.correct', 1, 0] } },
+          },
+        },
+      ],
+    },
+  },
+];
+
+const toPercent = (part: number, whole: number): number =>
+  whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0;
+
+export const summarizeQuizStats = (facet: QuizStatsFacet | undefined, catalog: VersionedQuestion[]): QuizAnalytics => {
+  const { responses = 0, passed = 0 } = facet?.overall[0] ?? {};
+  const percents = facet?.percents ?? [];
+
+  const distribution = Array.from({ length: 100 / SCORE_BAND_WIDTH }, (_, band) => {
+    const min = band * SCORE_BAND_WIDTH;
+    const max = min + SCORE_BAND_WIDTH;
+    return { label: `${min}–${max}%`, min, max, count: 0 };
+  });
+  for (const { _id: percent, count } of percents) {
+    const band = Math.min(Math.floor(percent / SCORE_BAND_WIDTH), distribution.length - 1);
+    distribution[Math.max(band, 0)].count += count;
+  }
+
+  // Catalog order keeps questions in survey order
+  const counts = new Map((facet?.questions ?? []).map(row => [row._id, row]));
+  const questions = catalog
+    .filter(({ question }) => counts.has(question.id))
+    .map(({ question }) => {
+      const { attempts, correct } = counts.get(question.id)!;
+      return { questionId: question.id, title: question.title ?? '', attempts, correct, percentCorrect: toPercent(correct, attempts) };
+    });
+
+  return {
+    responses,
+    passed,
+    passRate: toPercent(passed, responses),
+    summary: summarizeNumbers(percents.map(({ _id, count }) => [_id, count])),
+    distribution,
+    questions,
+  };
+};
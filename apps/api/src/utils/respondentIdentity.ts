@@ -0,0 +1,41 @@
+import crypto from 'crypto';
+
+// Who is answering a survey: an identified respondent (email) or an anonymous-link session
+export interface RespondentIdentity {
+  email?: string;
+  anonymousSessionId?: string;
+  deviceId?: string;
+}
+
+// Creator-facing views list respondents by key; anonymous sessions get a prefixed key instead of an email
+export const ANONYMOUS_RESPONDENT_PREFIX = 'anonymous:';
+
+// Filter matching this respondent's documents (Response, UploadedFile)
+export const respondentFilter = (respondent: RespondentIdentity) => {
+  if (respondent.anonymousSessionId) {
+    return { anonymousSessionId: respondent.anonymousSessionId };
+  }
+  if (!respondent.email) {
+    throw new Error('Respondent identity is missing');
+  }
+  return { respondentEmail: respondent.email.toLowerCase() };
+};
+
+// Short hash for logs so emails and session ids are never written in clear
+export const hashRespondent = (respondent: RespondentIdentity): string => {
+  const value = respondent.anonymousSessionId
+    ? `${ANONYMOUS_RESPONDENT_PREFIX}${respondent.anonymousSessionId}`
+    : respondent.email ?? '';
+  return crypto.createHash('sha256').update(value).digest('hex').substring(0, 12);
+};
+
+export const getRespondentKey = (doc: { respondentEmail?: string; anonymousSessionId?: string }): string | undefined => {
+  if (doc.respondentEmail) return doc.respondentEmail.toLowerCase();
+  if (doc.anonymousSessionId) return `${ANONYMOUS_RESPONDENT_PREFIX}${doc.anonymousSessionId}`;
+  return undefined;
+};
+
+export const parseRespondentKey = (key: string): RespondentIdentity =>
+  key.startsWith(ANONYMOUS_RESPONDENT_PREFIX)
+    ? { anonymousSessionId: key.slice(ANONYMOUS_RESPONDENT_PREFIX.length) }
+    : { email: key.toLowerCase() };
@@ -0,0 +1,165 @@
+import mongoose from 'mongoose';
+import { IResponse } from '../models/Response';
+import { HIDDEN_FIELD_NAME_PATTERN } from '../shared/hiddenFields';
+
+export const RESPONSE_STATUSES = ['Pending', 'InProgress', 'Completed'] as const;
+export const RESPONSE_DATE_FIELDS = ['submittedAt', 'startedAt'] as const;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_ANSWER_FILTERS = 10;
+
+// "Only respondents who chose one of `values` in `questionId`"
+export interface AnswerFilter {
+  questionId: string;
+  values: string[];
+}
+
+// "Only responses whose hidden field `name` is one of `values`"
+export interface HiddenFieldFilter {
+  name: string;
+  values: string[];
+}
+
+/**
+ * Filters shared by analytics, the respondent progress list and exports, so
+ * the same segment gives the same numbers everywhere. Parsed from the query
+ * string: `status`, `from`, `to`, `dateField`, `groupId` and repeatable
+ * `answer=<questionId>:<value>[,<value>...]` and `hidden=<name>:<value>[,<value>...]`.
+ */
+export interface ResponseFilters {
+  status?: IResponse['status'];
+  dateField: typeof RESPONSE_DATE_FIELDS[number];
+  from?: Date;
+  to?: Date;
+  groupId?: string;
+  answers: AnswerFilter[];
+  hiddenFields: HiddenFieldFilter[];
+}
+
+export interface ResponseFilterQuery {
+  status?: unknown;
+  from?: unknown;
+  to?: unknown;
+  dateField?: unknown;
+  groupId?: unknown;
+  answer?: unknown;
+  hidden?: unknown;
+}
+
+// A date-only `to` includes the whole day
+const parseDate = (value: unknown, field: string, endOfDay: boolean): Date | undefined => {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string') throw new Error(`Validation: ${field} must be a date`);
+  const date = new Date(endOfDay && DATE_ONLY.test(value) ? `${value}T23:59:59.999Z` : value);
+  if (Number.isNaN(date.getTime())) throw new Error(`Validation: ${field} must be a date`);
+  return date;
+};
+
+export const parseChoice = <T extends string>(value: unknown, allowed: readonly T[], field: string): T | undefined => {
+  if (value === undefined || value === '' || value === 'all') return undefined;
+  if (!allowed.includes(value as T)) {
+    throw new Error(`Validation: ${field} must be one of ${allowed.join(', ')}`);
+  }
+  return value as T;
+};
+
+const parseAnswerFilters = (value: unknown): AnswerFilter[] => {
+  if (value === undefined || value === '') return [];
+  const raw = Array.isArray(value) ? value : [value];
+  if (raw.length > MAX_ANSWER_FILTERS) {
+    throw new Error(`Validation: At most ${MAX_ANSWER_FILTERS} answer filters are allowed`);
+  }
+  return raw.map(item => {
+    const separator = typeof item === 'string' ? item.indexOf(':') : -1;
+    const questionId = separator > 0 ? item.slice(0, separator) : '';
+    const values = separator > 0 ? item.slice(separator + 1).split(',').filter(Boolean) : [];
+    if (!questionId || values.length === 0) {
+      throw new Error('Validation: answer filters must look like <questionId>:<value>[,<value>]');
+    }
+    return { questionId, values };
+  });
+};
+
+const parseHiddenFieldFilters = (value: unknown): HiddenFieldFilter[] => {
+  if (value === undefined || value === '') return [];
+  const raw = Array.isArray(value) ? value : [value];
+  if (raw.length > MAX_ANSWER_FILTERS) {
+    throw new Error(`Validation: At most ${MAX_ANSWER_FILTERS} hidden field filters are allowed`);
+  }
+  return raw.map(item => {
+    const separator = typeof item === 'string' ? item.indexOf(':') : -1;
+    const name = separator > 0 ? item.slice(0, separator) : '';
+    const values = separator > 0 ? item.slice(separator + 1).split(',').filter(Boolean) : [];
+    // The name becomes part of a Mongo field path
+    if (!HIDDEN_FIELD_NAME_PATTERN.test(name) || values.length === 0) {
+      throw new Error('Validation: hidden field filters must look like <name>:<value>[,<value>]');
+    }
+    return { name, values };
+  });
+};
+
+export const parseResponseFilters = (query: ResponseFilterQuery): ResponseFilters => {
+  const filters: ResponseFilters = {
+    status: parseChoice(query.status, RESPONSE_STATUSES, 'status'),
+    dateField: parseChoice(query.dateField, RESPONSE_DATE_FIELDS, 'dateField') ?? 'submittedAt',
+    from: parseDate(query.from, 'from', false),
+    to: parseDate(query.to, 'to', true),
+    answers: parseAnswerFilters(query.answer),
+    hiddenFields: parseHiddenFieldFilters(query.hidden),
+  };
+  if (filters.from && filters.to && filters.from > filters.to) {
+    throw new Error('Validation: from must be before to');
+  }
+  if (query.groupId !== undefined && query.groupId !== '') {
+    if (typeof query.groupId !== 'string' || !mongoose.Types.ObjectId.isValid(query.groupId)) {
+      throw new Error('Validation: groupId must be a respondent group id');
+    }
+    filters.groupId = query.groupId;
+  }
+  return filters;
+};
+
+export const hasResponseFilters = (filters: ResponseFilters): boolean =>
+  Boolean(
+    filters.status || filters.from || filters.to || filters.groupId || filters.answers.length > 0 || filters.hiddenFields.length > 0
+  );
+
+// Answers are stored with their native type, so numeric filter values also match rating numbers
+const answerValues = (values: string[]): Array<string | number> =>
+  values.flatMap(value => (value.trim() !== '' && !Number.isNaN(Number(value)) ? [value, Number(value)] : [value]));
+
+/**
+ * Mongo filter on Response documents. `respondentEmails` restricts the match
+ * to a resolved respondent group; an empty list matches nothing.
+ */
+export const buildResponseMatch = (
+  surveyId: string,
+  filters: ResponseFilters,
+  respondentEmails?: string[]
+): Record<string, unknown> => {
+  const match: Record<string, unknown> = { survey: new mongoose.Types.ObjectId(surveyId) };
+  if (filters.status) {
+    match.status = filters.status;
+  }
+  if (filters.from || filters.to) {
+    match[filters.dateField] = {
+      ...(filters.from ? { $gte: filters.from } : {}),
+      ...(filters.to ? { $lte: filters.to } : {}),
+    };
+  }
+  if (respondentEmails) {
+    match.respondentEmail = { $in: respondentEmails };
+  }
+  const conditions: Array<Record<string, unknown>> = [
+    // Array answers (multi-choice) match when any selected value is in the list
+    ...filters.answers.map(({ questionId, values }) => ({
+      responses: { $elemMatch: { questionId, value: { $in: answerValues(values) } } },
+    })),
+    // Hidden field values are always stored as strings
+    ...filters.hiddenFields.map(({ name, values }) => ({ [`hiddenFields.${name}`]: { $in: values } })),
+  ];
+  if (conditions.length > 0) {
+    match.$and = conditions;
+  }
+  return match;
+};
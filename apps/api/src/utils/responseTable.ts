@@ -0,0 +1,174 @@
+import { QuestionType } from '../models/Question';
+import { VersionedQuestion } from './questionCatalog';
+import { CellValue } from './csv';
+import { getRespondentKey } from './respondentIdentity';
+import { SMILEY_LABELS } from '../shared/smileyScale';
+import { getMatrixColumns, getMatrixRowAnswer, getMatrixRows } from '../shared/matrix';
+import { getRankingLength } from '../shared/ranking';
+import { isConstantSumAnswer } from '../shared/numeric';
+import { HiddenFieldDefinition, getHiddenFieldLabel } from '../shared/hiddenFields';
+import { ComputedVariableDefinition, formatComputedValue, getComputedVariableLabel } from '../shared/computedVariables';
+import { parseLoopAnswerKey } from '../shared/loops';
+
+export interface ResponseTable {
+  header: string[];
+  rows: CellValue[][];
+}
+
+interface Column {
+  header: string;
+  value: (response: any) => CellValue;
+}
+
+const OTHER_OPTION_ID = 'other';
+
+export const toIso = (date?: Date | string | null): CellValue => (date ? new Date(date).toISOString() : null);
+
+// Choice options as [id, text] pairs; legacy string options use the string for both
+export const getChoiceOptions = (question: any): Array<[string, string]> => {
+  const options: Array<[string, string]> = (question.options || [])
+    .map((opt: any) => (typeof opt === 'string' ? [opt, opt] : [String(opt?.id ?? ''), opt?.text ?? '']))
+    .filter(([id]: [string, string]) => id !== '');
+  if (question.settings?.allowOther) {
+    options.push([OTHER_OPTION_ID, 'Other']);
+  }
+  return options;
+};
+
+// `key` is a question id, or a loop answer key for the answer given for one loop item
+export const findAnswerValue = (response: any, key: string): any => {
+  const { questionId, iteration } = parseLoopAnswerKey(key);
+  const answer = (response.responses || []).find((a: any) => a.questionId === questionId && (a.iteration ?? undefined) === iteration);
+  return answer?.value ?? null;
+};
+
+const formatValue = (question: any, value: any, optionText: Map<string, string>): CellValue => {
+  if (value === null || value === undefined || value === '') return null;
+  switch (question.type) {
+    case QuestionType.SINGLE_CHOICE:
+    case QuestionType.DROPDOWN:
+      return optionText.get(String(value)) ?? String(value);
+    case QuestionType.SLIDER:
+    case QuestionType.RATING_STAR:
+    case QuestionType.RATING_NUMBER:
+    case QuestionType.NPS:
+    case QuestionType.NUMBER: {
+      const n = Number(value);
+      return Number.isNaN(n) ? String(value) : n;
+    }
+    case QuestionType.RATING_SMILEY:
+      return SMILEY_LABELS[value] ?? String(value);
+    case QuestionType.FILE_UPLOAD:
+      return (Array.isArray(value) ? value : [value]).map((file: any) => file?.name ?? '').join('; ');
+    default:
+      return Array.isArray(value) ? value.join('; ') : String(value);
+  }
+};
+
+const questionColumns = ({ question }: VersionedQuestion): Column[] => {
+  const options = getChoiceOptions(question);
+  const title = question.title || question.id;
+
+  // One 1/0 column per option; blank when the question was not answered at all
+  if (question.type === QuestionType.MULTI_CHOICE) {
+    return options.map(([id, text]) => ({
+      header: `${title} [${text}]`,
+      value: (response) => {
+        const selected = findAnswerValue(response, question.id);
+        if (!Array.isArray(selected) || selected.length === 0) return null;
+        return selected.map(String).includes(id) ? 1 : 0;
+      },
+    }));
+  }
+
+  // One column per row holding the selected column text(s)
+  if (question.type === QuestionType.MATRIX) {
+    const columnText = new Map(getMatrixColumns(question).map(column => [column.id, column.text]));
+    return getMatrixRows(question).map(row => ({
+      header: `${title} [${row.text}]`,
+      value: (response) => {
+        const selected = getMatrixRowAnswer(findAnswerValue(response, question.id), row.id);
+        if (selected === undefined) return null;
+        return (Array.isArray(selected) ? selected : [selected]).map(id => columnText.get(id) ?? id).join('; ');
+      },
+    }));
+  }
+
+  // One column per option holding the amount given to it; 0 when an answered question left it out
+  if (question.type === QuestionType.CONSTANT_SUM) {
+    return options.map(([id, text]) => ({
+      header: `${title} [${text}]`,
+      value: (response) => {
+        const amounts = findAnswerValue(response, question.id);
+        if (!isConstantSumAnswer(amounts) || Object.keys(amounts).length === 0) return null;
+        return Number(amounts[id] ?? 0);
+      },
+    }));
+  }
+
+  const optionText = new Map(options);
+
+  // One column per rank holding the option placed there
+  if (question.type === QuestionType.RANKING) {
+    return Array.from({ length: getRankingLength(question) }, (_, position) => ({
+      header: `${title} [Rank ${position + 1}]`,
+      value: (response) => {
+        const ranked = findAnswerValue(response, question.id);
+        if (!Array.isArray(ranked) || ranked[position] === undefined) return null;
+        return optionText.get(String(ranked[position])) ?? String(ranked[position]);
+      },
+    }));
+  }
+
+  return [{ header: title, value: (response) => formatValue(question, findAnswerValue(response, question.id), optionText) }];
+};
+
+const METADATA_COLUMNS: Column[] = [
+  { header: 'Response ID', value: (response) => String(response._id) },
+  { header: 'Respondent', value: (response) => getRespondentKey(response) ?? null },
+  { header: 'Status', value: (response) => response.status },
+  { header: 'Survey version', value: (response) => response.surveyVersion ?? 1 },
+  { header: 'Started at', value: (response) => toIso(response.startedAt) },
+  { header: 'Submitted at', value: (response) => toIso(response.submittedAt) },
+  { header: 'Time spent (seconds)', value: (response) => response.metadata?.timeSpent ?? null },
+];
+
+const hiddenFieldColumn = (field: HiddenFieldDefinition): Column => ({
+  header: `Hidden field: ${getHiddenFieldLabel(field)}`,
+  value: (response) => response.hiddenFields?.[field.name] ?? null,
+});
+
+// Numbers are exported as stored, unrounded
+const computedColumn = (variable: ComputedVariableDefinition): Column => ({
+  header: `Computed: ${getComputedVariableLabel(variable)}`,
+  value: (response) => {
+    const value = response.computed?.[variable.name];
+    if (value === undefined || value === null) return null;
+    return typeof value === 'number' ? value : formatComputedValue(value);
+  },
+});
+
+/**
+ * One row per response and one column per hidden field, computed variable and question,
+ * in catalog order.
+ * Option ids are replaced by option text, multi-choice questions are
+ * and constant-sum questions are expanded to one column per option, matrix
+ * questions to one per row and ranking questions to one per rank.
+ */
+export const buildResponseTable = (
+  catalog: VersionedQuestion[],
+  responses: any[],
+  hiddenFields: HiddenFieldDefinition[] = [],
+  computedVariables: ComputedVariableDefinition[] = []
+): ResponseTable => {
+  const columns = [
+    ...METADATA_COLUMNS,
+    ...hiddenFields.map(hiddenFieldColumn),
+    ...computedVariables.map(computedColumn),
+    ...catalog.flatMap(questionColumns),
+  ];
+  return {
+    header: columns.map(column => column.header),
+    rows: responses.map(response => columns.map(column => column.value(response))),
+  };
+};
@@ -0,0 +1,149 @@
+export interface ChiSquareResult {
+  statistic: number;
+  degreesOfFreedom: number;
+  pValue: number;
+  // Cells with an expected count below 5, where the chi-square approximation gets unreliable
+  lowExpectedCells: number;
+  expectedCells: number;
+}
+
+// Lanczos approximation of ln(Γ(x)) for x > 0
+const logGamma = (x: number): number => {
+  const coefficients = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5,
+  ];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  for (const c of coefficients) {
+    y += 1;
+    series += c / y;
+  }
+  return -tmp + Math.log((2.5066282746310005 * series) / x);
+};
+
+const EPSILON = 1e-14;
+const MAX_ITERATIONS = 500;
+
+/**
+ * Regularized upper incomplete gamma function Q(a, x), by series expansion
+ * below a + 1 and by continued fraction above (Numerical Recipes, ch. 6.2).
+ */
+const upperRegularizedGamma = (a: number, x: number): number => {
+  if (x <= 0) return 1;
+  const logPrefix = -x + a * Math.log(x) - logGamma(a);
+
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < MAX_ITERATIONS && Math.abs(term) > Math.abs(sum) * EPSILON; n++) {
+      term *= x / (a + n);
+      sum += term;
+    }
+    return Math.max(0, 1 - sum * Math.exp(logPrefix));
+  }
+
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < MAX_ITERATIONS; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+  return Math.min(1, Math.exp(logPrefix) * h);
+};
+
+/**
+ * Pearson's chi-square test of independence on a contingency table of counts.
+ * Rows and columns without any observations are ignored. Returns null when
+ * fewer than two rows or columns remain, as the test is then undefined.
+ */
+export const chiSquareTest = (observed: number[][]): ChiSquareResult | null => {
+  const rowTotals = observed.map(row => row.reduce((sum, n) => sum + n, 0));
+  const columnCount = Math.max(0, ...observed.map(row => row.length));
+  const columnTotals = Array.from({ length: columnCount }, (_, j) =>
+    observed.reduce((sum, row) => sum + (row[j] ?? 0), 0)
+  );
+  const rows = rowTotals.map((total, i) => (total > 0 ? i : -1)).filter(i => i >= 0);
+  const columns = columnTotals.map((total, j) => (total > 0 ? j : -1)).filter(j => j >= 0);
+  if (rows.length < 2 || columns.length < 2) return null;
+
+  const grandTotal = rowTotals.reduce((sum, n) => sum + n, 0);
+  let statistic = 0;
+  let lowExpectedCells = 0;
+  for (const i of rows) {
+    for (const j of columns) {
+      const expected = (rowTotals[i] * columnTotals[j]) / grandTotal;
+      if (expected < 5) lowExpectedCells++;
+      statistic += ((observed[i][j] ?? 0) - expected) ** 2 / expected;
+    }
+  }
+
+  const degreesOfFreedom = (rows.length - 1) * (columns.length - 1);
+  return {
+    statistic,
+    degreesOfFreedom,
+    pValue: upperRegularizedGamma(degreesOfFreedom / 2, statistic / 2),
+    lowExpectedCells,
+    expectedCells: rows.length * columns.length,
+  };
+};
+
+export interface NumericSummary {
+  count: number;
+  mean: number;
+  median: number;
+  min: number;
+  max: number;
+  percentiles: { p10: number; p25: number; p75: number; p90: number };
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Mean, median and percentiles of a distribution given as [value, count]
+ * pairs. Percentiles interpolate linearly between the two nearest ranks, as
+ * spreadsheets' PERCENTILE.INC does. Returns null when there are no values.
+ */
+export const summarizeNumbers = (distribution: Array<[number, number]>): NumericSummary | null => {
+  const sorted = distribution.filter(([value, count]) => Number.isFinite(value) && count > 0).sort(([a], [b]) => a - b);
+  const count = sorted.reduce((sum, [, n]) => sum + n, 0);
+  if (count === 0) return null;
+
+  // Value at a 0-based rank of the expanded, sorted list of answers
+  const valueAt = (rank: number): number => {
+    let seen = 0;
+    for (const [value, n] of sorted) {
+      seen += n;
+      if (rank < seen) return value;
+    }
+    return sorted[sorted.length - 1][0];
+  };
+  const percentile = (p: number): number => {
+    const rank = (count - 1) * p;
+    const lower = Math.floor(rank);
+    const below = valueAt(lower);
+    return round2(below + (valueAt(Math.ceil(rank)) - below) * (rank - lower));
+  };
+
+  const sum = sorted.reduce((acc, [value, n]) => acc + value * n, 0);
+  return {
+    count,
+    mean: round2(sum / count),
+    median: percentile(0.5),
+    min: sorted[0][0],
+    max: sorted[sorted.length - 1][0],
+    percentiles: { p10: percentile(0.1), p25: percentile(0.25), p75: percentile(0.75), p90: percentile(0.9) },
+  };
+};
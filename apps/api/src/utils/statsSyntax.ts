@@ -0,0 +1,117 @@
+import { CodedDataset, CodebookVariable } from './codebook';
+
+// SPSS limits, in bytes
+const MAX_VARIABLE_LABEL_BYTES = 256;
+const MAX_VALUE_LABEL_BYTES = 120;
+const MAX_STRING_WIDTH = 32767;
+
+const singleLine = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+const truncateBytes = (text: string, maxBytes: number): string => {
+  let result = text;
+  while (Buffer.byteLength(result, 'utf8') > maxBytes) {
+    result = Array.from(result).slice(0, -1).join('');
+  }
+  return result;
+};
+
+const spssString = (text: string, maxBytes: number): string =>
+  `'${truncateBytes(singleLine(text), maxBytes).replace(/'/g, "''")}'`;
+
+const rString = (text: string): string => JSON.stringify(singleLine(text));
+
+// Input format per variable: string widths fit the longest value, numbers keep decimals when present
+const spssFormat = (dataset: CodedDataset, index: number): string => {
+  const values = dataset.rows.map(row => row[index]).filter(value => value !== null && value !== undefined);
+  if (dataset.variables[index].type === 'string') {
+    const width = Math.max(1, ...values.map(value => Buffer.byteLength(String(value), 'utf8')));
+    return `A${Math.min(width, MAX_STRING_WIDTH)}`;
+  }
+  return values.every(value => Number.isInteger(value)) ? 'F10.0' : 'F12.4';
+};
+
+const spssBlock = (command: string, entries: string[]): string[] =>
+  entries.length === 0 ? [] : [command, ...entries.map((entry, i) => `  ${i === 0 ? '' : '/'}${entry}`), '.', ''];
+
+/**
+ * SPSS syntax that reads the coded CSV and applies variable and value labels.
+ * The data file is read relative to SPSS's working directory.
+ */
+export const toSpssSyntax = (dataset: CodedDataset, dataFile: string, generatedAt = new Date()): string => {
+  const labelled = dataset.variables.filter(v => v.valueLabels.length > 0);
+  const lines = [
+    `* Coded survey responses exported ${generatedAt.toISOString().slice(0, 10)}.`,
+    `* Run from the folder containing ${dataFile}, or change the FILE path below.`,
+    '',
+    'GET DATA',
+    '  /TYPE=TXT',
+    `  /FILE='${dataFile}'`,
+    "  /ENCODING='UTF8'",
+    '  /DELCASE=LINE',
+    '  /DELIMITERS=","',
+    `  /QUALIFIER='"'`,
+    '  /ARRANGEMENT=DELIMITED',
+    '  /FIRSTCASE=2',
+    '  /VARIABLES=',
+    ...dataset.variables.map((v, i) => `    ${v.name} ${spssFormat(dataset, i)}`),
+    '.',
+    '',
+    ...spssBlock('VARIABLE LABELS', dataset.variables.map(v => `${v.name} ${spssString(v.label, MAX_VARIABLE_LABEL_BYTES)}`)),
+    ...spssBlock('VALUE LABELS', labelled.map(v =>
+      `${v.name} ${v.valueLabels.map(({ code, label }) => `${code} ${spssString(label, MAX_VALUE_LABEL_BYTES)}`).join(' ')}`
+    )),
+    ...spssBlock('VARIABLE LEVEL', [
+      ...(labelled.some(v => v.ordinal) ? [`${labelled.filter(v => v.ordinal).map(v => v.name).join(' ')} (ORDINAL)`] : []),
+      ...(labelled.some(v => !v.ordinal) ? [`${labelled.filter(v => !v.ordinal).map(v => v.name).join(' ')} (NOMINAL)`] : []),
+    ]),
+    'EXECUTE.',
+    '',
+  ];
+  return lines.join('\n');
+};
+
+const rFactor = (v: CodebookVariable): string => {
+  const column = `data[[${rString(v.name)}]]`;
+  const levels = v.valueLabels.map(({ code }) => code).join(', ');
+  const labels = v.valueLabels.map(({ label }) => rString(label)).join(', ');
+  return `${column} <- factor(${column}, levels = c(${levels}), labels = c(${labels})${v.ordinal ? ', ordered = TRUE' : ''})`;
+};
+
+/**
+ * Base R script that reads the coded CSV with the right column types, turns
+ * coded variables into factors and stores variable labels in the "label"
+ * attribute (the convention used by haven and labelled).
+ */
+export const toRScript = (dataset: CodedDataset, dataFile: string, generatedAt = new Date()): string => {
+  const colClasses = dataset.variables.map(v => `  ${rString(v.name)} = "${v.type === 'string' ? 'character' : 'numeric'}"`);
+  const labels = dataset.variables.map(v => `  ${rString(v.name)} = ${rString(v.label)}`);
+  const lines = [
+    `# Coded survey responses exported ${generatedAt.toISOString().slice(0, 10)}.`,
+    `# Run with the working directory set to the folder containing ${dataFile}.`,
+    '',
+    'col_classes <- c(',
+    colClasses.join(',\n'),
+    ')',
+    '',
+    'data <- read.csv(',
+    `  ${rString(dataFile)},`,
+    '  colClasses = col_classes,',
+    '  check.names = FALSE,',
+    '  na.strings = "",',
+    '  fileEncoding = "UTF-8"',
+    ')',
+    '',
+    '# Value labels',
+    ...dataset.variables.filter(v => v.valueLabels.length > 0).map(rFactor),
+    '',
+    '# Variable labels',
+    'variable_labels <- c(',
+    labels.join(',\n'),
+    ')',
+    'for (name in names(variable_labels)) {',
+    '  attr(data[[name]], "label") <- variable_labels[[name]]',
+    '}',
+    '',
+  ];
+  return lines.join('\n');
+};
@@ -0,0 +1,32 @@
+import mongoose from 'mongoose';
+import {
+  SurveyPermission,
+  SurveyRole,
+  shareRolesWithPermission,
+} from '../shared/surveyAccess';
+
+// Ids may be raw ObjectIds or populated user documents
+const idOf = (value: any): string => String(value?._id ?? value ?? '');
+
+// The caller's role on a survey, or null when the survey is neither theirs nor shared with them
+export const getSurveyRole = (survey: any, userId: string | undefined): SurveyRole | null => {
+  if (!survey || !userId) return null;
+  if (idOf(survey.createdBy) === userId) return 'owner';
+  const collaborator = (survey.collaborators || []).find((entry: any) => idOf(entry.user) === userId);
+  return collaborator?.role ?? null;
+};
+
+// Survey query filter matching surveys the user owns or has been given `permission` on
+export const surveyAccessFilter = (userId: string, permission: SurveyPermission = 'view') => {
+  const user = new mongoose.Types.ObjectId(userId);
+  const roles = shareRolesWithPermission(permission);
+  if (roles.length === 0) {
+    return { createdBy: user };
+  }
+  return {
+    $or: [
+      { createdBy: user },
+      { collaborators: { $elemMatch: { user, role: { $in: roles } } } },
+    ],
+  };
+};
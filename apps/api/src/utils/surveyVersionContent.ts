@@ -0,0 +1,35 @@
+import { ISurveyVersion } from '../models/SurveyVersion';
+
+const SNAPSHOT_FIELDS = [
+  'title',
+  'description',
+  'theme',
+  'backgroundColor',
+  'textColor',
+  'pages',
+  'quiz',
+  'hiddenFields',
+  'computedVariables',
+] as const;
+
+/**
+ * The survey as respondents saw it in an earlier version. Settings such as status and
+ * collection mode stay current; content the snapshot predates falls back to the survey's.
+ */
+export const withVersionContent = (survey: any, snapshot: ISurveyVersion): any => {
+  const content: Record<string, any> = {
+    ...(typeof survey?.toObject === 'function' ? survey.toObject() : survey),
+    version: snapshot.version,
+  };
+  const source: Record<string, any> = snapshot.toObject();
+  for (const field of SNAPSHOT_FIELDS) {
+    if (source[field] !== undefined) {
+      content[field] = source[field];
+    }
+  }
+  return content;
+};
+
+// A version a respondent may be answering: one that has been published, up to the current one
+export const isRespondentVersion = (version: unknown, currentVersion: number): version is number =>
+  Number.isInteger(version) && (version as number) >= 1 && (version as number) <= currentVersion;
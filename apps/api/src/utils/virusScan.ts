@@ -0,0 +1,21 @@
+export interface ScannableFile {
+  name: string;
+  mimeType: string;
+  data: Buffer;
+}
+
+export interface ScanResult {
+  clean: boolean;
+  reason?: string;
+}
+
+export type FileScanner = (file: ScannableFile) => Promise<ScanResult>;
+
+// No scanner is bundled; deployments plug one in (e.g. ClamAV) with setFileScanner
+let scanner: FileScanner = async () => ({ clean: true });
+
+export const setFileScanner = (fileScanner: FileScanner): void => {
+  scanner = fileScanner;
+};
+
+export const scanFile = (file: ScannableFile): Promise<ScanResult> => scanner(file);
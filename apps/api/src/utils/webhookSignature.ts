@@ -0,0 +1,12 @@
+import crypto from 'crypto';
+
+export const generateWebhookSecret = (): string => `whsec_${crypto.randomBytes(24).toString('hex')}`;
+
+// HMAC-SHA256 of `<timestamp>.<body>`; receivers recompute it to verify origin and reject replays
+export const signWebhookPayload = (secret: string, timestamp: number, body: string): string =>
+  crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+export const buildSignatureHeader = (secret: string, body: string, now = Date.now()): string => {
+  const timestamp = Math.floor(now / 1000);
+  return `t=${timestamp},v1=${signWebhookPayload(secret, timestamp, body)}`;
+};
@@ -0,0 +1,45 @@
+import dotenv from 'dotenv';
+dotenv.config();
+import mongoose from 'mongoose';
+import log from '../logger';
+import { DeliverWebhooksJob } from '../jobs/deliverWebhooks.job';
+
+const job = new DeliverWebhooksJob();
+let running = false;
+
+async function deliverDueWebhooks(): Promise<void> {
+  if (running) return; // previous batch still sending
+  running = true;
+  try {
+    const attempted = await job.execute();
+    if (attempted > 0) {
+      log.debug('Webhook batch processed', 'webhooksWorker', { attempted });
+    }
+  } finally {
+    running = false;
+  }
+}
+
+async function main(): Promise<void> {
+  const mongoUri = process.env.MONGODB_URI;
+  if (!mongoUri) {
+    // eslint-disable-next-line no-console
+    console.error('MONGODB_URI not configured');
+    process.exit(1);
+  }
+  await mongoose.connect(mongoUri);
+  log.info('Webhooks worker connected to MongoDB', 'webhooksWorker');
+
+  // Poll every 5 seconds
+  setInterval(() => {
+    deliverDueWebhooks().catch((e) => {
+      log.error('deliverDueWebhooks error', 'webhooksWorker', { error: e?.message });
+    });
+  }, 5000);
+}
+
+main().catch((e) => {
+  // eslint-disable-next-line no-console
+  console.error('Webhooks worker failed to start', e);
+  process.exit(1);
+});
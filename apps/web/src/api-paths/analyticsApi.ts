@@ -1,8 +1,15 @@
 import { buildApiUrl } from "./apiConfig";
+import { appendResponseFilters } from "../utils/responseFilters";
+import type { ResponseFilterParams } from "../utils/responseFilters";
 
-export const fetchAnalyticsApi = async (surveyId: string) => {
+const withFilters = (path: string, params: URLSearchParams, filters?: ResponseFilterParams) => {
+  const query = appendResponseFilters(params, filters).toString();
+  return query ? `${path}?${query}` : path;
+};
+
+export const fetchAnalyticsApi = async (surveyId: string, filters?: ResponseFilterParams) => {
   try {
-    const response = await fetch(buildApiUrl(`/api/analytics/${surveyId}`), {
+    const response = await fetch(buildApiUrl(withFilters(`/api/analytics/${surveyId}`, new URLSearchParams(), filters)), {
       credentials: "include",
     });
     
@@ -20,3 +27,56 @@ export const fetchAnalyticsApi = async (surveyId: string) => {
   }
 };
 
+
+export interface CrossTabAxis {
+  questionId: string;
+  title: string;
+  type: string;
+  categories: Array<{ key: string; label: string }>;
+}
+
+export interface CrossTabData {
+  surveyId: string;
+  row: CrossTabAxis;
+  column: CrossTabAxis;
+  counts: number[][];
+  rowTotals: number[];
+  columnTotals: number[];
+  total: number;
+  rowPercentages: number[][];
+  columnPercentages: number[][];
+  chiSquare: {
+    statistic: number;
+    degreesOfFreedom: number;
+    pValue: number;
+    lowExpectedCells: number;
+    expectedCells: number;
+    significant: boolean;
+    significanceLevel: number;
+  } | null;
+}
+
+export const fetchCrossTabApi = async (
+  surveyId: string,
+  rowQuestionId: string,
+  columnQuestionId: string,
+  filters?: ResponseFilterParams
+): Promise<CrossTabData> => {
+  try {
+    const params = new URLSearchParams({ row: rowQuestionId, column: columnQuestionId });
+    const response = await fetch(buildApiUrl(withFilters(`/api/analytics/${surveyId}/cross-tab`, params, filters)), {
+      credentials: "include",
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return Promise.reject(new Error(errorData.error || "Failed to fetch cross-tabulation"));
+    }
+
+    const data = await response.json();
+    return Promise.resolve(data);
+  } catch (error) {
+    console.error("Failed to fetch cross-tabulation:", error);
+    return Promise.reject(error instanceof Error ? error : new Error(String(error)));
+  }
+};
@@ -0,0 +1,55 @@
+import { buildApiUrl } from "./apiConfig";
+import type { ApiTokenScope } from "@shared/apiTokenScopes";
+
+export interface ApiTokenSummary {
+  id: string;
+  name: string;
+  tokenPreview: string;
+  scopes: ApiTokenScope[];
+  workspace: { id: string; name?: string };
+  expiresAt: string | null;
+  lastUsedAt?: string;
+  revokedAt?: string;
+  createdAt: string;
+}
+
+export interface ApiTokenInput {
+  name: string;
+  scopes: ApiTokenScope[];
+  // null creates a token that never expires
+  expiresInDays: number | null;
+}
+
+const sendTokenRequest = async <T>(
+  path: string,
+  method: string,
+  fallbackError: string,
+  body?: object
+): Promise<T> => {
+  try {
+    const res = await fetch(buildApiUrl(path), {
+      method,
+      credentials: "include",
+      ...(body ? { headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) } : {}),
+    });
+    if (!res.ok) {
+      const errorData = await res.json().catch(() => ({}));
+      return Promise.reject(new Error(errorData.error || fallbackError));
+    }
+    const data = res.status === 204 ? null : await res.json();
+    return Promise.resolve(data as T);
+  } catch (error) {
+    console.error(`${fallbackError}:`, error);
+    return Promise.reject(error instanceof Error ? error : new Error(String(error)));
+  }
+};
+
+export const fetchApiTokensApi = () =>
+  sendTokenRequest<{ tokens: ApiTokenSummary[] }>("/api/tokens", "GET", "Failed to fetch API tokens");
+
+// The token value is only returned here; the API keeps just its hash
+export const createApiTokenApi = (input: ApiTokenInput) =>
+  sendTokenRequest<ApiTokenSummary & { token: string }>("/api/tokens", "POST", "Failed to create API token", input);
+
+export const revokeApiTokenApi = (tokenId: string) =>
+  sendTokenRequest<null>(`/api/tokens/${tokenId}`, "DELETE", "Failed to revoke API token");
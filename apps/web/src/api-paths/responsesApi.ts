@@ -1,4 +1,31 @@
 import { buildApiUrl} from './apiConfig';
+import { appendResponseFilters } from '../utils/responseFilters';
+import type { ResponseFilterParams } from '../utils/responseFilters';
+
+// Answer value stored for fileUpload questions
+export interface UploadedFileRef {
+  fileId: string;
+  name: string;
+  size: number;
+  mimeType: string;
+}
+
+interface AnswerValidationIssue {
+  questionId: string;
+  message: string;
+}
+
+// Server answer validation returns per-question details alongside the error
+const formatResponseError = (
+  errorData: { error?: string; details?: AnswerValidationIssue[] },
+  fallback: string
+): string => {
+  const message = errorData.error || fallback;
+  if (!Array.isArray(errorData.details) || errorData.details.length === 0) return message;
+  const details = [...new Set(errorData.details.map(d => d.message))].join('; ');
+  return `${message}: ${details}`;
+};
+
 export const autoSaveResponse = async (surveyId: string, payload: any, token?: string) => {
   try {
     const res = await fetch(buildApiUrl(`/api/responses/${surveyId}/auto-save`), {
@@ -12,7 +39,7 @@ export const autoSaveResponse = async (surveyId: string, payload: any, token?: s
     if (!res.ok) {
       const errorData = await res.json().catch(() => ({}));
       return Promise.reject(
-        new Error(`${errorData.error || 'Auto-save failed'}`)
+        new Error(formatResponseError(errorData, 'Auto-save failed'))
       );
     }
     const data = await res.json();
@@ -40,7 +67,7 @@ export const submitSurveyApi = async (
     if (!res.ok) {
       const errorData = await res.json().catch(() => ({}));
       return Promise.reject(
-        new Error(`${errorData.error || 'Failed to submit survey'}`)
+        new Error(formatResponseError(errorData, 'Failed to submit survey'))
       );
     }
     const data = await res.json();
@@ -70,4 +97,128 @@ export const fetchRespondentResponseByEmail = async (
     console.error('Failed to fetch respondent response:', error);
     return Promise.reject(error instanceof Error ? error : new Error(String(error)));
   }
-};
\ No newline at end of file
+};
+
+export const uploadResponseFileApi = async (
+  surveyId: string,
+  questionId: string,
+  file: File,
+  token?: string
+): Promise<UploadedFileRef> => {
+  try {
+    const url = buildApiUrl(`/api/responses/${surveyId}/files?questionId=${encodeURIComponent(questionId)}`);
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': file.type || 'application/octet-stream',
+        'X-File-Name': encodeURIComponent(file.name),
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: file,
+    });
+    if (!res.ok) {
+      const errorData = await res.json().catch(() => ({}));
+      return Promise.reject(
+        new Error(errorData.error || 'Failed to upload file')
+      );
+    }
+    const data = await res.json();
+    return Promise.resolve(data);
+  } catch (error) {
+    console.error('Failed to upload file:', error);
+    return Promise.reject(error instanceof Error ? error : new Error(String(error)));
+  }
+};
+
+export const deleteResponseFileApi = async (
+  surveyId: string,
+  fileId: string,
+  token?: string
+) => {
+  try {
+    const res = await fetch(buildApiUrl(`/api/responses/${surveyId}/files/${fileId}`), {
+      method: 'DELETE',
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+    if (!res.ok) {
+      const errorData = await res.json().catch(() => ({}));
+      return Promise.reject(
+        new Error(errorData.error || 'Failed to remove file')
+      );
+    }
+    return Promise.resolve();
+  } catch (error) {
+    console.error('Failed to remove file:', error);
+    return Promise.reject(error instanceof Error ? error : new Error(String(error)));
+  }
+};
+
+// Downloads an uploaded file with the creator's session and saves it under its original name
+export const downloadResponseFileApi = async (
+  surveyId: string,
+  fileId: string,
+  fileName: string
+) => {
+  try {
+    const res = await fetch(buildApiUrl(`/api/responses/${surveyId}/files/${fileId}`), {
+      credentials: 'include',
+    });
+    if (!res.ok) {
+      const errorData = await res.json().catch(() => ({}));
+      return Promise.reject(
+        new Error(errorData.error || 'Failed to download file')
+      );
+    }
+    const blob = await res.blob();
+    const objectUrl = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = objectUrl;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(objectUrl);
+    return Promise.resolve();
+  } catch (error) {
+    console.error('Failed to download file:', error);
+    return Promise.reject(error instanceof Error ? error : new Error(String(error)));
+  }
+};
+
+// coded: zip with numerically coded data, a codebook, SPSS syntax and an R script
+export type ResponseExportFormat = 'csv' | 'xlsx' | 'coded';
+
+
+// Downloads every matching response as one spreadsheet row per respondent
+export const downloadResponsesExportApi = async (
+  surveyId: string,
+  format: ResponseExportFormat,
+  filters: ResponseFilterParams,
+  fileName: string
+) => {
+  try {
+    const params = appendResponseFilters(new URLSearchParams({ format }), filters);
+    const res = await fetch(buildApiUrl(`/api/responses/${surveyId}/export?${params.toString()}`), {
+      credentials: 'include',
+    });
+    if (!res.ok) {
+      const errorData = await res.json().catch(() => ({}));
+      return Promise.reject(
+        new Error(errorData.error || 'Failed to export responses')
+      );
+    }
+    const blob = await res.blob();
+    const objectUrl = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = objectUrl;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(objectUrl);
+    return Promise.resolve();
+  } catch (error) {
+    console.error('Failed to export responses:', error);
+    return Promise.reject(error instanceof Error ? error : new Error(String(error)));
+  }
+};
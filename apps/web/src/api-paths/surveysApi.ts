@@ -1,4 +1,8 @@
 import { buildApiUrl } from "./apiConfig";
+import type { SurveyDiff } from "@shared/surveyDiff";
+import type { SurveyRole, SurveyShareRole } from "@shared/surveyAccess";
+import { appendResponseFilters } from "../utils/responseFilters";
+import type { ResponseFilterParams } from "../utils/responseFilters";
 interface SurveyQuestion {
   id: string;
   type: string;
@@ -75,15 +79,36 @@ export const generateSurveyTokenApi = async (surveyId: string, email: string) =>
   }
 };
 
+// Starts an anonymous-link session; the API remembers the browser through a device cookie
+export const startAnonymousSessionApi = async (surveyId: string): Promise<{ token: string; sessionId: string }> => {
+  try {
+    const res = await fetch(buildApiUrl(`/api/surveys/${surveyId}/anonymous-session`), {
+      method: 'POST',
+      credentials: 'include',
+    });
+    if (!res.ok) {
+      const errorData = await res.json().catch(() => ({}));
+      return Promise.reject(new Error(errorData.error || 'Failed to start survey session'));
+    }
+    const data = await res.json();
+    return Promise.resolve(data);
+  } catch (error) {
+    console.error('Failed to start anonymous session:', error);
+    return Promise.reject(error instanceof Error ? error : new Error(String(error)));
+  }
+};
+
 export const fetchRespondentProgressApi = async (
   surveyId: string,
   page: number = 1,
-  limit: number = 20
+  limit: number = 20,
+  filters?: ResponseFilterParams
 ) => {
   try {
+    const params = appendResponseFilters(new URLSearchParams({ page: String(page), limit: String(limit) }), filters);
     const res = await fetch(
       buildApiUrl(
-        `/api/surveys/${surveyId}/respondent-progress?page=${page}&limit=${limit}`
+        `/api/surveys/${surveyId}/respondent-progress?${params.toString()}`
       ),
       {
         credentials: "include",
@@ -328,6 +353,194 @@ export const updateSurveyStatusApi = async (
   }
 };
 
+export interface SurveyVersionSummary {
+  version: number;
+  title: string;
+  publishedAt: string;
+  questionCount: number;
+  responseCount: number;
+}
+
+export const fetchSurveyVersionsApi = async (
+  surveyId: string
+): Promise<{ currentVersion: number; hasDraft: boolean; versions: SurveyVersionSummary[] }> => {
+  try {
+    const res = await fetch(buildApiUrl(`/api/surveys/${surveyId}/versions`), {
+      credentials: "include",
+    });
+    if (!res.ok) {
+      const errorData = await res.json().catch(() => ({}));
+      return Promise.reject(new Error(errorData.error || "Failed to fetch survey versions"));
+    }
+    const data = await res.json();
+    return Promise.resolve(data);
+  } catch (error) {
+    console.error("Failed to fetch survey versions:", error);
+    return Promise.reject(error instanceof Error ? error : new Error(String(error)));
+  }
+};
+
+// Publishes the staged draft of a published survey as its next version
+export const publishSurveyDraftApi = async (surveyId: string) => {
+  try {
+    const res = await fetch(buildApiUrl(`/api/surveys/${surveyId}/versions`), {
+      method: "POST",
+      credentials: "include",
+    });
+    if (!res.ok) {
+      const errorData = await res.json().catch(() => ({}));
+      return Promise.reject(new Error(errorData.error || "Failed to publish new version"));
+    }
+    const data = await res.json();
+    return Promise.resolve(data);
+  } catch (error) {
+    console.error("Failed to publish survey draft:", error);
+    return Promise.reject(error instanceof Error ? error : new Error(String(error)));
+  }
+};
+
+export const discardSurveyDraftApi = async (surveyId: string) => {
+  try {
+    const res = await fetch(buildApiUrl(`/api/surveys/${surveyId}/draft`), {
+      method: "DELETE",
+      credentials: "include",
+    });
+    if (!res.ok) {
+      const errorData = await res.json().catch(() => ({}));
+      return Promise.reject(new Error(errorData.error || "Failed to discard draft"));
+    }
+    const data = await res.json();
+    return Promise.resolve(data);
+  } catch (error) {
+    console.error("Failed to discard survey draft:", error);
+    return Promise.reject(error instanceof Error ? error : new Error(String(error)));
+  }
+};
+
+export interface SurveyRevisionSummary {
+  _id: string;
+  revision: number;
+  surveyVersion: number;
+  title: string;
+  changes: string[];
+  restoredFrom?: number;
+  createdBy?: { _id: string; name?: string; email: string } | null;
+  createdAt: string;
+}
+
+export const fetchSurveyRevisionsApi = async (
+  surveyId: string,
+  page = 1,
+  limit = 50
+): Promise<{ revisions: SurveyRevisionSummary[]; pagination: { page: number; total: number; hasNext: boolean } }> => {
+  try {
+    const res = await fetch(
+      buildApiUrl(`/api/surveys/${surveyId}/revisions?page=${page}&limit=${limit}`),
+      { credentials: "include" }
+    );
+    if (!res.ok) {
+      const errorData = await res.json().catch(() => ({}));
+      return Promise.reject(new Error(errorData.error || "Failed to fetch revision history"));
+    }
+    const data = await res.json();
+    return Promise.resolve(data);
+  } catch (error) {
+    console.error("Failed to fetch survey revisions:", error);
+    return Promise.reject(error instanceof Error ? error : new Error(String(error)));
+  }
+};
+
+// Without `from` the revision is compared with the one saved before it
+export const fetchSurveyRevisionDiffApi = async (
+  surveyId: string,
+  to: number,
+  from?: number
+): Promise<{ from: number | null; to: number; diff: SurveyDiff }> => {
+  try {
+    const query = from === undefined ? `to=${to}` : `from=${from}&to=${to}`;
+    const res = await fetch(buildApiUrl(`/api/surveys/${surveyId}/revisions/diff?${query}`), {
+      credentials: "include",
+    });
+    if (!res.ok) {
+      const errorData = await res.json().catch(() => ({}));
+      return Promise.reject(new Error(errorData.error || "Failed to compare revisions"));
+    }
+    const data = await res.json();
+    return Promise.resolve(data);
+  } catch (error) {
+    console.error("Failed to compare survey revisions:", error);
+    return Promise.reject(error instanceof Error ? error : new Error(String(error)));
+  }
+};
+
+export const restoreSurveyRevisionApi = async (surveyId: string, revision: number) => {
+  try {
+    const res = await fetch(buildApiUrl(`/api/surveys/${surveyId}/revisions/${revision}/restore`), {
+      method: "POST",
+      credentials: "include",
+    });
+    if (!res.ok) {
+      const errorData = await res.json().catch(() => ({}));
+      return Promise.reject(new Error(errorData.error || "Failed to restore revision"));
+    }
+    const data = await res.json();
+    return Promise.resolve(data);
+  } catch (error) {
+    console.error("Failed to restore survey revision:", error);
+    return Promise.reject(error instanceof Error ? error : new Error(String(error)));
+  }
+};
+
+export interface SurveyCollaborator {
+  userId: string;
+  name?: string;
+  email: string;
+  role: SurveyShareRole;
+  addedAt: string;
+}
+
+export interface SurveyCollaboratorsResponse {
+  role: SurveyRole;
+  owner: { userId: string; name?: string; email: string };
+  collaborators: SurveyCollaborator[];
+}
+
+const sendCollaboratorRequest = async (
+  path: string,
+  method: string,
+  fallbackError: string,
+  body?: Record<string, unknown>
+): Promise<SurveyCollaboratorsResponse> => {
+  try {
+    const res = await fetch(buildApiUrl(path), {
+      method,
+      credentials: "include",
+      ...(body ? { headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) } : {}),
+    });
+    if (!res.ok) {
+      const errorData = await res.json().catch(() => ({}));
+      return Promise.reject(new Error(errorData.error || fallbackError));
+    }
+    const data = await res.json();
+    return Promise.resolve(data);
+  } catch (error) {
+    console.error(`${fallbackError}:`, error);
+    return Promise.reject(error instanceof Error ? error : new Error(String(error)));
+  }
+};
+
+export const fetchSurveyCollaboratorsApi = (surveyId: string) =>
+  sendCollaboratorRequest(`/api/surveys/${surveyId}/collaborators`, "GET", "Failed to fetch collaborators");
+
+export const shareSurveyApi = (surveyId: string, email: string, role: SurveyShareRole) =>
+  sendCollaboratorRequest(`/api/surveys/${surveyId}/collaborators`, "POST", "Failed to share survey", { email, role });
+
+export const updateSurveyCollaboratorApi = (surveyId: string, userId: string, role: SurveyShareRole) =>
+  sendCollaboratorRequest(`/api/surveys/${surveyId}/collaborators/${userId}`, "PATCH", "Failed to update collaborator", { role });
+
+export const removeSurveyCollaboratorApi = (surveyId: string, userId: string) =>
+  sendCollaboratorRequest(`/api/surveys/${surveyId}/collaborators/${userId}`, "DELETE", "Failed to remove collaborator");
+
 export const deleteSurveyApi = async (surveyId: string) => {
   try {
     const res = await fetch(buildApiUrl(`/api/surveys/${surveyId}`), {
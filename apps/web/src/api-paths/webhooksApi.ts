@@ -0,0 +1,95 @@
+import { buildApiUrl } from "./apiConfig";
+import type { WebhookEvent } from "@shared/webhookEvents";
+
+export interface WebhookSummary {
+  id: string;
+  url: string;
+  description?: string;
+  events: WebhookEvent[];
+  active: boolean;
+  survey: { id: string; title?: string } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type WebhookDeliveryStatus = "pending" | "delivering" | "succeeded" | "failed";
+
+export interface WebhookDelivery {
+  id: string;
+  event: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus?: number;
+  responseBody?: string;
+  error?: string;
+  durationMs?: number;
+  nextAttemptAt?: string;
+  deliveredAt?: string;
+  createdAt: string;
+  payload: Record<string, unknown>;
+}
+
+export interface WebhookInput {
+  url: string;
+  description?: string;
+  events: WebhookEvent[];
+  surveyId?: string;
+}
+
+const sendWebhookRequest = async <T>(
+  path: string,
+  method: string,
+  fallbackError: string,
+  body?: object
+): Promise<T> => {
+  try {
+    const res = await fetch(buildApiUrl(path), {
+      method,
+      credentials: "include",
+      ...(body ? { headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) } : {}),
+    });
+    if (!res.ok) {
+      const errorData = await res.json().catch(() => ({}));
+      return Promise.reject(new Error(errorData.error || fallbackError));
+    }
+    const data = res.status === 204 ? null : await res.json();
+    return Promise.resolve(data as T);
+  } catch (error) {
+    console.error(`${fallbackError}:`, error);
+    return Promise.reject(error instanceof Error ? error : new Error(String(error)));
+  }
+};
+
+// Without a survey id, lists the workspace-wide webhooks (workspace admins only)
+export const fetchWebhooksApi = (surveyId?: string) =>
+  sendWebhookRequest<{ webhooks: WebhookSummary[] }>(
+    surveyId ? `/api/webhooks?surveyId=${encodeURIComponent(surveyId)}` : "/api/webhooks",
+    "GET",
+    "Failed to fetch webhooks"
+  );
+
+// The signing secret is only returned here and by rotateWebhookSecretApi
+export const createWebhookApi = (input: WebhookInput) =>
+  sendWebhookRequest<WebhookSummary & { secret: string }>("/api/webhooks", "POST", "Failed to create webhook", input);
+
+export const updateWebhookApi = (webhookId: string, updates: Partial<Omit<WebhookInput, "surveyId">> & { active?: boolean }) =>
+  sendWebhookRequest<WebhookSummary>(`/api/webhooks/${webhookId}`, "PATCH", "Failed to update webhook", updates);
+
+export const deleteWebhookApi = (webhookId: string) =>
+  sendWebhookRequest<null>(`/api/webhooks/${webhookId}`, "DELETE", "Failed to delete webhook");
+
+export const rotateWebhookSecretApi = (webhookId: string) =>
+  sendWebhookRequest<{ secret: string }>(
+    `/api/webhooks/${webhookId}/rotate-secret`,
+    "POST",
+    "Failed to rotate webhook secret"
+  );
+
+export const sendWebhookTestApi = (webhookId: string) =>
+  sendWebhookRequest<{ deliveryId: string }>(`/api/webhooks/${webhookId}/test`, "POST", "Failed to send test event");
+
+export const fetchWebhookDeliveriesApi = (webhookId: string, page = 1, limit = 20) =>
+  sendWebhookRequest<{
+    deliveries: WebhookDelivery[];
+    pagination: { page: number; limit: number; total: number; totalPages: number; hasNext: boolean; hasPrev: boolean };
+  }>(`/api/webhooks/${webhookId}/deliveries?page=${page}&limit=${limit}`, "GET", "Failed to fetch webhook deliveries");
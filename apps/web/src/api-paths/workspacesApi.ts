@@ -0,0 +1,114 @@
+import { buildApiUrl } from "./apiConfig";
+
+export type WorkspaceRole = "admin" | "member";
+
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+  personal: boolean;
+  role: WorkspaceRole | null;
+  memberCount: number;
+  active: boolean;
+}
+
+export interface WorkspaceMember {
+  userId: string;
+  name?: string;
+  email: string;
+  role: WorkspaceRole;
+  addedAt: string;
+  isCreator: boolean;
+}
+
+export interface WorkspaceMembersResponse {
+  id: string;
+  name: string;
+  personal: boolean;
+  role: WorkspaceRole;
+  members: WorkspaceMember[];
+}
+
+const sendWorkspaceRequest = async <T>(
+  path: string,
+  method: string,
+  fallbackError: string,
+  body?: Record<string, unknown>
+): Promise<T> => {
+  try {
+    const res = await fetch(buildApiUrl(path), {
+      method,
+      credentials: "include",
+      ...(body ? { headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) } : {}),
+    });
+    if (!res.ok) {
+      const errorData = await res.json().catch(() => ({}));
+      return Promise.reject(new Error(errorData.error || fallbackError));
+    }
+    const data = res.status === 204 ? null : await res.json();
+    return Promise.resolve(data as T);
+  } catch (error) {
+    console.error(`${fallbackError}:`, error);
+    return Promise.reject(error instanceof Error ? error : new Error(String(error)));
+  }
+};
+
+export const fetchWorkspacesApi = () =>
+  sendWorkspaceRequest<{ workspaces: WorkspaceSummary[]; activeWorkspaceId: string }>(
+    "/api/workspaces",
+    "GET",
+    "Failed to fetch workspaces"
+  );
+
+export const createWorkspaceApi = (name: string) =>
+  sendWorkspaceRequest<{ id: string; name: string; personal: boolean }>(
+    "/api/workspaces",
+    "POST",
+    "Failed to create workspace",
+    { name }
+  );
+
+export const activateWorkspaceApi = (workspaceId: string) =>
+  sendWorkspaceRequest<{ activeWorkspaceId: string }>(
+    `/api/workspaces/${workspaceId}/activate`,
+    "POST",
+    "Failed to switch workspace"
+  );
+
+export const renameWorkspaceApi = (workspaceId: string, name: string) =>
+  sendWorkspaceRequest<{ id: string; name: string }>(
+    `/api/workspaces/${workspaceId}`,
+    "PATCH",
+    "Failed to rename workspace",
+    { name }
+  );
+
+export const fetchWorkspaceMembersApi = (workspaceId: string) =>
+  sendWorkspaceRequest<WorkspaceMembersResponse>(
+    `/api/workspaces/${workspaceId}/members`,
+    "GET",
+    "Failed to fetch workspace members"
+  );
+
+export const addWorkspaceMemberApi = (workspaceId: string, email: string, role: WorkspaceRole) =>
+  sendWorkspaceRequest<WorkspaceMembersResponse>(
+    `/api/workspaces/${workspaceId}/members`,
+    "POST",
+    "Failed to add member",
+    { email, role }
+  );
+
+export const updateWorkspaceMemberApi = (workspaceId: string, userId: string, role: WorkspaceRole) =>
+  sendWorkspaceRequest<WorkspaceMembersResponse>(
+    `/api/workspaces/${workspaceId}/members/${userId}`,
+    "PATCH",
+    "Failed to update member",
+    { role }
+  );
+
+// Resolves to null when the caller removed themselves
+export const removeWorkspaceMemberApi = (workspaceId: string, userId: string) =>
+  sendWorkspaceRequest<WorkspaceMembersResponse | null>(
+    `/api/workspaces/${workspaceId}/members/${userId}`,
+    "DELETE",
+    "Failed to remove member"
+  );
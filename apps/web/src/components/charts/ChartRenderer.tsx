@@ -4,29 +4,98 @@ import BarChart from './BarChart';
 import PieChart from './PieChart';
 import LineChart from './LineChart';
 import WordCloud from './WordCloud';
+import StackedBarChart from './StackedBarChart';
+import type { StackedBarData } from './StackedBarChart';
+import GaugeChart from './GaugeChart';
+import DivergingBarChart from './DivergingBarChart';
+import type { NumericPercentiles } from './NumericSummary';
+
+export interface MatrixRowAnalytics {
+  rowId: string;
+  label: string;
+  // Per column, in scale order
+  counts: number[];
+  total: number;
+  average: number | null;
+}
+
+export interface RankingOptionAnalytics {
+  optionId: string;
+  label: string;
+  // How often the option was placed at each rank, first place first
+  positions: number[];
+  rankedCount: number;
+  averageRank: number | null;
+  firstChoices: number;
+  firstChoiceShare: number;
+  bordaScore: number;
+}
+
+export interface ConstantSumOptionAnalytics {
+  optionId: string;
+  label: string;
+  mean: number;
+  median: number;
+  min: number;
+  max: number;
+  percentiles: NumericPercentiles;
+  // Percentage of the total allocated to the option on average
+  share: number;
+}
+
+export interface NpsTrendPoint {
+  period: string;
+  responses: number;
+  score: number | null;
+}
 
 interface ChartData {
-  type: 'choice' | 'numeric' | 'text' | 'matrix' | 'grid' | 'basic';
+  type: 'choice' | 'numeric' | 'text' | 'matrix' | 'grid' | 'basic' | 'stacked' | 'nps' | 'ranking' | 'constantSum';
   counts?: Record<string, number>;
   avg?: number;
   min?: number;
   max?: number;
   distribution?: Record<string, number>;
   topWords?: Array<{ word: string; count: number }>;
-  matrix?: Record<string, Record<string, number>>;
   grid?: Record<string, Record<string, number>>;
+  // Matrix questions: per-row counts over the shared column scale
+  columns?: string[];
+  rows?: MatrixRowAnalytics[];
+  // Ranking questions: per-option rank statistics, highest Borda score first
+  rankedPositions?: number;
+  options?: RankingOptionAnalytics[] | ConstantSumOptionAnalytics[];
+  // Constant-sum questions: the total split across `options`
+  total?: number;
+  // Cross-tabulations: one bar per category, stacked by series
+  stacked?: StackedBarData;
+  // Net Promoter Score questions; `distribution` holds the 0-10 answers
+  score?: number | null;
+  promoters?: number;
+  passives?: number;
+  detractors?: number;
+  trend?: { interval: 'day' | 'week' | 'month'; points: NpsTrendPoint[] };
 }
 
+const npsColor = (score: number) => {
+  if (score >= 30) return '#16A34A';
+  if (score >= 0) return '#F59E0B';
+  return '#DC2626';
+};
+
 interface ChartRendererProps {
   chartType: ChartType;
   data: ChartData;
   title?: string;
+  xAxisLabel?: string;
+  yAxisLabel?: string;
 }
 
 const ChartRenderer: React.FC<ChartRendererProps> = ({
   chartType,
   data,
   title,
+  xAxisLabel,
+  yAxisLabel,
 }) => {
   // Sort smiley rating categories in order
   const sortSmileyCategories = (entries: [string, number][]): [string, number][] => {
@@ -49,6 +118,38 @@ const ChartRenderer: React.FC<ChartRendererProps> = ({
           value,
         }));
       
+      case 'nps':
+        // Pie shows the three groups, line the score over time, bar the 0-10 answers
+        if (chartType === 'Pie' || chartType === 'Doughnut') {
+          return [
+            { name: 'Promoters (9-10)', value: data.promoters ?? 0 },
+            { name: 'Passives (7-8)', value: data.passives ?? 0 },
+            { name: 'Detractors (0-6)', value: data.detractors ?? 0 },
+          ];
+        }
+        if (chartType === 'Line' || chartType === 'Area') {
+          return (data.trend?.points ?? [])
+            .filter((point) => point.score !== null)
+            .map((point) => ({ name: point.period, value: point.score as number }));
+        }
+        return Object.entries(data.distribution || {})
+          .sort(([a], [b]) => Number(a) - Number(b))
+          .map(([name, value]) => ({ name, value }));
+
+      case 'ranking':
+        // Pie shows who came first, bar the Borda score that weighs every rank
+        return ((data.options ?? []) as RankingOptionAnalytics[]).map((option) => ({
+          name: option.label,
+          value: chartType === 'Pie' || chartType === 'Doughnut' ? option.firstChoices : option.bordaScore,
+        }));
+
+      case 'constantSum':
+        // Pie shows each option's share of the total, bar the mean amount it was given
+        return ((data.options ?? []) as ConstantSumOptionAnalytics[]).map((option) => ({
+          name: option.label,
+          value: chartType === 'Pie' || chartType === 'Doughnut' ? option.share : option.mean,
+        }));
+
       case 'numeric':
         if (data.distribution) {
           // Check if this might be smiley ratings (has "Very Sad" category)
@@ -76,9 +177,6 @@ const ChartRenderer: React.FC<ChartRendererProps> = ({
       case 'text':
         return data.topWords || [];
       
-      case 'matrix':
-        return data.matrix || {};
-      
       case 'grid':
         return data.grid || {};
       
@@ -93,9 +191,18 @@ const ChartRenderer: React.FC<ChartRendererProps> = ({
     switch (data.type) {
       case 'numeric':
         return { x: 'Value', y: 'Responses' };
+      case 'nps':
+        return chartType === 'Line' || chartType === 'Area'
+          ? { x: `Period (${data.trend?.interval ?? 'day'})`, y: 'NPS' }
+          : { x: 'Score', y: 'Responses' };
       case 'choice':
         return { x: 'Options', y: 'Responses' };
       case 'matrix':
+        return { x: 'Statements', y: 'Responses' };
+      case 'ranking':
+        return { x: 'Options', y: 'Borda score' };
+      case 'constantSum':
+        return { x: 'Options', y: 'Mean amount' };
       case 'grid':
         return { x: 'Categories', y: 'Responses' };
       default:
@@ -105,10 +212,148 @@ const ChartRenderer: React.FC<ChartRendererProps> = ({
 
   const axisLabels = getAxisLabels();
 
+  if (data.type === 'stacked') {
+    if (chartType !== 'Bar' || !data.stacked) {
+      return <div className="text-gray-500 dark:text-gray-400">Only stacked bar charts are available for cross-tabulations</div>;
+    }
+    return (
+      <StackedBarChart
+        data={data.stacked}
+        title={title}
+        xAxisLabel={xAxisLabel ?? axisLabels.x}
+        yAxisLabel={yAxisLabel ?? axisLabels.y}
+      />
+    );
+  }
+
+  if (data.type === 'matrix') {
+    // One bar per row, split by the columns it was answered with
+    const matrixData: StackedBarData = {
+      categories: (data.rows ?? []).map((row) => row.label),
+      series: (data.columns ?? []).map((name, c) => ({ name, values: (data.rows ?? []).map((row) => row.counts[c] ?? 0) })),
+    };
+    if (chartType === 'Diverging') {
+      return <DivergingBarChart data={matrixData} title={title} />;
+    }
+    if (chartType !== 'Bar') {
+      return <div className="text-gray-500 dark:text-gray-400">Only stacked and diverging bar charts are available for matrix questions</div>;
+    }
+    return (
+      <StackedBarChart
+        data={matrixData}
+        title={title}
+        xAxisLabel={xAxisLabel ?? axisLabels.x}
+        yAxisLabel={yAxisLabel ?? axisLabels.y}
+      />
+    );
+  }
+
+  if (data.type === 'ranking') {
+    if (chartType !== 'Bar' && chartType !== 'Pie' && chartType !== 'Doughnut') {
+      return <div className="text-gray-500 dark:text-gray-400">Only bar and pie charts are available for ranking questions</div>;
+    }
+    const rankingData = chartData as Array<{ name: string; value: number }>;
+    return (
+      <div className="w-full">
+        {chartType === 'Bar' ? (
+          <BarChart data={rankingData} title={title} xAxisLabel={axisLabels.x} yAxisLabel={axisLabels.y} />
+        ) : (
+          <PieChart data={rankingData} title={title} />
+        )}
+        <table className="mt-4 w-full text-sm text-left text-gray-700 dark:text-gray-300">
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-gray-700">
+              <th className="py-2 font-medium">Option</th>
+              <th className="py-2 font-medium text-right">Average rank</th>
+              <th className="py-2 font-medium text-right">First choice</th>
+              <th className="py-2 font-medium text-right">Borda score</th>
+            </tr>
+          </thead>
+          <tbody>
+            {((data.options ?? []) as RankingOptionAnalytics[]).map((option) => (
+              <tr key={option.optionId} className="border-b border-gray-100 dark:border-gray-800">
+                <td className="py-2">{option.label}</td>
+                <td className="py-2 text-right">{option.averageRank === null ? '-' : option.averageRank.toFixed(2)}</td>
+                <td className="py-2 text-right">{option.firstChoiceShare}%</td>
+                <td className="py-2 text-right">{option.bordaScore}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  }
+
+  if (data.type === 'constantSum') {
+    if (chartType !== 'Bar' && chartType !== 'Pie' && chartType !== 'Doughnut') {
+      return <div className="text-gray-500 dark:text-gray-400">Only bar and pie charts are available for constant-sum questions</div>;
+    }
+    const allocationData = chartData as Array<{ name: string; value: number }>;
+    return (
+      <div className="w-full">
+        {chartType === 'Bar' ? (
+          <BarChart data={allocationData} title={title} xAxisLabel={axisLabels.x} yAxisLabel={axisLabels.y} />
+        ) : (
+          <PieChart data={allocationData} title={title} />
+        )}
+        <table className="mt-4 w-full text-sm text-left text-gray-700 dark:text-gray-300">
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-gray-700">
+              <th className="py-2 font-medium">Option</th>
+              <th className="py-2 font-medium text-right">Mean</th>
+              <th className="py-2 font-medium text-right">Median</th>
+              <th className="py-2 font-medium text-right">25th-75th pct.</th>
+              <th className="py-2 font-medium text-right">Share of {data.total ?? 100}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {((data.options ?? []) as ConstantSumOptionAnalytics[]).map((option) => (
+              <tr key={option.optionId} className="border-b border-gray-100 dark:border-gray-800">
+                <td className="py-2">{option.label}</td>
+                <td className="py-2 text-right">{option.mean}</td>
+                <td className="py-2 text-right">{option.median}</td>
+                <td className="py-2 text-right">{option.percentiles.p25}-{option.percentiles.p75}</td>
+                <td className="py-2 text-right">{option.share}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  }
+
+  if (chartType === 'Diverging') {
+    return <div className="text-gray-500 dark:text-gray-400">Diverging bar chart only available for matrix questions</div>;
+  }
+
+  if (chartType === 'Gauge') {
+    if (data.type !== 'nps' || data.score === null || data.score === undefined) {
+      return <div className="text-gray-500 dark:text-gray-400">Gauge only available for Net Promoter Score questions</div>;
+    }
+    return (
+      <GaugeChart value={data.score} min={-100} max={100} title={title} color={npsColor(data.score)} label="Net Promoter Score">
+        <div className="mt-4 grid grid-cols-3 gap-2 text-center text-sm">
+          <div>
+            <div className="font-semibold text-green-600">{data.promoters ?? 0}</div>
+            <div className="text-gray-500 dark:text-gray-400">Promoters</div>
+          </div>
+          <div>
+            <div className="font-semibold text-amber-500">{data.passives ?? 0}</div>
+            <div className="text-gray-500 dark:text-gray-400">Passives</div>
+          </div>
+          <div>
+            <div className="font-semibold text-red-600">{data.detractors ?? 0}</div>
+            <div className="text-gray-500 dark:text-gray-400">Detractors</div>
+          </div>
+        </div>
+      </GaugeChart>
+    );
+  }
+
   // Render appropriate chart based on type
   switch (chartType) {
     case 'Bar':
-      if (data.type === 'text' || data.type === 'matrix' || data.type === 'grid') {
+      if (data.type === 'text' || data.type === 'grid') {
         return <div className="text-gray-500 dark:text-gray-400">Bar chart not available for this data type</div>;
       }
       return (
@@ -122,14 +367,14 @@ const ChartRenderer: React.FC<ChartRendererProps> = ({
     
     case 'Pie':
     case 'Doughnut':
-      if (data.type === 'text' || data.type === 'matrix' || data.type === 'grid') {
+      if (data.type === 'text' || data.type === 'grid') {
         return <div className="text-gray-500 dark:text-gray-400">Pie chart not available for this data type</div>;
       }
       return <PieChart data={chartData as Array<{ name: string; value: number }>} title={title} />;
     
     case 'Line':
     case 'Area':
-      if (data.type === 'text' || data.type === 'matrix' || data.type === 'grid') {
+      if (data.type === 'text' || data.type === 'grid') {
         return <div className="text-gray-500 dark:text-gray-400">Line chart not available for this data type</div>;
       }
       return (
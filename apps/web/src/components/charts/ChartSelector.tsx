@@ -9,7 +9,9 @@ export type ChartType =
   | 'Area'
   | 'Radar'
   | 'PolarArea'
-  | 'WordCloud';
+  | 'WordCloud'
+  | 'Gauge'
+  | 'Diverging';
 
 interface ChartSelectorProps {
   value: ChartType;
@@ -26,6 +28,8 @@ const allChartTypes: { value: ChartType; label: string }[] = [
   { value: 'Radar', label: 'Radar Chart' },
   { value: 'PolarArea', label: 'Polar Area Chart' },
   { value: 'WordCloud', label: 'Word Cloud' },
+  { value: 'Gauge', label: 'Gauge' },
+  { value: 'Diverging', label: 'Diverging Bar Chart' },
 ];
 
 const ChartSelector: React.FC<ChartSelectorProps> = ({
@@ -0,0 +1,70 @@
+import React from 'react';
+import NumericSummary from './NumericSummary';
+import type { NumericPercentiles } from './NumericSummary';
+
+export interface ComputedVariableAnalytics {
+  name: string;
+  label: string;
+  responses: number;
+  // Set when every stored value is a number
+  summary: {
+    count: number;
+    mean: number;
+    median: number;
+    min: number;
+    max: number;
+    percentiles: NumericPercentiles;
+  } | null;
+  values: Array<{ value: string; count: number }>;
+  // Responses with values beyond the most common ones
+  otherValues: number;
+}
+
+interface Props {
+  variables: ComputedVariableAnalytics[];
+  totalResponses: number;
+}
+
+// Numeric variables show their summary statistics, others their most common values
+const ComputedResults: React.FC<Props> = ({ variables, totalResponses }) => (
+  <div className="space-y-6">
+    {variables.map((variable) => (
+      <div key={variable.name}>
+        <h3 className="text-sm font-medium text-gray-900 dark:text-white">{variable.label}</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {variable.responses} of {totalResponses} responses have a value
+        </p>
+        {variable.summary ? (
+          <NumericSummary
+            mean={variable.summary.mean}
+            median={variable.summary.median}
+            min={variable.summary.min}
+            max={variable.summary.max}
+            percentiles={variable.summary.percentiles}
+          />
+        ) : (
+          <table className="mt-2 w-full text-sm">
+            <tbody>
+              {[
+                ...variable.values.map(({ value, count }) => ({ label: value, count, muted: false })),
+                ...(variable.otherValues > 0 ? [{ label: 'Other values', count: variable.otherValues, muted: true }] : []),
+              ].map((row) => (
+                <tr key={row.label} className="border-t border-gray-100 dark:border-gray-700">
+                  <td className={`py-1 pr-2 ${row.muted ? 'italic text-gray-500 dark:text-gray-400' : 'text-gray-700 dark:text-gray-300'}`}>
+                    {row.label}
+                  </td>
+                  <td className="py-1 text-right text-gray-700 dark:text-gray-300">{row.count}</td>
+                  <td className="py-1 pl-2 w-16 text-right text-gray-500 dark:text-gray-400">
+                    {totalResponses > 0 ? `${Math.round((row.count / totalResponses) * 100)}%` : '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    ))}
+  </div>
+);
+
+export default ComputedResults;
@@ -0,0 +1,122 @@
+import React from 'react';
+import {
+  BarChart as RechartsBarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import type { StackedBarData } from './StackedBarChart';
+
+interface DivergingBarChartProps {
+  // Series are the scale points from most negative to most positive
+  data: StackedBarData;
+  title?: string;
+}
+
+const NEGATIVE = [220, 38, 38];
+const NEUTRAL = [209, 213, 219];
+const POSITIVE = [37, 99, 235];
+
+// Red for the low end of the scale, grey in the middle and blue for the high end
+const scaleColor = (index: number, count: number): string => {
+  const t = count <= 1 ? 1 : index / (count - 1);
+  const [from, to, local] = t < 0.5 ? [NEGATIVE, NEUTRAL, t * 2] : [NEUTRAL, POSITIVE, (t - 0.5) * 2];
+  const channel = (i: number) => Math.round(from[i] + (to[i] - from[i]) * local);
+  return `rgb(${channel(0)}, ${channel(1)}, ${channel(2)})`;
+};
+
+/**
+ * Horizontal bars centred on zero: the lower half of the scale extends left, the upper half
+ * right, and an odd middle point is split across both sides. Values are shares of each row.
+ */
+const DivergingBarChart: React.FC<DivergingBarChartProps> = ({ data, title }) => {
+  const count = data.series.length;
+  const middle = count % 2 === 1 ? (count - 1) / 2 : -1;
+  const isNegative = (s: number) => s < Math.floor(count / 2);
+
+  const rows = data.categories.map((name, i) => {
+    const total = data.series.reduce((sum, series) => sum + (series.values[i] ?? 0), 0);
+    const row: Record<string, string | number> = { name };
+    data.series.forEach((series, s) => {
+      const share = total > 0 ? ((series.values[i] ?? 0) / total) * 100 : 0;
+      row[`p${s}`] = share;
+      if (s === middle) {
+        row[`s${s}n`] = -share / 2;
+        row[`s${s}p`] = share / 2;
+      } else {
+        row[`s${s}`] = isNegative(s) ? -share : share;
+      }
+    });
+    return row;
+  });
+
+  // Segments stack outwards from zero, so each side is drawn starting next to the centre
+  const negativeKeys = data.series
+    .map((_, s) => s)
+    .filter(s => isNegative(s) && s !== middle)
+    .reverse()
+    .map(s => ({ s, key: `s${s}` }));
+  const positiveKeys = data.series
+    .map((_, s) => s)
+    .filter(s => !isNegative(s) && s !== middle)
+    .map(s => ({ s, key: `s${s}` }));
+  const segments = [
+    ...(middle === -1 ? [] : [{ s: middle, key: `s${middle}n` }, { s: middle, key: `s${middle}p` }]),
+    ...negativeKeys,
+    ...positiveKeys,
+  ];
+
+  const formatPercent = (value: number) => `${Math.abs(value).toFixed(0)}%`;
+
+  return (
+    <div className="w-full">
+      {title && (
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+          {title}
+        </h3>
+      )}
+      <div style={{ height: Math.max(160, rows.length * 48 + 60) }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <RechartsBarChart data={rows} layout="vertical" stackOffset="sign">
+            <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+            <XAxis type="number" domain={[-100, 100]} tickFormatter={formatPercent} tick={{ fontSize: 12 }} />
+            <YAxis type="category" dataKey="name" width={140} tick={{ fontSize: 12 }} />
+            <Tooltip
+              formatter={(_value, _name, item) => {
+                const s = Number(String(item.dataKey).replace(/\D/g, ''));
+                return [formatPercent(Number(item.payload[`p${s}`])), data.series[s]?.name];
+              }}
+            />
+            <ReferenceLine x={0} stroke="#6B7280" />
+            {segments.map(({ s, key }) => (
+              <Bar
+                key={key}
+                dataKey={key}
+                name={data.series[s].name}
+                stackId="stack"
+                fill={scaleColor(s, count)}
+                // The split middle point is listed once in the tooltip
+                tooltipType={key.endsWith('p') ? 'none' : undefined}
+                maxBarSize={32}
+              />
+            ))}
+          </RechartsBarChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="mt-2 flex flex-wrap justify-center gap-3 text-xs text-gray-600 dark:text-gray-300">
+        {data.series.map((series, s) => (
+          <span key={series.name + s} className="inline-flex items-center gap-1">
+            <span className="inline-block h-3 w-3 rounded-sm" style={{ backgroundColor: scaleColor(s, count) }} />
+            {series.name}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DivergingBarChart;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { PieChart as RechartsPieChart, Pie, Cell, ResponsiveContainer } from 'recharts';
+
+interface GaugeChartProps {
+  value: number;
+  min: number;
+  max: number;
+  title?: string;
+  color?: string;
+  // Shown under the value, e.g. what the number measures
+  label?: string;
+  children?: React.ReactNode;
+}
+
+const GaugeChart: React.FC<GaugeChartProps> = ({
+  value,
+  min,
+  max,
+  title,
+  color = '#3B82F6',
+  label,
+  children,
+}) => {
+  const clamped = Math.min(Math.max(value, min), max);
+  const data = [
+    { name: 'value', value: clamped - min },
+    { name: 'rest', value: max - clamped },
+  ];
+
+  return (
+    <div className="w-full">
+      {title && (
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+          {title}
+        </h3>
+      )}
+      <div className="relative h-48">
+        <ResponsiveContainer width="100%" height="100%">
+          <RechartsPieChart>
+            <Pie
+              data={data}
+              dataKey="value"
+              cx="50%"
+              cy="95%"
+              startAngle={180}
+              endAngle={0}
+              innerRadius={100}
+              outerRadius={140}
+              stroke="none"
+              isAnimationActive={false}
+            >
+              <Cell fill={color} />
+              <Cell fill="#E5E7EB" />
+            </Pie>
+          </RechartsPieChart>
+        </ResponsiveContainer>
+        <div className="absolute inset-x-0 bottom-4 text-center">
+          <div className="text-3xl font-bold" style={{ color }}>{value}</div>
+          {label && <div className="text-xs text-gray-500 dark:text-gray-400">{label}</div>}
+        </div>
+      </div>
+      <div className="mx-auto flex w-[280px] justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+        <span>{min}</span>
+        <span>{max}</span>
+      </div>
+      {children}
+    </div>
+  );
+};
+
+export default GaugeChart;
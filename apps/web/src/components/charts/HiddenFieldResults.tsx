@@ -0,0 +1,50 @@
+import React from 'react';
+
+export interface HiddenFieldAnalytics {
+  name: string;
+  label: string;
+  responses: number;
+  values: Array<{ value: string; count: number }>;
+  // Responses with values beyond the most common ones
+  otherValues: number;
+}
+
+interface Props {
+  fields: HiddenFieldAnalytics[];
+  totalResponses: number;
+}
+
+// Most common values of each hidden field, with how many responses had none
+const HiddenFieldResults: React.FC<Props> = ({ fields, totalResponses }) => (
+  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+    {fields.map((field) => {
+      const rows = [
+        ...field.values.map(({ value, count }) => ({ label: value, count, muted: false })),
+        ...(field.otherValues > 0 ? [{ label: 'Other values', count: field.otherValues, muted: true }] : []),
+        ...(totalResponses > field.responses ? [{ label: 'No value', count: totalResponses - field.responses, muted: true }] : []),
+      ];
+      return (
+        <div key={field.name}>
+          <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-2">{field.label}</h3>
+          <table className="w-full text-sm">
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.label} className="border-t border-gray-100 dark:border-gray-700">
+                  <td className={`py-1 pr-2 ${row.muted ? 'italic text-gray-500 dark:text-gray-400' : 'text-gray-700 dark:text-gray-300'}`}>
+                    {row.label}
+                  </td>
+                  <td className="py-1 text-right text-gray-700 dark:text-gray-300">{row.count}</td>
+                  <td className="py-1 pl-2 w-16 text-right text-gray-500 dark:text-gray-400">
+                    {totalResponses > 0 ? `${Math.round((row.count / totalResponses) * 100)}%` : '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default HiddenFieldResults;
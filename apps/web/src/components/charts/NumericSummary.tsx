@@ -0,0 +1,47 @@
+import React from 'react';
+
+export interface NumericPercentiles {
+  p10: number;
+  p25: number;
+  p75: number;
+  p90: number;
+}
+
+interface NumericSummaryProps {
+  mean?: number;
+  median?: number;
+  min?: number;
+  max?: number;
+  percentiles?: NumericPercentiles;
+  unit?: string;
+}
+
+// Mean, median and percentiles of numeric answers, shown under their chart
+const NumericSummary: React.FC<NumericSummaryProps> = ({ mean, median, min, max, percentiles, unit }) => {
+  const withUnit = (value: number) => (unit ? `${value} ${unit}` : String(value));
+  const stats = [
+    { label: 'Mean', value: mean },
+    { label: 'Median', value: median },
+    { label: 'Min', value: min },
+    { label: 'Max', value: max },
+    { label: '10th pct.', value: percentiles?.p10 },
+    { label: '25th pct.', value: percentiles?.p25 },
+    { label: '75th pct.', value: percentiles?.p75 },
+    { label: '90th pct.', value: percentiles?.p90 },
+  ].filter((stat): stat is { label: string; value: number } => stat.value !== undefined);
+
+  if (stats.length === 0) return null;
+
+  return (
+    <dl className="mt-4 grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+      {stats.map((stat) => (
+        <div key={stat.label} className="rounded-md bg-gray-50 dark:bg-gray-800 px-3 py-2">
+          <dt className="text-gray-500 dark:text-gray-400">{stat.label}</dt>
+          <dd className="font-medium text-gray-900 dark:text-white">{withUnit(stat.value)}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+};
+
+export default NumericSummary;
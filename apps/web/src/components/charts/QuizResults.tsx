@@ -0,0 +1,99 @@
+import React from 'react';
+import BarChart from './BarChart';
+import NumericSummary from './NumericSummary';
+import type { NumericPercentiles } from './NumericSummary';
+
+export interface QuizAnalytics {
+  responses: number;
+  passed: number;
+  passRate: number;
+  summary: {
+    count: number;
+    mean: number;
+    median: number;
+    min: number;
+    max: number;
+    percentiles: NumericPercentiles;
+  } | null;
+  distribution: Array<{ label: string; min: number; max: number; count: number }>;
+  questions: Array<{ questionId: string; title: string; attempts: number; correct: number; percentCorrect: number }>;
+}
+
+// Questions fewer respondents than this got right are flagged as hard
+const HARD_QUESTION_PERCENT = 40;
+
+// Score distribution, pass rate and per-question difficulty of a quiz
+const QuizResults: React.FC<{ quiz: QuizAnalytics }> = ({ quiz }) => {
+  if (quiz.responses === 0) {
+    return (
+      <div className="text-gray-500 dark:text-gray-400 text-center py-8">
+        No scored responses yet
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="text-center">
+          <div className="text-2xl font-bold text-blue-600">{quiz.responses}</div>
+          <div className="text-sm text-gray-500">Scored Responses</div>
+        </div>
+        <div className="text-center">
+          <div className="text-2xl font-bold text-green-600">{quiz.passRate}%</div>
+          <div className="text-sm text-gray-500">Passed ({quiz.passed})</div>
+        </div>
+        <div className="text-center">
+          <div className="text-2xl font-bold text-purple-600">{quiz.summary ? `${quiz.summary.mean}%` : '-'}</div>
+          <div className="text-sm text-gray-500">Average Score</div>
+        </div>
+      </div>
+
+      <BarChart
+        data={quiz.distribution.map((band) => ({ name: band.label, value: band.count }))}
+        xAxisLabel="Score"
+        yAxisLabel="Responses"
+      />
+      {quiz.summary && (
+        <NumericSummary
+          mean={quiz.summary.mean}
+          median={quiz.summary.median}
+          min={quiz.summary.min}
+          max={quiz.summary.max}
+          percentiles={quiz.summary.percentiles}
+          unit="%"
+        />
+      )}
+
+      {quiz.questions.length > 0 && (
+        <table className="w-full text-sm text-left text-gray-700 dark:text-gray-300">
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-gray-700">
+              <th className="py-2 font-medium">Question</th>
+              <th className="py-2 font-medium text-right">Answered correctly</th>
+              <th className="py-2 font-medium text-right">Attempts</th>
+            </tr>
+          </thead>
+          <tbody>
+            {quiz.questions.map((question) => (
+              <tr key={question.questionId} className="border-b border-gray-100 dark:border-gray-800">
+                <td className="py-2">
+                  {question.title}
+                  {question.percentCorrect < HARD_QUESTION_PERCENT && (
+                    <span className="ml-2 rounded bg-red-100 dark:bg-red-900/40 px-1.5 py-0.5 text-xs text-red-700 dark:text-red-300">
+                      Hard
+                    </span>
+                  )}
+                </td>
+                <td className="py-2 text-right">{question.percentCorrect}%</td>
+                <td className="py-2 text-right">{question.attempts}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default QuizResults;
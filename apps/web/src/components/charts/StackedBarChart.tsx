@@ -0,0 +1,110 @@
+import React from 'react';
+import {
+  BarChart as RechartsBarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+
+export interface StackedBarData {
+  // One bar per category along the x axis
+  categories: string[];
+  // One stacked segment per series; values[i] belongs to categories[i]
+  series: Array<{ name: string; values: number[] }>;
+}
+
+interface StackedBarChartProps {
+  data: StackedBarData;
+  title?: string;
+  colors?: string[];
+  xAxisLabel?: string;
+  yAxisLabel?: string;
+}
+
+const COLORS = [
+  '#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6',
+  '#06B6D4', '#84CC16', '#F97316', '#EC4899', '#6B7280'
+];
+
+const StackedBarChart: React.FC<StackedBarChartProps> = ({
+  data,
+  title,
+  colors = COLORS,
+  xAxisLabel,
+  yAxisLabel
+}) => {
+  // Recharts wants one object per bar, keyed by series; series are addressed by index
+  // because their names can contain characters recharts treats as a path
+  const rows = data.categories.map((name, i) => {
+    const row: Record<string, string | number> = { name };
+    data.series.forEach((series, s) => {
+      row[`s${s}`] = series.values[i] ?? 0;
+    });
+    return row;
+  });
+
+  const truncateLabel = (value: string): string => (value.length <= 12 ? value : `${value.slice(0, 12)}…`);
+
+  return (
+    <div className="w-full">
+      <div className="h-96">
+        {title && (
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+            {title}
+          </h3>
+        )}
+        <ResponsiveContainer width="100%" height="100%">
+          <RechartsBarChart data={rows} barCategoryGap="20%">
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="name"
+              tick={{ fontSize: 12 }}
+              tickFormatter={truncateLabel}
+              interval={0}
+              dy={10}
+              angle={-30}
+              textAnchor="end"
+              height={70}
+            />
+            <YAxis
+              tick={{ fontSize: 12 }}
+              label={
+                yAxisLabel
+                  ? {
+                      value: yAxisLabel,
+                      angle: -90,
+                      position: 'insideLeft',
+                      style: { fontSize: 12, fill: '#4B5563' },
+                    }
+                  : undefined
+              }
+            />
+            <Tooltip />
+            <Legend />
+            {data.series.map((series, s) => (
+              <Bar
+                key={`s${s}`}
+                dataKey={`s${s}`}
+                name={series.name}
+                stackId="stack"
+                fill={colors[s % colors.length]}
+                maxBarSize={80}
+              />
+            ))}
+          </RechartsBarChart>
+        </ResponsiveContainer>
+      </div>
+      {xAxisLabel && (
+        <div className="mt-2 text-center text-xs font-normal text-gray-500 dark:text-gray-400">
+          {xAxisLabel}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StackedBarChart;
@@ -0,0 +1,204 @@
+import { useEffect, useMemo, useState } from 'react';
+import ChartRenderer from '../charts/ChartRenderer';
+import { fetchCrossTabApi } from '../../api-paths/analyticsApi';
+import type { CrossTabData } from '../../api-paths/analyticsApi';
+
+interface CrossTabQuestion {
+  id: string;
+  title: string;
+  type: string;
+}
+
+interface Props {
+  readonly surveyId: string;
+  readonly questions: CrossTabQuestion[];
+}
+
+type CellMode = 'counts' | 'row' | 'column';
+
+// Question types the cross-tab endpoint accepts
+const CROSS_TAB_TYPES = new Set(['singleChoice', 'multiChoice', 'dropdown', 'ratingStar', 'ratingNumber', 'ratingSmiley', 'nps']);
+
+const selectClassName =
+  'flex-1 px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const formatPValue = (p: number): string => (p < 0.001 ? '< 0.001' : p.toFixed(3));
+
+export default function CrossTabPanel({ surveyId, questions }: Props) {
+  const eligible = useMemo(() => questions.filter((q) => CROSS_TAB_TYPES.has(q.type)), [questions]);
+  const [rowQuestionId, setRowQuestionId] = useState('');
+  const [columnQuestionId, setColumnQuestionId] = useState('');
+  const [mode, setMode] = useState<CellMode>('counts');
+  const [data, setData] = useState<CrossTabData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!rowQuestionId || !columnQuestionId || rowQuestionId === columnQuestionId) {
+      setData(null);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const loadCrossTab = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const result = await fetchCrossTabApi(surveyId, rowQuestionId, columnQuestionId);
+        if (!cancelled) setData(result);
+      } catch (e) {
+        if (!cancelled) {
+          setData(null);
+          setError(e instanceof Error ? e.message : 'Failed to load cross-tabulation');
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadCrossTab();
+    return () => {
+      cancelled = true;
+    };
+  }, [surveyId, rowQuestionId, columnQuestionId]);
+
+  const formatCell = (i: number, j: number): string => {
+    if (!data) return '';
+    if (mode === 'row') return `${data.rowPercentages[i][j]}%`;
+    if (mode === 'column') return `${data.columnPercentages[i][j]}%`;
+    return String(data.counts[i][j]);
+  };
+
+  if (eligible.length < 2) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3 border-t border-gray-200 dark:border-gray-700 pt-4">
+      <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Cross-tabulation</h3>
+      <div className="flex flex-col md:flex-row gap-3">
+        <div className="flex items-center gap-3 flex-1">
+          <label htmlFor="cross-tab-row" className="text-sm font-medium text-gray-700 dark:text-gray-300 whitespace-nowrap w-20">
+            Rows:
+          </label>
+          <select id="cross-tab-row" value={rowQuestionId} onChange={(e) => setRowQuestionId(e.target.value)} className={selectClassName}>
+            <option value="">Select a question</option>
+            {eligible.map((q) => (
+              <option key={q.id} value={q.id} disabled={q.id === columnQuestionId}>
+                {q.title}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center gap-3 flex-1">
+          <label htmlFor="cross-tab-column" className="text-sm font-medium text-gray-700 dark:text-gray-300 whitespace-nowrap w-20">
+            Columns:
+          </label>
+          <select id="cross-tab-column" value={columnQuestionId} onChange={(e) => setColumnQuestionId(e.target.value)} className={selectClassName}>
+            <option value="">Select a question</option>
+            {eligible.map((q) => (
+              <option key={q.id} value={q.id} disabled={q.id === rowQuestionId}>
+                {q.title}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {loading && <div className="text-center py-4 text-gray-500 dark:text-gray-400">Loading...</div>}
+      {error && <div className="text-center py-4 text-red-600 dark:text-red-400">{error}</div>}
+
+      {data && !loading && (
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <label htmlFor="cross-tab-mode" className="text-sm font-medium text-gray-700 dark:text-gray-300 whitespace-nowrap w-20">
+              Show:
+            </label>
+            <select id="cross-tab-mode" value={mode} onChange={(e) => setMode(e.target.value as CellMode)} className={`${selectClassName} md:flex-none md:w-48`}>
+              <option value="counts">Counts</option>
+              <option value="row">Row %</option>
+              <option value="column">Column %</option>
+            </select>
+            <span className="text-sm text-gray-500 dark:text-gray-400">
+              {data.total} respondents answered both questions
+            </span>
+          </div>
+
+          <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-md">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-800">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500 dark:text-gray-400">
+                    {data.row.title} \ {data.column.title}
+                  </th>
+                  {data.column.categories.map((c) => (
+                    <th key={c.key} className="px-4 py-2 text-right font-medium text-gray-500 dark:text-gray-400">{c.label}</th>
+                  ))}
+                  <th className="px-4 py-2 text-right font-medium text-gray-500 dark:text-gray-400">Total</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-700 dark:text-gray-300">
+                {data.row.categories.map((r, i) => (
+                  <tr key={r.key}>
+                    <td className="px-4 py-2 font-medium text-gray-900 dark:text-white">{r.label}</td>
+                    {data.column.categories.map((c, j) => (
+                      <td key={c.key} className="px-4 py-2 text-right">{formatCell(i, j)}</td>
+                    ))}
+                    <td className="px-4 py-2 text-right font-medium">{data.rowTotals[i]}</td>
+                  </tr>
+                ))}
+                <tr className="bg-gray-50 dark:bg-gray-800 font-medium">
+                  <td className="px-4 py-2">Total</td>
+                  {data.columnTotals.map((total, j) => (
+                    <td key={data.column.categories[j].key} className="px-4 py-2 text-right">{total}</td>
+                  ))}
+                  <td className="px-4 py-2 text-right">{data.total}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            {data.chiSquare ? (
+              <>
+                Chi-square test: χ²({data.chiSquare.degreesOfFreedom}) = {data.chiSquare.statistic.toFixed(2)}, p ={' '}
+                {formatPValue(data.chiSquare.pValue)}.{' '}
+                {data.chiSquare.significant
+                  ? `The questions are associated at the ${data.chiSquare.significanceLevel * 100}% significance level.`
+                  : `No significant association at the ${data.chiSquare.significanceLevel * 100}% level.`}
+                {data.chiSquare.lowExpectedCells > 0 && (
+                  <span className="block text-xs text-amber-700 dark:text-amber-400">
+                    {data.chiSquare.lowExpectedCells} of {data.chiSquare.expectedCells} cells have an expected count
+                    below 5, so the result may be unreliable.
+                  </span>
+                )}
+              </>
+            ) : (
+              <span className="text-gray-500 dark:text-gray-400">
+                The chi-square test needs at least two answered categories on each question and does not apply to
+                multiple-choice questions.
+              </span>
+            )}
+          </p>
+
+          <ChartRenderer
+            chartType="Bar"
+            data={{
+              type: 'stacked',
+              stacked: {
+                categories: data.row.categories.map((c) => c.label),
+                series: data.column.categories.map((c, j) => ({
+                  name: c.label,
+                  values: data.counts.map((cells) => cells[j]),
+                })),
+              },
+            }}
+            xAxisLabel={data.row.title}
+            yAxisLabel="Responses"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { fetchRespondentProgressApi } from '../../api-paths/surveysApi';
 import ViewResponseTab from './ViewResponseTab';
 import ViewQuestionWiseAnalyticsTab from './ViewQuestionWiseAnalyticsTab';
 import { loadConfig, getRespondentProgressPaginationConfig } from '../../utils/config';
+import { formatRespondentLabel } from '../../utils/surveyUtils';
 
 type TabType = 'progress' | 'response' | 'analytics';
 
@@ -329,7 +330,7 @@ export default function RespondentProgress({ surveyId }: Props) {
                       {currentPageData.map((respondent) => (
                         <tr key={respondent.email} className="text-gray-700 hover:ring-1 hover:ring-gray-200 dark:text-gray-300 dark:hover:ring-gray-600 transition-all duration-200">
                           <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
-                            {respondent.email}
+                            {formatRespondentLabel(respondent.email)}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
                             <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(respondent.status)}`}>
@@ -0,0 +1,262 @@
+import { useEffect, useMemo, useState } from 'react';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import { fetchRespondentGroupsApi } from '../../api-paths/respondentsApi';
+import type { RespondentGroup } from '../../api-paths/respondentsApi';
+import { EMPTY_RESPONSE_FILTERS, hasActiveResponseFilters } from '../../utils/responseFilters';
+import type { ResponseFilterParams, ResponseStatusFilter } from '../../utils/responseFilters';
+import { SMILEY_SCALE } from '@shared/smileyScale';
+import { NPS_MIN, NPS_MAX } from '@shared/nps';
+import { getHiddenFieldLabel, type HiddenFieldDefinition } from '@shared/hiddenFields';
+
+export interface FilterableQuestion {
+  id: string;
+  title: string;
+  type: string;
+  options?: Array<{ id: string; text: string }>;
+  settings?: { allowOther?: boolean; maxRating?: number };
+}
+
+interface Props {
+  readonly questions: FilterableQuestion[];
+  readonly hiddenFields?: HiddenFieldDefinition[];
+  readonly value: ResponseFilterParams;
+  readonly onChange: (filters: ResponseFilterParams) => void;
+}
+
+const statusOptions = [
+  { value: 'all', label: 'All statuses' },
+  { value: 'Completed', label: 'Completed' },
+  { value: 'InProgress', label: 'In progress' },
+];
+
+const dateFieldOptions = [
+  { value: 'submittedAt', label: 'Submitted' },
+  { value: 'startedAt', label: 'Started' },
+];
+
+// Values an answer filter can pick for a question, or null when the question cannot be filtered on
+const answerChoices = (question: FilterableQuestion): Array<{ value: string; label: string }> | null => {
+  switch (question.type) {
+    case 'singleChoice':
+    case 'multiChoice':
+    case 'dropdown':
+      return [
+        ...(question.options || []).map((opt) => ({ value: opt.id, label: opt.text })),
+        ...(question.settings?.allowOther ? [{ value: 'other', label: 'Other' }] : []),
+      ];
+    case 'ratingStar':
+    case 'ratingNumber': {
+      const max = Math.min(Math.max(Number(question.settings?.maxRating) || (question.type === 'ratingStar' ? 5 : 10), 1), 10);
+      return Array.from({ length: max }, (_, i) => ({ value: String(i + 1), label: String(i + 1) }));
+    }
+    case 'nps':
+      return Array.from({ length: NPS_MAX - NPS_MIN + 1 }, (_, i) => ({ value: String(NPS_MIN + i), label: String(NPS_MIN + i) }));
+    case 'ratingSmiley':
+      return SMILEY_SCALE.map(({ value, label }) => ({ value, label }));
+    default:
+      return null;
+  }
+};
+
+export default function ResponseFilterBar({ questions, hiddenFields = [], value, onChange }: Props) {
+  const [groups, setGroups] = useState<RespondentGroup[]>([]);
+  const [answerQuestionId, setAnswerQuestionId] = useState('');
+  const [answerValue, setAnswerValue] = useState('');
+  const [hiddenFieldName, setHiddenFieldName] = useState('');
+  const [hiddenFieldValue, setHiddenFieldValue] = useState('');
+
+  useEffect(() => {
+    fetchRespondentGroupsApi({ limit: 100, isArchived: false })
+      .then((data) => setGroups(data.groups || []))
+      .catch(() => setGroups([]));
+  }, []);
+
+  const filterable = useMemo(
+    () => questions.filter((q) => answerChoices(q) !== null),
+    [questions]
+  );
+  const selectedQuestion = filterable.find((q) => q.id === answerQuestionId);
+  const choices = selectedQuestion ? answerChoices(selectedQuestion) ?? [] : [];
+
+  const update = (patch: Partial<ResponseFilterParams>) => onChange({ ...value, ...patch });
+
+  // Picking another value of a question already filtered on widens that filter (either value matches)
+  const addAnswerFilter = () => {
+    if (!answerQuestionId || !answerValue) return;
+    const existing = value.answers.find((a) => a.questionId === answerQuestionId);
+    const answers = existing
+      ? value.answers.map((a) =>
+          a.questionId === answerQuestionId && !a.values.includes(answerValue) ? { ...a, values: [...a.values, answerValue] } : a
+        )
+      : [...value.answers, { questionId: answerQuestionId, values: [answerValue] }];
+    update({ answers });
+    setAnswerValue('');
+  };
+
+  // Values are compared exactly and commas separate values in the query, so they are dropped
+  const addHiddenFieldFilter = () => {
+    const text = hiddenFieldValue.replaceAll(',', ' ').trim();
+    if (!hiddenFieldName || !text) return;
+    const existing = value.hiddenFields.find((h) => h.name === hiddenFieldName);
+    const filters = existing
+      ? value.hiddenFields.map((h) =>
+          h.name === hiddenFieldName && !h.values.includes(text) ? { ...h, values: [...h.values, text] } : h
+        )
+      : [...value.hiddenFields, { name: hiddenFieldName, values: [text] }];
+    update({ hiddenFields: filters });
+    setHiddenFieldValue('');
+  };
+
+  const describeHiddenFieldFilter = (name: string, values: string[]) => {
+    const field = hiddenFields.find((f) => f.name === name);
+    return `${field ? getHiddenFieldLabel(field) : name}: ${values.join(' or ')}`;
+  };
+
+  const describeAnswerFilter = (questionId: string, values: string[]) => {
+    const question = questions.find((q) => q.id === questionId);
+    const labels = question ? answerChoices(question) ?? [] : [];
+    const names = values.map((v) => labels.find((l) => l.value === v)?.label ?? v);
+    return `${question?.title ?? questionId}: ${names.join(' or ')}`;
+  };
+
+  const invalidRange = !!value.from && !!value.to && value.from > value.to;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+        <Select
+          label="Status"
+          options={statusOptions}
+          value={value.status}
+          onChange={(e) => update({ status: e.target.value as ResponseStatusFilter })}
+        />
+        <Select
+          label="Respondent group"
+          options={[{ value: '', label: 'All respondents' }, ...groups.map((g) => ({ value: g._id, label: g.name }))]}
+          value={value.groupId ?? ''}
+          onChange={(e) => update({ groupId: e.target.value })}
+        />
+        <Select
+          label="Date"
+          options={dateFieldOptions}
+          value={value.dateField}
+          onChange={(e) => update({ dateField: e.target.value as ResponseFilterParams['dateField'] })}
+        />
+        <Input label="From" type="date" value={value.from ?? ''} onChange={(e) => update({ from: e.target.value })} />
+        <Input
+          label="To"
+          type="date"
+          value={value.to ?? ''}
+          error={invalidRange ? 'Must be after the start date' : undefined}
+          onChange={(e) => update({ to: e.target.value })}
+        />
+      </div>
+
+      {filterable.length > 0 && (
+        <div className="flex flex-col md:flex-row md:items-end gap-3">
+          <div className="flex-1">
+            <Select
+              label="Answered"
+              placeholder="Select a question"
+              options={filterable.map((q) => ({ value: q.id, label: q.title }))}
+              value={answerQuestionId}
+              onChange={(e) => {
+                setAnswerQuestionId(e.target.value);
+                setAnswerValue('');
+              }}
+            />
+          </div>
+          <div className="flex-1">
+            <Select
+              label="With"
+              placeholder="Select an answer"
+              options={choices}
+              value={answerValue}
+              disabled={!selectedQuestion}
+              onChange={(e) => setAnswerValue(e.target.value)}
+            />
+          </div>
+          <Button type="button" variant="outline" onClick={addAnswerFilter} disabled={!answerQuestionId || !answerValue}>
+            Add filter
+          </Button>
+        </div>
+      )}
+
+      {hiddenFields.length > 0 && (
+        <div className="flex flex-col md:flex-row md:items-end gap-3">
+          <div className="flex-1">
+            <Select
+              label="Hidden field"
+              placeholder="Select a hidden field"
+              options={hiddenFields.map((f) => ({ value: f.name, label: getHiddenFieldLabel(f) }))}
+              value={hiddenFieldName}
+              onChange={(e) => setHiddenFieldName(e.target.value)}
+            />
+          </div>
+          <div className="flex-1">
+            <Input
+              label="Equals"
+              placeholder="Value"
+              value={hiddenFieldValue}
+              disabled={!hiddenFieldName}
+              onChange={(e) => setHiddenFieldValue(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') addHiddenFieldFilter();
+              }}
+            />
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={addHiddenFieldFilter}
+            disabled={!hiddenFieldName || !hiddenFieldValue.trim()}
+          >
+            Add filter
+          </Button>
+        </div>
+      )}
+
+      {hasActiveResponseFilters(value) && (
+        <div className="flex flex-wrap items-center gap-2">
+          {value.answers.map((a) => (
+            <span
+              key={a.questionId}
+              className="inline-flex items-center gap-1 rounded-full bg-blue-50 dark:bg-blue-900/30 px-3 py-1 text-xs text-blue-800 dark:text-blue-200"
+            >
+              {describeAnswerFilter(a.questionId, a.values)}
+              <button
+                type="button"
+                className="ml-1 text-blue-600 hover:text-blue-900 dark:text-blue-300"
+                aria-label="Remove filter"
+                onClick={() => update({ answers: value.answers.filter((other) => other.questionId !== a.questionId) })}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+          {value.hiddenFields.map((h) => (
+            <span
+              key={`hidden-${h.name}`}
+              className="inline-flex items-center gap-1 rounded-full bg-purple-50 dark:bg-purple-900/30 px-3 py-1 text-xs text-purple-800 dark:text-purple-200"
+            >
+              {describeHiddenFieldFilter(h.name, h.values)}
+              <button
+                type="button"
+                className="ml-1 text-purple-600 hover:text-purple-900 dark:text-purple-300"
+                aria-label="Remove filter"
+                onClick={() => update({ hiddenFields: value.hiddenFields.filter((other) => other.name !== h.name) })}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+          <Button type="button" size="sm" variant="ghost" onClick={() => onChange(EMPTY_RESPONSE_FILTERS)}>
+            Clear filters
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
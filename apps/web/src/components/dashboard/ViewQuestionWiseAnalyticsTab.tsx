@@ -1,7 +1,12 @@
 import { useState, useEffect, useMemo, memo, useCallback } from 'react';
 import { fetchSurveyByIdApi } from '../../api-paths/surveysApi';
+import { formatRespondentLabel } from '../../utils/surveyUtils';
 import { fetchRespondentResponseByEmail } from '../../api-paths/responsesApi';
 import { fetchRespondentProgressApi } from '../../api-paths/surveysApi';
+import CrossTabPanel from './CrossTabPanel';
+import { getMatrixColumns, getMatrixRowAnswer, getMatrixRows } from '@shared/matrix';
+import { formatNumberAnswer, getNumberSettings, isConstantSumAnswer } from '@shared/numeric';
+import { getLoopItemsByQuestion, type LoopItem } from '@shared/loops';
 
 type QuestionType =
   | 'singleChoice'
@@ -11,6 +16,11 @@ type QuestionType =
   | 'ratingStar'
   | 'ratingSmiley'
   | 'ratingNumber'
+  | 'nps'
+  | 'matrix'
+  | 'ranking'
+  | 'constantSum'
+  | 'number'
   | 'textShort'
   | 'textLong'
   | 'datePicker'
@@ -22,6 +32,7 @@ interface SurveyQuestion {
   title: string;
   type: QuestionType;
   options?: Array<{ id: string; text: string; value?: string }>;
+  settings?: Record<string, unknown>;
 }
 
 interface RespondentAnswer {
@@ -52,7 +63,7 @@ type ChoiceFilter = MultiChoiceFilter | SingleChoiceFilter;
 
 const getQuestionType = (type: QuestionType): 'text' | 'number' | 'choice' => {
   if (type === 'textShort' || type === 'textLong') return 'text';
-  if (type === 'ratingStar' || type === 'ratingSmiley' || type === 'ratingNumber' || type === 'slider') return 'number';
+  if (type === 'ratingStar' || type === 'ratingSmiley' || type === 'ratingNumber' || type === 'nps' || type === 'slider') return 'number';
   if (type === 'singleChoice' || type === 'multiChoice' || type === 'dropdown') return 'choice';
   return 'text'; // default
 };
@@ -205,6 +216,7 @@ const renderAnswer = (question: SurveyQuestion, value: any): string => {
     case 'ratingStar':
     case 'ratingSmiley':
     case 'ratingNumber':
+    case 'nps':
     case 'slider':
       if (question.type === 'ratingSmiley' && typeof value === 'string') {
         return value
@@ -228,6 +240,11 @@ const renderAnswer = (question: SurveyQuestion, value: any): string => {
       if (items.length === 0) return '-';
       return items.map(v => getOptionLabel(v)).join(', ');
     }
+    case 'ranking': {
+      const ranked = Array.isArray(value) ? value : [];
+      if (ranked.length === 0) return '-';
+      return ranked.map((v, i) => `${i + 1}. ${getOptionLabel(v)}`).join(', ');
+    }
     case 'textShort':
     case 'textLong':
       return typeof value === 'string' ? value : JSON.stringify(value);
@@ -235,6 +252,22 @@ const renderAnswer = (question: SurveyQuestion, value: any): string => {
       return value ? new Date(value).toLocaleString() : '-';
     case 'fileUpload':
       return Array.isArray(value) ? `${value.length} file(s)` : (value ? '1 file' : '-');
+    case 'matrix': {
+      const columnText = new Map(getMatrixColumns(question).map(column => [column.id, column.text]));
+      const rows = getMatrixRows(question).flatMap(row => {
+        const selected = getMatrixRowAnswer(value, row.id);
+        if (selected === undefined) return [];
+        return [`${row.text}: ${(Array.isArray(selected) ? selected : [selected]).map(id => columnText.get(id) ?? id).join(', ')}`];
+      });
+      return rows.length === 0 ? '-' : rows.join('; ');
+    }
+    case 'number':
+      return typeof value === 'number' ? formatNumberAnswer(value, getNumberSettings(question)) : String(value ?? '-');
+    case 'constantSum': {
+      if (!isConstantSumAnswer(value)) return '-';
+      const amounts = (question.options || []).filter(option => Number(value[option.id]) > 0).map(option => `${option.text}: ${value[option.id]}`);
+      return amounts.length === 0 ? '-' : amounts.join(', ');
+    }
     case 'email':
       return typeof value === 'string' ? value : '-';
     default:
@@ -363,6 +396,8 @@ export default function ViewQuestionWiseAnalyticsTab({ surveyId, pagination, onP
   const [multiChoiceDropdownValue, setMultiChoiceDropdownValue] = useState<string>('');
   const [allRespondentAnswers, setAllRespondentAnswers] = useState<RespondentAnswer[]>([]);
   const [filteredAnswers, setFilteredAnswers] = useState<Array<{ email: string; answer: string }>>([]);
+  // Loop items of questions inside loops, to label their answers
+  const [loopItems, setLoopItems] = useState<Map<string, LoopItem[]>>(new Map());
 
   const selectedQuestion = useMemo(() => {
     return questions.find(q => q.id === selectedQuestionId);
@@ -387,9 +422,10 @@ export default function ViewQuestionWiseAnalyticsTab({ surveyId, pagination, onP
         const surveyData = await fetchSurveyByIdApi(surveyId);
         const surveyQuestions: SurveyQuestion[] = Array.isArray(surveyData?.pages)
           ? surveyData.pages.flatMap((p: any) => Array.isArray(p.questions) ? p.questions : [])
-              .map((q: any) => ({ id: q.id, title: q.title, type: q.type, options: q.options }))
+              .map((q: any) => ({ id: q.id, title: q.title, type: q.type, options: q.options, settings: q.settings }))
           : [];
         setQuestions(surveyQuestions);
+        setLoopItems(getLoopItemsByQuestion(Array.isArray(surveyData?.pages) ? surveyData.pages : []));
 
         if (surveyQuestions.length > 0) {
           setSelectedQuestionId(surveyQuestions[0].id);
@@ -468,10 +504,14 @@ export default function ViewQuestionWiseAnalyticsTab({ surveyId, pagination, onP
     for (const respondentData of allRespondentAnswers) {
       const response = respondentData.response;
       if (response?.responses) {
-        const questionResponse = response.responses.find((r: any) => r.questionId === selectedQuestion.id);
-        if (questionResponse) {
+        // Questions inside a loop have an answer per loop item, shown with the item
+        const questionResponses = response.responses.filter((r: any) => r.questionId === selectedQuestion.id);
+        for (const questionResponse of questionResponses) {
           const answerValue = questionResponse.value;
           const renderedAnswer = renderAnswer(selectedQuestion, answerValue);
+          const iteration: string | undefined = questionResponse.iteration;
+          const itemLabel = iteration && (loopItems.get(selectedQuestion.id)?.find(item => item.id === iteration)?.text ?? iteration);
+          const displayedAnswer = itemLabel ? `${itemLabel}: ${renderedAnswer}` : renderedAnswer;
           
           // Check if filter should be applied
           const hasFilterValue = Array.isArray(filterValue) 
@@ -482,7 +522,7 @@ export default function ViewQuestionWiseAnalyticsTab({ surveyId, pagination, onP
           const shouldApplyFilter = hasFilterValue || (selectedQuestion.type === 'multiChoice' && filterValue === '__ALL__');
           
           if (!shouldApplyFilter) {
-            answers.push({ email: respondentData.email, answer: renderedAnswer });
+            answers.push({ email: respondentData.email, answer: displayedAnswer });
           } else {
             // Otherwise apply filter
             let matches = false;
@@ -505,7 +545,7 @@ export default function ViewQuestionWiseAnalyticsTab({ surveyId, pagination, onP
             }
             
             if (matches) {
-              answers.push({ email: respondentData.email, answer: renderedAnswer });
+              answers.push({ email: respondentData.email, answer: displayedAnswer });
             }
           }
         }
@@ -513,7 +553,7 @@ export default function ViewQuestionWiseAnalyticsTab({ surveyId, pagination, onP
     }
 
     setFilteredAnswers(answers);
-  }, [selectedQuestion, filter, filterValue, allRespondentAnswers, questionType]);
+  }, [selectedQuestion, filter, filterValue, allRespondentAnswers, questionType, loopItems]);
 
   // Paginate filtered answers
   const paginatedAnswers = useMemo(() => {
@@ -787,7 +827,7 @@ export default function ViewQuestionWiseAnalyticsTab({ surveyId, pagination, onP
                 paginatedAnswers.map((item) => (
                   <tr key={item.email} className="hover:bg-gray-50 dark:hover:bg-gray-800">
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
-                      {item.email}
+                      {formatRespondentLabel(item.email)}
                     </td>
                     <td className="px-6 py-4 text-sm text-gray-700 dark:text-gray-300 break-words">
                       {item.answer}
@@ -799,6 +839,8 @@ export default function ViewQuestionWiseAnalyticsTab({ surveyId, pagination, onP
           </table>
         </div>
       )}
+
+      <CrossTabPanel surveyId={surveyId} questions={questions} />
     </div>
   );
 }
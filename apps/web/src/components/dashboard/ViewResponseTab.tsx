@@ -1,6 +1,9 @@
 import { useState, useEffect, useMemo, memo, useCallback } from 'react';
-import { fetchRespondentResponseByEmail } from '../../api-paths/responsesApi';
+import { fetchRespondentResponseByEmail, downloadResponseFileApi, type UploadedFileRef } from '../../api-paths/responsesApi';
 import { buildApiUrl } from '../../api-paths/apiConfig';
+import { formatRespondentLabel } from '../../utils/surveyUtils';
+import { getMatrixColumns, getMatrixRowAnswer, getMatrixRows } from '@shared/matrix';
+import { formatNumberAnswer, getNumberSettings, isConstantSumAnswer } from '@shared/numeric';
 
 type QuestionType =
   | 'singleChoice'
@@ -10,6 +13,11 @@ type QuestionType =
   | 'ratingStar'
   | 'ratingSmiley'
   | 'ratingNumber'
+  | 'nps'
+  | 'matrix'
+  | 'ranking'
+  | 'constantSum'
+  | 'number'
   | 'textShort'
   | 'textLong'
   | 'datePicker'
@@ -21,6 +29,7 @@ type SurveyQuestion = {
   title: string;
   type: QuestionType;
   options?: Array<{ id: string; text: string; value?: string }>;
+  settings?: Record<string, unknown>;
 };
 
 interface PaginationState {
@@ -119,7 +128,7 @@ const RespondentDropdown = memo(({
         id="respondent-select"
         type="text"
         placeholder="Search or select a respondent..."
-        value={isTyping ? searchQuery : (selectedValue || '')}
+        value={isTyping ? searchQuery : formatRespondentLabel(selectedValue || '')}
         onChange={handleInputChange}
         onFocus={handleInputFocus}
         onClick={handleInputClick}
@@ -145,7 +154,7 @@ const RespondentDropdown = memo(({
                   }`}
                 >
                   <div className="font-medium text-gray-900 dark:text-white">
-                    {email}
+                    {formatRespondentLabel(email)}
                   </div>
                 </button>
               ))
@@ -202,7 +211,7 @@ export default function ViewResponseTab({
         const surveyData = surveyRes.ok ? await surveyRes.json() : null;
         const surveyQuestions: SurveyQuestion[] = Array.isArray(surveyData?.pages)
           ? surveyData.pages.flatMap((p: any) => Array.isArray(p.questions) ? p.questions : [])
-              .map((q: any) => ({ id: q.id, title: q.title, type: q.type, options: q.options }))
+              .map((q: any) => ({ id: q.id, title: q.title, type: q.type, options: q.options, settings: q.settings }))
           : [];
         setQuestions(surveyQuestions);
         // If respondent hasn't answered, respRes will be null, but that's okay
@@ -330,6 +339,7 @@ export default function ViewResponseTab({
       case 'ratingStar':
       case 'ratingSmiley':
       case 'ratingNumber':
+      case 'nps':
       case 'slider':
         if (q.type === 'ratingSmiley' && typeof value === 'string') {
           return value
@@ -353,6 +363,12 @@ export default function ViewResponseTab({
         if (items.length === 0) return '-';
         return items.map(v => getOptionLabel(v)).join(', ');
       }
+      case 'ranking': {
+        // Ranked options in order, first choice first
+        const ranked = Array.isArray(value) ? value : [];
+        if (ranked.length === 0) return '-';
+        return ranked.map((v, i) => `${i + 1}. ${getOptionLabel(v)}`).join(', ');
+      }
       case 'textShort':
       case 'textLong': {
         const text = typeof value === 'string' ? value : JSON.stringify(value);
@@ -374,8 +390,56 @@ export default function ViewResponseTab({
       }
       case 'datePicker':
         return value ? new Date(value).toLocaleString() : '-';
-      case 'fileUpload':
-        return Array.isArray(value) ? `${value.length} file(s)` : (value ? '1 file' : '-');
+      case 'fileUpload': {
+        const files = (Array.isArray(value) ? value : [value]).filter(
+          (item): item is UploadedFileRef => !!item && typeof item === 'object' && typeof item.fileId === 'string'
+        );
+        if (files.length === 0) {
+          return Array.isArray(value) ? `${value.length} file(s)` : (value ? '1 file' : '-');
+        }
+        return (
+          <span className="flex flex-col items-start gap-1">
+            {files.map(file => (
+              <button
+                key={file.fileId}
+                type="button"
+                onClick={() => {
+                  downloadResponseFileApi(surveyId, file.fileId, file.name).catch(err => {
+                    alert(err instanceof Error ? err.message : 'Failed to download file');
+                  });
+                }}
+                className="text-blue-600 hover:underline focus:outline-none"
+              >
+                {file.name}
+              </button>
+            ))}
+          </span>
+        );
+      }
+      case 'matrix': {
+        // One "statement: column" line per answered row
+        const columnText = new Map(getMatrixColumns(q).map(column => [column.id, column.text]));
+        const lines = getMatrixRows(q).flatMap(row => {
+          const selected = getMatrixRowAnswer(value, row.id);
+          if (selected === undefined) return [];
+          const columns = (Array.isArray(selected) ? selected : [selected]).map(id => columnText.get(id) ?? id);
+          return [{ id: row.id, text: `${row.text}: ${columns.join(', ')}` }];
+        });
+        if (lines.length === 0) return '-';
+        return (
+          <span className="flex flex-col items-start gap-1">
+            {lines.map(line => <span key={line.id}>{line.text}</span>)}
+          </span>
+        );
+      }
+      case 'number':
+        return typeof value === 'number' ? formatNumberAnswer(value, getNumberSettings(q)) : String(value ?? '-');
+      case 'constantSum': {
+        // "Option: amount" for every option that was given something
+        if (!isConstantSumAnswer(value)) return '-';
+        const amounts = (q.options || []).filter(option => Number(value[option.id]) > 0).map(option => `${option.text}: ${value[option.id]}`);
+        return amounts.length === 0 ? '-' : amounts.join(', ');
+      }
       case 'email':
         return typeof value === 'string' ? value : '-';
       default:
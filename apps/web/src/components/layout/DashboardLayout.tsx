@@ -2,9 +2,12 @@ import React, { useState } from 'react';
 import { Link, useLocation, Outlet, Navigate } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
 import ThemeToggle from '../ui/ThemeToggle';
+import WorkspaceSwitcher from './WorkspaceSwitcher';
+import ApiTokensModal from '../modals/ApiTokensModal';
 
 const DashboardLayout: React.FC = () => {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const [apiTokensOpen, setApiTokensOpen] = useState(false);
   const location = useLocation();
   const { user, logout, ssoLogout, loading } = useAuth();
 
@@ -62,6 +65,9 @@ const DashboardLayout: React.FC = () => {
 
             {/* Right side: User controls */}
             <div className="flex items-center space-x-4">
+              {/* Workspace switcher */}
+              <WorkspaceSwitcher />
+
               {/* Theme toggle */}
               <ThemeToggle />
               
@@ -78,6 +84,13 @@ const DashboardLayout: React.FC = () => {
                     <div className="text-xs text-gray-500 dark:text-gray-400">{user.email}</div>
                   )}
                 </div>
+                <button
+                  onClick={() => setApiTokensOpen(true)}
+                  title="API tokens"
+                  className="hidden sm:block px-3 py-1 rounded transition-all duration-200 hover:bg-blue-50 hover:text-blue-700 dark:hover:bg-blue-900/20 dark:hover:text-blue-300 text-blue-600 dark:text-blue-400"
+                >
+                  API tokens
+                </button>
                 <button 
                   onClick={async () => { 
                     try { 
@@ -138,6 +151,8 @@ const DashboardLayout: React.FC = () => {
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
         <Outlet />
       </main>
+
+      <ApiTokensModal isOpen={apiTokensOpen} onClose={() => setApiTokensOpen(false)} />
     </div>
   );
 };
@@ -0,0 +1,132 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import ManageWorkspaceModal from '../modals/ManageWorkspaceModal';
+import { fetchWorkspacesApi, activateWorkspaceApi, createWorkspaceApi } from '../../api-paths/workspacesApi';
+import type { WorkspaceSummary } from '../../api-paths/workspacesApi';
+import { showErrorToast } from '../../utils/toast';
+
+const NEW_WORKSPACE = '__new__';
+
+// Every dashboard page reads data of the active workspace, so switching reloads the app
+const reloadDashboard = () => window.location.reload();
+
+const WorkspaceSwitcher: React.FC = () => {
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+  const [activeId, setActiveId] = useState('');
+  const [switching, setSwitching] = useState(false);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [manageOpen, setManageOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  const loadWorkspaces = useCallback(async () => {
+    try {
+      const data = await fetchWorkspacesApi();
+      setWorkspaces(data.workspaces);
+      setActiveId(data.activeWorkspaceId);
+    } catch (err) {
+      showErrorToast(err instanceof Error ? err.message : 'Failed to load workspaces');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadWorkspaces();
+  }, [loadWorkspaces]);
+
+  const handleSelect = async (workspaceId: string) => {
+    if (workspaceId === NEW_WORKSPACE) {
+      setCreateOpen(true);
+      return;
+    }
+    if (workspaceId === activeId) return;
+    setSwitching(true);
+    try {
+      await activateWorkspaceApi(workspaceId);
+      reloadDashboard();
+    } catch (err) {
+      showErrorToast(err instanceof Error ? err.message : 'Failed to switch workspace');
+      setSwitching(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = newName.trim();
+    if (!trimmed) return;
+    setSwitching(true);
+    try {
+      await createWorkspaceApi(trimmed);
+      reloadDashboard();
+    } catch (err) {
+      showErrorToast(err instanceof Error ? err.message : 'Failed to create workspace');
+      setSwitching(false);
+    }
+  };
+
+  if (workspaces.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <select
+        aria-label="Workspace"
+        value={activeId}
+        disabled={switching}
+        onChange={(e) => handleSelect(e.target.value)}
+        className="max-w-[12rem] truncate px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:border-[var(--color-primary)]"
+      >
+        {workspaces.map((workspace) => (
+          <option key={workspace.id} value={workspace.id}>
+            {workspace.name}
+          </option>
+        ))}
+        <option value={NEW_WORKSPACE}>+ New workspace...</option>
+      </select>
+      <button
+        type="button"
+        onClick={() => setManageOpen(true)}
+        title="Workspace settings"
+        aria-label="Workspace settings"
+        className="px-2 py-1 rounded text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+      >
+        ⚙️
+      </button>
+
+      <Modal isOpen={createOpen} onClose={() => setCreateOpen(false)} title="New workspace" size="sm">
+        <form onSubmit={handleCreate} className="space-y-4">
+          <Input
+            label="Name"
+            placeholder="Marketing team"
+            value={newName}
+            maxLength={100}
+            onChange={(e) => setNewName(e.target.value)}
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Surveys, templates and respondents you create in a workspace are only visible to its members.
+          </p>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setCreateOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={switching || !newName.trim()}>
+              Create
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      {activeId && (
+        <ManageWorkspaceModal
+          isOpen={manageOpen}
+          onClose={() => setManageOpen(false)}
+          workspaceId={activeId}
+          onChanged={reloadDashboard}
+        />
+      )}
+    </div>
+  );
+};
+
+export default WorkspaceSwitcher;
@@ -3,6 +3,9 @@ import Modal from '../ui/Modal';
 import Button from '../ui/Button';
 import QuestionRenderer from '../questions/QuestionRenderer';
 import { fetchQuestionTypesApi } from '../../api-paths/questionsApi';
+import { NPS_DEFAULT_LABELS } from '@shared/nps';
+import { createDefaultMatrix, getMatrixRows, type MatrixItem } from '@shared/matrix';
+import { CONSTANT_SUM_DEFAULT_TOTAL } from '@shared/numeric';
 
 interface QuestionType {
   type: string;
@@ -265,6 +268,232 @@ const RatingSettings: React.FC<{
   );
 };
 
+// Separate component for NPS anchor labels
+const NpsSettings: React.FC<{
+  settings: Record<string, unknown>;
+  onSettingsChange: (settings: Record<string, unknown>) => void;
+}> = ({ settings, onSettingsChange }) => {
+  const labels = (settings.scaleLabels as { min?: string; max?: string } | undefined) ?? {};
+  const updateLabel = (key: 'min' | 'max', value: string) => {
+    onSettingsChange({ ...settings, scaleLabels: { ...labels, [key]: value } });
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div>
+        <label htmlFor="nps-min-label" className="text-sm text-gray-700 dark:text-gray-300">Label for 0</label>
+        <input
+          id="nps-min-label"
+          type="text"
+          className="w-full px-3 py-2 border rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white border-gray-300 dark:border-gray-600"
+          value={labels.min ?? ''}
+          placeholder={NPS_DEFAULT_LABELS.min}
+          onChange={(e) => updateLabel('min', e.target.value)}
+        />
+      </div>
+      <div>
+        <label htmlFor="nps-max-label" className="text-sm text-gray-700 dark:text-gray-300">Label for 10</label>
+        <input
+          id="nps-max-label"
+          type="text"
+          className="w-full px-3 py-2 border rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white border-gray-300 dark:border-gray-600"
+          value={labels.max ?? ''}
+          placeholder={NPS_DEFAULT_LABELS.max}
+          onChange={(e) => updateLabel('max', e.target.value)}
+        />
+      </div>
+    </div>
+  );
+};
+
+// Separate component for ranking settings; leaving "Rank top" empty ranks every option
+const RankingSettings: React.FC<{
+  settings: Record<string, unknown>;
+  optionCount: number;
+  onSettingsChange: (settings: Record<string, unknown>) => void;
+}> = ({ settings, optionCount, onSettingsChange }) => {
+  const updateTopN = (value: string) => {
+    const next = { ...settings };
+    const topN = Number.parseInt(value, 10);
+    if (Number.isInteger(topN) && topN > 0) next.rankTopN = topN;
+    else delete next.rankTopN;
+    onSettingsChange(next);
+  };
+
+  return (
+    <div>
+      <label htmlFor="rank-top-n" className="text-sm text-gray-700 dark:text-gray-300">Rank top (optional)</label>
+      <input
+        id="rank-top-n"
+        type="number"
+        min={1}
+        max={optionCount}
+        className="w-full px-3 py-2 border rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white border-gray-300 dark:border-gray-600"
+        value={settings.rankTopN === undefined ? '' : Number(settings.rankTopN)}
+        placeholder={`All ${optionCount} options`}
+        onChange={(e) => updateTopN(e.target.value)}
+      />
+    </div>
+  );
+};
+
+// Separate component for constant-sum settings
+const ConstantSumSettings: React.FC<{
+  settings: Record<string, unknown>;
+  onSettingsChange: (settings: Record<string, unknown>) => void;
+}> = ({ settings, onSettingsChange }) => (
+  <div>
+    <label htmlFor="sum-total" className="text-sm text-gray-700 dark:text-gray-300">Total to allocate</label>
+    <input
+      id="sum-total"
+      type="number"
+      min={1}
+      className="w-full px-3 py-2 border rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white border-gray-300 dark:border-gray-600"
+      value={Number(settings.sumTotal ?? CONSTANT_SUM_DEFAULT_TOTAL)}
+      onChange={(e) => onSettingsChange({ ...settings, sumTotal: Number.parseInt(e.target.value || '0', 10) })}
+    />
+  </div>
+);
+
+// Separate component for number input settings; empty bounds leave the answer unbounded
+const NumberSettings: React.FC<{
+  settings: Record<string, unknown>;
+  onSettingsChange: (settings: Record<string, unknown>) => void;
+}> = ({ settings, onSettingsChange }) => {
+  const updateBound = (key: 'minValue' | 'maxValue', value: string) => {
+    const next = { ...settings };
+    const n = Number.parseFloat(value);
+    if (Number.isFinite(n)) next[key] = n;
+    else delete next[key];
+    onSettingsChange(next);
+  };
+  const inputClass = 'w-full px-3 py-2 border rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white border-gray-300 dark:border-gray-600';
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div>
+        <label htmlFor="number-min" className="text-sm text-gray-700 dark:text-gray-300">Min</label>
+        <input
+          id="number-min"
+          type="number"
+          className={inputClass}
+          value={settings.minValue === undefined ? '' : Number(settings.minValue)}
+          placeholder="No minimum"
+          onChange={(e) => updateBound('minValue', e.target.value)}
+        />
+      </div>
+      <div>
+        <label htmlFor="number-max" className="text-sm text-gray-700 dark:text-gray-300">Max</label>
+        <input
+          id="number-max"
+          type="number"
+          className={inputClass}
+          value={settings.maxValue === undefined ? '' : Number(settings.maxValue)}
+          placeholder="No maximum"
+          onChange={(e) => updateBound('maxValue', e.target.value)}
+        />
+      </div>
+      <div>
+        <label htmlFor="number-decimals" className="text-sm text-gray-700 dark:text-gray-300">Decimal places</label>
+        <input
+          id="number-decimals"
+          type="number"
+          min={0}
+          max={10}
+          className={inputClass}
+          value={Number(settings.decimals ?? 0)}
+          onChange={(e) => onSettingsChange({ ...settings, decimals: Number.parseInt(e.target.value || '0', 10) })}
+        />
+      </div>
+      <div>
+        <label htmlFor="number-unit" className="text-sm text-gray-700 dark:text-gray-300">Unit</label>
+        <input
+          id="number-unit"
+          type="text"
+          className={inputClass}
+          value={typeof settings.unit === 'string' ? settings.unit : ''}
+          placeholder="e.g. people, USD"
+          onChange={(e) => onSettingsChange({ ...settings, unit: e.target.value })}
+        />
+      </div>
+    </div>
+  );
+};
+
+const randomItemId = (prefix: string) =>
+  `${prefix}_${Array.from(globalThis.crypto.getRandomValues(new Uint8Array(4))).map(b => b.toString(16).padStart(2, '0')).join('')}`;
+
+// Editable list of matrix rows or columns
+const MatrixItemsEditor: React.FC<{
+  label: string;
+  itemLabel: string;
+  idPrefix: string;
+  items: MatrixItem[];
+  onItemsChange: (items: MatrixItem[]) => void;
+}> = ({ label, itemLabel, idPrefix, items, onItemsChange }) => (
+  <div className="space-y-2">
+    <div className="text-sm font-medium text-gray-700 dark:text-gray-300">{label}</div>
+    {items.map((item, idx) => (
+      <div key={item.id} className="flex items-center gap-2">
+        <input
+          aria-label={`${itemLabel} ${idx + 1}`}
+          className="flex-1 px-3 py-2 border rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white border-gray-300 dark:border-gray-600"
+          value={item.text}
+          onChange={(e) => onItemsChange(items.map(i => (i.id === item.id ? { ...i, text: e.target.value } : i)))}
+        />
+        <button
+          type="button"
+          className="px-2 py-1 text-xs rounded bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300 disabled:opacity-50"
+          disabled={items.length <= 1}
+          onClick={() => onItemsChange(items.filter(i => i.id !== item.id))}
+        >
+          Remove
+        </button>
+      </div>
+    ))}
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => onItemsChange([...items, { id: randomItemId(idPrefix), text: `${itemLabel} ${items.length + 1}` }])}
+    >
+      + Add
+    </Button>
+  </div>
+);
+
+// Separate component for matrix rows (statements) and columns (the shared scale)
+const MatrixSettings: React.FC<{
+  options: MatrixItem[];
+  settings: Record<string, unknown>;
+  onOptionsChange: (options: MatrixItem[]) => void;
+  onSettingsChange: (settings: Record<string, unknown>) => void;
+}> = ({ options, settings, onOptionsChange, onSettingsChange }) => (
+  <div className="space-y-4">
+    <MatrixItemsEditor
+      label="Rows (statements)"
+      itemLabel="Statement"
+      idPrefix="row"
+      items={getMatrixRows({ settings })}
+      onItemsChange={(rows) => onSettingsChange({ ...settings, rows })}
+    />
+    <MatrixItemsEditor
+      label="Columns (scale)"
+      itemLabel="Column"
+      idPrefix="col"
+      items={options}
+      onItemsChange={onOptionsChange}
+    />
+    <label className="inline-flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+      <input
+        type="checkbox"
+        checked={settings.multiSelect === true}
+        onChange={(e) => onSettingsChange({ ...settings, multiSelect: e.target.checked })}
+      />
+      Allow several columns per row
+    </label>
+  </div>
+);
+
 // Custom hook for question form state
 const useQuestionForm = (editingQuestion?: Question | null) => {
   const [selectedType, setSelectedType] = useState<string | null>(null);
@@ -358,8 +587,11 @@ const AddQuestionModal: React.FC<AddQuestionModalProps> = ({
     [questionTypes, selectedCategory]
   );
 
-  const isChoiceType = (type: string) => ['singleChoice', 'multiChoice', 'dropdown'].includes(type);
+  // Ranking and constant-sum questions work on a list of options, so they share the choice options editor
+  const isChoiceType = (type: string) => ['singleChoice', 'multiChoice', 'dropdown', 'ranking', 'constantSum'].includes(type);
   const isRatingType = (type: string) => ['ratingStar', 'ratingNumber', 'ratingSmiley'].includes(type);
+  // Matrix columns are stored as options too
+  const hasOptions = (type: string) => isChoiceType(type) || type === 'matrix';
 
   const createPreviewQuestion = (): Question => {
     const type = formState.selectedType || hoveredType || 'textShort';
@@ -380,6 +612,14 @@ const AddQuestionModal: React.FC<AddQuestionModalProps> = ({
     formState.setSelectedType(type);
     if (editingQuestion) return;
 
+    if (type === 'matrix') {
+      const matrix = createDefaultMatrix();
+      formState.setOptions(matrix.options);
+      formState.setSettings(matrix.settings);
+      if (!formState.title) formState.setTitle('New Question');
+      return;
+    }
+
     if (isChoiceType(type)) {
       formState.setOptions([{ id: '1', text: 'Option 1' }, { id: '2', text: 'Option 2' }]);
     } else {
@@ -390,7 +630,10 @@ const AddQuestionModal: React.FC<AddQuestionModalProps> = ({
       slider: { scaleMin: 0, scaleMax: 10, scaleStep: 1 },
       ratingStar: { maxRating: 5 },
       ratingSmiley: { maxRating: 5 },
-      ratingNumber: { maxRating: 10 }
+      ratingNumber: { maxRating: 10 },
+      nps: { scaleLabels: { ...NPS_DEFAULT_LABELS } },
+      constantSum: { sumTotal: CONSTANT_SUM_DEFAULT_TOTAL },
+      number: { decimals: 0 }
     };
     formState.setSettings(defaultSettings[type] || {});
 
@@ -407,7 +650,7 @@ const AddQuestionModal: React.FC<AddQuestionModalProps> = ({
       title: formState.title || 'Untitled Question',
       description: formState.description,
       required: formState.required,
-      options: isChoiceType(type) ? formState.options : undefined,
+      options: hasOptions(type) ? formState.options : undefined,
       settings: formState.settings,
     };
 
@@ -420,12 +663,24 @@ const AddQuestionModal: React.FC<AddQuestionModalProps> = ({
 
     if (isChoiceType(formState.selectedType)) {
       return (
-        <ChoiceOptionsEditor
-          options={formState.options}
-          newOptionText={newOptionText}
-          onOptionsChange={formState.setOptions}
-          onNewOptionTextChange={setNewOptionText}
-        />
+        <>
+          <ChoiceOptionsEditor
+            options={formState.options}
+            newOptionText={newOptionText}
+            onOptionsChange={formState.setOptions}
+            onNewOptionTextChange={setNewOptionText}
+          />
+          {formState.selectedType === 'ranking' && (
+            <RankingSettings
+              settings={formState.settings}
+              optionCount={formState.options.length}
+              onSettingsChange={formState.setSettings}
+            />
+          )}
+          {formState.selectedType === 'constantSum' && (
+            <ConstantSumSettings settings={formState.settings} onSettingsChange={formState.setSettings} />
+          )}
+        </>
       );
     }
 
@@ -448,6 +703,35 @@ const AddQuestionModal: React.FC<AddQuestionModalProps> = ({
       );
     }
 
+    if (formState.selectedType === 'number') {
+      return (
+        <NumberSettings
+          settings={formState.settings}
+          onSettingsChange={formState.setSettings}
+        />
+      );
+    }
+
+    if (formState.selectedType === 'nps') {
+      return (
+        <NpsSettings
+          settings={formState.settings}
+          onSettingsChange={formState.setSettings}
+        />
+      );
+    }
+
+    if (formState.selectedType === 'matrix') {
+      return (
+        <MatrixSettings
+          options={formState.options}
+          settings={formState.settings}
+          onOptionsChange={formState.setOptions}
+          onSettingsChange={formState.setSettings}
+        />
+      );
+    }
+
     return null;
   };
 
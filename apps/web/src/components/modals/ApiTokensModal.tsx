@@ -0,0 +1,234 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import { fetchApiTokensApi, createApiTokenApi, revokeApiTokenApi } from '../../api-paths/apiTokensApi';
+import type { ApiTokenSummary } from '../../api-paths/apiTokensApi';
+import { buildApiUrl } from '../../api-paths/apiConfig';
+import {
+  API_TOKEN_SCOPES,
+  API_TOKEN_SCOPE_DESCRIPTIONS,
+  API_TOKEN_EXPIRY_DAYS,
+} from '@shared/apiTokenScopes';
+import type { ApiTokenScope } from '@shared/apiTokenScopes';
+import { showErrorToast, showSuccessToast } from '../../utils/toast';
+
+interface ApiTokensModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const NEVER = 'never';
+
+const expiryOptions = API_TOKEN_EXPIRY_DAYS.map((days) => ({
+  value: days === null ? NEVER : String(days),
+  label: days === null ? 'Never' : `${days} days`,
+}));
+
+const tokenState = (token: ApiTokenSummary): string | null => {
+  if (token.revokedAt) return 'Revoked';
+  if (token.expiresAt && new Date(token.expiresAt) <= new Date()) return 'Expired';
+  return null;
+};
+
+const formatDate = (value?: string | null) => (value ? new Date(value).toLocaleDateString() : '—');
+
+const ApiTokensModal: React.FC<ApiTokensModalProps> = ({ isOpen, onClose }) => {
+  const [tokens, setTokens] = useState<ApiTokenSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['surveys:read']);
+  const [expiry, setExpiry] = useState('90');
+  // Shown once after creation; the API only stores a hash
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const loadTokens = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await fetchApiTokensApi();
+      setTokens(data.tokens);
+    } catch (err) {
+      showErrorToast(err instanceof Error ? err.message : 'Failed to load API tokens');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadTokens();
+    } else {
+      setCreatedToken(null);
+    }
+  }, [isOpen, loadTokens]);
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes((prev) => (prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const { token, ...summary } = await createApiTokenApi({
+        name: name.trim(),
+        scopes,
+        expiresInDays: expiry === NEVER ? null : Number(expiry),
+      });
+      setTokens((prev) => [summary, ...prev]);
+      setCreatedToken(token);
+      setName('');
+      showSuccessToast('API token created.');
+    } catch (err) {
+      showErrorToast(err instanceof Error ? err.message : 'Failed to create API token');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (token: ApiTokenSummary) => {
+    if (!window.confirm(`Revoke "${token.name}"? Scripts using it will stop working immediately.`)) return;
+    setSaving(true);
+    try {
+      await revokeApiTokenApi(token.id);
+      setTokens((prev) => prev.map((t) => (t.id === token.id ? { ...t, revokedAt: new Date().toISOString() } : t)));
+      showSuccessToast('API token revoked.');
+    } catch (err) {
+      showErrorToast(err instanceof Error ? err.message : 'Failed to revoke API token');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="API tokens" size="xl">
+      <div className="space-y-5">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Personal access tokens let scripts call the API as you, in the workspace that is active when the token is
+          created. Send them as <code>Authorization: Bearer &lt;token&gt;</code>. See the{' '}
+          <a
+            href={buildApiUrl('/api/openapi.json')}
+            target="_blank"
+            rel="noreferrer"
+            className="text-[var(--color-primary)] underline"
+          >
+            OpenAPI specification
+          </a>{' '}
+          for the available endpoints.
+        </p>
+
+        <form onSubmit={handleCreate} className="space-y-3 rounded-md border border-gray-200 dark:border-gray-700 p-3">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="flex-1 min-w-[12rem]">
+              <Input
+                label="Name"
+                placeholder="Data pipeline"
+                value={name}
+                maxLength={100}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <Select label="Expires" options={expiryOptions} value={expiry} onChange={(e) => setExpiry(e.target.value)} />
+          </div>
+          <fieldset>
+            <legend className="mb-1 text-sm font-medium text-gray-700 dark:text-gray-300">Scopes</legend>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-1">
+              {API_TOKEN_SCOPES.map((scope) => (
+                <label key={scope} className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    className="mt-1"
+                    checked={scopes.includes(scope)}
+                    onChange={() => toggleScope(scope)}
+                  />
+                  <span>
+                    <code>{scope}</code>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">
+                      {API_TOKEN_SCOPE_DESCRIPTIONS[scope]}
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={saving || !name.trim() || scopes.length === 0}>
+              Create token
+            </Button>
+          </div>
+        </form>
+
+        {createdToken && (
+          <div className="rounded-md border border-amber-300 bg-amber-50 dark:border-amber-700 dark:bg-amber-900/20 p-3 text-sm">
+            <p className="font-medium text-amber-900 dark:text-amber-200">
+              Copy the token now. It will not be shown again.
+            </p>
+            <div className="mt-2 flex items-center gap-2">
+              <code className="flex-1 break-all rounded bg-white dark:bg-gray-800 px-2 py-1 text-xs">{createdToken}</code>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  navigator.clipboard.writeText(createdToken);
+                  showSuccessToast('Token copied.');
+                }}
+              >
+                Copy
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {loading && <p className="text-sm text-gray-500 dark:text-gray-400">Loading tokens...</p>}
+        {!loading && tokens.length === 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">You have no API tokens yet.</p>
+        )}
+        {!loading && tokens.length > 0 && (
+          <table className="w-full text-left text-sm">
+            <thead className="text-xs text-gray-500 dark:text-gray-400">
+              <tr>
+                <th className="py-1 pr-2 font-medium">Name</th>
+                <th className="py-1 pr-2 font-medium">Scopes</th>
+                <th className="py-1 pr-2 font-medium">Workspace</th>
+                <th className="py-1 pr-2 font-medium">Last used</th>
+                <th className="py-1 pr-2 font-medium">Expires</th>
+                <th className="py-1" />
+              </tr>
+            </thead>
+            <tbody className="text-gray-700 dark:text-gray-300">
+              {tokens.map((token) => {
+                const state = tokenState(token);
+                return (
+                  <tr key={token.id} className="border-t border-gray-200 dark:border-gray-700 align-top">
+                    <td className="py-2 pr-2">
+                      <div className="font-medium text-gray-900 dark:text-white">{token.name}</div>
+                      <code className="text-xs text-gray-500">{token.tokenPreview}…</code>
+                    </td>
+                    <td className="py-2 pr-2 text-xs">{token.scopes.join(', ')}</td>
+                    <td className="py-2 pr-2 text-xs">{token.workspace.name ?? '—'}</td>
+                    <td className="py-2 pr-2 text-xs">{formatDate(token.lastUsedAt)}</td>
+                    <td className="py-2 pr-2 text-xs">{token.expiresAt ? formatDate(token.expiresAt) : 'Never'}</td>
+                    <td className="py-2 text-right">
+                      {state ? (
+                        <span className="text-xs text-gray-500">{state}</span>
+                      ) : (
+                        <Button type="button" size="sm" variant="danger" disabled={saving} onClick={() => handleRevoke(token)}>
+                          Revoke
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default ApiTokensModal;
@@ -0,0 +1,235 @@
+import { useState, useEffect } from 'react';
+import Modal from '../ui/Modal';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import Button from '../ui/Button';
+import RuleConditionsEditor from '../survey/RuleConditionsEditor';
+import {
+  conditionGroupsToRules,
+  createConditionGroup,
+  generateConditionId,
+  getHiddenFieldCandidates,
+  getComputedVariableCandidates,
+  rulesToConditionGroups,
+  validateConditionRanges,
+  type RuleCandidateQuestion,
+  type UIConditionGroup,
+} from '../../utils/ruleEditorUtils';
+import {
+  isRuleGroup,
+  type BranchingAction,
+  type BranchingActionType,
+  type BranchingRule,
+  type RuleNode,
+} from '@shared/ruleEngine';
+import type { HiddenFieldDefinition } from '@shared/hiddenFields';
+import type { ComputedVariableDefinition } from '@shared/computedVariables';
+import { getLoopedQuestionIds } from '@shared/loops';
+
+interface BranchingPage {
+  questions: RuleCandidateQuestion[];
+  branching?: BranchingRule[];
+}
+
+interface UIBranchingRule {
+  id: string;
+  groups: UIConditionGroup[];
+  action: BranchingAction;
+}
+
+interface BranchingRulesModalProps {
+  readonly isOpen: boolean;
+  readonly onClose: () => void;
+  readonly pageIndex: number;
+  readonly pages: BranchingPage[];
+  readonly hiddenFields?: HiddenFieldDefinition[];
+  readonly computedVariables?: ComputedVariableDefinition[];
+  readonly onSave: (rules: BranchingRule[]) => void;
+}
+
+const ACTION_LABELS: Record<BranchingActionType, string> = {
+  skip_to_page: 'Skip to page',
+  skip_to_question: 'Skip to question',
+  end_survey: 'End survey',
+  show_message: 'Show message',
+};
+
+const getStoredConditions = (rule: BranchingRule): RuleNode[] => {
+  if (Array.isArray(rule.rules)) return rule.rules;
+  if (rule.questionId && rule.condition) {
+    return [{ questionId: rule.questionId, rowId: rule.rowId, condition: rule.condition }];
+  }
+  return [];
+};
+
+// A lone condition keeps the original questionId/condition shape; anything else is stored as a group
+const toBranchingRule = (conditions: RuleNode[], action: BranchingAction): BranchingRule => {
+  const [first] = conditions;
+  if (conditions.length === 1 && !isRuleGroup(first)) {
+    return { questionId: first.questionId, ...(first.rowId ? { rowId: first.rowId } : {}), condition: first.condition, action };
+  }
+  return { rules: conditions, action };
+};
+
+const getActionError = (action: BranchingAction): string | null => {
+  switch (action.type) {
+    case 'skip_to_page':
+      return action.targetPageIndex === undefined ? 'Please choose the page to skip to.' : null;
+    case 'skip_to_question':
+      return action.targetQuestionId ? null : 'Please choose the question to skip to.';
+    case 'show_message':
+      return action.message?.trim() ? null : 'Please enter the message to show.';
+    default:
+      return null;
+  }
+};
+
+export default function BranchingRulesModal({ isOpen, onClose, pageIndex, pages, hiddenFields = [], computedVariables = [], onSave }: BranchingRulesModalProps) {
+  const [rules, setRules] = useState<UIBranchingRule[]>([]);
+
+  // Branching may depend on any question up to and including this page, except those asked once per loop item
+  const loopedQuestionIds = getLoopedQuestionIds(pages);
+  const candidateQuestions = [
+    ...pages.slice(0, pageIndex + 1).flatMap(p => p.questions || []).filter(q => !loopedQuestionIds.has(q.id)),
+    ...getHiddenFieldCandidates(hiddenFields),
+    ...getComputedVariableCandidates(computedVariables),
+  ];
+  const laterPageOptions = pages
+    .map((_, index) => ({ value: String(index), label: `Page ${index + 1}` }))
+    .filter((_, index) => index > pageIndex);
+  const laterQuestionOptions = pages.flatMap((p, index) =>
+    index > pageIndex
+      ? (p.questions || []).map(q => ({ value: q.id, label: `Page ${index + 1}: ${q.title}` }))
+      : []
+  );
+  const actionOptions = (Object.keys(ACTION_LABELS) as BranchingActionType[])
+    .filter(type => laterPageOptions.length > 0 || (type !== 'skip_to_page' && type !== 'skip_to_question'))
+    .map(type => ({ value: type, label: ACTION_LABELS[type] }));
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setRules(
+      (pages[pageIndex]?.branching || []).map(rule => ({
+        id: generateConditionId(),
+        groups: rulesToConditionGroups(getStoredConditions(rule), candidateQuestions),
+        action: rule.action || { type: 'end_survey' },
+      }))
+    );
+    // Only reset when the modal opens or the page changes, not on every builder edit
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, pageIndex]);
+
+  function updateRule(ruleIndex: number, updates: Partial<UIBranchingRule>) {
+    setRules(prev => prev.map((r, ri) => (ri === ruleIndex ? { ...r, ...updates } : r)));
+  }
+
+  function addRule() {
+    setRules(prev => [
+      ...prev,
+      { id: generateConditionId(), groups: [createConditionGroup(candidateQuestions)], action: { type: 'end_survey' } },
+    ]);
+  }
+
+  function handleSave() {
+    const saved: BranchingRule[] = [];
+    for (const rule of rules) {
+      const error = validateConditionRanges(rule.groups, candidateQuestions) || getActionError(rule.action);
+      if (error) {
+        alert(error);
+        return;
+      }
+      const conditions = conditionGroupsToRules(rule.groups);
+      // Rules without any filled-in condition could never match
+      if (conditions.length > 0) saved.push(toBranchingRule(conditions, rule.action));
+    }
+
+    try { onSave(saved); } catch (err) { console.error(err); }
+    try { onClose(); } catch (err) { console.error(err); }
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Branching: Page ${pageIndex + 1}`} size="xl">
+      <div className="space-y-6">
+        <div className="text-sm text-gray-600 dark:text-gray-400">
+          When a respondent leaves this page, the first matching rule decides where they go next.
+          Every matching "Show message" rule displays its message on the next page.
+        </div>
+
+        {candidateQuestions.length === 0 ? (
+          <div className="text-sm text-gray-500 dark:text-gray-400">
+            Add questions to this page before creating branching rules.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {rules.map((rule, ruleIndex) => (
+              <div key={rule.id} className="space-y-4 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-medium text-gray-900 dark:text-white">Rule {ruleIndex + 1}</h3>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setRules(prev => prev.filter((_, ri) => ri !== ruleIndex))}
+                    className="text-red-600"
+                  >
+                    Remove
+                  </Button>
+                </div>
+
+                <RuleConditionsEditor
+                  groups={rule.groups}
+                  candidateQuestions={candidateQuestions}
+                  onChange={groups => updateRule(ruleIndex, { groups })}
+                />
+
+                <div className="grid grid-cols-1 md:grid-cols-12 gap-3 items-end">
+                  <div className="md:col-span-4">
+                    <Select
+                      label="Then"
+                      options={actionOptions}
+                      value={rule.action.type}
+                      onChange={(e) => updateRule(ruleIndex, { action: { type: e.target.value as BranchingActionType } })}
+                    />
+                  </div>
+                  <div className="md:col-span-8">
+                    {rule.action.type === 'skip_to_page' && (
+                      <Select
+                        label="Page"
+                        options={laterPageOptions}
+                        value={rule.action.targetPageIndex === undefined ? '' : String(rule.action.targetPageIndex)}
+                        onChange={(e) => updateRule(ruleIndex, { action: { type: 'skip_to_page', targetPageIndex: Number(e.target.value) } })}
+                        placeholder="Select a page"
+                      />
+                    )}
+                    {rule.action.type === 'skip_to_question' && (
+                      <Select
+                        label="Question"
+                        options={laterQuestionOptions}
+                        value={rule.action.targetQuestionId || ''}
+                        onChange={(e) => updateRule(ruleIndex, { action: { type: 'skip_to_question', targetQuestionId: e.target.value } })}
+                        placeholder="Select a question"
+                      />
+                    )}
+                    {rule.action.type === 'show_message' && (
+                      <Input
+                        label="Message"
+                        value={rule.action.message || ''}
+                        onChange={(e) => updateRule(ruleIndex, { action: { type: 'show_message', message: e.target.value } })}
+                        placeholder="Enter the message to show"
+                      />
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={addRule}>+ Add Rule</Button>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+          <Button variant="outline" onClick={() => { try { onClose(); } catch (err) { console.error(err); } }}>Cancel</Button>
+          <Button variant="primary" onClick={handleSave} disabled={candidateQuestions.length === 0}>Save Branching Rules</Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
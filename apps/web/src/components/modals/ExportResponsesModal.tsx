@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import Select from '../ui/Select';
+import { downloadResponsesExportApi } from '../../api-paths/responsesApi';
+import type { ResponseExportFormat } from '../../api-paths/responsesApi';
+import { hasActiveResponseFilters } from '../../utils/responseFilters';
+import type { ResponseFilterParams } from '../../utils/responseFilters';
+import { showErrorToast, showSuccessToast } from '../../utils/toast';
+
+interface ExportResponsesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  surveyId: string;
+  surveyTitle?: string;
+  // The filters set on the Results page; the export contains exactly the responses shown there
+  filters: ResponseFilterParams;
+}
+
+const formatOptions = [
+  { value: 'xlsx', label: 'Excel (.xlsx)' },
+  { value: 'csv', label: 'CSV (.csv)' },
+  { value: 'coded', label: 'SPSS / R: coded data and codebook (.zip)' },
+];
+
+const FILE_EXTENSIONS: Record<ResponseExportFormat, string> = {
+  xlsx: 'xlsx',
+  csv: 'csv',
+  coded: 'zip',
+};
+
+const toFileName = (title: string | undefined, format: ResponseExportFormat) => {
+  const base = (title || 'survey').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '') || 'survey';
+  return `${base}-responses${format === 'coded' ? '-coded' : ''}.${FILE_EXTENSIONS[format]}`;
+};
+
+const ExportResponsesModal: React.FC<ExportResponsesModalProps> = ({ isOpen, onClose, surveyId, surveyTitle, filters }) => {
+  const [format, setFormat] = useState<ResponseExportFormat>('xlsx');
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setExporting(true);
+    try {
+      await downloadResponsesExportApi(surveyId, format, filters, toFileName(surveyTitle, format));
+      showSuccessToast('Responses exported.');
+      onClose();
+    } catch (err) {
+      showErrorToast(err instanceof Error ? err.message : 'Failed to export responses');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Export responses" size="md">
+      <form onSubmit={handleExport} className="space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          One row per respondent and one column per question. Multiple-choice questions get a column per option.
+        </p>
+        {format === 'coded' && (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Answers are numerically coded. The archive contains the data, a codebook, and SPSS syntax and an R script
+            that load the data with variable and value labels.
+          </p>
+        )}
+        <Select
+          label="Format"
+          options={formatOptions}
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ResponseExportFormat)}
+        />
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {hasActiveResponseFilters(filters)
+            ? 'Only responses matching the filters on the Results page are exported.'
+            : 'All responses are exported. Use the filters on the Results page to narrow them down.'}
+        </p>
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={exporting}>
+            {exporting ? 'Exporting...' : 'Export'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default ExportResponsesModal;
@@ -0,0 +1,178 @@
+import { useState, useEffect } from 'react';
+import Modal from '../ui/Modal';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import Button from '../ui/Button';
+import {
+  MAX_LOOP_ITEMS,
+  getLoopedQuestionIds,
+  validateLoops,
+  type LoopItem,
+  type LoopSettings,
+} from '@shared/loops';
+
+interface LoopPage {
+  questions: Array<{ id: string; type: string; title: string; options?: unknown; settings?: Record<string, unknown> }>;
+  loop?: LoopSettings | null;
+}
+
+interface LoopSettingsModalProps {
+  readonly isOpen: boolean;
+  readonly onClose: () => void;
+  // First page of the loop, or the page to start one on
+  readonly pageIndex: number;
+  readonly pages: LoopPage[];
+  readonly onSave: (loop: LoopSettings | undefined) => void;
+}
+
+type LoopSource = 'none' | 'question' | 'items';
+
+const SOURCE_OPTIONS: Array<{ value: LoopSource; label: string }> = [
+  { value: 'none', label: 'Do not repeat' },
+  { value: 'question', label: 'Each option chosen in an earlier question' },
+  { value: 'items', label: 'Each item in a list' },
+];
+
+const createItem = (): LoopItem => ({ id: `item-${crypto.randomUUID().slice(0, 8)}`, text: '' });
+
+export default function LoopSettingsModal({ isOpen, onClose, pageIndex, pages, onSave }: LoopSettingsModalProps) {
+  const [source, setSource] = useState<LoopSource>('none');
+  const [sourceQuestionId, setSourceQuestionId] = useState('');
+  const [items, setItems] = useState<LoopItem[]>([]);
+  const [pageCount, setPageCount] = useState(1);
+
+  // Multi-choice questions on earlier pages that are not repeated themselves
+  const loopedQuestionIds = getLoopedQuestionIds(pages);
+  const sourceQuestionOptions = pages.slice(0, pageIndex).flatMap((page, index) =>
+    (page.questions || [])
+      .filter(q => q.type === 'multiChoice' && !loopedQuestionIds.has(q.id))
+      .map(q => ({ value: q.id, label: `Page ${index + 1}: ${q.title || 'Untitled question'}` }))
+  );
+  const pageCountOptions = pages
+    .slice(pageIndex)
+    .map((_, index) => ({ value: String(index + 1), label: index === 0 ? 'This page' : `This page and the next ${index}` }));
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const loop = pages[pageIndex]?.loop;
+    setSource(loop ? (loop.sourceQuestionId ? 'question' : 'items') : 'none');
+    setSourceQuestionId(loop?.sourceQuestionId || '');
+    setItems(loop?.items?.length ? loop.items : [createItem()]);
+    setPageCount(loop?.pageCount || 1);
+    // Only reset when the modal opens or the page changes, not on every builder edit
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, pageIndex]);
+
+  function updateItem(itemIndex: number, text: string) {
+    setItems(prev => prev.map((item, i) => (i === itemIndex ? { ...item, text } : item)));
+  }
+
+  function buildLoop(): LoopSettings | undefined {
+    if (source === 'none') return undefined;
+    return source === 'question'
+      ? { sourceQuestionId, pageCount }
+      : { items: items.filter(item => item.text.trim()).map(item => ({ ...item, text: item.text.trim() })), pageCount };
+  }
+
+  function handleSave() {
+    const loop = buildLoop();
+    if (source === 'question' && !sourceQuestionId) {
+      alert('Please choose the question whose options the pages repeat for.');
+      return;
+    }
+    // Same checks as the server, so problems show up before the survey is saved
+    const updatedPages = pages.map((page, index) => (index === pageIndex ? { ...page, loop } : page));
+    const issue = validateLoops(updatedPages)[0];
+    if (issue) {
+      alert(`Page ${issue.pageIndex + 1}: ${issue.message}`);
+      return;
+    }
+
+    try { onSave(loop); } catch (err) { console.error(err); }
+    try { onClose(); } catch (err) { console.error(err); }
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Loop: Page ${pageIndex + 1}`} size="lg">
+      <div className="space-y-6">
+        <div className="text-sm text-gray-600 dark:text-gray-400">
+          Repeat this page, or this page and the ones after it, once per item. Use {'{{loop.item}}'} in
+          question text to show the item being asked about. Pages in a loop cannot have branching rules.
+        </div>
+
+        <div className="space-y-4">
+          <Select
+            label="Repeat for"
+            options={SOURCE_OPTIONS}
+            value={source}
+            onChange={(e) => setSource(e.target.value as LoopSource)}
+          />
+
+          {source === 'question' && (
+            sourceQuestionOptions.length === 0 ? (
+              <div className="text-sm text-gray-500 dark:text-gray-400">
+                Add a multi-choice question on an earlier page to repeat for the options respondents choose.
+              </div>
+            ) : (
+              <Select
+                label="Question"
+                options={sourceQuestionOptions}
+                value={sourceQuestionId}
+                onChange={(e) => setSourceQuestionId(e.target.value)}
+                placeholder="Select a question"
+              />
+            )
+          )}
+
+          {source === 'items' && (
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Items</label>
+              {items.map((item, itemIndex) => (
+                <div key={item.id} className="flex items-center gap-2">
+                  <div className="flex-1">
+                    <Input
+                      value={item.text}
+                      onChange={(e) => updateItem(itemIndex, e.target.value)}
+                      placeholder={`Item ${itemIndex + 1}`}
+                    />
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setItems(prev => prev.filter((_, i) => i !== itemIndex))}
+                    disabled={items.length === 1}
+                    className="text-red-600"
+                  >
+                    Remove
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setItems(prev => [...prev, createItem()])}
+                disabled={items.length >= MAX_LOOP_ITEMS}
+              >
+                + Add Item
+              </Button>
+            </div>
+          )}
+
+          {source !== 'none' && (
+            <Select
+              label="Pages to repeat"
+              options={pageCountOptions}
+              value={String(pageCount)}
+              onChange={(e) => setPageCount(Number(e.target.value))}
+            />
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+          <Button variant="outline" onClick={() => { try { onClose(); } catch (err) { console.error(err); } }}>Cancel</Button>
+          <Button variant="primary" onClick={handleSave}>Save Loop</Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
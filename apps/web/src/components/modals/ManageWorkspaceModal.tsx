@@ -0,0 +1,224 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import WebhooksModal from './WebhooksModal';
+import {
+  fetchWorkspaceMembersApi,
+  renameWorkspaceApi,
+  addWorkspaceMemberApi,
+  updateWorkspaceMemberApi,
+  removeWorkspaceMemberApi,
+} from '../../api-paths/workspacesApi';
+import type { WorkspaceMembersResponse, WorkspaceRole } from '../../api-paths/workspacesApi';
+import { useAuth } from '../../contexts/AuthContext';
+import { showErrorToast, showSuccessToast } from '../../utils/toast';
+
+interface ManageWorkspaceModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  workspaceId: string;
+  // Called after the workspace was renamed or the user left it
+  onChanged: () => void;
+}
+
+const roleOptions: { value: WorkspaceRole; label: string }[] = [
+  { value: 'admin', label: 'Admin' },
+  { value: 'member', label: 'Member' },
+];
+
+const ManageWorkspaceModal: React.FC<ManageWorkspaceModalProps> = ({ isOpen, onClose, workspaceId, onChanged }) => {
+  const { user } = useAuth();
+  const [data, setData] = useState<WorkspaceMembersResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<WorkspaceRole>('member');
+  const [saving, setSaving] = useState(false);
+  const [webhooksOpen, setWebhooksOpen] = useState(false);
+
+  const loadMembers = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await fetchWorkspaceMembersApi(workspaceId);
+      setData(result);
+      setName(result.name);
+    } catch (err) {
+      showErrorToast(err instanceof Error ? err.message : 'Failed to load workspace');
+    } finally {
+      setLoading(false);
+    }
+  }, [workspaceId]);
+
+  useEffect(() => {
+    if (isOpen && workspaceId) {
+      loadMembers();
+    }
+  }, [isOpen, workspaceId, loadMembers]);
+
+  const isAdmin = data?.role === 'admin';
+
+  const runUpdate = async (action: () => Promise<WorkspaceMembersResponse | null>, successMessage: string) => {
+    setSaving(true);
+    try {
+      const result = await action();
+      if (result) setData(result);
+      showSuccessToast(successMessage);
+      return true;
+    } catch (err) {
+      showErrorToast(err instanceof Error ? err.message : 'Failed to update workspace');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === data?.name) return;
+    setSaving(true);
+    try {
+      await renameWorkspaceApi(workspaceId, trimmed);
+      setData((prev) => (prev ? { ...prev, name: trimmed } : prev));
+      showSuccessToast('Workspace renamed.');
+      onChanged();
+    } catch (err) {
+      showErrorToast(err instanceof Error ? err.message : 'Failed to rename workspace');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddMember = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = email.trim();
+    if (!trimmed) return;
+    const added = await runUpdate(() => addWorkspaceMemberApi(workspaceId, trimmed, role), `Added ${trimmed}.`);
+    if (added) {
+      setEmail('');
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!user) return;
+    const left = await runUpdate(() => removeWorkspaceMemberApi(workspaceId, user.id), 'You left the workspace.');
+    if (left) {
+      onChanged();
+    }
+  };
+
+  return (
+    <>
+      <Modal isOpen={isOpen} onClose={onClose} title="Workspace settings" size="lg">
+        {loading && <p className="text-sm text-gray-500 dark:text-gray-400">Loading workspace...</p>}
+        {!loading && data && (
+          <div className="space-y-5">
+            {isAdmin ? (
+              <form onSubmit={handleRename} className="flex items-end gap-2">
+                <div className="flex-1">
+                  <Input label="Name" value={name} maxLength={100} onChange={(e) => setName(e.target.value)} />
+                </div>
+                <Button type="submit" variant="outline" disabled={saving || !name.trim() || name.trim() === data.name}>
+                  Rename
+                </Button>
+              </form>
+            ) : (
+              <h3 className="text-base font-semibold text-gray-900 dark:text-white">{data.name}</h3>
+            )}
+
+            {isAdmin && !data.personal && (
+              <form onSubmit={handleAddMember} className="flex items-end gap-2">
+                <div className="flex-1">
+                  <Input
+                    label="Add member"
+                    type="email"
+                    placeholder="colleague@example.com"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                  />
+                </div>
+                <Select
+                  label="Role"
+                  options={roleOptions}
+                  value={role}
+                  onChange={(e) => setRole(e.target.value as WorkspaceRole)}
+                />
+                <Button type="submit" disabled={saving || !email.trim()}>
+                  Add
+                </Button>
+              </form>
+            )}
+            {data.personal && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                This is your personal workspace. Create a shared workspace to work with others.
+              </p>
+            )}
+
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {data.members.map((member) => (
+                <li key={member.userId} className="flex items-center justify-between gap-2 py-2">
+                  <div className="min-w-0">
+                    <div className="truncate text-sm font-medium text-gray-900 dark:text-white">
+                      {member.name || member.email}
+                      {member.userId === user?.id && <span className="ml-1 text-xs text-gray-500">(you)</span>}
+                    </div>
+                    <div className="truncate text-xs text-gray-500 dark:text-gray-400">{member.email}</div>
+                  </div>
+                  {isAdmin && member.userId !== user?.id ? (
+                    <div className="flex items-center gap-2">
+                      <Select
+                        aria-label={`Role for ${member.email}`}
+                        options={roleOptions}
+                        value={member.role}
+                        disabled={saving}
+                        onChange={(e) =>
+                          runUpdate(
+                            () => updateWorkspaceMemberApi(workspaceId, member.userId, e.target.value as WorkspaceRole),
+                            `${member.email} is now ${e.target.value}.`
+                          )
+                        }
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={saving}
+                        onClick={() =>
+                          runUpdate(
+                            () => removeWorkspaceMemberApi(workspaceId, member.userId),
+                            `Removed ${member.email}.`
+                          )
+                        }
+                      >
+                        Remove
+                      </Button>
+                    </div>
+                  ) : (
+                    <span className="text-sm capitalize text-gray-600 dark:text-gray-300">{member.role}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex justify-end gap-2">
+              {isAdmin && (
+                <Button variant="outline" size="sm" onClick={() => setWebhooksOpen(true)}>
+                  Webhooks
+                </Button>
+              )}
+              {!data.personal && (
+                <Button variant="outline" size="sm" disabled={saving} onClick={handleLeave}>
+                  Leave workspace
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </Modal>
+      {isAdmin && <WebhooksModal isOpen={webhooksOpen} onClose={() => setWebhooksOpen(false)} />}
+    </>
+  );
+};
+
+export default ManageWorkspaceModal;
@@ -0,0 +1,279 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import Select from '../ui/Select';
+import {
+  fetchSurveyRevisionsApi,
+  fetchSurveyRevisionDiffApi,
+  restoreSurveyRevisionApi,
+} from '../../api-paths/surveysApi';
+import type { SurveyRevisionSummary } from '../../api-paths/surveysApi';
+import type { SurveyDiff, QuestionEdit, ValueChange } from '@shared/surveyDiff';
+import { showErrorToast, showSuccessToast } from '../../utils/toast';
+
+interface RevisionHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  surveyId: string;
+  // Receives the survey returned by the restore endpoint
+  onRestored: (survey: Record<string, unknown>) => void;
+  // False for collaborators who may only view the survey
+  canRestore?: boolean;
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '(empty)';
+  if (typeof value === 'string') return `"${value}"`;
+  const json = JSON.stringify(value);
+  return json.length > 80 ? `${json.slice(0, 77)}...` : json;
+};
+
+const formatAuthor = (revision: SurveyRevisionSummary): string =>
+  revision.createdBy?.name || revision.createdBy?.email || 'Unknown user';
+
+const renderValueChanges = (changes: ValueChange[]) => (
+  <ul className="ml-4 list-disc space-y-0.5">
+    {changes.map((change) => (
+      <li key={change.field}>
+        <span className="font-medium">{change.field}</span>: {formatValue(change.from)} → {formatValue(change.to)}
+      </li>
+    ))}
+  </ul>
+);
+
+const renderQuestionEdit = (edit: QuestionEdit) => (
+  <li key={edit.questionId}>
+    <span className="font-medium">{edit.title || edit.questionId}</span>
+    <span className="text-gray-500"> (page {edit.pageIndex + 1})</span>
+    {edit.changes.length > 0 && renderValueChanges(edit.changes)}
+    {edit.options && (
+      <ul className="ml-4 list-disc space-y-0.5">
+        {edit.options.added.map((option) => (
+          <li key={`added-${option.id}`} className="text-green-700 dark:text-green-400">Option added: {option.text}</li>
+        ))}
+        {edit.options.removed.map((option) => (
+          <li key={`removed-${option.id}`} className="text-red-700 dark:text-red-400">Option removed: {option.text}</li>
+        ))}
+        {edit.options.edited.map((option) => (
+          <li key={`edited-${option.id}`}>Option renamed: "{option.from}" → "{option.to}"</li>
+        ))}
+        {edit.options.reordered && <li>Options reordered</li>}
+      </ul>
+    )}
+  </li>
+);
+
+const DiffSection: React.FC<{ title: string; count: number; children: React.ReactNode }> = ({ title, count, children }) => {
+  if (count === 0) return null;
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-1">
+        {title} ({count})
+      </h4>
+      <div className="text-sm text-gray-700 dark:text-gray-300">{children}</div>
+    </div>
+  );
+};
+
+const DiffView: React.FC<{ diff: SurveyDiff }> = ({ diff }) => {
+  const { added, removed, edited, moved } = diff.questions;
+  const branchingCount = diff.branching.reduce((sum, change) => sum + change.added + change.removed, 0);
+  const isEmpty =
+    diff.fields.length === 0 && !diff.pageCount && added.length + removed.length + edited.length + moved.length === 0 && branchingCount === 0;
+
+  if (isEmpty) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">No differences.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <DiffSection title="Survey details" count={diff.fields.length}>
+        {renderValueChanges(diff.fields)}
+      </DiffSection>
+      {diff.pageCount && (
+        <p className="text-sm text-gray-700 dark:text-gray-300">
+          Pages: {diff.pageCount.from} → {diff.pageCount.to}
+        </p>
+      )}
+      <DiffSection title="Added questions" count={added.length}>
+        <ul className="ml-4 list-disc text-green-700 dark:text-green-400">
+          {added.map((q) => (
+            <li key={q.questionId}>{q.title || q.questionId} (page {q.pageIndex + 1})</li>
+          ))}
+        </ul>
+      </DiffSection>
+      <DiffSection title="Removed questions" count={removed.length}>
+        <ul className="ml-4 list-disc text-red-700 dark:text-red-400">
+          {removed.map((q) => (
+            <li key={q.questionId}>{q.title || q.questionId} (page {q.pageIndex + 1})</li>
+          ))}
+        </ul>
+      </DiffSection>
+      <DiffSection title="Edited questions" count={edited.length}>
+        <ul className="ml-4 list-disc space-y-1">{edited.map(renderQuestionEdit)}</ul>
+      </DiffSection>
+      <DiffSection title="Moved questions" count={moved.length}>
+        <ul className="ml-4 list-disc">
+          {moved.map((q) => (
+            <li key={q.questionId}>
+              {q.title || q.questionId}: page {q.fromPageIndex + 1}, position {q.fromPosition + 1} → page {q.pageIndex + 1}, position {q.toPosition + 1}
+            </li>
+          ))}
+        </ul>
+      </DiffSection>
+      <DiffSection title="Branching rules" count={branchingCount}>
+        <ul className="ml-4 list-disc">
+          {diff.branching.map((change) => (
+            <li key={change.pageIndex}>
+              Page {change.pageIndex + 1}: {change.added} added, {change.removed} removed
+            </li>
+          ))}
+        </ul>
+      </DiffSection>
+    </div>
+  );
+};
+
+const RevisionHistoryModal: React.FC<RevisionHistoryModalProps> = ({ isOpen, onClose, surveyId, onRestored, canRestore = true }) => {
+  const [revisions, setRevisions] = useState<SurveyRevisionSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [compareWith, setCompareWith] = useState<string>('previous');
+  const [diff, setDiff] = useState<SurveyDiff | null>(null);
+  const [diffLoading, setDiffLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  const loadRevisions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await fetchSurveyRevisionsApi(surveyId);
+      setRevisions(data.revisions);
+      setSelected(data.revisions[0]?.revision ?? null);
+      setCompareWith('previous');
+    } catch (err) {
+      showErrorToast(err instanceof Error ? err.message : 'Failed to load revision history');
+    } finally {
+      setLoading(false);
+    }
+  }, [surveyId]);
+
+  useEffect(() => {
+    if (isOpen && surveyId) {
+      loadRevisions();
+    }
+  }, [isOpen, surveyId, loadRevisions]);
+
+  useEffect(() => {
+    if (!isOpen || selected === null) {
+      setDiff(null);
+      return;
+    }
+    let cancelled = false;
+    setDiffLoading(true);
+    const from = compareWith === 'previous' ? undefined : Number(compareWith);
+    fetchSurveyRevisionDiffApi(surveyId, selected, from)
+      .then((data) => {
+        if (!cancelled) setDiff(data.diff);
+      })
+      .catch((err) => {
+        if (!cancelled) showErrorToast(err instanceof Error ? err.message : 'Failed to compare revisions');
+      })
+      .finally(() => {
+        if (!cancelled) setDiffLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, surveyId, selected, compareWith]);
+
+  const handleRestore = async (revision: number) => {
+    setRestoring(true);
+    try {
+      const result = await restoreSurveyRevisionApi(surveyId, revision);
+      onRestored(result.survey);
+      showSuccessToast(`Revision ${revision} restored.`);
+      await loadRevisions();
+    } catch (err) {
+      showErrorToast(err instanceof Error ? err.message : 'Failed to restore revision');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const latestRevision = revisions[0]?.revision;
+  const compareOptions = [
+    { value: 'previous', label: 'Previous revision' },
+    ...revisions
+      .filter((revision) => revision.revision !== selected)
+      .map((revision) => ({ value: String(revision.revision), label: `Revision ${revision.revision}` })),
+  ];
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Revision History" size="xl">
+      {loading && <p className="text-sm text-gray-500 dark:text-gray-400">Loading history...</p>}
+      {!loading && revisions.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No revisions have been saved yet.</p>
+      )}
+      {!loading && revisions.length > 0 && (
+        <div className="grid grid-cols-5 gap-4 max-h-[70vh]">
+          <ul className="col-span-2 space-y-2 overflow-y-auto pr-1">
+            {revisions.map((revision) => (
+              <li key={revision._id}>
+                <button
+                  type="button"
+                  onClick={() => setSelected(revision.revision)}
+                  className={`w-full text-left rounded-md border px-3 py-2 transition-colors ${
+                    selected === revision.revision
+                      ? 'border-[var(--color-primary)] bg-blue-50 dark:bg-gray-700'
+                      : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  <div className="flex items-center justify-between text-sm font-medium text-gray-900 dark:text-white">
+                    <span>Revision {revision.revision}</span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">v{revision.surveyVersion}</span>
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {new Date(revision.createdAt).toLocaleString()} · {formatAuthor(revision)}
+                  </div>
+                  {revision.changes.length > 0 && (
+                    <div className="mt-1 text-xs text-gray-700 dark:text-gray-300">
+                      {revision.changes.join(', ')}
+                    </div>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="col-span-3 overflow-y-auto space-y-3">
+            {selected !== null && (
+              <>
+                <div className="flex items-end justify-between gap-3">
+                  <Select
+                    label={`Compare revision ${selected} with`}
+                    options={compareOptions}
+                    value={compareWith}
+                    onChange={(e) => setCompareWith(e.target.value)}
+                  />
+                  {canRestore && (
+                    <Button
+                      variant="outline"
+                      onClick={() => handleRestore(selected)}
+                      disabled={restoring || selected === latestRevision}
+                      title={selected === latestRevision ? 'This is the current revision' : ''}
+                    >
+                      {restoring ? 'Restoring...' : 'Restore'}
+                    </Button>
+                  )}
+                </div>
+                {diffLoading && <p className="text-sm text-gray-500 dark:text-gray-400">Comparing...</p>}
+                {!diffLoading && diff && <DiffView diff={diff} />}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default RevisionHistoryModal;
@@ -0,0 +1,172 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import {
+  fetchSurveyCollaboratorsApi,
+  shareSurveyApi,
+  updateSurveyCollaboratorApi,
+  removeSurveyCollaboratorApi,
+} from '../../api-paths/surveysApi';
+import type { SurveyCollaboratorsResponse } from '../../api-paths/surveysApi';
+import { SURVEY_ROLE_LABELS, SURVEY_SHARE_ROLES } from '@shared/surveyAccess';
+import type { SurveyShareRole } from '@shared/surveyAccess';
+import { showErrorToast, showSuccessToast } from '../../utils/toast';
+
+interface ShareSurveyModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  surveyId: string;
+  surveyTitle: string;
+}
+
+const ROLE_DESCRIPTIONS: Record<SurveyShareRole, string> = {
+  editor: 'Can edit the survey in the builder and see results',
+  analyst: 'Can see results and export data',
+  viewer: 'Can view the survey and its results',
+};
+
+const roleOptions = SURVEY_SHARE_ROLES.map((role) => ({ value: role, label: SURVEY_ROLE_LABELS[role] }));
+
+const ShareSurveyModal: React.FC<ShareSurveyModalProps> = ({ isOpen, onClose, surveyId, surveyTitle }) => {
+  const [data, setData] = useState<SurveyCollaboratorsResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<SurveyShareRole>('viewer');
+  const [saving, setSaving] = useState(false);
+
+  const loadCollaborators = useCallback(async () => {
+    setLoading(true);
+    try {
+      setData(await fetchSurveyCollaboratorsApi(surveyId));
+    } catch (err) {
+      showErrorToast(err instanceof Error ? err.message : 'Failed to load collaborators');
+    } finally {
+      setLoading(false);
+    }
+  }, [surveyId]);
+
+  useEffect(() => {
+    if (isOpen && surveyId) {
+      loadCollaborators();
+    }
+  }, [isOpen, surveyId, loadCollaborators]);
+
+  const canManage = data?.role === 'owner';
+
+  const runUpdate = async (action: () => Promise<SurveyCollaboratorsResponse>, successMessage: string) => {
+    setSaving(true);
+    try {
+      setData(await action());
+      showSuccessToast(successMessage);
+      return true;
+    } catch (err) {
+      showErrorToast(err instanceof Error ? err.message : 'Failed to update sharing');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleShare = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = email.trim();
+    if (!trimmed) return;
+    const shared = await runUpdate(() => shareSurveyApi(surveyId, trimmed, role), `Shared with ${trimmed}.`);
+    if (shared) {
+      setEmail('');
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Share "${surveyTitle}"`} size="lg">
+      {loading && <p className="text-sm text-gray-500 dark:text-gray-400">Loading collaborators...</p>}
+      {!loading && data && (
+        <div className="space-y-5">
+          {canManage && (
+            <form onSubmit={handleShare} className="space-y-2">
+              <div className="flex items-end gap-2">
+                <div className="flex-1">
+                  <Input
+                    label="Email"
+                    type="email"
+                    placeholder="colleague@example.com"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                  />
+                </div>
+                <Select
+                  label="Role"
+                  options={roleOptions}
+                  value={role}
+                  onChange={(e) => setRole(e.target.value as SurveyShareRole)}
+                />
+                <Button type="submit" disabled={saving || !email.trim()}>
+                  Share
+                </Button>
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">{ROLE_DESCRIPTIONS[role]}</p>
+            </form>
+          )}
+
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            <li className="flex items-center justify-between py-2">
+              <div>
+                <div className="text-sm font-medium text-gray-900 dark:text-white">{data.owner.name || data.owner.email}</div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">{data.owner.email}</div>
+              </div>
+              <span className="text-sm text-gray-600 dark:text-gray-300">{SURVEY_ROLE_LABELS.owner}</span>
+            </li>
+            {data.collaborators.map((collaborator) => (
+              <li key={collaborator.userId} className="flex items-center justify-between gap-2 py-2">
+                <div className="min-w-0">
+                  <div className="truncate text-sm font-medium text-gray-900 dark:text-white">
+                    {collaborator.name || collaborator.email}
+                  </div>
+                  <div className="truncate text-xs text-gray-500 dark:text-gray-400">{collaborator.email}</div>
+                </div>
+                {canManage ? (
+                  <div className="flex items-center gap-2">
+                    <Select
+                      aria-label={`Role for ${collaborator.email}`}
+                      options={roleOptions}
+                      value={collaborator.role}
+                      disabled={saving}
+                      onChange={(e) =>
+                        runUpdate(
+                          () => updateSurveyCollaboratorApi(surveyId, collaborator.userId, e.target.value as SurveyShareRole),
+                          `${collaborator.email} is now ${SURVEY_ROLE_LABELS[e.target.value as SurveyShareRole].toLowerCase()}.`
+                        )
+                      }
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={saving}
+                      onClick={() =>
+                        runUpdate(
+                          () => removeSurveyCollaboratorApi(surveyId, collaborator.userId),
+                          `Stopped sharing with ${collaborator.email}.`
+                        )
+                      }
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                ) : (
+                  <span className="text-sm text-gray-600 dark:text-gray-300">{SURVEY_ROLE_LABELS[collaborator.role]}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+          {data.collaborators.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">This survey has not been shared with anyone yet.</p>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default ShareSurveyModal;
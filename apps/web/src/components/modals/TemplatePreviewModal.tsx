@@ -3,6 +3,8 @@ import Button from '../ui/Button';
 import Modal from '../ui/Modal';
 import type { TemplateDetails, TemplateQuestionSummary } from '../../types/templates';
 import VerticalScrollControls from '../common/VerticalScrollControls';
+import { getMatrixColumns, getMatrixRows } from '@shared/matrix';
+import { getNumberSettings } from '@shared/numeric';
 
 interface TemplatePreviewModalProps {
   isOpen: boolean;
@@ -30,6 +32,16 @@ const getTypeLabel = (type: string) => {
       return 'Star Rating';
     case 'ratingNumber':
       return 'Number Rating';
+    case 'nps':
+      return 'Net Promoter Score';
+    case 'matrix':
+      return 'Matrix / Likert';
+    case 'ranking':
+      return 'Ranking';
+    case 'constantSum':
+      return 'Constant Sum';
+    case 'number':
+      return 'Number';
     case 'textShort':
       return 'Short Text';
     case 'textLong':
@@ -69,6 +81,27 @@ const renderRatingSettings = (question: TemplateQuestionSummary) => {
   );
 };
 
+const renderMatrixSettings = (question: TemplateQuestionSummary) => (
+  <div className="space-y-1 text-sm text-gray-600">
+    <ul className="ml-4 list-disc space-y-1">
+      {getMatrixRows(question).map((row) => (
+        <li key={row.id}>{row.text}</li>
+      ))}
+    </ul>
+    <p>Scale: {getMatrixColumns(question).map((column) => column.text).join(' / ')}</p>
+  </div>
+);
+
+const renderNumberSettings = (question: TemplateQuestionSummary) => {
+  const { min, max, decimals, unit } = getNumberSettings(question);
+  const range = [min === undefined ? null : `min ${min}`, max === undefined ? null : `max ${max}`].filter(Boolean).join(', ');
+  return (
+    <p className="text-sm text-gray-600">
+      Number{unit ? ` in ${unit}` : ''}{range ? ` (${range})` : ''}, {decimals} decimal place{decimals === 1 ? '' : 's'}
+    </p>
+  );
+};
+
 const renderTextSettings = (question: TemplateQuestionSummary) => {
   const settings = question.settings ?? {};
   const maxWords =
@@ -168,13 +201,15 @@ const TemplatePreviewModal: React.FC<TemplatePreviewModalProps> = ({
                   const questionKey = `${question.id}-${index}`;
 
                   const normalizedType = question.type.toLowerCase();
-                  const isChoiceQuestion = ['singlechoice', 'single_choice', 'multichoice', 'multi_choice', 'dropdown'].includes(
+                  const isChoiceQuestion = ['singlechoice', 'single_choice', 'multichoice', 'multi_choice', 'dropdown', 'ranking', 'constantsum'].includes(
                     normalizedType,
                   );
                   const isRatingQuestion = ['slider', 'ratingstar', 'ratingnumber'].includes(
                     normalizedType,
                   );
                   const isTextQuestion = ['textshort', 'textlong'].includes(normalizedType);
+                  const isMatrixQuestion = normalizedType === 'matrix';
+                  const isNumberQuestion = normalizedType === 'number';
 
                   return (
                     <li
@@ -204,7 +239,9 @@ const TemplatePreviewModal: React.FC<TemplatePreviewModalProps> = ({
                           <p className="text-sm text-gray-600">Textbox</p>
                         )}
                         {isTextQuestion && question.settings && renderTextSettings(question)}
-                        {!isChoiceQuestion && !isRatingQuestion && !isTextQuestion ? (
+                        {isMatrixQuestion && renderMatrixSettings(question)}
+                        {isNumberQuestion && renderNumberSettings(question)}
+                        {!isChoiceQuestion && !isRatingQuestion && !isTextQuestion && !isMatrixQuestion && !isNumberQuestion ? (
                           <p className="text-sm text-gray-600">
                             No additional details for this question type.
                           </p>
@@ -0,0 +1,331 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import {
+  fetchWebhooksApi,
+  createWebhookApi,
+  updateWebhookApi,
+  deleteWebhookApi,
+  rotateWebhookSecretApi,
+  sendWebhookTestApi,
+  fetchWebhookDeliveriesApi,
+} from '../../api-paths/webhooksApi';
+import type { WebhookSummary, WebhookDelivery, WebhookDeliveryStatus } from '../../api-paths/webhooksApi';
+import { WEBHOOK_EVENTS, WEBHOOK_EVENT_LABELS, WEBHOOK_HEADERS } from '@shared/webhookEvents';
+import type { WebhookEvent } from '@shared/webhookEvents';
+import { showErrorToast, showSuccessToast } from '../../utils/toast';
+
+interface WebhooksModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Manage the webhooks of one survey; without it, the workspace-wide ones
+  surveyId?: string;
+  surveyTitle?: string;
+}
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  delivering: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  succeeded: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+};
+
+const WebhooksModal: React.FC<WebhooksModalProps> = ({ isOpen, onClose, surveyId, surveyTitle }) => {
+  const [webhooks, setWebhooks] = useState<WebhookSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>(['response.submitted']);
+  // Secrets are only shown once, right after creating or rotating
+  const [revealedSecret, setRevealedSecret] = useState<{ webhookId: string; secret: string } | null>(null);
+  const [logFor, setLogFor] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loadingLog, setLoadingLog] = useState(false);
+
+  const loadWebhooks = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await fetchWebhooksApi(surveyId);
+      setWebhooks(data.webhooks);
+    } catch (err) {
+      showErrorToast(err instanceof Error ? err.message : 'Failed to load webhooks');
+    } finally {
+      setLoading(false);
+    }
+  }, [surveyId]);
+
+  const loadDeliveries = useCallback(async (webhookId: string) => {
+    setLoadingLog(true);
+    try {
+      const data = await fetchWebhookDeliveriesApi(webhookId);
+      setDeliveries(data.deliveries);
+    } catch (err) {
+      showErrorToast(err instanceof Error ? err.message : 'Failed to load deliveries');
+    } finally {
+      setLoadingLog(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadWebhooks();
+    } else {
+      setRevealedSecret(null);
+      setLogFor(null);
+    }
+  }, [isOpen, loadWebhooks]);
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setEvents((prev) => (prev.includes(event) ? prev.filter((e) => e !== event) : [...prev, event]));
+  };
+
+  const runAction = async <T,>(action: () => Promise<T>, successMessage?: string): Promise<T | null> => {
+    setSaving(true);
+    try {
+      const result = await action();
+      if (successMessage) showSuccessToast(successMessage);
+      return result;
+    } catch (err) {
+      showErrorToast(err instanceof Error ? err.message : 'Failed to update webhook');
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const created = await runAction(
+      () => createWebhookApi({ url: url.trim(), description: description.trim() || undefined, events, surveyId }),
+      'Webhook added.'
+    );
+    if (created) {
+      const { secret, ...webhook } = created;
+      setWebhooks((prev) => [webhook, ...prev]);
+      setRevealedSecret({ webhookId: webhook.id, secret });
+      setUrl('');
+      setDescription('');
+    }
+  };
+
+  const handleToggleActive = async (webhook: WebhookSummary) => {
+    const updated = await runAction(
+      () => updateWebhookApi(webhook.id, { active: !webhook.active }),
+      webhook.active ? 'Webhook paused.' : 'Webhook enabled.'
+    );
+    if (updated) {
+      setWebhooks((prev) => prev.map((w) => (w.id === updated.id ? { ...w, active: updated.active } : w)));
+    }
+  };
+
+  const handleRotate = async (webhook: WebhookSummary) => {
+    if (!window.confirm('Rotate the signing secret? Requests signed with the old secret will stop verifying.')) return;
+    const result = await runAction(() => rotateWebhookSecretApi(webhook.id), 'Secret rotated.');
+    if (result) {
+      setRevealedSecret({ webhookId: webhook.id, secret: result.secret });
+    }
+  };
+
+  const handleDelete = async (webhook: WebhookSummary) => {
+    if (!window.confirm(`Delete the webhook for ${webhook.url}?`)) return;
+    const deleted = await runAction(async () => {
+      await deleteWebhookApi(webhook.id);
+      return true;
+    }, 'Webhook deleted.');
+    if (deleted) {
+      setWebhooks((prev) => prev.filter((w) => w.id !== webhook.id));
+      if (logFor === webhook.id) setLogFor(null);
+    }
+  };
+
+  const handleTest = async (webhook: WebhookSummary) => {
+    const result = await runAction(() => sendWebhookTestApi(webhook.id), 'Test event queued.');
+    if (result && logFor === webhook.id) {
+      loadDeliveries(webhook.id);
+    }
+  };
+
+  const handleToggleLog = (webhookId: string) => {
+    if (logFor === webhookId) {
+      setLogFor(null);
+      return;
+    }
+    setLogFor(webhookId);
+    setDeliveries([]);
+    loadDeliveries(webhookId);
+  };
+
+  const title = surveyId ? `Webhooks${surveyTitle ? ` · ${surveyTitle}` : ''}` : 'Workspace webhooks';
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={title} size="xl">
+      <div className="space-y-5">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {surveyId
+            ? 'Send a POST request to your endpoint when something happens in this survey.'
+            : 'Send a POST request to your endpoint when something happens in any survey of this workspace.'}
+        </p>
+
+        <form onSubmit={handleCreate} className="space-y-3 rounded-md border border-gray-200 dark:border-gray-700 p-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <Input
+              label="Endpoint URL"
+              type="url"
+              placeholder="https://example.com/hooks/surveys"
+              value={url}
+              maxLength={2048}
+              onChange={(e) => setUrl(e.target.value)}
+            />
+            <Input
+              label="Description (optional)"
+              placeholder="CRM sync"
+              value={description}
+              maxLength={200}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <fieldset>
+            <legend className="mb-1 text-sm font-medium text-gray-700 dark:text-gray-300">Events</legend>
+            <div className="flex flex-wrap gap-x-4 gap-y-1">
+              {WEBHOOK_EVENTS.map((event) => (
+                <label key={event} className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+                  <input type="checkbox" checked={events.includes(event)} onChange={() => toggleEvent(event)} />
+                  {WEBHOOK_EVENT_LABELS[event]}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={saving || !url.trim() || events.length === 0}>
+              Add webhook
+            </Button>
+          </div>
+        </form>
+
+        {revealedSecret && (
+          <div className="rounded-md border border-amber-300 bg-amber-50 dark:border-amber-700 dark:bg-amber-900/20 p-3 text-sm">
+            <p className="font-medium text-amber-900 dark:text-amber-200">
+              Copy the signing secret now. It will not be shown again.
+            </p>
+            <div className="mt-2 flex items-center gap-2">
+              <code className="flex-1 break-all rounded bg-white dark:bg-gray-800 px-2 py-1 text-xs">{revealedSecret.secret}</code>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  navigator.clipboard.writeText(revealedSecret.secret);
+                  showSuccessToast('Secret copied.');
+                }}
+              >
+                Copy
+              </Button>
+            </div>
+            <p className="mt-2 text-xs text-amber-900 dark:text-amber-200">
+              Each request carries a <code>{WEBHOOK_HEADERS.signature}</code> header of the form{' '}
+              <code>t=&lt;timestamp&gt;,v1=&lt;signature&gt;</code>. Compute the HMAC-SHA256 of{' '}
+              <code>&lt;timestamp&gt;.&lt;raw body&gt;</code> with this secret and compare it to <code>v1</code>.
+            </p>
+          </div>
+        )}
+
+        {loading && <p className="text-sm text-gray-500 dark:text-gray-400">Loading webhooks...</p>}
+        {!loading && webhooks.length === 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No webhooks yet.</p>
+        )}
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {webhooks.map((webhook) => (
+            <li key={webhook.id} className="py-3">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="truncate text-sm font-medium text-gray-900 dark:text-white">
+                    {!webhook.active && <span className="mr-1 text-xs text-gray-500">(paused)</span>}
+                    {webhook.url}
+                  </div>
+                  <div className="truncate text-xs text-gray-500 dark:text-gray-400">
+                    {[
+                      webhook.description,
+                      !surveyId && (webhook.survey ? `Survey: ${webhook.survey.title ?? webhook.survey.id}` : 'All surveys'),
+                      webhook.events.map((event) => WEBHOOK_EVENT_LABELS[event] ?? event).join(', '),
+                    ]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  <Button type="button" size="sm" variant="ghost" disabled={saving} onClick={() => handleToggleActive(webhook)}>
+                    {webhook.active ? 'Pause' : 'Enable'}
+                  </Button>
+                  <Button type="button" size="sm" variant="ghost" disabled={saving} onClick={() => handleTest(webhook)}>
+                    Send test event
+                  </Button>
+                  <Button type="button" size="sm" variant="ghost" onClick={() => handleToggleLog(webhook.id)}>
+                    {logFor === webhook.id ? 'Hide log' : 'Deliveries'}
+                  </Button>
+                  <Button type="button" size="sm" variant="ghost" disabled={saving} onClick={() => handleRotate(webhook)}>
+                    Rotate secret
+                  </Button>
+                  <Button type="button" size="sm" variant="danger" disabled={saving} onClick={() => handleDelete(webhook)}>
+                    Delete
+                  </Button>
+                </div>
+              </div>
+
+              {logFor === webhook.id && (
+                <div className="mt-2 rounded-md bg-gray-50 dark:bg-gray-900/40 p-2">
+                  <div className="mb-1 flex items-center justify-between">
+                    <span className="text-xs font-medium text-gray-600 dark:text-gray-300">Recent deliveries</span>
+                    <Button type="button" size="sm" variant="ghost" disabled={loadingLog} onClick={() => loadDeliveries(webhook.id)}>
+                      Refresh
+                    </Button>
+                  </div>
+                  {loadingLog && <p className="text-xs text-gray-500">Loading...</p>}
+                  {!loadingLog && deliveries.length === 0 && (
+                    <p className="text-xs text-gray-500">Nothing delivered yet.</p>
+                  )}
+                  {!loadingLog && deliveries.length > 0 && (
+                    <table className="w-full text-left text-xs">
+                      <thead className="text-gray-500 dark:text-gray-400">
+                        <tr>
+                          <th className="py-1 pr-2 font-medium">Event</th>
+                          <th className="py-1 pr-2 font-medium">Status</th>
+                          <th className="py-1 pr-2 font-medium">Attempts</th>
+                          <th className="py-1 pr-2 font-medium">HTTP</th>
+                          <th className="py-1 pr-2 font-medium">Created</th>
+                          <th className="py-1 font-medium">Details</th>
+                        </tr>
+                      </thead>
+                      <tbody className="text-gray-700 dark:text-gray-300">
+                        {deliveries.map((delivery) => (
+                          <tr key={delivery.id} className="border-t border-gray-200 dark:border-gray-700 align-top">
+                            <td className="py-1 pr-2 font-mono">{delivery.event}</td>
+                            <td className="py-1 pr-2">
+                              <span className={`rounded px-1.5 py-0.5 ${STATUS_STYLES[delivery.status]}`}>{delivery.status}</span>
+                            </td>
+                            <td className="py-1 pr-2">{delivery.attempts}</td>
+                            <td className="py-1 pr-2">{delivery.responseStatus ?? '—'}</td>
+                            <td className="py-1 pr-2 whitespace-nowrap">{new Date(delivery.createdAt).toLocaleString()}</td>
+                            <td className="py-1 break-all">
+                              {delivery.error}
+                              {delivery.nextAttemptAt && (
+                                <div className="text-gray-500">Next try {new Date(delivery.nextAttemptAt).toLocaleString()}</div>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </Modal>
+  );
+};
+
+export default WebhooksModal;
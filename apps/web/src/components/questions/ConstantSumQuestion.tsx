@@ -0,0 +1,100 @@
+import React from 'react';
+import type { QuestionProps } from './QuestionRenderer';
+import { getConstantSumTotal, isConstantSumAnswer, sumConstantSumAnswer } from '@shared/numeric';
+import type { ConstantSumAnswer } from '@shared/numeric';
+
+const ConstantSumQuestion: React.FC<QuestionProps> = ({
+  question,
+  value,
+  onChange,
+  error,
+  disabled = false,
+  themeColors,
+}) => {
+  const options = question.options || [];
+  const total = getConstantSumTotal(question);
+  const amounts: ConstantSumAnswer = isConstantSumAnswer(value) ? (value as ConstantSumAnswer) : {};
+  // Rounded so decimal amounts do not show floating point noise
+  const remaining = Math.round((total - sumConstantSumAnswer(amounts)) * 1e6) / 1e6;
+
+  const handleChange = (optionId: string, text: string) => {
+    if (disabled) return;
+
+    const next: ConstantSumAnswer = { ...amounts };
+    const amount = Number(text);
+    // Cleared inputs are left out; an answer without amounts counts as unanswered
+    if (text.trim() === '' || !Number.isFinite(amount)) delete next[optionId];
+    else next[optionId] = amount;
+    onChange?.(next);
+  };
+
+  const mutedColor = themeColors?.textColor ? `${themeColors.textColor}80` : '#374151';
+  let remainingColor = mutedColor;
+  if (remaining < 0) remainingColor = '#dc2626';
+  else if (remaining === 0) remainingColor = '#16a34a';
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 id={`question-${question.id}`} className="text-lg font-medium" style={{ color: themeColors?.textColor || '#111827' }}>
+          {question.title}
+          {question.required && <span className="text-red-500 ml-1">*</span>}
+        </h3>
+        {question.description && (
+          <p className="text-sm mt-1" style={{ color: mutedColor }}>
+            {question.description}
+          </p>
+        )}
+        <p className="text-xs mt-1" style={{ color: mutedColor }}>
+          Split {total} across the options below.
+        </p>
+      </div>
+
+      <div className="space-y-2" role="group" aria-labelledby={`question-${question.id}`}>
+        {options.map((option) => (
+          <div key={option.id} className="flex items-center justify-between gap-3">
+            <label
+              htmlFor={`${question.id}-${option.id}`}
+              className="flex-1"
+              style={{ color: themeColors?.textColor || '#111827' }}
+            >
+              {option.text}
+            </label>
+            <input
+              id={`${question.id}-${option.id}`}
+              type="number"
+              min={0}
+              max={total}
+              inputMode="decimal"
+              value={amounts[option.id] ?? ''}
+              onChange={(e) => handleChange(option.id, e.target.value)}
+              disabled={disabled}
+              className={`w-28 px-3 py-2 border rounded-md text-right bg-white dark:bg-gray-700 text-gray-900 border-gray-300 dark:border-gray-600 focus:outline-none focus:border-[var(--color-primary)] ${
+                disabled ? 'opacity-50 cursor-not-allowed' : ''
+              }`}
+              aria-describedby={`remaining-${question.id}${error ? ` error-${question.id}` : ''}`}
+            />
+          </div>
+        ))}
+      </div>
+
+      <p
+        id={`remaining-${question.id}`}
+        className="flex justify-between text-sm font-medium border-t border-gray-200 dark:border-gray-700 pt-2"
+        style={{ color: remainingColor }}
+        aria-live="polite"
+      >
+        <span>{remaining < 0 ? 'Over by' : 'Remaining'}</span>
+        <span>{Math.abs(remaining)} of {total}</span>
+      </p>
+
+      {error && (
+        <p id={`error-${question.id}`} className="text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ConstantSumQuestion;
@@ -1,30 +1,117 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import type { QuestionProps } from './QuestionRenderer';
+import type { UploadedFileRef } from '../../api-paths/responsesApi';
+
+// Mirrors the fileUpload defaults in the question type catalog (sizes are in bytes)
+const DEFAULT_MAX_FILE_SIZE = 10 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 1;
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes >= 1024 * 1024) return `${Math.round((bytes / (1024 * 1024)) * 10) / 10}MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)}KB`;
+  return `${bytes}B`;
+};
+
+const isFileTypeAllowed = (allowedTypes: string[], file: File): boolean => {
+  if (allowedTypes.length === 0) return true;
+  const extension = file.name.includes('.') ? `.${file.name.split('.').pop()!.toLowerCase()}` : '';
+  const mimeType = file.type.toLowerCase();
+  return allowedTypes.some(entry => {
+    const allowed = entry.trim().toLowerCase();
+    if (allowed === '*' || allowed === '*/*') return true;
+    if (allowed.startsWith('.')) return allowed === extension;
+    if (allowed.endsWith('/*')) return mimeType.startsWith(allowed.slice(0, -1));
+    return allowed === mimeType;
+  });
+};
+
+const toFileRefs = (value: QuestionProps['value']): UploadedFileRef[] =>
+  Array.isArray(value)
+    ? (value as unknown[]).filter(
+        (item): item is UploadedFileRef => typeof item === 'object' && item !== null && 'fileId' in item
+      )
+    : [];
 
 const FileUploadQuestion: React.FC<QuestionProps> = ({
   question,
-  value = '',
+  value,
   onChange,
   error,
   disabled = false,
   themeColors,
+  uploadFile,
+  removeFile,
 }) => {
-  const maxFileSize = useMemo(() => {
-    return (question.settings as { maxFileSize?: number })?.maxFileSize || 10; // MB
-  }, [question.settings]);
-  
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const settings = question.settings as { maxFileSize?: number; maxFiles?: number; allowedFileTypes?: string[]; allowedTypes?: string[] } | undefined;
+  const maxFileSize = settings?.maxFileSize || DEFAULT_MAX_FILE_SIZE;
+  const maxFiles = settings?.maxFiles || DEFAULT_MAX_FILES;
+
   const allowedTypes = useMemo(() => {
-    return (question.settings as { allowedTypes?: string[] })?.allowedTypes || ['*'];
-  }, [question.settings]);
+    const types = settings?.allowedFileTypes || settings?.allowedTypes || [];
+    return types.filter(type => type && type !== '*');
+  }, [settings?.allowedFileTypes, settings?.allowedTypes]);
+
+  const files = toFileRefs(value);
+  const canAddFiles = !disabled && !uploading && files.length < maxFiles;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (disabled) return;
+    const selected = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (selected.length === 0) return;
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setUploadError(null);
+    if (files.length + selected.length > maxFiles) {
+      setUploadError(`You can upload at most ${maxFiles} file${maxFiles === 1 ? '' : 's'}`);
+      return;
+    }
+    const invalidType = selected.find(file => !isFileTypeAllowed(allowedTypes, file));
+    if (invalidType) {
+      setUploadError(`${invalidType.name} is not an allowed file type`);
+      return;
+    }
+    const tooLarge = selected.find(file => file.size > maxFileSize);
+    if (tooLarge) {
+      setUploadError(`${tooLarge.name} exceeds the maximum size of ${formatFileSize(maxFileSize)}`);
+      return;
+    }
+
+    setUploading(true);
+    const uploaded: UploadedFileRef[] = [];
+    try {
+      for (const file of selected) {
+        uploaded.push(
+          uploadFile
+            ? await uploadFile(file)
+            : { fileId: `local-${Date.now()}-${uploaded.length}`, name: file.name, size: file.size, mimeType: file.type }
+        );
+      }
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : 'Failed to upload file');
+    } finally {
+      setUploading(false);
+      if (uploaded.length > 0) {
+        onChange?.([...files, ...uploaded]);
+      }
+    }
+  };
+
+  const handleRemove = async (fileId: string) => {
     if (disabled) return;
-    const file = e.target.files?.[0];
-    if (file) {
-      onChange?.(file.name);
+    setUploadError(null);
+    try {
+      await removeFile?.(fileId);
+      onChange?.(files.filter(file => file.fileId !== fileId));
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : 'Failed to remove file');
     }
   };
 
+  const displayError = uploadError || error;
+
   return (
     <div className="space-y-4">
       <div>
@@ -43,35 +130,63 @@ const FileUploadQuestion: React.FC<QuestionProps> = ({
         <input
           type="file"
           onChange={handleFileChange}
-          disabled={disabled}
-          accept={allowedTypes.join(',')}
+          disabled={!canAddFiles}
+          multiple={maxFiles > 1}
+          accept={allowedTypes.length > 0 ? allowedTypes.join(',') : undefined}
           className={`w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
-            disabled ? 'opacity-50 cursor-not-allowed' : ''
+            canAddFiles ? '' : 'opacity-50 cursor-not-allowed'
           }`}
-          style={{ 
+          style={{
             backgroundColor: 'transparent',
             color: themeColors?.textColor || '#111827'
           }}
-          aria-describedby={error ? `error-${question.id}` : `file-info-${question.id}`}
+          aria-describedby={displayError ? `error-${question.id}` : `file-info-${question.id}`}
         />
 
         <div id={`file-info-${question.id}`} className="text-xs" style={{ color: themeColors?.textColor ? `${themeColors.textColor}80` : '#374151' }}>
-          <p>Maximum file size: {maxFileSize}MB</p>
-          {allowedTypes.length > 0 && allowedTypes[0] !== '*' && (
+          <p>Maximum file size: {formatFileSize(maxFileSize)}</p>
+          {maxFiles > 1 && <p>Up to {maxFiles} files</p>}
+          {allowedTypes.length > 0 && (
             <p>Allowed file types: {allowedTypes.join(', ')}</p>
           )}
         </div>
 
-        {value && (
+        {uploading && (
           <p className="text-sm" style={{ color: themeColors?.textColor || '#111827' }}>
-            Selected file: {String(value)}
+            Uploading...
           </p>
         )}
+
+        {files.length > 0 && (
+          <ul className="space-y-1">
+            {files.map(file => (
+              <li
+                key={file.fileId}
+                className="flex items-center justify-between text-sm border border-gray-200 rounded-md px-3 py-1.5"
+                style={{ color: themeColors?.textColor || '#111827' }}
+              >
+                <span className="truncate">
+                  {file.name} <span className="text-xs opacity-70">({formatFileSize(file.size)})</span>
+                </span>
+                {!disabled && (
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(file.fileId)}
+                    className="ml-3 text-xs text-red-600 hover:text-red-700"
+                    aria-label={`Remove ${file.name}`}
+                  >
+                    Remove
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
 
-      {error && (
+      {displayError && (
         <p id={`error-${question.id}`} className="text-sm text-red-600" role="alert">
-          {error}
+          {displayError}
         </p>
       )}
     </div>
@@ -79,4 +194,3 @@ const FileUploadQuestion: React.FC<QuestionProps> = ({
 };
 
 export default FileUploadQuestion;
-
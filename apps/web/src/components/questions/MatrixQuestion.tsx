@@ -0,0 +1,118 @@
+import React from 'react';
+import type { QuestionProps } from './QuestionRenderer';
+import { getMatrixColumns, getMatrixRows, isMatrixAnswer, isMatrixMultiSelect } from '@shared/matrix';
+import type { MatrixAnswer } from '@shared/matrix';
+
+const MatrixQuestion: React.FC<QuestionProps> = ({
+  question,
+  value,
+  onChange,
+  error,
+  disabled = false,
+  themeColors,
+}) => {
+  const rows = getMatrixRows(question);
+  const columns = getMatrixColumns(question);
+  const multiSelect = isMatrixMultiSelect(question);
+  const answer: MatrixAnswer = isMatrixAnswer(value) ? value : {};
+
+  const isSelected = (rowId: string, columnId: string) => {
+    const selected = answer[rowId];
+    return Array.isArray(selected) ? selected.includes(columnId) : selected === columnId;
+  };
+
+  const handleChange = (rowId: string, columnId: string, checked: boolean) => {
+    if (disabled) return;
+
+    const next: MatrixAnswer = { ...answer };
+    if (multiSelect) {
+      const current = Array.isArray(answer[rowId]) ? (answer[rowId] as string[]) : [];
+      const selected = checked ? [...current, columnId] : current.filter(id => id !== columnId);
+      next[rowId] = selected;
+      // Rows without a selection are left out so "every row answered" stays meaningful
+      if (selected.length === 0) delete next[rowId];
+    } else {
+      next[rowId] = columnId;
+    }
+    onChange?.(next);
+  };
+
+  const mutedColor = themeColors?.textColor ? `${themeColors.textColor}80` : '#374151';
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-medium" style={{ color: themeColors?.textColor || '#111827' }}>
+          {question.title}
+          {question.required && <span className="text-red-500 ml-1">*</span>}
+        </h3>
+        {question.description && (
+          <p className="text-sm mt-1" style={{ color: mutedColor }}>
+            {question.description}
+          </p>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm border-collapse" aria-labelledby={`question-${question.id}`}>
+          <caption id={`question-${question.id}`} className="sr-only">
+            {question.title}
+          </caption>
+          <thead>
+            <tr>
+              <th scope="col" className="p-2" />
+              {columns.map((column) => (
+                <th
+                  key={column.id}
+                  scope="col"
+                  className="p-2 text-center font-normal text-xs sm:text-sm"
+                  style={{ color: mutedColor }}
+                >
+                  {column.text}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.id} className="border-t border-gray-200 dark:border-gray-700">
+                <th
+                  scope="row"
+                  className="p-2 text-left font-normal"
+                  style={{ color: themeColors?.textColor || '#111827' }}
+                >
+                  {row.text}
+                </th>
+                {columns.map((column) => (
+                  <td key={column.id} className="p-2 text-center">
+                    <input
+                      type={multiSelect ? 'checkbox' : 'radio'}
+                      name={`${question.id}-${row.id}`}
+                      checked={isSelected(row.id, column.id)}
+                      onChange={(e) => handleChange(row.id, column.id, e.target.checked)}
+                      disabled={disabled}
+                      className={`w-4 h-4 text-[var(--color-primary)] border-gray-300 ${multiSelect ? 'rounded' : ''} ${
+                        disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'
+                      }`}
+                      style={{ accentColor: themeColors?.primaryColor }}
+                      aria-label={`${row.text}: ${column.text}`}
+                      aria-describedby={error ? `error-${question.id}` : undefined}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {error && (
+        <p id={`error-${question.id}`} className="text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default MatrixQuestion;
@@ -0,0 +1,89 @@
+import React from 'react';
+import type { QuestionProps } from './QuestionRenderer';
+import { NPS_MIN, NPS_MAX, NPS_DEFAULT_LABELS } from '@shared/nps';
+
+const NpsQuestion: React.FC<QuestionProps> = ({
+  question,
+  value,
+  onChange,
+  error,
+  disabled = false,
+  themeColors,
+}) => {
+  const labels = (question.settings as { scaleLabels?: { min?: string; max?: string } })?.scaleLabels;
+  const minLabel = labels?.min || NPS_DEFAULT_LABELS.min;
+  const maxLabel = labels?.max || NPS_DEFAULT_LABELS.max;
+
+  // 0 is a valid answer, so only numbers count as selected
+  const numericValue = typeof value === 'number' ? value : null;
+
+  const handleScoreChange = (score: number) => {
+    if (disabled) return;
+    onChange?.(score);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-medium" style={{ color: themeColors?.textColor || '#111827' }}>
+          {question.title}
+          {question.required && <span className="text-red-500 ml-1">*</span>}
+        </h3>
+        {question.description && (
+          <p className="text-sm mt-2" style={{ color: themeColors?.textColor ? `${themeColors.textColor}80` : '#374151' }}>
+            {question.description}
+          </p>
+        )}
+      </div>
+
+      <fieldset className="p-0 m-0 space-y-2" aria-labelledby={`question-${question.id}`}>
+        <legend id={`question-${question.id}`} className="sr-only">
+          {question.title}
+        </legend>
+        <div className="grid grid-cols-11 gap-1 sm:gap-2">
+          {Array.from({ length: NPS_MAX - NPS_MIN + 1 }, (_, index) => {
+            const score = NPS_MIN + index;
+            const isSelected = numericValue === score;
+
+            return (
+              <button
+                key={score}
+                type="button"
+                onClick={() => handleScoreChange(score)}
+                disabled={disabled}
+                className={`h-10 sm:h-12 rounded-md border-2 text-sm sm:text-base transition-all duration-200 ${
+                  disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:scale-105'
+                } ${isSelected ? 'text-white' : 'border-gray-300 dark:border-gray-600 hover:border-gray-400'}`}
+                style={{
+                  borderColor: isSelected ? (themeColors?.primaryColor || '#3b82f6') : undefined,
+                  backgroundColor: isSelected ? (themeColors?.primaryColor || '#3b82f6') : 'transparent',
+                  color: isSelected ? '#ffffff' : (themeColors?.textColor || '#111827')
+                }}
+                aria-label={`${score} out of ${NPS_MAX}`}
+                aria-pressed={isSelected}
+                title={`${score} out of ${NPS_MAX}`}
+              >
+                {score}
+              </button>
+            );
+          })}
+        </div>
+        <div
+          className="flex justify-between text-xs sm:text-sm"
+          style={{ color: themeColors?.textColor ? `${themeColors.textColor}80` : '#374151' }}
+        >
+          <span>{minLabel}</span>
+          <span className="text-right">{maxLabel}</span>
+        </div>
+      </fieldset>
+
+      {error && (
+        <p id={`error-${question.id}`} className="text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default NpsQuestion;
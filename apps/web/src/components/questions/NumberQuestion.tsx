@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import Input from '../ui/Input';
+import type { QuestionProps } from './QuestionRenderer';
+import { getNumberSettings } from '@shared/numeric';
+
+const describeRange = (min?: number, max?: number): string | null => {
+  if (min !== undefined && max !== undefined) return `Between ${min} and ${max}`;
+  if (min !== undefined) return `At least ${min}`;
+  if (max !== undefined) return `At most ${max}`;
+  return null;
+};
+
+const NumberQuestion: React.FC<QuestionProps> = ({
+  question,
+  value,
+  onChange,
+  error,
+  disabled = false,
+  themeColors,
+}) => {
+  const settings = getNumberSettings(question);
+  // The typed text is kept separately so partial input like "-" or "1." is not lost
+  const [text, setText] = useState(typeof value === 'number' ? String(value) : '');
+  const display = typeof value === 'number' && Number(text) !== value ? String(value) : text;
+
+  const handleChange = (next: string) => {
+    setText(next);
+    const n = Number(next);
+    onChange?.(next.trim() === '' || !Number.isFinite(n) ? '' : n);
+  };
+
+  const hints = [
+    describeRange(settings.min, settings.max),
+    settings.decimals === 0 ? 'Whole numbers only' : `Up to ${settings.decimals} decimal place${settings.decimals === 1 ? '' : 's'}`,
+  ].filter(Boolean);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-medium" style={{ color: themeColors?.textColor || '#111827' }}>
+          {question.title}
+          {question.required && <span className="text-red-500 ml-1">*</span>}
+        </h3>
+        {question.description && (
+          <p className="text-sm mt-1" style={{ color: themeColors?.textColor ? `${themeColors.textColor}80` : '#374151' }}>
+            {question.description}
+          </p>
+        )}
+      </div>
+
+      <div className="flex items-start gap-2">
+        <div className="flex-1">
+          <Input
+            type="number"
+            inputMode={settings.decimals === 0 ? 'numeric' : 'decimal'}
+            value={display}
+            onChange={(e) => handleChange(e.target.value)}
+            min={settings.min}
+            max={settings.max}
+            step={settings.decimals === 0 ? 1 : 10 ** -settings.decimals}
+            placeholder="Enter a number..."
+            disabled={disabled}
+            error={error}
+            aria-labelledby={`question-${question.id}`}
+          />
+        </div>
+        {settings.unit && (
+          <span className="py-2 text-sm" style={{ color: themeColors?.textColor || '#374151' }}>
+            {settings.unit}
+          </span>
+        )}
+      </div>
+
+      <p className="text-xs" style={{ color: themeColors?.textColor ? `${themeColors.textColor}60` : '#6b7280' }}>
+        {hints.join(' · ')}
+      </p>
+    </div>
+  );
+};
+
+export default NumberQuestion;
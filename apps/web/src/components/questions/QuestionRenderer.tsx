@@ -7,11 +7,19 @@ import SliderQuestion from './SliderQuestion';
 import RatingStarQuestion from './RatingStarQuestion';
 import RatingSmileyQuestion from './RatingSmileyQuestion';
 import RatingNumberQuestion from './RatingNumberQuestion';
+import NpsQuestion from './NpsQuestion';
+import MatrixQuestion from './MatrixQuestion';
+import RankingQuestion from './RankingQuestion';
+import ConstantSumQuestion from './ConstantSumQuestion';
 import TextShortQuestion from './TextShortQuestion';
 import TextLongQuestion from './TextLongQuestion';
+import NumberQuestion from './NumberQuestion';
 import DatePickerQuestion from './DatePickerQuestion';
 import FileUploadQuestion from './FileUploadQuestion';
 import EmailQuestion from './EmailQuestion';
+import type { UploadedFileRef } from '../../api-paths/responsesApi';
+import type { MatrixAnswer } from '@shared/matrix';
+import type { ConstantSumAnswer } from '@shared/numeric';
 
 export interface QuestionProps {
   question: {
@@ -27,8 +35,11 @@ export interface QuestionProps {
     }>;
     settings?: (Record<string, unknown> & { backgroundColor?: string; textColor?: string });
   };
-  value?: string | number | boolean | string[] | number[] | Record<string, string>;
-  onChange?: (value: string | number | boolean | string[] | number[] | Record<string, string>) => void;
+  value?: string | number | boolean | string[] | number[] | Record<string, string> | MatrixAnswer | ConstantSumAnswer | UploadedFileRef[];
+  onChange?: (value: string | number | boolean | string[] | number[] | Record<string, string> | MatrixAnswer | ConstantSumAnswer | UploadedFileRef[]) => void;
+  // File upload handlers; without them (e.g. in previews) files are only tracked locally
+  uploadFile?: (file: File) => Promise<UploadedFileRef>;
+  removeFile?: (fileId: string) => Promise<void>;
   error?: string;
   disabled?: boolean;
   themeColors?: {
@@ -65,10 +76,20 @@ const QuestionRenderer: React.FC<QuestionProps> = (props) => {
       return <div style={style}><RatingSmileyQuestion {...props} themeColors={themeColors} /></div>;
     case 'ratingNumber':
       return <div style={style}><RatingNumberQuestion {...props} themeColors={themeColors} /></div>;
+    case 'nps':
+      return <div style={style}><NpsQuestion {...props} themeColors={themeColors} /></div>;
+    case 'matrix':
+      return <div style={style}><MatrixQuestion {...props} themeColors={themeColors} /></div>;
+    case 'ranking':
+      return <div style={style}><RankingQuestion {...props} themeColors={themeColors} /></div>;
+    case 'constantSum':
+      return <div style={style}><ConstantSumQuestion {...props} themeColors={themeColors} /></div>;
     case 'textShort':
       return <div style={style}><TextShortQuestion {...props} themeColors={themeColors} /></div>;
     case 'textLong':
       return <div style={style}><TextLongQuestion {...props} themeColors={themeColors} /></div>;
+    case 'number':
+      return <div style={style}><NumberQuestion {...props} themeColors={themeColors} /></div>;
     case 'datePicker':
       return <div style={style}><DatePickerQuestion {...props} themeColors={themeColors} /></div>;
     case 'fileUpload':
@@ -0,0 +1,170 @@
+import React from 'react';
+import { DndContext, KeyboardSensor, PointerSensor, closestCenter, useSensor, useSensors } from '@dnd-kit/core';
+import type { DragEndEvent } from '@dnd-kit/core';
+import {
+  SortableContext,
+  arrayMove,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import type { QuestionProps } from './QuestionRenderer';
+import { getRankingLength } from '@shared/ranking';
+
+interface RankingItemProps {
+  option: { id: string; text: string };
+  rank: number | null;
+  disabled: boolean;
+  themeColors: QuestionProps['themeColors'];
+}
+
+function SortableRankingItem({ option, rank, disabled, themeColors }: Readonly<RankingItemProps>) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+    id: option.id,
+    disabled,
+  });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.5 : 1,
+    borderColor: rank === null ? undefined : themeColors?.primaryColor || '#3b82f6',
+  };
+
+  return (
+    <li ref={setNodeRef} style={style} className="flex items-center gap-3 p-3 rounded-lg border border-gray-300 dark:border-gray-600 bg-white/50">
+      <button
+        type="button"
+        {...attributes}
+        {...listeners}
+        className={`p-1 text-gray-400 hover:text-gray-600 ${disabled ? 'cursor-not-allowed' : 'cursor-grab active:cursor-grabbing'}`}
+        title="Drag to reorder"
+        aria-label={`Reorder ${option.text}`}
+      >
+        <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+          <path d="M10 9h4V6h3l-5-5-5 5h3v3zm-1 1H6V7l-5 5 5 5v-3h3v-4zm14 2l-5-5v3h-3v4h3v3l5-5zm-9 3h-4v3H7l5 5 5-5h-3v-3z"/>
+          <path d="M0 0h24v24H0z" fill="none"/>
+        </svg>
+      </button>
+      <span
+        className="w-7 h-7 flex items-center justify-center rounded-full text-sm font-medium"
+        style={{
+          backgroundColor: rank === null ? 'transparent' : themeColors?.primaryColor || '#3b82f6',
+          color: rank === null ? (themeColors?.textColor || '#6b7280') : '#ffffff',
+        }}
+      >
+        {rank ?? '–'}
+      </span>
+      <span style={{ color: themeColors?.textColor || '#111827' }}>{option.text}</span>
+    </li>
+  );
+}
+
+const RankingQuestion: React.FC<QuestionProps> = ({
+  question,
+  value,
+  onChange,
+  error,
+  disabled = false,
+  themeColors,
+}) => {
+  const options = question.options || [];
+  const rankedCount = getRankingLength(question);
+  const ranked = Array.isArray(value) ? (value as string[]) : [];
+  const hasAnswer = ranked.length > 0;
+
+  // Ranked options first, in the respondent's order, then the rest in survey order
+  const known = ranked.filter(id => options.some(option => option.id === id));
+  const order = [...known, ...options.map(option => option.id).filter(id => !known.includes(id))];
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 8 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+
+  const commit = (nextOrder: string[]) => {
+    if (disabled) return;
+    onChange?.(nextOrder.slice(0, rankedCount));
+  };
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (!over) return;
+    const oldIndex = order.indexOf(String(active.id));
+    const newIndex = order.indexOf(String(over.id));
+    // Dropping an item in place still confirms the order as the answer
+    commit(oldIndex === newIndex ? order : arrayMove(order, oldIndex, newIndex));
+  };
+
+  const optionById = new Map(options.map(option => [option.id, option]));
+  const mutedColor = themeColors?.textColor ? `${themeColors.textColor}80` : '#374151';
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 id={`question-${question.id}`} className="text-lg font-medium" style={{ color: themeColors?.textColor || '#111827' }}>
+          {question.title}
+          {question.required && <span className="text-red-500 ml-1">*</span>}
+        </h3>
+        {question.description && (
+          <p className="text-sm mt-1" style={{ color: mutedColor }}>
+            {question.description}
+          </p>
+        )}
+        <p className="text-xs mt-1" style={{ color: mutedColor }}>
+          {rankedCount < options.length
+            ? `Drag your top ${rankedCount} to the top of the list.`
+            : 'Drag the options into your order of preference.'}{' '}
+          With a keyboard, press space on a handle, move with the arrow keys and press space again.
+        </p>
+      </div>
+
+      <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+        <SortableContext items={order} strategy={verticalListSortingStrategy}>
+          <ol className="space-y-2" aria-labelledby={`question-${question.id}`} aria-describedby={error ? `error-${question.id}` : undefined}>
+            {order.map((id, index) => {
+              const option = optionById.get(id);
+              if (!option) return null;
+              return (
+                <React.Fragment key={id}>
+                  {index === rankedCount && rankedCount < options.length && (
+                    <li aria-hidden="true" className="pt-2 text-xs uppercase tracking-wide" style={{ color: mutedColor }}>
+                      Not ranked
+                    </li>
+                  )}
+                  <SortableRankingItem
+                    option={option}
+                    rank={hasAnswer && index < rankedCount ? index + 1 : null}
+                    disabled={disabled}
+                    themeColors={themeColors}
+                  />
+                </React.Fragment>
+              );
+            })}
+          </ol>
+        </SortableContext>
+      </DndContext>
+
+      {!hasAnswer && (
+        <button
+          type="button"
+          onClick={() => commit(order)}
+          disabled={disabled}
+          className="text-sm underline disabled:opacity-50"
+          style={{ color: themeColors?.primaryColor || '#3b82f6' }}
+        >
+          Keep this order
+        </button>
+      )}
+
+      {error && (
+        <p id={`error-${question.id}`} className="text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RankingQuestion;
@@ -21,10 +21,10 @@ const SliderQuestion: React.FC<QuestionProps> = ({
     return (question.settings as { scaleStep?: number })?.scaleStep || 1;
   }, [question.settings]);
   
-  // Calculate default value as middle of range
+  // Calculate default value as middle of range, snapped to the step
   const defaultValue = useMemo(() => {
-    return Math.round((min + max) / 2);
-  }, [min, max]);
+    return min + Math.round((max - min) / 2 / step) * step;
+  }, [min, max, step]);
   
   const currentValue = value !== undefined && value !== null ? (value as number) : defaultValue;
 
@@ -8,6 +8,7 @@ import {
   exportSurveyToFile,
   duplicateSurvey,
 } from "../../utils/surveyImportExport";
+import type { SurveyRole } from "@shared/surveyAccess";
 
 interface Survey {
   id: string;
@@ -20,6 +21,7 @@ interface Survey {
   updatedAt: string;
   responseCount?: number;
   locked?: boolean;
+  role?: SurveyRole | null;
 }
 
 const ArchivedSurveys: React.FC = () => {
@@ -0,0 +1,114 @@
+import React, { useRef, useState } from 'react';
+import Input from '../ui/Input';
+
+export interface PipingSuggestion {
+  // Placed between the braces, e.g. `q_123` or `Respondent.name`
+  token: string;
+  label: string;
+}
+
+interface PipingInputProps extends Omit<React.InputHTMLAttributes<HTMLInputElement>, 'value' | 'onChange'> {
+  label?: string;
+  error?: string;
+  helperText?: string;
+  value: string;
+  onChange: (value: string) => void;
+  suggestions: PipingSuggestion[];
+}
+
+// `{{` followed by the part of a token typed so far, right before the caret
+const OPEN_PIPE_PATTERN = /\{\{([^{}|]*)$/;
+
+// Text input that offers earlier answers and respondent fields after typing `{{`
+const PipingInput: React.FC<PipingInputProps> = ({ value, onChange, suggestions, ...props }) => {
+  // Input doesn't forward refs, so the element is captured from its events
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const [query, setQuery] = useState<string | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const matches = query === null
+    ? []
+    : suggestions.filter(s => `${s.token} ${s.label}`.toLowerCase().includes(query.toLowerCase()));
+
+  const updateQuery = (text: string, caret: number | null) => {
+    const open = OPEN_PIPE_PATTERN.exec(text.slice(0, caret ?? text.length));
+    setQuery(open ? open[1] : null);
+    setHighlighted(0);
+  };
+
+  const insert = (suggestion: PipingSuggestion) => {
+    const input = inputRef.current;
+    const caret = input?.selectionStart ?? value.length;
+    const before = value.slice(0, caret).replace(OPEN_PIPE_PATTERN, '');
+    const pipe = `{{${suggestion.token}}}`;
+    onChange(`${before}${pipe}${value.slice(caret)}`);
+    setQuery(null);
+    requestAnimationFrame(() => {
+      input?.focus();
+      input?.setSelectionRange(before.length + pipe.length, before.length + pipe.length);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (matches.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted((highlighted + step + matches.length) % matches.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      insert(matches[highlighted]);
+    } else if (e.key === 'Escape') {
+      setQuery(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Input
+        {...props}
+        value={value}
+        onFocus={(e) => {
+          inputRef.current = e.target;
+        }}
+        onChange={(e) => {
+          inputRef.current = e.target;
+          onChange(e.target.value);
+          updateQuery(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setQuery(null)}
+        role="combobox"
+        aria-expanded={matches.length > 0}
+        aria-autocomplete="list"
+      />
+      {matches.length > 0 && (
+        <ul
+          role="listbox"
+          className="absolute z-20 mt-1 w-full max-h-48 overflow-auto rounded-md border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 shadow-lg text-sm"
+        >
+          {matches.map((suggestion, index) => (
+            <li
+              key={suggestion.token}
+              role="option"
+              aria-selected={index === highlighted}
+              // Keeps focus in the input so the caret position is still known
+              onMouseDown={(e) => {
+                e.preventDefault();
+                insert(suggestion);
+              }}
+              className={`px-3 py-2 cursor-pointer ${
+                index === highlighted ? 'bg-gray-100 dark:bg-gray-700' : ''
+              } text-gray-900 dark:text-white`}
+            >
+              {suggestion.label}
+              <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{`{{${suggestion.token}}}`}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PipingInput;
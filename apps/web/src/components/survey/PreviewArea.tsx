@@ -2,19 +2,22 @@ import { useState, useCallback, useEffect, useMemo } from 'react';
 import Card from '../ui/Card';
 import Button from '../ui/Button';
 import QuestionRenderer, { type QuestionProps as RendererQuestionProps } from '../questions/QuestionRenderer';
-import { evaluateCondition } from '../../utils/visibilityHelpers';
-interface BranchingRule {
-  questionId: string;
-  condition: {
-    operator: 'equals' | 'contains' | 'greater_than' | 'less_than';
-    value: string | number | boolean;
-  };
-  action: {
-    type: 'skip_to_page' | 'end_survey';
-    targetPageIndex?: number;
-  };
-  logical?: 'AND' | 'OR';
-}
+import {
+  isQuestionVisible as isQuestionVisibleForAnswers,
+  resolveBranching,
+  type BranchingRule,
+  type RuleNode,
+} from '@shared/ruleEngine';
+import { isMatrixComplete } from '@shared/matrix';
+import { isConstantSumComplete } from '@shared/numeric';
+import { buildPipingContext, pipeQuestion, pipeText } from '@shared/piping';
+import { resolveHiddenFieldValues, withHiddenFieldAnswers, type HiddenFieldDefinition } from '@shared/hiddenFields';
+import {
+  evaluateComputedVariables,
+  withComputedValues,
+  type ComputedVariableDefinition,
+} from '@shared/computedVariables';
+import { findLoopBlock, getAllLoopItems, getLoopBlocks, getLoopItems, type LoopSettings } from '@shared/loops';
 
 interface Question {
   id: string;
@@ -28,16 +31,18 @@ interface Question {
     value?: string;
   }>;
   settings?: Record<string, unknown> & {
-    visibleWhen?: BranchingRule[];
-    visibilityRules?: BranchingRule[];
+    visibleWhen?: RuleNode[];
+    visibilityRules?: RuleNode[];
   };
-  visibleWhen?: BranchingRule[];
-  visibilityRules?: BranchingRule[];
+  visibleWhen?: RuleNode[];
+  visibilityRules?: RuleNode[];
 }
 
 interface SurveyPage {
   questions: Question[];
+  branching?: BranchingRule[];
   backgroundColor?: string;
+  loop?: LoopSettings;
 }
 
 interface Survey {
@@ -49,6 +54,8 @@ interface Survey {
   backgroundColor?: string;
   textColor?: string;
   slug?: string;
+  hiddenFields?: HiddenFieldDefinition[];
+  computedVariables?: ComputedVariableDefinition[];
 }
 
 interface PreviewAreaProps {
@@ -68,6 +75,10 @@ export default function PreviewArea({
   const [currentPageIndex, setCurrentPageIndex] = useState(activePageIndex);
   const [previewResponsesState, setPreviewResponsesState] = useState<Record<string, RendererQuestionProps['value'] | undefined>>({});
   const [pagesVisited, setPagesVisited] = useState<number[]>([activePageIndex]);
+  // Pages in the order they were reached, so Previous undoes branching jumps
+  const [pageHistory, setPageHistory] = useState<number[]>([activePageIndex]);
+  const [startQuestionId, setStartQuestionId] = useState<string | undefined>();
+  const [branchMessages, setBranchMessages] = useState<string[]>([]);
 
   // Initialize preview responses from parent
   useEffect(() => {
@@ -78,6 +89,9 @@ export default function PreviewArea({
   useEffect(() => {
     setCurrentPageIndex(activePageIndex);
     setPagesVisited([activePageIndex]);
+    setPageHistory([activePageIndex]);
+    setStartQuestionId(undefined);
+    setBranchMessages([]);
   }, [activePageIndex]);
 
   // Add unique keys to pages to help React with rendering
@@ -92,115 +106,96 @@ export default function PreviewArea({
     return 'bg-current opacity-20';
 };
 
-  // Helper: extract visibility rules from a question
-  const getVisibilityRules = useCallback((question: Question): BranchingRule[] => {
-    const settings = (question.settings ?? {}) as Record<string, unknown>;
-    const fromSettings = (settings.visibleWhen ?? (settings.visibility as any)?.rules) as BranchingRule[] | undefined;
-    return (
-      question.visibilityRules ??
-      question.visibleWhen ??
-      fromSettings ??
-      []
-    );
-  }, []);
+  // There is no link in the builder, so hidden fields take their default values
+  const hiddenValues = useMemo(() => resolveHiddenFieldValues(survey.hiddenFields ?? []), [survey.hiddenFields]);
+  const answersWithHidden = useMemo(
+    () => withHiddenFieldAnswers(previewResponsesState, hiddenValues),
+    [previewResponsesState, hiddenValues]
+  );
+  const ruleAnswers = useMemo(
+    () => withComputedValues(answersWithHidden, survey.computedVariables ?? []),
+    [answersWithHidden, survey.computedVariables]
+  );
+  const computedValues = useMemo(
+    () => evaluateComputedVariables(survey.computedVariables ?? [], answersWithHidden),
+    [answersWithHidden, survey.computedVariables]
+  );
 
   // Helper: is a question visible under current responses?
   const isQuestionVisible = useCallback(
-    (question: Question): boolean => {
-      const rules = getVisibilityRules(question);
-      if (!rules?.length) return true;
-
-      const anyDependencyAnswered = rules.some(r => previewResponsesState[r.questionId] !== undefined);
-      if (!anyDependencyAnswered) return false;
-
-      // Evaluate all rules as a single flat list (no groups)
-      return rules.reduce((acc, rule, idx) => {
-        const resp = previewResponsesState[rule.questionId];
-        const conditionMet = resp !== undefined && evaluateCondition(rule.condition.operator, rule.condition.value, resp);
-
-        if (idx === 0) return conditionMet;
-
-        const prevLogical = (rules[idx - 1].logical as 'AND' | 'OR') ?? 'OR';
-        return prevLogical === 'AND' ? acc && conditionMet : acc || conditionMet;
-      }, false);
-    },
-    [getVisibilityRules, previewResponsesState]
+    (question: Question): boolean => isQuestionVisibleForAnswers(question, ruleAnswers),
+    [ruleAnswers]
   );
 
-  // Get visible questions for current page
+  // Get visible questions for current page; skip_to_question hides the ones before its target
   const getVisibleQuestions = useCallback(
-    (page: SurveyPage): Question[] => page.questions.filter(isQuestionVisible),
-    [isQuestionVisible]
+    (page: SurveyPage): Question[] => {
+      const startIndex = startQuestionId ? page.questions.findIndex(q => q.id === startQuestionId) : -1;
+      return page.questions.slice(Math.max(startIndex, 0)).filter(isQuestionVisible);
+    },
+    [isQuestionVisible, startQuestionId]
   );
 
   // Handle response changes
   const handleResponseChange = useCallback(
     (questionId: string, value: RendererQuestionProps['value'] | undefined) => {
-      const newResponses = { ...previewResponsesState, [questionId]: value };
-      setPreviewResponsesState(newResponses);
+      setPreviewResponsesState(prev => ({ ...prev, [questionId]: value }));
       onPreviewResponseChange(questionId, value);
-
-      const pageData = survey.pages[currentPageIndex];
-      const question = pageData?.questions.find(q => q.id === questionId);
-      if (!question) return;
-
-      const rules = getVisibilityRules(question);
-      const triggeredRule = rules.find(
-        rule =>
-          rule.questionId === questionId &&
-          value !== undefined &&
-          evaluateCondition(rule.condition.operator, rule.condition.value, value)
-      );
-      if (!triggeredRule) return;
-
-      switch (triggeredRule.action.type) {
-        case 'skip_to_page': {
-          const target = Math.min(
-            Math.max(0, triggeredRule.action.targetPageIndex ?? 0),
-            survey.pages.length - 1
-          );
-          setCurrentPageIndex(target);
-          setPagesVisited(prev => [...prev, target]);
-          break;
-        }
-        case 'end_survey': {
-          const lastPage = survey.pages.length - 1;
-          setCurrentPageIndex(lastPage);
-          setPagesVisited(prev => [...prev, lastPage]);
-          break;
-        }
-      }
     },
-    [
-      previewResponsesState,
-      onPreviewResponseChange,
-      currentPageIndex,
-      survey.pages,
-      getVisibilityRules,
-      evaluateCondition,
-    ]
+    [onPreviewResponseChange]
+  );
+
+  // Pages in a loop are shown once here, for the first item chosen (or the first possible item)
+  const loopItem = useMemo(() => {
+    const block = findLoopBlock(getLoopBlocks(survey.pages), currentPageIndex);
+    if (!block) return undefined;
+    return getLoopItems(block.loop, survey.pages, ruleAnswers)[0] ?? getAllLoopItems(block.loop, survey.pages)[0];
+  }, [survey.pages, currentPageIndex, ruleAnswers]);
+
+  const pipingContext = useMemo(
+    () =>
+      buildPipingContext(survey.pages, previewResponsesState, {
+        hidden: hiddenValues,
+        computed: computedValues,
+        loopItem: loopItem?.text,
+      }),
+    [survey.pages, previewResponsesState, hiddenValues, computedValues, loopItem]
   );
 
-// Navigation functions
-const goToNextPage = useCallback(() => {
-  const nextPage = Math.min(currentPageIndex + 1, survey.pages.length - 1);
-  if (nextPage !== currentPageIndex) {
+  // Where the current page's branching rules lead with the current answers
+  const branchOutcome = useMemo(
+    () => resolveBranching(survey.pages, currentPageIndex, ruleAnswers),
+    [survey.pages, currentPageIndex, ruleAnswers]
+  );
+
+  // Navigation functions
+  const goToNextPage = useCallback(() => {
+    const nextPage = branchOutcome.nextPageIndex;
+    if (nextPage === null) return;
     setCurrentPageIndex(nextPage);
     setPagesVisited(prev => [...prev, nextPage]);
-  }
-}, [currentPageIndex, survey.pages.length]);
-
-const goToPreviousPage = useCallback(() => {
-  const prevPage = Math.max(currentPageIndex - 1, 0);
-  if (prevPage !== currentPageIndex) {
-    setCurrentPageIndex(prevPage);
-    setPagesVisited(prev => [...prev, prevPage]);
-  }
-}, [currentPageIndex]);
+    setPageHistory(prev => [...prev, nextPage]);
+    setStartQuestionId(branchOutcome.startQuestionId);
+    setBranchMessages(branchOutcome.messages);
+  }, [branchOutcome]);
+
+  const previousPageIndex = pageHistory.length > 1 ? pageHistory[pageHistory.length - 2] : currentPageIndex - 1;
+
+  const goToPreviousPage = useCallback(() => {
+    if (previousPageIndex < 0) return;
+    setCurrentPageIndex(previousPageIndex);
+    setPagesVisited(prev => [...prev, previousPageIndex]);
+    setPageHistory(prev => (prev.length > 1 ? prev.slice(0, -1) : [previousPageIndex]));
+    setStartQuestionId(undefined);
+    setBranchMessages([]);
+  }, [previousPageIndex]);
 
   const resetPreview = useCallback(() => {
     setCurrentPageIndex(activePageIndex);
     setPagesVisited([activePageIndex]);
+    setPageHistory([activePageIndex]);
+    setStartQuestionId(undefined);
+    setBranchMessages([]);
     setPreviewResponsesState({});
     // Reset parent responses too
     for (const key of Object.keys(previewResponsesState)) {
@@ -229,9 +224,15 @@ const goToPreviousPage = useCallback(() => {
 
   const currentPageData = survey.pages[currentPageIndex] || { questions: [], backgroundColor: undefined };
   const visibleQuestions = getVisibleQuestions(currentPageData);
-  const isFirstPage = currentPageIndex === 0;
-  const isLastPage = currentPageIndex === survey.pages.length - 1;
-  const canGoNext = visibleQuestions.length > 0 && visibleQuestions.every(q => !q.required || previewResponsesState[q.id]);
+  const isFirstPage = previousPageIndex < 0;
+  const isLastPage = branchOutcome.nextPageIndex === null;
+  // Matrix questions need every row answered and constant-sum questions the full total
+  const isAnswered = (q: Question) => {
+    if (q.type === 'matrix') return isMatrixComplete(q, previewResponsesState[q.id]);
+    if (q.type === 'constantSum') return isConstantSumComplete(q, previewResponsesState[q.id]);
+    return !!previewResponsesState[q.id] || previewResponsesState[q.id] === 0;
+  };
+  const canGoNext = visibleQuestions.length > 0 && visibleQuestions.every(q => !q.required || isAnswered(q));
 
   return (
     <div id="builder-preview-root" className="h-full flex flex-col bg-gray-50">
@@ -380,9 +381,18 @@ const goToPreviousPage = useCallback(() => {
                 </div>
                 <p className="text-xs opacity-70 mt-1" style={{ color: survey.textColor || '#111827' }}>
                   Page {currentPageIndex + 1} of {survey.pages.length}
+                  {loopItem && <> &middot; {loopItem.text}</>}
                 </p>
               </div>
 
+              {branchMessages.length > 0 && (
+                <div className="mb-4 rounded-md border border-blue-200 bg-blue-50 px-3 py-2 text-sm text-blue-900">
+                  {branchMessages.map(message => (
+                    <p key={message}>{pipeText(message, pipingContext)}</p>
+                  ))}
+                </div>
+              )}
+
               {/* Questions */}
               {visibleQuestions.length === 0 ? (
                 <Card className="question-card border border-gray-200" backgroundColor="#ffffff">
@@ -411,7 +421,7 @@ const goToPreviousPage = useCallback(() => {
                     >
                       <div className="p-3">
                         <QuestionRenderer
-                          question={question}
+                          question={pipeQuestion(question, pipingContext)}
                           value={previewResponsesState[question.id]}
                           onChange={(value) => handleResponseChange(question.id, value)}
                           disabled={false}
@@ -1,6 +1,22 @@
 import React, { useState, useEffect } from 'react';
 import Input from '../ui/Input';
+import TextArea from '../ui/TextArea';
+import Select from '../ui/Select';
 import Button from '../ui/Button';
+import PipingInput, { type PipingSuggestion } from './PipingInput';
+import { NPS_DEFAULT_LABELS } from '@shared/nps';
+import { getMatrixRows } from '@shared/matrix';
+import { CONSTANT_SUM_DEFAULT_TOTAL } from '@shared/numeric';
+import { QUIZ_QUESTION_TYPES, getQuestionPoints, getQuizSettings } from '@shared/quiz';
+import { RESPONDENT_PIPE_FIELDS, validatePiping } from '@shared/piping';
+import { getHiddenFieldLabel, getHiddenFields, hiddenFieldKey, type HiddenFieldDefinition } from '@shared/hiddenFields';
+import {
+  computedVariableKey,
+  getComputedVariableLabel,
+  getComputedVariables,
+  type ComputedVariableDefinition,
+} from '@shared/computedVariables';
+import { LOOP_ITEM_PIPE_FIELD, LOOP_PIPE_PREFIX, findLoopBlock, getLoopBlocks, type LoopSettings } from '@shared/loops';
 
 interface Question {
   id: string;
@@ -18,6 +34,18 @@ interface Question {
     scaleMin?: number;
     scaleMax?: number;
     scaleStep?: number;
+    scaleLabels?: { min?: string; max?: string };
+    rows?: Array<{ id: string; text: string }>;
+    multiSelect?: boolean;
+    rankTopN?: number;
+    sumTotal?: number;
+    minValue?: number;
+    maxValue?: number;
+    decimals?: number;
+    unit?: string;
+    correctAnswer?: string | string[] | number;
+    points?: number;
+    explanation?: string;
   };
 }
 
@@ -30,6 +58,51 @@ interface QuestionSettingsPanelProps {
   onEditVisibility: (questionId: string) => void;
 }
 
+const RESPONDENT_FIELD_LABELS: Record<string, string> = {
+  name: 'Respondent name',
+  email: 'Respondent email',
+  employeeId: 'Respondent employee ID',
+};
+
+// Questions before this one, numbered across the survey, then the respondent's profile, hidden fields
+// and computed variables
+const getPipingSuggestions = (
+  survey: {
+    pages?: Array<{ questions?: Question[]; loop?: LoopSettings }>;
+    hiddenFields?: HiddenFieldDefinition[];
+    computedVariables?: ComputedVariableDefinition[];
+  } | null,
+  questionId: string
+): PipingSuggestion[] => {
+  const pages = survey?.pages ?? [];
+  const questions = pages.flatMap((page, pageIndex) => (page.questions ?? []).map(question => ({ question, pageIndex })));
+  const index = questions.findIndex(({ question }) => question.id === questionId);
+  // Questions in a loop can only be piped within it; the loop item only on its pages
+  const loopBlocks = getLoopBlocks(pages);
+  const ownBlock = index === -1 ? undefined : findLoopBlock(loopBlocks, questions[index].pageIndex);
+  return [
+    ...questions
+      .slice(0, Math.max(index, 0))
+      .map(({ question, pageIndex }, i) => ({ question, pageIndex, number: i + 1 }))
+      .filter(({ pageIndex }) => {
+        const block = findLoopBlock(loopBlocks, pageIndex);
+        return !block || block === ownBlock;
+      })
+      .map(({ question, number }) => ({ token: question.id, label: `Q${number}: ${question.title || 'Untitled question'}` })),
+    ...(ownBlock ? [{ token: `${LOOP_PIPE_PREFIX}${LOOP_ITEM_PIPE_FIELD}`, label: 'Loop item' }] : []),
+    ...RESPONDENT_PIPE_FIELDS.map(field => ({ token: `Respondent.${field}`, label: RESPONDENT_FIELD_LABELS[field] })),
+    ...getHiddenFields(survey ?? {}).map(field => ({ token: hiddenFieldKey(field.name), label: `Hidden field: ${getHiddenFieldLabel(field)}` })),
+    ...getComputedVariables(survey ?? {}).map(variable => ({
+      token: computedVariableKey(variable.name),
+      label: `Computed: ${getComputedVariableLabel(variable)}`,
+    })),
+  ];
+};
+
+// Generate a secure random ID using Web Crypto API (works in browser)
+const createRandomId = () =>
+  Array.from(globalThis.crypto.getRandomValues(new Uint8Array(4))).map(b => b.toString(16).padStart(2, '0')).join('');
+
 const QuestionSettingsPanel: React.FC<QuestionSettingsPanelProps> = ({
   selectedQuestion,
   survey,
@@ -38,8 +111,9 @@ const QuestionSettingsPanel: React.FC<QuestionSettingsPanelProps> = ({
   setSelectedQuestion,
   onEditVisibility,
 }) => {
-  // Check if this is the first question of the survey
-  const isFirstQuestion = activePageIndex === 0 && survey?.pages?.[0]?.questions?.[0]?.id === selectedQuestion?.id;
+  // Check if this is the first question of the survey; it can still depend on hidden fields and computed variables
+  const isFirstQuestion = activePageIndex === 0 && survey?.pages?.[0]?.questions?.[0]?.id === selectedQuestion?.id
+    && getHiddenFields(survey ?? {}).length === 0 && getComputedVariables(survey ?? {}).length === 0;
   
   const updateQuestion = (updates: Partial<Question>) => {
     if (!survey || !selectedQuestion) return;
@@ -69,12 +143,7 @@ const QuestionSettingsPanel: React.FC<QuestionSettingsPanelProps> = ({
   const addOption = () => {
     if (!selectedQuestion) return;
 
-    // Generate a secure random ID using Web Crypto API (works in browser)
-    const randomId = Array.from(
-      globalThis.crypto.getRandomValues(new Uint8Array(4))
-    ).map(b => b.toString(16).padStart(2, '0')).join('');
-    
-    const newOption = { id: `option-${randomId}`, text: '' };
+    const newOption = { id: `option-${createRandomId()}`, text: '' };
     const updatedOptions = [...(selectedQuestion.options || []), newOption];
     updateQuestion({ options: updatedOptions });
   };
@@ -82,6 +151,16 @@ const QuestionSettingsPanel: React.FC<QuestionSettingsPanelProps> = ({
   const removeOption = (optionId: string) => {
     if (!selectedQuestion) return;
     const updatedOptions = selectedQuestion.options?.filter((o: any) => o.id !== optionId) || [];
+    // A removed option can no longer be the quiz answer
+    const correctAnswer = selectedQuestion.settings?.correctAnswer;
+    if (correctAnswer === optionId || (Array.isArray(correctAnswer) && correctAnswer.includes(optionId))) {
+      const remaining = Array.isArray(correctAnswer) ? correctAnswer.filter(id => id !== optionId) : [];
+      updateQuestion({
+        options: updatedOptions,
+        settings: { ...selectedQuestion.settings, correctAnswer: remaining.length > 0 ? remaining : undefined },
+      });
+      return;
+    }
     updateQuestion({ options: updatedOptions });
   };
 
@@ -100,20 +179,31 @@ const QuestionSettingsPanel: React.FC<QuestionSettingsPanelProps> = ({
     );
   }
 
+  const pipingSuggestions = getPipingSuggestions(survey, selectedQuestion.id);
+  const pipingIssue = validatePiping(
+    survey?.pages ?? [],
+    getHiddenFields(survey ?? {}).map(field => field.name),
+    getComputedVariables(survey ?? {}).map(variable => variable.name)
+  ).find(issue => issue.questionId === selectedQuestion.id);
+
   return (
     <div className="space-y-4">
-      <Input
+      <PipingInput
         label="Question Title"
         value={selectedQuestion.title}
-        onChange={(e) => updateQuestion({ title: e.target.value })}
+        onChange={(title) => updateQuestion({ title })}
         placeholder="Enter question"
+        suggestions={pipingSuggestions}
+        error={pipingIssue?.message}
+        helperText="Type {{ to insert an earlier answer"
       />
       
-      <Input
+      <PipingInput
         label="Help Text"
         value={selectedQuestion.description || ''}
-        onChange={(e) => updateQuestion({ description: e.target.value })}
+        onChange={(description) => updateQuestion({ description })}
         placeholder="Optional help text"
+        suggestions={pipingSuggestions}
       />
       
       <label className="flex items-center gap-2">
@@ -133,8 +223,13 @@ const QuestionSettingsPanel: React.FC<QuestionSettingsPanelProps> = ({
         addOption={addOption}
         removeOption={removeOption}
         updateOption={updateOption}
+        pipingSuggestions={pipingSuggestions}
       />
 
+      {getQuizSettings(survey ?? {}).enabled && (QUIZ_QUESTION_TYPES as readonly string[]).includes(selectedQuestion.type) && (
+        <QuizAnswerSettings question={selectedQuestion} updateQuestionSettings={updateQuestionSettings} />
+      )}
+
       <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
         <Button
           variant="outline"
@@ -155,12 +250,103 @@ const QuestionSettingsPanel: React.FC<QuestionSettingsPanelProps> = ({
   );
 };
 
+interface QuizAnswerSettingsProps {
+  question: Question;
+  updateQuestionSettings: (settings: Record<string, unknown>) => void;
+}
+
+// Correct answer, points and explanation of a question in a quiz
+const QuizAnswerSettings: React.FC<QuizAnswerSettingsProps> = ({ question, updateQuestionSettings }) => {
+  const options = question.options || [];
+  const correctAnswer = question.settings?.correctAnswer;
+  const selected = Array.isArray(correctAnswer) ? correctAnswer : [];
+
+  const toggleCorrectOption = (optionId: string, checked: boolean) => {
+    const next = checked ? [...selected, optionId] : selected.filter(id => id !== optionId);
+    // Kept in option order so the feedback lists answers the way the question does
+    const ordered = options.map(option => option.id).filter(id => next.includes(id));
+    updateQuestionSettings({ correctAnswer: ordered.length > 0 ? ordered : undefined });
+  };
+
+  let answerField: React.ReactNode;
+  if (question.type === 'number') {
+    answerField = (
+      <Input
+        type="number"
+        label="Correct Answer"
+        value={typeof correctAnswer === 'number' ? correctAnswer : ''}
+        placeholder="Not scored"
+        onChange={(e) => {
+          const n = Number.parseFloat(e.target.value);
+          updateQuestionSettings({ correctAnswer: Number.isFinite(n) ? n : undefined });
+        }}
+      />
+    );
+  } else if (question.type === 'multiChoice') {
+    answerField = (
+      <fieldset className="space-y-1">
+        <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Correct Answers (all must be selected)
+        </legend>
+        {options.map((option, index) => (
+          <label key={option.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={selected.includes(option.id)}
+              onChange={(e) => toggleCorrectOption(option.id, e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300 dark:border-gray-600"
+            />
+            {option.text || `Option ${index + 1}`}
+          </label>
+        ))}
+      </fieldset>
+    );
+  } else {
+    answerField = (
+      <Select
+        label="Correct Answer"
+        value={typeof correctAnswer === 'string' ? correctAnswer : ''}
+        onChange={(e) => updateQuestionSettings({ correctAnswer: e.target.value || undefined })}
+        options={[
+          { value: '', label: 'Not scored' },
+          ...options.map((option, index) => ({ value: option.id, label: option.text || `Option ${index + 1}` })),
+        ]}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+      <h4 className="text-sm font-semibold text-gray-900 dark:text-white">Quiz</h4>
+      {answerField}
+      <Input
+        type="number"
+        label="Points"
+        value={getQuestionPoints(question)}
+        min={0}
+        onChange={(e) => {
+          const points = Number.parseFloat(e.target.value);
+          updateQuestionSettings({ points: Number.isFinite(points) && points >= 0 ? points : undefined });
+        }}
+      />
+      <TextArea
+        label="Explanation (optional)"
+        value={question.settings?.explanation ?? ''}
+        placeholder="Shown with the correct answer after submitting"
+        onChange={(e) => updateQuestionSettings({ explanation: e.target.value || undefined })}
+        rows={2}
+      />
+    </div>
+  );
+};
+
 interface QuestionTypeSettingsProps {
   question: Question;
   updateQuestionSettings: (settings: any) => void;
   addOption: () => void;
   removeOption: (optionId: string) => void;
   updateOption: (index: number, text: string) => void;
+  pipingSuggestions: PipingSuggestion[];
 }
 
 const QuestionTypeSettings: React.FC<QuestionTypeSettingsProps> = ({
@@ -168,9 +354,10 @@ const QuestionTypeSettings: React.FC<QuestionTypeSettingsProps> = ({
   updateQuestionSettings,
   addOption,
   removeOption,
-  updateOption
+  updateOption,
+  pipingSuggestions
 }) => {
-  const isChoiceType = ['singleChoice', 'multiChoice', 'dropdown'].includes(question.type);
+  const isChoiceType = ['singleChoice', 'multiChoice', 'dropdown', 'ranking', 'constantSum'].includes(question.type);
   const isRatingType = ['ratingStar', 'ratingSmiley', 'ratingNumber'].includes(question.type);
   const isSliderType = question.type === 'slider';
   
@@ -210,11 +397,12 @@ const QuestionTypeSettings: React.FC<QuestionTypeSettingsProps> = ({
         </label>
         {question.options?.map((option: any, index: number) => (
           <div key={option.id} className="flex items-center gap-2">
-            <Input
+            <PipingInput
               id="option"
               value={option.text}
-              onChange={(e) => updateOption(index, e.target.value)}
+              onChange={(text) => updateOption(index, text)}
               placeholder={`Option ${index + 1}`}
+              suggestions={pipingSuggestions}
             />
             <Button
               variant="ghost"
@@ -233,6 +421,33 @@ const QuestionTypeSettings: React.FC<QuestionTypeSettingsProps> = ({
         >
           + Add Option
         </Button>
+        {question.type === 'ranking' && (
+          <Input
+            type="number"
+            label="Rank top (optional)"
+            value={question.settings?.rankTopN ?? ''}
+            onChange={(e) => {
+              // An empty or invalid value means every option is ranked
+              const topN = Number.parseInt(e.target.value, 10);
+              updateQuestionSettings({ rankTopN: Number.isInteger(topN) && topN > 0 ? topN : undefined });
+            }}
+            min={1}
+            max={question.options?.length}
+            placeholder={`All ${question.options?.length ?? 0} options`}
+          />
+        )}
+        {question.type === 'constantSum' && (
+          <Input
+            type="number"
+            label="Total to allocate"
+            value={question.settings?.sumTotal ?? CONSTANT_SUM_DEFAULT_TOTAL}
+            onChange={(e) => {
+              const total = Number.parseFloat(e.target.value);
+              updateQuestionSettings({ sumTotal: Number.isFinite(total) && total > 0 ? total : undefined });
+            }}
+            min={1}
+          />
+        )}
       </div>
     );
   }
@@ -284,6 +499,145 @@ const QuestionTypeSettings: React.FC<QuestionTypeSettingsProps> = ({
     );
   }
 
+  if (question.type === 'matrix') {
+    const rows = getMatrixRows(question);
+    const updateRows = (updated: Array<{ id: string; text: string }>) => updateQuestionSettings({ rows: updated });
+
+    return (
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">Rows (statements)</span>
+          {rows.map((row, index) => (
+            <div key={row.id} className="flex items-center gap-2">
+              <Input
+                aria-label={`Statement ${index + 1}`}
+                value={row.text}
+                onChange={(e) => updateRows(rows.map(r => (r.id === row.id ? { ...r, text: e.target.value } : r)))}
+                placeholder={`Statement ${index + 1}`}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => updateRows(rows.filter(r => r.id !== row.id))}
+                className="text-red-600 hover:text-red-800"
+                disabled={rows.length <= 1}
+              >
+                ×
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => updateRows([...rows, { id: `row-${createRandomId()}`, text: '' }])}
+          >
+            + Add Row
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">Columns (scale)</span>
+          {question.options?.map((option, index) => (
+            <div key={option.id} className="flex items-center gap-2">
+              <Input
+                aria-label={`Column ${index + 1}`}
+                value={option.text}
+                onChange={(e) => updateOption(index, e.target.value)}
+                placeholder={`Column ${index + 1}`}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeOption(option.id)}
+                className="text-red-600 hover:text-red-800"
+                disabled={(question.options?.length ?? 0) <= 1}
+              >
+                ×
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={addOption}
+          >
+            + Add Column
+          </Button>
+        </div>
+
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={question.settings?.multiSelect === true}
+            onChange={(e) => updateQuestionSettings({ multiSelect: e.target.checked })}
+            className="h-4 w-4 rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 dark:focus:ring-blue-400"
+          />
+          <span className="text-sm text-gray-700 dark:text-gray-300">Allow several columns per row</span>
+        </label>
+      </div>
+    );
+  }
+
+  if (question.type === 'number') {
+    // Empty bounds leave the answer unbounded
+    const toBound = (value: string) => {
+      const n = Number.parseFloat(value);
+      return Number.isFinite(n) ? n : undefined;
+    };
+    return (
+      <div className="space-y-4">
+        <Input
+          type="number"
+          label="Minimum Value"
+          value={question.settings?.minValue ?? ''}
+          placeholder="No minimum"
+          onChange={(e) => updateQuestionSettings({ minValue: toBound(e.target.value) })}
+        />
+        <Input
+          type="number"
+          label="Maximum Value"
+          value={question.settings?.maxValue ?? ''}
+          placeholder="No maximum"
+          onChange={(e) => updateQuestionSettings({ maxValue: toBound(e.target.value) })}
+        />
+        <Input
+          type="number"
+          label="Decimal Places"
+          value={question.settings?.decimals ?? 0}
+          onChange={(e) => updateQuestionSettings({ decimals: Math.min(Math.max(Number.parseInt(e.target.value || '0', 10), 0), 10) })}
+          min={0}
+          max={10}
+        />
+        <Input
+          label="Unit"
+          value={question.settings?.unit ?? ''}
+          placeholder="e.g. people, USD"
+          onChange={(e) => updateQuestionSettings({ unit: e.target.value })}
+        />
+      </div>
+    );
+  }
+
+  if (question.type === 'nps') {
+    const labels = question.settings?.scaleLabels ?? {};
+    return (
+      <div className="space-y-4">
+        <Input
+          label="Label for 0"
+          value={labels.min ?? ''}
+          placeholder={NPS_DEFAULT_LABELS.min}
+          onChange={(e) => updateQuestionSettings({ scaleLabels: { ...labels, min: e.target.value } })}
+        />
+        <Input
+          label="Label for 10"
+          value={labels.max ?? ''}
+          placeholder={NPS_DEFAULT_LABELS.max}
+          onChange={(e) => updateQuestionSettings({ scaleLabels: { ...labels, max: e.target.value } })}
+        />
+      </div>
+    );
+  }
+
   if (isSliderType) {
     return (
       <div className="space-y-4">
@@ -0,0 +1,253 @@
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import Button from '../ui/Button';
+import type { ConditionOperator, RuleLogical } from '@shared/ruleEngine';
+import { getMatrixRows, isMatrixMultiSelect } from '@shared/matrix';
+import {
+  createCondition,
+  createConditionGroup,
+  getDefaultOperatorForType,
+  getDefaultRowId,
+  getValueInputMax,
+  getValueInputMin,
+  isCountOperator,
+  type RuleCandidateQuestion,
+  type UICondition,
+  type UIConditionGroup,
+} from '../../utils/ruleEditorUtils';
+
+const LOGICAL_OPTIONS = [{ value: 'OR', label: 'OR' }, { value: 'AND', label: 'AND' }];
+
+function getValueInputType(depQ: RuleCandidateQuestion | undefined) {
+  if (!depQ) return 'text';
+  switch (depQ.type) {
+    case 'ratingNumber':
+    case 'ratingStar':
+    case 'ratingSmiley':
+    case 'nps':
+    case 'slider':
+      return 'number';
+    case 'email':
+      return 'email';
+    default:
+      return 'text';
+  }
+}
+
+function getValueOptions(depQ: RuleCandidateQuestion | undefined) {
+  if (!depQ?.options) return null;
+  return depQ.options.map(option => ({
+    value: option.id,
+    label: option.text
+  }));
+}
+
+function getOperatorOptions(depQ: RuleCandidateQuestion | undefined) {
+  const textOps = [
+    { value: 'equals', label: '=' },
+    { value: 'not_equals', label: '!=' },
+    { value: 'contains', label: 'Contains' },
+    { value: 'not_contains', label: 'Not contains' },
+  ];
+
+  const checkboxOps = [
+    { value: 'count_eq', label: 'Count() =' },
+    { value: 'count_gt', label: 'Count() >' },
+    { value: 'count_lt', label: 'Count() <' },
+    { value: 'has_selected', label: 'Has Selected' },
+    { value: 'not_contains', label: 'Not Selected' },
+  ];
+
+  const choiceOps = [
+    { value: 'has_selected', label: 'Has Selected' },
+    { value: 'not_equals', label: 'Not Selected' },
+  ];
+
+  const numberOps = [
+    { value: 'equals', label: '=' },
+    { value: 'not_equals', label: '!=' },
+    { value: 'less_than', label: '<' },
+    { value: 'greater_than', label: '>' },
+  ];
+
+  if (!depQ) return textOps;
+
+  switch (depQ.type) {
+    case 'textShort':
+    case 'textLong':
+    case 'email':
+      return textOps;
+    case 'singleChoice':
+    case 'dropdown':
+      return choiceOps;
+    case 'multiChoice':
+      return checkboxOps;
+    case 'ranking':
+      // The answer lists the ranked options, so "has selected" means "ranked in the top N"
+      return checkboxOps;
+    case 'matrix':
+      // Row answers behave like a single or multiple choice between the columns
+      return isMatrixMultiSelect(depQ) ? checkboxOps : choiceOps;
+    case 'ratingNumber':
+    case 'ratingStar':
+    case 'ratingSmiley':
+    case 'nps':
+    case 'slider':
+    case 'number':
+    case 'computed':
+      return numberOps;
+    default:
+      return textOps;
+  }
+}
+
+interface RuleConditionsEditorProps {
+  readonly groups: UIConditionGroup[];
+  readonly candidateQuestions: RuleCandidateQuestion[];
+  readonly onChange: (groups: UIConditionGroup[]) => void;
+}
+
+export default function RuleConditionsEditor({ groups, candidateQuestions, onChange }: RuleConditionsEditorProps) {
+  const getQuestionById = (id: string | undefined): RuleCandidateQuestion | undefined =>
+    candidateQuestions.find(q => q.id === id);
+
+  function updateGroup(groupIndex: number, updates: Partial<UIConditionGroup>) {
+    onChange(groups.map((g, gi) => (gi === groupIndex ? { ...g, ...updates } : g)));
+  }
+
+  function updateCondition(groupIndex: number, conditionIndex: number, updates: Partial<UICondition>) {
+    const conditions = groups[groupIndex].conditions.map((c, ci) =>
+      ci === conditionIndex ? { ...c, ...updates } : c
+    );
+    updateGroup(groupIndex, { conditions });
+  }
+
+  function addCondition(groupIndex: number) {
+    updateGroup(groupIndex, { conditions: [...groups[groupIndex].conditions, createCondition(candidateQuestions)] });
+  }
+
+  function removeCondition(groupIndex: number, conditionIndex: number) {
+    const conditions = groups[groupIndex].conditions.filter((_, ci) => ci !== conditionIndex);
+    if (conditions.length === 0) {
+      onChange(groups.filter((_, gi) => gi !== groupIndex));
+      return;
+    }
+    updateGroup(groupIndex, { conditions });
+  }
+
+  const totalConditions = groups.reduce((sum, g) => sum + g.conditions.length, 0);
+
+  return (
+    <div className="space-y-3">
+      {groups.map((group, groupIndex) => (
+        <div key={group.id} className="space-y-3">
+          <div className={groups.length > 1 ? 'space-y-3 rounded-md border border-gray-200 dark:border-gray-700 p-3' : 'space-y-3'}>
+            {group.conditions.map((cond, condIndex) => {
+              const depQ = getQuestionById(cond.questionId);
+              const valueOptions = getValueOptions(depQ);
+              const valueInputType = getValueInputType(depQ);
+              const valueInputMin = getValueInputMin(depQ);
+              const valueInputMax = getValueInputMax(depQ);
+              const ops = getOperatorOptions(depQ);
+              return (
+                <div key={cond.id} className="grid grid-cols-1 md:grid-cols-12 gap-3 items-end">
+                  <div className="md:col-span-3">
+                    <Select
+                      label={condIndex === 0 ? 'Based on question' : 'And also based on'}
+                      options={candidateQuestions.map(q => ({ value: q.id, label: q.title }))}
+                      value={cond.questionId}
+                      onChange={(e) => {
+                        const nextQ = getQuestionById(e.target.value);
+                        const nextOp = getDefaultOperatorForType(nextQ?.type);
+                        updateCondition(groupIndex, condIndex, {
+                          questionId: e.target.value,
+                          rowId: getDefaultRowId(nextQ),
+                          operator: nextOp,
+                          value: '',
+                        });
+                      }}
+                    />
+                    {depQ?.type === 'matrix' && (
+                      <div className="mt-2">
+                        <Select
+                          label="Row"
+                          options={getMatrixRows(depQ).map(row => ({ value: row.id, label: row.text || row.id }))}
+                          value={cond.rowId ?? ''}
+                          onChange={(e) => updateCondition(groupIndex, condIndex, { rowId: e.target.value })}
+                          placeholder="Select a row"
+                        />
+                      </div>
+                    )}
+                  </div>
+                  <div className="md:col-span-2">
+                    <Select
+                      label={condIndex === 0 ? 'If answer' : 'Then also'}
+                      options={ops}
+                      value={cond.operator}
+                      onChange={(e) => {
+                        const nextOp = e.target.value as ConditionOperator;
+                        const nextVal = isCountOperator(nextOp) ? '' : cond.value;
+                        updateCondition(groupIndex, condIndex, { operator: nextOp, value: nextVal });
+                      }}
+                    />
+                  </div>
+                  <div className="md:col-span-4">
+                    {depQ?.options && !isCountOperator(cond.operator) ? (
+                      <Select
+                        label="Value"
+                        options={valueOptions || []}
+                        value={typeof cond.value === 'string' ? cond.value : String(cond.value || '')}
+                        onChange={(e) => updateCondition(groupIndex, condIndex, { value: e.target.value })}
+                        placeholder="Select an option"
+                      />
+                    ) : (
+                      <Input
+                        label="Value"
+                        type={isCountOperator(cond.operator) ? 'number' : valueInputType}
+                        value={typeof cond.value === 'string' ? cond.value : String(cond.value || '')}
+                        onChange={(e) => updateCondition(groupIndex, condIndex, { value: e.target.value })}
+                        placeholder={isCountOperator(cond.operator) ? 'Enter count' : 'Enter value'}
+                        min={isCountOperator(cond.operator) ? 0 : valueInputMin}
+                        max={isCountOperator(cond.operator) ? undefined : valueInputMax}
+                      />
+                    )}
+                  </div>
+                  <div className="md:col-span-2">
+                    {condIndex < group.conditions.length - 1 && (
+                      <Select
+                        label="Join"
+                        options={LOGICAL_OPTIONS}
+                        value={cond.logical || 'OR'}
+                        onChange={(e) => updateCondition(groupIndex, condIndex, { logical: e.target.value as RuleLogical })}
+                      />
+                    )}
+                  </div>
+                  <div className="md:col-span-1">
+                    {totalConditions > 1 && (
+                      <Button variant="ghost" size="sm" onClick={() => removeCondition(groupIndex, condIndex)} className="text-red-600">✕</Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+            <Button variant="outline" size="sm" onClick={() => addCondition(groupIndex)}>+ Add Condition</Button>
+          </div>
+
+          {groupIndex < groups.length - 1 && (
+            <div className="w-32">
+              <Select
+                label="Join groups"
+                options={LOGICAL_OPTIONS}
+                value={group.logical || 'OR'}
+                onChange={(e) => updateGroup(groupIndex, { logical: e.target.value as RuleLogical })}
+              />
+            </div>
+          )}
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={() => onChange([...groups, createConditionGroup(candidateQuestions)])}>
+        + Add Group
+      </Button>
+    </div>
+  );
+}
@@ -1,6 +1,10 @@
-import React from "react";
+import React, { useState } from "react";
 import { Link } from "react-router-dom";
 import { showSuccessToast } from "../../utils/toast";
+import ShareSurveyModal from "../modals/ShareSurveyModal";
+import WebhooksModal from "../modals/WebhooksModal";
+import { hasSurveyPermission } from "@shared/surveyAccess";
+import type { SurveyRole } from "@shared/surveyAccess";
 
 interface Survey {
   id: string;
@@ -13,6 +17,8 @@ interface Survey {
   updatedAt: string;
   responseCount?: number;
   locked?: boolean;
+  // Caller's role; absent on older responses, which only ever listed the caller's own surveys
+  role?: SurveyRole | null;
 }
 
 interface SurveyActionsDropdownProps {
@@ -38,7 +44,10 @@ const SurveyActionsDropdown: React.FC<SurveyActionsDropdownProps> = ({
   onExport,
   onDelete,
 }) => {
-  if (!isOpen) return null;
+  const [shareOpen, setShareOpen] = useState(false);
+  const [webhooksOpen, setWebhooksOpen] = useState(false);
+  const role = survey.role ?? "owner";
+  const canEdit = hasSurveyPermission(role, "edit");
 
   // Common actions for most modes
   const renderCommonActions = () => (
@@ -48,98 +57,151 @@ const SurveyActionsDropdown: React.FC<SurveyActionsDropdownProps> = ({
         className="flex items-center gap-2 w-full px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
         onClick={onClose}
       >
-        {survey.status === "draft" ? "✏️ Edit" : "🔍 View"}
+        {survey.status === "draft" && canEdit ? "✏️ Edit" : "🔍 View"}
       </Link>
+      {hasSurveyPermission(role, "results") && survey.status !== "draft" && (
+        <Link
+          to={`/dashboard/results/${survey.id}`}
+          className="flex items-center gap-2 w-full px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+          onClick={onClose}
+        >
+          📊 Results
+        </Link>
+      )}
       <button
         onClick={() => {
-          onExport(survey.id);
+          setShareOpen(true);
           onClose();
         }}
-        disabled={exporting === survey.id}
-        className="flex items-center gap-2 w-full px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+        className="flex items-center gap-2 w-full px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
       >
-        {exporting === survey.id ? "⏳" : "📤"} Export
+        👥 {hasSurveyPermission(role, "manage") ? "Share" : "People"}
       </button>
+      {hasSurveyPermission(role, "manage") && (
+        <button
+          onClick={() => {
+            setWebhooksOpen(true);
+            onClose();
+          }}
+          className="flex items-center gap-2 w-full px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+        >
+          🔗 Webhooks
+        </button>
+      )}
       <button
         onClick={() => {
-          onDuplicate(survey.id);
+          onExport(survey.id);
           onClose();
         }}
-        disabled={duplicating === survey.id}
+        disabled={exporting === survey.id}
         className="flex items-center gap-2 w-full px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
       >
-        {duplicating === survey.id ? "⏳" : "📄"} Duplicate
+        {exporting === survey.id ? "⏳" : "📤"} Export
       </button>
-    </>
-  );
-
-  // Draft mode adds Delete
-  if (survey.status === "draft") {
-    return (
-      <div 
-        className="absolute right-0 mt-2 w-48 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-50"
-        onClick={(e) => e.stopPropagation()}
-      >
-        {renderCommonActions()}
+      {canEdit && (
         <button
-          onClick={async () => {
+          onClick={() => {
+            onDuplicate(survey.id);
             onClose();
-            try {
-              const wasDeleted = await onDelete(survey);
-              if (wasDeleted) {
-                showSuccessToast("Survey deleted successfully.");
-              }
-            } catch (error) {
-              console.error("Failed to delete survey:", error);
-            }
           }}
-          disabled={deleting === survey.id}
-          className="flex items-center gap-2 w-full px-4 py-2 text-sm text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+          disabled={duplicating === survey.id}
+          className="flex items-center gap-2 w-full px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
         >
-          {deleting === survey.id ? "⏳" : "🗑️"} Delete
+          {duplicating === survey.id ? "⏳" : "📄"} Duplicate
         </button>
-      </div>
-    );
-  }
+      )}
+    </>
+  );
 
-  // Live mode adds Copy Link
-  if (survey.status === "live") {
-    return (
-      <div 
-        className="absolute right-0 mt-2 w-48 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-50"
-        onClick={(e) => e.stopPropagation()}
-      >
-        {renderCommonActions()}
-        <button
-          onClick={() => {
-            navigator.clipboard.writeText(`${window.location.origin}/s/${survey.slug}`);
-            onClose();
-          }}
-          className="flex items-center gap-2 w-full px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+  const renderMenu = () => {
+    // Draft mode adds Delete (owner only)
+    if (survey.status === "draft") {
+      return (
+        <div 
+          className="absolute right-0 mt-2 w-48 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-50"
+          onClick={(e) => e.stopPropagation()}
         >
-          📋 Copy Link
-        </button>
-      </div>
-    );
-  }
+          {renderCommonActions()}
+          {hasSurveyPermission(role, "manage") && (
+            <button
+              onClick={async () => {
+                onClose();
+                try {
+                  const wasDeleted = await onDelete(survey);
+                  if (wasDeleted) {
+                    showSuccessToast("Survey deleted successfully.");
+                  }
+                } catch (error) {
+                  console.error("Failed to delete survey:", error);
+                }
+              }}
+              disabled={deleting === survey.id}
+              className="flex items-center gap-2 w-full px-4 py-2 text-sm text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+            >
+              {deleting === survey.id ? "⏳" : "🗑️"} Delete
+            </button>
+          )}
+        </div>
+      );
+    }
 
-  // Published, Closed, Archived: just common actions
-  if (
-    survey.status === "published" ||
-    survey.status === "closed" ||
-    survey.status === "archived"
-  ) {
-    return (
-      <div 
-        className="absolute right-0 mt-2 w-48 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-50"
-        onClick={(e) => e.stopPropagation()}
-      >
-        {renderCommonActions()}
-      </div>
-    );
-  }
+    // Live mode adds Copy Link
+    if (survey.status === "live") {
+      return (
+        <div 
+          className="absolute right-0 mt-2 w-48 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-50"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {renderCommonActions()}
+          <button
+            onClick={() => {
+              navigator.clipboard.writeText(`${window.location.origin}/s/${survey.slug}`);
+              onClose();
+            }}
+            className="flex items-center gap-2 w-full px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            📋 Copy Link
+          </button>
+        </div>
+      );
+    }
+
+    // Published, Closed, Archived: just common actions
+    if (
+      survey.status === "published" ||
+      survey.status === "closed" ||
+      survey.status === "archived"
+    ) {
+      return (
+        <div 
+          className="absolute right-0 mt-2 w-48 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-50"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {renderCommonActions()}
+        </div>
+      );
+    }
 
-  return null;
+    return null;
+  };
+
+  return (
+    <>
+      {isOpen && renderMenu()}
+      <ShareSurveyModal
+        isOpen={shareOpen}
+        onClose={() => setShareOpen(false)}
+        surveyId={survey.id}
+        surveyTitle={survey.title}
+      />
+      <WebhooksModal
+        isOpen={webhooksOpen}
+        onClose={() => setWebhooksOpen(false)}
+        surveyId={survey.id}
+        surveyTitle={survey.title}
+      />
+    </>
+  );
 };
 
 export default SurveyActionsDropdown;
@@ -1,7 +1,17 @@
 import React from 'react';
 import Card from '../ui/Card';
 import Input from '../ui/Input';
+import TextArea from '../ui/TextArea';
+import Select from '../ui/Select';
+import Checkbox from '../ui/Checkbox';
 import Tabs from '../ui/Tabs';
+import Button from '../ui/Button';
+import { getQuizSettings } from '@shared/quiz';
+import type { QuizSettings } from '@shared/quiz';
+import { MAX_HIDDEN_FIELDS, getHiddenFields, validateHiddenFieldDefinitions } from '@shared/hiddenFields';
+import type { HiddenFieldDefinition } from '@shared/hiddenFields';
+import { MAX_COMPUTED_VARIABLES, getComputedVariables, validateComputedVariableDefinitions } from '@shared/computedVariables';
+import type { ComputedVariableDefinition } from '@shared/computedVariables';
 
 interface SurveyDetailsCardProps {
   survey: any;
@@ -18,7 +28,19 @@ const SurveyDetailsCard: React.FC<SurveyDetailsCardProps> = ({
 }) => {
   const tabs = [
     { id: 'general', label: 'General' },
+    { id: 'quiz', label: 'Quiz' },
+    { id: 'hidden', label: 'Hidden Fields' },
+    { id: 'computed', label: 'Computed' },
   ];
+  const quiz = getQuizSettings(survey);
+  const hiddenFields = getHiddenFields(survey);
+  const hiddenFieldsError = validateHiddenFieldDefinitions(hiddenFields);
+  const computedVariables = getComputedVariables(survey);
+  const computedVariablesError = validateComputedVariableDefinitions(
+    computedVariables,
+    (survey.pages || []).flatMap((page: { questions?: Array<{ id: string }> }) => (page.questions || []).map(question => question.id)),
+    hiddenFields.map(field => field.name)
+  );
 
   const handleTitleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setSurvey({ ...survey, title: e.target.value });
@@ -38,6 +60,52 @@ const SurveyDetailsCard: React.FC<SurveyDetailsCardProps> = ({
     setSurvey({ ...survey, textColor: color });
   };
 
+  const handleCollectionModeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setSurvey({ ...survey, collectionMode: e.target.value });
+  };
+
+  const handleOnePerDeviceChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setSurvey({ ...survey, onePerDevice: e.target.checked });
+  };
+
+  const updateQuiz = (changes: Partial<QuizSettings>) => {
+    setSurvey({ ...survey, quiz: { ...quiz, ...changes } });
+  };
+
+  const handlePassPercentChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = Number(e.target.value);
+    updateQuiz({ passPercent: Number.isFinite(value) ? Math.min(Math.max(value, 0), 100) : 0 });
+  };
+
+  const setHiddenFields = (fields: HiddenFieldDefinition[]) => {
+    setSurvey({ ...survey, hiddenFields: fields });
+  };
+
+  const updateHiddenField = (index: number, changes: Partial<HiddenFieldDefinition>) => {
+    setHiddenFields(hiddenFields.map((field, i) => (i === index ? { ...field, ...changes } : field)));
+  };
+
+  const addHiddenField = () => {
+    setHiddenFields([...hiddenFields, { name: `field${hiddenFields.length + 1}`, label: '', defaultValue: '' }]);
+  };
+
+  const setComputedVariables = (variables: ComputedVariableDefinition[]) => {
+    setSurvey({ ...survey, computedVariables: variables });
+  };
+
+  const updateComputedVariable = (index: number, changes: Partial<ComputedVariableDefinition>) => {
+    setComputedVariables(computedVariables.map((variable, i) => (i === index ? { ...variable, ...changes } : variable)));
+  };
+
+  const addComputedVariable = () => {
+    setComputedVariables([...computedVariables, { name: `score${computedVariables.length + 1}`, label: '', expression: '' }]);
+  };
+
+  // Example link that fills every hidden field
+  const hiddenFieldsExample = `/s/${survey.slug || 'your-survey'}?${hiddenFields
+    .map(field => `${encodeURIComponent(field.name)}=value`)
+    .join('&')}`;
+
   // Theme removed: only background/text color are kept here
 
   return (
@@ -91,9 +159,194 @@ const SurveyDetailsCard: React.FC<SurveyDetailsCardProps> = ({
                   />
                 </div>
               </div>
+
+              {/* Who can respond through the /s/:slug link */}
+              <div className="space-y-2">
+                <Select
+                  label="Response Collection"
+                  value={survey.collectionMode || 'invite'}
+                  onChange={handleCollectionModeChange}
+                  options={[
+                    { value: 'invite', label: 'Invited respondents (email required)' },
+                    { value: 'anonymous', label: 'Anonymous link (anyone with the link)' },
+                  ]}
+                />
+                {survey.collectionMode === 'anonymous' && (
+                  <Checkbox
+                    label="Allow only one response per device"
+                    checked={Boolean(survey.onePerDevice)}
+                    onChange={handleOnePerDeviceChange}
+                  />
+                )}
+              </div>
             </div>
         )}
+
+          {activeTab === 'quiz' && (
+            <div className="space-y-4">
+              <Checkbox
+                label="Score this survey as a quiz"
+                checked={quiz.enabled}
+                onChange={(e) => updateQuiz({ enabled: e.target.checked })}
+              />
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Set correct answers and points on choice, dropdown and number questions in their settings.
+                Questions without a correct answer are not scored.
+              </p>
+              {quiz.enabled && (
+                <>
+                  <Input
+                    label="Pass mark (%)"
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={quiz.passPercent}
+                    onChange={handlePassPercentChange}
+                  />
+                  <TextArea
+                    label="Message when passed (optional)"
+                    value={quiz.passMessage || ''}
+                    onChange={(e) => updateQuiz({ passMessage: e.target.value })}
+                    rows={2}
+                  />
+                  <TextArea
+                    label="Message when not passed (optional)"
+                    value={quiz.failMessage || ''}
+                    onChange={(e) => updateQuiz({ failMessage: e.target.value })}
+                    rows={2}
+                  />
+                  <Checkbox
+                    label="Show respondents their score"
+                    checked={quiz.showScore}
+                    onChange={(e) => updateQuiz({ showScore: e.target.checked })}
+                  />
+                  <Checkbox
+                    label="Show correct answers and explanations after submitting"
+                    checked={quiz.showFeedback}
+                    onChange={(e) => updateQuiz({ showFeedback: e.target.checked })}
+                  />
+                </>
+              )}
+            </div>
+          )}
           
+          {activeTab === 'hidden' && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Hidden fields are never shown to respondents. They are filled from parameters on the survey link or
+                from each respondent's invitation, and can be used in branching rules, piped into text
+                as <code>{'{{hidden.name}}'}</code>, and filtered and exported with the results.
+              </p>
+              {hiddenFields.map((field, index) => (
+                <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto] gap-2 items-end">
+                  <Input
+                    label="Name"
+                    value={field.name}
+                    onChange={(e) => updateHiddenField(index, { name: e.target.value.trim() })}
+                    placeholder="department"
+                  />
+                  <Input
+                    label="Label (optional)"
+                    value={field.label || ''}
+                    onChange={(e) => updateHiddenField(index, { label: e.target.value })}
+                    placeholder="Department"
+                  />
+                  <Input
+                    label="Default value (optional)"
+                    value={field.defaultValue || ''}
+                    onChange={(e) => updateHiddenField(index, { defaultValue: e.target.value })}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setHiddenFields(hiddenFields.filter((_, i) => i !== index))}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              ))}
+              {hiddenFieldsError && hiddenFields.length > 0 && (
+                <p className="text-sm text-red-600 dark:text-red-400">{hiddenFieldsError}</p>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={addHiddenField}
+                disabled={hiddenFields.length >= MAX_HIDDEN_FIELDS}
+              >
+                Add Hidden Field
+              </Button>
+              {hiddenFields.length > 0 && (
+                <div className="text-sm text-gray-600 dark:text-gray-300">
+                  <p className="mb-1">Link example:</p>
+                  <code className="block break-all rounded bg-gray-100 dark:bg-gray-700 px-2 py-1">{hiddenFieldsExample}</code>
+                </div>
+              )}
+            </div>
+          )}
+
+          {activeTab === 'computed' && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Computed variables are worked out from the answers as the respondent goes. Use them in branching and
+                visibility rules, pipe them into text as <code>{'{{computed.name}}'}</code>, and find their averages and
+                distributions in the results and exports.
+              </p>
+              {computedVariables.map((variable, index) => (
+                <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_2fr_auto] gap-2 items-end">
+                  <Input
+                    label="Name"
+                    value={variable.name}
+                    onChange={(e) => updateComputedVariable(index, { name: e.target.value.trim() })}
+                    placeholder="engagement"
+                  />
+                  <Input
+                    label="Label (optional)"
+                    value={variable.label || ''}
+                    onChange={(e) => updateComputedVariable(index, { label: e.target.value })}
+                    placeholder="Engagement score"
+                  />
+                  <Input
+                    label="Formula"
+                    value={variable.expression}
+                    onChange={(e) => updateComputedVariable(index, { expression: e.target.value })}
+                    placeholder="mean({q_1}, {q_2}, {q_3})"
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setComputedVariables(computedVariables.filter((_, i) => i !== index))}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              ))}
+              {computedVariablesError && computedVariables.length > 0 && (
+                <p className="text-sm text-red-600 dark:text-red-400">{computedVariablesError}</p>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={addComputedVariable}
+                disabled={computedVariables.length >= MAX_COMPUTED_VARIABLES}
+              >
+                Add Computed Variable
+              </Button>
+              <div className="text-sm text-gray-600 dark:text-gray-300 space-y-1">
+                <p>
+                  Refer to answers by question id in braces, e.g. <code>{'{q_1}'}</code>, to hidden fields
+                  as <code>{'{hidden.name}'}</code> and to variables above as <code>{'{computed.name}'}</code>.
+                </p>
+                <p>
+                  Operators: <code>+ - * / %</code>, <code>{'= != < <= > >='}</code>, <code>and or not</code>.
+                  Functions: <code>sum</code>, <code>mean</code>, <code>min</code>, <code>max</code>, <code>count</code>,{' '}
+                  <code>answered</code>, <code>selected({'{q}'}, "option_id")</code>, <code>if(condition, then, else)</code>,{' '}
+                  <code>round</code>, <code>abs</code>.
+                </p>
+              </div>
+            </div>
+          )}
+
           {/* Theme tab removed */}
         </div>
       </div>
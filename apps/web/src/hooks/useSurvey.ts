@@ -1,6 +1,7 @@
 // hooks/useSurvey.ts
 import { useEffect, useCallback, useState, useRef } from "react";
 import { fetchSurveyByIdApi } from "../api-paths/surveysApi";
+import { withDraftContent } from "../utils/surveyUtils";
 export const useSurvey = (surveyId?: string) => {
   const [survey, setSurvey] = useState<any>(null);
   const [loading, setLoading] = useState(true);
@@ -22,7 +23,7 @@ export const useSurvey = (surveyId?: string) => {
 
     try {
       const data = await fetchSurveyByIdApi(surveyId);
-      setSurvey(data);
+      setSurvey(withDraftContent(data));
     } catch (err) {
       console.error('Error fetching survey:', err);
       setError(err instanceof Error ? err.message : 'Error loading survey');
@@ -1,5 +1,6 @@
 // hooks/useSurveyFilters.ts
 import { useMemo, useState } from "react";
+import type { SurveyRole } from "@shared/surveyAccess";
 
 interface Survey {
   id: string;
@@ -13,6 +14,7 @@ interface Survey {
   updatedAt: string;
   responseCount?: number;
   locked?: boolean;
+  role?: SurveyRole | null;
 }
 
 export const useSurveyFilters = (surveys: Survey[]) => {
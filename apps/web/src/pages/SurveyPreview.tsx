@@ -1,10 +1,24 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useParams } from 'react-router-dom';
-import { evaluateCondition } from '../utils/visibilityHelpers';
+import { computeVisiblePath, findPathStepIndex, type BranchingRule, type PathStep, type RuleNode } from '@shared/ruleEngine';
+import { buildPipingContext, pipeQuestion, pipeText } from '@shared/piping';
+import { isMatrixComplete, type MatrixAnswer } from '@shared/matrix';
+import { isConstantSumComplete, type ConstantSumAnswer } from '@shared/numeric';
+import { resolveHiddenFieldValues, withHiddenFieldAnswers, type HiddenFieldDefinition } from '@shared/hiddenFields';
+import type { ComputedVariableDefinition } from '@shared/computedVariables';
+import {
+  findLoopBlock,
+  getBlockQuestionIds,
+  getLoopBlocks,
+  loopAnswerKey,
+  withIterationAnswers,
+  type LoopSettings,
+} from '@shared/loops';
 import QuestionRenderer from '../components/questions/QuestionRenderer';
 import Button from '../components/ui/Button';
 import Card from '../components/ui/Card';
 import { fetchSurveyApi } from '../api-paths/surveysApi';
+import type { UploadedFileRef } from '../api-paths/responsesApi';
 
 interface Question {
   id: string;
@@ -18,27 +32,15 @@ interface Question {
     value?: string;
   }>;
   settings?: Record<string, unknown>;
-  visibilityRules?: BranchingRule[];
-  visibleWhen?: BranchingRule[];
-}
-
-interface BranchingRule {
-  questionId: string;
-  condition: {
-    operator: 'equals' | 'contains' | 'greater_than' | 'less_than';
-    value: string | number | boolean;
-  };
-  logical?: 'AND' | 'OR';
-  action?: {
-    type: 'skip_to_page' | 'end_survey';
-    targetPageIndex?: number;
-  };
+  visibilityRules?: RuleNode[];
+  visibleWhen?: RuleNode[];
 }
 
 interface SurveyPage {
   questions: Question[];
   branching?: BranchingRule[];
   backgroundColor?: string;
+  loop?: LoopSettings;
 }
 
 interface Survey {
@@ -51,10 +53,12 @@ interface Survey {
   closeDate?: string;
   backgroundColor?: string;
   textColor?: string;
+  hiddenFields?: HiddenFieldDefinition[];
+  computedVariables?: ComputedVariableDefinition[];
 }
 
 interface SurveyResponse {
-  [questionId: string]: string | number | boolean | string[] | number[] | Record<string, string>;
+  [questionId: string]: string | number | boolean | string[] | number[] | Record<string, string> | MatrixAnswer | ConstantSumAnswer | UploadedFileRef[];
 }
 
 export default function SurveyPreview() {
@@ -66,40 +70,54 @@ export default function SurveyPreview() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [currentPageIndex, setCurrentPageIndex] = useState(0);
+  // Loop item the current page is shown for; undefined outside loops
+  const [currentIteration, setCurrentIteration] = useState<string | undefined>(undefined);
   const [responses, setResponses] = useState<SurveyResponse>({});
+  // Hidden fields can be tried out by adding them to the preview link
+  const [linkParams] = useState(() => Object.fromEntries(new URLSearchParams(globalThis.location.search)));
 
-  // Helper: extract visibility rules from a question
-  const getVisibilityRules = useCallback((question: Question): BranchingRule[] => {
-    const settings = (question.settings || {});
-    const fromSettings = (settings.visibleWhen || (settings.visibility as any)?.rules) as BranchingRule[] | undefined;
-    return (
-      question.visibilityRules ||
-      question.visibleWhen ||
-      fromSettings ||
-      []
-    ) as BranchingRule[];
-  }, []);
+  const hiddenValues = useMemo(
+    () => resolveHiddenFieldValues(survey?.hiddenFields ?? [], linkParams),
+    [survey, linkParams]
+  );
 
-  // Helper: check if a question should be visible based on visibility rules
-  const isQuestionVisible = useCallback((question: Question): boolean => {
-    const rules = getVisibilityRules(question);
-    if (!rules?.length) return true;
+  // Pages and questions on the respondent's path, as the live survey would show them
+  const visiblePath = useMemo(
+    () => computeVisiblePath(survey?.pages ?? [], withHiddenFieldAnswers(responses, hiddenValues), survey?.computedVariables),
+    [survey, responses, hiddenValues]
+  );
 
-    // Check if any dependent question has been answered
-    const anyDependencyAnswered = rules.some(r => responses[r.questionId] !== undefined);
-    if (!anyDependencyAnswered) return false;
+  const currentStepIndex = findPathStepIndex(visiblePath.steps, currentPageIndex, currentIteration);
+  const currentLoopItem = visiblePath.steps[currentStepIndex]?.loopItem;
 
-    // Evaluate all rules as a single flat list (no groups)
-    return rules.reduce((acc, rule, idx) => {
-      const resp = responses[rule.questionId];
-      const conditionMet = resp !== undefined && evaluateCondition(rule.condition.operator, rule.condition.value, resp);
+  // Earlier answers, hidden fields and computed variables piped into question text as they change;
+  // in a loop, the loop's questions show this item's answers
+  const pipingContext = useMemo(() => {
+    const pages = survey?.pages ?? [];
+    const block = currentLoopItem && findLoopBlock(getLoopBlocks(pages), currentPageIndex);
+    return buildPipingContext(
+      pages,
+      block ? withIterationAnswers(responses, getBlockQuestionIds(pages, block), currentLoopItem.id) : responses,
+      { hidden: hiddenValues, computed: visiblePath.computed, loopItem: currentLoopItem?.text }
+    );
+  }, [survey, responses, hiddenValues, visiblePath, currentPageIndex, currentLoopItem]);
 
-      if (idx === 0) return conditionMet;
+  // Answers to questions in a loop are kept per item
+  const answerKey = useCallback((question: Question): string => loopAnswerKey(question.id, currentIteration), [currentIteration]);
 
-      const prevLogical = (rules[idx - 1].logical as 'AND' | 'OR') ?? 'OR';
-      return prevLogical === 'AND' ? acc && conditionMet : acc || conditionMet;
-    }, false);
-  }, [responses, getVisibilityRules]);
+  // Helper: check if a question should be visible based on visibility rules
+  const isQuestionVisible = useCallback(
+    (question: Question): boolean => visiblePath.visibleQuestionIds.has(answerKey(question)),
+    [visiblePath, answerKey]
+  );
+
+  // Neighbouring steps on the path; pages in a loop are repeated per item
+  const nextStep: PathStep | null = currentStepIndex !== -1
+    ? visiblePath.steps[currentStepIndex + 1] ?? null
+    : visiblePath.steps.find(step => step.pageIndex > currentPageIndex) ?? null;
+  const previousStep: PathStep | null = currentStepIndex !== -1
+    ? visiblePath.steps[currentStepIndex - 1] ?? null
+    : visiblePath.steps.filter(step => step.pageIndex < currentPageIndex).pop() ?? null;
 
   // Fetch survey data
   const fetchSurvey = useCallback(async () => {
@@ -139,26 +157,23 @@ export default function SurveyPreview() {
     fetchSurvey();
   }, [fetchSurvey]);
 
-  const handleResponseChange = (questionId: string, value: string | number | boolean | string[] | number[] | Record<string, string>) => {
+  const handleResponseChange = (questionId: string, value: string | number | boolean | string[] | number[] | Record<string, string> | MatrixAnswer | ConstantSumAnswer | UploadedFileRef[]) => {
     setResponses(prev => ({
       ...prev,
       [questionId]: value,
     }));
   };
 
-  const goToNextPage = () => {
-    if (currentPageIndex < survey!.pages.length - 1) {
-      const nextPage = currentPageIndex + 1;
-      setCurrentPageIndex(nextPage);
+  const goToStep = (step: PathStep | null) => {
+    if (step !== null) {
+      setCurrentPageIndex(step.pageIndex);
+      setCurrentIteration(step.loopItem?.id);
     }
   };
 
-  const goToPreviousPage = () => {
-    if (currentPageIndex > 0) {
-      const prevPage = currentPageIndex - 1;
-      setCurrentPageIndex(prevPage);
-    }
-  };
+  const goToNextPage = () => goToStep(nextStep);
+
+  const goToPreviousPage = () => goToStep(previousStep);
 
   if (loading) {
     return (
@@ -192,7 +207,18 @@ export default function SurveyPreview() {
 
   const currentPage = survey.pages[currentPageIndex];
   const visibleQuestions = currentPage?.questions.filter(isQuestionVisible) || [];
-  const canGoNext = visibleQuestions.length > 0 && visibleQuestions.every(q => !q.required || responses[q.id]);
+  // Matrix questions need every row answered and constant-sum questions the full total
+  const isAnswered = (q: typeof visibleQuestions[number]) => {
+    const value = responses[answerKey(q)];
+    if (q.type === 'matrix') return isMatrixComplete(q, value);
+    if (q.type === 'constantSum') return isConstantSumComplete(q, value);
+    return !!value || value === 0;
+  };
+  const canGoNext = visibleQuestions.length > 0 && visibleQuestions.every(q => !q.required || isAnswered(q));
+  // Messages from show_message rules on the pages between the previous visible page and this one
+  const branchMessages = visiblePath.messages.filter(
+    m => m.pageIndex >= (previousStep?.pageIndex ?? -1) && m.pageIndex < currentPageIndex
+  );
   
   const getPageStyle = () => {
     const pageBg = currentPage?.backgroundColor || survey.backgroundColor;
@@ -325,9 +351,18 @@ export default function SurveyPreview() {
               </div>
               <p className="text-xs opacity-70 mt-1 progress-text" style={{ color: surveyTextColor || '#111827' }}>
                 Page {currentPageIndex + 1} of {survey.pages.length}
+                {currentLoopItem && <> &middot; {currentLoopItem.text}</>}
               </p>
             </div>
 
+            {branchMessages.length > 0 && (
+              <div className="mb-4 rounded-md border border-blue-200 bg-blue-50 px-3 py-2 text-sm text-blue-900">
+                {branchMessages.map(m => (
+                  <p key={`${m.pageIndex}-${m.message}`}>{pipeText(m.message, pipingContext)}</p>
+                ))}
+              </div>
+            )}
+
             {/* Questions */}
             {visibleQuestions.length === 0 ? (
               <Card className="question-card border border-gray-200" backgroundColor="#ffffff">
@@ -349,12 +384,12 @@ export default function SurveyPreview() {
             ) : (
               <div className="space-y-4">
                 {visibleQuestions.map((question) => (
-                  <Card key={question.id} className="question-card border border-gray-200" backgroundColor="#ffffff">
+                  <Card key={answerKey(question)} className="question-card border border-gray-200" backgroundColor="#ffffff">
                     <div className="p-3">
                       <QuestionRenderer
-                        question={question}
-                        value={responses[question.id]}
-                        onChange={(value) => handleResponseChange(question.id, value)}
+                        question={pipeQuestion(question, pipingContext)}
+                        value={responses[answerKey(question)]}
+                        onChange={(value) => handleResponseChange(answerKey(question), value)}
                         disabled={false}
                         themeColors={getThemeColorsForQuestions()}
                       />
@@ -370,14 +405,14 @@ export default function SurveyPreview() {
                 variant="secondary"
                 size="sm"
                 onClick={goToPreviousPage}
-                disabled={currentPageIndex === 0}
-                className={`text-xs ${currentPageIndex === 0 ? 'opacity-50' : ''}`}
+                disabled={previousStep === null}
+                className={`text-xs ${previousStep === null ? 'opacity-50' : ''}`}
               >
                 ← Previous
               </Button>
               
               <div className="flex items-center space-x-2">
-                {currentPageIndex < survey.pages.length - 1 ? (
+                {nextStep !== null ? (
                   <Button
                     variant="primary"
                     size="sm"
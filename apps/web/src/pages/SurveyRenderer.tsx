@@ -1,12 +1,38 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import QuestionRenderer from '../components/questions/QuestionRenderer';
 import Button from '../components/ui/Button';
 import Card from '../components/ui/Card';
 import EmailPromptModal from '../components/modals/EmailPromptModal';
-import { evaluateCondition } from '../utils/visibilityHelpers';
-import { fetchPublicSurveyApi, generateSurveyTokenApi } from '../api-paths/surveysApi';
-import { autoSaveResponse, submitSurveyApi } from '../api-paths/responsesApi';
+import { computeVisiblePath, findPathStepIndex, type BranchingRule, type PathStep, type RuleNode } from '@shared/ruleEngine';
+import { buildPipingContext, pipeQuestion, pipeText, type RespondentProfile } from '@shared/piping';
+import { isMatrixComplete, type MatrixAnswer } from '@shared/matrix';
+import { isConstantSumComplete, type ConstantSumAnswer } from '@shared/numeric';
+import {
+  getHiddenFields,
+  resolveHiddenFieldValues,
+  withHiddenFieldAnswers,
+  type HiddenFieldDefinition,
+  type HiddenFieldValues,
+} from '@shared/hiddenFields';
+import type { ComputedVariableDefinition } from '@shared/computedVariables';
+import {
+  findLoopBlock,
+  getBlockQuestionIds,
+  getLoopBlocks,
+  loopAnswerKey,
+  toStoredAnswers,
+  withIterationAnswers,
+  type LoopSettings,
+} from '@shared/loops';
+import { fetchPublicSurveyApi, generateSurveyTokenApi, startAnonymousSessionApi } from '../api-paths/surveysApi';
+import {
+  autoSaveResponse,
+  submitSurveyApi,
+  uploadResponseFileApi,
+  deleteResponseFileApi,
+  type UploadedFileRef,
+} from '../api-paths/responsesApi';
 import { buildApiUrl } from '../api-paths/apiConfig';
 
 interface Question {
@@ -22,27 +48,15 @@ interface Question {
   }>;
   settings?: Record<string, unknown>;
   // Optional visibility rules
-  visibilityRules?: BranchingRule[];
-  visibleWhen?: BranchingRule[];
-}
-
-interface BranchingRule {
-  questionId: string;
-  condition: {
-    operator: 'equals' | 'contains' | 'greater_than' | 'less_than';
-    value: string | number | boolean;
-  };
-  logical?: 'AND' | 'OR';
-  action?: {
-    type: 'skip_to_page' | 'end_survey';
-    targetPageIndex?: number;
-  };
+  visibilityRules?: RuleNode[];
+  visibleWhen?: RuleNode[];
 }
 
 interface SurveyPage {
   questions: Question[];
   branching?: BranchingRule[];
   backgroundColor?: string;
+  loop?: LoopSettings;
 }
 
 interface Survey {
@@ -55,10 +69,18 @@ interface Survey {
   closeDate?: string;
   backgroundColor?: string;
   textColor?: string;
+  collectionMode?: 'invite' | 'anonymous';
+  onePerDevice?: boolean;
+  // Invited respondents only: profile fields that can be piped into question text
+  respondent?: RespondentProfile;
+  hiddenFields?: HiddenFieldDefinition[];
+  // Values already stored for this respondent or set on their invitation; they win over the link
+  hiddenFieldValues?: HiddenFieldValues;
+  computedVariables?: ComputedVariableDefinition[];
 }
 
 interface SurveyResponse {
-  [questionId: string]: string | number | boolean | string[] | number[] | Record<string, string>;
+  [questionId: string]: string | number | boolean | string[] | number[] | Record<string, string> | MatrixAnswer | ConstantSumAnswer | UploadedFileRef[];
 }
 
 export default function SurveyRenderer() {
@@ -69,6 +91,8 @@ export default function SurveyRenderer() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [currentPageIndex, setCurrentPageIndex] = useState(0);
+  // Loop item the current page is shown for; undefined outside loops
+  const [currentIteration, setCurrentIteration] = useState<string | undefined>(undefined);
   const [responses, setResponses] = useState<SurveyResponse>({});
   const [submitting, setSubmitting] = useState(false);
   const [startTime] = useState(Date.now());
@@ -79,59 +103,86 @@ export default function SurveyRenderer() {
   const [emailLoading, setEmailLoading] = useState(false);
   const [emailError, setEmailError] = useState<string | null>(null);
   const draftKey = `survey_${slug}_draft`;
+  // Query parameters of the link the respondent opened, read once for hidden fields
+  const [linkParams] = useState(() => Object.fromEntries(new URLSearchParams(globalThis.location.search)));
 
-  // Helper: extract visibility rules from a question (supports multiple locations for flexibility)
-  const getVisibilityRules = useCallback((question: Question): BranchingRule[] => {
-    const settings = (question.settings || {});
-    const fromSettings = (settings.visibleWhen || (settings.visibility as any)?.rules) as BranchingRule[] | undefined;
-    return (
-      question.visibilityRules ||
-      question.visibleWhen ||
-      fromSettings ||
-      []
-    ) as BranchingRule[];
-  }, []);
-
-  // Helper: is a question visible under current responses?
-  const isQuestionVisible = useCallback((question: Question): boolean => {
-    const rules = getVisibilityRules(question);
-    if (!rules || rules.length === 0) return true;
+  const hiddenValues = useMemo(
+    () => resolveHiddenFieldValues(getHiddenFields(survey ?? {}), linkParams, survey?.hiddenFieldValues),
+    [survey, linkParams]
+  );
 
-    // Check if any dependent question has been answered
-    const anyDependencyAnswered = rules.some(r => responses[r.questionId] !== undefined);
-    if (!anyDependencyAnswered) return false;
+  // Pages and questions on the respondent's path, using the same rule engine as the API
+  const visiblePath = useMemo(
+    () => computeVisiblePath(survey?.pages ?? [], withHiddenFieldAnswers(responses, hiddenValues), survey?.computedVariables),
+    [survey, responses, hiddenValues]
+  );
 
-    // Evaluate all rules as a single flat list (no groups)
-    return rules.reduce((acc, rule, idx) => {
-      const resp = responses[rule.questionId];
-      const conditionMet = resp !== undefined && evaluateCondition(rule.condition.operator, rule.condition.value, resp);
+  const currentStepIndex = findPathStepIndex(visiblePath.steps, currentPageIndex, currentIteration);
+  const currentLoopItem = visiblePath.steps[currentStepIndex]?.loopItem;
+
+  // Earlier answers, the respondent's profile, hidden fields and computed variables, piped into question text as they change.
+  // In a loop, the loop's questions show this item's answers.
+  const pipingContext = useMemo(() => {
+    const pages = survey?.pages ?? [];
+    const block = currentLoopItem && findLoopBlock(getLoopBlocks(pages), currentPageIndex);
+    return buildPipingContext(
+      pages,
+      block ? withIterationAnswers(responses, getBlockQuestionIds(pages, block), currentLoopItem.id) : responses,
+      {
+        respondent: survey?.respondent,
+        hidden: hiddenValues,
+        computed: visiblePath.computed,
+        loopItem: currentLoopItem?.text,
+      }
+    );
+  }, [survey, responses, hiddenValues, visiblePath, currentPageIndex, currentLoopItem]);
 
-      if (idx === 0) return conditionMet;
+  // Answers to questions in a loop are kept per item
+  const answerKey = useCallback((question: Question): string => loopAnswerKey(question.id, currentIteration), [currentIteration]);
 
-      const prevLogical = (rules[idx - 1].logical as 'AND' | 'OR') ?? 'OR';
-      return prevLogical === 'AND' ? acc && conditionMet : acc || conditionMet;
-    }, false);
-  }, [getVisibilityRules, responses]);
+  // Helper: is a question visible under current responses?
+  const isQuestionVisible = useCallback(
+    (question: Question): boolean => visiblePath.visibleQuestionIds.has(answerKey(question)),
+    [visiblePath, answerKey]
+  );
 
 
-  const token = new URLSearchParams(globalThis.location.search).get('token');
+  const urlToken = new URLSearchParams(globalThis.location.search).get('token');
+  // Anonymous-link sessions keep their token in this browser instead of the URL
+  const anonymousTokenKey = `survey_${slug}_anonymous_token`;
+  const [anonymousToken, setAnonymousToken] = useState<string | null>(
+    () => (urlToken ? null : localStorage.getItem(anonymousTokenKey))
+  );
+  const token = urlToken || anonymousToken;
 
   const fetchSurvey = useCallback(async () => {
     if (!slug) return;
 
     try {
       const data = await fetchPublicSurveyApi(slug, token||undefined);
-      setSurvey(data);
-      setError(null);
       if (!token && (data.status === 'live' || data.status === 'published')) {
-        setShowEmailModal(true);
+        if (data.collectionMode === 'anonymous') {
+          const session = await startAnonymousSessionApi(data.id);
+          localStorage.setItem(anonymousTokenKey, session.token);
+          setAnonymousToken(session.token);
+        } else {
+          setShowEmailModal(true);
+        }
       }
+      setSurvey(data);
+      setError(null);
     } catch (error: any) {
+      if (anonymousToken && !urlToken) {
+        // Stale anonymous session (expired or already submitted): start over with a new one
+        localStorage.removeItem(anonymousTokenKey);
+        setAnonymousToken(null);
+        return;
+      }
       setError(error.message || 'Error loading survey');
     } finally {
       setLoading(false);
     }
-  }, [slug, token]);
+  }, [slug, token, urlToken, anonymousToken, anonymousTokenKey]);
 
   const handleEmailSubmit = useCallback(async (email: string) => {
     if (!survey?.id) return;
@@ -141,7 +192,10 @@ export default function SurveyRenderer() {
 
     try {
       const newToken = await generateSurveyTokenApi(survey.id, email);
-      const newUrl = `${window.location.pathname}?token=${newToken}`;
+      // Keep the other link parameters, which fill hidden fields
+      const params = new URLSearchParams(window.location.search);
+      params.set('token', newToken);
+      const newUrl = `${window.location.pathname}?${params.toString()}`;
       window.history.replaceState({}, '', newUrl);
       setShowEmailModal(false);
       setEmailLoading(false);
@@ -182,6 +236,7 @@ export default function SurveyRenderer() {
         const draft = JSON.parse(savedDraft);
         setResponses(draft.responses || {});
         setCurrentPageIndex(draft.currentPageIndex || 0);
+        setCurrentIteration(draft.currentIteration);
         setPagesVisited(draft.pagesVisited || [0]);
       } catch {
         // Handle error silently
@@ -197,6 +252,7 @@ const saveProgress = useCallback(async () => {
     const draft = {
       responses,
       currentPageIndex,
+      currentIteration,
       pagesVisited,
       lastSaved: Date.now(),
     };
@@ -207,21 +263,7 @@ const saveProgress = useCallback(async () => {
       if (!survey) return;
 
       // Prepare response data (exclude hidden questions)
-      const responseData = Object.entries(responses).flatMap(([questionId, value]) => {
-        let pageIndex = -1;
-        let foundQuestion;
-        for (let i = 0; i < (survey?.pages.length || 0); i++) {
-          const q = survey?.pages[i].questions.find(qn => qn.id === questionId);
-          if (q) {
-            pageIndex = i;
-            foundQuestion = q;
-            break;
-          }
-        }
-        if (!foundQuestion || pageIndex === -1) return [];
-        if (!isQuestionVisible(foundQuestion)) return []; // skip hidden
-        return [{ questionId, value, pageIndex }];
-      });
+      const responseData = toStoredAnswers(survey.pages, responses, visiblePath.visibleQuestionIds);
 
       const payload = {
         responses: responseData,
@@ -232,6 +274,7 @@ const saveProgress = useCallback(async () => {
         },
         status: "InProgress",
         updatedAt: new Date().toISOString(),
+        hiddenFields: hiddenValues,
       };
 
       await autoSaveResponse(survey.id, payload, token||undefined);
@@ -239,7 +282,7 @@ const saveProgress = useCallback(async () => {
     } catch (error: any) {
       console.error('Auto-save error:', error);
     }
-  }, [responses, currentPageIndex, pagesVisited, draftKey, survey, isQuestionVisible, startTime, token]);
+  }, [responses, currentPageIndex, currentIteration, pagesVisited, draftKey, survey, visiblePath, startTime, token, hiddenValues]);
 
   // Set up auto-save interval
   useEffect(() => {
@@ -247,7 +290,7 @@ const saveProgress = useCallback(async () => {
     return () => clearInterval(interval);
   }, [saveProgress, autoSaveInterval]);
 
-  const handleQuestionChange = (questionId: string, value: string | number | boolean | string[] | number[] | Record<string, string>) => {
+  const handleQuestionChange = (questionId: string, value: string | number | boolean | string[] | number[] | Record<string, string> | MatrixAnswer | ConstantSumAnswer | UploadedFileRef[]) => {
     setResponses(prev => ({
       ...prev,
       [questionId]: value,
@@ -263,74 +306,61 @@ const saveProgress = useCallback(async () => {
       .filter(q => q.required);
     
     for (const question of requiredQuestions) {
-      const response = responses[question.id];
+      const response = responses[answerKey(question)];
       if (response === undefined || response === null || response === '') {
         return false;
       }
       if (Array.isArray(response) && response.length === 0) {
         return false;
       }
+      if (question.type === 'matrix' && !isMatrixComplete(question, response)) {
+        return false;
+      }
+      if (question.type === 'constantSum' && !isConstantSumComplete(question, response)) {
+        return false;
+      }
     }
     
     return true;
   };
 
-  // Helper: check if a page has visible questions
-  const hasVisibleQuestions = useCallback((pageIndex: number): boolean => {
-    if (!survey || pageIndex < 0 || pageIndex >= survey.pages.length) return false;
-    const page = survey.pages[pageIndex];
-    return page.questions.some(q => isQuestionVisible(q));
-  }, [survey, isQuestionVisible]);
-
-  // Helper: find next page with visible questions (skips empty pages)
-  const getNextPageWithQuestions = useCallback((): number | null => {
-    if (!survey) return null;
-    
-    for (let i = currentPageIndex + 1; i < survey.pages.length; i++) {
-      if (hasVisibleQuestions(i)) {
-        return i;
-      }
-    }
-    
-    return null; // No more pages with questions
-  }, [survey, currentPageIndex, hasVisibleQuestions]);
-
-  // Helper: find previous page with visible questions (skips empty pages)
-  const getPreviousPageWithQuestions = useCallback((): number | null => {
-    if (!survey) return null;
-    
-    for (let i = currentPageIndex - 1; i >= 0; i--) {
-      if (hasVisibleQuestions(i)) {
-        return i;
-      }
-    }
-    
-    return null; // No previous pages with questions
-  }, [survey, currentPageIndex, hasVisibleQuestions]);
+  // Helper: find next step on the visible path (applies branching, skips empty pages and repeats loop pages per item)
+  const getNextStep = useCallback((): PathStep | null => {
+    if (currentStepIndex !== -1) return visiblePath.steps[currentStepIndex + 1] ?? null;
+    return visiblePath.steps.find(step => step.pageIndex > currentPageIndex) ?? null;
+  }, [visiblePath, currentStepIndex, currentPageIndex]);
+
+  // Helper: find previous step on the visible path
+  const getPreviousStep = useCallback((): PathStep | null => {
+    if (currentStepIndex !== -1) return visiblePath.steps[currentStepIndex - 1] ?? null;
+    return visiblePath.steps.filter(step => step.pageIndex < currentPageIndex).pop() ?? null;
+  }, [visiblePath, currentStepIndex, currentPageIndex]);
+
+  const goToStep = useCallback((step: PathStep) => {
+    setCurrentPageIndex(step.pageIndex);
+    setCurrentIteration(step.loopItem?.id);
+    setPagesVisited(prev => [...new Set([...prev, step.pageIndex])]);
+  }, []);
 
-  // Auto-skip empty pages when navigating to them (e.g., from state restoration)
+  // Auto-skip pages off the visible path (empty or branched past), e.g. from state restoration
   useEffect(() => {
     if (!survey || loading || submitting) return;
     
     const currentPage = survey.pages[currentPageIndex];
     if (!currentPage) return;
     
-    const hasVisible = currentPage.questions.some(q => isQuestionVisible(q));
-    
-    if (!hasVisible) {
-      // Current page has no visible questions, try to skip forward
-      const nextPageIndex = getNextPageWithQuestions();
+    if (currentStepIndex === -1) {
+      // Current page (or loop item) is not on the respondent's path, try to skip forward
+      const nextStep = getNextStep();
       
-      if (nextPageIndex !== null) {
+      if (nextStep !== null) {
         // Skip to next page with questions
-        setCurrentPageIndex(nextPageIndex);
-        setPagesVisited(prev => [...new Set([...prev, nextPageIndex])]);
+        goToStep(nextStep);
       }
       // If no next page with questions exists, stay on current page
       // User can manually submit if needed
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [survey, currentPageIndex, responses, loading, submitting, isQuestionVisible, getNextPageWithQuestions]);
+  }, [survey, currentPageIndex, loading, submitting, currentStepIndex, getNextStep, goToStep]);
 
   const goToNextPage = () => {
     if (!validateCurrentPage()) {
@@ -339,22 +369,22 @@ const saveProgress = useCallback(async () => {
     }
     
     setError(null);
-    const nextPageIndex = getNextPageWithQuestions();
+    const nextStep = getNextStep();
     
-    if (nextPageIndex === null) {
+    if (nextStep === null) {
       // No more pages with questions - end of survey
       submitSurvey();
     } else {
-      setCurrentPageIndex(nextPageIndex);
-      setPagesVisited(prev => [...new Set([...prev, nextPageIndex])]);
+      goToStep(nextStep);
     }
   };
 
   const goToPreviousPage = () => {
-    const previousPageIndex = getPreviousPageWithQuestions();
+    const previousStep = getPreviousStep();
     
-    if (previousPageIndex !== null) {
-      setCurrentPageIndex(previousPageIndex);
+    if (previousStep !== null) {
+      setCurrentPageIndex(previousStep.pageIndex);
+      setCurrentIteration(previousStep.loopItem?.id);
       setError(null);
     }
   };
@@ -365,24 +395,7 @@ const saveProgress = useCallback(async () => {
     try {
       if (!survey) return;
 
-      const responseData = Object.entries(responses).flatMap(([questionId, value]) => {
-        let pageIndex = -1;
-        let foundQuestion: Question | undefined;
-
-        for (let i = 0; i < (survey?.pages.length || 0); i++) {
-          const q = survey?.pages[i].questions.find(qn => qn.id === questionId);
-          if (q) {
-            pageIndex = i;
-            foundQuestion = q;
-            break;
-          }
-        }
-
-        if (!foundQuestion || pageIndex === -1) return [];
-        if (!isQuestionVisible(foundQuestion)) return []; // skip hidden
-
-        return [{ questionId, value, pageIndex }];
-      });
+      const responseData = toStoredAnswers(survey.pages, responses, visiblePath.visibleQuestionIds);
 
       const payload = {
         responses: responseData,
@@ -393,6 +406,7 @@ const saveProgress = useCallback(async () => {
         },
         status: "InProgress",
         updatedAt: new Date().toISOString(),
+        hiddenFields: hiddenValues,
       };
 
       await autoSaveResponse(survey.id, payload, token || undefined);
@@ -401,7 +415,7 @@ const saveProgress = useCallback(async () => {
       console.error('Auto-save error:', error);
       throw error;
     }
-  }, [responses, currentPageIndex, pagesVisited, survey, isQuestionVisible, startTime, token]);
+  }, [responses, currentPageIndex, pagesVisited, survey, visiblePath, startTime, token, hiddenValues]);
 
   const submitSurvey = async () => {
     if (!survey) return;
@@ -419,38 +433,25 @@ const saveProgress = useCallback(async () => {
       await saveProgressToServer();
 
       // Prepare response data (exclude hidden questions)
-      const responseData = Object.entries(responses).flatMap(([questionId, value]) => {
-        let pageIndex = -1;
-        let foundQuestion: Question | undefined;
-
-        for (let i = 0; i < survey.pages.length; i++) {
-          const q = survey.pages[i].questions.find(qn => qn.id === questionId);
-          if (q) {
-            pageIndex = i;
-            foundQuestion = q;
-            break;
-          }
-        }
-
-        if (!foundQuestion || pageIndex === -1) return [];
-        if (!isQuestionVisible(foundQuestion)) return [];
-        return [{ questionId, value, pageIndex }];
-      });
+      const responseData = toStoredAnswers(survey.pages, responses, visiblePath.visibleQuestionIds);
 
       const timeSpent = Math.round((Date.now() - startTime) / 1000);
 
-      await submitSurveyApi(survey.id, {
+      const result = await submitSurveyApi(survey.id, {
         responses: responseData,
         metadata: {
           timeSpent,
           pagesVisited,
           lastPageIndex: currentPageIndex,
         },
+        hiddenFields: hiddenValues,
       }, token || undefined);
 
       console.log('Survey submitted successfully');
       localStorage.removeItem(draftKey);
-      navigate(`/s/${slug}/thank-you`);
+      localStorage.removeItem(anonymousTokenKey);
+      // Quiz results are only returned by the submission, so they travel in the navigation state
+      navigate(`/s/${slug}/thank-you`, { state: result?.quiz ? { quiz: result.quiz } : undefined });
     } catch (error: any) {
       console.error('Submit error:', error);
       setError(error.message || 'Error submitting survey');
@@ -495,7 +496,7 @@ const saveProgress = useCallback(async () => {
 
   const currentPage = survey.pages[currentPageIndex];
   // Check if there's a next page with visible questions (not just the last page index)
-  const hasNextPageWithQuestions = getNextPageWithQuestions() !== null;
+  const hasNextPageWithQuestions = getNextStep() !== null;
 
   // Get theme colors
   const getThemeColors = () => {
@@ -516,6 +517,11 @@ const saveProgress = useCallback(async () => {
   
   const themeColors = getThemeColors();
   const visibleQuestions = currentPage.questions.filter(q => isQuestionVisible(q));
+  // Messages from show_message rules on the pages between the previous visible page and this one
+  const previousPathPage = getPreviousStep()?.pageIndex ?? -1;
+  const branchMessages = visiblePath.messages.filter(
+    m => m.pageIndex >= previousPathPage && m.pageIndex < currentPageIndex
+  );
   const surveyTextColor = survey.textColor;
 
   const getPageStyle = () => {
@@ -636,6 +642,7 @@ const saveProgress = useCallback(async () => {
                   </div>
                   <p className="text-xs opacity-70 mt-1 progress-text" style={{ color: surveyTextColor || '#111827' }}>
                     Page {currentPageIndex + 1} of {survey.pages.length}
+                    {currentLoopItem && <> &middot; {currentLoopItem.text}</>}
                   </p>
                 </>
               )}
@@ -655,6 +662,14 @@ const saveProgress = useCallback(async () => {
               </div>
             )}
 
+            {branchMessages.length > 0 && (
+              <div className="mb-6 rounded-md border border-blue-200 bg-blue-50 px-4 py-3 text-sm text-blue-900">
+                {branchMessages.map(m => (
+                  <p key={`${m.pageIndex}-${m.message}`}>{pipeText(m.message, pipingContext)}</p>
+                ))}
+              </div>
+            )}
+
             {/* Questions */}
             {visibleQuestions.length === 0 ? (
               <Card className="question-card border border-gray-200" backgroundColor="#ffffff">
@@ -676,12 +691,14 @@ const saveProgress = useCallback(async () => {
             ) : (
               <div className="space-y-4">
                 {visibleQuestions.map((question) => (
-                  <Card key={question.id} className="question-card border border-gray-200" backgroundColor="#ffffff">
+                  <Card key={answerKey(question)} className="question-card border border-gray-200" backgroundColor="#ffffff">
                     <div className="p-3">
                       <QuestionRenderer
-                        question={question}
-                        value={responses[question.id]}
-                        onChange={(value) => handleQuestionChange(question.id, value)}
+                        question={pipeQuestion(question, pipingContext)}
+                        value={responses[answerKey(question)]}
+                        onChange={(value) => handleQuestionChange(answerKey(question), value)}
+                        uploadFile={(file) => uploadResponseFileApi(survey.id, question.id, file, token || undefined)}
+                        removeFile={(fileId) => deleteResponseFileApi(survey.id, fileId, token || undefined)}
                         disabled={false}
                         themeColors={{
                           backgroundColor: '#ffffff',
@@ -701,8 +718,8 @@ const saveProgress = useCallback(async () => {
                 variant="secondary"
                 size="sm"
                 onClick={goToPreviousPage}
-                disabled={getPreviousPageWithQuestions() === null || submitting}
-                className={`text-xs ${getPreviousPageWithQuestions() === null || submitting ? 'opacity-50' : ''}`}
+                disabled={getPreviousStep() === null || submitting}
+                className={`text-xs ${getPreviousStep() === null || submitting ? 'opacity-50' : ''}`}
               >
                 ← Previous
               </Button>
@@ -1,10 +1,69 @@
 // React is imported by default in React 18+
-import { useParams } from 'react-router-dom';
+import { useLocation, useParams } from 'react-router-dom';
+import { CheckCircle2, XCircle } from 'lucide-react';
 import Card from '../components/ui/Card';
 import ThemeToggle from '../components/ui/ThemeToggle';
+import type { QuizOutcome } from '@shared/quiz';
+
+function QuizResult({ quiz }: Readonly<{ quiz: QuizOutcome }>) {
+  return (
+    <div className="mb-6 text-left">
+      <div
+        className={`p-4 rounded-lg text-center ${
+          quiz.passed ? 'bg-green-50 dark:bg-green-900/30' : 'bg-red-50 dark:bg-red-900/30'
+        }`}
+      >
+        <p className={`text-sm font-semibold uppercase tracking-wide ${quiz.passed ? 'text-green-700 dark:text-green-300' : 'text-red-700 dark:text-red-300'}`}>
+          {quiz.passed ? 'Passed' : 'Not passed'}
+        </p>
+        {quiz.score !== undefined && (
+          <p className="mt-1 text-3xl font-bold text-gray-900 dark:text-white">
+            {quiz.score} / {quiz.maxScore}
+            <span className="ml-2 text-base font-medium text-gray-500 dark:text-gray-400">({quiz.percent}%)</span>
+          </p>
+        )}
+        {quiz.message && (
+          <p className="mt-2 text-gray-700 dark:text-gray-300 whitespace-pre-line">{quiz.message}</p>
+        )}
+      </div>
+
+      {quiz.feedback && quiz.feedback.length > 0 && (
+        <ol className="mt-4 space-y-3">
+          {quiz.feedback.map((item) => (
+            <li key={item.questionId} className="flex gap-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700">
+              {item.correct ? (
+                <CheckCircle2 className="h-5 w-5 flex-shrink-0 text-green-600" aria-label="Correct" />
+              ) : (
+                <XCircle className="h-5 w-5 flex-shrink-0 text-red-600" aria-label="Incorrect" />
+              )}
+              <div className="text-sm">
+                <p className="font-medium text-gray-900 dark:text-white">
+                  {item.title}
+                  <span className="ml-2 font-normal text-gray-500 dark:text-gray-400">
+                    {item.earned}/{item.points} pt{item.points === 1 ? '' : 's'}
+                  </span>
+                </p>
+                {!item.correct && item.correctAnswer.length > 0 && (
+                  <p className="mt-1 text-gray-600 dark:text-gray-400">
+                    Correct answer: {item.correctAnswer.join(', ')}
+                  </p>
+                )}
+                {item.explanation && (
+                  <p className="mt-1 text-gray-600 dark:text-gray-400 whitespace-pre-line">{item.explanation}</p>
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
 
 export default function ThankYou() {
   const { slug } = useParams<{ slug: string }>();
+  // Set by SurveyRenderer when the submitted survey is a quiz; lost on reload
+  const quiz = (useLocation().state as { quiz?: QuizOutcome } | null)?.quiz;
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center py-8 relative">
@@ -13,7 +72,7 @@ export default function ThankYou() {
         <ThemeToggle />
       </div>
       
-      <div className="max-w-md w-full mx-4">
+      <div className={`${quiz?.feedback?.length ? 'max-w-xl' : 'max-w-md'} w-full mx-4`}>
         <Card>
           <div className="p-8 text-center">
             {/* Success Icon */}
@@ -42,6 +101,8 @@ export default function ThankYou() {
               Your responses have been submitted successfully. We appreciate your time and feedback.
             </p>
 
+            {quiz && <QuizResult quiz={quiz} />}
+
             {/* Survey identifier */}
             {slug && (
               <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
@@ -1,13 +1,29 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useParams } from 'react-router-dom';
 import io from 'socket.io-client';
 import Card from '../../components/ui/Card';
 import Button from '../../components/ui/Button';
 import ChartSelector, { type ChartType } from '../../components/charts/ChartSelector';
 import ChartRenderer from '../../components/charts/ChartRenderer';
+import NumericSummary from '../../components/charts/NumericSummary';
+import type { NumericPercentiles } from '../../components/charts/NumericSummary';
+import QuizResults from '../../components/charts/QuizResults';
+import type { QuizAnalytics } from '../../components/charts/QuizResults';
+import HiddenFieldResults from '../../components/charts/HiddenFieldResults';
+import type { HiddenFieldAnalytics } from '../../components/charts/HiddenFieldResults';
+import ComputedResults from '../../components/charts/ComputedResults';
+import type { ComputedVariableAnalytics } from '../../components/charts/ComputedResults';
 import { exportReport } from '../../utils/exportReport';
 import { fetchSurveyByIdApi } from '../../api-paths/surveysApi';
 import { fetchAnalyticsApi } from '../../api-paths/analyticsApi';
+import ExportResponsesModal from '../../components/modals/ExportResponsesModal';
+import ResponseFilterBar from '../../components/dashboard/ResponseFilterBar';
+import type { FilterableQuestion } from '../../components/dashboard/ResponseFilterBar';
+import { EMPTY_RESPONSE_FILTERS } from '../../utils/responseFilters';
+import type { ResponseFilterParams } from '../../utils/responseFilters';
+import { hasSurveyPermission } from '@shared/surveyAccess';
+import type { SurveyRole } from '@shared/surveyAccess';
+import type { HiddenFieldDefinition } from '@shared/hiddenFields';
 
 interface ResultsQuestionAnalytics {
   questionId: string;
@@ -15,7 +31,7 @@ interface ResultsQuestionAnalytics {
   title: string;
   totalResponses: number;
   analytics: {
-    type: 'choice' | 'numeric' | 'text' | 'matrix' | 'grid' | 'basic';
+    type: 'choice' | 'numeric' | 'text' | 'matrix' | 'grid' | 'basic' | 'nps' | 'ranking' | 'constantSum';
     data?: Record<string, unknown>;
     values?: Array<{ label: string; value: number; percentage: number }>;
     stats?: {
@@ -25,13 +41,35 @@ interface ResultsQuestionAnalytics {
       responses?: number;
     };
     textResponses?: string[];
+    multiSelect?: boolean;
+    // Numeric questions
+    avg?: number;
+    median?: number;
+    min?: number;
+    max?: number;
+    percentiles?: NumericPercentiles;
+    unit?: string;
   } | null;
+  // Questions inside a loop: the same analysis for each loop item
+  loopItems?: Array<{
+    itemId: string;
+    label: string;
+    totalResponses: number;
+    analytics: ResultsQuestionAnalytics['analytics'];
+  }>;
 }
 
 interface AnalyticsData {
   surveyId: string;
   totalResponses: number;
   questions: ResultsQuestionAnalytics[];
+  filtered?: boolean;
+  // Only set for surveys in quiz mode
+  quiz?: QuizAnalytics | null;
+  // Value counts per hidden field, empty when the survey has none
+  hiddenFields?: HiddenFieldAnalytics[];
+  // Distribution per computed variable, empty when the survey has none
+  computed?: ComputedVariableAnalytics[];
 }
 
 interface Survey {
@@ -39,6 +77,9 @@ interface Survey {
   title: string;
   description?: string;
   createdAt?: string;
+  role?: SurveyRole;
+  pages?: Array<{ questions: FilterableQuestion[] }>;
+  hiddenFields?: HiddenFieldDefinition[];
 }
 
 const Results: React.FC = () => {
@@ -48,9 +89,17 @@ const Results: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [chartTypes, setChartTypes] = useState<Record<string, ChartType>>({});
+  // Loop item shown per looped question; all items together when unset
+  const [selectedLoopItems, setSelectedLoopItems] = useState<Record<string, string>>({});
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const [socket, setSocket] = useState<any>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [filters, setFilters] = useState<ResponseFilterParams>(EMPTY_RESPONSE_FILTERS);
+  // Read by fetchAnalytics so the socket handler, bound once per survey, refetches with the current filters
+  const filtersRef = useRef(filters);
+
+  const questions = useMemo(() => (survey?.pages || []).flatMap((page) => page.questions || []), [survey]);
 
   const fetchSurvey = useCallback(async () => {
     if (!surveyId) return;
@@ -72,7 +121,7 @@ const Results: React.FC = () => {
     setError(null);
 
     try {
-      const data = await fetchAnalyticsApi(surveyId); // call API service
+      const data = await fetchAnalyticsApi(surveyId, filtersRef.current); // call API service
       setAnalyticsData(data);
       setLastUpdated(new Date());
 
@@ -80,16 +129,24 @@ const Results: React.FC = () => {
       for (const q of data.questions as ResultsQuestionAnalytics[]) {
         switch (q.analytics?.type) {
           case 'choice':
-          case 'matrix':
           case 'grid':
+          case 'ranking':
+          case 'constantSum':
             defaultCharts[q.questionId] = 'Bar';
             break;
+          case 'matrix':
+            // Diverging bars read best for agreement scales; multi-select rows stack counts instead
+            defaultCharts[q.questionId] = q.analytics.multiSelect ? 'Bar' : 'Diverging';
+            break;
           case 'numeric':
             defaultCharts[q.questionId] = 'Line';
             break;
           case 'text':
             defaultCharts[q.questionId] = 'WordCloud';
             break;
+          case 'nps':
+            defaultCharts[q.questionId] = 'Gauge';
+            break;
           default:
             defaultCharts[q.questionId] = 'Bar';
         }
@@ -141,6 +198,13 @@ const Results: React.FC = () => {
     };
   }, [surveyId]);
 
+  const handleFiltersChange = (next: ResponseFilterParams) => {
+    filtersRef.current = next;
+    setFilters(next);
+    if (next.from && next.to && next.from > next.to) return;
+    fetchAnalytics();
+  };
+
   const getAvailableChartTypes = (analyticsType: string): ChartType[] => {
     switch (analyticsType) {
       case 'choice':
@@ -148,7 +212,13 @@ const Results: React.FC = () => {
         return ['Bar', 'Pie', 'Line'];
       case 'text':
         return ['WordCloud'];
+      case 'nps':
+        return ['Gauge', 'Bar', 'Pie', 'Line'];
       case 'matrix':
+        return ['Diverging', 'Bar'];
+      case 'ranking':
+      case 'constantSum':
+        return ['Bar', 'Pie'];
       case 'grid':
         return ['Bar', 'Pie', 'Line'];
       default:
@@ -169,7 +239,7 @@ const Results: React.FC = () => {
     }
   };
 
-  if (loading) {
+  if (loading && !analyticsData) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="text-gray-600 dark:text-gray-400">Loading analytics...</div>
@@ -200,7 +270,7 @@ const Results: React.FC = () => {
         <div>
           <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Survey Results</h1>
           <p className="text-gray-600 dark:text-gray-400">
-            {analyticsData.totalResponses} responses collected
+            {analyticsData.totalResponses} responses {analyticsData.filtered ? 'match the filters' : 'collected'}
             {lastUpdated && (
               <span className="ml-2 text-sm">
                 (Last updated: {lastUpdated.toLocaleTimeString()})
@@ -212,12 +282,29 @@ const Results: React.FC = () => {
           <Button variant="outline" onClick={handleExportPDF} disabled={!survey || !analyticsData}>
             Download PDF
           </Button>
+          {survey && hasSurveyPermission(survey.role ?? 'owner', 'export') && (
+            <Button variant="outline" onClick={() => setShowExportModal(true)}>
+              Export Responses
+            </Button>
+          )}
           <Button variant="outline" onClick={fetchAnalytics}>
             Refresh Data
           </Button>
         </div>
       </div>
 
+      {/* Filters */}
+      <Card>
+        <div className="p-6">
+          <ResponseFilterBar
+            questions={questions}
+            hiddenFields={survey?.hiddenFields}
+            value={filters}
+            onChange={handleFiltersChange}
+          />
+        </div>
+      </Card>
+
       {/* Summary Card */}
       <Card>
         <div className="p-6">
@@ -247,64 +334,137 @@ const Results: React.FC = () => {
         </div>
       </Card>
 
-      {/* Question Analytics */}
-      {analyticsData.questions.map((question) => (
-        <Card key={question.questionId}>
+      {analyticsData.quiz && (
+        <Card>
           <div className="p-6">
-            <div className="flex items-center justify-between mb-4">
-              <div>
-                <h3 className="text-lg font-medium text-gray-900 dark:text-white">
-                  {question.title}
-                </h3>
-                <p className="text-sm text-gray-500 dark:text-gray-400">
-                  {question.totalResponses} responses • {question.type}
-                </p>
-              </div>
-              {question.analytics && (
-                <div className="w-48">
-                  <ChartSelector
-                    value={chartTypes[question.questionId] || 'Bar'}
-                    onChange={(type) => updateChartType(question.questionId, type)}
-                    availableTypes={getAvailableChartTypes(question.analytics.type)}
-                  />
-                </div>
-              )}
-            </div>
+            <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+              Quiz Scores
+            </h2>
+            <QuizResults quiz={analyticsData.quiz} />
+          </div>
+        </Card>
+      )}
+
+      {analyticsData.hiddenFields && analyticsData.hiddenFields.length > 0 && (
+        <Card>
+          <div className="p-6">
+            <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+              Hidden Fields
+            </h2>
+            <HiddenFieldResults fields={analyticsData.hiddenFields} totalResponses={analyticsData.totalResponses} />
+          </div>
+        </Card>
+      )}
 
-            {(() => {
-              if (question.totalResponses === 0) {
-                return (
-                  <div className="text-gray-500 dark:text-gray-400 text-center py-8">
-                    No responses yet for this question
-                  </div>
-                );
-              } else if (question.analytics) {
-                return (
-                  <ChartRenderer
-                    chartType={chartTypes[question.questionId] || 'Bar'}
-                    data={question.analytics}
-                    title=''
-                  />
-                );
-              } else {
-                return (
-                  <div className="text-gray-500 dark:text-gray-400 text-center py-8">
-                    Analytics not available for this question type
-                  </div>
-                );
-              }
-            })()}
+      {analyticsData.computed && analyticsData.computed.length > 0 && (
+        <Card>
+          <div className="p-6">
+            <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+              Computed Variables
+            </h2>
+            <ComputedResults variables={analyticsData.computed} totalResponses={analyticsData.totalResponses} />
           </div>
         </Card>
-      ))}
+      )}
+
+      {/* Question Analytics */}
+      {analyticsData.questions.map((question) => {
+        const shown = question.loopItems?.find(item => item.itemId === selectedLoopItems[question.questionId]) ?? question;
+        return (
+          <Card key={question.questionId}>
+            <div className="p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+                    {question.title}
+                  </h3>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {shown.totalResponses} responses • {question.type}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  {question.loopItems && question.loopItems.length > 0 && (
+                    <select
+                      aria-label="Loop item"
+                      value={selectedLoopItems[question.questionId] ?? ''}
+                      onChange={(e) => setSelectedLoopItems(prev => ({ ...prev, [question.questionId]: e.target.value }))}
+                      className="w-48 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    >
+                      <option value="">All loop items</option>
+                      {question.loopItems.map(item => (
+                        <option key={item.itemId} value={item.itemId}>{item.label}</option>
+                      ))}
+                    </select>
+                  )}
+                  {shown.analytics && (
+                    <div className="w-48">
+                      <ChartSelector
+                        value={chartTypes[question.questionId] || 'Bar'}
+                        onChange={(type) => updateChartType(question.questionId, type)}
+                        availableTypes={getAvailableChartTypes(shown.analytics.type)}
+                      />
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {(() => {
+                if (shown.totalResponses === 0) {
+                  return (
+                    <div className="text-gray-500 dark:text-gray-400 text-center py-8">
+                      No responses yet for this question
+                    </div>
+                  );
+                } else if (shown.analytics) {
+                  return (
+                    <>
+                      <ChartRenderer
+                        chartType={chartTypes[question.questionId] || 'Bar'}
+                        data={shown.analytics}
+                        title=''
+                      />
+                      {shown.analytics.type === 'numeric' && shown.analytics.median !== undefined && (
+                        <NumericSummary
+                          mean={shown.analytics.avg}
+                          median={shown.analytics.median}
+                          min={shown.analytics.min}
+                          max={shown.analytics.max}
+                          percentiles={shown.analytics.percentiles}
+                          unit={shown.analytics.unit}
+                        />
+                      )}
+                    </>
+                  );
+                } else {
+                  return (
+                    <div className="text-gray-500 dark:text-gray-400 text-center py-8">
+                      Analytics not available for this question type
+                    </div>
+                  );
+                }
+              })()}
+            </div>
+          </Card>
+        );
+      })}
 
       {analyticsData.questions.length === 0 && (
         <Card>
           <div className="p-6 text-center text-gray-500 dark:text-gray-400">
-            No questions found in this survey
+            {analyticsData.filtered ? 'No responses match the current filters' : 'No questions found in this survey'}
           </div>
         </Card>
       )}
+
+      {surveyId && (
+        <ExportResponsesModal
+          isOpen={showExportModal}
+          onClose={() => setShowExportModal(false)}
+          surveyId={surveyId}
+          surveyTitle={survey?.title}
+          filters={filters}
+        />
+      )}
     </div>
   );
 };
@@ -14,6 +14,7 @@ import {
   validateSurveyData,
   handleSaveError,
   createNewQuestion,
+  withDraftContent,
 } from "../../utils/surveyUtils";
 import { useSurvey } from "../../hooks/useSurvey";
 import SurveyBuilderContent from "./SurveyBuilderContent";
@@ -118,7 +119,7 @@ export default function SurveyBuilder() {
       const savedSurvey = isNew ? responseData : responseData.survey;
       const updatedSurvey = isNew
         ? savedSurvey
-        : { ...savedSurvey, id: survey.id };
+        : withDraftContent({ ...savedSurvey, id: survey.id });
       setSurvey(updatedSurvey);
 
       if (isNew) {
@@ -1,11 +1,13 @@
 import { useEffect, useMemo, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { DndContext, DragOverlay } from "@dnd-kit/core";
-import { Users, Circle, CheckSquare2, List, Type, FileText, Star, Smile, Hash, SlidersHorizontal } from "lucide-react";
+import { Users, Circle, CheckSquare2, List, Type, FileText, Star, Smile, Hash, SlidersHorizontal, Gauge, Grid3x3, ListOrdered, Sigma, Binary } from "lucide-react";
 import Card from "../../components/ui/Card";
 import Button from "../../components/ui/Button";
 import ReorderableQuestions from "../../components/survey/ReorderableQuestions";
 import VisibilityRulesModal from "../../components/modals/VisibilityRulesModal";
+import BranchingRulesModal from "../../components/modals/BranchingRulesModal";
+import LoopSettingsModal from "../../components/modals/LoopSettingsModal";
 import AddQuestionModal from "../../components/modals/AddQuestionModal";
 import ComponentLibraryPanel from "../../components/survey/ComponentLibraryPanel";
 import PreviewArea from "../../components/survey/PreviewArea";
@@ -17,13 +19,22 @@ import PublishedModeView from "../../components/survey/PublishedModeView";
 import RespondentProgress from "../../components/dashboard/RespondentProgress";
 import type { Question } from "./SurveyBuilder";
 import RespondentsModal from "../../components/modals/RespondentsModal";
+import RevisionHistoryModal from "../../components/modals/RevisionHistoryModal";
 import {
   validateSurveyForPublish,
   prepareStatusUpdatePayload,
   getStatusSuccessMessage,
   validateSurveyForGoingLive,
+  withDraftContent,
 } from "../../utils/surveyUtils";
+import { discardSurveyDraftApi, publishSurveyDraftApi } from "../../api-paths/surveysApi";
 import { showSuccessToast, showWarningToast } from "../../utils/toast";
+import { SURVEY_ROLE_LABELS, hasSurveyPermission } from "@shared/surveyAccess";
+import type { SurveyRole } from "@shared/surveyAccess";
+import { getHiddenFields } from "@shared/hiddenFields";
+import { getComputedVariables } from "@shared/computedVariables";
+import { findLoopBlock, getBlockQuestionIds, getLoopBlocks } from "@shared/loops";
+import { getComputedVariableCandidates, getHiddenFieldCandidates } from "../../utils/ruleEditorUtils";
 
 const QUESTION_TYPES = [
   {
@@ -50,6 +61,22 @@ const QUESTION_TYPES = [
     iconComponent: List,
     category: "choice",
   },
+  {
+    type: "ranking",
+    name: "Ranking",
+    description: "Drag options into order",
+    icon: "ListOrdered",
+    iconComponent: ListOrdered,
+    category: "choice",
+  },
+  {
+    type: "constant_sum",
+    name: "Constant sum",
+    description: "Split a total across options",
+    icon: "Sigma",
+    iconComponent: Sigma,
+    category: "choice",
+  },
   {
     type: "text_short",
     name: "Short text",
@@ -66,6 +93,14 @@ const QUESTION_TYPES = [
     iconComponent: FileText,
     category: "input",
   },
+  {
+    type: "number",
+    name: "Number",
+    description: "Numeric input",
+    icon: "Binary",
+    iconComponent: Binary,
+    category: "input",
+  },
   {
     type: "rating_star",
     name: "Star rating",
@@ -90,6 +125,14 @@ const QUESTION_TYPES = [
     iconComponent: Hash,
     category: "rating",
   },
+  {
+    type: "nps",
+    name: "Net Promoter Score",
+    description: "0-10 likelihood to recommend",
+    icon: "Gauge",
+    iconComponent: Gauge,
+    category: "rating",
+  },
   {
     type: "slider",
     name: "Slider",
@@ -98,6 +141,14 @@ const QUESTION_TYPES = [
     iconComponent: SlidersHorizontal,
     category: "rating",
   },
+  {
+    type: "matrix",
+    name: "Matrix / Likert",
+    description: "Rate statements on a shared scale",
+    icon: "Grid3x3",
+    iconComponent: Grid3x3,
+    category: "rating",
+  },
 ] as const;
 
 interface SurveyBuilderContentProps {
@@ -165,6 +216,22 @@ const getStatusBadge = (status: string) => {
   );
 };
 
+const renderVersionBadges = (survey: { locked?: boolean; version?: number; draft?: unknown }) => {
+  if (!survey.locked) return null;
+  return (
+    <>
+      <span className="px-2 py-1 text-xs font-medium rounded-full bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200">
+        v{survey.version ?? 1}
+      </span>
+      {Boolean(survey.draft) && (
+        <span className="px-2 py-1 text-xs font-medium rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200">
+          Unpublished changes
+        </span>
+      )}
+    </>
+  );
+};
+
 export default function SurveyBuilderContent({
   survey,
   setSurvey,
@@ -208,7 +275,11 @@ export default function SurveyBuilderContent({
   const [confirmAction, setConfirmAction] = useState<string | null>(null);
   const [isConfirmModalOpen, setIsConfirmModalOpen] = useState(false);
   const [respondentsModalOpen, setRespondentsModalOpen] = useState(false);
+  const [isBranchingModalOpen, setIsBranchingModalOpen] = useState(false);
+  const [isLoopModalOpen, setIsLoopModalOpen] = useState(false);
   const [statusChanging, setStatusChanging] = useState(false);
+  const [editingNewVersion, setEditingNewVersion] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [validationError, setValidationError] = useState<string | null>(null);
   const hasPersistedSurvey = useMemo(
     () => Boolean(survey?.id && survey.id !== "new"),
@@ -279,7 +350,7 @@ export default function SurveyBuilderContent({
       }
 
       const freshSurvey = await freshResponse.json();
-      setSurvey(freshSurvey);
+      setSurvey(withDraftContent(freshSurvey));
 
       // Validate again after fetching fresh data to ensure backend state matches
       if (newStatus === "published") {
@@ -355,7 +426,7 @@ export default function SurveyBuilderContent({
 
       const result = await response.json();
       console.log("Survey updated:", result);
-      setSurvey(result.survey);
+      setSurvey(withDraftContent(result.survey));
 
       const successMessage = getStatusSuccessMessage(result.survey.status);
       if (successMessage) {
@@ -370,6 +441,44 @@ export default function SurveyBuilderContent({
     }
   };
 
+  // Saves the edited content as a draft, then publishes it as the next survey version
+  const handlePublishNewVersion = async (): Promise<void> => {
+    const validation = validateSurveyForPublish(survey);
+    if (!validation.valid) {
+      setValidationError(validation.error || "Validation error");
+      return;
+    }
+    setStatusChanging(true);
+    try {
+      const savedSurvey = await saveSurvey();
+      if (!savedSurvey) return;
+      const result = await publishSurveyDraftApi(savedSurvey.id);
+      setSurvey(withDraftContent({ ...savedSurvey, ...result.survey, id: savedSurvey.id }));
+      setEditingNewVersion(false);
+      showSuccessToast(`Version ${result.survey.version} published.`);
+    } catch (err) {
+      console.error("Publish version error:", err);
+      setError(err instanceof Error ? err.message : "Failed to publish new version");
+    } finally {
+      setStatusChanging(false);
+    }
+  };
+
+  const handleDiscardDraft = async (): Promise<void> => {
+    setStatusChanging(true);
+    try {
+      const result = await discardSurveyDraftApi(survey.id);
+      setSurvey(withDraftContent({ ...survey, ...result.survey, id: survey.id }));
+      setEditingNewVersion(false);
+      showSuccessToast("Draft changes discarded.");
+    } catch (err) {
+      console.error("Discard draft error:", err);
+      setError(err instanceof Error ? err.message : "Failed to discard draft");
+    } finally {
+      setStatusChanging(false);
+    }
+  };
+
   // Theme is fixed to default (Ocean Blue); removed applying survey.theme
 
   // Show loading immediately until all content is loaded
@@ -398,8 +507,18 @@ export default function SurveyBuilderContent({
   }
 
   const page = currentPage || { questions: [], branching: [] };
+  const loopBlocks = getLoopBlocks(survey.pages);
+  const currentLoopBlock = findLoopBlock(loopBlocks, activePageIndex);
 
   const surveyStatus = survey.status || "draft";
+  // New surveys have no role yet; shared surveys are read-only unless the role allows editing
+  const surveyRole: SurveyRole = survey.role ?? "owner";
+  const canEdit = hasSurveyPermission(surveyRole, "edit");
+  // Published surveys are edited as a draft of their next version
+  const isEditingVersion =
+    canEdit && editingNewVersion && survey.locked && (surveyStatus === "published" || surveyStatus === "live");
+  const showEditor = canEdit && (surveyStatus === "draft" || isEditingVersion);
+  const nextVersion = (survey.version ?? 1) + 1;
 
   const openConfirmation = (action: string) => {
     setConfirmAction(action);
@@ -430,6 +549,12 @@ export default function SurveyBuilderContent({
         case "archive":
           await handleStatusChangeLocal("archived");
           break;
+        case "publishVersion":
+          await handlePublishNewVersion();
+          break;
+        case "discardDraft":
+          await handleDiscardDraft();
+          break;
         default:
           break;
       }
@@ -485,27 +610,46 @@ export default function SurveyBuilderContent({
           actionText: "Archive",
           loadingText: "Archiving...",
         };
+      case "publishVersion":
+        return {
+          title: `Publish Version ${nextVersion}`,
+          message:
+            "New respondents will see the updated survey. Existing responses stay linked to the version they answered. Continue?",
+          actionText: "Publish",
+          loadingText: "Publishing...",
+        };
+      case "discardDraft":
+        return {
+          title: "Discard Draft",
+          message:
+            "All unpublished changes will be lost and the survey will go back to the published version. Continue?",
+          actionText: "Discard",
+          loadingText: "Discarding...",
+        };
       default:
         return { title: "", message: "", actionText: "Confirm", loadingText: "Processing..." };
     }
   })();
 
   const renderHeader = () => {
-    const showDates = surveyStatus === "draft" || surveyStatus === "published";
+    const showDates = canEdit && (surveyStatus === "draft" || surveyStatus === "published");
 
     return (
       <div className="flex flex-col space-y-2 flex-1">
         {/* Title & Description */}
-        {surveyStatus === "draft" ? (
+        {showEditor ? (
           <>
             <div className="flex items-center gap-3">
               <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
                 Survey Builder
               </h1>
               {getStatusBadge(surveyStatus)}
+              {renderVersionBadges(survey)}
             </div>
             <p className="text-gray-600 dark:text-gray-400">
-              Build and customize your survey
+              {isEditingVersion
+                ? `Editing version ${nextVersion}. Respondents keep seeing version ${survey.version ?? 1} until you publish.`
+                : "Build and customize your survey"}
             </p>
           </>
         ) : (
@@ -515,10 +659,16 @@ export default function SurveyBuilderContent({
                 {survey.title || "Untitled Survey"}
               </h1>
               {getStatusBadge(surveyStatus)}
+              {renderVersionBadges(survey)}
             </div>
             <p className="text-gray-600 dark:text-gray-400">
               {survey.description || "No description provided"}
             </p>
+            {!canEdit && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Shared with you as {SURVEY_ROLE_LABELS[surveyRole].toLowerCase()} · read-only
+              </p>
+            )}
           </>
         )}
 
@@ -568,6 +718,82 @@ export default function SurveyBuilderContent({
       setRespondentsModalOpen(true);
     };
 
+    const editVersionButton = survey.locked ? (
+      <Button variant="outline" onClick={() => setEditingNewVersion(true)}>
+        {survey.draft ? "Continue Editing" : "Edit"}
+      </Button>
+    ) : null;
+
+    const historyButton = hasPersistedSurvey ? (
+      <Button variant="outline" onClick={() => setIsHistoryOpen(true)}>
+        History
+      </Button>
+    ) : null;
+
+    const publishVersionButton = (
+      <Button
+        variant="primary"
+        onClick={() => openConfirmation("publishVersion")}
+        disabled={statusChanging || saving}
+      >
+        {statusChanging ? "Publishing..." : `Publish v${nextVersion}`}
+      </Button>
+    );
+
+    if (!canEdit) {
+      return (
+        <div className="flex justify-end items-start space-x-3 overflow-x-auto">
+          <Button variant="outline" onClick={openPreviewInNewTab}>
+            Preview
+          </Button>
+          {historyButton}
+          {surveyStatus !== "draft" && hasSurveyPermission(surveyRole, "results") && (
+            <Button
+              variant="outline"
+              onClick={() => navigate(`/dashboard/results/${surveyId}`)}
+            >
+              Analytics
+            </Button>
+          )}
+        </div>
+      );
+    }
+
+    if (isEditingVersion) {
+      Buttons = (
+        <>
+          {publishVersionButton}
+          <Button variant="outline" onClick={openPreviewInNewTab}>
+            Preview
+          </Button>
+          <Button
+            variant="outline"
+            onClick={async () => {
+              const saved = await saveSurvey();
+              if (saved) showSuccessToast("Draft saved.");
+            }}
+            disabled={saving}
+          >
+            {saving ? "Saving..." : "Save Draft"}
+          </Button>
+          {historyButton}
+          {survey.draft && (
+            <Button variant="danger" onClick={() => openConfirmation("discardDraft")}>
+              Discard Draft
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => setEditingNewVersion(false)}>
+            Done
+          </Button>
+        </>
+      );
+      return (
+        <div className="flex justify-end items-start space-x-3 overflow-x-auto">
+          {Buttons}
+        </div>
+      );
+    }
+
     switch (surveyStatus) {
       case "draft":
         Buttons = (
@@ -599,6 +825,8 @@ export default function SurveyBuilderContent({
 }} disabled={saving}>
               {saving ? "Saving..." : "Save"}
             </Button>
+            {historyButton}
+            {survey.locked && survey.draft && publishVersionButton}
             <Button variant="danger" onClick={() => openConfirmation("delete")}>
               Delete
             </Button>
@@ -616,6 +844,7 @@ export default function SurveyBuilderContent({
             >
               {statusChanging ? "Processing..." : "Go Live"}
             </Button>
+            {editVersionButton}
             <Button variant="outline" onClick={openPreviewInNewTab}>
               Preview
             </Button>
@@ -640,6 +869,7 @@ export default function SurveyBuilderContent({
             >
               {statusChanging ? "Closing..." : "Close Survey"}
             </Button>
+            {editVersionButton}
             <Button variant="outline" onClick={openPreviewInNewTab}>
               Preview
             </Button>
@@ -697,121 +927,148 @@ export default function SurveyBuilderContent({
       </div>
     );
   };
-  const renderMainContent = () => {
-    switch (surveyStatus) {
-      case "draft":
-        return (
-          <>
-            <SurveyDetailsCard
-              survey={survey}
-              setSurvey={setSurvey}
-              activeTab={activeTab}
-              setActiveTab={setActiveTab}
-            />
-
-            <PageNavigation
-              pages={survey.pages}
-              activePageIndex={activePageIndex}
-              onPageChange={setActivePageIndex}
-              onAddPage={addPage}
-              onDeletePage={deletePage}
-            />
+  const renderEditor = () => (
+    <>
+      <SurveyDetailsCard
+        survey={survey}
+        setSurvey={setSurvey}
+        activeTab={activeTab}
+        setActiveTab={setActiveTab}
+      />
 
-            <DndContext
-              sensors={sensors}
-              collisionDetection={closestCenter}
-              onDragEnd={handleDragEnd}
-              onDragStart={handleDragStart}
-            >
-              <div className="grid grid-cols-12 gap-6 h-[600px]">
-                <div className="col-span-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-y-auto scrollbar-thin scrollbar-thumb-gray-300 dark:scrollbar-thumb-gray-600 scrollbar-track-gray-100 dark:scrollbar-track-gray-800">
-                  <div className="p-4">
-                    <ComponentLibraryPanel
-                      questionTypes={[...QUESTION_TYPES]}
-                    />
-                  </div>
-                </div>
+      <PageNavigation
+        pages={survey.pages}
+        activePageIndex={activePageIndex}
+        onPageChange={setActivePageIndex}
+        onAddPage={addPage}
+        onDeletePage={deletePage}
+      />
 
-                <div className="col-span-6 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-y-auto">
-                  <div className="p-4">
-                    <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
-                      Question Order
-                    </h2>
-                    {!page.questions || page.questions.length === 0 ? (
-                      <div className="text-center text-gray-500 dark:text-gray-400 py-12 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg">
-                        Drag and drop questions here to add them to your survey
-                      </div>
-                    ) : (
-                      <ReorderableQuestions
-                        questions={page.questions}
-                        onDeleteQuestion={deleteQuestion}
-                        onSelectQuestion={setSelectedQuestion}
-                      />
-                    )}
-                  </div>
-                </div>
+      <DndContext
+        sensors={sensors}
+        collisionDetection={closestCenter}
+        onDragEnd={handleDragEnd}
+        onDragStart={handleDragStart}
+      >
+        <div className="grid grid-cols-12 gap-6 h-[600px]">
+          <div className="col-span-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-y-auto scrollbar-thin scrollbar-thumb-gray-300 dark:scrollbar-thumb-gray-600 scrollbar-track-gray-100 dark:scrollbar-track-gray-800">
+            <div className="p-4">
+              <ComponentLibraryPanel
+                questionTypes={[...QUESTION_TYPES]}
+              />
+            </div>
+          </div>
 
-                <div className="col-span-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-y-auto scrollbar-thin scrollbar-thumb-gray-300 dark:scrollbar-thumb-gray-600 scrollbar-track-gray-100 dark:scrollbar-track-gray-800">
-                  <div className="p-4">
-                    <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
-                      Question Settings
-                    </h2>
-                    <QuestionSettingsPanel
-                      selectedQuestion={selectedQuestion}
-                      survey={survey}
-                      setSurvey={setSurvey}
-                      activePageIndex={activePageIndex}
-                      setSelectedQuestion={setSelectedQuestion}
-                      onEditVisibility={handleEditVisibility}
-                    />
-                  </div>
+          <div className="col-span-6 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-y-auto">
+            <div className="p-4">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-medium text-gray-900 dark:text-white">
+                  Question Order
+                </h2>
+                <div className="flex items-center space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setIsLoopModalOpen(true)}
+                  >
+                    {currentLoopBlock ? `Loop (pages ${currentLoopBlock.startPageIndex + 1}-${currentLoopBlock.endPageIndex})` : "Loop"}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setIsBranchingModalOpen(true)}
+                    disabled={!!currentLoopBlock}
+                  >
+                    Branching{page.branching?.length ? ` (${page.branching.length})` : ""}
+                  </Button>
                 </div>
               </div>
-
-              <DragOverlay>
-                {activeDragId ? (
-                  <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4 shadow-lg">
-                    <div className="text-sm font-medium text-gray-900 dark:text-white">
-                      {survey.pages
-                        ?.flatMap((p: any) => p.questions)
-                        .find((q: Question) => q.id === activeDragId)?.title ||
-                        "New Question"}
-                    </div>
-                  </div>
-                ) : null}
-              </DragOverlay>
-            </DndContext>
-
-            <Card className="mt-6">
-              <div className="p-0">
-                <div className="h-[600px] w-full bg-white light">
-                  <PreviewArea
-                    survey={survey}
-                    previewResponses={previewResponses}
-                    onPreviewResponseChange={(questionId, value) =>
-                      setPreviewResponses((prev: Record<string, unknown>) => ({
-                        ...prev,
-                        [questionId]: value,
-                      }))
-                    }
-                    activePageIndex={activePageIndex}
-                  />
+              {!page.questions || page.questions.length === 0 ? (
+                <div className="text-center text-gray-500 dark:text-gray-400 py-12 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg">
+                  Drag and drop questions here to add them to your survey
                 </div>
+              ) : (
+                <ReorderableQuestions
+                  questions={page.questions}
+                  onDeleteQuestion={deleteQuestion}
+                  onSelectQuestion={setSelectedQuestion}
+                />
+              )}
+            </div>
+          </div>
+
+          <div className="col-span-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-y-auto scrollbar-thin scrollbar-thumb-gray-300 dark:scrollbar-thumb-gray-600 scrollbar-track-gray-100 dark:scrollbar-track-gray-800">
+            <div className="p-4">
+              <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+                Question Settings
+              </h2>
+              <QuestionSettingsPanel
+                selectedQuestion={selectedQuestion}
+                survey={survey}
+                setSurvey={setSurvey}
+                activePageIndex={activePageIndex}
+                setSelectedQuestion={setSelectedQuestion}
+                onEditVisibility={handleEditVisibility}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DragOverlay>
+          {activeDragId ? (
+            <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4 shadow-lg">
+              <div className="text-sm font-medium text-gray-900 dark:text-white">
+                {survey.pages
+                  ?.flatMap((p: any) => p.questions)
+                  .find((q: Question) => q.id === activeDragId)?.title ||
+                  "New Question"}
               </div>
-            </Card>
-          </>
-        );
+            </div>
+          ) : null}
+        </DragOverlay>
+      </DndContext>
 
+      <Card className="mt-6">
+        <div className="p-0">
+          <div className="h-[600px] w-full bg-white light">
+            <PreviewArea
+              survey={survey}
+              previewResponses={previewResponses}
+              onPreviewResponseChange={(questionId, value) =>
+                setPreviewResponses((prev: Record<string, unknown>) => ({
+                  ...prev,
+                  [questionId]: value,
+                }))
+              }
+              activePageIndex={activePageIndex}
+            />
+          </div>
+        </div>
+      </Card>
+    </>
+  );
+
+  const renderMainContent = () => {
+    if (showEditor) {
+      return renderEditor();
+    }
+    switch (surveyStatus) {
       case "published":
         return <PublishedModeView startDate={survey.startDate} />;
 
       case "live":
       case "closed":
       case "archived":
-        return surveyId ? <RespondentProgress surveyId={surveyId} /> : null;
+        return surveyId && hasSurveyPermission(surveyRole, "results") ? <RespondentProgress surveyId={surveyId} /> : null;
 
       default:
-        return null;
+        return canEdit ? null : (
+          <Card className="p-6">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              This survey is still a draft. Use Preview to see its questions.
+            </p>
+          </Card>
+        );
     }
   };
 
@@ -838,6 +1095,12 @@ export default function SurveyBuilderContent({
           for (let p = 0; p < activePageIndex; p++) {
             candidates.push(...survey.pages[p].questions);
           }
+          // Questions of an earlier loop have one answer per item and cannot be used after it
+          const otherLoopQuestionIds = new Set(
+            loopBlocks
+              .filter((block) => block !== currentLoopBlock)
+              .flatMap((block) => getBlockQuestionIds(survey.pages, block))
+          );
           const currentQs = survey.pages[activePageIndex].questions || [];
           const selIdx = currentQs.findIndex(
             (q: Question) => q.id === selectedQuestion.id
@@ -845,7 +1108,11 @@ export default function SurveyBuilderContent({
           if (selIdx > 0) {
             candidates.push(...currentQs.slice(0, selIdx));
           }
-          return candidates;
+          return [
+            ...candidates.filter((q) => !otherLoopQuestionIds.has(q.id)),
+            ...getHiddenFieldCandidates(getHiddenFields(survey)),
+            ...getComputedVariableCandidates(getComputedVariables(survey)),
+          ];
         })()}
         existingRules={
           selectedQuestion?.settings?.visibleWhen ||
@@ -872,6 +1139,38 @@ export default function SurveyBuilderContent({
         }}
       />
 
+      <BranchingRulesModal
+        isOpen={isBranchingModalOpen}
+        onClose={() => setIsBranchingModalOpen(false)}
+        pageIndex={activePageIndex}
+        pages={survey.pages}
+        hiddenFields={getHiddenFields(survey)}
+        computedVariables={getComputedVariables(survey)}
+        onSave={(rules) => {
+          const updatedPages = [...survey.pages];
+          updatedPages[activePageIndex] = {
+            ...updatedPages[activePageIndex],
+            branching: rules,
+          };
+          setSurvey({ ...survey, pages: updatedPages });
+          setIsBranchingModalOpen(false);
+        }}
+      />
+
+      <LoopSettingsModal
+        isOpen={isLoopModalOpen}
+        onClose={() => setIsLoopModalOpen(false)}
+        pageIndex={currentLoopBlock?.startPageIndex ?? activePageIndex}
+        pages={survey.pages}
+        onSave={(loop) => {
+          const loopPageIndex = currentLoopBlock?.startPageIndex ?? activePageIndex;
+          const updatedPages = [...survey.pages];
+          updatedPages[loopPageIndex] = { ...updatedPages[loopPageIndex], loop };
+          setSurvey({ ...survey, pages: updatedPages });
+          setIsLoopModalOpen(false);
+        }}
+      />
+
       <AddQuestionModal
         isOpen={isAddQuestionModalOpen}
         onClose={() => {
@@ -893,6 +1192,15 @@ export default function SurveyBuilderContent({
         loading={statusChanging}
         loadingText={modalProps.loadingText}
       />
+      <RevisionHistoryModal
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        surveyId={survey.id}
+        canRestore={canEdit}
+        onRestored={(restored) =>
+          setSurvey(withDraftContent({ ...survey, ...restored, id: survey.id }))
+        }
+      />
       <RespondentsModal
         isOpen={respondentsModalOpen}
         onClose={() => setRespondentsModalOpen(false)}
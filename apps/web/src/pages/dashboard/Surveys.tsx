@@ -19,6 +19,7 @@ import {
 } from "../../utils/surveyUtils";
 import { loadConfig, getSurveyPaginationConfig } from "../../utils/config";
 import { ArrowDown, ArrowUp, ArrowUpDown, Loader2 } from "lucide-react";
+import { SURVEY_ROLE_LABELS } from "@shared/surveyAccess";
 import ImportSurveyModal from "../../components/modals/ImportSurveyModal";
 import { showErrorToast, showSuccessToast } from "../../utils/toast";
 
@@ -564,6 +565,11 @@ const Surveys: React.FC = () => {
                     <div className="flex-1">
                       <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-1">
                         {survey.title}
+                        {survey.role && survey.role !== "owner" && (
+                          <span className="ml-2 inline-flex items-center rounded-full bg-blue-50 px-2 py-0.5 text-xs font-normal text-blue-700 dark:bg-blue-900/30 dark:text-blue-300">
+                            Shared · {SURVEY_ROLE_LABELS[survey.role]}
+                          </span>
+                        )}
                       </h3>
                       {survey.description && (
                         <p className="text-xs text-gray-500 dark:text-gray-400 line-clamp-2">
@@ -714,6 +720,11 @@ const Surveys: React.FC = () => {
                         <div className="max-w-[260px] sm:max-w-[320px]">
                           <div className="text-sm font-medium text-gray-900 dark:text-white truncate">
                             {survey.title}
+                            {survey.role && survey.role !== "owner" && (
+                              <span className="ml-2 inline-flex items-center rounded-full bg-blue-50 px-2 py-0.5 text-xs font-normal text-blue-700 dark:bg-blue-900/30 dark:text-blue-300">
+                                Shared · {SURVEY_ROLE_LABELS[survey.role]}
+                              </span>
+                            )}
                           </div>
                           {survey.description && (
                             <div className="text-xs sm:text-sm text-gray-500 dark:text-white truncate">
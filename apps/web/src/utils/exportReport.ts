@@ -18,7 +18,7 @@ interface QuestionAnalytics {
   title: string;
   totalResponses: number;
   analytics: {
-    type: 'choice' | 'numeric' | 'text' | 'matrix' | 'grid' | 'basic';
+    type: 'choice' | 'numeric' | 'text' | 'matrix' | 'grid' | 'basic' | 'nps' | 'ranking' | 'constantSum';
     data?: Record<string, unknown>;
     values?: Array<{ label: string; value: number; percentage: number }>;
     stats?: {
@@ -28,6 +28,30 @@ interface QuestionAnalytics {
       responses?: number;
     };
     textResponses?: string[];
+    // Numeric questions report their summary at the top level
+    avg?: number;
+    min?: number;
+    max?: number;
+    median?: number;
+    percentiles?: { p10: number; p25: number; p75: number; p90: number };
+    score?: number | null;
+    promoters?: number;
+    passives?: number;
+    detractors?: number;
+    columns?: string[];
+    rows?: Array<{ label: string; counts: number[]; total: number; average: number | null }>;
+    options?: Array<{
+      label: string;
+      // Ranking questions
+      averageRank?: number | null;
+      firstChoiceShare?: number;
+      bordaScore?: number;
+      // Constant-sum questions
+      mean?: number;
+      median?: number;
+      share?: number;
+    }>;
+    total?: number;
   } | null;
 }
 
@@ -175,13 +199,16 @@ function buildChoiceContent(question: QuestionAnalytics) {
 }
 
 function buildNumericContent(question: QuestionAnalytics) {
-  const stats = question.analytics?.stats;
-  if (!stats) return [];
+  const analytics = question.analytics;
+  const stats = analytics?.stats ?? { min: analytics?.min, max: analytics?.max, average: analytics?.avg };
+  const percentiles = analytics?.percentiles;
 
   const body = [
     ...(stats.min === undefined ? [] : [['Minimum', stats.min.toString()]]),
     ...(stats.max === undefined ? [] : [['Maximum', stats.max.toString()]]),
     ...(stats.average === undefined ? [] : [['Average', stats.average.toFixed(2)]]),
+    ...(analytics?.median === undefined ? [] : [['Median', analytics.median.toString()]]),
+    ...(percentiles ? [['25th-75th percentile', `${percentiles.p25} - ${percentiles.p75}`], ['10th-90th percentile', `${percentiles.p10} - ${percentiles.p90}`]] : []),
     ...(stats.responses === undefined ? [] : [['Total Responses', stats.responses.toString()]])
   ];
 
@@ -192,6 +219,99 @@ function buildNumericContent(question: QuestionAnalytics) {
   }];
 }
 
+function buildNpsContent(question: QuestionAnalytics) {
+  const analytics = question.analytics;
+  if (analytics?.score === null || analytics?.score === undefined) return [];
+
+  return [{
+    table: {
+      widths: ['*', '*'],
+      body: [
+        ['Net Promoter Score', analytics.score.toString()],
+        ['Promoters (9-10)', String(analytics.promoters ?? 0)],
+        ['Passives (7-8)', String(analytics.passives ?? 0)],
+        ['Detractors (0-6)', String(analytics.detractors ?? 0)]
+      ]
+    },
+    layout: 'lightHorizontalLines',
+    margin: [0, 0, 0, 10] as [number, number, number, number]
+  }];
+}
+
+function buildMatrixContent(question: QuestionAnalytics) {
+  const columns = question.analytics?.columns ?? [];
+  const rows = question.analytics?.rows ?? [];
+  if (columns.length === 0 || rows.length === 0) return [];
+
+  // Averages only exist for single-select matrices
+  const showAverage = rows.some(row => row.average !== null);
+  return [{
+    table: {
+      widths: ['*', ...columns.map(() => 'auto'), ...(showAverage ? ['auto'] : [])],
+      headerRows: 1,
+      body: [
+        ['Statement', ...columns, ...(showAverage ? ['Average'] : [])],
+        ...rows.map(row => [
+          row.label,
+          ...row.counts.map(count => row.total > 0 ? `${count} (${((count / row.total) * 100).toFixed(0)}%)` : '0'),
+          ...(showAverage ? [row.average === null ? '-' : row.average.toFixed(2)] : [])
+        ])
+      ]
+    },
+    layout: 'lightHorizontalLines',
+    fontSize: 10,
+    margin: [0, 0, 0, 10] as [number, number, number, number]
+  }];
+}
+
+function buildRankingContent(question: QuestionAnalytics) {
+  const options = question.analytics?.options ?? [];
+  if (options.length === 0) return [];
+
+  return [{
+    table: {
+      widths: ['*', 'auto', 'auto', 'auto'],
+      headerRows: 1,
+      body: [
+        ['Option', 'Average rank', 'First choice', 'Borda score'],
+        ...options.map(option => [
+          option.label,
+          typeof option.averageRank === 'number' ? option.averageRank.toFixed(2) : '-',
+          `${option.firstChoiceShare ?? 0}%`,
+          String(option.bordaScore ?? 0)
+        ])
+      ]
+    },
+    layout: 'lightHorizontalLines',
+    fontSize: 10,
+    margin: [0, 0, 0, 10] as [number, number, number, number]
+  }];
+}
+
+function buildConstantSumContent(question: QuestionAnalytics) {
+  const options = question.analytics?.options ?? [];
+  if (options.length === 0) return [];
+
+  return [{
+    table: {
+      widths: ['*', 'auto', 'auto', 'auto'],
+      headerRows: 1,
+      body: [
+        ['Option', 'Mean', 'Median', `Share of ${question.analytics?.total ?? 100}`],
+        ...options.map(option => [
+          option.label,
+          String(option.mean ?? 0),
+          String(option.median ?? 0),
+          `${option.share ?? 0}%`
+        ])
+      ]
+    },
+    layout: 'lightHorizontalLines',
+    fontSize: 10,
+    margin: [0, 0, 0, 10] as [number, number, number, number]
+  }];
+}
+
 function buildTextContent(question: QuestionAnalytics) {
   const responses = question.analytics?.textResponses ?? [];
   if (responses.length === 0) return [];
@@ -238,6 +358,10 @@ export function getQuestionContent(question: QuestionAnalytics): Array<Record<st
     case 'choice': return buildChoiceContent(question);
     case 'numeric': return buildNumericContent(question);
     case 'text': return buildTextContent(question);
+    case 'nps': return buildNpsContent(question);
+    case 'matrix': return buildMatrixContent(question);
+    case 'ranking': return buildRankingContent(question);
+    case 'constantSum': return buildConstantSumContent(question);
     default: return buildDefaultContent();
   }
 }
@@ -0,0 +1,56 @@
+// Response filters shared by the Results page, analytics, the respondent progress list and exports.
+// The API parses the same query parameters for every one of those endpoints.
+
+export type ResponseStatusFilter = 'all' | 'Completed' | 'InProgress' | 'Pending';
+
+export interface AnswerFilter {
+  questionId: string;
+  values: string[];
+}
+
+// Hidden field values are free text; a response matches when its value equals one of them
+export interface HiddenFieldFilter {
+  name: string;
+  values: string[];
+}
+
+export interface ResponseFilterParams {
+  status: ResponseStatusFilter;
+  dateField: 'submittedAt' | 'startedAt';
+  // YYYY-MM-DD, inclusive
+  from?: string;
+  to?: string;
+  groupId?: string;
+  answers: AnswerFilter[];
+  hiddenFields: HiddenFieldFilter[];
+}
+
+export const EMPTY_RESPONSE_FILTERS: ResponseFilterParams = {
+  status: 'all',
+  dateField: 'submittedAt',
+  from: '',
+  to: '',
+  groupId: '',
+  answers: [],
+  hiddenFields: [],
+};
+
+export const hasActiveResponseFilters = (filters: ResponseFilterParams): boolean =>
+  filters.status !== 'all' || !!filters.from || !!filters.to || !!filters.groupId || filters.answers.length > 0 ||
+  filters.hiddenFields.length > 0;
+
+export const appendResponseFilters = (params: URLSearchParams, filters?: ResponseFilterParams): URLSearchParams => {
+  if (!filters) return params;
+  if (filters.status !== 'all') params.set('status', filters.status);
+  if (filters.from || filters.to) params.set('dateField', filters.dateField);
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  if (filters.groupId) params.set('groupId', filters.groupId);
+  for (const answer of filters.answers) {
+    params.append('answer', `${answer.questionId}:${answer.values.join(',')}`);
+  }
+  for (const hidden of filters.hiddenFields) {
+    params.append('hidden', `${hidden.name}:${hidden.values.join(',')}`);
+  }
+  return params;
+};
@@ -0,0 +1,240 @@
+import {
+  isRuleGroup,
+  type ConditionOperator,
+  type RuleLogical,
+  type RuleNode,
+  type VisibilityRule,
+} from '@shared/ruleEngine';
+import { NPS_MIN, NPS_MAX } from '@shared/nps';
+import { getMatrixRows } from '@shared/matrix';
+import { getHiddenFieldLabel, hiddenFieldKey, type HiddenFieldDefinition } from '@shared/hiddenFields';
+import {
+  computedVariableKey,
+  getComputedVariableLabel,
+  type ComputedVariableDefinition,
+} from '@shared/computedVariables';
+
+type ValueType = string | number | boolean;
+
+export interface RuleCandidateQuestion {
+  id: string;
+  type: string;
+  title: string;
+  options?: Array<{
+    id: string;
+    text: string;
+    value?: string;
+  }>;
+  settings?: {
+    maxRating?: number;
+    scaleMin?: number;
+    scaleMax?: number;
+    scaleStep?: number;
+    rows?: Array<{ id: string; text: string }>;
+    multiSelect?: boolean;
+  };
+}
+
+export interface UICondition {
+  id: string; // unique identifier for stable keys
+  questionId: string; // depends on this (previous) question
+  rowId?: string; // matrix questions: the row whose answer is compared
+  operator: ConditionOperator;
+  value: ValueType;
+  logical?: RuleLogical;
+}
+
+// Conditions inside a group are joined by their own `logical`; groups are joined by the group's `logical`
+export interface UIConditionGroup {
+  id: string;
+  conditions: UICondition[];
+  logical?: RuleLogical;
+}
+
+// Generate unique IDs for conditions and groups
+export const generateConditionId = (): string => {
+  // Prefer crypto.getRandomValues when available (browser), fallback to Math.random
+  let randomPart = '';
+  if (typeof globalThis !== 'undefined' && globalThis.crypto?.getRandomValues) {
+    const bytes = new Uint8Array(4);
+    globalThis.crypto.getRandomValues(bytes);
+    randomPart = Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+  } else {
+    randomPart = Math.floor(Math.random() * 0xffffffff).toString(16).padStart(8, '0');
+  }
+  return `branch-cond-${Date.now()}-${randomPart}`;
+};
+
+// Hidden fields are compared like text answers, under their `hidden.<name>` key
+export const getHiddenFieldCandidates = (fields: HiddenFieldDefinition[]): RuleCandidateQuestion[] =>
+  fields.map(field => ({
+    id: hiddenFieldKey(field.name),
+    type: 'hiddenField',
+    title: `Hidden field: ${getHiddenFieldLabel(field)}`,
+  }));
+
+// Computed variables are usually numbers, so they get the numeric operators
+export const getComputedVariableCandidates = (variables: ComputedVariableDefinition[]): RuleCandidateQuestion[] =>
+  variables.map(variable => ({
+    id: computedVariableKey(variable.name),
+    type: 'computed',
+    title: `Computed: ${getComputedVariableLabel(variable)}`,
+  }));
+
+export const getDefaultOperatorForType = (type: string | undefined): ConditionOperator => {
+  if (type === 'multiChoice') return 'count_eq';
+  return 'equals';
+};
+
+// Matrix conditions always compare one row; default to the first
+export const getDefaultRowId = (question: RuleCandidateQuestion | undefined): string | undefined =>
+  question?.type === 'matrix' ? getMatrixRows(question)[0]?.id : undefined;
+
+export const createCondition = (candidateQuestions: RuleCandidateQuestion[]): UICondition => {
+  const firstCandidate = candidateQuestions[0];
+  return {
+    id: generateConditionId(),
+    questionId: firstCandidate?.id || '',
+    rowId: getDefaultRowId(firstCandidate),
+    operator: getDefaultOperatorForType(firstCandidate?.type),
+    value: '',
+    logical: 'OR',
+  };
+};
+
+export const createConditionGroup = (candidateQuestions: RuleCandidateQuestion[]): UIConditionGroup => ({
+  id: generateConditionId(),
+  conditions: [createCondition(candidateQuestions)],
+  logical: 'OR',
+});
+
+const toUICondition = (rule: VisibilityRule): UICondition => ({
+  id: generateConditionId(),
+  questionId: rule.questionId,
+  rowId: rule.rowId,
+  operator: rule.condition.operator,
+  value: rule.condition.value as ValueType,
+  logical: rule.logical || 'OR',
+});
+
+// Flattens a group to its conditions; only one level of grouping is editable here
+const flattenConditions = (nodes: RuleNode[]): UICondition[] =>
+  nodes.flatMap(node => (isRuleGroup(node) ? flattenConditions(node.rules) : [toUICondition(node)]));
+
+export const hasDeeplyNestedGroups = (nodes: RuleNode[]): boolean =>
+  nodes.some(node => isRuleGroup(node) && node.rules.some(isRuleGroup));
+
+/**
+ * Converts stored rules to editor groups. A flat rule list becomes a single group;
+ * each top-level group (or lone condition next to groups) becomes its own group.
+ */
+export const rulesToConditionGroups = (
+  nodes: RuleNode[],
+  candidateQuestions: RuleCandidateQuestion[]
+): UIConditionGroup[] => {
+  if (nodes.length === 0) return [createConditionGroup(candidateQuestions)];
+  if (!nodes.some(isRuleGroup)) {
+    return [{ id: generateConditionId(), conditions: flattenConditions(nodes), logical: 'OR' }];
+  }
+  return nodes.map(node => ({
+    id: generateConditionId(),
+    conditions: flattenConditions([node]),
+    logical: node.logical || 'OR',
+  }));
+};
+
+const isConditionFilled = (cond: UICondition): boolean =>
+  cond.value !== '' && cond.value !== undefined && cond.value !== null;
+
+const toRuleList = (conditions: UICondition[]): VisibilityRule[] =>
+  conditions.map((cond, condIndex) => ({
+    questionId: cond.questionId,
+    ...(cond.rowId ? { rowId: cond.rowId } : {}),
+    condition: { operator: cond.operator, value: cond.value },
+    ...(condIndex < conditions.length - 1 ? { logical: cond.logical || 'OR' } : {}),
+  }));
+
+/**
+ * Converts editor groups back to stored rules, dropping conditions without a value.
+ * A single group is saved as a flat list so existing surveys keep their shape.
+ */
+export const conditionGroupsToRules = (groups: UIConditionGroup[]): RuleNode[] => {
+  const filled = groups
+    .map(group => ({ ...group, conditions: group.conditions.filter(isConditionFilled) }))
+    .filter(group => group.conditions.length > 0);
+
+  if (filled.length === 1) return toRuleList(filled[0].conditions);
+
+  return filled.map((group, groupIndex) => ({
+    rules: toRuleList(group.conditions),
+    ...(groupIndex < filled.length - 1 ? { logical: group.logical || 'OR' } : {}),
+  }));
+};
+
+export function getValueInputMin(depQ: RuleCandidateQuestion | undefined): number | undefined {
+  if (!depQ) return undefined;
+
+  switch (depQ.type) {
+    case 'ratingNumber':
+    case 'ratingStar':
+      // Rating questions typically start from 1
+      return 1;
+    case 'ratingSmiley':
+      // Smiley ratings use values 1-5
+      return 1;
+    case 'nps':
+      return NPS_MIN;
+    case 'slider':
+      // Get min from question settings
+      return depQ.settings?.scaleMin ?? 0;
+    default:
+      return undefined;
+  }
+}
+
+export function getValueInputMax(depQ: RuleCandidateQuestion | undefined): number | undefined {
+  if (!depQ) return undefined;
+
+  switch (depQ.type) {
+    case 'ratingNumber':
+    case 'ratingStar':
+      return depQ.settings?.maxRating ?? 10;
+    case 'ratingSmiley':
+      return depQ.settings?.maxRating ?? 5;
+    case 'nps':
+      return NPS_MAX;
+    case 'slider':
+      return depQ.settings?.scaleMax ?? 100;
+    default:
+      return undefined;
+  }
+}
+
+export const isCountOperator = (operator: ConditionOperator): boolean =>
+  operator === 'count_eq' || operator === 'count_gt' || operator === 'count_lt';
+
+/**
+ * Returns an error message when a numeric condition is outside its question's range.
+ */
+export const validateConditionRanges = (
+  groups: UIConditionGroup[],
+  candidateQuestions: RuleCandidateQuestion[]
+): string | null => {
+  for (const cond of groups.flatMap(group => group.conditions)) {
+    if (!isConditionFilled(cond) || isCountOperator(cond.operator)) continue;
+
+    const depQ = candidateQuestions.find(q => q.id === cond.questionId);
+    const min = getValueInputMin(depQ);
+    const max = getValueInputMax(depQ);
+
+    // Only validate if this is a numeric input (rating or slider)
+    if (min !== undefined && max !== undefined) {
+      const numValue = typeof cond.value === 'number' ? cond.value : Number(cond.value);
+      if (!isNaN(numValue) && (numValue < min || numValue > max)) {
+        const questionTitle = depQ?.title || 'the selected question';
+        return `Please enter a value between ${min} and ${max} for the question ${questionTitle}.`;
+      }
+    }
+  }
+  return null;
+};
@@ -7,6 +7,13 @@ import {
   importSurveyFromFile,
   uploadImportedSurvey,
 } from "./surveyImportExport";
+import type { SurveyRole } from "@shared/surveyAccess";
+import { NPS_DEFAULT_LABELS } from "@shared/nps";
+import { createDefaultMatrix } from "@shared/matrix";
+import { getHiddenFields, validateHiddenFieldDefinitions } from "@shared/hiddenFields";
+import { validateComputedVariableDefinitions } from "@shared/computedVariables";
+import { getLoopedQuestionIds, validateLoops } from "@shared/loops";
+import { CONSTANT_SUM_DEFAULT_TOTAL } from "@shared/numeric";
 
 export type StateSetter<T> = (value: T | ((prev: T) => T)) => void;
 
@@ -32,6 +39,7 @@ export interface SurveySummary {
   updatedAt: string;
   responseCount?: number;
   locked?: boolean;
+  role?: SurveyRole | null;
 }
 
 export interface PaginationState {
@@ -67,6 +75,20 @@ export const validateSurveyData = (surveyData: any): string | null => {
     if (!Array.isArray(page.branching))
       return `Invalid branching array at page ${i + 1}`;
   }
+  const loopIssue = validateLoops(surveyData.pages)[0];
+  if (loopIssue) return `Invalid loop on page ${loopIssue.pageIndex + 1}: ${loopIssue.message}`;
+  if (surveyData.hiddenFields !== undefined) {
+    const problem = validateHiddenFieldDefinitions(surveyData.hiddenFields);
+    if (problem) return problem;
+  }
+  if (surveyData.computedVariables !== undefined) {
+    return validateComputedVariableDefinitions(
+      surveyData.computedVariables,
+      surveyData.pages.flatMap((page: { questions: Array<{ id: string }> }) => page.questions.map(question => question.id)),
+      getHiddenFields(surveyData).map(field => field.name),
+      [...getLoopedQuestionIds(surveyData.pages)]
+    );
+  }
   return null;
 };
 
@@ -260,19 +282,62 @@ const typeMapping: Record<string, string> = {
   rating_number: "ratingNumber",
   text_short: "textShort",
   text_long: "textLong",
+  constant_sum: "constantSum",
 };
 
 export const mapQuestionType = (t: string): string => typeMapping[t] || t;
 
+// Anonymous-link responses are keyed "anonymous:<session id>" in respondent lists
+const ANONYMOUS_RESPONDENT_PREFIX = "anonymous:";
+
+export const formatRespondentLabel = (respondentKey: string): string =>
+  respondentKey.startsWith(ANONYMOUS_RESPONDENT_PREFIX)
+    ? `Anonymous (${respondentKey.slice(ANONYMOUS_RESPONDENT_PREFIX.length, ANONYMOUS_RESPONDENT_PREFIX.length + 8)})`
+    : respondentKey;
+
+// Published surveys keep pending edits in `draft`; the builder edits that content instead
+const DRAFT_CONTENT_FIELDS = ["title", "description", "theme", "backgroundColor", "textColor", "pages", "quiz", "hiddenFields", "computedVariables"] as const;
+
+export const withDraftContent = <T extends { draft?: Record<string, unknown> | null }>(survey: T): T => {
+  if (!survey.draft) return survey;
+  const content: Record<string, unknown> = {};
+  for (const field of DRAFT_CONTENT_FIELDS) {
+    if (survey.draft[field] !== undefined) {
+      content[field] = survey.draft[field];
+    }
+  }
+  return { ...survey, ...content };
+};
+
+// Ranking and constant-sum questions need more than one option to order or split a total across
+const getDefaultOptions = (type: string) => {
+  if (type === "ranking" || type === "constantSum") {
+    return [1, 2, 3].map((n) => ({ id: `opt_${n}`, text: `Option ${n}` }));
+  }
+  return ["singleChoice", "multiChoice", "dropdown"].includes(type)
+    ? [{ id: "opt_1", text: "Option 1" }]
+    : undefined;
+};
+
 export const createNewQuestion = (type: string): Question => {
   const mappedType = mapQuestionType(type);
   let settings: Record<string, unknown> = {};
-  if (mappedType.startsWith("rating")) {
+  if (mappedType === "matrix") {
+    // Matrix columns are stored as options, so the defaults bring both
+    return { id: `q_${Date.now()}`, type: mappedType, title: "", description: "", required: false, ...createDefaultMatrix() };
+  }
+  if (mappedType === "nps") {
+    settings = { scaleLabels: { ...NPS_DEFAULT_LABELS } };
+  } else if (mappedType.startsWith("rating")) {
     settings = {
       maxRating: ["ratingSmiley", "ratingStar"].includes(mappedType) ? 5 : 10,
     };
   } else if (mappedType === "slider") {
     settings = { scaleMin: 0, scaleMax: 100, scaleStep: 1 };
+  } else if (mappedType === "constantSum") {
+    settings = { sumTotal: CONSTANT_SUM_DEFAULT_TOTAL };
+  } else if (mappedType === "number") {
+    settings = { decimals: 0 };
   }
   return {
     id: `q_${Date.now()}`,
@@ -280,9 +345,7 @@ export const createNewQuestion = (type: string): Question => {
     title: "",
     description: "",
     required: false,
-    options: ["singleChoice", "multiChoice", "dropdown"].includes(mappedType)
-      ? [{ id: "opt_1", text: "Option 1" }]
-      : undefined,
+    options: getDefaultOptions(mappedType),
     settings,
   };
 };
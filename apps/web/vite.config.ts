@@ -2,7 +2,7 @@ import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 import tailwindcss from '@tailwindcss/vite';
 import { fileURLToPath } from 'url';
-import { dirname } from 'path';
+import { dirname, resolve } from 'path';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -11,6 +11,12 @@ export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, __dirname, '');
   return {
     plugins: [react(), tailwindcss()],
+    resolve: {
+      alias: {
+        // Modules shared with the API (e.g. the branching/visibility rule engine)
+        '@shared': resolve(__dirname, '../api/src/shared'),
+      },
+    },
     server: {
       host: true,
       port: 5173,